@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "public"."content" ADD COLUMN "price" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "public"."content_purchases" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "status" TEXT NOT NULL DEFAULT 'COMPLETED',
+    "stripeSessionId" TEXT NOT NULL,
+    "stripePaymentIntentId" TEXT,
+    "purchasedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_purchases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_purchases_stripeSessionId_key" ON "public"."content_purchases"("stripeSessionId");
+
+-- CreateIndex
+CREATE INDEX "content_purchases_fanId_status_idx" ON "public"."content_purchases"("fanId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_purchases_contentId_fanId_key" ON "public"."content_purchases"("contentId", "fanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."content_purchases" ADD CONSTRAINT "content_purchases_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "public"."content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_purchases" ADD CONSTRAINT "content_purchases_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
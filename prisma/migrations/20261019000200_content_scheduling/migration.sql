@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."content" ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "expiryAction" TEXT,
+ADD COLUMN "fallbackTierId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "content_status_publishAt_idx" ON "public"."content"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "content_status_expiresAt_idx" ON "public"."content"("status", "expiresAt");
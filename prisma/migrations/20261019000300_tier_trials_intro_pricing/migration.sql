@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."tiers" ADD COLUMN "trialDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "introPrice" DECIMAL(65,30),
+ADD COLUMN "introMonths" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."subscriptions" ADD COLUMN "trialEndsAt" TIMESTAMP(3),
+ADD COLUMN "introPriceEndsAt" TIMESTAMP(3);
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "public"."promo_codes" (
+    "id" TEXT NOT NULL,
+    "tierId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountType" TEXT NOT NULL,
+    "discountValue" DECIMAL(65,30) NOT NULL,
+    "durationMonths" INTEGER NOT NULL DEFAULT 1,
+    "maxRedemptions" INTEGER,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "fanId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "stripeCouponId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."promo_code_redemptions" (
+    "id" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "subscriptionId" TEXT,
+    "stripeSessionId" TEXT NOT NULL,
+    "originalAmount" DECIMAL(65,30) NOT NULL,
+    "discountAmount" DECIMAL(65,30) NOT NULL,
+    "redeemedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_code_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "promo_codes_tierId_isActive_idx" ON "public"."promo_codes"("tierId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_tierId_code_key" ON "public"."promo_codes"("tierId", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_code_redemptions_stripeSessionId_key" ON "public"."promo_code_redemptions"("stripeSessionId");
+
+-- CreateIndex
+CREATE INDEX "promo_code_redemptions_fanId_idx" ON "public"."promo_code_redemptions"("fanId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_code_redemptions_promoCodeId_fanId_key" ON "public"."promo_code_redemptions"("promoCodeId", "fanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_codes" ADD CONSTRAINT "promo_codes_tierId_fkey" FOREIGN KEY ("tierId") REFERENCES "public"."tiers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_codes" ADD CONSTRAINT "promo_codes_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_code_redemptions" ADD CONSTRAINT "promo_code_redemptions_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "public"."promo_codes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_code_redemptions" ADD CONSTRAINT "promo_code_redemptions_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_code_redemptions" ADD CONSTRAINT "promo_code_redemptions_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "public"."subscriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,95 @@
+-- CreateTable
+CREATE TABLE "public"."bundles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "price" DECIMAL(65,30) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "stripeProductId" TEXT,
+    "stripePriceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bundles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."bundle_tiers" (
+    "id" TEXT NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "tierId" TEXT NOT NULL,
+    "revenueShare" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "bundle_tiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."bundle_subscriptions" (
+    "id" TEXT NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "stripeSubscriptionId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "status" TEXT NOT NULL,
+    "currentPeriodStart" TIMESTAMP(3) NOT NULL,
+    "currentPeriodEnd" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bundle_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."bundle_revenue_splits" (
+    "id" TEXT NOT NULL,
+    "bundleSubscriptionId" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "stripeInvoiceId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "stripeTransferId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bundle_revenue_splits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bundles_isActive_idx" ON "public"."bundles"("isActive");
+
+-- CreateIndex
+CREATE INDEX "bundle_tiers_tierId_idx" ON "public"."bundle_tiers"("tierId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bundle_tiers_bundleId_tierId_key" ON "public"."bundle_tiers"("bundleId", "tierId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bundle_subscriptions_stripeSubscriptionId_key" ON "public"."bundle_subscriptions"("stripeSubscriptionId");
+
+-- CreateIndex
+CREATE INDEX "bundle_subscriptions_fanId_status_idx" ON "public"."bundle_subscriptions"("fanId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bundle_subscriptions_bundleId_fanId_key" ON "public"."bundle_subscriptions"("bundleId", "fanId");
+
+-- CreateIndex
+CREATE INDEX "bundle_revenue_splits_artistId_createdAt_idx" ON "public"."bundle_revenue_splits"("artistId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bundle_revenue_splits_stripeInvoiceId_artistId_key" ON "public"."bundle_revenue_splits"("stripeInvoiceId", "artistId");
+
+-- AddForeignKey
+ALTER TABLE "public"."bundle_tiers" ADD CONSTRAINT "bundle_tiers_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "public"."bundles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bundle_tiers" ADD CONSTRAINT "bundle_tiers_tierId_fkey" FOREIGN KEY ("tierId") REFERENCES "public"."tiers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bundle_subscriptions" ADD CONSTRAINT "bundle_subscriptions_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "public"."bundles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bundle_subscriptions" ADD CONSTRAINT "bundle_subscriptions_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bundle_revenue_splits" ADD CONSTRAINT "bundle_revenue_splits_bundleSubscriptionId_fkey" FOREIGN KEY ("bundleSubscriptionId") REFERENCES "public"."bundle_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bundle_revenue_splits" ADD CONSTRAINT "bundle_revenue_splits_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "public"."subscriptions" ADD COLUMN "autoRenew" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "public"."gift_subscriptions" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "purchaserId" TEXT NOT NULL,
+    "recipientEmail" TEXT NOT NULL,
+    "recipientName" TEXT,
+    "message" TEXT,
+    "artistId" TEXT NOT NULL,
+    "tierId" TEXT NOT NULL,
+    "months" INTEGER NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "stripePaymentIntentId" TEXT,
+    "redeemedById" TEXT,
+    "redeemedAt" TIMESTAMP(3),
+    "subscriptionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gift_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_subscriptions_code_key" ON "public"."gift_subscriptions"("code");
+
+-- CreateIndex
+CREATE INDEX "gift_subscriptions_purchaserId_idx" ON "public"."gift_subscriptions"("purchaserId");
+
+-- CreateIndex
+CREATE INDEX "gift_subscriptions_recipientEmail_idx" ON "public"."gift_subscriptions"("recipientEmail");
+
+-- CreateIndex
+CREATE INDEX "gift_subscriptions_tierId_idx" ON "public"."gift_subscriptions"("tierId");
+
+-- AddForeignKey
+ALTER TABLE "public"."gift_subscriptions" ADD CONSTRAINT "gift_subscriptions_purchaserId_fkey" FOREIGN KEY ("purchaserId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."gift_subscriptions" ADD CONSTRAINT "gift_subscriptions_redeemedById_fkey" FOREIGN KEY ("redeemedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."gift_subscriptions" ADD CONSTRAINT "gift_subscriptions_tierId_fkey" FOREIGN KEY ("tierId") REFERENCES "public"."tiers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."gift_subscriptions" ADD CONSTRAINT "gift_subscriptions_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "public"."subscriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
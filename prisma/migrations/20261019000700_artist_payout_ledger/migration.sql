@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."artist_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "stripePaymentIntentId" TEXT,
+    "grossAmount" DECIMAL(65,30) NOT NULL,
+    "platformFee" DECIMAL(65,30) NOT NULL,
+    "netAmount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "description" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "artist_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "artist_ledger_entries_artistId_type_sourceId_key" ON "public"."artist_ledger_entries"("artistId", "type", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "artist_ledger_entries_artistId_occurredAt_idx" ON "public"."artist_ledger_entries"("artistId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "artist_ledger_entries_stripePaymentIntentId_idx" ON "public"."artist_ledger_entries"("stripePaymentIntentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."artist_ledger_entries" ADD CONSTRAINT "artist_ledger_entries_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
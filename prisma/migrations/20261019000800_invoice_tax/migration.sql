@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."invoices" ADD COLUMN     "customerVatNumber" TEXT,
+ADD COLUMN     "reverseCharge" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "taxAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxCountry" TEXT,
+ADD COLUMN     "taxRate" DECIMAL(65,30);
+
+-- CreateIndex
+CREATE INDEX "invoices_taxCountry_paidAt_idx" ON "public"."invoices"("taxCountry", "paidAt");
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "public"."payment_failures" ADD COLUMN     "gracePeriodEndsAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'RETRYING';
+
+-- CreateTable
+CREATE TABLE "public"."dunning_policies" (
+    "id" TEXT NOT NULL,
+    "retryIntervalsDays" INTEGER[],
+    "gracePeriodDays" INTEGER NOT NULL DEFAULT 7,
+    "sendReminders" BOOLEAN NOT NULL DEFAULT true,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "dunning_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."payment_failure_events" (
+    "id" TEXT NOT NULL,
+    "paymentFailureId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "attemptNumber" INTEGER NOT NULL,
+    "message" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_failure_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_failure_events_paymentFailureId_occurredAt_idx" ON "public"."payment_failure_events"("paymentFailureId", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_failure_events" ADD CONSTRAINT "payment_failure_events_paymentFailureId_fkey" FOREIGN KEY ("paymentFailureId") REFERENCES "public"."payment_failures"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."subscriptions" ADD COLUMN     "pauseResumesAt" TIMESTAMP(3),
+ADD COLUMN     "pausedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "subscriptions_status_pauseResumesAt_idx" ON "public"."subscriptions"("status", "pauseResumesAt");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "public"."stream_clips" (
+    "id" TEXT NOT NULL,
+    "streamId" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "startSeconds" DOUBLE PRECISION NOT NULL,
+    "endSeconds" DOUBLE PRECISION NOT NULL,
+    "jobId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stream_clips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stream_clips_contentId_key" ON "public"."stream_clips"("contentId");
+
+-- CreateIndex
+CREATE INDEX "stream_clips_streamId_createdAt_idx" ON "public"."stream_clips"("streamId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "stream_clips_recordingId_idx" ON "public"."stream_clips"("recordingId");
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_clips" ADD CONSTRAINT "stream_clips_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "public"."content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_clips" ADD CONSTRAINT "stream_clips_streamId_fkey" FOREIGN KEY ("streamId") REFERENCES "public"."live_streams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_clips" ADD CONSTRAINT "stream_clips_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "public"."stream_recordings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."stream_chapters" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "startSeconds" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stream_chapters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stream_chapters_recordingId_startSeconds_idx" ON "public"."stream_chapters"("recordingId", "startSeconds");
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_chapters" ADD CONSTRAINT "stream_chapters_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "public"."stream_recordings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
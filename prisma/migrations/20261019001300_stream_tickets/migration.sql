@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "public"."live_streams" ADD COLUMN "ticketCapacity" INTEGER,
+ADD COLUMN "presaleStartsAt" TIMESTAMP(3),
+ADD COLUMN "ticketSalesStartAt" TIMESTAMP(3),
+ADD COLUMN "earlyBirdPrice" DECIMAL(65,30),
+ADD COLUMN "earlyBirdEndsAt" TIMESTAMP(3),
+ADD COLUMN "tierHolderDiscountPercent" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."stream_tickets" (
+    "id" TEXT NOT NULL,
+    "streamId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "pricing" TEXT NOT NULL DEFAULT 'STANDARD',
+    "discountPercent" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reservedUntil" TIMESTAMP(3),
+    "stripeSessionId" TEXT,
+    "stripePaymentIntentId" TEXT,
+    "purchasedAt" TIMESTAMP(3),
+    "refundedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stream_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stream_tickets_stripeSessionId_key" ON "public"."stream_tickets"("stripeSessionId");
+
+-- CreateIndex
+CREATE INDEX "stream_tickets_streamId_status_idx" ON "public"."stream_tickets"("streamId", "status");
+
+-- CreateIndex
+CREATE INDEX "stream_tickets_fanId_status_idx" ON "public"."stream_tickets"("fanId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stream_tickets_streamId_fanId_key" ON "public"."stream_tickets"("streamId", "fanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_tickets" ADD CONSTRAINT "stream_tickets_streamId_fkey" FOREIGN KEY ("streamId") REFERENCES "public"."live_streams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_tickets" ADD CONSTRAINT "stream_tickets_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
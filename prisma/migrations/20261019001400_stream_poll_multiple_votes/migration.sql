@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "public"."stream_poll_votes_pollId_sessionId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stream_poll_votes_pollId_sessionId_optionIndex_key" ON "public"."stream_poll_votes"("pollId", "sessionId", "optionIndex");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."live_streams" ADD COLUMN "chatSlowModeSeconds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "chatSubscribersOnly" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "chatTierIds" TEXT,
+ADD COLUMN "chatEmoteOnly" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "chatBannedKeywords" TEXT NOT NULL DEFAULT '[]';
+
+-- CreateTable
+CREATE TABLE "public"."stream_moderators" (
+    "id" TEXT NOT NULL,
+    "streamId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "addedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stream_moderators_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stream_moderators_userId_idx" ON "public"."stream_moderators"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stream_moderators_streamId_userId_key" ON "public"."stream_moderators"("streamId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_moderators" ADD CONSTRAINT "stream_moderators_streamId_fkey" FOREIGN KEY ("streamId") REFERENCES "public"."live_streams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_moderators" ADD CONSTRAINT "stream_moderators_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
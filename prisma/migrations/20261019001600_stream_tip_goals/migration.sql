@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."live_streams" ADD COLUMN "tipGoalTitle" TEXT,
+ADD COLUMN "tipGoalAmount" DECIMAL(65,30),
+ADD COLUMN "overlayToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "live_streams_overlayToken_key" ON "public"."live_streams"("overlayToken");
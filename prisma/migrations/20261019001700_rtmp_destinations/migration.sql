@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."rtmp_destinations" (
+    "id" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ingestUrl" TEXT NOT NULL,
+    "encryptedStreamKey" TEXT NOT NULL,
+    "streamKeyHint" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'IDLE',
+    "streamId" TEXT,
+    "lastError" TEXT,
+    "lastStatusAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rtmp_destinations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rtmp_destinations_artistId_idx" ON "public"."rtmp_destinations"("artistId");
+
+-- CreateIndex
+CREATE INDEX "rtmp_destinations_streamId_idx" ON "public"."rtmp_destinations"("streamId");
+
+-- AddForeignKey
+ALTER TABLE "public"."rtmp_destinations" ADD CONSTRAINT "rtmp_destinations_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."rtmp_destinations" ADD CONSTRAINT "rtmp_destinations_streamId_fkey" FOREIGN KEY ("streamId") REFERENCES "public"."live_streams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "calendarToken" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."stream_rsvps" (
+    "id" TEXT NOT NULL,
+    "streamId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "reminderOffsets" TEXT NOT NULL DEFAULT '[1440,60,10]',
+    "channels" TEXT NOT NULL DEFAULT '["email","in_app","push"]',
+    "remindersSent" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stream_rsvps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarToken_key" ON "public"."users"("calendarToken");
+
+-- CreateIndex
+CREATE INDEX "stream_rsvps_fanId_idx" ON "public"."stream_rsvps"("fanId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stream_rsvps_streamId_fanId_key" ON "public"."stream_rsvps"("streamId", "fanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_rsvps" ADD CONSTRAINT "stream_rsvps_streamId_fkey" FOREIGN KEY ("streamId") REFERENCES "public"."live_streams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."stream_rsvps" ADD CONSTRAINT "stream_rsvps_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "public"."artists" ADD COLUMN "dmPrice" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN "dmFee" DECIMAL(65,30),
+ADD COLUMN "dmFeePaidAt" TIMESTAMP(3),
+ADD COLUMN "attachmentPrice" DECIMAL(65,30),
+ADD COLUMN "attachmentPreviewUrl" TEXT,
+ADD COLUMN "attachmentUnlockedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."message_purchases" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "stripeSessionId" TEXT,
+    "stripePaymentIntentId" TEXT,
+    "purchasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_purchases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_purchases_stripeSessionId_key" ON "public"."message_purchases"("stripeSessionId");
+
+-- CreateIndex
+CREATE INDEX "message_purchases_fanId_status_idx" ON "public"."message_purchases"("fanId", "status");
+
+-- CreateIndex
+CREATE INDEX "message_purchases_artistId_status_idx" ON "public"."message_purchases"("artistId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_purchases_messageId_type_key" ON "public"."message_purchases"("messageId", "type");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_purchases" ADD CONSTRAINT "message_purchases_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_purchases" ADD CONSTRAINT "message_purchases_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN "massMessageId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."mass_message_opt_outs" (
+    "id" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mass_message_opt_outs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."mass_messages" (
+    "id" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "segment" TEXT NOT NULL,
+    "segmentOptions" TEXT NOT NULL DEFAULT '{}',
+    "content" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'TEXT',
+    "attachmentUrl" TEXT,
+    "attachmentPrice" DECIMAL(65,30),
+    "attachmentPreviewUrl" TEXT,
+    "recipientIds" TEXT NOT NULL DEFAULT '[]',
+    "recipientCount" INTEGER NOT NULL DEFAULT 0,
+    "cursor" INTEGER NOT NULL DEFAULT 0,
+    "sentCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'SENDING',
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mass_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "messages_massMessageId_idx" ON "public"."messages"("massMessageId");
+
+-- CreateIndex
+CREATE INDEX "mass_message_opt_outs_fanId_idx" ON "public"."mass_message_opt_outs"("fanId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mass_message_opt_outs_artistId_fanId_key" ON "public"."mass_message_opt_outs"("artistId", "fanId");
+
+-- CreateIndex
+CREATE INDEX "mass_messages_artistId_createdAt_idx" ON "public"."mass_messages"("artistId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "mass_messages_status_idx" ON "public"."mass_messages"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_massMessageId_fkey" FOREIGN KEY ("massMessageId") REFERENCES "public"."mass_messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."mass_message_opt_outs" ADD CONSTRAINT "mass_message_opt_outs_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."mass_messages" ADD CONSTRAINT "mass_messages_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,112 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ALTER COLUMN "recipientId" DROP NOT NULL,
+ADD COLUMN "roomId" TEXT,
+ADD COLUMN "replyToId" TEXT,
+ADD COLUMN "attachments" TEXT,
+ADD COLUMN "editedAt" TIMESTAMP(3),
+ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."chat_room_members" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'MEMBER',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+    "lastReadAt" TIMESTAMP(3),
+
+    CONSTRAINT "chat_room_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."chat_rooms" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'GROUP',
+    "directKey" TEXT,
+    "isPrivate" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "settings" TEXT NOT NULL DEFAULT '{}',
+    "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."message_edits" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "previousContent" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."message_reactions" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_room_members_userId_leftAt_idx" ON "public"."chat_room_members"("userId", "leftAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_room_members_roomId_userId_key" ON "public"."chat_room_members"("roomId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_rooms_directKey_key" ON "public"."chat_rooms"("directKey");
+
+-- CreateIndex
+CREATE INDEX "chat_rooms_createdBy_idx" ON "public"."chat_rooms"("createdBy");
+
+-- CreateIndex
+CREATE INDEX "chat_rooms_lastActivityAt_idx" ON "public"."chat_rooms"("lastActivityAt");
+
+-- CreateIndex
+CREATE INDEX "messages_roomId_createdAt_idx" ON "public"."messages"("roomId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "messages_replyToId_idx" ON "public"."messages"("replyToId");
+
+-- CreateIndex
+CREATE INDEX "message_edits_messageId_editedAt_idx" ON "public"."message_edits"("messageId", "editedAt");
+
+-- CreateIndex
+CREATE INDEX "message_reactions_messageId_idx" ON "public"."message_reactions"("messageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_reactions_messageId_userId_emoji_key" ON "public"."message_reactions"("messageId", "userId", "emoji");
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_room_members" ADD CONSTRAINT "chat_room_members_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."chat_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_room_members" ADD CONSTRAINT "chat_room_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_rooms" ADD CONSTRAINT "chat_rooms_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."chat_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_replyToId_fkey" FOREIGN KEY ("replyToId") REFERENCES "public"."messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_edits" ADD CONSTRAINT "message_edits_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_reactions" ADD CONSTRAINT "message_reactions_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_reactions" ADD CONSTRAINT "message_reactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
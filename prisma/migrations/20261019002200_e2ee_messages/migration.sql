@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN "encryptionIv" TEXT,
+ADD COLUMN "isEncrypted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "recipientKeyId" TEXT,
+ADD COLUMN "senderKeyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "e2eeKeyId" TEXT,
+ADD COLUMN "e2eePublicKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."user_encryption_keys" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "user_encryption_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_encryption_keys_userId_retiredAt_idx" ON "public"."user_encryption_keys"("userId", "retiredAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_encryption_keys" ADD CONSTRAINT "user_encryption_keys_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
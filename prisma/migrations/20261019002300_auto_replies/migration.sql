@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "public"."saved_replies" (
+    "id" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_replies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."auto_reply_rules" (
+    "id" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "keywords" TEXT NOT NULL DEFAULT '[]',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "cooldownHours" INTEGER NOT NULL DEFAULT 24,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auto_reply_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."auto_replies" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "fanId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auto_replies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_replies_artistId_idx" ON "public"."saved_replies"("artistId");
+
+-- CreateIndex
+CREATE INDEX "auto_reply_rules_artistId_trigger_isActive_idx" ON "public"."auto_reply_rules"("artistId", "trigger", "isActive");
+
+-- CreateIndex
+CREATE INDEX "auto_replies_ruleId_fanId_createdAt_idx" ON "public"."auto_replies"("ruleId", "fanId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "auto_replies_fanId_idx" ON "public"."auto_replies"("fanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."saved_replies" ADD CONSTRAINT "saved_replies_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_reply_rules" ADD CONSTRAINT "auto_reply_rules_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_replies" ADD CONSTRAINT "auto_replies_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "public"."auto_reply_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_replies" ADD CONSTRAINT "auto_replies_fanId_fkey" FOREIGN KEY ("fanId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
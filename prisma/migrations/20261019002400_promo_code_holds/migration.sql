@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."promo_code_redemptions" ALTER COLUMN "stripeSessionId" DROP NOT NULL,
+ADD COLUMN "status" TEXT NOT NULL DEFAULT 'REDEEMED',
+ADD COLUMN "reservedUntil" TIMESTAMP(3);
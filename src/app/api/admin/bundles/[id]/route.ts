@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminApi } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import { updateBundleSchema } from '@/lib/bundles';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+
+// PUT /api/admin/bundles/[id] - Update bundle details or retire it from sale.
+// Price and tiers are fixed once fans can subscribe; create a new bundle instead.
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return withAdminApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = updateBundleSchema.parse(body);
+
+      const existingBundle = await prisma.bundles.findUnique({
+        where: { id: params.id },
+      });
+
+      if (!existingBundle) {
+        return NextResponse.json({ error: 'Bundle not found' }, { status: 404 });
+      }
+
+      const bundle = await prisma.bundles.update({
+        where: { id: params.id },
+        data: {
+          ...validatedData,
+          updatedAt: new Date(),
+        },
+      });
+
+      logger.info('Bundle updated', {
+        adminUserId: req.user.id,
+        bundleId: bundle.id,
+        changes: Object.keys(validatedData),
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...bundle,
+          price: Number(bundle.price),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid bundle data',
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      logger.error(
+        'Admin bundle update error',
+        { adminUserId: req.user.id, bundleId: params.id },
+        error as Error
+      );
+      return NextResponse.json({ error: 'Failed to update bundle' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminApi } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import { createBundle, createBundleSchema } from '@/lib/bundles';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+
+// GET /api/admin/bundles - List all bundles with subscriber counts
+export async function GET(request: NextRequest) {
+  return withAdminApi(request, async req => {
+    try {
+      const bundles = await prisma.bundles.findMany({
+        include: {
+          bundle_tiers: {
+            include: {
+              tiers: {
+                select: {
+                  id: true,
+                  name: true,
+                  artistId: true,
+                },
+              },
+            },
+          },
+          _count: {
+            select: {
+              bundle_subscriptions: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: bundles.map(bundle => ({
+          id: bundle.id,
+          name: bundle.name,
+          description: bundle.description,
+          price: Number(bundle.price),
+          isActive: bundle.isActive,
+          subscriberCount: bundle._count.bundle_subscriptions,
+          tiers: bundle.bundle_tiers.map(bundleTier => ({
+            ...bundleTier.tiers,
+            revenueShare: Number(bundleTier.revenueShare),
+          })),
+          createdAt: bundle.createdAt,
+        })),
+      });
+    } catch (error) {
+      logger.error('Admin bundles fetch error', { adminUserId: req.user.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to fetch bundles' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/admin/bundles - Create a multi-artist bundle
+export async function POST(request: NextRequest) {
+  return withAdminApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = createBundleSchema.parse(body);
+
+      const bundle = await createBundle(validatedData);
+
+      logger.info('Bundle created', {
+        adminUserId: req.user.id,
+        bundleId: bundle.id,
+        tierCount: bundle.bundle_tiers.length,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            ...bundle,
+            price: Number(bundle.price),
+            bundle_tiers: bundle.bundle_tiers.map(bundleTier => ({
+              ...bundleTier,
+              revenueShare: Number(bundleTier.revenueShare),
+            })),
+          },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid bundle data',
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.startsWith('One or more tiers')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+
+      logger.error('Admin bundle creation error', { adminUserId: req.user.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to create bundle' }, { status: 500 });
+    }
+  });
+}
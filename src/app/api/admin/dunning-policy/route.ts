@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminApi } from '@/lib/api-auth';
+import {
+  dunningPolicySchema,
+  getDunningPolicy,
+  getMaxAttempts,
+  updateDunningPolicy,
+} from '@/lib/dunning';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/dunning-policy - Retry schedule and grace period for failed payments
+export async function GET(request: NextRequest) {
+  return withAdminApi(request, async req => {
+    try {
+      const policy = await getDunningPolicy();
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...policy,
+          maxAttempts: getMaxAttempts(policy),
+        },
+      });
+    } catch (error) {
+      logger.error('Dunning policy fetch error', { adminUserId: req.user.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to fetch dunning policy' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/admin/dunning-policy - Replace the dunning policy
+export async function PUT(request: NextRequest) {
+  return withAdminApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = dunningPolicySchema.parse(body);
+
+      const policy = await updateDunningPolicy(validatedData, req.user.id);
+
+      logger.info('Dunning policy updated', {
+        adminUserId: req.user.id,
+        retryIntervalsDays: policy.retryIntervalsDays,
+        gracePeriodDays: policy.gracePeriodDays,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...policy,
+          maxAttempts: getMaxAttempts(policy),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid dunning policy',
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      logger.error('Dunning policy update error', { adminUserId: req.user.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to update dunning policy' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminApi } from '@/lib/api-auth';
+import { getTaxReport, taxReportToCsv } from '@/lib/tax';
+import { z } from 'zod';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const taxReportQuerySchema = z.object({
+  period: z
+    .string()
+    .regex(
+      /^\d{4}-((0[1-9]|1[0-2])|Q[1-4])$/,
+      'Period must be a month (YYYY-MM) or a quarter (YYYY-Qn)'
+    ),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+// GET /api/admin/tax-report?period=YYYY-MM|YYYY-Qn&format=json|csv - VAT collected per jurisdiction
+export async function GET(request: NextRequest) {
+  return withAdminApi(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const { period, format } = taxReportQuerySchema.parse({
+        period: searchParams.get('period') || undefined,
+        format: searchParams.get('format') || undefined,
+      });
+
+      const report = await getTaxReport(period);
+
+      if (format === 'csv') {
+        return new NextResponse(taxReportToCsv(report), {
+          status: 200,
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="tax-report-${period}.csv"`,
+          },
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid tax report request',
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      console.error('Tax report error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to generate tax report',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
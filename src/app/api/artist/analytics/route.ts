@@ -13,6 +13,7 @@ import {
   getSubscriberCountPerTier,
   getChurnAnalysis,
 } from '@/lib/analytics';
+import { getPromoCodeRedemptionReport } from '@/lib/promo-codes';
 import { prisma } from '@/lib/prisma';
 
 export async function GET(request: NextRequest) {
@@ -37,7 +38,7 @@ export async function GET(request: NextRequest) {
     const period = searchParams.get('period');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
-    const type = searchParams.get('type'); // 'daily', 'tiers', 'churn'
+    const type = searchParams.get('type'); // 'daily', 'tiers', 'churn', 'promos'
     const summary = searchParams.get('summary'); // 'true' for dashboard summary
 
     // Handle dashboard summary request
@@ -144,6 +145,14 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    if (type === 'promos') {
+      const promoReport = await getPromoCodeRedemptionReport(session.user.id);
+      return NextResponse.json({
+        success: true,
+        data: promoReport,
+      });
+    }
+
     if (type === 'churn') {
       const churnData = await getChurnAnalysis(session.user.id);
       return NextResponse.json({
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import {
+  deleteAutoReplyRule,
+  updateAutoReplyRule,
+  updateAutoReplyRuleSchema,
+} from '@/lib/auto-responder';
+
+// PATCH /api/artist/auto-replies/[id] - Edit, pause or reschedule an auto-reply
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = updateAutoReplyRuleSchema.parse(body);
+
+      const rule = await updateAutoReplyRule(req.user.id, params.id, validatedData);
+
+      return NextResponse.json({ success: true, data: rule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid auto-reply', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Update auto-reply error:', error);
+      return NextResponse.json({ error: 'Failed to update auto-reply' }, { status: 500 });
+    }
+  });
+}
+
+// DELETE /api/artist/auto-replies/[id] - Remove an auto-reply
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return withArtistApi(request, async req => {
+    try {
+      await deleteAutoReplyRule(req.user.id, params.id);
+
+      return NextResponse.json({ success: true, message: 'Auto-reply deleted' });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Delete auto-reply error:', error);
+      return NextResponse.json({ error: 'Failed to delete auto-reply' }, { status: 500 });
+    }
+  });
+}
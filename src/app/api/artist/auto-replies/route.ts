@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { autoReplyRuleSchema, createAutoReplyRule, listAutoReplyRules } from '@/lib/auto-responder';
+
+// GET /api/artist/auto-replies - Welcome, away and keyword auto-replies
+export async function GET(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const rules = await listAutoReplyRules(req.user.id);
+
+      return NextResponse.json({ success: true, data: rules });
+    } catch (error) {
+      console.error('List auto-replies error:', error);
+      return NextResponse.json({ error: 'Failed to fetch auto-replies' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/artist/auto-replies - Add an auto-reply rule
+export async function POST(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = autoReplyRuleSchema.parse(body);
+
+      const rule = await createAutoReplyRule(req.user.id, validatedData);
+
+      return NextResponse.json({ success: true, data: rule }, { status: 201 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid auto-reply', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Create auto-reply error:', error);
+      return NextResponse.json({ error: 'Failed to create auto-reply' }, { status: 500 });
+    }
+  });
+}
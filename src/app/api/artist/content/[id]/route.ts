@@ -12,6 +12,7 @@ const updateContentSchema = z.object({
   tierIds: z.array(z.string()).optional(),
   isPublic: z.boolean().optional(),
   thumbnailUrl: z.string().url().optional(),
+  price: z.number().min(0.5, 'Price must be at least $0.50').nullable().optional(),
 });
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
@@ -120,6 +121,7 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
     if (validatedData.isPublic !== undefined) updateData.isPublic = validatedData.isPublic;
     if (validatedData.thumbnailUrl !== undefined)
       updateData.thumbnailUrl = validatedData.thumbnailUrl;
+    if (validatedData.price !== undefined) updateData.price = validatedData.price;
 
     // Handle tier updates
     if (validatedData.tierIds !== undefined) {
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { SUPPORTED_FILE_TYPES } from '@/lib/s3';
 import { notifyNewContent } from '@/lib/notifications';
+import { contentScheduleSchema, buildScheduleUpdate } from '@/lib/content-scheduling';
 import { z } from 'zod';
 import crypto from 'crypto';
 import {
@@ -22,12 +23,14 @@ const createContentSchema = z.object({
   tierIds: z.array(z.string()).default([]),
   visibility: z.enum(['PUBLIC', 'PRIVATE', 'TIER_LOCKED']).default('PRIVATE'),
   thumbnailUrl: z.string().url().optional(),
+  price: z.number().min(0.5, 'Price must be at least $0.50').optional(),
 });
 
 export const POST = withArtistApiHandler(
   async (context: ApiRequestContext, userId: string, request: NextRequest) => {
     const body = await request.json();
     const validatedData = validateApiRequest(createContentSchema, body, context);
+    const schedule = validateApiRequest(contentScheduleSchema, body, context);
 
     // Determine content type from format
     const contentType = Object.entries(SUPPORTED_FILE_TYPES).find(
@@ -66,6 +69,29 @@ export const POST = withArtistApiHandler(
       }
     }
 
+    // Fallback tier for time-limited drops must also belong to the artist
+    if (schedule.fallbackTierId) {
+      const fallbackTierCount = await prisma.tiers.count({
+        where: {
+          id: schedule.fallbackTierId,
+          artistId: userId,
+        },
+      });
+
+      if (fallbackTierCount === 0) {
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          'Fallback tier does not belong to this artist',
+          400,
+          { fallbackTierId: schedule.fallbackTierId },
+          context.requestId,
+          userId
+        );
+      }
+    }
+
+    const scheduleData = buildScheduleUpdate('PUBLISHED', schedule);
+
     // Create content record
     const content = await prisma.content.create({
       data: {
@@ -80,6 +106,8 @@ export const POST = withArtistApiHandler(
         format: validatedData.format,
         tags: JSON.stringify(validatedData.tags),
         visibility: validatedData.visibility,
+        price: validatedData.price,
+        ...scheduleData,
         users: { connect: { id: userId } },
         tiers: {
           connect: validatedData.tierIds.map(id => ({ id })),
@@ -102,8 +130,9 @@ export const POST = withArtistApiHandler(
       select: { displayName: true },
     });
 
-    // Send notifications to subscribers (async, don't await)
-    if (validatedData.tierIds.length > 0) {
+    // Send notifications to subscribers (async, don't await).
+    // Scheduled content notifies subscribers when the cron job publishes it.
+    if (validatedData.tierIds.length > 0 && content.status !== 'SCHEDULED') {
       notifyNewContent(content, artist?.displayName || 'Artist').catch(error =>
         console.error('Failed to send content notifications:', error)
       );
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { cancelMassMessage, getMassMessageStats } from '@/lib/mass-messages';
+
+// GET /api/artist/mass-messages/[id] - Delivery, read and unlock stats
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return withArtistApi(request, async req => {
+    try {
+      const stats = await getMassMessageStats(req.user.id, params.id);
+
+      return NextResponse.json({ success: true, data: stats });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Get mass message stats error:', error);
+      return NextResponse.json({ error: 'Failed to fetch mass message' }, { status: 500 });
+    }
+  });
+}
+
+// DELETE /api/artist/mass-messages/[id] - Stop sending to the fans not yet messaged
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return withArtistApi(request, async req => {
+    try {
+      const stats = await cancelMassMessage(req.user.id, params.id);
+
+      return NextResponse.json({ success: true, data: stats });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Cancel mass message error:', error);
+      return NextResponse.json({ error: 'Failed to cancel mass message' }, { status: 500 });
+    }
+  });
+}
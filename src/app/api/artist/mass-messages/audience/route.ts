@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { massMessageAudienceSchema, resolveSegmentRecipients } from '@/lib/mass-messages';
+
+// GET /api/artist/mass-messages/audience - How many fans a segment reaches right now
+export async function GET(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const numberParam = (name: string) =>
+        searchParams.has(name) ? parseInt(searchParams.get(name)!) : undefined;
+
+      const audience = massMessageAudienceSchema.parse({
+        segment: searchParams.get('segment'),
+        tierId: searchParams.get('tierId') || undefined,
+        lapsedWithinDays: numberParam('lapsedWithinDays'),
+        topTipperCount: numberParam('topTipperCount'),
+      });
+
+      const recipients = await resolveSegmentRecipients(req.user.id, audience);
+
+      return NextResponse.json({
+        success: true,
+        data: { segment: audience.segment, recipientCount: recipients.length },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid segment', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Mass message audience error:', error);
+      return NextResponse.json({ error: 'Failed to count audience' }, { status: 500 });
+    }
+  });
+}
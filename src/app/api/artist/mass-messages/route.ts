@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import {
+  createMassMessage,
+  getMassMessageStats,
+  listMassMessages,
+  massMessageSchema,
+  sendMassMessageBatch,
+} from '@/lib/mass-messages';
+
+// GET /api/artist/mass-messages - Recent mass messages with delivery progress
+export async function GET(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const massMessages = await listMassMessages(req.user.id);
+
+      return NextResponse.json({ success: true, data: massMessages });
+    } catch (error) {
+      console.error('List mass messages error:', error);
+      return NextResponse.json({ error: 'Failed to fetch mass messages' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/artist/mass-messages - Message every fan in a segment
+export async function POST(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = massMessageSchema.parse(body);
+
+      const massMessage = await createMassMessage(req.user.id, validatedData);
+
+      // Small segments go out straight away; larger ones finish on the cron job
+      const sent = await sendMassMessageBatch(massMessage.id);
+
+      logger.info('Mass message queued', {
+        artistId: req.user.id,
+        massMessageId: massMessage.id,
+        segment: massMessage.segment,
+        recipientCount: massMessage.recipientCount,
+        sent,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: await getMassMessageStats(req.user.id, massMessage.id),
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid mass message', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Create mass message error:', error);
+      return NextResponse.json({ error: 'Failed to send mass message' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { draftReply, draftReplySchema } from '@/lib/auto-responder';
+
+// POST /api/artist/messaging/draft - AI-drafted reply to a fan's latest message
+export async function POST(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const { fanId } = draftReplySchema.parse(body);
+
+      const draft = await draftReply(req.user.id, fanId);
+
+      return NextResponse.json({ success: true, data: { content: draft } });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      logger.error('Draft reply error', { artistId: req.user.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to draft reply' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/errors';
+import { dmPriceSchema, setDmPrice } from '@/lib/paid-messages';
+
+// GET /api/artist/messaging - What fans pay to message this artist
+export async function GET(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const artist = await prisma.artists.findUnique({
+        where: { userId: req.user.id },
+        select: { dmPrice: true },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          dmPrice: artist?.dmPrice ? Number(artist.dmPrice) : null,
+        },
+      });
+    } catch (error) {
+      console.error('Get messaging settings error:', error);
+      return NextResponse.json({ error: 'Failed to fetch messaging settings' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/artist/messaging - Set or clear the DM price
+export async function PUT(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const { dmPrice } = dmPriceSchema.parse(body);
+
+      const data = await setDmPrice(req.user.id, dmPrice);
+
+      return NextResponse.json({
+        success: true,
+        message: dmPrice ? 'Fans now pay to message you' : 'Messages are free again',
+        data,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid messaging settings', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Update messaging settings error:', error);
+      return NextResponse.json({ error: 'Failed to update messaging settings' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withArtistApi } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import {
+  getPayoutStatement,
+  getPayoutStatementSummaries,
+  payoutStatementToCsv,
+  payoutStatementToPdf,
+} from '@/lib/payout-ledger';
+import { z } from 'zod';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const statementQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format')
+    .optional(),
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+});
+
+// GET /api/artist/payouts - Earnings balance and monthly statement totals
+// GET /api/artist/payouts?month=YYYY-MM&format=json|csv|pdf - A monthly payout statement
+export async function GET(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const { month, format } = statementQuerySchema.parse({
+        month: searchParams.get('month') || undefined,
+        format: searchParams.get('format') || undefined,
+      });
+
+      if (!month) {
+        const [artist, statements] = await Promise.all([
+          prisma.artists.findUnique({
+            where: { userId: req.user.id },
+            select: { totalEarnings: true },
+          }),
+          getPayoutStatementSummaries(req.user.id),
+        ]);
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            totalEarnings: Number(artist?.totalEarnings || 0),
+            statements,
+          },
+        });
+      }
+
+      const statement = await getPayoutStatement(req.user.id, month);
+      const filename = `payout-statement-${month}`;
+
+      if (format === 'csv') {
+        return new NextResponse(payoutStatementToCsv(statement), {
+          status: 200,
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}.csv"`,
+          },
+        });
+      }
+
+      if (format === 'pdf') {
+        const pdf = payoutStatementToPdf(statement, req.user.name || req.user.email);
+
+        return new NextResponse(new Uint8Array(pdf), {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          },
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: statement,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid statement request',
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      console.error('Payout statement error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to fetch payout statement',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import {
+  deleteSavedReply,
+  fillSavedReply,
+  fillSavedReplySchema,
+  updateSavedReply,
+  updateSavedReplySchema,
+} from '@/lib/saved-replies';
+
+// POST /api/artist/saved-replies/[id] - Fill in a saved reply for a fan
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const { fanId } = fillSavedReplySchema.parse(body);
+
+      const reply = await fillSavedReply(req.user.id, params.id, fanId);
+
+      return NextResponse.json({ success: true, data: reply });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Fill saved reply error:', error);
+      return NextResponse.json({ error: 'Failed to fill in saved reply' }, { status: 500 });
+    }
+  });
+}
+
+// PATCH /api/artist/saved-replies/[id] - Edit a saved reply
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = updateSavedReplySchema.parse(body);
+
+      const savedReply = await updateSavedReply(req.user.id, params.id, validatedData);
+
+      return NextResponse.json({ success: true, data: savedReply });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid saved reply', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Update saved reply error:', error);
+      return NextResponse.json({ error: 'Failed to update saved reply' }, { status: 500 });
+    }
+  });
+}
+
+// DELETE /api/artist/saved-replies/[id] - Remove a saved reply
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return withArtistApi(request, async req => {
+    try {
+      await deleteSavedReply(req.user.id, params.id);
+
+      return NextResponse.json({ success: true, message: 'Saved reply deleted' });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Delete saved reply error:', error);
+      return NextResponse.json({ error: 'Failed to delete saved reply' }, { status: 500 });
+    }
+  });
+}
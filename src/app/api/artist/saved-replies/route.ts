@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { createSavedReply, listSavedReplies, savedReplySchema } from '@/lib/saved-replies';
+
+// GET /api/artist/saved-replies - Saved reply templates, most used first
+export async function GET(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const savedReplies = await listSavedReplies(req.user.id);
+
+      return NextResponse.json({ success: true, data: savedReplies });
+    } catch (error) {
+      console.error('List saved replies error:', error);
+      return NextResponse.json({ error: 'Failed to fetch saved replies' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/artist/saved-replies - Save a reply template
+export async function POST(request: NextRequest) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = savedReplySchema.parse(body);
+
+      const savedReply = await createSavedReply(req.user.id, validatedData);
+
+      return NextResponse.json({ success: true, data: savedReply }, { status: 201 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid saved reply', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Create saved reply error:', error);
+      return NextResponse.json({ error: 'Failed to save reply' }, { status: 500 });
+    }
+  });
+}
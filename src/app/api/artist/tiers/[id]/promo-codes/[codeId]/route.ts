@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withArtistApi } from '@/lib/api-auth';
+import { updatePromoCodeSchema, deletePromoCode } from '@/lib/promo-codes';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+
+interface RouteParams {
+  params: {
+    id: string;
+    codeId: string;
+  };
+}
+
+async function findArtistPromoCode(artistId: string, tierId: string, codeId: string) {
+  return prisma.promo_codes.findFirst({
+    where: {
+      id: codeId,
+      tierId,
+      tiers: { artistId },
+    },
+  });
+}
+
+// PUT /api/artist/tiers/[id]/promo-codes/[codeId] - Update caps, expiry or status
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+
+      // Validate request body
+      const validatedData = updatePromoCodeSchema.parse(body);
+
+      const existingCode = await findArtistPromoCode(req.user.id, params.id, params.codeId);
+
+      if (!existingCode) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Promo code not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      if (
+        validatedData.maxRedemptions != null &&
+        validatedData.maxRedemptions < existingCode.redemptionCount
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Redemption limit cannot be lower than the current redemption count',
+          },
+          { status: 400 }
+        );
+      }
+
+      const promoCode = await prisma.promo_codes.update({
+        where: { id: existingCode.id },
+        data: {
+          ...validatedData,
+          updatedAt: new Date(),
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...promoCode,
+          discountValue: Number(promoCode.discountValue),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      console.error('Error updating promo code:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to update promo code',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/artist/tiers/[id]/promo-codes/[codeId] - Delete a promo code
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withArtistApi(request, async req => {
+    try {
+      const existingCode = await findArtistPromoCode(req.user.id, params.id, params.codeId);
+
+      if (!existingCode) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Promo code not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      // Keep redeemed codes so their history stays in revenue reporting
+      if (existingCode.redemptionCount > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Promo codes that have been redeemed can be deactivated but not deleted',
+          },
+          { status: 400 }
+        );
+      }
+
+      const artist = await prisma.artists.findUnique({
+        where: { userId: req.user.id },
+        select: { stripeAccountId: true },
+      });
+
+      await deletePromoCode(existingCode.id, artist?.stripeAccountId);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Promo code deleted successfully',
+      });
+    } catch (error) {
+      console.error('Error deleting promo code:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to delete promo code',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
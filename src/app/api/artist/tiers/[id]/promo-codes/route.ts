@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import type { promo_codes } from '@prisma/client';
+import { withArtistApi } from '@/lib/api-auth';
+import { createPromoCodeSchema } from '@/lib/promo-codes';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+function formatPromoCode(promoCode: promo_codes) {
+  return {
+    ...promoCode,
+    discountValue: Number(promoCode.discountValue),
+  };
+}
+
+// GET /api/artist/tiers/[id]/promo-codes - List promo codes for a tier
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withArtistApi(request, async req => {
+    try {
+      const tier = await prisma.tiers.findFirst({
+        where: {
+          id: params.id,
+          artistId: req.user.id,
+        },
+      });
+
+      if (!tier) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Tier not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      const promoCodes = await prisma.promo_codes.findMany({
+        where: { tierId: tier.id },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: promoCodes.map(formatPromoCode),
+      });
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to fetch promo codes',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/artist/tiers/[id]/promo-codes - Create a promo code for a tier
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withArtistApi(request, async req => {
+    try {
+      const body = await request.json();
+
+      // Validate request body
+      const validatedData = createPromoCodeSchema.parse(body);
+
+      const tier = await prisma.tiers.findFirst({
+        where: {
+          id: params.id,
+          artistId: req.user.id,
+        },
+      });
+
+      if (!tier) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Tier not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      if (
+        validatedData.discountType === 'AMOUNT' &&
+        validatedData.discountValue >= Number(tier.minimumPrice)
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Discount must be lower than the tier minimum price',
+          },
+          { status: 400 }
+        );
+      }
+
+      // Fan-specific codes can only be redeemed by that fan
+      if (validatedData.fanId) {
+        const fan = await prisma.users.findUnique({
+          where: { id: validatedData.fanId },
+          select: { role: true },
+        });
+
+        if (!fan || fan.role !== 'FAN') {
+          return NextResponse.json(
+            {
+              success: false,
+              error: 'Fan not found',
+            },
+            { status: 400 }
+          );
+        }
+      }
+
+      const existingCode = await prisma.promo_codes.findUnique({
+        where: {
+          tierId_code: {
+            tierId: tier.id,
+            code: validatedData.code,
+          },
+        },
+      });
+
+      if (existingCode) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'A promo code with this code already exists for this tier',
+          },
+          { status: 400 }
+        );
+      }
+
+      const promoCode = await prisma.promo_codes.create({
+        data: {
+          id: randomUUID(),
+          tierId: tier.id,
+          code: validatedData.code,
+          discountType: validatedData.discountType,
+          discountValue: validatedData.discountValue,
+          durationMonths: validatedData.durationMonths,
+          maxRedemptions: validatedData.maxRedemptions ?? null,
+          expiresAt: validatedData.expiresAt ?? null,
+          fanId: validatedData.fanId ?? null,
+          updatedAt: new Date(),
+        },
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: formatPromoCode(promoCode),
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      console.error('Error creating promo code:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to create promo code',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
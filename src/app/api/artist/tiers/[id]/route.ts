@@ -37,6 +37,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         data: {
           ...tier,
           minimumPrice: Number(tier.minimumPrice),
+          introPrice: tier.introPrice !== null ? Number(tier.introPrice) : null,
         },
       });
     } catch (error) {
@@ -117,6 +118,16 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         );
       }
 
+      if (error instanceof Error && error.message.startsWith('Introductory')) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+          },
+          { status: 400 }
+        );
+      }
+
       console.error('Error updating tier:', error);
       return NextResponse.json(
         {
@@ -58,6 +58,9 @@ export async function POST(request: NextRequest) {
         name: validatedData.name,
         description: validatedData.description,
         minimumPrice: validatedData.minimumPrice,
+        trialDays: validatedData.trialDays,
+        introPrice: validatedData.introPrice,
+        introMonths: validatedData.introMonths,
       });
 
       return NextResponse.json(
@@ -79,6 +82,16 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      if (error instanceof Error && error.message.startsWith('Introductory')) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+          },
+          { status: 400 }
+        );
+      }
+
       console.error('Error creating tier:', error);
       return NextResponse.json(
         {
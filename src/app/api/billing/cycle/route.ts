@@ -8,6 +8,7 @@ import {
   getBillingCycleStats,
   processBillingRenewals,
   processFailedPaymentRetries,
+  processPausedSubscriptionResumes,
   sendBillingReminders,
   processScheduledTierChanges,
   getArtistBillingSummary,
@@ -128,6 +129,13 @@ export async function POST(request: NextRequest) {
           events: retryEvents,
         });
 
+      case 'process-resumes':
+        const resumeEvents = await processPausedSubscriptionResumes();
+        return NextResponse.json({
+          message: 'Paused subscriptions resumed',
+          events: resumeEvents,
+        });
+
       case 'send-reminders':
         const reminderCount = await sendBillingReminders();
         return NextResponse.json({
@@ -8,6 +8,7 @@ import {
   sendInvoiceNotification,
   processInvoicePayment,
 } from '@/lib/invoice';
+import { getInvoiceTaxSummary } from '@/lib/tax';
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -31,7 +32,7 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
       return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ invoice });
+    return NextResponse.json({ invoice, tax: getInvoiceTaxSummary(invoice) });
   } catch (error) {
     console.error(`Error retrieving invoice ${params.id}:`, error);
 
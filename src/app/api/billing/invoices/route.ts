@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { stripe } from '@/lib/stripe';
 import { generateInvoiceData } from '@/lib/billing';
+import { getInvoiceTaxFields } from '@/lib/tax';
 import { randomUUID } from 'crypto';
 
 export async function GET(request: NextRequest) {
@@ -96,6 +97,7 @@ export async function POST(request: NextRequest) {
 
     // Generate invoice data
     const invoiceData = await generateInvoiceData(stripeInvoiceId);
+    const taxFields = getInvoiceTaxFields(invoiceData.tax);
 
     // Store invoice in database
     const prorationAmount = invoiceData.items.some(item => item.description.includes('Proration'))
@@ -108,7 +110,8 @@ export async function POST(request: NextRequest) {
       INSERT INTO "invoices" (
         "id", "subscriptionId", "stripeInvoiceId", "amount", "status", 
         "dueDate", "paidAt", "periodStart", "periodEnd", "prorationAmount", 
-        "items", "createdAt", "updatedAt"
+        "items", "taxAmount", "taxRate", "taxCountry", "reverseCharge", 
+        "customerVatNumber", "createdAt", "updatedAt"
       ) 
       VALUES (
         ${`inv_${Date.now()}_${randomUUID().replace(/-/g, '').substring(0, 13)}`},
@@ -122,6 +125,11 @@ export async function POST(request: NextRequest) {
         ${invoiceData.items[0]?.period.end || new Date()}, 
         ${prorationAmount}, 
         ${JSON.stringify(invoiceData.items)},
+        ${taxFields.taxAmount},
+        ${taxFields.taxRate},
+        ${taxFields.taxCountry},
+        ${taxFields.reverseCharge},
+        ${taxFields.customerVatNumber},
         NOW(),
         NOW()
       )
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getActiveBundles } from '@/lib/bundles';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/bundles - List bundles fans can subscribe to
+export async function GET() {
+  try {
+    const bundles = await getActiveBundles();
+
+    return NextResponse.json({
+      success: true,
+      data: bundles,
+    });
+  } catch (error) {
+    console.error('Get bundles error:', error);
+    return NextResponse.json({ error: 'Failed to fetch bundles' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  buildStreamCalendar,
+  findUserByCalendarToken,
+  getUpcomingStreamsForFan,
+} from '@/lib/stream-reminders';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/calendar/[token]/[artistId] - ICS feed for calendar apps, authenticated by the URL token
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { token: string; artistId: string } }
+) {
+  try {
+    const fan = await findUserByCalendarToken(params.token);
+    if (!fan) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    const artist = await prisma.users.findUnique({
+      where: { id: params.artistId, role: 'ARTIST' },
+      select: { id: true, displayName: true },
+    });
+    if (!artist) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    const streams = await getUpcomingStreamsForFan(artist.id, fan.id);
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+    return new NextResponse(buildStreamCalendar(artist, streams, baseUrl), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${artist.id}-streams.ics"`,
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json({ error: 'Failed to build calendar' }, { status: 500 });
+  }
+}
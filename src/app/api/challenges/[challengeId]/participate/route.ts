@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { recordLedgerEntry } from '@/lib/payout-ledger';
 
 // POST /api/challenges/[challengeId]/participate - Join a challenge
 export async function POST(request: NextRequest, { params }: { params: { challengeId: string } }) {
@@ -17,9 +18,10 @@ export async function POST(request: NextRequest, { params }: { params: { challen
     const challenge = await prisma.challenges.findUnique({
       where: { id: params.challengeId },
       include: {
-        campaign: {
+        campaigns: {
           select: {
             id: true,
+            artistId: true,
             title: true,
             status: true,
             entryFee: true,
@@ -164,6 +166,16 @@ export async function POST(request: NextRequest, { params }: { params: { challen
       return newParticipation;
     });
 
+    if (challenge.campaigns.entryFee && Number(challenge.campaigns.entryFee) > 0) {
+      await recordLedgerEntry({
+        artistId: challenge.campaigns.artistId,
+        type: 'CAMPAIGN_ENTRY_FEE',
+        sourceId: participation.id,
+        grossAmount: Number(challenge.campaigns.entryFee),
+        description: `Entry fee: ${challenge.title}`,
+      });
+    }
+
     logger.info('User joined challenge', {
       challengeId: params.challengeId,
       participantId: session.user.id,
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
 import { FileUploader } from '@/lib/upload';
+import { contentScheduleSchema, buildScheduleUpdate } from '@/lib/content-scheduling';
 
 const updateSchema = z.object({
   title: z.string().min(1).max(200).optional(),
@@ -126,6 +127,7 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
         select: {
           id: true,
           artistId: true,
+          status: true,
         },
       });
 
@@ -142,6 +144,7 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
 
       const body = await request.json();
       const validatedData = updateSchema.parse(body);
+      const schedule = contentScheduleSchema.parse(body);
 
       // Validate tier ownership if specified
       if (validatedData.tierIds && validatedData.tierIds.length > 0) {
@@ -162,8 +165,23 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
         }
       }
 
+      // Fallback tier for time-limited drops must also belong to the artist
+      if (schedule.fallbackTierId) {
+        const fallbackTier = await prisma.tiers.findFirst({
+          where: { id: schedule.fallbackTierId, artistId: req.user.id },
+          select: { id: true },
+        });
+
+        if (!fallbackTier) {
+          return NextResponse.json(
+            { error: 'Fallback tier does not exist or is not owned by you' },
+            { status: 400 }
+          );
+        }
+      }
+
       // Prepare update data
-      const updateData: any = {};
+      const updateData: any = buildScheduleUpdate(existingContent.status, schedule);
 
       if (validatedData.title !== undefined) {
         updateData.title = validatedData.title;
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCalendarToken } from '@/lib/stream-reminders';
+
+async function feedResponse(artistId: string, rotate: boolean) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const calendarToken = await getCalendarToken(session.user.id, rotate);
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  return NextResponse.json({
+    feedUrl: `${baseUrl}/api/calendar/${calendarToken}/${artistId}`,
+  });
+}
+
+// GET /api/fan/artists/[id]/calendar - Subscribable ICS feed of the artist's streams
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    return await feedResponse(params.id, false);
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/fan/artists/[id]/calendar - Issue a new feed URL, disabling the fan's old ones
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    return await feedResponse(params.id, true);
+  } catch (error) {
+    console.error('Error resetting calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { isOptedOutOfMassMessages, setMassMessageOptOut } from '@/lib/mass-messages';
+
+const optOutSchema = z.object({
+  optedOut: z.boolean(),
+});
+
+// GET /api/fan/artists/[id]/mass-messages - Whether the fan gets this artist's mass messages
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const optedOut = await isOptedOutOfMassMessages(session.user.id, params.id);
+
+    return NextResponse.json({ artistId: params.id, optedOut });
+  } catch (error) {
+    console.error('Error fetching mass message opt-out:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/fan/artists/[id]/mass-messages - Opt out of (or back into) mass messages
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { optedOut } = optOutSchema.parse(body);
+
+    const result = await setMassMessageOptOut(session.user.id, params.id, optedOut);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating mass message opt-out:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUpcomingStreamsForFan } from '@/lib/stream-reminders';
+
+// GET /api/fan/artists/[id]/streams - Upcoming streams open to the fan's tiers, with RSVPs
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const streams = await getUpcomingStreamsForFan(params.id, session.user.id);
+
+    return NextResponse.json({ streams });
+  } catch (error) {
+    console.error('Error fetching upcoming streams:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
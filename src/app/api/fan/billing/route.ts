@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getFanPaymentFailures } from '@/lib/dunning';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/fan/billing - Failed payments on the fan's subscriptions and each dunning step
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: session.user.id },
+    });
+
+    if (!user || user.role !== 'FAN') {
+      return NextResponse.json({ error: 'Only fans can view billing' }, { status: 403 });
+    }
+
+    const paymentFailures = await getFanPaymentFailures(user.id);
+
+    return NextResponse.json({ paymentFailures });
+  } catch (error) {
+    console.error('Fan billing fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch billing history' }, { status: 500 });
+  }
+}
@@ -3,6 +3,11 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { stripe } from '@/lib/stripe';
+import {
+  pauseSubscription,
+  resumeSubscription,
+  subscriptionPauseSchema,
+} from '@/lib/subscription-pause';
 import { z } from 'zod';
 
 const updateSubscriptionSchema = z.object({
@@ -78,6 +83,13 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
       return NextResponse.json({ error: 'Can only update active subscriptions' }, { status: 400 });
     }
 
+    if (!subscription.autoRenew) {
+      return NextResponse.json(
+        { error: 'Gifted subscriptions cannot be changed' },
+        { status: 400 }
+      );
+    }
+
     if (amount) {
       // Validate minimum amount
       if (amount < parseFloat(subscription.tiers.minimumPrice.toString())) {
@@ -142,6 +154,84 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
   }
 }
 
+// PATCH - Pause a subscription for 1-3 months or resume it early
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = subscriptionPauseSchema.parse(body);
+
+    // Get subscription and verify ownership
+    const subscription = await prisma.subscriptions.findUnique({
+      where: {
+        id: params.id,
+        fanId: session.user.id,
+      },
+    });
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    if (!subscription.autoRenew) {
+      return NextResponse.json({ error: 'Gifted subscriptions cannot be paused' }, { status: 400 });
+    }
+
+    try {
+      if (input.action === 'pause') {
+        if (subscription.status !== 'ACTIVE') {
+          return NextResponse.json(
+            { error: 'Can only pause active subscriptions' },
+            { status: 400 }
+          );
+        }
+
+        const { pausedAt, resumesAt } = await pauseSubscription(subscription, input.months);
+
+        return NextResponse.json({
+          message: 'Subscription paused successfully',
+          status: 'PAUSED',
+          pausedAt,
+          resumesAt,
+        });
+      }
+
+      if (subscription.status !== 'PAUSED') {
+        return NextResponse.json({ error: 'Subscription is not paused' }, { status: 400 });
+      }
+
+      await resumeSubscription(subscription);
+
+      return NextResponse.json({
+        message: 'Subscription resumed successfully',
+        status: 'ACTIVE',
+      });
+    } catch (stripeError) {
+      console.error('Stripe pause error:', stripeError);
+      return NextResponse.json(
+        { error: 'Failed to update subscription with payment provider' },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    console.error('Pause subscription error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 });
+  }
+}
+
 export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     const session = await getServerSession(authOptions);
@@ -166,6 +256,14 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       return NextResponse.json({ error: 'Subscription is already canceled' }, { status: 400 });
     }
 
+    // Gifts are prepaid and simply lapse at the end of their period
+    if (!subscription.autoRenew) {
+      return NextResponse.json(
+        { error: 'Gifted subscriptions end automatically and cannot be canceled' },
+        { status: 400 }
+      );
+    }
+
     // Cancel subscription in Stripe
     try {
       await stripe.subscriptions.cancel(subscription.stripeSubscriptionId);
@@ -66,6 +66,10 @@ export async function GET(request: NextRequest) {
       },
       status: sub.status.toLowerCase(),
       nextBillingDate: sub.currentPeriodEnd.toISOString(),
+      trialEndsAt: sub.trialEndsAt?.toISOString() ?? null,
+      introPriceEndsAt: sub.introPriceEndsAt?.toISOString() ?? null,
+      isGift: !sub.autoRenew,
+      pauseResumesAt: sub.pauseResumesAt?.toISOString() ?? null,
       createdAt: sub.createdAt.toISOString(),
     }));
 
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getGiftPreview, redeemGiftSchema, redeemGiftSubscription } from '@/lib/gift-subscriptions';
+import { z } from 'zod';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/gifts/redeem?code=... - Show what a gift code contains
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { code } = redeemGiftSchema.parse({ code: searchParams.get('code') || '' });
+
+    const gift = await getGiftPreview(code);
+
+    if (!gift) {
+      return NextResponse.json({ error: 'Gift code not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ gift });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Get gift error:', error);
+    return NextResponse.json({ error: 'Failed to fetch gift' }, { status: 500 });
+  }
+}
+
+// POST /api/gifts/redeem - Redeem a gift code for the current fan
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { code } = redeemGiftSchema.parse(body);
+
+    const result = await redeemGiftSubscription(code, session.user.id);
+
+    if (!result.success) {
+      const status = result.error === 'Gift code not found' ? 404 : 400;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({
+      message: 'Gift redeemed successfully',
+      subscription: result.subscription,
+    });
+  } catch (error) {
+    console.error('Redeem gift error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to redeem gift' }, { status: 500 });
+  }
+}
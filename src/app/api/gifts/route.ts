@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { createPaymentCheckoutSession, createOrRetrieveCustomer } from '@/lib/stripe';
+import { createPendingGift, getPurchasedGifts, purchaseGiftSchema } from '@/lib/gift-subscriptions';
+import { z } from 'zod';
+
+// GET /api/gifts - Gifts the current fan has bought
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const gifts = await getPurchasedGifts(session.user.id);
+
+    return NextResponse.json({ gifts });
+  } catch (error) {
+    console.error('Get gifts error:', error);
+    return NextResponse.json({ error: 'Failed to fetch gifts' }, { status: 500 });
+  }
+}
+
+// POST /api/gifts - Start checkout for a gift subscription
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = purchaseGiftSchema.parse(body);
+
+    const user = await prisma.users.findUnique({
+      where: { id: session.user.id },
+    });
+
+    if (!user || user.role !== 'FAN') {
+      return NextResponse.json({ error: 'Only fans can purchase gifts' }, { status: 403 });
+    }
+
+    if (user.email.toLowerCase() === validatedData.recipientEmail.toLowerCase()) {
+      return NextResponse.json({ error: 'You cannot send a gift to yourself' }, { status: 400 });
+    }
+
+    const tier = await prisma.tiers.findUnique({
+      where: { id: validatedData.tierId },
+      include: {
+        users: {
+          include: {
+            artists: true,
+          },
+        },
+      },
+    });
+
+    if (!tier || !tier.isActive) {
+      return NextResponse.json({ error: 'Tier not found' }, { status: 404 });
+    }
+
+    if (!tier.users.artists?.stripeAccountId || !tier.users.artists.isStripeOnboarded) {
+      return NextResponse.json(
+        { error: 'Artist is not set up to receive payments' },
+        { status: 400 }
+      );
+    }
+
+    const stripeAccountId = tier.users.artists.stripeAccountId;
+
+    const gift = await createPendingGift(
+      user.id,
+      {
+        id: tier.id,
+        artistId: tier.artistId,
+        minimumPrice: Number(tier.minimumPrice),
+      },
+      validatedData
+    );
+
+    const customerId = await createOrRetrieveCustomer(
+      user.email,
+      user.displayName,
+      stripeAccountId
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const successUrl = `${baseUrl}/artist/${tier.artistId}?gift=sent&session_id={CHECKOUT_SESSION_ID}`;
+    const cancelUrl = `${baseUrl}/artist/${tier.artistId}?canceled=true`;
+
+    const amount = Number(gift.amount);
+
+    const metadata = {
+      type: 'gift_subscription',
+      giftId: gift.id,
+      purchaserId: user.id,
+      artistId: tier.artistId,
+      tierId: tier.id,
+      amount: amount.toString(),
+    };
+
+    const checkoutUrl = await createPaymentCheckoutSession(
+      `${gift.months} month${gift.months === 1 ? '' : 's'} of ${tier.users.displayName} - ${tier.name} (gift)`,
+      amount,
+      customerId,
+      stripeAccountId,
+      successUrl,
+      cancelUrl,
+      metadata
+    );
+
+    return NextResponse.json({
+      checkoutUrl,
+      giftId: gift.id,
+    });
+  } catch (error) {
+    console.error('Create gift error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to create gift checkout' }, { status: 500 });
+  }
+}
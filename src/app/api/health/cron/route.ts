@@ -1,18 +1,30 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { captureMessage } from '@/lib/sentry';
+import { runContentSchedulingJobs } from '@/lib/content-scheduling';
+import { sendStreamReminders } from '@/lib/stream-reminders';
+import { processMassMessages } from '@/lib/mass-messages';
 
 // Force this route to be dynamic
 export const dynamic = 'force-dynamic';
 import { string } from '@prisma/client';
 
+/**
+ * Whether the request comes from the scheduler rather than anyone who found the URL
+ */
+function isScheduledRun(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
 /**
  * Cron health check endpoint for scheduled monitoring
- * This endpoint runs deeper health checks and reports metrics
+ * This endpoint runs deeper health checks, reports metrics and runs scheduled content, stream reminder and mass message jobs
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   const startTime = Date.now();
+  const scheduledRun = isScheduledRun(request);
   const metrics: Record<string, any> = {};
   const checks: Record<string, { status: 'ok' | 'error'; message?: string; metrics?: any }> = {};
 
@@ -87,6 +99,55 @@ export async function GET() {
     };
   }
 
+  // Run scheduled content jobs (publish due posts, expire time-limited drops)
+  try {
+    const scheduling = await runContentSchedulingJobs();
+
+    metrics.contentScheduling = scheduling;
+
+    checks.contentScheduling = {
+      status: scheduling.errors === 0 ? 'ok' : 'error',
+      ...(scheduling.errors > 0 && { message: 'One or more scheduling jobs failed' }),
+    };
+  } catch (error) {
+    logger.error('Cron health check: Content scheduling jobs failed', {}, error as Error);
+    checks.contentScheduling = {
+      status: 'error',
+      message: 'Could not run content scheduling jobs',
+    };
+  }
+
+  // Send reminders to fans who RSVP'd to upcoming streams. This emails fans,
+  // so only the scheduler can set it off.
+  if (scheduledRun) {
+    try {
+      metrics.streamReminders = { sent: await sendStreamReminders() };
+
+      checks.streamReminders = { status: 'ok' };
+    } catch (error) {
+      logger.error('Cron health check: Stream reminders failed', {}, error as Error);
+      checks.streamReminders = {
+        status: 'error',
+        message: 'Could not send stream reminders',
+      };
+    }
+  }
+
+  // Send the next batch of artists' mass messages. Scheduler only, like reminders.
+  if (scheduledRun) {
+    try {
+      metrics.massMessages = { sent: await processMassMessages() };
+
+      checks.massMessages = { status: 'ok' };
+    } catch (error) {
+      logger.error('Cron health check: Mass messages failed', {}, error as Error);
+      checks.massMessages = {
+        status: 'error',
+        message: 'Could not send mass messages',
+      };
+    }
+  }
+
   // Overall status
   const isHealthy = Object.values(checks).every(check => check.status === 'ok');
   const totalLatency = Date.now() - startTime;
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { resetStreamReminders } from '@/lib/stream-reminders';
 
 const updateStreamSchema = z.object({
   title: z.string().min(1).max(200).optional(),
@@ -203,6 +204,13 @@ export async function PUT(request: NextRequest, { params }: { params: { streamId
       data: updateData,
     });
 
+    if (
+      updateData.scheduledAt &&
+      updateData.scheduledAt.getTime() !== existingStream.scheduledAt?.getTime()
+    ) {
+      await resetStreamReminders(params.streamId);
+    }
+
     logger.info('Livestream updated', {
       streamId: params.streamId,
       artistId: session.user.id,
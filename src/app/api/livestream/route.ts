@@ -94,6 +94,9 @@ export async function GET(request: NextRequest) {
             avatar: true,
           },
         },
+        _count: {
+          select: { stream_rsvps: true },
+        },
       },
     });
 
@@ -105,6 +108,7 @@ export async function GET(request: NextRequest) {
         streams: streams.map(stream => ({
           ...stream,
           tierIds: JSON.parse(stream.tierIds),
+          rsvpCount: stream._count.stream_rsvps,
           streamer: {
             id: stream.users.id,
             userName: stream.users.displayName, // Using displayName as username
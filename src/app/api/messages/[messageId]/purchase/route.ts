@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { createMessagePurchaseCheckout, startMessagePurchase } from '@/lib/paid-messages';
+
+// POST /api/messages/[messageId]/purchase - Pay to send a DM or unlock its attachment
+export async function POST(request: NextRequest, { params }: { params: { messageId: string } }) {
+  return withApi(request, async req => {
+    try {
+      const { purchase } = await startMessagePurchase(params.messageId, req.user.id);
+
+      const checkoutUrl = await createMessagePurchaseCheckout(purchase, {
+        email: req.user.email,
+        displayName: req.user.name || req.user.email,
+      });
+
+      return NextResponse.json({
+        checkoutUrl,
+        purchaseId: purchase.id,
+        type: purchase.type,
+        amount: Number(purchase.amount),
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      logger.error(
+        'Create message checkout error',
+        { userId: req.user?.id, messageId: params.messageId },
+        error as Error
+      );
+      return NextResponse.json({ error: 'Failed to create checkout' }, { status: 500 });
+    }
+  });
+}
@@ -6,11 +6,13 @@ export const runtime = 'nodejs';
 import { withApi } from '@/lib/api-auth';
 import { prisma } from '@/lib/database';
 import { logger } from '@/lib/logger';
+import { hideUnpaidMessagesFrom } from '@/lib/paid-messages';
 
 export async function GET(request: NextRequest) {
   return withApi(request, async req => {
     try {
-      // Get all unique conversation participants for this user
+      // Get all unique conversation participants for this user. Deleted messages
+      // and paid DMs the sender hasn't paid for yet don't start a conversation.
       const conversations = (await prisma.$queryRaw`
         SELECT DISTINCT
           CASE 
@@ -19,7 +21,14 @@ export async function GET(request: NextRequest) {
           END as participantId,
           MAX(m.createdAt) as lastMessageTime
         FROM messages m
-        WHERE m.senderId = ${req.user.id} OR m.recipientId = ${req.user.id}
+        WHERE (m.senderId = ${req.user.id} OR m.recipientId = ${req.user.id})
+          AND m.recipientId IS NOT NULL
+          AND m.deletedAt IS NULL
+          AND NOT (
+            m.recipientId = ${req.user.id}
+            AND m.dmFee IS NOT NULL
+            AND m.dmFeePaidAt IS NULL
+          )
         GROUP BY participantId
         ORDER BY lastMessageTime DESC
       `) as Array<{ participantId: string; lastMessageTime: Date }>;
@@ -54,6 +63,8 @@ export async function GET(request: NextRequest) {
                 { senderId: req.user.id, recipientId: conv.participantId },
                 { senderId: conv.participantId, recipientId: req.user.id },
               ],
+              deletedAt: null,
+              ...hideUnpaidMessagesFrom(req.user.id),
             },
             orderBy: { createdAt: 'desc' },
             include: {
@@ -73,6 +84,8 @@ export async function GET(request: NextRequest) {
               senderId: conv.participantId,
               recipientId: req.user.id,
               readAt: null,
+              deletedAt: null,
+              ...hideUnpaidMessagesFrom(req.user.id),
             },
           });
 
@@ -90,7 +103,9 @@ export async function GET(request: NextRequest) {
             lastMessage: lastMessage
               ? {
                   id: lastMessage.id,
-                  content: lastMessage.content,
+                  // Ciphertext is no use as a preview
+                  content: lastMessage.isEncrypted ? 'Encrypted message' : lastMessage.content,
+                  isEncrypted: lastMessage.isEncrypted,
                   senderId: lastMessage.senderId,
                   createdAt: lastMessage.createdAt.toISOString(),
                 }
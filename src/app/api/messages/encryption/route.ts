@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import {
+  conversationEncryptionSchema,
+  getConversationEncryption,
+  setConversationEncryption,
+} from '@/lib/encrypted-messages';
+
+// GET /api/messages/encryption?conversationWith=... - Whether a DM conversation is end-to-end encrypted
+export async function GET(request: NextRequest) {
+  return withApi(request, async req => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const conversationWith = searchParams.get('conversationWith');
+
+      if (!conversationWith) {
+        return NextResponse.json({ error: 'conversationWith is required' }, { status: 400 });
+      }
+
+      const data = await getConversationEncryption(req.user.id, conversationWith);
+
+      return NextResponse.json({ success: true, data });
+    } catch (error) {
+      logger.error('Get conversation encryption error', { userId: req.user?.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to fetch encryption settings' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/messages/encryption - Turn end-to-end encryption on or off for a conversation
+export async function PUT(request: NextRequest) {
+  return withApi(request, async req => {
+    try {
+      const body = await request.json();
+      const { conversationWith, enabled } = conversationEncryptionSchema.parse(body);
+
+      const data = await setConversationEncryption(req.user.id, conversationWith, enabled);
+
+      logger.info('Conversation encryption changed', {
+        userId: req.user.id,
+        conversationWith,
+        enabled,
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: enabled
+          ? 'New messages in this conversation are end-to-end encrypted'
+          : 'End-to-end encryption turned off',
+        data,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid encryption settings', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      logger.error(
+        'Update conversation encryption error',
+        { userId: req.user?.id },
+        error as Error
+      );
+      return NextResponse.json({ error: 'Failed to update encryption settings' }, { status: 500 });
+    }
+  });
+}
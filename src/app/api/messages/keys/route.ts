@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApi } from '@/lib/api-auth';
+import { AppError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { getPublicKey, publicKeySchema, registerPublicKey } from '@/lib/encrypted-messages';
+
+// GET /api/messages/keys?userId=...&keyId=... - A user's public key for encrypted DMs
+export async function GET(request: NextRequest) {
+  return withApi(request, async req => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const userId = searchParams.get('userId') || req.user.id;
+      const keyId = searchParams.get('keyId') || undefined;
+
+      const key = await getPublicKey(userId, keyId);
+
+      return NextResponse.json({ success: true, data: key });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      logger.error('Get public key error', { userId: req.user?.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to fetch public key' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/messages/keys - Register or rotate this user's public key
+export async function PUT(request: NextRequest) {
+  return withApi(request, async req => {
+    try {
+      const body = await request.json();
+      const { publicKey } = publicKeySchema.parse(body);
+
+      const key = await registerPublicKey(req.user.id, publicKey);
+
+      logger.info('Encryption key registered', { userId: req.user.id, keyId: key.keyId });
+
+      return NextResponse.json({ success: true, data: key });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid public key', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      logger.error('Register public key error', { userId: req.user?.id }, error as Error);
+      return NextResponse.json({ error: 'Failed to register public key' }, { status: 500 });
+    }
+  });
+}
@@ -3,18 +3,42 @@ import { withApi } from '@/lib/api-auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
-import { sendNotification } from '@/lib/notifications';
 import { webSocketInstance } from '@/lib/websocket-instance';
+import { AppError } from '@/lib/errors';
+import { moderateMessageText } from '@/lib/ai-content-moderation';
+import {
+  MAX_ENCRYPTED_CONTENT_LENGTH,
+  encryptionEnvelopeSchema,
+  resolveMessageEncryption,
+} from '@/lib/encrypted-messages';
+import {
+  createMessagePurchaseCheckout,
+  deliverMessage,
+  getDmPrice,
+  hideUnpaidMessagesFrom,
+  lockedAttachmentSchema,
+  startMessagePurchase,
+  toMessageView,
+} from '@/lib/paid-messages';
+import { randomUUID } from 'crypto';
 
 // First, we need to add Message model to schema.prisma
 // This is a placeholder implementation that would require schema updates
 
-const sendMessageSchema = z.object({
-  recipientId: z.string().cuid(),
-  content: z.string().min(1).max(1000),
-  type: z.enum(['text', 'image', 'audio']).default('text'),
-  attachmentUrl: z.string().url().optional(),
-});
+const sendMessageSchema = z
+  .object({
+    recipientId: z.string().cuid(),
+    content: z.string().min(1).max(MAX_ENCRYPTED_CONTENT_LENGTH),
+    type: z.enum(['text', 'image', 'audio']).default('text'),
+    attachmentUrl: z.string().url().optional(),
+    // Present when content is ciphertext from an end-to-end encrypted conversation
+    encryption: encryptionEnvelopeSchema.optional(),
+  })
+  .merge(lockedAttachmentSchema)
+  .refine(data => data.encryption || data.content.length <= 1000, {
+    message: 'Message is too long',
+    path: ['content'],
+  });
 
 const getMessagesSchema = z.object({
   conversationWith: z.string().cuid(),
@@ -29,7 +53,15 @@ export async function POST(request: NextRequest) {
       const body = await request.json();
       const validatedData = sendMessageSchema.parse(body);
 
-      const { recipientId, content, type, attachmentUrl } = validatedData;
+      const {
+        recipientId,
+        content,
+        type,
+        attachmentUrl,
+        attachmentPrice,
+        attachmentPreviewUrl,
+        encryption,
+      } = validatedData;
 
       // Check if recipient exists and has appropriate role
       const recipient = await prisma.users.findUnique({
@@ -60,14 +92,46 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // Only artists can put a price on media they send
+      if (attachmentPrice) {
+        if (req.user.role !== 'ARTIST') {
+          return NextResponse.json(
+            { error: 'Only artists can send locked media' },
+            { status: 403 }
+          );
+        }
+
+        if (!attachmentUrl) {
+          return NextResponse.json(
+            { error: 'Locked messages need an attachment' },
+            { status: 400 }
+          );
+        }
+      }
+
+      const encryptedFields = await resolveMessageEncryption(
+        req.user.id,
+        recipientId,
+        content,
+        encryption
+      );
+
+      const dmFee = await getDmPrice(req.user.role, recipientId);
+
       // Create the message in the database
       const message = await prisma.messages.create({
         data: {
+          id: randomUUID(),
           senderId: req.user.id,
           recipientId,
           content,
-          type: type.toUpperCase() as any, // Convert to enum value
+          type: type.toUpperCase(),
           attachmentUrl,
+          attachmentPrice,
+          attachmentPreviewUrl,
+          dmFee,
+          ...encryptedFields,
+          updatedAt: new Date(),
         },
         include: {
           users_messages_senderIdTousers: {
@@ -80,37 +144,48 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // Emit WebSocket event for real-time delivery
-      webSocketInstance.emitToConversation(req.user.id, recipientId, 'message:new', {
-        ...message,
-        sender: message.sender,
-      });
+      const data = {
+        ...toMessageView(message, req.user.id),
+        sender: message.users_messages_senderIdTousers,
+      };
 
-      // Emit delivery confirmation if recipient is online
-      if (webSocketInstance.isUserOnline(recipientId)) {
-        webSocketInstance.emitToConversation(req.user.id, recipientId, 'message:delivered', {
+      const moderation = moderateMessageText(content, { isEncrypted: message.isEncrypted });
+      if (moderation.flags.length > 0) {
+        logger.warn('Message flagged by moderation', {
           messageId: message.id,
-          deliveredAt: new Date().toISOString(),
+          senderId: req.user.id,
+          flags: moderation.flags.map(flag => flag.type),
         });
       }
 
-      // Send notification to recipient
-      if (recipient.notificationPreferences) {
-        const prefs = recipient.notificationPreferences as any;
-        if (prefs.messages !== false) {
-          await sendNotification({
-            userId: recipientId,
-            type: 'new_message' as any,
-            title: 'New message',
-            message: `You have a new message from ${req.user.name || req.user.email}`,
-            data: {
-              senderId: req.user.id,
-              messageId: message.id,
-            },
-          });
-        }
+      // Paid DMs are held back until the fan pays for them
+      if (dmFee) {
+        const { purchase } = await startMessagePurchase(message.id, req.user.id);
+        const checkoutUrl = await createMessagePurchaseCheckout(purchase, {
+          email: req.user.email,
+          displayName: req.user.name || req.user.email,
+        });
+
+        logger.info('Paid message awaiting payment', {
+          senderId: req.user.id,
+          recipientId,
+          dmFee,
+        });
+
+        return NextResponse.json(
+          {
+            success: true,
+            message: 'Pay to send this message',
+            requiresPayment: true,
+            checkoutUrl,
+            data,
+          },
+          { status: 202 }
+        );
       }
 
+      await deliverMessage(message, req.user.name || req.user.email);
+
       logger.info('Message sent', {
         senderId: req.user.id,
         recipientId,
@@ -120,18 +195,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'Message sent successfully',
-        data: {
-          id: message.id,
-          senderId: message.senderId,
-          recipientId: message.recipientId,
-          content: message.content,
-          type: message.type,
-          attachmentUrl: message.attachmentUrl,
-          createdAt: message.createdAt,
-          readAt: message.readAt,
-          sender: message.users_messages_senderIdTousers,
-ssages_senderIdTousers,
-        },
+        data,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -144,6 +208,10 @@ ssages_senderIdTousers,
         );
       }
 
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
       logger.error('Send message error', { userId: req.user?.id }, error as Error);
       return NextResponse.json({ error: 'Failed to send message' }, { status: 500 });
     }
@@ -178,6 +246,9 @@ export async function GET(request: NextRequest) {
           { senderId: req.user.id, recipientId: params.conversationWith },
           { senderId: params.conversationWith, recipientId: req.user.id },
         ],
+        // Deleted messages only live on in their room's history as a placeholder
+        deletedAt: null,
+        ...hideUnpaidMessagesFrom(req.user.id),
       };
 
       // Add cursor-based pagination if 'before' is provided
@@ -218,6 +289,7 @@ export async function GET(request: NextRequest) {
           senderId: params.conversationWith,
           recipientId: req.user.id,
           readAt: null,
+          ...hideUnpaidMessagesFrom(req.user.id),
         },
         data: {
           readAt,
@@ -257,13 +329,21 @@ export async function GET(request: NextRequest) {
           senderId: params.conversationWith,
           recipientId: req.user.id,
           readAt: null,
+          deletedAt: null,
+          ...hideUnpaidMessagesFrom(req.user.id),
         },
       });
 
+      // Locked attachments are stripped before they leave the server
+      const messageViews = messages.map(message => ({
+        ...toMessageView(message, req.user.id),
+        sender: message.users_messages_senderIdTousers,
+      }));
+
       return NextResponse.json({
         success: true,
         data: {
-          messages: messages.reverse(), // Most recent first
+          messages: messageViews.reverse(), // Most recent first
           conversation: {
             id: `${req.user.id}_${params.conversationWith}`,
             participants: [
@@ -274,7 +354,7 @@ export async function GET(request: NextRequest) {
               },
               otherUser,
             ],
-            lastMessage: messages.length > 0 ? messages[messages.length - 1] : null,
+            lastMessage: messageViews.length > 0 ? messageViews[messageViews.length - 1] : null,
             unreadCount,
           },
         },
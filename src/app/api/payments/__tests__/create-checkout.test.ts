@@ -20,8 +20,16 @@ import {
   createStripeProduct,
   createStripePrice,
   createCheckoutSession,
+  createIntroductoryCoupon,
+  createPaymentCheckoutSession,
   createOrRetrieveCustomer,
 } from '@/lib/stripe';
+import {
+  validatePromoCode,
+  getOrCreatePromoCoupon,
+  reservePromoRedemption,
+} from '@/lib/promo-codes';
+import { createConflictError } from '@/lib/errors';
 
 // Mock dependencies
 jest.mock('next-auth');
@@ -36,9 +44,16 @@ jest.mock('@/lib/prisma', () => ({
     subscriptions: {
       findUnique: jest.fn(),
     },
+    content: {
+      findUnique: jest.fn(),
+    },
+    content_purchases: {
+      findUnique: jest.fn(),
+    },
   },
 }));
 jest.mock('@/lib/stripe');
+jest.mock('@/lib/promo-codes');
 
 const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>;
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
@@ -49,6 +64,19 @@ const mockCreateStripePrice = createStripePrice as jest.MockedFunction<typeof cr
 const mockCreateCheckoutSession = createCheckoutSession as jest.MockedFunction<
   typeof createCheckoutSession
 >;
+const mockCreateIntroductoryCoupon = createIntroductoryCoupon as jest.MockedFunction<
+  typeof createIntroductoryCoupon
+>;
+const mockValidatePromoCode = validatePromoCode as jest.MockedFunction<typeof validatePromoCode>;
+const mockGetOrCreatePromoCoupon = getOrCreatePromoCoupon as jest.MockedFunction<
+  typeof getOrCreatePromoCoupon
+>;
+const mockReservePromoRedemption = reservePromoRedemption as jest.MockedFunction<
+  typeof reservePromoRedemption
+>;
+const mockCreatePaymentCheckoutSession = createPaymentCheckoutSession as jest.MockedFunction<
+  typeof createPaymentCheckoutSession
+>;
 const mockCreateOrRetrieveCustomer = createOrRetrieveCustomer as jest.MockedFunction<
   typeof createOrRetrieveCustomer
 >;
@@ -473,6 +501,254 @@ describe('/api/payments/create-checkout', () => {
       expect(mockCreateStripePrice).toHaveBeenCalledWith('prod_123', 10, 'acct_123');
     });
 
+    it('should apply the tier trial and introductory price to a first subscription', async () => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'fan-1', email: 'fan@example.com', role: 'FAN' },
+        expires: '2024-01-01',
+      });
+
+      mockPrisma.users.findUnique.mockResolvedValue({
+        id: 'fan-1',
+        email: 'fan@example.com',
+        role: 'FAN',
+        displayName: 'Test Fan',
+      } as any);
+
+      mockPrisma.tiers.findUnique.mockResolvedValue({
+        id: 'tier-1',
+        artistId: 'artist-1',
+        name: 'Basic',
+        description: 'Basic tier',
+        minimumPrice: 5.0,
+        isActive: true,
+        trialDays: 7,
+        introPrice: 3,
+        introMonths: 2,
+        artist: {
+          id: 'artist-1',
+          artists: {
+            stripeAccountId: 'acct_123',
+            isStripeOnboarded: true,
+          },
+        },
+      } as any);
+
+      mockPrisma.subscriptions.findUnique.mockResolvedValue(null);
+
+      mockCreateOrRetrieveCustomer.mockResolvedValue('cus_123');
+      mockCreateStripeProduct.mockResolvedValue('prod_123');
+      mockCreateStripePrice.mockResolvedValue('price_123');
+      mockCreateIntroductoryCoupon.mockResolvedValue('coupon_123');
+      mockCreateCheckoutSession.mockResolvedValue('https://checkout.stripe.com/session123');
+
+      const request = new NextRequest('http://localhost:3000/api/payments/create-checkout', {
+        method: 'POST',
+        body: JSON.stringify({ tierId: 'tier-1', amount: 10 }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(mockCreateIntroductoryCoupon).toHaveBeenCalledWith(7, 2, 'acct_123');
+      expect(mockCreateCheckoutSession).toHaveBeenCalledWith(
+        'price_123',
+        'cus_123',
+        'acct_123',
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ trialDays: '7', introMonths: '2' }),
+        { trialDays: 7, couponId: 'coupon_123' }
+      );
+    });
+
+    it('should not offer a trial to a returning subscriber', async () => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'fan-1', email: 'fan@example.com', role: 'FAN' },
+        expires: '2024-01-01',
+      });
+
+      mockPrisma.users.findUnique.mockResolvedValue({
+        id: 'fan-1',
+        email: 'fan@example.com',
+        role: 'FAN',
+        displayName: 'Test Fan',
+      } as any);
+
+      mockPrisma.tiers.findUnique.mockResolvedValue({
+        id: 'tier-1',
+        artistId: 'artist-1',
+        name: 'Basic',
+        description: 'Basic tier',
+        minimumPrice: 5.0,
+        isActive: true,
+        trialDays: 7,
+        introPrice: 3,
+        introMonths: 2,
+        artist: {
+          id: 'artist-1',
+          artists: {
+            stripeAccountId: 'acct_123',
+            isStripeOnboarded: true,
+          },
+        },
+      } as any);
+
+      mockPrisma.subscriptions.findUnique.mockResolvedValue({
+        id: 'sub-1',
+        status: 'CANCELED',
+      } as any);
+
+      mockCreateOrRetrieveCustomer.mockResolvedValue('cus_123');
+      mockCreateStripeProduct.mockResolvedValue('prod_123');
+      mockCreateStripePrice.mockResolvedValue('price_123');
+      mockCreateCheckoutSession.mockResolvedValue('https://checkout.stripe.com/session123');
+
+      const request = new NextRequest('http://localhost:3000/api/payments/create-checkout', {
+        method: 'POST',
+        body: JSON.stringify({ tierId: 'tier-1', amount: 10 }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(mockCreateIntroductoryCoupon).not.toHaveBeenCalled();
+      expect(mockCreateCheckoutSession).toHaveBeenCalledWith(
+        'price_123',
+        'cus_123',
+        'acct_123',
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ trialDays: '0', introMonths: '0' }),
+        { trialDays: 0, couponId: undefined }
+      );
+    });
+
+    describe('with a promo code', () => {
+      beforeEach(() => {
+        mockGetServerSession.mockResolvedValue({
+          user: { id: 'fan-1', email: 'fan@example.com', role: 'FAN' },
+          expires: '2024-01-01',
+        });
+
+        mockPrisma.users.findUnique.mockResolvedValue({
+          id: 'fan-1',
+          email: 'fan@example.com',
+          role: 'FAN',
+          displayName: 'Test Fan',
+        } as any);
+
+        mockPrisma.tiers.findUnique.mockResolvedValue({
+          id: 'tier-1',
+          artistId: 'artist-1',
+          name: 'Basic',
+          description: 'Basic tier',
+          minimumPrice: 5.0,
+          isActive: true,
+          trialDays: 0,
+          introPrice: 3,
+          introMonths: 2,
+          artist: {
+            id: 'artist-1',
+            artists: {
+              stripeAccountId: 'acct_123',
+              isStripeOnboarded: true,
+            },
+          },
+        } as any);
+
+        mockPrisma.subscriptions.findUnique.mockResolvedValue(null);
+
+        mockCreateOrRetrieveCustomer.mockResolvedValue('cus_123');
+        mockCreateStripeProduct.mockResolvedValue('prod_123');
+        mockCreateStripePrice.mockResolvedValue('price_123');
+        mockCreateCheckoutSession.mockResolvedValue('https://checkout.stripe.com/session123');
+      });
+
+      it('should return 400 for an invalid promo code', async () => {
+        mockValidatePromoCode.mockResolvedValue({ valid: false, error: 'Promo code has expired' });
+
+        const request = new NextRequest('http://localhost:3000/api/payments/create-checkout', {
+          method: 'POST',
+          body: JSON.stringify({ tierId: 'tier-1', amount: 10, promoCode: 'SUMMER' }),
+        });
+        const response = await POST(request);
+
+        expect(response.status).toBe(400);
+        const data = await response.json();
+        expect(data.error).toBe('Promo code has expired');
+        expect(mockCreateCheckoutSession).not.toHaveBeenCalled();
+      });
+
+      const validPromo = {
+        valid: true as const,
+        promoCode: {
+          id: 'promo-1',
+          code: 'SUMMER',
+          discountType: 'PERCENT',
+          discountValue: 50,
+          durationMonths: 1,
+          stripeCouponId: 'coupon_promo',
+        },
+        discountAmount: 5,
+      };
+      const reservedUntil = new Date('2024-01-01T00:35:00Z');
+
+      it('should apply the promo coupon instead of the introductory price', async () => {
+        mockValidatePromoCode.mockResolvedValue(validPromo);
+        mockReservePromoRedemption.mockResolvedValue({
+          id: 'redemption-1',
+          promoCodeId: 'promo-1',
+          discountAmount: 5,
+          reservedUntil,
+        } as any);
+        mockGetOrCreatePromoCoupon.mockResolvedValue('coupon_promo');
+
+        const request = new NextRequest('http://localhost:3000/api/payments/create-checkout', {
+          method: 'POST',
+          body: JSON.stringify({ tierId: 'tier-1', amount: 10, promoCode: 'summer' }),
+        });
+        const response = await POST(request);
+
+        expect(response.status).toBe(200);
+        expect(mockValidatePromoCode).toHaveBeenCalledWith('summer', 'tier-1', 'fan-1', 10);
+        expect(mockReservePromoRedemption).toHaveBeenCalledWith('promo-1', 'fan-1', {
+          originalAmount: 10,
+          discountAmount: 5,
+        });
+        expect(mockCreateIntroductoryCoupon).not.toHaveBeenCalled();
+        expect(mockCreateCheckoutSession).toHaveBeenCalledWith(
+          'price_123',
+          'cus_123',
+          'acct_123',
+          expect.any(String),
+          expect.any(String),
+          expect.objectContaining({
+            promoCodeId: 'promo-1',
+            promoRedemptionId: 'redemption-1',
+            promoDiscount: '5',
+            introMonths: '0',
+          }),
+          { trialDays: 0, couponId: 'coupon_promo', expiresAt: reservedUntil }
+        );
+      });
+
+      it('should return 409 when the last redemption is already held', async () => {
+        mockValidatePromoCode.mockResolvedValue(validPromo);
+        mockReservePromoRedemption.mockRejectedValue(
+          createConflictError('Promo code has reached its redemption limit')
+        );
+
+        const request = new NextRequest('http://localhost:3000/api/payments/create-checkout', {
+          method: 'POST',
+          body: JSON.stringify({ tierId: 'tier-1', amount: 10, promoCode: 'summer' }),
+        });
+        const response = await POST(request);
+
+        expect(response.status).toBe(409);
+        const data = await response.json();
+        expect(data.error).toBe('Promo code has reached its redemption limit');
+        expect(mockCreateCheckoutSession).not.toHaveBeenCalled();
+      });
+    });
+
     it('should return 400 for invalid request data', async () => {
       mockGetServerSession.mockResolvedValue({
         user: { id: 'fan-1', email: 'fan@example.com', role: 'FAN' },
@@ -490,4 +766,112 @@ describe('/api/payments/create-checkout', () => {
       expect(data.error).toBe('Invalid request data');
     });
   });
+  describe('POST (content purchase)', () => {
+    const fan = {
+      id: 'fan-1',
+      email: 'fan@example.com',
+      role: 'FAN',
+      displayName: 'Test Fan',
+      bio: null,
+      avatar: null,
+      socialLinks: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const buildContent = (overrides: Record<string, any> = {}) => ({
+      id: 'content-1',
+      artistId: 'artist-1',
+      title: 'Exclusive Demo',
+      status: 'PUBLISHED',
+      price: 4.99,
+      users: {
+        id: 'artist-1',
+        displayName: 'Test Artist',
+        artists: {
+          id: 'profile-1',
+          userId: 'artist-1',
+          stripeAccountId: 'acct_123',
+          isStripeOnboarded: true,
+        },
+      },
+      ...overrides,
+    });
+
+    const purchaseRequest = () =>
+      new NextRequest('http://localhost:3000/api/payments/create-checkout', {
+        method: 'POST',
+        body: JSON.stringify({ contentId: 'content-1' }),
+      });
+
+    beforeEach(() => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'fan-1', email: 'fan@example.com', role: 'FAN' },
+        expires: '2024-01-01',
+      });
+      (mockPrisma.users.findUnique as jest.Mock).mockResolvedValue(fan);
+    });
+
+    it('should return 404 if content is not found', async () => {
+      (mockPrisma.content.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await POST(purchaseRequest());
+
+      expect(response.status).toBe(404);
+      const data = await response.json();
+      expect(data.error).toBe('Content not found');
+    });
+
+    it('should return 400 if content has no price', async () => {
+      (mockPrisma.content.findUnique as jest.Mock).mockResolvedValue(buildContent({ price: null }));
+
+      const response = await POST(purchaseRequest());
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toBe('Content is not available for purchase');
+    });
+
+    it('should return 400 if content was already purchased', async () => {
+      (mockPrisma.content.findUnique as jest.Mock).mockResolvedValue(buildContent());
+      (mockPrisma.content_purchases.findUnique as jest.Mock).mockResolvedValue({
+        id: 'purchase-1',
+        status: 'COMPLETED',
+      });
+
+      const response = await POST(purchaseRequest());
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toBe('Content already purchased');
+    });
+
+    it('should create a one-time payment checkout session', async () => {
+      (mockPrisma.content.findUnique as jest.Mock).mockResolvedValue(buildContent());
+      (mockPrisma.content_purchases.findUnique as jest.Mock).mockResolvedValue(null);
+      mockCreateOrRetrieveCustomer.mockResolvedValue('cus_123');
+      mockCreatePaymentCheckoutSession.mockResolvedValue('https://checkout.stripe.com/purchase123');
+
+      const response = await POST(purchaseRequest());
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.checkoutUrl).toBe('https://checkout.stripe.com/purchase123');
+
+      expect(mockCreatePaymentCheckoutSession).toHaveBeenCalledWith(
+        'Exclusive Demo',
+        4.99,
+        'cus_123',
+        'acct_123',
+        expect.stringContaining('/content/content-1?purchased=true'),
+        expect.stringContaining('/content/content-1?canceled=true'),
+        expect.objectContaining({
+          type: 'content_purchase',
+          fanId: 'fan-1',
+          contentId: 'content-1',
+        })
+      );
+      expect(mockCreateCheckoutSession).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -27,6 +27,18 @@ jest.mock('@/lib/stripe', () => ({
   },
 }));
 
+jest.mock('@/lib/payment-retry', () => ({
+  createPaymentFailure: jest.fn(),
+  resolvePaymentFailureForInvoice: jest.fn(),
+}));
+
+jest.mock('@/lib/websocket-instance', () => ({
+  webSocketInstance: {
+    emitToConversation: jest.fn(),
+    isUserOnline: jest.fn(),
+  },
+}));
+
 jest.mock('next/headers', () => ({
   headers: jest.fn(() => ({
     get: jest.fn(() => 'test-signature'),
@@ -36,6 +48,7 @@ jest.mock('next/headers', () => ({
 import { POST } from '../webhooks/route';
 import { prisma } from '@/lib/prisma';
 import { stripe } from '@/lib/stripe';
+import { createPaymentFailure } from '@/lib/payment-retry';
 
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
 const mockStripe = stripe as jest.Mocked<typeof stripe>;
@@ -179,8 +192,7 @@ describe('/api/payments/webhooks', () => {
 
       mockStripe.webhooks.constructEvent.mockReturnValue(mockEvent as any);
       mockPrisma.subscription.findUnique.mockResolvedValue(mockSubscription as any);
-      mockPrisma.subscription.update.mockResolvedValue({} as any);
-      mockPrisma.paymentFailure.create.mockResolvedValue({} as any);
+      (createPaymentFailure as jest.Mock).mockResolvedValue({});
 
       const request = createMockRequest('http://localhost:3000/api/payments/webhooks', {
         method: 'POST',
@@ -192,20 +204,12 @@ describe('/api/payments/webhooks', () => {
 
       expect(response.status).toBe(200);
       expect(data.received).toBe(true);
-      expect(mockPrisma.subscription.update).toHaveBeenCalledWith({
-        where: { id: 'subscription123' },
-        data: { status: 'PAST_DUE' },
-      });
-      expect(mockPrisma.paymentFailure.create).toHaveBeenCalledWith({
-        data: {
-          subscriptionId: 'subscription123',
-          stripeInvoiceId: 'in_test123',
-          amount: 10.0,
-          attemptCount: 2,
-          nextRetryAt: new Date(1640995200 * 1000),
-          failureReason: 'Your card was declined.',
-        },
-      });
+      expect(createPaymentFailure).toHaveBeenCalledWith(
+        'subscription123',
+        'in_test123',
+        10.0,
+        'Your card was declined.'
+      );
     });
 
     it('should handle customer.subscription.deleted event', async () => {
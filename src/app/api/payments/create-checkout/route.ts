@@ -6,13 +6,35 @@ import {
   createStripeProduct,
   createStripePrice,
   createCheckoutSession,
+  createIntroductoryCoupon,
+  createPaymentCheckoutSession,
   createOrRetrieveCustomer,
+  createOrRetrievePlatformCustomer,
+  createBundleCheckoutSession,
 } from '@/lib/stripe';
+import {
+  validatePromoCode,
+  getOrCreatePromoCoupon,
+  reservePromoRedemption,
+} from '@/lib/promo-codes';
+import { isWithinPublishWindow } from '@/lib/content-scheduling';
+import { ENDED_SUBSCRIPTION_STATUSES } from '@/lib/content-access';
+import { SubscriptionStatus } from '@/types/database';
+import { AppError } from '@/lib/errors';
 import { z } from 'zod';
 
 const createCheckoutSchema = z.object({
   tierId: z.string(),
   amount: z.number().min(0.01),
+  promoCode: z.string().trim().min(1).max(32).optional(),
+});
+
+const contentPurchaseSchema = z.object({
+  contentId: z.string(),
+});
+
+const bundleCheckoutSchema = z.object({
+  bundleId: z.string(),
 });
 
 export async function POST(request: NextRequest) {
@@ -24,7 +46,17 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { tierId, amount } = createCheckoutSchema.parse(body);
+
+    // One-time content purchases share this endpoint with tier subscriptions
+    if (body && typeof body === 'object' && 'contentId' in body) {
+      return await createContentPurchaseCheckout(session.user.id, body);
+    }
+
+    if (body && typeof body === 'object' && 'bundleId' in body) {
+      return await createBundleCheckout(session.user.id, body);
+    }
+
+    const { tierId, amount, promoCode } = createCheckoutSchema.parse(body);
 
     // Get user (fan) details
     const user = await prisma.users.findUnique({
@@ -78,12 +110,32 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    if (existingSubscription && existingSubscription.status === 'ACTIVE') {
+    // Past-due and paused subscriptions are still live in Stripe, so a second
+    // checkout would bill the fan twice for the same tier
+    if (
+      existingSubscription &&
+      !ENDED_SUBSCRIPTION_STATUSES.includes(existingSubscription.status as SubscriptionStatus)
+    ) {
       return NextResponse.json({ error: 'Already subscribed to this tier' }, { status: 400 });
     }
 
+    const promo = promoCode ? await validatePromoCode(promoCode, tier.id, user.id, amount) : null;
+
+    if (promo && !promo.valid) {
+      return NextResponse.json({ error: promo.error }, { status: 400 });
+    }
+
     const stripeAccountId = tier.artist.artists.stripeAccountId;
 
+    // Hold a redemption before Stripe applies the discount, so concurrent or
+    // repeat checkouts can't go over the code's cap or use it twice
+    const redemption = promo?.valid
+      ? await reservePromoRedemption(promo.promoCode.id, user.id, {
+          originalAmount: amount,
+          discountAmount: promo.discountAmount,
+        })
+      : null;
+
     // Create or retrieve Stripe customer
     const customerId = await createOrRetrieveCustomer(
       user.email,
@@ -97,6 +149,23 @@ export async function POST(request: NextRequest) {
     // Create Stripe price for the custom amount
     const priceId = await createStripePrice(productId, amount, stripeAccountId);
 
+    // Trials and introductory pricing only apply to a fan's first subscription to the tier
+    const isFirstSubscription = !existingSubscription;
+    const trialDays = isFirstSubscription ? tier.trialDays || 0 : 0;
+    const introPrice = tier.introPrice ? Number(tier.introPrice) : null;
+    const introMonths =
+      isFirstSubscription && !promo && introPrice !== null && introPrice < amount
+        ? tier.introMonths
+        : 0;
+
+    // A promo code replaces the tier's introductory price; Stripe applies one discount per checkout
+    let couponId: string | undefined;
+    if (promo?.valid) {
+      couponId = await getOrCreatePromoCoupon(promo.promoCode, stripeAccountId);
+    } else if (introMonths > 0) {
+      couponId = await createIntroductoryCoupon(amount - introPrice!, introMonths, stripeAccountId);
+    }
+
     // Create checkout session
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const successUrl = `${baseUrl}/dashboard/fan/subscriptions?success=true&session_id={CHECKOUT_SESSION_ID}`;
@@ -107,6 +176,13 @@ export async function POST(request: NextRequest) {
       artistId: tier.artistId,
       tierId: tier.id,
       amount: amount.toString(),
+      trialDays: trialDays.toString(),
+      introMonths: introMonths.toString(),
+      ...(redemption && {
+        promoCodeId: redemption.promoCodeId,
+        promoRedemptionId: redemption.id,
+        promoDiscount: redemption.discountAmount.toString(),
+      }),
     };
 
     const checkoutUrl = await createCheckoutSession(
@@ -115,7 +191,8 @@ export async function POST(request: NextRequest) {
       stripeAccountId,
       successUrl,
       cancelUrl,
-      metadata
+      metadata,
+      { trialDays, couponId, expiresAt: redemption?.reservedUntil || undefined }
     );
 
     return NextResponse.json({
@@ -124,6 +201,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Create checkout error:', error);
 
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid request data', details: error.errors },
@@ -134,3 +218,149 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to create checkout session' }, { status: 500 });
   }
 }
+
+async function createContentPurchaseCheckout(userId: string, body: unknown) {
+  const { contentId } = contentPurchaseSchema.parse(body);
+
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user || user.role !== 'FAN') {
+    return NextResponse.json({ error: 'Only fans can purchase content' }, { status: 403 });
+  }
+
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    include: {
+      users: {
+        include: {
+          artists: true,
+        },
+      },
+    },
+  });
+
+  // Drops that haven't gone live yet or have expired can't be bought either
+  if (!content || content.status !== 'PUBLISHED' || !isWithinPublishWindow(content)) {
+    return NextResponse.json({ error: 'Content not found' }, { status: 404 });
+  }
+
+  if (!content.price || Number(content.price) <= 0) {
+    return NextResponse.json({ error: 'Content is not available for purchase' }, { status: 400 });
+  }
+
+  if (!content.users.artists?.stripeAccountId || !content.users.artists.isStripeOnboarded) {
+    return NextResponse.json(
+      { error: 'Artist is not set up to receive payments' },
+      { status: 400 }
+    );
+  }
+
+  const existingPurchase = await prisma.content_purchases.findUnique({
+    where: {
+      contentId_fanId: {
+        contentId: content.id,
+        fanId: user.id,
+      },
+    },
+  });
+
+  if (existingPurchase && existingPurchase.status === 'COMPLETED') {
+    return NextResponse.json({ error: 'Content already purchased' }, { status: 400 });
+  }
+
+  const stripeAccountId = content.users.artists.stripeAccountId;
+  const amount = Number(content.price);
+
+  const customerId = await createOrRetrieveCustomer(user.email, user.displayName, stripeAccountId);
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const successUrl = `${baseUrl}/content/${content.id}?purchased=true&session_id={CHECKOUT_SESSION_ID}`;
+  const cancelUrl = `${baseUrl}/content/${content.id}?canceled=true`;
+
+  const metadata = {
+    type: 'content_purchase',
+    fanId: user.id,
+    artistId: content.artistId,
+    contentId: content.id,
+    amount: amount.toString(),
+  };
+
+  const checkoutUrl = await createPaymentCheckoutSession(
+    content.title,
+    amount,
+    customerId,
+    stripeAccountId,
+    successUrl,
+    cancelUrl,
+    metadata
+  );
+
+  return NextResponse.json({
+    checkoutUrl,
+  });
+}
+
+async function createBundleCheckout(userId: string, body: unknown) {
+  const { bundleId } = bundleCheckoutSchema.parse(body);
+
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user || user.role !== 'FAN') {
+    return NextResponse.json({ error: 'Only fans can subscribe to bundles' }, { status: 403 });
+  }
+
+  const bundle = await prisma.bundles.findUnique({
+    where: { id: bundleId },
+  });
+
+  if (!bundle || !bundle.isActive || !bundle.stripePriceId) {
+    return NextResponse.json({ error: 'Bundle not found' }, { status: 404 });
+  }
+
+  const existingSubscription = await prisma.bundle_subscriptions.findUnique({
+    where: {
+      bundleId_fanId: {
+        bundleId: bundle.id,
+        fanId: user.id,
+      },
+    },
+  });
+
+  // As with tiers, a past-due or paused bundle is still billing in Stripe
+  if (
+    existingSubscription &&
+    !ENDED_SUBSCRIPTION_STATUSES.includes(existingSubscription.status as SubscriptionStatus)
+  ) {
+    return NextResponse.json({ error: 'Already subscribed to this bundle' }, { status: 400 });
+  }
+
+  // Bundles are billed on the platform account and split between artists on payment
+  const customerId = await createOrRetrievePlatformCustomer(user.email, user.displayName);
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const successUrl = `${baseUrl}/dashboard/fan/subscriptions?success=true&session_id={CHECKOUT_SESSION_ID}`;
+  const cancelUrl = `${baseUrl}/discover?canceled=true`;
+
+  const metadata = {
+    type: 'bundle_subscription',
+    fanId: user.id,
+    bundleId: bundle.id,
+    amount: Number(bundle.price).toString(),
+  };
+
+  const checkoutUrl = await createBundleCheckoutSession(
+    bundle.stripePriceId,
+    customerId,
+    successUrl,
+    cancelUrl,
+    metadata
+  );
+
+  return NextResponse.json({
+    checkoutUrl,
+  });
+}
@@ -3,7 +3,24 @@ import { headers } from 'next/headers';
 import { stripe } from '@/lib/stripe';
 import { prisma } from '@/lib/prisma';
 import { sendEmail } from '@/lib/notifications';
+import { escapeHtml } from '@/lib/email-service';
+import { confirmPromoRedemption } from '@/lib/promo-codes';
+import { recordBundleRevenue } from '@/lib/bundles';
+import { markGiftPaid } from '@/lib/gift-subscriptions';
+import { recordLedgerEntry } from '@/lib/payout-ledger';
+import { chargebackManager } from '@/lib/chargeback-manager';
+import { createPaymentFailure, resolvePaymentFailureForInvoice } from '@/lib/payment-retry';
+import { getStripePauseState } from '@/lib/subscription-pause';
+import {
+  confirmStreamTicket,
+  refundSoldOutStreamTicket,
+  refundStreamTickets,
+} from '@/lib/stream-tickets';
+import { confirmMessagePurchase, deliverMessage } from '@/lib/paid-messages';
+import { confirmStreamTip } from '@/lib/stream-tips';
+import { sendWelcomeMessage } from '@/lib/auto-responder';
 import Stripe from 'stripe';
+import { randomUUID } from 'crypto';
 
 const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || 'whsec_placeholder_for_build';
 
@@ -56,6 +73,19 @@ export async function POST(request: NextRequest) {
         await handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
         break;
 
+      case 'customer.subscription.trial_will_end':
+        await handleTrialWillEnd(event.data.object as Stripe.Subscription);
+        break;
+
+      case 'charge.refunded':
+        await handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
+
+      case 'charge.dispute.created':
+      case 'charge.dispute.closed':
+        await handleChargeDispute(event.data.object as Stripe.Dispute);
+        break;
+
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
@@ -74,23 +104,85 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
       return;
     }
 
+    if (session.metadata.type === 'content_purchase') {
+      await handleContentPurchaseCompleted(session);
+      return;
+    }
+
+    if (session.metadata.type === 'bundle_subscription') {
+      await handleBundleCheckoutCompleted(session);
+      return;
+    }
+
+    if (session.metadata.type === 'gift_subscription') {
+      await handleGiftPurchaseCompleted(session);
+      return;
+    }
+
+    if (session.metadata.type === 'stream_ticket') {
+      await handleStreamTicketCompleted(session);
+      return;
+    }
+
+    if (session.metadata.type === 'message_purchase') {
+      await handleMessagePurchaseCompleted(session);
+      return;
+    }
+
+    if (session.metadata.type === 'stream_tip') {
+      await handleStreamTipCompleted(session);
+      return;
+    }
+
     const { fanId, artistId, tierId, amount } = session.metadata;
     const subscriptionId = session.subscription as string;
+    const trialDays = parseInt(session.metadata.trialDays || '0');
+    const introMonths = parseInt(session.metadata.introMonths || '0');
+
+    // Trials bill nothing until they end; the first paid period starts afterwards
+    const trialEndsAt =
+      trialDays > 0 ? new Date(Date.now() + trialDays * 24 * 60 * 60 * 1000) : null;
+    const paidPeriodStart = trialEndsAt || new Date();
+    const introPriceEndsAt =
+      introMonths > 0
+        ? new Date(new Date(paidPeriodStart).setMonth(paidPeriodStart.getMonth() + introMonths))
+        : null;
 
     // Create subscription record
-    await prisma.subscriptions.create({
+    const subscriptionRecord = await prisma.subscriptions.create({
       data: {
         fanId,
         artistId,
         tierId,
         stripeSubscriptionId: subscriptionId,
         amount: parseFloat(amount),
-        status: 'ACTIVE',
+        status: trialEndsAt ? 'TRIALING' : 'ACTIVE',
         currentPeriodStart: new Date(),
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+        currentPeriodEnd: trialEndsAt || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+        ...(trialEndsAt && { trialEndsAt }),
+        ...(introPriceEndsAt && { introPriceEndsAt }),
       },
     });
 
+    // The fan has paid either way, so a redemption that can't be confirmed
+    // mustn't stop the rest of the subscription setup
+    if (session.metadata.promoRedemptionId) {
+      try {
+        const confirmed = await confirmPromoRedemption(session.metadata.promoRedemptionId, {
+          subscriptionId: subscriptionRecord?.id,
+          stripeSessionId: session.id,
+        });
+
+        if (!confirmed) {
+          console.warn(
+            `Promo code redemption ${session.metadata.promoRedemptionId} already confirmed for session ${session.id}`
+          );
+        }
+      } catch (error) {
+        console.error('Failed to confirm promo code redemption:', error);
+      }
+    }
+
     // Update tier subscriber count
     await prisma.tiers.update({
       where: { id: tierId },
@@ -132,12 +224,260 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
       });
     }
 
+    // The artist's welcome auto-reply, if they've set one up
+    try {
+      const welcomeMessage = await sendWelcomeMessage(artistId, fanId);
+      if (welcomeMessage && artist) {
+        await deliverMessage(welcomeMessage, artist.displayName);
+      }
+    } catch (error) {
+      console.error('Failed to send welcome message:', error);
+    }
+
     console.log(`Subscription created for fan ${fanId} to tier ${tierId}`);
   } catch (error) {
     console.error('Error handling checkout session completed:', error);
   }
 }
 
+async function handleContentPurchaseCompleted(session: Stripe.Checkout.Session) {
+  try {
+    const { fanId, artistId, contentId, amount } = session.metadata!;
+    const purchaseAmount = parseFloat(amount);
+
+    // Skip retried webhook deliveries for a session we've already recorded
+    const existingPurchase = await prisma.content_purchases.findUnique({
+      where: { stripeSessionId: session.id },
+    });
+
+    if (existingPurchase) {
+      return;
+    }
+
+    await prisma.content_purchases.upsert({
+      where: {
+        contentId_fanId: { contentId, fanId },
+      },
+      create: {
+        id: randomUUID(),
+        contentId,
+        fanId,
+        amount: purchaseAmount,
+        status: 'COMPLETED',
+        stripeSessionId: session.id,
+        stripePaymentIntentId: (session.payment_intent as string) || null,
+        updatedAt: new Date(),
+      },
+      update: {
+        amount: purchaseAmount,
+        status: 'COMPLETED',
+        stripeSessionId: session.id,
+        stripePaymentIntentId: (session.payment_intent as string) || null,
+        purchasedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    // Update artist earnings
+    await recordLedgerEntry({
+      artistId,
+      type: 'CONTENT_PURCHASE',
+      sourceId: session.id,
+      stripePaymentIntentId: (session.payment_intent as string) || null,
+      grossAmount: purchaseAmount,
+      description: 'Content purchase',
+    });
+
+    const [fan, content] = await Promise.all([
+      prisma.users.findUnique({ where: { id: fanId } }),
+      prisma.content.findUnique({ where: { id: contentId } }),
+    ]);
+
+    if (fan?.email && content) {
+      await sendEmail({
+        to: fan.email,
+        subject: `You unlocked "${content.title}"`,
+        html: `
+          <h1>Thanks for your purchase!</h1>
+          <p>You now have permanent access to "${escapeHtml(content.title)}".</p>
+          <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/content/${contentId}">View it now</a></p>
+        `,
+        text: `Thanks for your purchase!\n\nYou now have permanent access to "${content.title}".\n\nView it now: ${process.env.NEXT_PUBLIC_APP_URL}/content/${contentId}`,
+      });
+    }
+
+    console.log(`Content ${contentId} purchased by fan ${fanId}`);
+  } catch (error) {
+    console.error('Error handling content purchase completed:', error);
+  }
+}
+
+async function handleGiftPurchaseCompleted(session: Stripe.Checkout.Session) {
+  try {
+    const { giftId, purchaserId, artistId, amount } = session.metadata!;
+    const giftAmount = parseFloat(amount);
+
+    // Retried webhook deliveries find the gift already paid and stop here
+    const marked = await markGiftPaid(giftId, (session.payment_intent as string) || null);
+
+    if (!marked) {
+      return;
+    }
+
+    // Update artist earnings
+    await recordLedgerEntry({
+      artistId,
+      type: 'GIFT',
+      sourceId: giftId,
+      stripePaymentIntentId: (session.payment_intent as string) || null,
+      grossAmount: giftAmount,
+      description: 'Gift subscription',
+    });
+
+    const purchaser = await prisma.users.findUnique({ where: { id: purchaserId } });
+
+    if (purchaser?.email) {
+      await sendEmail({
+        to: purchaser.email,
+        subject: 'Your gift is on its way',
+        html: `
+          <h1>Thanks for your gift!</h1>
+          <p>We've emailed the recipient a code to redeem their subscription.</p>
+          <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions">View your gifts</a></p>
+        `,
+        text: `Thanks for your gift!\n\nWe've emailed the recipient a code to redeem their subscription.\n\nView your gifts: ${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions`,
+      });
+    }
+
+    console.log(`Gift ${giftId} purchased by fan ${purchaserId}`);
+  } catch (error) {
+    console.error('Error handling gift purchase completed:', error);
+  }
+}
+
+async function handleStreamTicketCompleted(session: Stripe.Checkout.Session) {
+  try {
+    const { ticketId, fanId, artistId, streamId, amount } = session.metadata!;
+    const ticketAmount = parseFloat(amount);
+    const paymentIntentId = (session.payment_intent as string) || null;
+
+    // Retried webhook deliveries find the ticket already confirmed and stop here
+    const confirmation = await confirmStreamTicket(ticketId, session.id, paymentIntentId);
+
+    if (confirmation === 'SOLD_OUT') {
+      await refundSoldOutStreamTicket(ticketId);
+      return;
+    }
+
+    if (confirmation !== 'CONFIRMED') {
+      return;
+    }
+
+    // Update artist earnings
+    await recordLedgerEntry({
+      artistId,
+      type: 'STREAM_TICKET',
+      sourceId: ticketId,
+      stripePaymentIntentId: paymentIntentId,
+      grossAmount: ticketAmount,
+      description: 'Live stream ticket',
+    });
+
+    const [fan, stream] = await Promise.all([
+      prisma.users.findUnique({ where: { id: fanId } }),
+      prisma.live_streams.findUnique({ where: { id: streamId } }),
+    ]);
+
+    // Paid for just as the stream was cancelled; refund it like the rest
+    if (stream?.status === 'CANCELLED') {
+      await refundStreamTickets(streamId);
+      return;
+    }
+
+    if (fan?.email && stream) {
+      const startsAt = stream.scheduledAt ? ` on ${stream.scheduledAt.toUTCString()}` : '';
+
+      await sendEmail({
+        to: fan.email,
+        subject: `Your ticket for "${stream.title}"`,
+        html: `
+          <h1>You're in!</h1>
+          <p>Your ticket for "${escapeHtml(stream.title)}"${startsAt} is confirmed.</p>
+          <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/stream/${streamId}">Go to the stream</a></p>
+        `,
+        text: `You're in!\n\nYour ticket for "${stream.title}"${startsAt} is confirmed.\n\nGo to the stream: ${process.env.NEXT_PUBLIC_APP_URL}/stream/${streamId}`,
+      });
+    }
+
+    console.log(`Ticket ${ticketId} for stream ${streamId} purchased by fan ${fanId}`);
+  } catch (error) {
+    console.error('Error handling stream ticket completed:', error);
+  }
+}
+
+async function handleMessagePurchaseCompleted(session: Stripe.Checkout.Session) {
+  try {
+    const { purchaseId, fanId, artistId, amount } = session.metadata!;
+    const paymentIntentId = (session.payment_intent as string) || null;
+
+    // Retried webhook deliveries find the purchase already completed and stop here
+    const confirmed = await confirmMessagePurchase(purchaseId, session.id, paymentIntentId);
+
+    if (!confirmed) {
+      return;
+    }
+
+    // Update artist earnings
+    await recordLedgerEntry({
+      artistId,
+      type: 'PAID_MESSAGE',
+      sourceId: purchaseId,
+      stripePaymentIntentId: paymentIntentId,
+      grossAmount: parseFloat(amount),
+      description:
+        confirmed.purchase.type === 'DM_FEE' ? 'Paid direct message' : 'Message media unlock',
+    });
+
+    // The artist only receives a paid DM once it's paid for
+    if (confirmed.purchase.type === 'DM_FEE') {
+      const fan = await prisma.users.findUnique({ where: { id: fanId } });
+      await deliverMessage(confirmed.message, fan?.displayName || 'A fan');
+    }
+
+    console.log(`Message purchase ${purchaseId} completed by fan ${fanId}`);
+  } catch (error) {
+    console.error('Error handling message purchase completed:', error);
+  }
+}
+
+async function handleStreamTipCompleted(session: Stripe.Checkout.Session) {
+  try {
+    const { tipId, tipperId, artistId, streamId, amount } = session.metadata!;
+    const paymentIntentId = (session.payment_intent as string) || null;
+
+    // Retried webhook deliveries find the tip already completed and stop here
+    const tip = await confirmStreamTip(tipId, paymentIntentId);
+
+    if (!tip) {
+      return;
+    }
+
+    // Update artist earnings
+    await recordLedgerEntry({
+      artistId,
+      type: 'TIP',
+      sourceId: tipId,
+      stripePaymentIntentId: paymentIntentId,
+      grossAmount: parseFloat(amount),
+      description: 'Stream tip',
+    });
+
+    console.log(`Stream tip ${tipId} on stream ${streamId} completed by fan ${tipperId}`);
+  } catch (error) {
+    console.error('Error handling stream tip completed:', error);
+  }
+}
+
 async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
   try {
     const subscriptionId = invoice.subscription as string;
@@ -151,6 +491,17 @@ async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
       where: { stripeSubscriptionId: subscriptionId },
     });
 
+    // Bundle subscriptions are billed on the platform account and split between artists
+    if (!subscription) {
+      await handleBundleInvoicePaymentSucceeded(invoice, subscriptionId);
+      return;
+    }
+
+    // The $0 invoice issued when a trial starts doesn't activate the subscription
+    if (subscription && subscription.status === 'TRIALING' && invoice.amount_paid === 0) {
+      return;
+    }
+
     if (subscription) {
       await prisma.subscriptions.update({
         where: { id: subscription.id },
@@ -162,19 +513,17 @@ async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
       });
 
       // Update artist earnings
-      const amount = invoice.amount_paid / 100; // Convert from cents
-      const platformFee = amount * 0.05; // 5% platform fee
-      const artistEarnings = amount - platformFee;
-
-      await prisma.artists.update({
-        where: { userId: subscription.artistId },
-        data: {
-          totalEarnings: {
-            increment: artistEarnings,
-          },
-        },
+      await recordLedgerEntry({
+        artistId: subscription.artistId,
+        type: 'SUBSCRIPTION',
+        sourceId: invoice.id,
+        stripePaymentIntentId: (invoice.payment_intent as string) || null,
+        grossAmount: invoice.amount_paid / 100, // Convert from cents
+        description: 'Subscription payment',
       });
 
+      await resolvePaymentFailureForInvoice(invoice.id);
+
       console.log(`Payment succeeded for subscription ${subscriptionId}`);
     }
   } catch (error) {
@@ -190,69 +539,27 @@ async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
       return;
     }
 
-    // Update subscription status to past due
     const subscription = await prisma.subscriptions.findUnique({
       where: { stripeSubscriptionId: subscriptionId },
-      include: {
-        fan: true,
-        tier: {
-          include: {
-            artist: true,
-          },
-        },
-      },
     });
 
     if (subscription) {
-      await prisma.subscriptions.update({
-        where: { id: subscription.id },
-        data: { status: 'PAST_DUE' },
-      });
-
-      // Create a payment failure record for tracking
-      await prisma.paymentFailure.create({
-        data: {
-          subscriptionId: subscription.id,
-          stripeInvoiceId: invoice.id,
-          amount: invoice.amount_due / 100,
-          attemptCount: invoice.attempt_count || 1,
-          nextRetryAt: invoice.next_payment_attempt
-            ? new Date(invoice.next_payment_attempt * 1000)
-            : null,
-          failureReason: invoice.last_finalization_error?.message || 'Payment failed',
-        },
-      });
-
-      // Send notification email to fan about payment failure
-      if (subscription.users.email) {
-        await sendEmail({
-          to: subscription.users.email,
-          subject: `Payment Failed for ${subscription.tiers.artist?.displayName || 'Artist'} Subscription`,
-          html: `
-            <h1>Payment Failed</h1>
-            <p>We were unable to process your payment for your subscription to ${subscription.tiers.name}.</p>
-            <p>This was attempt ${invoice.attempt_count} of 3. ${
-              invoice.next_payment_attempt
-                ? `We'll try again on ${new Date(invoice.next_payment_attempt * 1000).toLocaleDateString()}.`
-                : 'Please update your payment method to continue your subscription.'
-            }</p>
-            <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions">Manage your subscriptions</a></p>
-          `,
-          text:
-            `Payment Failed for ${subscription.tiers.artist?.displayName || 'Artist'} Subscription\n\n` +
-            `We were unable to process your payment for your subscription to ${subscription.tiers.name}.\n\n` +
-            `This was attempt ${invoice.attempt_count} of 3. ${
-              invoice.next_payment_attempt
-                ? `We'll try again on ${new Date(invoice.next_payment_attempt * 1000).toLocaleDateString()}.`
-                : 'Please update your payment method to continue your subscription.'
-            }\n\n` +
-            `Manage your subscriptions: ${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions`,
-        });
-      }
+      // Marks the subscription past due, schedules retries and emails the fan
+      await createPaymentFailure(
+        subscription.id,
+        invoice.id,
+        invoice.amount_due / 100,
+        invoice.last_finalization_error?.message || 'Payment failed'
+      );
 
       console.log(
         `Payment failed for subscription ${subscriptionId}, attempt ${invoice.attempt_count}`
       );
+    } else {
+      await prisma.bundle_subscriptions.updateMany({
+        where: { stripeSubscriptionId: subscriptionId },
+        data: { status: 'PAST_DUE', updatedAt: new Date() },
+      });
     }
   } catch (error) {
     console.error('Error handling invoice payment failed:', error);
@@ -269,13 +576,25 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
       await prisma.subscriptions.update({
         where: { id: subscriptionRecord.id },
         data: {
-          status: subscription.status.toUpperCase() as any,
+          // Also picks up pauses and auto-resumes made through pause_collection
+          ...getStripePauseState(subscription, subscriptionRecord.pausedAt),
           currentPeriodStart: new Date(subscription.current_period_start * 1000),
           currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+          trialEndsAt: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
         },
       });
 
       console.log(`Subscription updated: ${subscription.id}`);
+    } else {
+      await prisma.bundle_subscriptions.updateMany({
+        where: { stripeSubscriptionId: subscription.id },
+        data: {
+          status: subscription.status.toUpperCase(),
+          currentPeriodStart: new Date(subscription.current_period_start * 1000),
+          currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+          updatedAt: new Date(),
+        },
+      });
     }
   } catch (error) {
     console.error('Error handling subscription updated:', error);
@@ -316,8 +635,189 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
       });
 
       console.log(`Subscription canceled: ${subscription.id}`);
+    } else {
+      await prisma.bundle_subscriptions.updateMany({
+        where: { stripeSubscriptionId: subscription.id },
+        data: { status: 'CANCELED', updatedAt: new Date() },
+      });
     }
   } catch (error) {
     console.error('Error handling subscription deleted:', error);
   }
 }
+
+async function handleBundleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  try {
+    const { fanId, bundleId, amount } = session.metadata!;
+    const subscriptionId = session.subscription as string;
+    const now = new Date();
+    const periodEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days from now
+
+    // Fans who resubscribe after canceling reuse their bundle subscription record
+    await prisma.bundle_subscriptions.upsert({
+      where: {
+        bundleId_fanId: {
+          bundleId,
+          fanId,
+        },
+      },
+      create: {
+        id: randomUUID(),
+        bundleId,
+        fanId,
+        stripeSubscriptionId: subscriptionId,
+        amount: parseFloat(amount),
+        status: 'ACTIVE',
+        currentPeriodStart: now,
+        currentPeriodEnd: periodEnd,
+        updatedAt: now,
+      },
+      update: {
+        stripeSubscriptionId: subscriptionId,
+        amount: parseFloat(amount),
+        status: 'ACTIVE',
+        currentPeriodStart: now,
+        currentPeriodEnd: periodEnd,
+        updatedAt: now,
+      },
+    });
+
+    const [fan, bundle] = await Promise.all([
+      prisma.users.findUnique({ where: { id: fanId } }),
+      prisma.bundles.findUnique({ where: { id: bundleId } }),
+    ]);
+
+    if (fan?.email && bundle) {
+      await sendEmail({
+        to: fan.email,
+        subject: `Welcome to the ${bundle.name} bundle!`,
+        html: `
+          <h1>Thank you for subscribing!</h1>
+          <p>You are now subscribed to the ${escapeHtml(bundle.name)} bundle.</p>
+          <p>You now have access to exclusive content from every artist in the bundle.</p>
+          <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions">Manage your subscriptions</a></p>
+        `,
+        text: `Thank you for subscribing!\n\nYou are now subscribed to the ${bundle.name} bundle.\n\nYou now have access to exclusive content from every artist in the bundle.\n\nManage your subscriptions: ${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions`,
+      });
+    }
+
+    console.log(`Bundle subscription created for fan ${fanId} to bundle ${bundleId}`);
+  } catch (error) {
+    console.error('Error handling bundle checkout completed:', error);
+  }
+}
+
+async function handleBundleInvoicePaymentSucceeded(
+  invoice: Stripe.Invoice,
+  subscriptionId: string
+) {
+  const bundleSubscription = await prisma.bundle_subscriptions.findUnique({
+    where: { stripeSubscriptionId: subscriptionId },
+  });
+
+  if (!bundleSubscription) {
+    return;
+  }
+
+  await prisma.bundle_subscriptions.update({
+    where: { id: bundleSubscription.id },
+    data: {
+      status: 'ACTIVE',
+      currentPeriodStart: new Date(invoice.period_start * 1000),
+      currentPeriodEnd: new Date(invoice.period_end * 1000),
+      updatedAt: new Date(),
+    },
+  });
+
+  if (invoice.amount_paid > 0) {
+    const splits = await recordBundleRevenue(
+      subscriptionId,
+      invoice.id,
+      invoice.amount_paid / 100,
+      (invoice.payment_intent as string) || null
+    );
+    console.log(
+      `Bundle payment succeeded for subscription ${subscriptionId}, split between ${splits.length} artists`
+    );
+  }
+}
+
+async function handleTrialWillEnd(subscription: Stripe.Subscription) {
+  try {
+    const subscriptionRecord = await prisma.subscriptions.findUnique({
+      where: { stripeSubscriptionId: subscription.id },
+      include: {
+        users: true,
+        tiers: {
+          include: {
+            users: true,
+          },
+        },
+      },
+    });
+
+    if (!subscriptionRecord || !subscription.trial_end) {
+      return;
+    }
+
+    const trialEnd = new Date(subscription.trial_end * 1000).toLocaleDateString();
+    const artistName = subscriptionRecord.tiers.users.displayName;
+    const amount = Number(subscriptionRecord.amount).toFixed(2);
+
+    await sendEmail({
+      to: subscriptionRecord.users.email,
+      subject: `Your free trial of ${artistName}'s ${subscriptionRecord.tiers.name} tier ends soon`,
+      html: `
+        <h1>Your free trial is ending</h1>
+        <p>Your trial of ${escapeHtml(artistName)}'s ${escapeHtml(subscriptionRecord.tiers.name)} tier ends on ${trialEnd}.</p>
+        <p>After that you'll be billed $${amount}/month unless you cancel.</p>
+        <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions">Manage your subscriptions</a></p>
+      `,
+      text: `Your free trial is ending\n\nYour trial of ${artistName}'s ${subscriptionRecord.tiers.name} tier ends on ${trialEnd}.\n\nAfter that you'll be billed $${amount}/month unless you cancel.\n\nManage your subscriptions: ${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions`,
+    });
+
+    console.log(`Trial ending notice sent for subscription ${subscription.id}`);
+  } catch (error) {
+    console.error('Error handling trial will end:', error);
+  }
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  try {
+    if (!charge.payment_intent) {
+      return;
+    }
+
+    await chargebackManager.recordRefund(
+      charge.payment_intent as string,
+      charge.id,
+      charge.amount_refunded / 100 // Cumulative across partial refunds
+    );
+  } catch (error) {
+    console.error('Error handling charge refunded:', error);
+  }
+}
+
+async function handleChargeDispute(dispute: Stripe.Dispute) {
+  try {
+    if (!dispute.payment_intent) {
+      return;
+    }
+
+    const paymentIntentId = dispute.payment_intent as string;
+
+    if (dispute.status === 'won') {
+      await chargebackManager.resolveChargeback(dispute.id, paymentIntentId, dispute.amount / 100);
+      return;
+    }
+
+    await chargebackManager.handleChargeback(
+      paymentIntentId,
+      dispute.amount / 100,
+      dispute.reason,
+      dispute.id
+    );
+  } catch (error) {
+    console.error('Error handling charge dispute:', error);
+  }
+}
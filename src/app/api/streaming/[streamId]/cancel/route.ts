@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withStreamManagement } from '@/lib/streaming-auth';
+import { prisma } from '@/lib/prisma';
+import { cancelStream } from '@/lib/stream-tickets';
+
+// POST /api/streaming/[streamId]/cancel - Cancel a scheduled stream and refund its tickets.
+// Calling it again on a cancelled stream retries any refunds that failed.
+export async function POST(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withStreamManagement<unknown>(request, async req => {
+    try {
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: params.streamId },
+      });
+
+      if (!stream || stream.artistId !== req.user.id) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      if (!['SCHEDULED', 'CANCELLED'].includes(stream.status)) {
+        return NextResponse.json(
+          { error: 'Only scheduled streams can be cancelled' },
+          { status: 400 }
+        );
+      }
+
+      const refunds = await cancelStream(stream.id);
+
+      return NextResponse.json({
+        streamId: stream.id,
+        status: 'CANCELLED',
+        refunds,
+      });
+    } catch (error) {
+      console.error('Stream cancel error:', error);
+      return NextResponse.json({ error: 'Failed to cancel stream' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withFanStreaming, withStreamManagement } from '@/lib/streaming-auth';
+import { prisma } from '@/lib/prisma';
+import {
+  canModerateStream,
+  chatSettingsSchema,
+  getStreamChatContext,
+  updateStreamChatSettings,
+} from '@/lib/stream-chat-moderation';
+
+// GET /api/streaming/[streamId]/chat-settings - Current chat modes; moderators also see the moderator list
+export async function GET(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const context = await getStreamChatContext(params.streamId);
+
+      if (!context) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      const isModerator = canModerateStream(req.user.id, context);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          streamId: context.streamId,
+          ...context.settings,
+          // Viewers only need to know a filter exists, not what it blocks
+          bannedKeywords: isModerator ? context.settings.bannedKeywords : [],
+          moderatorIds: isModerator ? context.moderatorIds : undefined,
+          canModerate: isModerator,
+        },
+      });
+    } catch (error) {
+      console.error('Get stream chat settings error:', error);
+      return NextResponse.json({ error: 'Failed to fetch chat settings' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/streaming/[streamId]/chat-settings - Update chat modes, keyword filters and moderators
+export async function PUT(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withStreamManagement<unknown>(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = chatSettingsSchema.parse(body);
+
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: params.streamId },
+      });
+
+      if (!stream || stream.artistId !== req.user.id) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      if (validatedData.moderatorIds?.length) {
+        const users = await prisma.users.count({
+          where: { id: { in: validatedData.moderatorIds } },
+        });
+
+        if (users !== new Set(validatedData.moderatorIds).size) {
+          return NextResponse.json({ error: 'Unknown moderator' }, { status: 400 });
+        }
+      }
+
+      const context = await updateStreamChatSettings(stream.id, stream.artistId, validatedData);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          streamId: context.streamId,
+          ...context.settings,
+          moderatorIds: context.moderatorIds,
+          canModerate: true,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid chat settings', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      console.error('Update stream chat settings error:', error);
+      return NextResponse.json({ error: 'Failed to update chat settings' }, { status: 500 });
+    }
+  });
+}
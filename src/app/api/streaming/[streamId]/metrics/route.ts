@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withStreamManagement, getStreamMetrics } from '@/lib/streaming-auth';
+import { getStreamPollResults } from '@/lib/stream-polls';
+import { getStreamRetentionAnalytics } from '@/lib/stream-retention';
+import { prisma } from '@/lib/prisma';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { streamId: string } }
 ) {
-  return withStreamManagement(request, async (req) => {
+  return withStreamManagement<unknown>(request, async (req) => {
     try {
       const { streamId } = params;
 
@@ -16,8 +19,25 @@ export async function GET(
         );
       }
 
-      // Get stream metrics
-      const metrics = await getStreamMetrics(streamId);
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: streamId },
+        select: { artistId: true },
+      });
+
+      if (!stream || stream.artistId !== req.user.id) {
+        return NextResponse.json(
+          { error: 'Stream not found' },
+          { status: 404 }
+        );
+      }
+
+      // Get stream metrics, the results of every poll run on the stream and
+      // the audience timeline
+      const [metrics, polls, audience] = await Promise.all([
+        getStreamMetrics(streamId),
+        getStreamPollResults(streamId),
+        getStreamRetentionAnalytics(streamId),
+      ]);
 
       if (!metrics) {
         return NextResponse.json(
@@ -36,6 +56,8 @@ export async function GET(
           chatMessages: metrics.chatMessages,
           likes: metrics.likes,
         },
+        polls,
+        audience,
         lastUpdated: new Date().toISOString(),
       });
     } catch (error) {
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withStreamManagement } from '@/lib/streaming-auth';
+import { prisma } from '@/lib/prisma';
+import { getStreamOverlayToken } from '@/lib/stream-tip-goals';
+
+async function overlayResponse(streamId: string, artistId: string, rotate: boolean) {
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: { id: true, artistId: true },
+  });
+
+  if (!stream || stream.artistId !== artistId) {
+    return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+  }
+
+  const overlayToken = await getStreamOverlayToken(stream.id, rotate);
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      overlayUrl: `${baseUrl}/overlay/tips/${overlayToken}`,
+    },
+  });
+}
+
+// GET /api/streaming/[streamId]/overlay - Browser source URL for the OBS tip overlay
+export async function GET(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withStreamManagement<unknown>(request, async req => {
+    try {
+      return await overlayResponse(params.streamId, req.user.id, false);
+    } catch (error) {
+      console.error('Get stream overlay error:', error);
+      return NextResponse.json({ error: 'Failed to fetch overlay URL' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/streaming/[streamId]/overlay - Issue a new overlay URL, disabling the old one
+export async function POST(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withStreamManagement<unknown>(request, async req => {
+    try {
+      return await overlayResponse(params.streamId, req.user.id, true);
+    } catch (error) {
+      console.error('Rotate stream overlay error:', error);
+      return NextResponse.json({ error: 'Failed to reset overlay URL' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withFanStreaming } from '@/lib/streaming-auth';
+import { AppError } from '@/lib/errors';
+import { cancelRsvp, getStreamRsvp, rsvpToStream } from '@/lib/stream-reminders';
+
+// GET /api/streaming/[streamId]/rsvp - The fan's RSVP and reminder settings
+export async function GET(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const rsvp = await getStreamRsvp(params.streamId, req.user.id);
+
+      return NextResponse.json({ success: true, data: rsvp });
+    } catch (error) {
+      console.error('Get stream RSVP error:', error);
+      return NextResponse.json({ error: 'Failed to fetch RSVP' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/streaming/[streamId]/rsvp - RSVP to a scheduled stream or change its reminders
+export async function PUT(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const rsvp = await rsvpToStream(params.streamId, req.user.id, body);
+
+      return NextResponse.json({ success: true, data: rsvp });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: 'Invalid RSVP', details: error.errors }, { status: 400 });
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Stream RSVP error:', error);
+      return NextResponse.json({ error: 'Failed to RSVP' }, { status: 500 });
+    }
+  });
+}
+
+// DELETE /api/streaming/[streamId]/rsvp - Cancel the RSVP and its reminders
+export async function DELETE(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      await cancelRsvp(params.streamId, req.user.id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Cancel stream RSVP error:', error);
+      return NextResponse.json({ error: 'Failed to cancel RSVP' }, { status: 500 });
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withStreamManagement, updateStreamStatus } from '@/lib/streaming-auth';
+import { stopStreamSimulcasts } from '@/lib/rtmp-simulcast';
 
 export async function POST(
   request: NextRequest,
@@ -29,6 +30,9 @@ export async function POST(
         );
       }
 
+      // Restreams end with the stream they relay
+      await stopStreamSimulcasts(streamId);
+
       // Simulate MediaLive channel stop (in real implementation, this would be async)
       setTimeout(async () => {
         await updateStreamStatus(streamId, 'stopped');
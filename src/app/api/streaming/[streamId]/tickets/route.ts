@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withFanStreaming, withStreamManagement } from '@/lib/streaming-auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/errors';
+import { createPaymentCheckoutSession, createOrRetrieveCustomer } from '@/lib/stripe';
+import {
+  getFanTicket,
+  getTicketQuote,
+  isTicketedStream,
+  reserveStreamTicket,
+  ticketSettingsSchema,
+  toStreamTicketFields,
+} from '@/lib/stream-tickets';
+
+// GET /api/streaming/[streamId]/tickets - Ticket price and availability for the current fan
+export async function GET(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: params.streamId },
+      });
+
+      if (!stream) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      if (!isTicketedStream(stream)) {
+        return NextResponse.json({ ticketed: false });
+      }
+
+      const [quote, ticket] = await Promise.all([
+        getTicketQuote(stream, req.user.id),
+        getFanTicket(stream.id, req.user.id),
+      ]);
+
+      return NextResponse.json({
+        ticketed: true,
+        capacity: stream.ticketCapacity,
+        ...quote,
+        ticket: ticket && {
+          id: ticket.id,
+          status: ticket.status,
+          amount: Number(ticket.amount),
+          reservedUntil: ticket.reservedUntil,
+          purchasedAt: ticket.purchasedAt,
+          refundedAt: ticket.refundedAt,
+        },
+      });
+    } catch (error) {
+      console.error('Get stream tickets error:', error);
+      return NextResponse.json({ error: 'Failed to fetch ticket details' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/streaming/[streamId]/tickets - Hold a seat and start ticket checkout
+export async function POST(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const user = await prisma.users.findUnique({
+        where: { id: req.user.id },
+      });
+
+      if (!user || user.role !== 'FAN') {
+        return NextResponse.json({ error: 'Only fans can buy tickets' }, { status: 403 });
+      }
+
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: params.streamId },
+        include: {
+          users: {
+            include: {
+              artists: true,
+            },
+          },
+        },
+      });
+
+      if (!stream) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      if (!stream.users.artists?.stripeAccountId || !stream.users.artists.isStripeOnboarded) {
+        return NextResponse.json(
+          { error: 'Artist is not set up to receive payments' },
+          { status: 400 }
+        );
+      }
+
+      const stripeAccountId = stream.users.artists.stripeAccountId;
+      const { ticket, quote } = await reserveStreamTicket(stream, user.id);
+
+      const customerId = await createOrRetrieveCustomer(
+        user.email,
+        user.displayName,
+        stripeAccountId
+      );
+
+      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+      const successUrl = `${baseUrl}/stream/${stream.id}?ticket=purchased&session_id={CHECKOUT_SESSION_ID}`;
+      const cancelUrl = `${baseUrl}/stream/${stream.id}?canceled=true`;
+
+      const metadata = {
+        type: 'stream_ticket',
+        ticketId: ticket.id,
+        fanId: user.id,
+        artistId: stream.artistId,
+        streamId: stream.id,
+        amount: quote.amount.toString(),
+      };
+
+      const checkoutUrl = await createPaymentCheckoutSession(
+        `Ticket: ${stream.title}`,
+        quote.amount,
+        customerId,
+        stripeAccountId,
+        successUrl,
+        cancelUrl,
+        metadata,
+        ticket.reservedUntil || undefined
+      );
+
+      return NextResponse.json({
+        checkoutUrl,
+        ticketId: ticket.id,
+        amount: quote.amount,
+        pricing: quote.pricing,
+        discountPercent: quote.discountPercent,
+        reservedUntil: ticket.reservedUntil,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json(
+          { error: error.message, details: error.details },
+          { status: error.statusCode }
+        );
+      }
+
+      console.error('Create stream ticket checkout error:', error);
+      return NextResponse.json({ error: 'Failed to create ticket checkout' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/streaming/[streamId]/tickets - Set ticket price, seat cap and sale windows
+export async function PUT(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withStreamManagement<unknown>(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = ticketSettingsSchema.parse(body);
+
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: params.streamId },
+      });
+
+      if (!stream || stream.artistId !== req.user.id) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      if (stream.status !== 'SCHEDULED') {
+        return NextResponse.json(
+          { error: 'Tickets can only be set up before the stream starts' },
+          { status: 400 }
+        );
+      }
+
+      const confirmedTickets = await prisma.stream_tickets.count({
+        where: { streamId: stream.id, status: 'CONFIRMED' },
+      });
+
+      if (validatedData.capacity && validatedData.capacity < confirmedTickets) {
+        return NextResponse.json(
+          { error: `${confirmedTickets} tickets are already sold` },
+          { status: 400 }
+        );
+      }
+
+      const updated = await prisma.live_streams.update({
+        where: { id: stream.id },
+        data: {
+          ...toStreamTicketFields(validatedData),
+          updatedAt: new Date(),
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          streamId: updated.id,
+          price: Number(updated.paymentAmount),
+          capacity: updated.ticketCapacity,
+          presaleStartsAt: updated.presaleStartsAt,
+          salesStartAt: updated.ticketSalesStartAt,
+          earlyBirdPrice: updated.earlyBirdPrice === null ? null : Number(updated.earlyBirdPrice),
+          earlyBirdEndsAt: updated.earlyBirdEndsAt,
+          tierHolderDiscountPercent: updated.tierHolderDiscountPercent,
+          ticketsSold: confirmedTickets,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid ticket settings', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      console.error('Update stream tickets error:', error);
+      return NextResponse.json({ error: 'Failed to update ticket settings' }, { status: 500 });
+    }
+  });
+}
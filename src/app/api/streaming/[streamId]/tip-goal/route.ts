@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withFanStreaming, withStreamManagement } from '@/lib/streaming-auth';
+import { prisma } from '@/lib/prisma';
+import { getTipGoalProgress, setStreamTipGoal, tipGoalSchema } from '@/lib/stream-tip-goals';
+
+async function findOwnStream(streamId: string, artistId: string) {
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: { id: true, artistId: true },
+  });
+
+  return stream && stream.artistId === artistId ? stream : null;
+}
+
+// GET /api/streaming/[streamId]/tip-goal - Current tip goal and progress
+export async function GET(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async () => {
+    try {
+      const tipGoal = await getTipGoalProgress(params.streamId);
+
+      return NextResponse.json({ success: true, data: tipGoal });
+    } catch (error) {
+      console.error('Get stream tip goal error:', error);
+      return NextResponse.json({ error: 'Failed to fetch tip goal' }, { status: 500 });
+    }
+  });
+}
+
+// PUT /api/streaming/[streamId]/tip-goal - Set the tip goal
+export async function PUT(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withStreamManagement<unknown>(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = tipGoalSchema.parse(body);
+
+      const stream = await findOwnStream(params.streamId, req.user.id);
+      if (!stream) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      const tipGoal = await setStreamTipGoal(stream.id, validatedData);
+
+      return NextResponse.json({ success: true, data: tipGoal });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid tip goal', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      console.error('Update stream tip goal error:', error);
+      return NextResponse.json({ error: 'Failed to update tip goal' }, { status: 500 });
+    }
+  });
+}
+
+// DELETE /api/streaming/[streamId]/tip-goal - Take the tip goal down
+export async function DELETE(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withStreamManagement<unknown>(request, async req => {
+    try {
+      const stream = await findOwnStream(params.streamId, req.user.id);
+      if (!stream) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      await setStreamTipGoal(stream.id, null);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Delete stream tip goal error:', error);
+      return NextResponse.json({ error: 'Failed to remove tip goal' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFanStreaming, checkStreamAccess } from '@/lib/streaming-auth';
+import { prisma } from '@/lib/prisma';
+import { getRecordingChapters, toWebVTTChapters } from '@/lib/stream-chapters';
+
+// GET /api/streaming/[streamId]/vod/chapters - WebVTT chapters for a stream recording.
+// Defaults to the stream's latest recording; pass ?recordingId= for another one.
+export async function GET(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const canAccess = await checkStreamAccess({
+        streamId: params.streamId,
+        userId: req.user.id,
+        userRole: req.user.role,
+        action: 'view',
+      });
+
+      if (!canAccess) {
+        return NextResponse.json({ error: 'Access denied to this stream' }, { status: 403 });
+      }
+
+      const recordingId = request.nextUrl.searchParams.get('recordingId');
+      const recording = await prisma.stream_recordings.findFirst({
+        where: {
+          streamId: params.streamId,
+          ...(recordingId && { id: recordingId }),
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, duration: true },
+      });
+
+      if (!recording) {
+        return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+      }
+
+      const chapters = await getRecordingChapters(recording.id);
+
+      return new NextResponse(toWebVTTChapters(chapters, recording.duration), {
+        headers: {
+          'Content-Type': 'text/vtt; charset=utf-8',
+          'Cache-Control': 'private, max-age=300',
+        },
+      });
+    } catch (error) {
+      console.error('Get stream chapters error:', error);
+      return NextResponse.json({ error: 'Failed to fetch chapters' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withFanStreaming } from '@/lib/streaming-auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/errors';
+import {
+  canClipStream,
+  createClipSchema,
+  createStreamClip,
+  getStreamClips,
+} from '@/lib/stream-clips';
+
+const clippableStreamSelect = {
+  id: true,
+  artistId: true,
+  isPublic: true,
+  tierIds: true,
+} as const;
+
+// GET /api/streaming/[streamId]/vod/clips - List clips cut from a stream's recordings
+export async function GET(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: params.streamId },
+        select: clippableStreamSelect,
+      });
+
+      if (!stream) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      if (!(await canClipStream(req.user.id, stream))) {
+        return NextResponse.json({ error: 'Access denied to this stream' }, { status: 403 });
+      }
+
+      const clips = await getStreamClips(stream, req.user.id);
+
+      return NextResponse.json({ clips });
+    } catch (error) {
+      console.error('Get stream clips error:', error);
+      return NextResponse.json({ error: 'Failed to fetch clips' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/streaming/[streamId]/vod/clips - Cut a 15-60 second clip from a recording.
+// The clip is published as content once transcoding finishes.
+export async function POST(request: NextRequest, { params }: { params: { streamId: string } }) {
+  return withFanStreaming<unknown>(request, async req => {
+    try {
+      const body = await request.json();
+      const validatedData = createClipSchema.parse(body);
+
+      const stream = await prisma.live_streams.findUnique({
+        where: { id: params.streamId },
+        select: clippableStreamSelect,
+      });
+
+      if (!stream) {
+        return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+      }
+
+      if (!(await canClipStream(req.user.id, stream))) {
+        return NextResponse.json({ error: 'Access denied to this stream' }, { status: 403 });
+      }
+
+      const clip = await createStreamClip(stream, req.user.id, validatedData);
+
+      return NextResponse.json({ clip }, { status: 201 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid clip data', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Create stream clip error:', error);
+      return NextResponse.json({ error: 'Failed to create clip' }, { status: 500 });
+    }
+  });
+}
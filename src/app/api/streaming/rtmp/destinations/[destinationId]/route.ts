@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistStreaming } from '@/lib/streaming-auth';
+import { AppError } from '@/lib/errors';
+import { deleteRtmpDestination, updateRtmpDestination } from '@/lib/rtmp-simulcast';
+
+// PATCH /api/streaming/rtmp/destinations/[destinationId] - Rename or change URL / stream key
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { destinationId: string } }
+) {
+  return withArtistStreaming<unknown>(request, async req => {
+    try {
+      const body = await request.json();
+      const destination = await updateRtmpDestination(req.user.id, params.destinationId, body);
+
+      return NextResponse.json({ success: true, data: destination });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid RTMP destination', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Update RTMP destination error:', error);
+      return NextResponse.json({ error: 'Failed to update RTMP destination' }, { status: 500 });
+    }
+  });
+}
+
+// DELETE /api/streaming/rtmp/destinations/[destinationId] - Remove a destination, stopping its relay
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { destinationId: string } }
+) {
+  return withArtistStreaming<unknown>(request, async req => {
+    try {
+      await deleteRtmpDestination(req.user.id, params.destinationId);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Delete RTMP destination error:', error);
+      return NextResponse.json({ error: 'Failed to delete RTMP destination' }, { status: 500 });
+    }
+  });
+}
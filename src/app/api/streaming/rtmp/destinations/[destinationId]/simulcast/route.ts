@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistStreaming } from '@/lib/streaming-auth';
+import { AppError } from '@/lib/errors';
+import { startSimulcast, stopSimulcast } from '@/lib/rtmp-simulcast';
+
+const startSimulcastSchema = z.object({
+  streamId: z.string().min(1),
+});
+
+// POST /api/streaming/rtmp/destinations/[destinationId]/simulcast - Restream a live stream here
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { destinationId: string } }
+) {
+  return withArtistStreaming<unknown>(request, async req => {
+    try {
+      const body = await request.json();
+      const { streamId } = startSimulcastSchema.parse(body);
+
+      const destination = await startSimulcast(req.user.id, params.destinationId, streamId);
+
+      return NextResponse.json({ success: true, data: destination });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid simulcast request', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Start simulcast error:', error);
+      return NextResponse.json({ error: 'Failed to start simulcast' }, { status: 500 });
+    }
+  });
+}
+
+// DELETE /api/streaming/rtmp/destinations/[destinationId]/simulcast - Stop restreaming here
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { destinationId: string } }
+) {
+  return withArtistStreaming<unknown>(request, async req => {
+    try {
+      const destination = await stopSimulcast(req.user.id, params.destinationId);
+
+      return NextResponse.json({ success: true, data: destination });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Stop simulcast error:', error);
+      return NextResponse.json({ error: 'Failed to stop simulcast' }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withArtistStreaming } from '@/lib/streaming-auth';
+import { AppError } from '@/lib/errors';
+import { createRtmpDestination, listRtmpDestinations } from '@/lib/rtmp-simulcast';
+
+// GET /api/streaming/rtmp/destinations - Saved simulcast destinations and their health
+export async function GET(request: NextRequest) {
+  return withArtistStreaming<unknown>(request, async req => {
+    try {
+      const destinations = await listRtmpDestinations(req.user.id);
+
+      return NextResponse.json({ success: true, data: destinations });
+    } catch (error) {
+      console.error('List RTMP destinations error:', error);
+      return NextResponse.json({ error: 'Failed to fetch RTMP destinations' }, { status: 500 });
+    }
+  });
+}
+
+// POST /api/streaming/rtmp/destinations - Save a destination with its stream key
+export async function POST(request: NextRequest) {
+  return withArtistStreaming<unknown>(request, async req => {
+    try {
+      const body = await request.json();
+      const destination = await createRtmpDestination(req.user.id, body);
+
+      return NextResponse.json({ success: true, data: destination }, { status: 201 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid RTMP destination', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Create RTMP destination error:', error);
+      return NextResponse.json({ error: 'Failed to save RTMP destination' }, { status: 500 });
+    }
+  });
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import {
+  destinationStatusSchema,
+  recordDestinationStatus,
+  stopStreamSimulcasts,
+} from '@/lib/rtmp-simulcast';
 
 // This endpoint provides RTMP server information for OBS
 // In a full production setup, you'd run a separate RTMP server (like nginx-rtmp)
@@ -79,11 +86,43 @@ export async function POST(request: NextRequest) {
         // Notify WebRTC signaling server
         break;
         
-      case 'stream_ended':
+      case 'stream_ended': {
         logger.info('RTMP stream ended', { streamKey });
         // Update database stream status
         // Notify viewers via WebRTC
+        const stream = await prisma.live_streams.findUnique({
+          where: { streamKey: String(streamKey || '') },
+          select: { id: true },
+        });
+        if (stream) {
+          await stopStreamSimulcasts(stream.id);
+        }
+        break;
+      }
+
+      case 'destination_status': {
+        // Simulcast relay health; the stream key proves the reporter is relaying this artist's stream
+        const { destinationId, status: destinationStatus, error } = destinationStatusSchema.parse(body);
+        const stream = await prisma.live_streams.findUnique({
+          where: { streamKey: String(streamKey || '') },
+          select: { artistId: true },
+        });
+        const destination = await prisma.rtmp_destinations.findUnique({
+          where: { id: destinationId },
+          select: { artistId: true },
+        });
+
+        if (!stream || !destination || destination.artistId !== stream.artistId) {
+          return NextResponse.json(
+            { success: false, error: 'Unknown RTMP destination' },
+            { status: 404 }
+          );
+        }
+
+        await recordDestinationStatus(destinationId, destinationStatus, error);
+        logger.info('RTMP destination status', { destinationId, status: destinationStatus });
         break;
+      }
         
       case 'stream_error':
         logger.error('RTMP stream error', { streamKey, status });
@@ -99,6 +138,13 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: true });
     
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid RTMP event', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     logger.error('Failed to handle RTMP event', error as Error);
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
@@ -0,0 +1,67 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import BillingHistory from '@/components/fan/billing-history';
+
+export default function BillingPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (status === 'loading') return;
+
+    if (!session) {
+      router.push('/auth/signin');
+      return;
+    }
+
+    if (session.user.role !== 'FAN') {
+      router.push('/dashboard/artist');
+      return;
+    }
+  }, [session, status, router]);
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex items-center justify-center'>
+        <div className='text-lg'>Loading...</div>
+      </div>
+    );
+  }
+
+  if (!session || session.user.role !== 'FAN') {
+    return null;
+  }
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <nav className='bg-white shadow'>
+        <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8'>
+          <div className='flex justify-between h-16'>
+            <div className='flex items-center space-x-4'>
+              <button
+                onClick={() => router.push('/dashboard/fan')}
+                className='text-gray-600 hover:text-gray-900'
+              >
+                ← Back to Dashboard
+              </button>
+              <h1 className='text-xl font-semibold'>Billing</h1>
+            </div>
+            <div className='flex items-center space-x-4'>
+              <button
+                onClick={() => router.push('/dashboard/fan/subscriptions')}
+                className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700'
+              >
+                My Subscriptions
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <BillingHistory />
+    </div>
+  );
+}
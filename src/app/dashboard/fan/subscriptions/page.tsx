@@ -50,6 +50,12 @@ export default function SubscriptionsPage() {
               <h1 className='text-xl font-semibold'>My Subscriptions</h1>
             </div>
             <div className='flex items-center space-x-4'>
+              <button
+                onClick={() => router.push('/dashboard/fan/billing')}
+                className='text-gray-600 hover:text-gray-900'
+              >
+                Billing
+              </button>
               <button
                 onClick={() => router.push('/discover')}
                 className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700'
@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+interface GiftPreview {
+  code: string;
+  months: number;
+  message: string | null;
+  isRedeemed: boolean;
+  purchaserName: string;
+  tier: {
+    id: string;
+    name: string;
+    description: string;
+  };
+  artist: {
+    id: string;
+    displayName: string;
+    avatar: string | null;
+  };
+}
+
+function RedeemGiftContent() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [code, setCode] = useState(searchParams?.get('code') || '');
+  const [gift, setGift] = useState<GiftPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [redeeming, setRedeeming] = useState(false);
+
+  useEffect(() => {
+    const initialCode = searchParams?.get('code');
+    if (initialCode) {
+      lookupGift(initialCode);
+    }
+  }, [searchParams]);
+
+  const lookupGift = async (giftCode: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/gifts/redeem?code=${encodeURIComponent(giftCode)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gift code not found');
+      }
+
+      setGift(data.gift);
+    } catch (error) {
+      setGift(null);
+      setError(error instanceof Error ? error.message : 'Gift code not found');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!session) {
+      const callbackUrl = `/gifts/redeem?code=${encodeURIComponent(code)}`;
+      router.push(`/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+      return;
+    }
+
+    setRedeeming(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/gifts/redeem', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to redeem gift');
+      }
+
+      router.push('/dashboard/fan/subscriptions?gift=redeemed');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to redeem gift');
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50 flex items-center justify-center px-4'>
+      <div className='max-w-md w-full bg-white rounded-lg shadow p-8'>
+        <h1 className='text-2xl font-bold text-gray-900 mb-6'>Redeem a Gift</h1>
+
+        {!gift && (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              lookupGift(code);
+            }}
+            className='space-y-4'
+          >
+            <input
+              type='text'
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              placeholder='GIFT-XXXX-XXXX'
+              className='w-full px-3 py-2 border border-gray-300 rounded font-mono uppercase'
+            />
+            <button
+              type='submit'
+              disabled={!code || loading}
+              className='w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              {loading ? 'Checking...' : 'Check Code'}
+            </button>
+          </form>
+        )}
+
+        {gift && (
+          <div className='space-y-4'>
+            <p className='text-gray-700'>
+              {gift.purchaserName} gifted you {gift.months} month{gift.months === 1 ? '' : 's'} of{' '}
+              <strong>{gift.artist.displayName}</strong>'s {gift.tier.name} tier.
+            </p>
+
+            {gift.message && (
+              <blockquote className='p-3 bg-gray-50 border-l-4 border-blue-600 text-gray-600 italic'>
+                {gift.message}
+              </blockquote>
+            )}
+
+            <p className='text-sm text-gray-500'>{gift.tier.description}</p>
+
+            {gift.isRedeemed ? (
+              <p className='text-sm text-red-600'>This gift has already been redeemed.</p>
+            ) : (
+              <button
+                onClick={handleRedeem}
+                disabled={redeeming || status === 'loading'}
+                className='w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {redeeming ? 'Redeeming...' : session ? 'Redeem Gift' : 'Sign In to Redeem'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && <p className='mt-4 text-sm text-red-600'>{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default function RedeemGiftPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className='min-h-screen flex items-center justify-center'>
+          <div className='text-lg'>Loading...</div>
+        </div>
+      }
+    >
+      <RedeemGiftContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,17 @@
+import TipAlertOverlay from '@/components/streaming/TipAlertOverlay';
+
+interface TipOverlayPageProps {
+  params: {
+    token: string;
+  };
+}
+
+export const metadata = {
+  title: 'Tip Alerts | DirectFanz',
+  robots: { index: false, follow: false },
+};
+
+// Add as a browser source in OBS; the token comes from the stream studio
+export default function TipOverlayPage({ params }: TipOverlayPageProps) {
+  return <TipAlertOverlay overlayToken={params.token} />;
+}
@@ -1,12 +1,12 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { format, subDays, subMonths, subWeeks, startOfMonth, endOfMonth, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval } from 'date-fns';
 import { ModernLineChart, ModernAreaChart, ModernBarChart, ModernPieChart } from '@/components/ui/charts';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
 import { EnhancedCard, EnhancedCardHeader, EnhancedCardContent, EnhancedCardTitle, EnhancedCardDescription } from '@/components/ui/enhanced-card';
 import { StatsWidget, StatsGrid } from '@/components/ui/stats-widget';
-import { DollarSign, TrendingUp, CreditCard, Target, Calendar, Filter, Download } from 'lucide-react';
+import { DollarSign, TrendingUp, CreditCard, Target, Calendar, Filter, Download, Tag } from 'lucide-react';
 
 // Time period type
 type TimePeriod = '7d' | '30d' | '90d' | '1y';
@@ -26,6 +26,21 @@ interface ContentTypeRevenue {
   count: number;
 }
 
+interface PromoCodeRedemptions {
+  id: string;
+  code: string;
+  tierName: string;
+  discountType: string;
+  discountValue: number;
+  durationMonths: number;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  expiresAt: string | null;
+  isActive: boolean;
+  totalDiscount: number;
+  firstMonthRevenue: number;
+}
+
 interface SubscriptionTierData {
   tier: string;
   subscribers: number;
@@ -101,6 +116,16 @@ export function RevenueAnalytics({ className }: RevenueAnalyticsProps) {
   const revenueData = useMemo(() => generateRevenueData(selectedPeriod), [selectedPeriod]);
   const contentTypeData = useMemo(() => generateContentTypeData(), []);
   const subscriptionTierData = useMemo(() => generateSubscriptionTierData(), []);
+  const [promoCodes, setPromoCodes] = useState<PromoCodeRedemptions[]>([]);
+
+  useEffect(() => {
+    fetch('/api/artist/analytics?type=promos')
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => {
+        if (result?.success) setPromoCodes(result.data);
+      })
+      .catch(error => console.error('Failed to load promo code redemptions:', error));
+  }, []);
 
   // Calculate summary statistics
   const summaryStats = useMemo(() => {
@@ -125,6 +150,10 @@ export function RevenueAnalytics({ className }: RevenueAnalyticsProps) {
   ];
 
   const formatCurrency = (value: number) => `$${value.toLocaleString()}`;
+  const formatDiscount = (promo: PromoCodeRedemptions) =>
+    promo.discountType === 'PERCENT'
+      ? `${promo.discountValue}% off`
+      : `${formatCurrency(promo.discountValue)} off`;
   const formatDate = (value: string) => value;
 
   return (
@@ -405,6 +434,51 @@ export function RevenueAnalytics({ className }: RevenueAnalyticsProps) {
           </EnhancedCardContent>
         </EnhancedCard>
       </div>
+
+      {/* Promo Code Redemptions */}
+      <EnhancedCard variant="elevated">
+        <EnhancedCardHeader>
+          <EnhancedCardTitle>Promo Codes</EnhancedCardTitle>
+          <EnhancedCardDescription>Redemptions and discounts given across your tiers</EnhancedCardDescription>
+        </EnhancedCardHeader>
+        <EnhancedCardContent>
+          {promoCodes.length === 0 ? (
+            <p className="text-sm text-gray-500">No promo codes yet. Create one from a tier's settings.</p>
+          ) : (
+            <div className="space-y-3">
+              {promoCodes.map((promo) => (
+                <div key={promo.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center">
+                      <Tag className="w-4 h-4 text-purple-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {promo.code}
+                        {!promo.isActive && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {promo.tierName} · {formatDiscount(promo)} for {promo.durationMonths}{' '}
+                        {promo.durationMonths === 1 ? 'month' : 'months'}
+                        {promo.expiresAt && ` · expires ${format(new Date(promo.expiresAt), 'MMM dd, yyyy')}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-gray-900">
+                      {promo.redemptionCount}
+                      {promo.maxRedemptions !== null && ` / ${promo.maxRedemptions}`} redeemed
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {formatCurrency(promo.firstMonthRevenue)} earned · {formatCurrency(promo.totalDiscount)} discounted
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </EnhancedCardContent>
+      </EnhancedCard>
     </div>
   );
 }
\ No newline at end of file
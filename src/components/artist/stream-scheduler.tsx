@@ -39,6 +39,7 @@ interface LiveStream {
   totalMessages: number;
   totalTips: number;
   peakViewers: number;
+  rsvpCount?: number;
   streamKey?: string;
   createdAt: string;
 }
@@ -513,6 +514,9 @@ export default function StreamScheduler() {
                   <>
                     <CalendarIcon className='h-4 w-4 mr-1' />
                     <span>Scheduled: {formatDateTime(stream.scheduledAt)}</span>
+                    {stream.status === 'SCHEDULED' && (
+                      <span className='ml-2 text-gray-500'>· {stream.rsvpCount ?? 0} RSVPs</span>
+                    )}
                   </>
                 )}
                 {stream.startedAt && (
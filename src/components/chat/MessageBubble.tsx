@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { format } from 'date-fns';
 import { Message } from '@/types/websocket';
 import { MessageStatusIndicator } from './MessageStatusIndicator';
@@ -23,6 +23,30 @@ export function MessageBubble({
   className = '',
 }: MessageBubbleProps) {
   const messageTime = new Date(message.createdAt);
+  const [isPaying, setIsPaying] = useState(false);
+
+  // Covers both unlocking a locked attachment and paying for a DM that's on hold
+  const startCheckout = async () => {
+    setIsPaying(true);
+    try {
+      const response = await fetch(`/api/messages/${message.id}/purchase`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start checkout');
+      }
+
+      window.location.href = data.checkoutUrl;
+    } catch (error) {
+      console.error('Message checkout error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start checkout');
+      setIsPaying(false);
+    }
+  };
+
+  const formatPrice = (price?: number | null) => `$${(price || 0).toFixed(2)}`;
 
   const getBubbleStyles = () => {
     const baseStyles = 'max-w-xs lg:max-w-md px-4 py-2 rounded-2xl break-words';
@@ -45,7 +69,52 @@ export function MessageBubble({
     }
   };
 
+  const renderLockedAttachment = () => (
+    <div className='space-y-2'>
+      <div className='relative w-56 h-40 overflow-hidden rounded-lg bg-gray-300 dark:bg-gray-600'>
+        {message.attachmentPreviewUrl && (
+          <img
+            src={message.attachmentPreviewUrl}
+            alt='Locked media preview'
+            className='w-full h-full object-cover blur-xl scale-110'
+          />
+        )}
+        <div className='absolute inset-0 flex flex-col items-center justify-center space-y-2 bg-black/30 text-white'>
+          <svg className='w-6 h-6' fill='currentColor' viewBox='0 0 20 20'>
+            <path
+              fillRule='evenodd'
+              d='M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z'
+              clipRule='evenodd'
+            />
+          </svg>
+          <button
+            onClick={startCheckout}
+            disabled={isPaying}
+            className='px-3 py-1 text-sm font-medium text-gray-900 bg-white rounded-full hover:bg-gray-100 disabled:opacity-50'
+          >
+            {isPaying
+              ? 'Opening checkout...'
+              : `Unlock for ${formatPrice(message.attachmentPrice)}`}
+          </button>
+        </div>
+      </div>
+      {message.content && <p className='text-sm'>{message.content}</p>}
+    </div>
+  );
+
   const renderMessageContent = () => {
+    if (message.undecryptable) {
+      return (
+        <p className='text-sm italic opacity-75'>
+          This message is encrypted for another device and can't be shown here
+        </p>
+      );
+    }
+
+    if (message.isLocked) {
+      return renderLockedAttachment();
+    }
+
     switch (message.type) {
       case 'IMAGE':
         return (
@@ -109,6 +178,27 @@ export function MessageBubble({
         {/* Message content */}
         <div className={getBubbleStyles()}>{renderMessageContent()}</div>
 
+        {/* Price the artist set on media they sent */}
+        {isFromCurrentUser && !!message.attachmentPrice && (
+          <span className='text-xs text-gray-500 dark:text-gray-400 text-right'>
+            Locked · {formatPrice(message.attachmentPrice)}
+          </span>
+        )}
+
+        {/* Paid DMs stay with the sender until they pay */}
+        {isFromCurrentUser && message.awaitingPayment && (
+          <div className='flex items-center justify-end space-x-2 text-xs text-amber-600'>
+            <span>Not delivered until paid</span>
+            <button
+              onClick={startCheckout}
+              disabled={isPaying}
+              className='font-medium underline hover:text-amber-700 disabled:opacity-50'
+            >
+              Pay {formatPrice(message.dmFee)}
+            </button>
+          </div>
+        )}
+
         {/* Timestamp and status */}
         {showTimestamp && (
           <div
@@ -116,6 +206,20 @@ export function MessageBubble({
               isFromCurrentUser ? 'justify-end' : 'justify-start ml-1'
             }`}
           >
+            {message.isEncrypted && (
+              <svg
+                className='w-3 h-3'
+                fill='currentColor'
+                viewBox='0 0 20 20'
+                aria-label='End-to-end encrypted'
+              >
+                <path
+                  fillRule='evenodd'
+                  d='M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z'
+                  clipRule='evenodd'
+                />
+              </svg>
+            )}
             <span>{format(messageTime, 'h:mm a')}</span>
 
             {/* Message status for current user's messages */}
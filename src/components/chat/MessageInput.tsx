@@ -2,6 +2,12 @@
 
 import React, { useState, useRef, useCallback } from 'react';
 
+export interface SavedReplyOption {
+  id: string;
+  title: string;
+  content: string;
+}
+
 interface MessageInputProps {
   onSendMessage: (
     content: string,
@@ -10,6 +16,10 @@ interface MessageInputProps {
   ) => void;
   onStartTyping?: () => void;
   onStopTyping?: () => void;
+  // Saved reply templates; picking one fills it in for this fan via onFillSavedReply
+  savedReplies?: SavedReplyOption[];
+  onFillSavedReply?: (savedReplyId: string) => Promise<string>;
+  onDraftReply?: () => Promise<string>;
   disabled?: boolean;
   placeholder?: string;
   className?: string;
@@ -19,12 +29,17 @@ export function MessageInput({
   onSendMessage,
   onStartTyping,
   onStopTyping,
+  savedReplies = [],
+  onFillSavedReply,
+  onDraftReply,
   disabled = false,
   placeholder = 'Type a message...',
   className = '',
 }: MessageInputProps) {
   const [message, setMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [showReplies, setShowReplies] = useState(false);
+  const [isFilling, setIsFilling] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -102,6 +117,22 @@ export function MessageInput({
     }
   }, [message, disabled, onSendMessage, isTyping, onStopTyping]);
 
+  // Put a saved reply or AI draft in the box for the artist to edit before sending
+  const fillMessage = useCallback(async (getContent: () => Promise<string>) => {
+    setShowReplies(false);
+    setIsFilling(true);
+
+    try {
+      setMessage(await getContent());
+      textareaRef.current?.focus();
+    } catch (error) {
+      console.error('Failed to fill in reply:', error);
+      alert(error instanceof Error ? error.message : 'Failed to fill in reply');
+    } finally {
+      setIsFilling(false);
+    }
+  }, []);
+
   // Cleanup typing timeout on unmount
   React.useEffect(() => {
     return () => {
@@ -112,10 +143,58 @@ export function MessageInput({
   }, []);
 
   const canSend = message.trim() && !disabled;
+  const hasReplyTools = (savedReplies.length > 0 && !!onFillSavedReply) || !!onDraftReply;
 
   return (
     <div className={`p-4 ${className}`}>
-      <div className='flex items-end space-x-2'>
+      <div className='relative flex items-end space-x-2'>
+        {/* Saved replies and AI drafts */}
+        {hasReplyTools && (
+          <button
+            onClick={() => setShowReplies(!showReplies)}
+            disabled={disabled || isFilling}
+            className='flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800 disabled:opacity-50'
+            title='Saved replies'
+          >
+            <svg className='w-5 h-5' fill='none' stroke='currentColor' viewBox='0 0 24 24'>
+              <path
+                strokeLinecap='round'
+                strokeLinejoin='round'
+                strokeWidth={2}
+                d='M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z'
+              />
+            </svg>
+          </button>
+        )}
+
+        {showReplies && (
+          <div className='absolute bottom-12 left-0 z-10 w-72 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg dark:bg-gray-800 dark:border-gray-700'>
+            {onFillSavedReply &&
+              savedReplies.map(savedReply => (
+                <button
+                  key={savedReply.id}
+                  onClick={() => fillMessage(() => onFillSavedReply(savedReply.id))}
+                  className='block w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700'
+                >
+                  <span className='block text-sm font-medium text-gray-900 dark:text-white'>
+                    {savedReply.title}
+                  </span>
+                  <span className='block text-xs text-gray-500 truncate dark:text-gray-400'>
+                    {savedReply.content}
+                  </span>
+                </button>
+              ))}
+            {onDraftReply && (
+              <button
+                onClick={() => fillMessage(onDraftReply)}
+                className='block w-full px-3 py-2 text-sm text-left text-blue-600 border-t border-gray-100 hover:bg-gray-50 dark:text-blue-400 dark:border-gray-700 dark:hover:bg-gray-700'
+              >
+                Draft a reply with AI
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Message input */}
         <div className='flex-1'>
           <textarea
@@ -123,8 +202,8 @@ export function MessageInput({
             value={message}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder={placeholder}
-            disabled={disabled}
+            placeholder={isFilling ? 'Filling in reply...' : placeholder}
+            disabled={disabled || isFilling}
             rows={1}
             className='w-full px-4 py-2 text-sm bg-gray-100 border border-gray-300 rounded-full resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white dark:placeholder-gray-400 dark:focus:ring-blue-400 disabled:opacity-50 disabled:cursor-not-allowed'
             style={{ minHeight: '40px', maxHeight: '120px' }}
@@ -3,9 +3,10 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
 import { useWebSocket } from '@/hooks/use-websocket';
+import { useE2EE } from '@/hooks/use-e2ee';
 import { Message, User, ConnectionStatus } from '@/types/websocket';
 import { MessageList } from './MessageList';
-import { MessageInput } from './MessageInput';
+import { MessageInput, SavedReplyOption } from './MessageInput';
 import { TypingIndicator } from './TypingIndicator';
 import { ConnectionIndicator } from './ConnectionIndicator';
 import { UserPresenceIndicator } from './UserPresenceIndicator';
@@ -26,6 +27,9 @@ export function RealTimeChat({
   const { data: session } = useSession();
   const [allMessages, setAllMessages] = useState<Message[]>(initialMessages);
   const [isTyping, setIsTyping] = useState(false);
+  // Decrypted text by message id; null when this device can't open the message
+  const [plaintexts, setPlaintexts] = useState<Record<string, string | null>>({});
+  const [savedReplies, setSavedReplies] = useState<SavedReplyOption[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -46,7 +50,10 @@ export function RealTimeChat({
     off,
   } = useWebSocket();
 
+  const e2ee = useE2EE(otherUser.id);
+
   const currentUserId = session?.user?.id;
+  const isArtist = session?.user?.role === 'ARTIST';
   const conversationTypingUsers = typingUsers.filter(
     user => user.userId === otherUser.id || user.userId === currentUserId
   );
@@ -123,6 +130,73 @@ export function RealTimeChat({
     };
   }, [isConnected, currentUserId, otherUser.id, markMessageAsRead, onMessageSent, on, off]);
 
+  // Decrypt encrypted messages as they arrive
+  useEffect(() => {
+    const pending = allMessages.filter(
+      message => message.isEncrypted && !(message.id in plaintexts)
+    );
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      pending.map(async message => [message.id, await e2ee.decrypt(message)] as const)
+    ).then(results => {
+      if (!cancelled) {
+        setPlaintexts(prev => ({ ...prev, ...Object.fromEntries(results) }));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [allMessages, plaintexts, e2ee.decrypt]);
+
+  const displayMessages = allMessages.map(message =>
+    message.isEncrypted
+      ? {
+          ...message,
+          content: plaintexts[message.id] ?? '',
+          undecryptable: plaintexts[message.id] === null,
+        }
+      : message
+  );
+
+  // Artists get their saved replies in the message box
+  useEffect(() => {
+    if (!isArtist) return;
+
+    fetch('/api/artist/saved-replies')
+      .then(response => response.json())
+      .then(data => setSavedReplies(data.data || []))
+      .catch(error => console.error('Failed to load saved replies:', error));
+  }, [isArtist]);
+
+  const requestReply = useCallback(async (url: string, body: Record<string, unknown>) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fill in reply');
+    }
+
+    return data.data.content as string;
+  }, []);
+
+  const handleFillSavedReply = useCallback(
+    (savedReplyId: string) =>
+      requestReply(`/api/artist/saved-replies/${savedReplyId}`, { fanId: otherUser.id }),
+    [requestReply, otherUser.id]
+  );
+
+  const handleDraftReply = useCallback(
+    () => requestReply('/api/artist/messaging/draft', { fanId: otherUser.id }),
+    [requestReply, otherUser.id]
+  );
+
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     scrollToBottom();
@@ -137,12 +211,17 @@ export function RealTimeChat({
       if (!content.trim() || !isConnected) return;
 
       try {
-        sendMessage(otherUser.id, content.trim(), type, attachmentUrl);
+        if (e2ee.enabled) {
+          const sealed = await e2ee.encrypt(content.trim());
+          sendMessage(otherUser.id, sealed.content, type, attachmentUrl, sealed.encryption);
+        } else {
+          sendMessage(otherUser.id, content.trim(), type, attachmentUrl);
+        }
       } catch (error) {
         console.error('Failed to send message:', error);
       }
     },
-    [sendMessage, otherUser.id, isConnected]
+    [sendMessage, otherUser.id, isConnected, e2ee.enabled, e2ee.encrypt]
   );
 
   const handleStartTyping = useCallback(() => {
@@ -215,13 +294,43 @@ export function RealTimeChat({
           </div>
         </div>
 
-        <ConnectionIndicator status={connectionStatus} error={error} />
+        <div className='flex items-center space-x-3'>
+          <button
+            onClick={() => e2ee.setEnabled(!e2ee.enabled)}
+            className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-full border transition-colors ${
+              e2ee.enabled
+                ? 'border-green-500 text-green-600 dark:text-green-400'
+                : 'border-gray-300 text-gray-500 hover:text-gray-700 dark:border-gray-600 dark:text-gray-400'
+            }`}
+            title={
+              e2ee.enabled
+                ? 'Messages are end-to-end encrypted. Click to turn off.'
+                : 'Turn on end-to-end encryption'
+            }
+          >
+            <svg className='w-3 h-3' fill='currentColor' viewBox='0 0 20 20'>
+              <path
+                fillRule='evenodd'
+                d='M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z'
+                clipRule='evenodd'
+              />
+            </svg>
+            <span>{e2ee.enabled ? 'Encrypted' : 'Encrypt'}</span>
+          </button>
+          <ConnectionIndicator status={connectionStatus} error={error} />
+        </div>
       </div>
 
+      {e2ee.error && (
+        <div className='px-4 py-2 text-xs text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400'>
+          {e2ee.error}
+        </div>
+      )}
+
       {/* Messages */}
       <div className='flex-1 overflow-y-auto'>
         <MessageList
-          messages={allMessages}
+          messages={displayMessages}
           currentUserId={currentUserId}
           onMessageRead={markMessageAsRead}
         />
@@ -238,6 +347,9 @@ export function RealTimeChat({
           onSendMessage={handleSendMessage}
           onStartTyping={handleStartTyping}
           onStopTyping={handleStopTyping}
+          savedReplies={savedReplies}
+          onFillSavedReply={isArtist ? handleFillSavedReply : undefined}
+          onDraftReply={isArtist && !e2ee.enabled ? handleDraftReply : undefined}
           disabled={!isConnected}
           placeholder={!isConnected ? 'Connecting...' : `Message ${otherUser.displayName}...`}
         />
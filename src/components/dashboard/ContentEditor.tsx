@@ -15,7 +15,7 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent } from '@/components/ui/card';
-import { X, Plus, Save, AlertCircle } from 'lucide-react';
+import { X, Plus, Save, AlertCircle, Clock } from 'lucide-react';
 
 interface Content {
   id: string;
@@ -25,6 +25,11 @@ interface Content {
   fileUrl: string;
   thumbnailUrl?: string;
   visibility: 'PUBLIC' | 'TIER_LOCKED' | 'PRIVATE';
+  status?: string;
+  publishAt?: string | null;
+  expiresAt?: string | null;
+  expiryAction?: 'ARCHIVE' | 'DOWNGRADE' | null;
+  fallbackTierId?: string | null;
   tags: string[];
   createdAt: string;
   updatedAt: string;
@@ -51,6 +56,14 @@ interface ContentEditorProps {
   onCancel: () => void;
 }
 
+// Convert an ISO timestamp to the value format expected by datetime-local inputs
+const toLocalInputValue = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
 export function ContentEditor({ content, onSave, onCancel }: ContentEditorProps) {
   const [formData, setFormData] = useState({
     title: content.title,
@@ -58,6 +71,10 @@ export function ContentEditor({ content, onSave, onCancel }: ContentEditorProps)
     visibility: content.visibility,
     tags: content.tags,
     tierIds: content.tiers.map(t => t.id),
+    publishAt: toLocalInputValue(content.publishAt),
+    expiresAt: toLocalInputValue(content.expiresAt),
+    expiryAction: content.expiryAction || 'ARCHIVE',
+    fallbackTierId: content.fallbackTierId || '',
   });
   const [newTag, setNewTag] = useState('');
   const [availableTiers, setAvailableTiers] = useState<Tier[]>([]);
@@ -138,9 +155,24 @@ export function ContentEditor({ content, onSave, onCancel }: ContentEditorProps)
       return;
     }
 
+    const publishAt = formData.publishAt ? new Date(formData.publishAt) : null;
+    const expiresAt = formData.expiresAt ? new Date(formData.expiresAt) : null;
+
+    if (publishAt && expiresAt && expiresAt <= publishAt) {
+      setError('The drop must expire after it is published');
+      setLoading(false);
+      return;
+    }
+
+    if (expiresAt && formData.expiryAction === 'DOWNGRADE' && !formData.fallbackTierId) {
+      setError('Please choose the tier this drop reverts to when it expires');
+      setLoading(false);
+      return;
+    }
+
     try {
       const response = await fetch(`/api/content/${content.id}`, {
-        method: 'PATCH',
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -150,6 +182,11 @@ export function ContentEditor({ content, onSave, onCancel }: ContentEditorProps)
           visibility: formData.visibility,
           tags: formData.tags,
           tierIds: formData.tierIds,
+          publishAt: publishAt ? publishAt.toISOString() : null,
+          expiresAt: expiresAt ? expiresAt.toISOString() : null,
+          expiryAction: expiresAt ? formData.expiryAction : null,
+          fallbackTierId:
+            expiresAt && formData.expiryAction === 'DOWNGRADE' ? formData.fallbackTierId : null,
         }),
       });
 
@@ -296,6 +333,79 @@ export function ContentEditor({ content, onSave, onCancel }: ContentEditorProps)
         )}
       </div>
 
+      {/* Scheduling */}
+      <div className='space-y-4'>
+        <div className='flex items-center space-x-2'>
+          <Clock className='h-4 w-4 text-muted-foreground' />
+          <Label>Scheduling</Label>
+          {content.status === 'SCHEDULED' && <Badge variant='outline'>Scheduled</Badge>}
+        </div>
+
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+          <div>
+            <Label htmlFor='publishAt'>Publish at</Label>
+            <Input
+              id='publishAt'
+              type='datetime-local'
+              value={formData.publishAt}
+              onChange={e => handleInputChange('publishAt', e.target.value)}
+            />
+            <p className='text-sm text-muted-foreground mt-1'>
+              Leave empty to publish immediately.
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor='expiresAt'>Expires at</Label>
+            <Input
+              id='expiresAt'
+              type='datetime-local'
+              value={formData.expiresAt}
+              onChange={e => handleInputChange('expiresAt', e.target.value)}
+            />
+            <p className='text-sm text-muted-foreground mt-1'>
+              Set an end time for limited drops, e.g. a 24-hour exclusive.
+            </p>
+          </div>
+        </div>
+
+        {formData.expiresAt && (
+          <div className='space-y-3'>
+            <Label>When the drop expires</Label>
+            <Select
+              value={formData.expiryAction}
+              onValueChange={value => handleInputChange('expiryAction', value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='ARCHIVE'>Archive - Hide from fans</SelectItem>
+                <SelectItem value='DOWNGRADE'>Revert to a lower tier</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {formData.expiryAction === 'DOWNGRADE' && (
+              <Select
+                value={formData.fallbackTierId}
+                onValueChange={value => handleInputChange('fallbackTierId', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder='Select the tier to revert to' />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableTiers.map(tier => (
+                    <SelectItem key={tier.id} value={tier.id}>
+                      {tier.name} - ${tier.price}/month
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Tags */}
       <div className='space-y-3'>
         <Label>Tags</Label>
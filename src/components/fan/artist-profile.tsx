@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import UpcomingStreams from './upcoming-streams';
 
 interface Tier {
   id: string;
@@ -329,8 +330,11 @@ export default function ArtistProfile({ artist, existingSubscriptions }: ArtistP
           )}
         </div>
 
-        {/* Recent Content */}
         <div>
+          {/* Upcoming Streams */}
+          <UpcomingStreams artistId={artist.id} />
+
+          {/* Recent Content */}
           <h3 className='text-xl font-semibold text-gray-900 mb-4'>Recent Releases</h3>
 
           {artist.content.length > 0 ? (
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface DunningStep {
+  id: string;
+  type: 'FAILED' | 'RETRY_FAILED' | 'REMINDER_SENT' | 'RECOVERED' | 'CANCELED';
+  attemptNumber: number;
+  message: string | null;
+  occurredAt: string;
+}
+
+interface PaymentFailure {
+  id: string;
+  amount: number;
+  status: 'RETRYING' | 'RECOVERED' | 'CANCELED';
+  attemptCount: number;
+  failureReason: string;
+  nextRetryAt: string | null;
+  gracePeriodEndsAt: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  subscription: {
+    id: string;
+    status: string;
+    tierName: string;
+    artist: {
+      id: string;
+      displayName: string;
+    };
+  };
+  steps: DunningStep[];
+}
+
+const STEP_LABELS: Record<DunningStep['type'], string> = {
+  FAILED: 'Payment failed',
+  RETRY_FAILED: 'Retry failed',
+  REMINDER_SENT: 'Reminder emailed',
+  RECOVERED: 'Payment recovered',
+  CANCELED: 'Subscription canceled',
+};
+
+export default function BillingHistory() {
+  const [paymentFailures, setPaymentFailures] = useState<PaymentFailure[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBilling();
+  }, []);
+
+  const fetchBilling = async () => {
+    try {
+      const response = await fetch('/api/fan/billing');
+      if (!response.ok) throw new Error('Failed to fetch billing history');
+
+      const data = await response.json();
+      setPaymentFailures(data.paymentFailures);
+    } catch (error) {
+      console.error('Error fetching billing history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const getStatusColor = (status: PaymentFailure['status']) => {
+    switch (status) {
+      case 'RECOVERED':
+        return 'text-green-600 bg-green-100';
+      case 'CANCELED':
+        return 'text-red-600 bg-red-100';
+      default:
+        return 'text-yellow-600 bg-yellow-100';
+    }
+  };
+
+  const isInGracePeriod = (failure: PaymentFailure) =>
+    failure.status === 'RETRYING' &&
+    !!failure.gracePeriodEndsAt &&
+    new Date(failure.gracePeriodEndsAt) > new Date();
+
+  if (loading) {
+    return (
+      <div className='max-w-4xl mx-auto px-4 py-8'>
+        <div className='text-center text-gray-500'>Loading billing history...</div>
+      </div>
+    );
+  }
+
+  const openFailures = paymentFailures.filter(failure => failure.status === 'RETRYING');
+
+  return (
+    <div className='max-w-4xl mx-auto px-4 py-8 space-y-6'>
+      {openFailures.length > 0 && (
+        <div className='p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800'>
+          {openFailures.length === 1
+            ? 'One of your payments failed.'
+            : `${openFailures.length} of your payments failed.`}{' '}
+          We'll retry automatically. Updating your payment method before the grace period ends keeps
+          your access uninterrupted.
+        </div>
+      )}
+
+      {paymentFailures.length === 0 ? (
+        <div className='bg-white rounded-lg shadow p-8 text-center text-gray-500'>
+          No payment issues. All your subscriptions are paid up.
+        </div>
+      ) : (
+        paymentFailures.map(failure => (
+          <div key={failure.id} className='bg-white rounded-lg shadow p-6'>
+            <div className='flex items-start justify-between'>
+              <div>
+                <h3 className='text-lg font-semibold text-gray-900'>
+                  {failure.subscription.artist.displayName}
+                </h3>
+                <p className='text-sm text-gray-500'>
+                  {failure.subscription.tierName} · {formatPrice(failure.amount)} · failed on{' '}
+                  {formatDate(failure.createdAt)}
+                </p>
+              </div>
+              <span
+                className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(failure.status)}`}
+              >
+                {failure.status.toLowerCase()}
+              </span>
+            </div>
+
+            {failure.status === 'RETRYING' && (
+              <div className='mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm'>
+                {failure.nextRetryAt && (
+                  <div>
+                    <span className='text-gray-500'>Next Retry:</span>{' '}
+                    <span className='font-medium'>{formatDate(failure.nextRetryAt)}</span>
+                  </div>
+                )}
+                {isInGracePeriod(failure) && (
+                  <div>
+                    <span className='text-gray-500'>Access Until:</span>{' '}
+                    <span className='font-medium'>{formatDate(failure.gracePeriodEndsAt!)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <ol className='mt-4 border-l-2 border-gray-200 pl-4 space-y-2'>
+              {failure.steps.map(step => (
+                <li key={step.id} className='text-sm'>
+                  <span className='font-medium text-gray-900'>{STEP_LABELS[step.type]}</span>
+                  <span className='text-gray-500'>
+                    {' '}
+                    · attempt {step.attemptNumber} · {formatDate(step.occurredAt)}
+                  </span>
+                  {step.message && <p className='text-gray-500'>{step.message}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -10,12 +10,17 @@ interface Subscription {
   status: string;
   currentPeriodStart: string;
   currentPeriodEnd: string;
+  trialEndsAt?: string | null;
+  introPriceEndsAt?: string | null;
+  autoRenew?: boolean;
+  pauseResumesAt?: string | null;
   createdAt: string;
   tier: {
     id: string;
     name: string;
     description: string;
     minimumPrice: string;
+    introPrice?: string | null;
     artist: {
       id: string;
       displayName: string;
@@ -29,6 +34,8 @@ export default function SubscriptionManagement() {
   const [loading, setLoading] = useState(true);
   const [updatingId, setUpdatingId] = useState<string | null>(null);
   const [cancelingId, setCancelingId] = useState<string | null>(null);
+  const [pausingId, setPausingId] = useState<string | null>(null);
+  const [pauseMonths, setPauseMonths] = useState(1);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [newAmount, setNewAmount] = useState('');
   const router = useRouter();
@@ -70,15 +77,26 @@ export default function SubscriptionManagement() {
     switch (status.toLowerCase()) {
       case 'active':
         return 'text-green-600 bg-green-100';
+      case 'trialing':
+        return 'text-purple-600 bg-purple-100';
       case 'canceled':
         return 'text-red-600 bg-red-100';
       case 'past_due':
         return 'text-yellow-600 bg-yellow-100';
+      case 'paused':
+        return 'text-blue-600 bg-blue-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
   };
 
+  const isIntroPriced = (subscription: Subscription) =>
+    !!subscription.tier.introPrice &&
+    !!subscription.introPriceEndsAt &&
+    new Date(subscription.introPriceEndsAt) > new Date();
+
+  const isGift = (subscription: Subscription) => subscription.autoRenew === false;
+
   const handleUpdateAmount = async (subscriptionId: string) => {
     const subscription = subscriptions.find(s => s.id === subscriptionId);
     if (!subscription) return;
@@ -159,6 +177,41 @@ export default function SubscriptionManagement() {
     }
   };
 
+  const handlePauseChange = async (subscriptionId: string, action: 'pause' | 'resume') => {
+    setUpdatingId(subscriptionId);
+    try {
+      const response = await fetch(`/api/fan/subscriptions/${subscriptionId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(action === 'pause' ? { action, months: pauseMonths } : { action }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} subscription`);
+      }
+
+      // Update local state
+      setSubscriptions(prev =>
+        prev.map(sub =>
+          sub.id === subscriptionId
+            ? { ...sub, status: data.status, pauseResumesAt: data.resumesAt ?? null }
+            : sub
+        )
+      );
+
+      setPausingId(null);
+      setPauseMonths(1);
+    } catch (error) {
+      console.error('Pause error:', error);
+      alert(error instanceof Error ? error.message : `Failed to ${action} subscription`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
   const startEditing = (subscription: Subscription) => {
     setEditingId(subscription.id);
     setNewAmount(subscription.amount);
@@ -270,12 +323,24 @@ export default function SubscriptionManagement() {
                     <div className='text-xs text-gray-500'>
                       Minimum: {formatPrice(subscription.tier.minimumPrice)}
                     </div>
+                    {isIntroPriced(subscription) && (
+                      <div className='text-xs text-purple-600'>
+                        Intro price {formatPrice(subscription.tier.introPrice!)}/month until{' '}
+                        {formatDate(subscription.introPriceEndsAt!)}
+                      </div>
+                    )}
                   </div>
 
                   <div>
-                    <span className='text-gray-500'>Next Billing:</span>
+                    <span className='text-gray-500'>
+                      {subscription.status === 'TRIALING'
+                        ? 'Trial Ends:'
+                        : isGift(subscription)
+                          ? 'Gift Ends:'
+                          : 'Next Billing:'}
+                    </span>
                     <div className='font-medium text-gray-900'>
-                      {formatDate(subscription.currentPeriodEnd)}
+                      {formatDate(subscription.trialEndsAt || subscription.currentPeriodEnd)}
                     </div>
                   </div>
 
@@ -288,7 +353,7 @@ export default function SubscriptionManagement() {
                 </div>
 
                 {/* Actions */}
-                {subscription.status === 'ACTIVE' && (
+                {(subscription.status === 'ACTIVE' || subscription.status === 'TRIALING') && (
                   <div className='mt-6 flex flex-wrap gap-3'>
                     {editingId === subscription.id ? (
                       <div className='flex items-center gap-3'>
@@ -319,6 +384,43 @@ export default function SubscriptionManagement() {
                           Cancel
                         </button>
                       </div>
+                    ) : pausingId === subscription.id ? (
+                      <div className='flex items-center gap-3'>
+                        <div className='flex items-center gap-2'>
+                          <span className='text-sm text-gray-600'>Pause for:</span>
+                          <select
+                            value={pauseMonths}
+                            onChange={e => setPauseMonths(parseInt(e.target.value))}
+                            className='px-3 py-1 border border-gray-300 rounded text-sm'
+                          >
+                            <option value={1}>1 month</option>
+                            <option value={2}>2 months</option>
+                            <option value={3}>3 months</option>
+                          </select>
+                        </div>
+
+                        <button
+                          onClick={() => handlePauseChange(subscription.id, 'pause')}
+                          disabled={updatingId === subscription.id}
+                          className='px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm'
+                        >
+                          {updatingId === subscription.id ? 'Pausing...' : 'Pause'}
+                        </button>
+
+                        <button
+                          onClick={() => setPausingId(null)}
+                          className='px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 text-sm'
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : isGift(subscription) ? (
+                      <button
+                        onClick={() => router.push(`/artist/${subscription.tier.artist.id}`)}
+                        className='px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 text-sm'
+                      >
+                        View Artist
+                      </button>
                     ) : (
                       <>
                         <button
@@ -328,6 +430,15 @@ export default function SubscriptionManagement() {
                           Change Amount
                         </button>
 
+                        {subscription.status === 'ACTIVE' && (
+                          <button
+                            onClick={() => setPausingId(subscription.id)}
+                            className='px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 text-sm'
+                          >
+                            Pause
+                          </button>
+                        )}
+
                         <button
                           onClick={() => router.push(`/artist/${subscription.tier.artist.id}`)}
                           className='px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 text-sm'
@@ -347,6 +458,45 @@ export default function SubscriptionManagement() {
                   </div>
                 )}
 
+                {subscription.status === 'TRIALING' && subscription.trialEndsAt && (
+                  <div className='mt-4 p-3 bg-purple-50 border border-purple-200 rounded'>
+                    <p className='text-sm text-purple-700'>
+                      You're on a free trial. Your first payment of{' '}
+                      {formatPrice(subscription.amount)} will be charged on{' '}
+                      {formatDate(subscription.trialEndsAt)} unless you cancel before then.
+                    </p>
+                  </div>
+                )}
+
+                {subscription.status === 'ACTIVE' && isGift(subscription) && (
+                  <div className='mt-4 p-3 bg-indigo-50 border border-indigo-200 rounded'>
+                    <p className='text-sm text-indigo-700'>
+                      This subscription was a gift. It ends on{' '}
+                      {formatDate(subscription.currentPeriodEnd)} and you won't be charged.
+                    </p>
+                  </div>
+                )}
+
+                {subscription.status === 'PAUSED' && (
+                  <div className='mt-4 p-3 bg-blue-50 border border-blue-200 rounded flex items-center justify-between gap-4'>
+                    <p className='text-sm text-blue-700'>
+                      This subscription is paused. You won't be charged or have access to exclusive
+                      content
+                      {subscription.pauseResumesAt
+                        ? ` until it resumes on ${formatDate(subscription.pauseResumesAt)}`
+                        : ' until you resume it'}
+                      .
+                    </p>
+                    <button
+                      onClick={() => handlePauseChange(subscription.id, 'resume')}
+                      disabled={updatingId === subscription.id}
+                      className='px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm whitespace-nowrap'
+                    >
+                      {updatingId === subscription.id ? 'Resuming...' : 'Resume Now'}
+                    </button>
+                  </div>
+                )}
+
                 {subscription.status === 'CANCELED' && (
                   <div className='mt-4 p-3 bg-red-50 border border-red-200 rounded'>
                     <p className='text-sm text-red-700'>
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface StreamRsvp {
+  reminderOffsets: number[];
+  channels: string[];
+}
+
+interface UpcomingStream {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  scheduledAt: string;
+  requiresPayment: boolean;
+  rsvp: StreamRsvp | null;
+}
+
+interface UpcomingStreamsProps {
+  artistId: string;
+}
+
+const REMINDER_OPTIONS = [
+  { offset: 1440, label: '1 day before' },
+  { offset: 60, label: '1 hour before' },
+  { offset: 10, label: '10 minutes before' },
+  { offset: 0, label: 'When it starts' },
+];
+
+export default function UpcomingStreams({ artistId }: UpcomingStreamsProps) {
+  const [streams, setStreams] = useState<UpcomingStream[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchStreams = async () => {
+      try {
+        const response = await fetch(`/api/fan/artists/${artistId}/streams`);
+        if (response.ok) {
+          const data = await response.json();
+          setStreams(data.streams);
+        }
+      } catch (error) {
+        console.error('Failed to fetch upcoming streams:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStreams();
+  }, [artistId]);
+
+  // Pass null to cancel; an RSVP without offsets gets the default reminders
+  const updateRsvp = async (streamId: string, rsvp: { reminderOffsets?: number[] } | null) => {
+    setUpdatingId(streamId);
+    try {
+      const response = await fetch(`/api/streaming/${streamId}/rsvp`, {
+        method: rsvp ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(rsvp && { body: JSON.stringify(rsvp) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update RSVP');
+      }
+
+      setStreams(prev =>
+        prev.map(stream =>
+          stream.id === streamId ? { ...stream, rsvp: rsvp ? data.data : null } : stream
+        )
+      );
+    } catch (error) {
+      console.error('RSVP error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update RSVP');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const toggleReminder = (stream: UpcomingStream, offset: number) => {
+    if (!stream.rsvp) return;
+
+    const offsets = stream.rsvp.reminderOffsets.includes(offset)
+      ? stream.rsvp.reminderOffsets.filter(value => value !== offset)
+      : [...stream.rsvp.reminderOffsets, offset];
+
+    updateRsvp(stream.id, { reminderOffsets: offsets });
+  };
+
+  const copyCalendarFeed = async () => {
+    try {
+      const response = await fetch(`/api/fan/artists/${artistId}/calendar`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to get calendar feed');
+      }
+
+      await navigator.clipboard.writeText(data.feedUrl.replace(/^https?:/, 'webcal:'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Calendar feed error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to get calendar feed');
+    }
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <div className='mb-8'>
+      <div className='flex items-center justify-between mb-4'>
+        <h3 className='text-xl font-semibold text-gray-900'>Upcoming Streams</h3>
+        <button
+          onClick={copyCalendarFeed}
+          className='text-sm text-blue-600 hover:text-blue-700'
+          title='Paste this link into your calendar app to subscribe'
+        >
+          {copied ? 'Link copied!' : 'Subscribe in calendar'}
+        </button>
+      </div>
+
+      {streams.length === 0 ? (
+        <div className='text-center py-6 text-gray-500'>
+          <p>No upcoming streams scheduled.</p>
+        </div>
+      ) : (
+        <div className='space-y-4'>
+          {streams.map(stream => (
+            <div key={stream.id} className='bg-white border border-gray-200 rounded-lg p-4'>
+              <div className='flex justify-between items-start gap-3'>
+                <div>
+                  <h4 className='font-medium text-gray-900'>{stream.title}</h4>
+                  <p className='text-sm text-gray-600'>
+                    {new Date(stream.scheduledAt).toLocaleString(undefined, {
+                      dateStyle: 'medium',
+                      timeStyle: 'short',
+                    })}
+                    {stream.requiresPayment && ' · Ticketed'}
+                  </p>
+                </div>
+
+                {stream.status === 'LIVE' ? (
+                  <a
+                    href={`/stream/${stream.id}`}
+                    className='px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700'
+                  >
+                    Watch live
+                  </a>
+                ) : (
+                  <button
+                    onClick={() => updateRsvp(stream.id, stream.rsvp ? null : {})}
+                    disabled={updatingId === stream.id}
+                    className={`px-3 py-1 text-sm rounded-lg disabled:opacity-50 ${
+                      stream.rsvp
+                        ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        : 'bg-blue-600 text-white hover:bg-blue-700'
+                    }`}
+                  >
+                    {stream.rsvp ? 'Going ✓' : 'Remind me'}
+                  </button>
+                )}
+              </div>
+
+              {stream.rsvp && stream.status !== 'LIVE' && (
+                <div className='flex flex-wrap gap-3 mt-3'>
+                  {REMINDER_OPTIONS.map(option => (
+                    <label
+                      key={option.offset}
+                      className='flex items-center gap-1 text-xs text-gray-600'
+                    >
+                      <input
+                        type='checkbox'
+                        checked={stream.rsvp?.reminderOffsets.includes(option.offset) ?? false}
+                        onChange={() => toggleReminder(stream, option.offset)}
+                        disabled={updatingId === stream.id}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
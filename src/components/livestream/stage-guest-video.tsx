@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+
+interface StageGuestVideoProps {
+  stream?: MediaStream;
+  displayName?: string;
+  muted?: boolean;
+  className?: string;
+}
+
+// A co-host's camera feed, labelled with their name
+export default function StageGuestVideo({
+  stream,
+  displayName,
+  muted = false,
+  className,
+}: StageGuestVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream || null;
+    }
+  }, [stream]);
+
+  return (
+    <div className={cn('relative bg-black overflow-hidden', className)}>
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={muted}
+        className='w-full h-full object-cover'
+      />
+
+      {!stream && (
+        <div className='absolute inset-0 flex items-center justify-center text-xs text-gray-400'>
+          Connecting...
+        </div>
+      )}
+
+      <div className='absolute bottom-2 left-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded'>
+        {displayName || 'Guest'}
+      </div>
+    </div>
+  );
+}
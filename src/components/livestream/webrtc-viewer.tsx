@@ -15,6 +15,9 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'react-hot-toast';
 import { io, Socket } from 'socket.io-client';
+import { cn } from '@/lib/utils';
+import StageGuestVideo from './stage-guest-video';
+import type { StageLayout } from '@/lib/streaming/webrtc-signaling-server';
 
 interface ViewerProps {
   streamId: string;
@@ -22,6 +25,12 @@ interface ViewerProps {
   onStreamStatusChange?: (status: 'loading' | 'connected' | 'disconnected' | 'ended') => void;
 }
 
+interface StageGuest {
+  guestId: string;
+  userId: string;
+  displayName?: string;
+}
+
 // ICE servers configuration (same as broadcaster)
 const ICE_SERVERS: RTCIceServer[] = [
   { urls: 'stun:stun.l.google.com:19302' },
@@ -49,11 +58,23 @@ export default function WebRTCViewer({
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
   const [networkQuality, setNetworkQuality] = useState<'good' | 'fair' | 'poor'>('good');
 
+  // Co-host stage
+  const [stageLayout, setStageLayout] = useState<StageLayout>('side-by-side');
+  const [stageGuests, setStageGuests] = useState<StageGuest[]>([]);
+  const [guestStreams, setGuestStreams] = useState<Record<string, MediaStream>>({});
+  const [stageStatus, setStageStatus] = useState<'idle' | 'pending' | 'invited' | 'on-stage'>(
+    'idle'
+  );
+
   // Refs
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const socketRef = useRef<Socket | null>(null);
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  // Feeds from guests on stage, and our own outgoing feeds while we are a guest
+  const guestPeersRef = useRef(new Map<string, RTCPeerConnection>());
+  const publishPeersRef = useRef(new Map<string, RTCPeerConnection>());
+  const localStreamRef = useRef<MediaStream | null>(null);
 
   useEffect(() => {
     initializeConnection();
@@ -119,16 +140,76 @@ export default function WebRTCViewer({
         handleBroadcasterLeft();
       });
 
-      socket.on('offer', async ({ offer, senderId }) => {
+      socket.on('offer', async ({ offer, senderId, senderRole }) => {
+        if (senderRole === 'GUEST') {
+          await handleGuestOffer(offer, senderId);
+          return;
+        }
+
         console.log('Received offer from broadcaster:', senderId);
         await handleOffer(offer, senderId);
       });
 
+      socket.on('answer', async ({ answer, senderId }) => {
+        await publishPeersRef.current.get(senderId)?.setRemoteDescription(answer);
+      });
+
       socket.on('ice-candidate', async ({ candidate, senderId }) => {
+        const stagePeer =
+          guestPeersRef.current.get(senderId) || publishPeersRef.current.get(senderId);
+        if (stagePeer) {
+          await stagePeer.addIceCandidate(new RTCIceCandidate(candidate));
+          return;
+        }
+
         console.log('Received ICE candidate from broadcaster');
         await handleIceCandidate(candidate);
       });
 
+      socket.on('cohost:layout', ({ layout, guests }) => {
+        setStageLayout(layout);
+        setStageGuests(guests);
+      });
+
+      socket.on('cohost:guest-left', ({ guestId }) => {
+        closeGuestPeer(guestId);
+      });
+
+      socket.on('cohost:request-pending', () => {
+        setStageStatus('pending');
+        toast.success('Request sent to the host');
+      });
+
+      socket.on('cohost:invited', () => {
+        setStageStatus('invited');
+        toast.success('The host invited you on stage');
+      });
+
+      socket.on('cohost:denied', () => {
+        setStageStatus('idle');
+        toast.error('The host declined your request');
+      });
+
+      socket.on('cohost:approved', async ({ hostId, viewers }) => {
+        await startPublishing([hostId, ...viewers]);
+      });
+
+      socket.on('viewer-joined', async ({ viewerId }) => {
+        if (localStreamRef.current) {
+          await publishTo(viewerId);
+        }
+      });
+
+      socket.on('cohost:removed', () => {
+        stopPublishing();
+        toast('The host removed you from the stage');
+      });
+
+      socket.on('cohost:error', ({ error }) => {
+        setStageStatus('idle');
+        toast.error(error);
+      });
+
       socket.on('viewer-count-update', ({ count }) => {
         setViewerCount(count);
         onViewerCountChange?.(count);
@@ -235,6 +316,130 @@ export default function WebRTCViewer({
     }
   };
 
+  const handleGuestOffer = async (offer: RTCSessionDescriptionInit, guestId: string) => {
+    try {
+      closeGuestPeer(guestId);
+
+      const peerConnection = new RTCPeerConnection({
+        iceServers: ICE_SERVERS,
+      });
+      guestPeersRef.current.set(guestId, peerConnection);
+
+      peerConnection.ontrack = event => {
+        const [guestStream] = event.streams;
+        setGuestStreams(prev => ({ ...prev, [guestId]: guestStream }));
+      };
+
+      peerConnection.onicecandidate = event => {
+        if (event.candidate && socketRef.current) {
+          socketRef.current.emit('ice-candidate', {
+            candidate: event.candidate,
+            targetId: guestId,
+          });
+        }
+      };
+
+      await peerConnection.setRemoteDescription(new RTCSessionDescription(offer));
+      const answer = await peerConnection.createAnswer();
+      await peerConnection.setLocalDescription(answer);
+
+      socketRef.current?.emit('answer', {
+        answer,
+        targetId: guestId,
+      });
+    } catch (error) {
+      console.error('Failed to handle guest offer:', error);
+    }
+  };
+
+  const closeGuestPeer = (guestId: string) => {
+    guestPeersRef.current.get(guestId)?.close();
+    guestPeersRef.current.delete(guestId);
+    setGuestStreams(prev => {
+      const { [guestId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Send our camera to one participant while we are on stage
+  const publishTo = async (targetId: string) => {
+    if (!localStreamRef.current || !socketRef.current) return;
+
+    publishPeersRef.current.get(targetId)?.close();
+
+    const peerConnection = new RTCPeerConnection({
+      iceServers: ICE_SERVERS,
+    });
+    publishPeersRef.current.set(targetId, peerConnection);
+
+    const localStream = localStreamRef.current;
+    localStream.getTracks().forEach(track => peerConnection.addTrack(track, localStream));
+
+    peerConnection.onicecandidate = event => {
+      if (event.candidate && socketRef.current) {
+        socketRef.current.emit('ice-candidate', {
+          candidate: event.candidate,
+          targetId,
+        });
+      }
+    };
+
+    const offer = await peerConnection.createOffer();
+    await peerConnection.setLocalDescription(offer);
+
+    socketRef.current.emit('offer', {
+      offer,
+      targetId,
+    });
+  };
+
+  const startPublishing = async (targetIds: string[]) => {
+    try {
+      localStreamRef.current = await navigator.mediaDevices.getUserMedia({
+        video: true,
+        audio: true,
+      });
+
+      const socketId = socketRef.current?.id;
+      if (socketId) {
+        setGuestStreams(prev => ({ ...prev, [socketId]: localStreamRef.current! }));
+      }
+
+      setStageStatus('on-stage');
+      toast.success("You're on stage!");
+
+      await Promise.all(targetIds.map(targetId => publishTo(targetId)));
+    } catch (error) {
+      console.error('Failed to join stage:', error);
+      toast.error('Could not access your camera or microphone');
+      socketRef.current?.emit('cohost:leave');
+      stopPublishing();
+    }
+  };
+
+  const stopPublishing = () => {
+    publishPeersRef.current.forEach(peerConnection => peerConnection.close());
+    publishPeersRef.current.clear();
+
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+
+    setStageStatus('idle');
+  };
+
+  const requestStage = () => {
+    socketRef.current?.emit('cohost:request');
+  };
+
+  const leaveStage = () => {
+    if (stageStatus === 'pending') {
+      socketRef.current?.emit('cohost:cancel-request');
+    } else {
+      socketRef.current?.emit('cohost:leave');
+    }
+    stopPublishing();
+  };
+
   const handleIceCandidate = async (candidate: RTCIceCandidateInit) => {
     if (peerConnectionRef.current) {
       try {
@@ -360,6 +565,10 @@ export default function WebRTCViewer({
       peerConnectionRef.current = null;
     }
 
+    guestPeersRef.current.forEach(peerConnection => peerConnection.close());
+    guestPeersRef.current.clear();
+    stopPublishing();
+
     if (socketRef.current) {
       socketRef.current.disconnect();
     }
@@ -406,22 +615,52 @@ export default function WebRTCViewer({
     }
   };
 
+  const isSideBySide = stageLayout === 'side-by-side' && stageGuests.length > 0;
+
   return (
     <Card className='w-full overflow-hidden'>
       <div className='relative'>
-        <video
-          ref={remoteVideoRef}
-          autoPlay
-          playsInline
-          className='w-full aspect-video bg-black'
-          onLoadedMetadata={() => {
-            console.log('Video metadata loaded');
-            if (remoteVideoRef.current) {
-              remoteVideoRef.current.volume = volume;
-              remoteVideoRef.current.muted = isMuted;
-            }
-          }}
-        />
+        {/* Host and guest feeds */}
+        <div className={cn('bg-black', isSideBySide && 'grid grid-cols-2 gap-1')}>
+          <video
+            ref={remoteVideoRef}
+            autoPlay
+            playsInline
+            className='w-full aspect-video bg-black'
+            onLoadedMetadata={() => {
+              console.log('Video metadata loaded');
+              if (remoteVideoRef.current) {
+                remoteVideoRef.current.volume = volume;
+                remoteVideoRef.current.muted = isMuted;
+              }
+            }}
+          />
+
+          {isSideBySide &&
+            stageGuests.map(guest => (
+              <StageGuestVideo
+                key={guest.guestId}
+                stream={guestStreams[guest.guestId]}
+                displayName={guest.displayName}
+                muted={isMuted || guest.guestId === socketRef.current?.id}
+                className='w-full aspect-video'
+              />
+            ))}
+        </div>
+
+        {!isSideBySide && stageGuests.length > 0 && (
+          <div className='absolute bottom-20 right-4 flex gap-2'>
+            {stageGuests.map(guest => (
+              <StageGuestVideo
+                key={guest.guestId}
+                stream={guestStreams[guest.guestId]}
+                displayName={guest.displayName}
+                muted={isMuted || guest.guestId === socketRef.current?.id}
+                className='w-40 aspect-video rounded-lg border border-white/20'
+              />
+            ))}
+          </div>
+        )}
 
         {/* Status Overlay */}
         <div className='absolute top-4 left-4 flex items-center space-x-2'>
@@ -522,8 +761,26 @@ export default function WebRTCViewer({
                 </div>
               </div>
 
-              <div className='text-sm opacity-75'>
-                Network: <span className={getNetworkQualityColor()}>{networkQuality}</span>
+              <div className='flex items-center space-x-4'>
+                {session?.user && (
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    onClick={
+                      stageStatus === 'idle' || stageStatus === 'invited' ? requestStage : leaveStage
+                    }
+                    className='border-white text-white hover:bg-white/10'
+                  >
+                    {stageStatus === 'idle' && 'Request to join stage'}
+                    {stageStatus === 'invited' && 'Join stage'}
+                    {stageStatus === 'pending' && 'Cancel request'}
+                    {stageStatus === 'on-stage' && 'Leave stage'}
+                  </Button>
+                )}
+
+                <div className='text-sm opacity-75'>
+                  Network: <span className={getNetworkQualityColor()}>{networkQuality}</span>
+                </div>
               </div>
             </div>
           </div>
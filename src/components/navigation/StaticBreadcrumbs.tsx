@@ -6,8 +6,8 @@ import Link from 'next/link';
 export default function StaticBreadcrumbs() {
   const pathname = usePathname();
 
-  // Only show breadcrumbs if not on homepage
-  if (pathname === '/') {
+  // Only show breadcrumbs if not on homepage or a stream overlay
+  if (pathname === '/' || pathname?.startsWith('/overlay/')) {
     return null;
   }
 
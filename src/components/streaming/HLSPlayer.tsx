@@ -8,6 +8,7 @@
  * - Adaptive bitrate streaming
  * - CloudFront CDN delivery
  * - Quality selection and controls
+ * - Seekable chapter markers from a WebVTT chapters track
  * - Mobile-optimized playback
  */
 
@@ -24,6 +25,11 @@ import {
 } from '@heroicons/react/24/outline';
 import { cn } from '@/lib/utils';
 
+interface Chapter {
+  startTime: number;
+  title: string;
+}
+
 interface HLSPlayerProps {
   src: string;
   poster?: string;
@@ -31,6 +37,7 @@ interface HLSPlayerProps {
   muted?: boolean;
   controls?: boolean;
   className?: string;
+  chaptersSrc?: string;
   onPlay?: () => void;
   onPause?: () => void;
   onError?: (error: any) => void;
@@ -43,12 +50,14 @@ export default function HLSPlayer({
   muted = false,
   controls = true,
   className,
+  chaptersSrc,
   onPlay,
   onPause,
   onError
 }: HLSPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<Hls | null>(null);
+  const chaptersTrackRef = useRef<HTMLTrackElement>(null);
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(muted);
@@ -61,6 +70,7 @@ export default function HLSPlayer({
   const [currentQuality, setCurrentQuality] = useState('auto');
   const [showQualityMenu, setShowQualityMenu] = useState(false);
   const [isBuffering, setIsBuffering] = useState(false);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
 
   // Initialize HLS
   useEffect(() => {
@@ -128,6 +138,32 @@ export default function HLSPlayer({
     }
   }, [src, onError]);
 
+  // Load chapter markers once the browser has parsed the chapters track
+  useEffect(() => {
+    const trackElement = chaptersTrackRef.current;
+    if (!trackElement || !chaptersSrc) {
+      setChapters([]);
+      return;
+    }
+
+    // Chapter cues only load for tracks that aren't disabled
+    trackElement.track.mode = 'hidden';
+
+    const handleLoad = () => {
+      const cues = Array.from(trackElement.track.cues || []) as VTTCue[];
+      setChapters(cues.map((cue) => ({ startTime: cue.startTime, title: cue.text })));
+    };
+
+    trackElement.addEventListener('load', handleLoad);
+    if (trackElement.readyState === HTMLTrackElement.LOADED) {
+      handleLoad();
+    }
+
+    return () => {
+      trackElement.removeEventListener('load', handleLoad);
+    };
+  }, [chaptersSrc]);
+
   // Video event handlers
   useEffect(() => {
     const video = videoRef.current;
@@ -241,6 +277,8 @@ export default function HLSPlayer({
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const currentChapter = [...chapters].reverse().find((chapter) => chapter.startTime <= currentTime);
+
   return (
     <div className={cn('relative bg-black rounded-lg overflow-hidden', className)}>
       <video
@@ -250,7 +288,11 @@ export default function HLSPlayer({
         muted={muted}
         className="w-full h-full object-contain"
         playsInline
-      />
+      >
+        {chaptersSrc && (
+          <track ref={chaptersTrackRef} kind="chapters" src={chaptersSrc} default />
+        )}
+      </video>
 
       {/* Buffering Spinner */}
       {isBuffering && (
@@ -270,7 +312,7 @@ export default function HLSPlayer({
           onMouseLeave={() => setShowControls(false)}
         >
           {/* Progress Bar */}
-          <div className="mb-4">
+          <div className="relative mb-4">
             <input
               type="range"
               min="0"
@@ -279,6 +321,21 @@ export default function HLSPlayer({
               onChange={(e) => handleSeek(Number(e.target.value))}
               className="w-full h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
             />
+
+            {/* Chapter Markers */}
+            {duration > 0 &&
+              chapters
+                .filter((chapter) => chapter.startTime > 0)
+                .map((chapter) => (
+                  <button
+                    key={chapter.startTime}
+                    onClick={() => handleSeek(chapter.startTime)}
+                    title={`${formatTime(chapter.startTime)} · ${chapter.title}`}
+                    aria-label={`Jump to ${chapter.title}`}
+                    className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2 h-3 bg-yellow-400 hover:bg-yellow-300 rounded-sm"
+                    style={{ left: `${(chapter.startTime / duration) * 100}%` }}
+                  />
+                ))}
           </div>
 
           <div className="flex items-center justify-between">
@@ -322,6 +379,9 @@ export default function HLSPlayer({
               {/* Time */}
               <div className="text-white text-sm">
                 {formatTime(currentTime)} / {formatTime(duration)}
+                {currentChapter && (
+                  <span className="ml-2 text-gray-300">· {currentChapter.title}</span>
+                )}
               </div>
             </div>
 
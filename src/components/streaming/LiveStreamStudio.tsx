@@ -33,6 +33,8 @@ import {
   UserGroupIcon,
   BoltIcon,
   ChartBarIcon,
+  ChartPieIcon,
+  ShieldCheckIcon,
 } from '@heroicons/react/24/outline';
 import {
   HeartIcon as HeartIconSolid,
@@ -42,6 +44,13 @@ import { useSession } from 'next-auth/react';
 import { toast } from 'react-hot-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
+import StageGuestVideo from '@/components/livestream/stage-guest-video';
+import StreamPollOverlay from './StreamPollOverlay';
+import TipGoalProgress from './TipGoalProgress';
+import type { PollResults } from '@/lib/stream-polls';
+import type { BannedKeyword, StreamChatSettings } from '@/lib/stream-chat-moderation';
+import type { TipGoalProgress as TipGoal } from '@/lib/stream-tip-goals';
+import type { StageLayout } from '@/lib/streaming/webrtc-signaling-server';
 
 // Types
 interface StreamConfig {
@@ -97,6 +106,27 @@ interface Donation {
   createdAt: Date;
 }
 
+interface StageGuest {
+  guestId: string;
+  userId: string;
+  displayName?: string;
+}
+
+// One keyword per line; /wrapped/ lines are regular expressions
+const parseKeywordText = (text: string): BannedKeyword[] =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line =>
+      line.length > 2 && line.startsWith('/') && line.endsWith('/')
+        ? { pattern: line.slice(1, -1), isRegex: true }
+        : { pattern: line, isRegex: false }
+    );
+
+const formatKeywordText = (keywords: BannedKeyword[]) =>
+  keywords.map(k => (k.isRegex ? `/${k.pattern}/` : k.pattern)).join('\n');
+
 interface StreamAnalytics {
   viewerTrend: Array<{ time: Date; viewers: number }>;
   chatActivity: Array<{ time: Date; messages: number }>;
@@ -145,9 +175,33 @@ export default function LiveStreamStudio() {
   const [donationMessage, setDonationMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
+  // Poll state
+  const [activePoll, setActivePoll] = useState<PollResults | null>(null);
+  const [pollQuestion, setPollQuestion] = useState('');
+  const [pollOptions, setPollOptions] = useState<string[]>(['', '']);
+  const [pollAllowMultiple, setPollAllowMultiple] = useState(false);
+
+  // Co-host state
+  // Chat modes
+  const [chatSettings, setChatSettings] = useState<StreamChatSettings | null>(null);
+  const [keywordText, setKeywordText] = useState('');
+  const [isSavingChatSettings, setIsSavingChatSettings] = useState(false);
+
+  // Tip goal
+  const [tipGoal, setTipGoal] = useState<TipGoal | null>(null);
+  const [tipGoalTitle, setTipGoalTitle] = useState('');
+  const [tipGoalAmount, setTipGoalAmount] = useState(100);
+
+  const [stageSocket, setStageSocket] = useState<Socket | null>(null);
+  const [guestRequests, setGuestRequests] = useState<StageGuest[]>([]);
+  const [stageGuests, setStageGuests] = useState<StageGuest[]>([]);
+  const [stageLayout, setStageLayout] = useState<StageLayout>('side-by-side');
+  const [guestStreams, setGuestStreams] = useState<Record<string, MediaStream>>({});
+
   // Refs
   const chatEndRef = useRef<HTMLDivElement>(null);
   const streamStatsInterval = useRef<NodeJS.Timeout | null>(null);
+  const guestPeers = useRef(new Map<string, RTCPeerConnection>());
 
   // Initialize socket connection
   useEffect(() => {
@@ -186,6 +240,15 @@ export default function LiveStreamStudio() {
     // Chat events
     newSocket.on('stream_chat_message', handleChatMessage);
     newSocket.on('stream_donation', handleDonation);
+    newSocket.on('tip_goal_progress', (goal: TipGoal) => setTipGoal(goal));
+    newSocket.on('stream_chat_message_deleted', ({ messageId }: { messageId: string }) =>
+      setChatMessages(prev => prev.filter(message => message.id !== messageId))
+    );
+
+    // Poll events
+    newSocket.on('poll_created', (poll: PollResults) => setActivePoll(poll));
+    newSocket.on('poll_results', (poll: PollResults) => setActivePoll(poll));
+    newSocket.on('poll_closed', (poll: PollResults) => setActivePoll(poll));
 
     // WebRTC signaling
     newSocket.on('webrtc_answer', handleWebRTCAnswer);
@@ -198,6 +261,106 @@ export default function LiveStreamStudio() {
     };
   }, [session?.user?.id]);
 
+  // Host the co-host stage on the WebRTC signaling server while live
+  useEffect(() => {
+    if (!activeStream || !isStreaming || !session?.user?.id) return;
+
+    const wsUrl = process.env.NODE_ENV === 'development'
+      ? 'http://localhost:3001/streaming'
+      : '/streaming';
+
+    const stage = io(wsUrl, {
+      auth: {
+        token: session.accessToken,
+      },
+      transports: ['websocket', 'polling'],
+    });
+
+    const closeGuestPeer = (guestId: string) => {
+      guestPeers.current.get(guestId)?.close();
+      guestPeers.current.delete(guestId);
+      setGuestStreams(prev => {
+        const { [guestId]: _, ...rest } = prev;
+        return rest;
+      });
+    };
+
+    stage.on('connect', () => {
+      stage.emit('stream:join', {
+        streamId: activeStream.id,
+        isOwner: true,
+      });
+    });
+
+    stage.on('broadcaster-ready', () => {
+      stage.emit('start-stream');
+    });
+
+    stage.on('cohost:request-received', (request: StageGuest) => {
+      setGuestRequests(prev => [...prev.filter(r => r.guestId !== request.guestId), request]);
+      toast(`${request.displayName || 'A fan'} wants to join the stage`);
+    });
+
+    stage.on('cohost:request-cancelled', (data: { guestId: string }) => {
+      setGuestRequests(prev => prev.filter(r => r.guestId !== data.guestId));
+    });
+
+    stage.on('cohost:layout', (data: { layout: StageLayout; guests: StageGuest[] }) => {
+      setStageLayout(data.layout);
+      setStageGuests(data.guests);
+    });
+
+    stage.on('cohost:guest-left', (data: { guestId: string }) => {
+      closeGuestPeer(data.guestId);
+    });
+
+    stage.on('cohost:error', (data: { error: string }) => {
+      toast.error(data.error);
+    });
+
+    // Guests send their feed here too so the host can see who is on stage
+    stage.on('offer', async (data: { offer: RTCSessionDescriptionInit; senderId: string }) => {
+      closeGuestPeer(data.senderId);
+
+      const peerConnection = new RTCPeerConnection({
+        iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+      });
+      guestPeers.current.set(data.senderId, peerConnection);
+
+      peerConnection.ontrack = event => {
+        const [guestStream] = event.streams;
+        setGuestStreams(prev => ({ ...prev, [data.senderId]: guestStream }));
+      };
+
+      peerConnection.onicecandidate = event => {
+        if (event.candidate) {
+          stage.emit('ice-candidate', { candidate: event.candidate, targetId: data.senderId });
+        }
+      };
+
+      await peerConnection.setRemoteDescription(data.offer);
+      const answer = await peerConnection.createAnswer();
+      await peerConnection.setLocalDescription(answer);
+      stage.emit('answer', { answer, targetId: data.senderId });
+    });
+
+    stage.on('ice-candidate', async (data: { candidate: RTCIceCandidateInit; senderId: string }) => {
+      await guestPeers.current.get(data.senderId)?.addIceCandidate(data.candidate);
+    });
+
+    setStageSocket(stage);
+
+    return () => {
+      stage.close();
+      guestPeers.current.forEach(peerConnection => peerConnection.close());
+      guestPeers.current.clear();
+      setStageSocket(null);
+      setGuestRequests([]);
+      setStageGuests([]);
+      setGuestStreams({});
+    };
+  }, [activeStream?.id, isStreaming, session?.user?.id]);
+
   // Scroll chat to bottom
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -518,6 +681,190 @@ export default function LiveStreamStudio() {
     setDonationMessage('');
   }, [socket, activeStream, donationAmount, donationMessage]);
 
+  // Polls
+  const createPoll = useCallback(() => {
+    const options = pollOptions.map(option => option.trim()).filter(Boolean);
+    if (!socket || !activeStream || !pollQuestion.trim() || options.length < 2) return;
+
+    socket.emit('create_poll', {
+      streamId: activeStream.id,
+      question: pollQuestion.trim(),
+      options,
+      allowMultiple: pollAllowMultiple,
+    });
+
+    setPollQuestion('');
+    setPollOptions(['', '']);
+    setPollAllowMultiple(false);
+  }, [socket, activeStream, pollQuestion, pollOptions, pollAllowMultiple]);
+
+  const closePoll = useCallback(() => {
+    if (!socket || !activeStream || !activePoll) return;
+
+    socket.emit('close_poll', { streamId: activeStream.id, pollId: activePoll.pollId });
+  }, [socket, activeStream, activePoll]);
+
+  // Chat modes
+  useEffect(() => {
+    if (!activeStream) return;
+
+    fetch(`/api/streaming/${activeStream.id}/chat-settings`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => {
+        if (result?.data) {
+          setChatSettings(result.data);
+          setKeywordText(formatKeywordText(result.data.bannedKeywords));
+        }
+      })
+      .catch(error => console.error('Failed to load chat settings:', error));
+  }, [activeStream?.id]);
+
+  const saveChatSettings = useCallback(async () => {
+    if (!activeStream || !chatSettings) return;
+
+    setIsSavingChatSettings(true);
+    try {
+      const response = await fetch(`/api/streaming/${activeStream.id}/chat-settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slowModeSeconds: chatSettings.slowModeSeconds,
+          subscribersOnly: chatSettings.subscribersOnly,
+          emoteOnly: chatSettings.emoteOnly,
+          bannedKeywords: parseKeywordText(keywordText),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error);
+      }
+
+      setChatSettings(result.data);
+      setKeywordText(formatKeywordText(result.data.bannedKeywords));
+      toast.success('Chat settings saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save chat settings');
+    } finally {
+      setIsSavingChatSettings(false);
+    }
+  }, [activeStream, chatSettings, keywordText]);
+
+  // Tip goal and OBS overlay
+  useEffect(() => {
+    if (!activeStream) return;
+
+    fetch(`/api/streaming/${activeStream.id}/tip-goal`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => setTipGoal(result?.data || null))
+      .catch(error => console.error('Failed to load tip goal:', error));
+  }, [activeStream?.id]);
+
+  const saveTipGoal = useCallback(async () => {
+    if (!activeStream || !tipGoalTitle.trim() || tipGoalAmount <= 0) return;
+
+    try {
+      const response = await fetch(`/api/streaming/${activeStream.id}/tip-goal`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: tipGoalTitle.trim(), amount: tipGoalAmount }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setTipGoal(result.data);
+      setTipGoalTitle('');
+      toast.success('Tip goal set');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to set tip goal');
+    }
+  }, [activeStream, tipGoalTitle, tipGoalAmount]);
+
+  const removeTipGoal = useCallback(async () => {
+    if (!activeStream) return;
+
+    const response = await fetch(`/api/streaming/${activeStream.id}/tip-goal`, {
+      method: 'DELETE',
+    });
+
+    if (response.ok) {
+      setTipGoal(null);
+    } else {
+      toast.error('Failed to remove tip goal');
+    }
+  }, [activeStream]);
+
+  const copyOverlayUrl = useCallback(async () => {
+    if (!activeStream) return;
+
+    try {
+      const response = await fetch(`/api/streaming/${activeStream.id}/overlay`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      await navigator.clipboard.writeText(result.data.overlayUrl);
+      toast.success('Overlay URL copied - add it to OBS as a browser source');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to get overlay URL');
+    }
+  }, [activeStream]);
+
+  const moderateChatMessage = useCallback(
+    (message: ChatMessage, action: 'delete' | 'timeout') => {
+      if (!socket || !activeStream) return;
+
+      socket.emit('moderate_message', {
+        streamId: activeStream.id,
+        messageId: message.id,
+        userId: message.userId,
+        action,
+      });
+    },
+    [socket, activeStream]
+  );
+
+  // Co-host moderation
+  const approveGuest = useCallback(
+    (guestId: string) => {
+      stageSocket?.emit('cohost:approve', { guestId });
+      setGuestRequests(prev => prev.filter(r => r.guestId !== guestId));
+    },
+    [stageSocket]
+  );
+
+  const denyGuest = useCallback(
+    (guestId: string) => {
+      stageSocket?.emit('cohost:deny', { guestId });
+      setGuestRequests(prev => prev.filter(r => r.guestId !== guestId));
+    },
+    [stageSocket]
+  );
+
+  const removeGuest = useCallback(
+    (guestId: string) => {
+      stageSocket?.emit('cohost:remove', { guestId });
+    },
+    [stageSocket]
+  );
+
+  const inviteGuest = useCallback(
+    (message: ChatMessage) => {
+      if (!stageSocket) return;
+
+      stageSocket.emit('cohost:invite', { userId: message.userId });
+      toast.success(`Invited ${message.userName} on stage`);
+    },
+    [stageSocket]
+  );
+
+  const changeStageLayout = useCallback(
+    (layout: StageLayout) => {
+      stageSocket?.emit('cohost:set-layout', { layout });
+    },
+    [stageSocket]
+  );
+
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -648,6 +995,20 @@ export default function LiveStreamStudio() {
                   </div>
                 )}
 
+                {/* Guests on stage */}
+                {isStreaming && stageGuests.length > 0 && (
+                  <div className='absolute bottom-4 right-4 flex gap-2'>
+                    {stageGuests.map(guest => (
+                      <StageGuestVideo
+                        key={guest.guestId}
+                        stream={guestStreams[guest.guestId]}
+                        displayName={guest.displayName}
+                        className='w-40 aspect-video rounded-lg border border-gray-600'
+                      />
+                    ))}
+                  </div>
+                )}
+
                 {!activeStream && (
                   <div className='absolute inset-0 flex items-center justify-center'>
                     <div className='text-center'>
@@ -877,6 +1238,33 @@ export default function LiveStreamStudio() {
                           (${message.metadata.donationAmount})
                         </span>
                       )}
+                      {stageSocket &&
+                        message.type !== 'system' &&
+                        message.userId !== session.user.id &&
+                        !stageGuests.some(guest => guest.userId === message.userId) && (
+                          <button
+                            onClick={() => inviteGuest(message)}
+                            className='ml-2 text-xs text-blue-400 hover:text-blue-300'
+                          >
+                            Invite on stage
+                          </button>
+                        )}
+                      {message.type === 'message' && message.userId !== session.user.id && (
+                        <>
+                          <button
+                            onClick={() => moderateChatMessage(message, 'delete')}
+                            className='ml-2 text-xs text-gray-400 hover:text-red-400'
+                          >
+                            Delete
+                          </button>
+                          <button
+                            onClick={() => moderateChatMessage(message, 'timeout')}
+                            className='ml-2 text-xs text-gray-400 hover:text-red-400'
+                          >
+                            Timeout
+                          </button>
+                        </>
+                      )}
                     </div>
                   ))}
                   <div ref={chatEndRef} />
@@ -903,6 +1291,298 @@ export default function LiveStreamStudio() {
               </div>
             )}
 
+            {/* Chat modes */}
+            {activeStream && chatSettings && (
+              <div className='bg-gray-800 rounded-lg p-4'>
+                <h3 className='font-semibold mb-4 flex items-center gap-2'>
+                  <ShieldCheckIcon className='w-5 h-5' />
+                  Chat Modes
+                </h3>
+
+                <div className='space-y-3 text-sm'>
+                  <label className='flex items-center justify-between'>
+                    <span>Slow mode</span>
+                    <select
+                      value={chatSettings.slowModeSeconds}
+                      onChange={e =>
+                        setChatSettings(prev =>
+                          prev ? { ...prev, slowModeSeconds: Number(e.target.value) } : prev
+                        )
+                      }
+                      className='px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg'
+                    >
+                      {[0, 5, 10, 30, 60, 120].map(seconds => (
+                        <option key={seconds} value={seconds}>
+                          {seconds === 0 ? 'Off' : `${seconds}s`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className='flex items-center'>
+                    <input
+                      type='checkbox'
+                      checked={chatSettings.subscribersOnly}
+                      onChange={e =>
+                        setChatSettings(prev =>
+                          prev ? { ...prev, subscribersOnly: e.target.checked } : prev
+                        )
+                      }
+                      className='mr-2 rounded'
+                    />
+                    Subscribers only
+                  </label>
+                  <label className='flex items-center'>
+                    <input
+                      type='checkbox'
+                      checked={chatSettings.emoteOnly}
+                      onChange={e =>
+                        setChatSettings(prev =>
+                          prev ? { ...prev, emoteOnly: e.target.checked } : prev
+                        )
+                      }
+                      className='mr-2 rounded'
+                    />
+                    Emote only
+                  </label>
+                  <div>
+                    <span className='block mb-1'>Banned keywords</span>
+                    <textarea
+                      value={keywordText}
+                      onChange={e => setKeywordText(e.target.value)}
+                      rows={4}
+                      placeholder={'One per line\n/regex/ for patterns'}
+                      className='w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono'
+                    />
+                  </div>
+                  <button
+                    onClick={saveChatSettings}
+                    disabled={isSavingChatSettings}
+                    className='w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded-lg transition-colors text-sm'
+                  >
+                    {isSavingChatSettings ? 'Saving...' : 'Save Chat Settings'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Tip goal */}
+            {activeStream && (
+              <div className='bg-gray-800 rounded-lg p-4'>
+                <h3 className='font-semibold mb-4 flex items-center gap-2'>
+                  <CurrencyDollarIcon className='w-5 h-5' />
+                  Tip Goal
+                </h3>
+
+                {tipGoal ? (
+                  <div className='space-y-2'>
+                    <TipGoalProgress goal={tipGoal} className='bg-gray-900' />
+                    <button
+                      onClick={removeTipGoal}
+                      className='text-xs text-red-400 hover:text-red-300'
+                    >
+                      Remove goal
+                    </button>
+                  </div>
+                ) : (
+                  <div className='space-y-2'>
+                    <input
+                      type='text'
+                      value={tipGoalTitle}
+                      onChange={e => setTipGoalTitle(e.target.value)}
+                      placeholder='e.g. Encore'
+                      maxLength={100}
+                      className='w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm'
+                    />
+                    <div className='flex gap-2'>
+                      <input
+                        type='number'
+                        value={tipGoalAmount}
+                        onChange={e => setTipGoalAmount(Number(e.target.value))}
+                        min='1'
+                        className='flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm'
+                      />
+                      <button
+                        onClick={saveTipGoal}
+                        disabled={!tipGoalTitle.trim() || tipGoalAmount <= 0}
+                        className='px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded-lg transition-colors text-sm'
+                      >
+                        Set Goal
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <button
+                  onClick={copyOverlayUrl}
+                  className='w-full mt-4 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm'
+                >
+                  Copy OBS Alert Overlay URL
+                </button>
+              </div>
+            )}
+
+            {/* Polls */}
+            {activeStream && isStreaming && (
+              <div className='bg-gray-800 rounded-lg p-4'>
+                <h3 className='font-semibold mb-4 flex items-center gap-2'>
+                  <ChartPieIcon className='w-5 h-5' />
+                  Polls
+                </h3>
+
+                {activePoll && (
+                  <StreamPollOverlay
+                    poll={activePoll}
+                    onClose={closePoll}
+                    onDismiss={() => setActivePoll(null)}
+                    className='w-full mb-4'
+                  />
+                )}
+
+                {!activePoll?.isActive && (
+                  <div className='space-y-2'>
+                    <input
+                      type='text'
+                      value={pollQuestion}
+                      onChange={e => setPollQuestion(e.target.value)}
+                      placeholder='Ask your viewers...'
+                      maxLength={200}
+                      className='w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm'
+                    />
+                    {pollOptions.map((option, index) => (
+                      <input
+                        key={index}
+                        type='text'
+                        value={option}
+                        onChange={e =>
+                          setPollOptions(prev =>
+                            prev.map((o, i) => (i === index ? e.target.value : o))
+                          )
+                        }
+                        placeholder={`Option ${index + 1}`}
+                        maxLength={100}
+                        className='w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm'
+                      />
+                    ))}
+                    <div className='flex items-center justify-between'>
+                      {pollOptions.length < 6 ? (
+                        <button
+                          onClick={() => setPollOptions(prev => [...prev, ''])}
+                          className='text-xs text-blue-400 hover:text-blue-300'
+                        >
+                          + Add option
+                        </button>
+                      ) : (
+                        <span />
+                      )}
+                      <label className='flex items-center text-xs'>
+                        <input
+                          type='checkbox'
+                          checked={pollAllowMultiple}
+                          onChange={e => setPollAllowMultiple(e.target.checked)}
+                          className='mr-2 rounded'
+                        />
+                        Allow multiple choices
+                      </label>
+                    </div>
+                    <button
+                      onClick={createPoll}
+                      disabled={
+                        !pollQuestion.trim() || pollOptions.filter(o => o.trim()).length < 2
+                      }
+                      className='w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded-lg transition-colors text-sm'
+                    >
+                      Start Poll
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Co-hosts */}
+            {activeStream && isStreaming && (
+              <div className='bg-gray-800 rounded-lg p-4'>
+                <h3 className='font-semibold mb-4 flex items-center gap-2'>
+                  <UserGroupIcon className='w-5 h-5' />
+                  Stage
+                </h3>
+
+                <div className='flex gap-2 mb-4'>
+                  {(['side-by-side', 'picture-in-picture'] as StageLayout[]).map(layout => (
+                    <button
+                      key={layout}
+                      onClick={() => changeStageLayout(layout)}
+                      className={cn(
+                        'flex-1 px-2 py-1 rounded text-xs transition-colors',
+                        stageLayout === layout
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-700 hover:bg-gray-600'
+                      )}
+                    >
+                      {layout === 'side-by-side' ? 'Side by side' : 'Picture in picture'}
+                    </button>
+                  ))}
+                </div>
+
+                {guestRequests.length > 0 && (
+                  <div className='mb-4'>
+                    <h4 className='text-sm font-medium mb-2'>Requests to join</h4>
+                    <div className='space-y-2'>
+                      {guestRequests.map(request => (
+                        <div
+                          key={request.guestId}
+                          className='flex items-center justify-between bg-gray-700 p-2 rounded text-sm'
+                        >
+                          <span>{request.displayName || request.userId}</span>
+                          <div className='flex gap-1'>
+                            <button
+                              onClick={() => approveGuest(request.guestId)}
+                              className='px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-xs transition-colors'
+                            >
+                              Approve
+                            </button>
+                            <button
+                              onClick={() => denyGuest(request.guestId)}
+                              className='px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded text-xs transition-colors'
+                            >
+                              Deny
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className='mb-3'>
+                  <h4 className='text-sm font-medium mb-2'>On stage</h4>
+                  {stageGuests.length === 0 ? (
+                    <p className='text-sm text-gray-400'>No guests yet</p>
+                  ) : (
+                    <div className='space-y-2'>
+                      {stageGuests.map(guest => (
+                        <div
+                          key={guest.guestId}
+                          className='flex items-center justify-between bg-gray-700 p-2 rounded text-sm'
+                        >
+                          <span>{guest.displayName || guest.userId}</span>
+                          <button
+                            onClick={() => removeGuest(guest.guestId)}
+                            className='px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-xs transition-colors'
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <p className='text-xs text-gray-400'>
+                  Invite someone from the chat to bring them on stage.
+                </p>
+              </div>
+            )}
+
             {/* Stream Stats */}
             {activeStream && (
               <div className='bg-gray-800 rounded-lg p-4'>
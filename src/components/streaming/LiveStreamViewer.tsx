@@ -44,6 +44,11 @@ import { toast } from 'react-hot-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 import HLSPlayer from './HLSPlayer';
+import StreamPollOverlay from './StreamPollOverlay';
+import type { PollResults } from '@/lib/stream-polls';
+import type { StreamChatSettings } from '@/lib/stream-chat-moderation';
+import type { TipGoalProgress as TipGoal } from '@/lib/stream-tip-goals';
+import TipGoalProgress from './TipGoalProgress';
 
 // Types
 interface Stream {
@@ -144,6 +149,12 @@ export default function LiveStreamViewer({
   const [donationAmount, setDonationAmount] = useState(5);
   const [donationMessage, setDonationMessage] = useState('');
   const [showDonationModal, setShowDonationModal] = useState(false);
+  const [donateAnonymously, setDonateAnonymously] = useState(false);
+  const [showDonationOnStream, setShowDonationOnStream] = useState(true);
+  const [tipGoal, setTipGoal] = useState<TipGoal | null>(null);
+  const [activePoll, setActivePoll] = useState<PollResults | null>(null);
+  const [pollVotes, setPollVotes] = useState<number[]>([]);
+  const [chatSettings, setChatSettings] = useState<StreamChatSettings | null>(null);
 
   // UI state
   const [showControls, setShowControlsState] = useState(showControls);
@@ -175,6 +186,11 @@ export default function LiveStreamViewer({
 
     fetchStream();
 
+    fetch(`/api/streaming/${streamId}/tip-goal`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => setTipGoal(result?.data || null))
+      .catch(error => console.error('Failed to fetch tip goal:', error));
+
     // Initialize WebSocket for real-time features
     const newSocket = io(process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001', {
       auth: {
@@ -188,6 +204,12 @@ export default function LiveStreamViewer({
       setSocket(newSocket);
       setIsConnected(true);
       newSocket.emit('join_stream', { streamId });
+
+      // Back from a tip checkout: ask the server to announce it once the payment is confirmed
+      const paidTipId = new URLSearchParams(window.location.search).get('tip');
+      if (paidTipId) {
+        newSocket.emit('stream_donation_paid', { streamId, donationId: paidTipId });
+      }
     });
 
     newSocket.on('disconnect', () => {
@@ -204,6 +226,39 @@ export default function LiveStreamViewer({
 
     newSocket.on('stream_chat_message', handleChatMessage);
     newSocket.on('stream_donation', handleDonation);
+    newSocket.on('donation_checkout', ({ checkoutUrl }: { checkoutUrl: string }) => {
+      window.location.href = checkoutUrl;
+    });
+    newSocket.on('tip_goal_progress', (goal: TipGoal) => setTipGoal(goal));
+    newSocket.on('stream_chat_message_deleted', ({ messageId }: { messageId: string }) => {
+      setChatMessages(prev => prev.filter(message => message.id !== messageId));
+    });
+
+    // Polls and chat modes
+    newSocket.on(
+      'stream_joined',
+      (data: { activePoll?: PollResults | null; chatSettings?: StreamChatSettings }) => {
+        if (data.activePoll) setActivePoll(data.activePoll);
+        if (data.chatSettings) setChatSettings(data.chatSettings);
+      }
+    );
+
+    newSocket.on('poll_created', (poll: PollResults) => {
+      setActivePoll(poll);
+      setPollVotes([]);
+    });
+
+    newSocket.on('poll_results', (poll: PollResults) => {
+      setActivePoll(prev => (prev?.pollId === poll.pollId ? poll : prev));
+    });
+
+    newSocket.on('poll_closed', (poll: PollResults) => {
+      setActivePoll(prev => (prev?.pollId === poll.pollId ? poll : prev));
+    });
+
+    newSocket.on('poll_vote_success', (data: { optionIndexes: number[] }) => {
+      setPollVotes(prev => Array.from(new Set([...prev, ...data.optionIndexes])));
+    });
 
     setSocket(newSocket);
 
@@ -475,6 +530,19 @@ export default function LiveStreamViewer({
     [socket, stream, session?.user]
   );
 
+  const votePoll = useCallback(
+    (optionIndexes: number[]) => {
+      if (!socket || !stream || !activePoll) return;
+
+      socket.emit('vote_poll', {
+        streamId: stream.id,
+        pollId: activePoll.pollId,
+        optionIndexes,
+      });
+    },
+    [socket, stream, activePoll]
+  );
+
   // Interaction functions
   const toggleLike = useCallback(() => {
     if (!socket || !stream || !session?.user) return;
@@ -529,12 +597,22 @@ export default function LiveStreamViewer({
       streamId: stream.id,
       amount: donationAmount,
       message: donationMessage.trim() || undefined,
+      isAnonymous: donateAnonymously,
+      showOnStream: showDonationOnStream,
     });
 
     setDonationMessage('');
     setShowDonationModal(false);
-    toast.success(`Donated $${donationAmount}!`);
-  }, [socket, stream, session?.user, donationAmount, donationMessage]);
+    toast.success('Taking you to checkout...');
+  }, [
+    socket,
+    stream,
+    session?.user,
+    donationAmount,
+    donationMessage,
+    donateAnonymously,
+    showDonationOnStream,
+  ]);
 
   // Format duration
   const formatDuration = (ms: number) => {
@@ -592,6 +670,9 @@ export default function LiveStreamViewer({
                 autoPlay={autoPlay}
                 controls={showControls}
                 className='aspect-video'
+                chaptersSrc={
+                  stream.status === 'ended' ? `/api/streaming/${streamId}/vod/chapters` : undefined
+                }
                 onPlay={() => setIsPlaying(true)}
                 onPause={() => setIsPlaying(false)}
                 onError={(error) => {
@@ -634,6 +715,22 @@ export default function LiveStreamViewer({
               </div>
             </div>
 
+            {/* Poll Overlay */}
+            {activePoll && (
+              <StreamPollOverlay
+                poll={activePoll}
+                votedIndexes={pollVotes}
+                onVote={session?.user ? votePoll : undefined}
+                onDismiss={() => setActivePoll(null)}
+                className='absolute bottom-16 left-4 z-10'
+              />
+            )}
+
+            {/* Tip Goal */}
+            {tipGoal && (
+              <TipGoalProgress goal={tipGoal} className='absolute top-14 right-4 z-10 w-64' />
+            )}
+
           </div>
 
           {/* Stream Info */}
@@ -817,6 +914,7 @@ export default function LiveStreamViewer({
                       placeholder='Type a message...'
                       className='flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm'
                       disabled={stream.settings.subscribersOnly && !isFollowing}
+                      maxLength={500}
                     />
                     <button
                       onClick={() => setShowEmojiPicker(!showEmojiPicker)}
@@ -842,6 +940,22 @@ export default function LiveStreamViewer({
                   {stream.settings.subscribersOnly && !isFollowing && (
                     <p className='text-xs text-gray-400 mt-2'>Follow to participate in chat</p>
                   )}
+
+                  {chatSettings &&
+                    (chatSettings.slowModeSeconds > 0 ||
+                      chatSettings.subscribersOnly ||
+                      chatSettings.emoteOnly) && (
+                      <p className='text-xs text-gray-400 mt-2'>
+                        {[
+                          chatSettings.slowModeSeconds > 0 &&
+                            `Slow mode: ${chatSettings.slowModeSeconds}s`,
+                          chatSettings.subscribersOnly && 'Subscribers only',
+                          chatSettings.emoteOnly && 'Emote only',
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    )}
                 </div>
               )}
 
@@ -928,6 +1042,27 @@ export default function LiveStreamViewer({
                 />
               </div>
 
+              <div className='space-y-2 text-sm'>
+                <label className='flex items-center'>
+                  <input
+                    type='checkbox'
+                    checked={donateAnonymously}
+                    onChange={e => setDonateAnonymously(e.target.checked)}
+                    className='mr-2 rounded'
+                  />
+                  Tip anonymously
+                </label>
+                <label className='flex items-center'>
+                  <input
+                    type='checkbox'
+                    checked={showDonationOnStream}
+                    onChange={e => setShowDonationOnStream(e.target.checked)}
+                    className='mr-2 rounded'
+                  />
+                  Show my tip and message on stream
+                </label>
+              </div>
+
               <div className='flex gap-3'>
                 <button
                   onClick={() => setShowDonationModal(false)}
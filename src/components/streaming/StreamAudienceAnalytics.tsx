@@ -0,0 +1,182 @@
+'use client';
+
+/**
+ * Stream Audience Analytics
+ *
+ * Per-minute concurrency, audience retention, watch time by tier and the
+ * join/leave spikes of a single stream, next to the chat and tips that landed
+ * in the same minute.
+ */
+
+import React from 'react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ArrowTrendingDownIcon, ArrowTrendingUpIcon } from '@heroicons/react/24/outline';
+import type { StreamRetentionAnalytics } from '@/lib/stream-retention';
+
+interface StreamAudienceAnalyticsProps {
+  audience: StreamRetentionAnalytics;
+}
+
+const tooltipStyle = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '0.5rem',
+};
+
+const formatWatchTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+export default function StreamAudienceAnalytics({ audience }: StreamAudienceAnalyticsProps) {
+  const peakViewers = audience.concurrency.reduce((max, point) => Math.max(max, point.viewers), 0);
+
+  return (
+    <div className='space-y-6'>
+      <div className='grid grid-cols-2 md:grid-cols-4 gap-4'>
+        {[
+          { label: 'Unique viewers', value: audience.uniqueViewers.toLocaleString() },
+          { label: 'Peak concurrent', value: peakViewers.toLocaleString() },
+          { label: 'Avg. watch time', value: formatWatchTime(audience.averageWatchSeconds) },
+          { label: 'Stream length', value: formatWatchTime(audience.durationSeconds) },
+        ].map(stat => (
+          <div key={stat.label} className='bg-gray-800 rounded-lg p-4'>
+            <p className='text-sm text-gray-400'>{stat.label}</p>
+            <p className='text-2xl font-bold'>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className='bg-gray-800 rounded-lg p-4'>
+        <h3 className='font-semibold mb-4'>Concurrent viewers</h3>
+        <ResponsiveContainer width='100%' height={280}>
+          <ComposedChart data={audience.concurrency}>
+            <CartesianGrid strokeDasharray='3 3' stroke='#374151' />
+            <XAxis dataKey='minute' stroke='#9ca3af' tickFormatter={minute => `${minute}m`} />
+            <YAxis yAxisId='viewers' stroke='#9ca3af' allowDecimals={false} />
+            <YAxis yAxisId='activity' orientation='right' stroke='#9ca3af' allowDecimals={false} />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={minute => `Minute ${minute}`} />
+            <Legend />
+            <Bar yAxisId='activity' dataKey='joins' name='Joins' fill='#10b981' />
+            <Bar yAxisId='activity' dataKey='leaves' name='Leaves' fill='#ef4444' />
+            <Line
+              yAxisId='viewers'
+              type='monotone'
+              dataKey='viewers'
+              name='Viewers'
+              stroke='#6366f1'
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              yAxisId='activity'
+              type='monotone'
+              dataKey='chatMessages'
+              name='Chat messages'
+              stroke='#f59e0b'
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+        <div className='bg-gray-800 rounded-lg p-4'>
+          <h3 className='font-semibold mb-4'>Audience retention</h3>
+          <ResponsiveContainer width='100%' height={240}>
+            <AreaChart data={audience.retention}>
+              <CartesianGrid strokeDasharray='3 3' stroke='#374151' />
+              <XAxis dataKey='minute' stroke='#9ca3af' tickFormatter={minute => `${minute}m`} />
+              <YAxis stroke='#9ca3af' domain={[0, 100]} tickFormatter={value => `${value}%`} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={minute => `Watched ${minute}+ min`}
+                formatter={value => [`${value}%`, 'Viewers']}
+              />
+              <Area
+                type='monotone'
+                dataKey='percentage'
+                stroke='#8b5cf6'
+                fill='#8b5cf6'
+                fillOpacity={0.3}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className='bg-gray-800 rounded-lg p-4'>
+          <h3 className='font-semibold mb-4'>Average watch time by tier</h3>
+          {audience.watchTimeBySegment.length === 0 ? (
+            <p className='text-sm text-gray-400'>No viewers yet</p>
+          ) : (
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-400'>
+                  <th className='pb-2 font-medium'>Audience</th>
+                  <th className='pb-2 font-medium text-right'>Viewers</th>
+                  <th className='pb-2 font-medium text-right'>Avg. watch time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audience.watchTimeBySegment.map(segment => (
+                  <tr key={segment.segment} className='border-t border-gray-700'>
+                    <td className='py-2'>{segment.segment}</td>
+                    <td className='py-2 text-right'>{segment.viewers.toLocaleString()}</td>
+                    <td className='py-2 text-right'>
+                      {formatWatchTime(segment.averageWatchSeconds)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className='bg-gray-800 rounded-lg p-4'>
+        <h3 className='font-semibold mb-4'>Join and leave spikes</h3>
+        {audience.spikes.length === 0 ? (
+          <p className='text-sm text-gray-400'>No unusual spikes in this stream</p>
+        ) : (
+          <ul className='space-y-2 text-sm'>
+            {audience.spikes.map(spike => (
+              <li
+                key={`${spike.kind}-${spike.minute}`}
+                className='flex items-center gap-3 border-t border-gray-700 pt-2 first:border-0 first:pt-0'
+              >
+                {spike.kind === 'JOIN' ? (
+                  <ArrowTrendingUpIcon className='w-5 h-5 text-green-400' />
+                ) : (
+                  <ArrowTrendingDownIcon className='w-5 h-5 text-red-400' />
+                )}
+                <span className='w-16 text-gray-400'>{spike.minute}m</span>
+                <span className='flex-1'>
+                  {spike.viewers} viewers {spike.kind === 'JOIN' ? 'joined' : 'left'}
+                </span>
+                <span className='text-gray-400'>
+                  {spike.chatMessages} chat · ${spike.tipAmount.toFixed(2)} tips
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
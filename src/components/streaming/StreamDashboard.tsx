@@ -44,6 +44,8 @@ import {
 } from '@heroicons/react/24/solid';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
+import StreamAudienceAnalytics from './StreamAudienceAnalytics';
+import type { StreamRetentionAnalytics } from '@/lib/stream-retention';
 
 // Types
 interface Stream {
@@ -140,6 +142,11 @@ export default function StreamDashboard() {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState('All');
 
+  // Analytics state
+  const [analyticsStreamId, setAnalyticsStreamId] = useState('');
+  const [audience, setAudience] = useState<StreamRetentionAnalytics | null>(null);
+  const [isLoadingAudience, setIsLoadingAudience] = useState(false);
+
   // Load streams data
   useEffect(() => {
     loadStreams();
@@ -216,6 +223,40 @@ export default function StreamDashboard() {
     }
   }, []);
 
+  // Streams that have started have an audience timeline
+  const analyticsStreams = myStreams.filter(stream => stream.status !== 'scheduled');
+
+  const latestAnalyticsStreamId = analyticsStreams[0]?.id;
+
+  useEffect(() => {
+    if (activeTab === 'analytics' && !analyticsStreamId && latestAnalyticsStreamId) {
+      setAnalyticsStreamId(latestAnalyticsStreamId);
+    }
+  }, [activeTab, analyticsStreamId, latestAnalyticsStreamId]);
+
+  useEffect(() => {
+    if (!analyticsStreamId) return;
+
+    const loadAudience = async () => {
+      try {
+        setIsLoadingAudience(true);
+        const response = await fetch(`/api/streaming/${analyticsStreamId}/metrics`);
+        const data = await response.json();
+
+        if (!response.ok) throw new Error(data.error);
+        setAudience(data.audience);
+      } catch (error) {
+        console.error('Failed to load stream analytics:', error);
+        toast.error('Failed to load stream analytics');
+        setAudience(null);
+      } finally {
+        setIsLoadingAudience(false);
+      }
+    };
+
+    loadAudience();
+  }, [analyticsStreamId]);
+
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
   }, []);
@@ -667,11 +708,40 @@ export default function StreamDashboard() {
         {/* Analytics Tab */}
         {activeTab === 'analytics' && (
           <div className='space-y-6'>
-            <div className='text-center py-12'>
-              <ChartBarIcon className='w-16 h-16 text-gray-600 mx-auto mb-4' />
-              <p className='text-gray-400 text-lg'>Analytics Coming Soon</p>
-              <p className='text-gray-500'>Detailed analytics and insights for your streams</p>
-            </div>
+            {analyticsStreams.length === 0 ? (
+              <div className='text-center py-12'>
+                <ChartBarIcon className='w-16 h-16 text-gray-600 mx-auto mb-4' />
+                <p className='text-gray-400 text-lg'>No stream analytics yet</p>
+                <p className='text-gray-500'>Go live to see how your audience watches</p>
+              </div>
+            ) : (
+              <>
+                <div className='flex items-center justify-between'>
+                  <h2 className='text-xl font-semibold'>Audience</h2>
+                  <select
+                    value={analyticsStreamId}
+                    onChange={e => setAnalyticsStreamId(e.target.value)}
+                    className='px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm'
+                  >
+                    {analyticsStreams.map(stream => (
+                      <option key={stream.id} value={stream.id}>
+                        {stream.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {isLoadingAudience ? (
+                  <div className='h-64 bg-gray-800 rounded-lg animate-pulse' />
+                ) : audience ? (
+                  <StreamAudienceAnalytics audience={audience} />
+                ) : (
+                  <p className='text-gray-400 text-center py-12'>
+                    No audience data for this stream yet
+                  </p>
+                )}
+              </>
+            )}
           </div>
         )}
       </div>
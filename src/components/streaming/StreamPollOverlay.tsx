@@ -0,0 +1,133 @@
+'use client';
+
+/**
+ * Stream Poll Overlay
+ *
+ * Shows the running poll on top of a live stream with live tallies. Fans vote
+ * from here; the streamer gets a close button instead.
+ */
+
+import React, { useState } from 'react';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+import type { PollResults } from '@/lib/stream-polls';
+
+interface StreamPollOverlayProps {
+  poll: PollResults;
+  // Options this viewer has already picked
+  votedIndexes?: number[];
+  onVote?: (optionIndexes: number[]) => void;
+  onClose?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+export default function StreamPollOverlay({
+  poll,
+  votedIndexes = [],
+  onVote,
+  onClose,
+  onDismiss,
+  className,
+}: StreamPollOverlayProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const hasVoted = votedIndexes.length > 0;
+  const canVote = poll.isActive && !!onVote && (poll.allowMultiple || !hasVoted);
+  const showResults = !canVote || hasVoted || !onVote;
+
+  const toggleOption = (index: number) => {
+    if (votedIndexes.includes(index)) return;
+
+    if (poll.allowMultiple) {
+      setSelected(prev =>
+        prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]
+      );
+    } else {
+      setSelected([index]);
+    }
+  };
+
+  const submitVote = () => {
+    if (!onVote || selected.length === 0) return;
+    onVote(selected);
+    setSelected([]);
+  };
+
+  return (
+    <div className={cn('bg-black/80 text-white rounded-lg p-4 w-72', className)}>
+      <div className='flex items-start justify-between gap-2 mb-3'>
+        <div>
+          <p className='text-xs uppercase tracking-wide text-gray-400'>
+            {poll.isActive ? 'Live poll' : 'Poll closed'}
+            {poll.allowMultiple && ' · pick any'}
+          </p>
+          <h4 className='font-semibold'>{poll.question}</h4>
+        </div>
+        {onDismiss && !poll.isActive && (
+          <button onClick={onDismiss} className='text-gray-400 hover:text-white'>
+            <XMarkIcon className='w-4 h-4' />
+          </button>
+        )}
+      </div>
+
+      <div className='space-y-2'>
+        {poll.options.map((option, index) => {
+          const isPicked = votedIndexes.includes(index) || selected.includes(index);
+
+          return (
+            <button
+              key={index}
+              onClick={() => canVote && toggleOption(index)}
+              disabled={!canVote}
+              className={cn(
+                'relative w-full overflow-hidden rounded border text-left text-sm px-3 py-2',
+                isPicked ? 'border-blue-400' : 'border-gray-600',
+                canVote && 'hover:border-gray-400'
+              )}
+            >
+              {showResults && (
+                <div
+                  className='absolute inset-y-0 left-0 bg-blue-600/40 transition-all'
+                  style={{ width: `${option.percentage}%` }}
+                />
+              )}
+              <div className='relative flex items-center justify-between gap-2'>
+                <span className='flex items-center gap-1'>
+                  {votedIndexes.includes(index) && <CheckIcon className='w-4 h-4' />}
+                  {option.text}
+                </span>
+                {showResults && <span className='text-xs'>{option.percentage}%</span>}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className='flex items-center justify-between mt-3 text-xs text-gray-400'>
+        <span>
+          {poll.totalVoters} {poll.totalVoters === 1 ? 'vote' : 'votes'}
+        </span>
+
+        {canVote && (
+          <button
+            onClick={submitVote}
+            disabled={selected.length === 0}
+            className='px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded text-white'
+          >
+            Vote
+          </button>
+        )}
+
+        {onClose && poll.isActive && (
+          <button
+            onClick={onClose}
+            className='px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-white'
+          >
+            End poll
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Tip Alert Overlay
+ *
+ * Browser source for OBS. Connects to the streaming server with the stream's
+ * overlay token, animates an alert for each tip shown on stream and keeps the
+ * tip goal bar up to date.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { io } from 'socket.io-client';
+import { CurrencyDollarIcon } from '@heroicons/react/24/solid';
+import TipGoalProgress from './TipGoalProgress';
+import type { TipAlert, TipGoalProgress as TipGoal } from '@/lib/stream-tip-goals';
+
+const ALERT_DURATION_MS = 6000;
+
+interface TipAlertOverlayProps {
+  overlayToken: string;
+}
+
+export default function TipAlertOverlay({ overlayToken }: TipAlertOverlayProps) {
+  const [alerts, setAlerts] = useState<TipAlert[]>([]);
+  const [tipGoal, setTipGoal] = useState<TipGoal | null>(null);
+  const [connectionError, setConnectionError] = useState(false);
+
+  useEffect(() => {
+    const socket = io(process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001', {
+      auth: { overlayToken },
+      transports: ['websocket', 'polling'],
+    });
+
+    socket.on('connect', () => setConnectionError(false));
+    socket.on('connect_error', () => setConnectionError(true));
+
+    socket.on('overlay_joined', (data: { tipGoal: TipGoal | null }) => setTipGoal(data.tipGoal));
+    socket.on('tip_goal_progress', (goal: TipGoal) => setTipGoal(goal));
+
+    // Tips the fan kept off stream arrive without an alert
+    socket.on('stream_donation', (data: { alert?: TipAlert | null }) => {
+      const alert = data.alert;
+      if (alert) {
+        setAlerts(prev => [...prev, alert]);
+      }
+    });
+
+    return () => {
+      socket.close();
+    };
+  }, [overlayToken]);
+
+  // Play queued alerts one at a time
+  const currentAlert = alerts[0];
+  useEffect(() => {
+    if (!currentAlert) return;
+
+    const timeout = setTimeout(() => setAlerts(prev => prev.slice(1)), ALERT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [currentAlert?.id]);
+
+  return (
+    <div className='fixed inset-0 z-50 pointer-events-none'>
+      {/* OBS captures the whole page, so hide the site chrome and let the scene show through */}
+      <style>
+        {'body { background: transparent !important; } header { display: none !important; }'}
+      </style>
+
+      {currentAlert && (
+        <div
+          key={currentAlert.id}
+          className='absolute top-12 left-1/2 -translate-x-1/2 w-[28rem] max-w-[90vw] animate-fade-in-up'
+        >
+          <div className='bg-black/80 text-white rounded-xl p-5 text-center shadow-2xl border border-green-500/50'>
+            <CurrencyDollarIcon className='w-12 h-12 mx-auto text-green-400 animate-bounce' />
+            <p className='text-xl font-bold mt-2'>
+              {currentAlert.tipperName} tipped ${currentAlert.amount.toFixed(2)}
+            </p>
+            {currentAlert.message && (
+              <p className='text-base text-gray-200 mt-2 break-words'>{currentAlert.message}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {tipGoal && <TipGoalProgress goal={tipGoal} className='absolute bottom-6 left-6 w-80' />}
+
+      {connectionError && (
+        <p className='absolute bottom-2 right-2 text-xs text-red-400'>Overlay disconnected</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { TipGoalProgress as TipGoal } from '@/lib/stream-tip-goals';
+
+interface TipGoalProgressProps {
+  goal: TipGoal;
+  className?: string;
+}
+
+// Progress bar for a stream's tip goal, e.g. "$500 for encore"
+export default function TipGoalProgress({ goal, className }: TipGoalProgressProps) {
+  return (
+    <div className={cn('bg-black/70 text-white rounded-lg p-3', className)}>
+      <div className='flex items-center justify-between text-sm mb-2'>
+        <span className='font-semibold truncate'>{goal.title}</span>
+        <span className='text-xs text-gray-300 ml-2 whitespace-nowrap'>
+          ${goal.raisedAmount.toFixed(2)} / ${goal.goalAmount.toFixed(2)}
+        </span>
+      </div>
+      <div className='h-3 bg-gray-700 rounded-full overflow-hidden'>
+        <div
+          className={cn(
+            'h-full rounded-full transition-all duration-700',
+            goal.reached ? 'bg-yellow-400' : 'bg-green-500'
+          )}
+          style={{ width: `${goal.percentage}%` }}
+        />
+      </div>
+      {goal.reached && <p className='text-xs text-yellow-300 mt-1'>Goal reached!</p>}
+    </div>
+  );
+}
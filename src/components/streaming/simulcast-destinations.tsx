@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  EnhancedCard,
+  EnhancedCardHeader,
+  EnhancedCardContent,
+  EnhancedCardTitle,
+} from '@/components/ui/enhanced-card';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { Input } from '@/components/ui/input';
+import { Plus, Radio, Square, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { RtmpDestinationView, SimulcastStatus } from '@/lib/rtmp-simulcast';
+
+interface SimulcastDestinationsProps {
+  streamId: string;
+  className?: string;
+}
+
+// Relay health is refreshed while the panel is open
+const STATUS_POLL_INTERVAL = 10000;
+
+const statusStyles: Record<SimulcastStatus, string> = {
+  IDLE: 'bg-gray-100 text-gray-600',
+  CONNECTING: 'bg-yellow-100 text-yellow-700',
+  LIVE: 'bg-green-100 text-green-700',
+  ERROR: 'bg-red-100 text-red-700',
+};
+
+const emptyForm = { name: '', ingestUrl: '', streamKey: '' };
+
+export function SimulcastDestinations({ streamId, className }: SimulcastDestinationsProps) {
+  const [destinations, setDestinations] = useState<RtmpDestinationView[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDestinations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/streaming/rtmp/destinations');
+      if (!response.ok) throw new Error('Failed to load destinations');
+
+      const { data } = await response.json();
+      setDestinations(data);
+    } catch (error) {
+      console.error('Failed to load simulcast destinations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDestinations();
+    const interval = setInterval(loadDestinations, STATUS_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [loadDestinations]);
+
+  const request = async (id: string | null, url: string, init: RequestInit) => {
+    setPendingId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || 'Something went wrong');
+        return false;
+      }
+
+      await loadDestinations();
+      return true;
+    } catch (error) {
+      console.error('Simulcast request failed:', error);
+      setError('Something went wrong');
+      return false;
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const saved = await request('new', '/api/streaming/rtmp/destinations', {
+      method: 'POST',
+      body: JSON.stringify(form),
+    });
+
+    if (saved) {
+      setForm(emptyForm);
+      setShowForm(false);
+    }
+  };
+
+  const handleToggle = (destination: RtmpDestinationView) => {
+    const isRelaying = destination.status !== 'IDLE' && destination.streamId === streamId;
+
+    return request(destination.id, `/api/streaming/rtmp/destinations/${destination.id}/simulcast`, {
+      method: isRelaying ? 'DELETE' : 'POST',
+      body: isRelaying ? undefined : JSON.stringify({ streamId }),
+    });
+  };
+
+  const handleDelete = (destination: RtmpDestinationView) => {
+    if (!confirm(`Remove ${destination.name}?`)) return;
+
+    return request(destination.id, `/api/streaming/rtmp/destinations/${destination.id}`, {
+      method: 'DELETE',
+    });
+  };
+
+  return (
+    <EnhancedCard variant='elevated' className={className}>
+      <EnhancedCardHeader
+        actions={
+          <EnhancedButton variant='ghost' size='sm' onClick={() => setShowForm(!showForm)}>
+            <Plus className='w-4 h-4 mr-1' />
+            Add
+          </EnhancedButton>
+        }
+      >
+        <EnhancedCardTitle className='flex items-center gap-2'>
+          <Radio className='w-5 h-5' />
+          Simulcast
+        </EnhancedCardTitle>
+      </EnhancedCardHeader>
+      <EnhancedCardContent className='space-y-3'>
+        {showForm && (
+          <form onSubmit={handleAdd} className='space-y-2 rounded-lg border border-gray-200 p-3'>
+            <Input
+              placeholder='Name (e.g. YouTube)'
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              required
+            />
+            <Input
+              placeholder='rtmp://a.rtmp.youtube.com/live2'
+              value={form.ingestUrl}
+              onChange={e => setForm({ ...form, ingestUrl: e.target.value })}
+              required
+            />
+            <Input
+              type='password'
+              placeholder='Stream key'
+              autoComplete='off'
+              value={form.streamKey}
+              onChange={e => setForm({ ...form, streamKey: e.target.value })}
+              required
+            />
+            <EnhancedButton type='submit' size='sm' disabled={pendingId === 'new'}>
+              Save destination
+            </EnhancedButton>
+          </form>
+        )}
+
+        {error && <p className='text-sm text-red-600'>{error}</p>}
+
+        {destinations.length === 0 && !showForm ? (
+          <p className='text-sm text-gray-600'>
+            Add an RTMP destination to restream this broadcast to other platforms.
+          </p>
+        ) : (
+          <ul className='divide-y divide-gray-200'>
+            {destinations.map(destination => {
+              const isRelaying = destination.status !== 'IDLE' && destination.streamId === streamId;
+              const isBusy = destination.status !== 'IDLE' && destination.streamId !== streamId;
+
+              return (
+                <li key={destination.id} className='flex items-center gap-3 py-3'>
+                  <div className='flex-1 min-w-0'>
+                    <div className='flex items-center gap-2'>
+                      <span className='font-medium text-gray-900 truncate'>{destination.name}</span>
+                      <span
+                        className={cn(
+                          'px-2 py-0.5 text-xs rounded-full font-medium',
+                          statusStyles[destination.status]
+                        )}
+                      >
+                        {destination.status}
+                      </span>
+                    </div>
+                    <p className='text-xs text-gray-500 truncate'>
+                      {destination.ingestUrl} · {destination.streamKeyHint}
+                    </p>
+                    {destination.status === 'ERROR' && destination.lastError && (
+                      <p className='text-xs text-red-600 truncate' title={destination.lastError}>
+                        {destination.lastError}
+                      </p>
+                    )}
+                  </div>
+                  <EnhancedButton
+                    variant={isRelaying ? 'destructive' : 'secondary'}
+                    size='sm'
+                    onClick={() => handleToggle(destination)}
+                    disabled={pendingId === destination.id || isBusy}
+                  >
+                    {isRelaying ? (
+                      <Square className='w-4 h-4 mr-1' />
+                    ) : (
+                      <Radio className='w-4 h-4 mr-1' />
+                    )}
+                    {isRelaying ? 'Stop' : 'Go live'}
+                  </EnhancedButton>
+                  <EnhancedButton
+                    variant='ghost'
+                    size='sm'
+                    onClick={() => handleDelete(destination)}
+                    disabled={pendingId === destination.id}
+                  >
+                    <Trash2 className='w-4 h-4' />
+                  </EnhancedButton>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </EnhancedCardContent>
+    </EnhancedCard>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { EnhancedCard, EnhancedCardHeader, EnhancedCardContent, EnhancedCardTitle } from '@/components/ui/enhanced-card';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { SimulcastDestinations } from './simulcast-destinations';
 import { useStreaming } from '@/contexts/streaming-context';
 import {
   Video,
@@ -273,6 +274,9 @@ export function StreamControlPanel({ className }: StreamControlPanelProps) {
         </EnhancedCardContent>
       </EnhancedCard>
 
+      {/* Simulcast to other platforms */}
+      {currentStream && <SimulcastDestinations streamId={currentStream.id} />}
+
       {/* Stream Stats */}
       {analytics && (
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
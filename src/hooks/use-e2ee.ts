@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import {
+  decryptText,
+  deriveConversationKey,
+  encryptText,
+  exportPrivateKey,
+  exportPublicKey,
+  generateKeyPair,
+  importPrivateKey,
+  importPublicKey,
+} from '@/lib/e2ee-crypto';
+import type { Message, MessageEncryption } from '@/types/websocket';
+
+interface ConversationEncryption {
+  enabled: boolean;
+  myKeyId: string | null;
+  theirKeyId: string | null;
+}
+
+// Private keys stay on this device, kept by key id so messages sealed with a
+// rotated-out key can still be read
+interface StoredKeys {
+  currentKeyId: string | null;
+  privateKeys: Record<string, JsonWebKey>;
+}
+
+const storageKey = (userId: string) => `e2ee-keys:${userId}`;
+
+function loadKeys(userId: string): StoredKeys {
+  try {
+    const item = window.localStorage.getItem(storageKey(userId));
+    return item ? JSON.parse(item) : { currentKeyId: null, privateKeys: {} };
+  } catch {
+    return { currentKeyId: null, privateKeys: {} };
+  }
+}
+
+function saveKeys(userId: string, keys: StoredKeys) {
+  window.localStorage.setItem(storageKey(userId), JSON.stringify(keys));
+}
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+
+  return data.data;
+}
+
+/**
+ * End-to-end encryption for a 1:1 conversation: key setup and rotation,
+ * turning encryption on or off, and sealing/opening message content
+ */
+export function useE2EE(otherUserId: string) {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const [status, setStatus] = useState<ConversationEncryption | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const publicKeys = useRef(new Map<string, CryptoKey>());
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      const data = await requestJson(
+        `/api/messages/encryption?conversationWith=${encodeURIComponent(otherUserId)}`
+      );
+      setStatus(data);
+      return data as ConversationEncryption;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load encryption settings');
+      return null;
+    }
+  }, [otherUserId]);
+
+  useEffect(() => {
+    if (userId && otherUserId) {
+      refreshStatus();
+    }
+  }, [userId, otherUserId, refreshStatus]);
+
+  const getPublicKey = useCallback(async (ownerId: string, keyId: string) => {
+    const cacheKey = `${ownerId}:${keyId}`;
+    const cached = publicKeys.current.get(cacheKey);
+    if (cached) return cached;
+
+    const data = await requestJson(
+      `/api/messages/keys?userId=${encodeURIComponent(ownerId)}&keyId=${encodeURIComponent(keyId)}`
+    );
+    const key = await importPublicKey(data.publicKey);
+    publicKeys.current.set(cacheKey, key);
+    return key;
+  }, []);
+
+  /**
+   * Create a new key pair for this device and make it the user's current key.
+   * Also used to rotate keys; old private keys are kept for old messages.
+   */
+  const rotateKeys = useCallback(async () => {
+    if (!userId) throw new Error('Not signed in');
+
+    const keyPair = await generateKeyPair();
+    const data = await requestJson('/api/messages/keys', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ publicKey: await exportPublicKey(keyPair.publicKey) }),
+    });
+
+    const keys = loadKeys(userId);
+    saveKeys(userId, {
+      currentKeyId: data.keyId,
+      privateKeys: {
+        ...keys.privateKeys,
+        [data.keyId]: await exportPrivateKey(keyPair.privateKey),
+      },
+    });
+
+    await refreshStatus();
+    return data.keyId as string;
+  }, [userId, refreshStatus]);
+
+  const setEnabled = useCallback(
+    async (enabled: boolean) => {
+      if (!userId) return;
+      setError(null);
+
+      try {
+        // This device needs the private half of the key the server has on file
+        const keys = loadKeys(userId);
+        if (enabled && (!status?.myKeyId || !keys.privateKeys[status.myKeyId])) {
+          await rotateKeys();
+        }
+
+        const data = await requestJson('/api/messages/encryption', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ conversationWith: otherUserId, enabled }),
+        });
+        setStatus(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update encryption');
+      }
+    },
+    [userId, otherUserId, status, rotateKeys]
+  );
+
+  const encrypt = useCallback(
+    async (plaintext: string): Promise<{ content: string; encryption: MessageEncryption }> => {
+      if (!userId) throw new Error('Not signed in');
+
+      // Pick up any key the other side rotated in since we last looked
+      const current = (await refreshStatus()) || status;
+      const keys = loadKeys(userId);
+      const privateJwk = current?.myKeyId ? keys.privateKeys[current.myKeyId] : undefined;
+
+      if (!current?.myKeyId || !current.theirKeyId || !privateJwk) {
+        throw new Error('Encryption keys are not set up on this device');
+      }
+
+      const conversationKey = await deriveConversationKey(
+        await importPrivateKey(privateJwk),
+        await getPublicKey(otherUserId, current.theirKeyId)
+      );
+      const { ciphertext, iv } = await encryptText(conversationKey, plaintext);
+
+      return {
+        content: ciphertext,
+        encryption: { iv, senderKeyId: current.myKeyId, recipientKeyId: current.theirKeyId },
+      };
+    },
+    [userId, otherUserId, status, refreshStatus, getPublicKey]
+  );
+
+  /**
+   * Plaintext of an encrypted message, or null if this device can't open it
+   */
+  const decrypt = useCallback(
+    async (message: Message): Promise<string | null> => {
+      if (!userId || !message.encryptionIv || !message.senderKeyId || !message.recipientKeyId) {
+        return null;
+      }
+
+      const isMine = message.senderId === userId;
+      const myKeyId = isMine ? message.senderKeyId : message.recipientKeyId;
+      const theirKeyId = isMine ? message.recipientKeyId : message.senderKeyId;
+      const privateJwk = loadKeys(userId).privateKeys[myKeyId];
+
+      if (!privateJwk) return null;
+
+      try {
+        const conversationKey = await deriveConversationKey(
+          await importPrivateKey(privateJwk),
+          await getPublicKey(isMine ? message.recipientId : message.senderId, theirKeyId)
+        );
+        return await decryptText(conversationKey, message.content, message.encryptionIv);
+      } catch {
+        return null;
+      }
+    },
+    [userId, getPublicKey]
+  );
+
+  return {
+    enabled: !!status?.enabled,
+    status,
+    error,
+    setEnabled,
+    rotateKeys,
+    encrypt,
+    decrypt,
+  };
+}
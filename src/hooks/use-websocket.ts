@@ -7,6 +7,7 @@ import {
   type ServerToClientEvents,
   type ClientToServerEvents,
   type Message,
+  type MessageEncryption,
   type User,
 } from '@/types/websocket';
 
@@ -33,7 +34,8 @@ interface UseWebSocketReturn {
     recipientId: string,
     content: string,
     type?: 'TEXT' | 'IMAGE' | 'AUDIO',
-    attachmentUrl?: string
+    attachmentUrl?: string,
+    encryption?: MessageEncryption
   ) => void;
   markMessageAsRead: (messageId: string) => void;
 
@@ -259,7 +261,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
       recipientId: string,
       content: string,
       type?: 'TEXT' | 'IMAGE' | 'AUDIO',
-      attachmentUrl?: string
+      attachmentUrl?: string,
+      encryption?: MessageEncryption
     ) => {
       if (!socketRef.current?.connected) {
         setError('Not connected to server');
@@ -271,6 +274,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
         content,
         type,
         attachmentUrl,
+        encryption,
       });
     },
     []
@@ -0,0 +1,180 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    auto_reply_rules: {
+      findMany: jest.fn(),
+    },
+    auto_replies: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    messages: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/encrypted-messages', () => ({
+  isConversationEncrypted: jest.fn(),
+}));
+
+jest.mock('@/lib/messaging/chat-rooms', () => ({
+  getOrCreateDirectRoom: jest.fn(),
+  touchRoom: jest.fn(),
+}));
+
+jest.mock('@/lib/saved-replies', () => ({
+  ...jest.requireActual('@/lib/saved-replies'),
+  getReplyTemplateContext: jest.fn(),
+}));
+
+import {
+  autoReplyRuleSchema,
+  AutoReplyRuleView,
+  matchesKeyword,
+  pickAutoReplyRule,
+  respondToDirectMessage,
+  sendWelcomeMessage,
+} from '../auto-responder';
+import { isConversationEncrypted } from '@/lib/encrypted-messages';
+import { getOrCreateDirectRoom } from '@/lib/messaging/chat-rooms';
+import { getReplyTemplateContext } from '@/lib/saved-replies';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Auto Responder', () => {
+  const now = new Date('2026-06-15T12:00:00Z');
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+  const rule = (overrides: Partial<AutoReplyRuleView>): AutoReplyRuleView => ({
+    id: 'rule-1',
+    artistId: 'artist-1',
+    trigger: 'AWAY',
+    content: 'Back soon, {{name}}!',
+    keywords: [],
+    isActive: true,
+    startsAt: null,
+    endsAt: null,
+    cooldownHours: 24,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  const storedRule = (overrides: Partial<AutoReplyRuleView>) => {
+    const view = rule(overrides);
+    return { ...view, keywords: JSON.stringify(view.keywords) };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.auto_replies.findFirst as jest.Mock).mockResolvedValue(null);
+    (isConversationEncrypted as jest.Mock).mockResolvedValue(false);
+    (getOrCreateDirectRoom as jest.Mock).mockResolvedValue('room-1');
+    (getReplyTemplateContext as jest.Mock).mockResolvedValue({
+      name: 'Sam',
+      tier: 'Gold',
+      months: 3,
+    });
+    (mockPrisma.messages.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve(data)
+    );
+  });
+
+  describe('autoReplyRuleSchema', () => {
+    it('should need keywords for keyword replies', () => {
+      expect(autoReplyRuleSchema.safeParse({ trigger: 'KEYWORD', content: 'Hi' }).success).toBe(
+        false
+      );
+      expect(
+        autoReplyRuleSchema.safeParse({ trigger: 'KEYWORD', content: 'Hi', keywords: ['merch'] })
+          .success
+      ).toBe(true);
+    });
+  });
+
+  describe('matchesKeyword', () => {
+    it('should match whole words and phrases regardless of case', () => {
+      expect(matchesKeyword('Where can I buy MERCH?', ['merch'])).toBe(true);
+      expect(matchesKeyword('When is the next tour date', ['tour date'])).toBe(true);
+      expect(matchesKeyword('Merchandise looks great', ['merch'])).toBe(false);
+    });
+  });
+
+  describe('pickAutoReplyRule', () => {
+    const away = rule({ id: 'away', trigger: 'AWAY' });
+    const keyword = rule({ id: 'merch', trigger: 'KEYWORD', keywords: ['merch'] });
+
+    it('should prefer a matching keyword reply over the away message', () => {
+      expect(pickAutoReplyRule([away, keyword], 'Any merch left?', now)?.id).toBe('merch');
+      expect(pickAutoReplyRule([away, keyword], 'Hello!', now)?.id).toBe('away');
+    });
+
+    it('should skip rules outside their schedule', () => {
+      const finished = rule({ id: 'away', endsAt: hoursAgo(1) });
+      const upcoming = rule({ id: 'later', startsAt: new Date('2026-07-01T00:00:00Z') });
+
+      expect(pickAutoReplyRule([finished, upcoming], 'Hello!', now)).toBeNull();
+    });
+  });
+
+  describe('respondToDirectMessage', () => {
+    it("should reply as the artist with the fan's details filled in", async () => {
+      (mockPrisma.auto_reply_rules.findMany as jest.Mock).mockResolvedValue([storedRule({})]);
+
+      const reply = await respondToDirectMessage('fan-1', 'artist-1', 'Hello!', now);
+
+      expect(reply).toMatchObject({
+        senderId: 'artist-1',
+        recipientId: 'fan-1',
+        roomId: 'room-1',
+        content: 'Back soon, Sam!',
+      });
+      expect(mockPrisma.auto_replies.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ruleId: 'rule-1', fanId: 'fan-1' }),
+      });
+    });
+
+    it('should not answer the same fan again within the cooldown', async () => {
+      (mockPrisma.auto_reply_rules.findMany as jest.Mock).mockResolvedValue([storedRule({})]);
+      (mockPrisma.auto_replies.findFirst as jest.Mock).mockResolvedValue({ id: 'earlier' });
+
+      await expect(respondToDirectMessage('fan-1', 'artist-1', 'Hello?', now)).resolves.toBeNull();
+      expect(mockPrisma.auto_replies.findFirst).toHaveBeenCalledWith({
+        where: { ruleId: 'rule-1', fanId: 'fan-1', createdAt: { gte: hoursAgo(24) } },
+        select: { id: true },
+      });
+      expect(mockPrisma.messages.create).not.toHaveBeenCalled();
+    });
+
+    it('should stay out of encrypted conversations', async () => {
+      (mockPrisma.auto_reply_rules.findMany as jest.Mock).mockResolvedValue([storedRule({})]);
+      (isConversationEncrypted as jest.Mock).mockResolvedValue(true);
+
+      await expect(
+        respondToDirectMessage('fan-1', 'artist-1', 'c2VjcmV0', now)
+      ).resolves.toBeNull();
+      expect(mockPrisma.messages.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendWelcomeMessage', () => {
+    it('should do nothing when the artist has no welcome message', async () => {
+      (mockPrisma.auto_reply_rules.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(sendWelcomeMessage('artist-1', 'fan-1', now)).resolves.toBeNull();
+      expect(mockPrisma.messages.create).not.toHaveBeenCalled();
+    });
+
+    it('should welcome the new subscriber', async () => {
+      (mockPrisma.auto_reply_rules.findMany as jest.Mock).mockResolvedValue([
+        storedRule({ trigger: 'WELCOME', content: 'Welcome to {{tier}}, {{name}}!' }),
+      ]);
+
+      await expect(sendWelcomeMessage('artist-1', 'fan-1', now)).resolves.toMatchObject({
+        content: 'Welcome to Gold, Sam!',
+      });
+    });
+  });
+});
@@ -7,11 +7,24 @@ jest.mock('@/lib/prisma', () => ({
       count: jest.fn(),
       aggregate: jest.fn(),
     },
+    subscriptions: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    tiers: {
+      update: jest.fn(),
+    },
+    artists: {
+      update: jest.fn(),
+    },
     paymentFailure: {
       findMany: jest.fn(),
       update: jest.fn(),
       count: jest.fn(),
     },
+    payment_failures: {
+      findMany: jest.fn(),
+    },
     $queryRaw: jest.fn().mockResolvedValue([]),
     $executeRaw: jest.fn().mockResolvedValue(1),
   },
@@ -34,21 +47,35 @@ jest.mock('@/lib/notifications', () => ({
   sendEmail: jest.fn(),
 }));
 
+jest.mock('@/lib/payment-retry', () => ({
+  createPaymentFailure: jest.fn(),
+  retryPayment: jest.fn(),
+}));
+
+jest.mock('@/lib/subscription-pause', () => ({
+  getNextBillingDate: jest.fn(),
+  resumeSubscription: jest.fn(),
+}));
+
 import {
   getUpcomingInvoices,
   processBillingRenewals,
   processFailedPaymentRetries,
+  processPausedSubscriptionResumes,
   sendBillingReminders,
   getBillingCycleStats,
 } from '../billing-cycle';
 import { prisma } from '@/lib/prisma';
 import { stripe } from '@/lib/stripe';
 import { sendEmail } from '@/lib/notifications';
+import { retryPayment } from '@/lib/payment-retry';
+import { resumeSubscription } from '@/lib/subscription-pause';
 import { Decimal } from '@prisma/client/runtime/library';
 
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
 const mockStripe = stripe as jest.Mocked<typeof stripe>;
 const mockSendEmail = sendEmail as jest.MockedFunction<typeof sendEmail>;
+const mockRetryPayment = retryPayment as jest.MockedFunction<typeof retryPayment>;
 
 describe('Billing Cycle Functions', () => {
   beforeEach(() => {
@@ -58,6 +85,9 @@ describe('Billing Cycle Functions', () => {
 
   afterEach(() => {
     delete process.env.NEXT_PUBLIC_APP_URL;
+    // A failing test must not leave its Date spy or fake clock behind
+    jest.restoreAllMocks();
+    jest.useRealTimers();
   });
 
   describe('getUpcomingInvoices', () => {
@@ -263,149 +293,200 @@ describe('Billing Cycle Functions', () => {
     });
   });
 
-  describe('processFailedPaymentRetries', () => {
-    it('should mark resolved failures as resolved', async () => {
-      jest.useFakeTimers();
-      jest.setSystemTime(new Date('2022-01-31T12:00:00Z'));
+  describe('processBillingRenewals with gifted subscriptions', () => {
+    const expiredGift = {
+      id: 'gift-sub1',
+      tierId: 'tier1',
+      artistId: 'artist1',
+      stripeSubscriptionId: 'gift_gift1',
+      autoRenew: false,
+      currentPeriodEnd: new Date('2022-01-31T00:00:00Z'),
+      users: {
+        email: 'fan1@example.com',
+        notificationPreferences: null,
+      },
+      tiers: {
+        name: 'Premium',
+        users: { displayName: 'Test Artist' },
+      },
+    };
+
+    it('should only renew subscriptions that auto-renew', async () => {
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([]);
 
-      const mockFailures = [
-        {
-          id: 'failure1',
-          subscriptionId: 'sub1',
-          stripeInvoiceId: 'in_test123',
-          amount: new Decimal(10.0),
-          attemptCount: 2,
-          fanEmail: 'fan@example.com',
-          tierName: 'Premium',
-          artistDisplayName: 'Test Artist',
-        },
-      ];
+      await processBillingRenewals();
 
-      const mockInvoice = {
-        status: 'paid',
-        attempt_count: 2,
-      };
+      expect(mockPrisma.subscriptions.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: 'ACTIVE', autoRenew: true }),
+        })
+      );
+    });
 
-      // Mock $queryRaw to return failures
-      mockPrisma.$queryRaw.mockResolvedValue(mockFailures as any);
-      mockStripe.invoices.retrieve.mockResolvedValue(mockInvoice as any);
-      mockPrisma.$executeRaw.mockResolvedValue(1);
-      mockPrisma.subscription.update.mockResolvedValue({} as any);
+    it('should expire gifted subscriptions without contacting Stripe', async () => {
+      (mockPrisma.subscriptions.findMany as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([expiredGift]);
+      (mockPrisma.subscriptions.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
 
-      const result = await processFailedPaymentRetries();
+      const result = await processBillingRenewals();
 
       expect(result).toHaveLength(1);
-      expect(result[0].type).toBe('retry');
-      expect(result[0].metadata?.resolved).toBe(true);
+      expect(result[0].type).toBe('expiration');
+      expect(result[0].subscriptionId).toBe('gift-sub1');
+      expect(mockStripe.subscriptions.retrieve).not.toHaveBeenCalled();
+      expect(mockPrisma.subscriptions.updateMany).toHaveBeenCalledWith({
+        where: { id: 'gift-sub1', status: 'ACTIVE', autoRenew: false },
+        data: expect.objectContaining({ status: 'CANCELED' }),
+      });
+      expect(mockPrisma.tiers.update).toHaveBeenCalledWith({
+        where: { id: 'tier1' },
+        data: { subscriberCount: { decrement: 1 } },
+      });
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'fan1@example.com',
+          subject: 'Your gift subscription to Test Artist has ended',
+        })
+      );
+    });
 
-      // The $executeRaw is called with template literals
-      expect(mockPrisma.$executeRaw).toHaveBeenCalled();
-      const sqlTemplate = mockPrisma.$executeRaw.mock.calls[0][0];
-      expect(sqlTemplate.join('')).toContain('UPDATE "payment_failures"');
-      expect(mockPrisma.$executeRaw.mock.calls[0][2]).toBe('failure1');
+    it('should skip gifts another run already expired', async () => {
+      (mockPrisma.subscriptions.findMany as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([expiredGift]);
+      (mockPrisma.subscriptions.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
 
-      expect(mockPrisma.subscription.update).toHaveBeenCalledWith({
-        where: { id: 'sub1' },
-        data: { status: 'ACTIVE' },
-      });
+      const result = await processBillingRenewals();
 
-      jest.useRealTimers();
+      expect(result).toHaveLength(0);
+      expect(mockPrisma.tiers.update).not.toHaveBeenCalled();
+      expect(mockSendEmail).not.toHaveBeenCalled();
     });
+  });
+
+  describe('processFailedPaymentRetries', () => {
+    const mockFailures = [
+      {
+        id: 'failure1',
+        subscriptionId: 'sub1',
+        amount: new Decimal(10.0),
+      },
+    ];
 
-    it('should cancel subscription after max attempts', async () => {
+    it('should only retry failures that are due', async () => {
       jest.useFakeTimers();
-      jest.setSystemTime(new Date('2022-01-31T12:00:00Z'));
+      const now = new Date('2022-01-31T12:00:00Z');
+      jest.setSystemTime(now);
 
-      const mockFailures = [
-        {
-          id: 'failure1',
-          subscriptionId: 'sub1',
-          stripeSubscriptionId: 'stripe_sub1',
-          stripeInvoiceId: 'in_test123',
-          amount: new Decimal(10.0),
-          attemptCount: 3,
-          artistId: 'artist1',
-          fanEmail: 'fan@example.com',
-          tierName: 'Premium',
-          artistDisplayName: 'Test Artist',
+      (mockPrisma.payment_failures.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await processFailedPaymentRetries();
+
+      expect(result).toHaveLength(0);
+      expect(mockPrisma.payment_failures.findMany).toHaveBeenCalledWith({
+        where: {
+          isResolved: false,
+          nextRetryAt: { lte: now },
         },
-      ];
+        select: {
+          id: true,
+          subscriptionId: true,
+          amount: true,
+        },
+      });
+      expect(mockRetryPayment).not.toHaveBeenCalled();
 
-      const mockInvoice = {
-        status: 'open',
-        attempt_count: 3,
-      };
+      jest.useRealTimers();
+    });
 
-      // Mock $queryRaw to return failures
-      mockPrisma.$queryRaw.mockResolvedValue(mockFailures as any);
-      mockStripe.invoices.retrieve.mockResolvedValue(mockInvoice as any);
-      mockStripe.subscriptions.cancel.mockResolvedValue({} as any);
-      mockPrisma.subscription.update.mockResolvedValue({} as any);
-      mockSendEmail.mockResolvedValue(undefined);
+    it('should report recovered payments as resolved retries', async () => {
+      (mockPrisma.payment_failures.findMany as jest.Mock).mockResolvedValue(mockFailures);
+      mockRetryPayment.mockResolvedValue({ success: true, resolved: true, attemptCount: 2 });
+
+      const result = await processFailedPaymentRetries();
+
+      expect(mockRetryPayment).toHaveBeenCalledWith('failure1');
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe('retry');
+      expect(result[0].amount).toBe(10);
+      expect(result[0].metadata?.resolved).toBe(true);
+    });
+
+    it('should report a cancellation once dunning gives up', async () => {
+      (mockPrisma.payment_failures.findMany as jest.Mock).mockResolvedValue(mockFailures);
+      mockRetryPayment.mockResolvedValue({ success: false, resolved: true, attemptCount: 4 });
 
       const result = await processFailedPaymentRetries();
 
       expect(result).toHaveLength(1);
       expect(result[0].type).toBe('cancellation');
       expect(result[0].metadata?.reason).toBe('payment_failure');
+      expect(result[0].metadata?.attemptCount).toBe(4);
+    });
 
-      expect(mockStripe.subscriptions.cancel).toHaveBeenCalledWith('stripe_sub1');
-      expect(mockPrisma.subscription.update).toHaveBeenCalledWith({
-        where: { id: 'sub1' },
-        data: { status: 'CANCELED' },
+    it('should pass along the next retry for ongoing failures', async () => {
+      const nextRetry = new Date('2022-02-03T12:00:00Z');
+      (mockPrisma.payment_failures.findMany as jest.Mock).mockResolvedValue(mockFailures);
+      mockRetryPayment.mockResolvedValue({
+        success: false,
+        resolved: false,
+        attemptCount: 2,
+        nextRetryAt: nextRetry,
       });
 
-      expect(mockSendEmail).toHaveBeenCalledWith({
-        to: 'fan@example.com',
-        subject: 'Subscription Canceled - Payment Failed',
-        html: expect.stringContaining('Subscription Canceled'),
-        text: expect.stringContaining('Subscription Canceled'),
-      });
+      const result = await processFailedPaymentRetries();
 
-      jest.useRealTimers();
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe('retry');
+      expect(result[0].metadata?.resolved).toBe(false);
+      expect(result[0].metadata?.nextRetryAt).toBe(nextRetry);
+    });
+
+    it('should keep going when a single retry errors', async () => {
+      (mockPrisma.payment_failures.findMany as jest.Mock).mockResolvedValue([
+        mockFailures[0],
+        { id: 'failure2', subscriptionId: 'sub2', amount: new Decimal(5.0) },
+      ]);
+      mockRetryPayment
+        .mockRejectedValueOnce(new Error('Failed to retry payment'))
+        .mockResolvedValueOnce({ success: true, resolved: true, attemptCount: 2 });
+
+      const result = await processFailedPaymentRetries();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].subscriptionId).toBe('sub2');
     });
+  });
 
-    it('should update retry information for ongoing failures', async () => {
+  describe('processPausedSubscriptionResumes', () => {
+    it('should resume subscriptions whose pause has ended', async () => {
       jest.useFakeTimers();
-      const now = new Date('2022-01-31T12:00:00Z');
-      const nextRetry = new Date('2022-02-01T12:00:00Z');
+      const now = new Date('2022-03-01T12:00:00Z');
       jest.setSystemTime(now);
 
-      const mockFailures = [
-        {
-          id: 'failure1',
-          subscriptionId: 'sub1',
-          stripeInvoiceId: 'in_test123',
-          amount: new Decimal(10.0),
-          attemptCount: 1,
-          fanEmail: 'fan@example.com',
-          tierName: 'Premium',
-          artistDisplayName: 'Test Artist',
-        },
-      ];
-
-      const mockInvoice = {
-        status: 'open',
-        attempt_count: 2,
-        next_payment_attempt: Math.floor(nextRetry.getTime() / 1000),
+      const mockSubscription = {
+        id: 'sub1',
+        stripeSubscriptionId: 'stripe_sub1',
+        amount: new Decimal(10.0),
+        pauseResumesAt: new Date('2022-03-01T00:00:00Z'),
       };
+      mockPrisma.subscriptions.findMany.mockResolvedValue([mockSubscription] as any);
 
-      // Mock $queryRaw to return failures
-      mockPrisma.$queryRaw.mockResolvedValue(mockFailures as any);
-      mockStripe.invoices.retrieve.mockResolvedValue(mockInvoice as any);
-      mockPrisma.$executeRaw.mockResolvedValue(1);
-
-      const result = await processFailedPaymentRetries();
+      const result = await processPausedSubscriptionResumes();
 
+      expect(mockPrisma.subscriptions.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: 'PAUSED',
+            pauseResumesAt: { lte: now },
+          },
+        })
+      );
+      expect(resumeSubscription).toHaveBeenCalledWith(mockSubscription);
       expect(result).toHaveLength(1);
-      expect(result[0].type).toBe('retry');
-      expect(result[0].metadata?.resolved).toBe(false);
-
-      // The $executeRaw is called with template literals
-      expect(mockPrisma.$executeRaw).toHaveBeenCalled();
-      const sqlTemplate = mockPrisma.$executeRaw.mock.calls[0][0];
-      expect(sqlTemplate.join('')).toContain('UPDATE "payment_failures"');
-      expect(mockPrisma.$executeRaw.mock.calls[0][4]).toBe('failure1');
+      expect(result[0].type).toBe('resume');
+      expect(result[0].amount).toBe(10);
 
       jest.useRealTimers();
     });
@@ -185,6 +185,31 @@ describe('Billing Functions', () => {
 
       jest.useRealTimers();
     });
+
+    it('should push the next billing date past a pause', async () => {
+      const mockSubscription = {
+        id: 'sub123',
+        stripeSubscriptionId: 'stripe_sub123',
+      };
+
+      const mockStripeSubscription = {
+        current_period_start: 1640995200, // Jan 1, 2022
+        current_period_end: 1643673600, // Feb 1, 2022
+        pause_collection: {
+          behavior: 'void',
+          resumes_at: 1646870400, // Mar 10, 2022
+        },
+      };
+
+      mockPrisma.subscriptions.findUnique.mockResolvedValue(mockSubscription as any);
+      mockStripe.subscriptions.retrieve.mockResolvedValue(mockStripeSubscription as any);
+
+      const result = await getBillingCycleInfo('sub123');
+
+      expect(result.isPaused).toBe(true);
+      expect(result.pauseResumesAt).toEqual(new Date(1646870400 * 1000));
+      expect(result.nextBillingDate).toEqual(new Date('2022-04-01T00:00:00Z'));
+    });
   });
 
   describe('upgradeSubscription', () => {
@@ -0,0 +1,234 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    bundle_subscriptions: {
+      findUnique: jest.fn(),
+    },
+    bundle_revenue_splits: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    artists: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/payout-ledger', () => ({
+  PLATFORM_FEE_RATE: 0.05,
+  recordLedgerEntry: jest.fn(),
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  createBundleProductAndPrice: jest.fn(),
+  createArtistTransfer: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import {
+  createBundleSchema,
+  resolveRevenueShares,
+  calculateBundleRevenueSplits,
+  recordBundleRevenue,
+} from '../bundles';
+import { prisma } from '@/lib/prisma';
+import { createArtistTransfer } from '@/lib/stripe';
+import { recordLedgerEntry } from '@/lib/payout-ledger';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockCreateArtistTransfer = createArtistTransfer as jest.MockedFunction<
+  typeof createArtistTransfer
+>;
+const mockRecordLedgerEntry = recordLedgerEntry as jest.MockedFunction<typeof recordLedgerEntry>;
+
+describe('Bundles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createBundleSchema', () => {
+    const base = { name: 'Indie Pack', description: 'Three indie artists', price: 20 };
+
+    it('should require revenue shares to add up to 100', () => {
+      const result = createBundleSchema.safeParse({
+        ...base,
+        tiers: [
+          { tierId: 'tier-1', revenueShare: 50 },
+          { tierId: 'tier-2', revenueShare: 30 },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should allow shares to be omitted for every tier', () => {
+      const result = createBundleSchema.safeParse({
+        ...base,
+        tiers: [{ tierId: 'tier-1' }, { tierId: 'tier-2' }],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject duplicate tiers', () => {
+      const result = createBundleSchema.safeParse({
+        ...base,
+        tiers: [{ tierId: 'tier-1' }, { tierId: 'tier-1' }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('resolveRevenueShares', () => {
+    it('should default to a split proportional to tier minimum prices', () => {
+      const shares = resolveRevenueShares([
+        { tierId: 'tier-1', minimumPrice: 5 },
+        { tierId: 'tier-2', minimumPrice: 15 },
+      ]);
+
+      expect(shares).toEqual([
+        { tierId: 'tier-1', revenueShare: 25 },
+        { tierId: 'tier-2', revenueShare: 75 },
+      ]);
+    });
+
+    it('should keep explicit shares', () => {
+      const shares = resolveRevenueShares([
+        { tierId: 'tier-1', minimumPrice: 5, revenueShare: 60 },
+        { tierId: 'tier-2', minimumPrice: 15, revenueShare: 40 },
+      ]);
+
+      expect(shares).toEqual([
+        { tierId: 'tier-1', revenueShare: 60 },
+        { tierId: 'tier-2', revenueShare: 40 },
+      ]);
+    });
+  });
+
+  describe('calculateBundleRevenueSplits', () => {
+    it('should split the payment after the platform fee', () => {
+      const splits = calculateBundleRevenueSplits(
+        [
+          { artistId: 'artist-1', revenueShare: 50 },
+          { artistId: 'artist-2', revenueShare: 50 },
+        ],
+        20
+      );
+
+      expect(splits).toEqual([
+        { artistId: 'artist-1', grossAmount: 10, amount: 9.5 },
+        { artistId: 'artist-2', grossAmount: 10, amount: 9.5 },
+      ]);
+    });
+
+    it('should combine shares from tiers owned by the same artist', () => {
+      const splits = calculateBundleRevenueSplits(
+        [
+          { artistId: 'artist-1', revenueShare: 25 },
+          { artistId: 'artist-1', revenueShare: 25 },
+          { artistId: 'artist-2', revenueShare: 50 },
+        ],
+        10
+      );
+
+      expect(splits).toEqual([
+        { artistId: 'artist-1', grossAmount: 5, amount: 4.75 },
+        { artistId: 'artist-2', grossAmount: 5, amount: 4.75 },
+      ]);
+    });
+  });
+
+  describe('recordBundleRevenue', () => {
+    const bundleSubscription = {
+      id: 'bundle-sub-1',
+      bundles: {
+        bundle_tiers: [
+          { revenueShare: 60, tiers: { artistId: 'artist-1' } },
+          { revenueShare: 40, tiers: { artistId: 'artist-2' } },
+        ],
+      },
+    };
+
+    it('should credit each artist and transfer their share', async () => {
+      (mockPrisma.bundle_subscriptions.findUnique as jest.Mock).mockResolvedValue(
+        bundleSubscription
+      );
+      (mockPrisma.bundle_revenue_splits.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.bundle_revenue_splits.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: `split-${data.artistId}` })
+      );
+      (mockPrisma.artists.findUnique as jest.Mock).mockResolvedValue({
+        stripeAccountId: 'acct_123',
+        isStripeOnboarded: true,
+      });
+      mockCreateArtistTransfer.mockResolvedValue('tr_123');
+
+      const splits = await recordBundleRevenue('sub_123', 'in_123', 10, 'pi_123');
+
+      expect(splits).toEqual([
+        { artistId: 'artist-1', grossAmount: 6, amount: 5.7 },
+        { artistId: 'artist-2', grossAmount: 4, amount: 3.8 },
+      ]);
+      expect(mockRecordLedgerEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          artistId: 'artist-1',
+          type: 'BUNDLE',
+          sourceId: 'in_123',
+          stripePaymentIntentId: 'pi_123',
+          grossAmount: 6,
+        })
+      );
+      expect(mockCreateArtistTransfer).toHaveBeenCalledWith(
+        5.7,
+        'acct_123',
+        'in_123',
+        expect.objectContaining({ artistId: 'artist-1' })
+      );
+      expect(mockPrisma.bundle_revenue_splits.update).toHaveBeenCalledWith({
+        where: { id: 'split-artist-1' },
+        data: { stripeTransferId: 'tr_123' },
+      });
+    });
+
+    it('should skip artists already credited for the invoice', async () => {
+      (mockPrisma.bundle_subscriptions.findUnique as jest.Mock).mockResolvedValue(
+        bundleSubscription
+      );
+      (mockPrisma.bundle_revenue_splits.findUnique as jest.Mock).mockResolvedValue({
+        id: 'split-existing',
+      });
+
+      const splits = await recordBundleRevenue('sub_123', 'in_123', 10);
+
+      expect(splits).toEqual([]);
+      expect(mockRecordLedgerEntry).not.toHaveBeenCalled();
+    });
+
+    it('should keep the split when the transfer fails', async () => {
+      (mockPrisma.bundle_subscriptions.findUnique as jest.Mock).mockResolvedValue(
+        bundleSubscription
+      );
+      (mockPrisma.bundle_revenue_splits.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.bundle_revenue_splits.create as jest.Mock).mockResolvedValue({ id: 'split-1' });
+      (mockPrisma.artists.findUnique as jest.Mock).mockResolvedValue({
+        stripeAccountId: 'acct_123',
+        isStripeOnboarded: true,
+      });
+      mockCreateArtistTransfer.mockRejectedValue(new Error('Insufficient funds'));
+
+      const splits = await recordBundleRevenue('sub_123', 'in_123', 10);
+
+      expect(splits).toHaveLength(2);
+      expect(mockPrisma.bundle_revenue_splits.update).not.toHaveBeenCalled();
+    });
+  });
+});
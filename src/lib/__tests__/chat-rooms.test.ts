@@ -0,0 +1,253 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    chat_rooms: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+    },
+    chat_room_members: {
+      findFirst: jest.fn(),
+      upsert: jest.fn(),
+    },
+    messages: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    message_edits: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+import {
+  addRoomMember,
+  canAccessRoom,
+  createRoomMessage,
+  deleteMessage,
+  editMessage,
+  getMessageHistory,
+  getOrCreateDirectRoom,
+  toChatMessage,
+} from '../messaging/chat-rooms';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Chat Rooms', () => {
+  const storedMessage = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    content: `Message ${id}`,
+    senderId: 'user-1',
+    recipientId: null,
+    roomId: 'room-1',
+    type: 'TEXT',
+    attachments: null,
+    replyToId: null,
+    editedAt: null,
+    deletedAt: null,
+    readAt: null,
+    createdAt: new Date('2026-06-01T12:00:00Z'),
+    message_reactions: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toChatMessage', () => {
+    it('should blank out deleted messages but keep their place in the thread', () => {
+      const message = toChatMessage(
+        storedMessage('m1', {
+          attachments: '[{"id":"a1"}]',
+          replyToId: 'm0',
+          deletedAt: new Date(),
+        })
+      );
+
+      expect(message.content).toBe('');
+      expect(message.attachments).toBeUndefined();
+      expect(message.replyToId).toBe('m0');
+      expect(message.type).toBe('text');
+    });
+
+    it('should name who reacted', () => {
+      const message = toChatMessage(
+        storedMessage('m1', {
+          message_reactions: [
+            {
+              id: 'r1',
+              emoji: '🔥',
+              userId: 'user-2',
+              createdAt: new Date(),
+              users: { displayName: 'Sam' },
+            },
+          ],
+        })
+      );
+
+      expect(message.reactions).toEqual([
+        expect.objectContaining({ emoji: '🔥', userName: 'Sam' }),
+      ]);
+    });
+  });
+
+  describe('getOrCreateDirectRoom', () => {
+    it('should give both users the same room whoever messages first', async () => {
+      (mockPrisma.chat_rooms.upsert as jest.Mock).mockResolvedValue({ id: 'dm-1' });
+
+      await getOrCreateDirectRoom('user-b', 'user-a');
+      await getOrCreateDirectRoom('user-a', 'user-b');
+
+      const [first, second] = (mockPrisma.chat_rooms.upsert as jest.Mock).mock.calls;
+      expect(first[0].where).toEqual({ directKey: 'user-a:user-b' });
+      expect(second[0].where).toEqual(first[0].where);
+    });
+  });
+
+  describe('canAccessRoom', () => {
+    it('should let anyone into a public group', async () => {
+      (mockPrisma.chat_room_members.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.chat_rooms.findUnique as jest.Mock).mockResolvedValue({
+        isPrivate: false,
+        type: 'COMMUNITY',
+      });
+
+      await expect(canAccessRoom('user-1', 'room-1')).resolves.toBe(true);
+    });
+
+    it('should keep non-members out of private rooms', async () => {
+      (mockPrisma.chat_room_members.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.chat_rooms.findUnique as jest.Mock).mockResolvedValue({
+        isPrivate: true,
+        type: 'GROUP',
+      });
+
+      await expect(canAccessRoom('user-1', 'room-1')).resolves.toBe(false);
+    });
+  });
+
+  describe('addRoomMember', () => {
+    it('should refuse new members once the room is full', async () => {
+      (mockPrisma.chat_rooms.findUnique as jest.Mock).mockResolvedValue({
+        id: 'room-1',
+        type: 'GROUP',
+        settings: '{}',
+        chat_room_members: Array.from({ length: 100 }, (_, i) => ({
+          userId: `user-${i}`,
+          role: 'MEMBER',
+        })),
+      });
+
+      await expect(addRoomMember('room-1', 'newcomer')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockPrisma.chat_room_members.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createRoomMessage', () => {
+    it('should only thread replies within the same room', async () => {
+      (mockPrisma.messages.findUnique as jest.Mock).mockResolvedValue({ roomId: 'room-2' });
+
+      await expect(
+        createRoomMessage({
+          senderId: 'user-1',
+          roomId: 'room-1',
+          content: 'Agreed',
+          type: 'text',
+          replyToId: 'm0',
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockPrisma.messages.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMessageHistory', () => {
+    it('should page backwards from a message cursor', async () => {
+      (mockPrisma.messages.findMany as jest.Mock).mockResolvedValue([
+        storedMessage('m5'),
+        storedMessage('m4'),
+        storedMessage('m3'),
+      ]);
+
+      const page = await getMessageHistory('room-1', { limit: 2, before: 'm6' });
+
+      expect(mockPrisma.messages.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { roomId: 'room-1' },
+          take: 3,
+          cursor: { id: 'm6' },
+          skip: 1,
+        })
+      );
+      expect(page.messages.map(message => message.id)).toEqual(['m4', 'm5']);
+      expect(page.hasMore).toBe(true);
+      expect(page.nextCursor).toBe('m4');
+    });
+
+    it('should report the last page', async () => {
+      (mockPrisma.messages.findMany as jest.Mock).mockResolvedValue([storedMessage('m1')]);
+
+      const page = await getMessageHistory('room-1', { limit: 2 });
+
+      expect(page.hasMore).toBe(false);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe('editMessage', () => {
+    beforeEach(() => {
+      (mockPrisma.messages.findUnique as jest.Mock).mockResolvedValue(storedMessage('m1'));
+      (mockPrisma.chat_room_members.findFirst as jest.Mock).mockResolvedValue({
+        role: 'MEMBER',
+      });
+    });
+
+    it('should keep the previous text in the edit history', async () => {
+      (mockPrisma.$transaction as jest.Mock).mockResolvedValue([
+        {},
+        storedMessage('m1', { content: 'Fixed typo', editedAt: new Date() }),
+      ]);
+
+      const message = await editMessage('m1', 'user-1', 'Fixed typo');
+
+      expect(mockPrisma.message_edits.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ messageId: 'm1', previousContent: 'Message m1' }),
+      });
+      expect(message?.edited).toBe(true);
+    });
+
+    it("should not let members edit other people's messages", async () => {
+      await expect(editMessage('m1', 'user-2', 'Hijacked')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('should let room admins remove any message', async () => {
+      (mockPrisma.messages.findUnique as jest.Mock).mockResolvedValue(storedMessage('m1'));
+      (mockPrisma.chat_room_members.findFirst as jest.Mock).mockResolvedValue({ role: 'ADMIN' });
+      (mockPrisma.messages.update as jest.Mock).mockResolvedValue(
+        storedMessage('m1', { deletedAt: new Date() })
+      );
+
+      const message = await deleteMessage('m1', 'moderator');
+
+      expect(mockPrisma.messages.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'm1' },
+          data: expect.objectContaining({ deletedAt: expect.any(Date) }),
+        })
+      );
+      expect(message.content).toBe('');
+    });
+  });
+});
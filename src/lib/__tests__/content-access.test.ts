@@ -23,9 +23,15 @@ jest.mock('../prisma', () => ({
       count: jest.fn(),
       aggregate: jest.fn(),
     },
+    subscriptions: {
+      findMany: jest.fn(),
+    },
     tier: {
       findMany: jest.fn(),
     },
+    bundle_subscriptions: {
+      findFirst: jest.fn(),
+    },
   },
 }));
 
@@ -95,6 +101,7 @@ describe('Content Access Control', () => {
         artistId: 'artist-1',
         visibility: 'PRIVATE',
         tiers: [{ id: 'tier-1', minimumPrice: 10, isActive: true }],
+        content_purchases: [],
         artist: { id: 'artist-1', role: UserRole.ARTIST },
       };
 
@@ -132,6 +139,7 @@ describe('Content Access Control', () => {
         artistId: 'artist-1',
         visibility: 'PRIVATE',
         tiers: [{ id: 'tier-1', minimumPrice: 10, isActive: true }],
+        content_purchases: [],
         artist: { id: 'artist-1', role: UserRole.ARTIST },
       };
 
@@ -150,6 +158,7 @@ describe('Content Access Control', () => {
         artistId: 'artist-1',
         visibility: 'PRIVATE',
         tiers: [],
+        content_purchases: [],
         artist: { id: 'artist-1', role: UserRole.ARTIST },
       };
 
@@ -167,6 +176,7 @@ describe('Content Access Control', () => {
         artistId: 'artist-1',
         visibility: 'PRIVATE',
         tiers: [{ id: 'tier-1', minimumPrice: 10, isActive: false }],
+        content_purchases: [],
         artist: { id: 'artist-1', role: UserRole.ARTIST },
       };
 
@@ -193,6 +203,151 @@ describe('Content Access Control', () => {
     });
   });
 
+  describe('checkContentAccess with purchases', () => {
+    it('should allow access through a one-time purchase', async () => {
+      const purchasedAt = new Date();
+      const mockContent = {
+        id: 'content-1',
+        artistId: 'artist-1',
+        visibility: 'PRIVATE',
+        price: 4.99,
+        tiers: [{ id: 'tier-1', minimumPrice: 10, isActive: true, subscriptions: [] }],
+        content_purchases: [{ id: 'purchase-1', amount: 4.99, purchasedAt }],
+        artist: { id: 'artist-1', role: UserRole.ARTIST },
+      };
+
+      (prisma.content.findUnique as jest.Mock).mockResolvedValue(mockContent as any);
+
+      const result = await checkContentAccess('user-1', 'content-1');
+
+      expect(result.hasAccess).toBe(true);
+      expect(result.reason).toBe('purchase');
+      expect(result.purchase).toEqual({ id: 'purchase-1', amount: 4.99, purchasedAt });
+    });
+
+    it('should allow purchased content that has no tiers assigned', async () => {
+      const mockContent = {
+        id: 'content-1',
+        artistId: 'artist-1',
+        visibility: 'PRIVATE',
+        price: 2,
+        tiers: [],
+        content_purchases: [{ id: 'purchase-1', amount: 2, purchasedAt: new Date() }],
+        artist: { id: 'artist-1', role: UserRole.ARTIST },
+      };
+
+      (prisma.content.findUnique as jest.Mock).mockResolvedValue(mockContent as any);
+
+      const result = await checkContentAccess('user-1', 'content-1');
+
+      expect(result.hasAccess).toBe(true);
+      expect(result.reason).toBe('purchase');
+    });
+
+    it('should only look up completed purchases for the requesting user', async () => {
+      (prisma.content.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await checkContentAccess('user-1', 'content-1');
+
+      const query = (prisma.content.findUnique as jest.Mock).mock.calls[0][0];
+      expect(query.include.content_purchases.where).toEqual({
+        fanId: 'user-1',
+        status: 'COMPLETED',
+      });
+    });
+  });
+
+  describe('checkContentAccess with bundles', () => {
+    it('should allow access through a bundle that includes the content tier', async () => {
+      const mockContent = {
+        id: 'content-1',
+        artistId: 'artist-1',
+        visibility: 'PRIVATE',
+        tiers: [{ id: 'tier-1', minimumPrice: 10, isActive: true, subscriptions: [] }],
+        content_purchases: [],
+        artist: { id: 'artist-1', role: UserRole.ARTIST },
+      };
+
+      (prisma.content.findUnique as jest.Mock).mockResolvedValue(mockContent as any);
+      (prisma.bundle_subscriptions.findFirst as jest.Mock).mockResolvedValue({
+        id: 'bundle-sub-1',
+        bundleId: 'bundle-1',
+      });
+
+      const result = await checkContentAccess('user-1', 'content-1');
+
+      expect(result.hasAccess).toBe(true);
+      expect(result.reason).toBe('bundle');
+      expect(result.bundle).toEqual({ id: 'bundle-1', subscriptionId: 'bundle-sub-1' });
+
+      const query = (prisma.bundle_subscriptions.findFirst as jest.Mock).mock.calls[0][0];
+      expect(query.where.fanId).toBe('user-1');
+      expect(query.where.bundles).toEqual({
+        bundle_tiers: { some: { tierId: { in: ['tier-1'] } } },
+      });
+    });
+
+    it('should not check bundles for inactive tiers', async () => {
+      const mockContent = {
+        id: 'content-1',
+        artistId: 'artist-1',
+        visibility: 'PRIVATE',
+        tiers: [{ id: 'tier-1', minimumPrice: 10, isActive: false, subscriptions: [] }],
+        content_purchases: [],
+        artist: { id: 'artist-1', role: UserRole.ARTIST },
+      };
+
+      (prisma.content.findUnique as jest.Mock).mockResolvedValue(mockContent as any);
+
+      const result = await checkContentAccess('user-1', 'content-1');
+
+      expect(result.hasAccess).toBe(false);
+      expect(result.reason).toBe('no_subscription');
+      expect(prisma.bundle_subscriptions.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkContentAccess with scheduling', () => {
+    it('should deny access to scheduled content before it is published', async () => {
+      const mockContent = {
+        id: 'content-1',
+        artistId: 'artist-1',
+        visibility: 'PUBLIC',
+        status: 'SCHEDULED',
+        publishAt: new Date(Date.now() + 3600000),
+        tiers: [],
+        content_purchases: [],
+        artist: { id: 'artist-1', role: UserRole.ARTIST },
+      };
+
+      (prisma.content.findUnique as jest.Mock).mockResolvedValue(mockContent as any);
+
+      const result = await checkContentAccess('user-1', 'content-1');
+
+      expect(result.hasAccess).toBe(false);
+      expect(result.reason).toBe('unavailable');
+    });
+
+    it('should let the owner preview scheduled content', async () => {
+      const mockContent = {
+        id: 'content-1',
+        artistId: 'user-1',
+        visibility: 'PUBLIC',
+        status: 'SCHEDULED',
+        publishAt: new Date(Date.now() + 3600000),
+        tiers: [],
+        content_purchases: [],
+        artist: { id: 'user-1', role: UserRole.ARTIST },
+      };
+
+      (prisma.content.findUnique as jest.Mock).mockResolvedValue(mockContent as any);
+
+      const result = await checkContentAccess('user-1', 'content-1');
+
+      expect(result.hasAccess).toBe(true);
+    });
+  });
+
   describe('generateAccessToken and verifyAccessToken', () => {
     it('should generate and verify access tokens', () => {
       const token = generateAccessToken('user-1', 'content-1');
@@ -238,6 +393,24 @@ describe('Content Access Control', () => {
       expect(result.pagination.total).toBe(1);
     });
 
+    it('should include purchased content in the accessible set', async () => {
+      (prisma.subscriptions.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.content.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.content.count as jest.Mock).mockResolvedValue(0);
+
+      await getUserAccessibleContent('user-1', 'artist-1');
+
+      const query = (prisma.content.findMany as jest.Mock).mock.calls[0][0];
+      expect(query.where.OR).toContainEqual({
+        content_purchases: {
+          some: {
+            fanId: 'user-1',
+            status: 'COMPLETED',
+          },
+        },
+      });
+    });
+
     it('should handle pagination correctly', async () => {
       (prisma.subscriptions.findMany as jest.Mock).mockResolvedValue([]);
       (prisma.content.findMany as jest.Mock).mockResolvedValue([]);
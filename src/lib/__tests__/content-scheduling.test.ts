@@ -0,0 +1,222 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    content: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  notifyNewContent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import {
+  isWithinPublishWindow,
+  buildScheduleUpdate,
+  contentScheduleSchema,
+  publishScheduledContent,
+  expireTimedContent,
+  runContentSchedulingJobs,
+} from '../content-scheduling';
+import { prisma } from '@/lib/prisma';
+import { notifyNewContent } from '@/lib/notifications';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockNotifyNewContent = notifyNewContent as jest.MockedFunction<typeof notifyNewContent>;
+
+const now = new Date('2024-06-01T12:00:00Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+describe('Content Scheduling', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isWithinPublishWindow', () => {
+    const base = { status: 'PUBLISHED', publishAt: null, expiresAt: null, expiryAction: null };
+
+    it('should treat unscheduled content as live', () => {
+      expect(isWithinPublishWindow(base, now)).toBe(true);
+    });
+
+    it('should hide content before its publish time', () => {
+      expect(
+        isWithinPublishWindow({ ...base, status: 'SCHEDULED', publishAt: hoursFromNow(1) }, now)
+      ).toBe(false);
+    });
+
+    it('should show scheduled content once the publish time passes', () => {
+      expect(
+        isWithinPublishWindow({ ...base, status: 'SCHEDULED', publishAt: hoursFromNow(-1) }, now)
+      ).toBe(true);
+    });
+
+    it('should hide archiving drops after they expire', () => {
+      expect(
+        isWithinPublishWindow(
+          { ...base, expiresAt: hoursFromNow(-1), expiryAction: 'ARCHIVE' },
+          now
+        )
+      ).toBe(false);
+    });
+
+    it('should keep downgrading drops live after they expire', () => {
+      expect(
+        isWithinPublishWindow(
+          { ...base, expiresAt: hoursFromNow(-1), expiryAction: 'DOWNGRADE' },
+          now
+        )
+      ).toBe(true);
+    });
+
+    it('should hide archived content', () => {
+      expect(isWithinPublishWindow({ ...base, status: 'ARCHIVED' }, now)).toBe(false);
+    });
+
+    it('should hide clips that are still processing', () => {
+      expect(isWithinPublishWindow({ ...base, status: 'PROCESSING' }, now)).toBe(false);
+    });
+  });
+
+  describe('contentScheduleSchema', () => {
+    it('should reject an expiry before the publish time', () => {
+      const result = contentScheduleSchema.safeParse({
+        publishAt: hoursFromNow(2).toISOString(),
+        expiresAt: hoursFromNow(1).toISOString(),
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should require a fallback tier when downgrading', () => {
+      const result = contentScheduleSchema.safeParse({
+        expiresAt: hoursFromNow(24).toISOString(),
+        expiryAction: 'DOWNGRADE',
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('buildScheduleUpdate', () => {
+    it('should mark published content as scheduled for a future publish time', () => {
+      const data = buildScheduleUpdate('PUBLISHED', { publishAt: hoursFromNow(3) }, now);
+
+      expect(data.status).toBe('SCHEDULED');
+      expect(data.publishAt).toEqual(hoursFromNow(3));
+    });
+
+    it('should publish scheduled content when the publish time is cleared', () => {
+      const data = buildScheduleUpdate('SCHEDULED', { publishAt: null }, now);
+
+      expect(data.status).toBe('PUBLISHED');
+    });
+
+    it('should not override a moderation status', () => {
+      const data = buildScheduleUpdate('PENDING_REVIEW', { publishAt: hoursFromNow(3) }, now);
+
+      expect(data.status).toBeUndefined();
+      expect(data.publishAt).toEqual(hoursFromNow(3));
+    });
+  });
+
+  describe('publishScheduledContent', () => {
+    it('should publish due content and notify subscribers', async () => {
+      (mockPrisma.content.findMany as jest.Mock).mockResolvedValue([
+        { id: 'content-1', title: 'Drop', users: { displayName: 'Test Artist' } },
+      ]);
+      (mockPrisma.content.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const published = await publishScheduledContent(now);
+
+      expect(published).toBe(1);
+      expect(mockPrisma.content.updateMany).toHaveBeenCalledWith({
+        where: { id: 'content-1', status: 'SCHEDULED' },
+        data: { status: 'PUBLISHED', updatedAt: now },
+      });
+      expect(mockNotifyNewContent).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'content-1' }),
+        'Test Artist'
+      );
+    });
+
+    it('should skip content already published by another instance', async () => {
+      (mockPrisma.content.findMany as jest.Mock).mockResolvedValue([
+        { id: 'content-1', title: 'Drop', users: { displayName: 'Test Artist' } },
+      ]);
+      (mockPrisma.content.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const published = await publishScheduledContent(now);
+
+      expect(published).toBe(0);
+      expect(mockNotifyNewContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireTimedContent', () => {
+    beforeEach(() => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation(callback => callback(mockPrisma));
+    });
+
+    it('should archive or downgrade expired drops', async () => {
+      (mockPrisma.content.findMany as jest.Mock).mockResolvedValue([
+        { id: 'content-1', expiryAction: 'ARCHIVE', fallbackTierId: null },
+        { id: 'content-2', expiryAction: 'DOWNGRADE', fallbackTierId: 'tier-basic' },
+      ]);
+      (mockPrisma.content.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const result = await expireTimedContent(now);
+
+      expect(result).toEqual({ archived: 1, downgraded: 1 });
+      expect(mockPrisma.content.updateMany).toHaveBeenCalledWith({
+        where: { id: 'content-1', status: 'PUBLISHED', expiresAt: { lte: now } },
+        data: { status: 'ARCHIVED', updatedAt: now },
+      });
+      expect(mockPrisma.content.updateMany).toHaveBeenCalledWith({
+        where: { id: 'content-2', status: 'PUBLISHED', expiresAt: { lte: now } },
+        data: expect.objectContaining({ expiresAt: null, visibility: 'TIER_LOCKED' }),
+      });
+      expect(mockPrisma.content.update).toHaveBeenCalledWith({
+        where: { id: 'content-2' },
+        data: { tiers: { set: [{ id: 'tier-basic' }] } },
+      });
+    });
+
+    it('should leave drops changed since they were picked up', async () => {
+      (mockPrisma.content.findMany as jest.Mock).mockResolvedValue([
+        { id: 'content-1', expiryAction: 'ARCHIVE', fallbackTierId: null },
+        { id: 'content-2', expiryAction: 'DOWNGRADE', fallbackTierId: 'tier-basic' },
+      ]);
+      (mockPrisma.content.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const result = await expireTimedContent(now);
+
+      expect(result).toEqual({ archived: 0, downgraded: 0 });
+      expect(mockPrisma.content.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runContentSchedulingJobs', () => {
+    it('should keep running expiry when publishing fails', async () => {
+      (mockPrisma.content.findMany as jest.Mock)
+        .mockRejectedValueOnce(new Error('Database error'))
+        .mockResolvedValueOnce([]);
+
+      const result = await runContentSchedulingJobs(now);
+
+      expect(result).toEqual({ published: 0, archived: 0, downgraded: 0, errors: 1 });
+    });
+  });
+});
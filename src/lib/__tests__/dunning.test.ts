@@ -0,0 +1,191 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    dunning_policies: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    payment_failure_events: {
+      create: jest.fn(),
+    },
+    payment_failures: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  sendEmail: jest.fn(),
+}));
+
+import {
+  DEFAULT_DUNNING_POLICY,
+  dunningPolicySchema,
+  getDunningPolicy,
+  updateDunningPolicy,
+  getMaxAttempts,
+  getNextRetryAt,
+  getGracePeriodEnd,
+  sendDunningReminder,
+  getFanPaymentFailures,
+} from '../dunning';
+import { prisma } from '@/lib/prisma';
+import { sendEmail } from '@/lib/notifications';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockSendEmail = sendEmail as jest.MockedFunction<typeof sendEmail>;
+
+describe('Dunning', () => {
+  const policy = { retryIntervalsDays: [1, 3, 5], gracePeriodDays: 7, sendReminders: true };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000';
+  });
+
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_APP_URL;
+  });
+
+  describe('getDunningPolicy', () => {
+    it('should fall back to the default policy', async () => {
+      (mockPrisma.dunning_policies.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(getDunningPolicy()).resolves.toEqual(DEFAULT_DUNNING_POLICY);
+    });
+
+    it('should use the policy saved by an admin', async () => {
+      (mockPrisma.dunning_policies.findUnique as jest.Mock).mockResolvedValue({
+        id: 'default',
+        ...policy,
+        updatedById: 'admin-1',
+      });
+
+      await expect(getDunningPolicy()).resolves.toEqual(policy);
+    });
+  });
+
+  describe('updateDunningPolicy', () => {
+    it('should upsert the single policy row', async () => {
+      await updateDunningPolicy(policy, 'admin-1');
+
+      expect(mockPrisma.dunning_policies.upsert).toHaveBeenCalledWith({
+        where: { id: 'default' },
+        create: expect.objectContaining({ id: 'default', ...policy, updatedById: 'admin-1' }),
+        update: expect.objectContaining({ ...policy, updatedById: 'admin-1' }),
+      });
+    });
+
+    it('should reject schedules without retries', () => {
+      expect(dunningPolicySchema.safeParse({ ...policy, retryIntervalsDays: [] }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('retry schedule', () => {
+    const failedAt = new Date('2026-03-01T00:00:00Z');
+
+    it('should count the original attempt', () => {
+      expect(getMaxAttempts(policy)).toBe(4);
+    });
+
+    it('should space retries by the configured intervals', () => {
+      expect(getNextRetryAt(policy, 1, failedAt)).toEqual(new Date('2026-03-02T00:00:00Z'));
+      expect(getNextRetryAt(policy, 3, failedAt)).toEqual(new Date('2026-03-06T00:00:00Z'));
+      expect(getNextRetryAt(policy, 4, failedAt)).toBeNull();
+    });
+
+    it('should end the grace period after the configured days', () => {
+      expect(getGracePeriodEnd(policy, failedAt)).toEqual(new Date('2026-03-08T00:00:00Z'));
+    });
+  });
+
+  describe('sendDunningReminder', () => {
+    const reminder = {
+      policy,
+      paymentFailureId: 'pf-1',
+      attemptNumber: 2,
+      email: 'fan@example.com',
+      artistName: 'Test Artist',
+      tierName: 'Premium',
+      amount: 10,
+      nextRetryAt: new Date('2026-03-04T00:00:00Z'),
+      gracePeriodEndsAt: null,
+    };
+
+    it('should email the fan and record the reminder', async () => {
+      const sent = await sendDunningReminder(reminder);
+
+      expect(sent).toBe(true);
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'fan@example.com',
+          subject: 'Payment Failed for Test Artist Subscription',
+          text: expect.stringContaining('This was attempt 2 of 4'),
+        })
+      );
+      expect(mockPrisma.payment_failure_events.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          paymentFailureId: 'pf-1',
+          type: 'REMINDER_SENT',
+          attemptNumber: 2,
+        }),
+      });
+    });
+
+    it('should respect the policy and billing preferences', async () => {
+      await sendDunningReminder({ ...reminder, policy: { ...policy, sendReminders: false } });
+      await sendDunningReminder({ ...reminder, notificationPreferences: { billing: false } });
+
+      expect(mockSendEmail).not.toHaveBeenCalled();
+      expect(mockPrisma.payment_failure_events.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFanPaymentFailures', () => {
+    it('should return failures with their dunning steps', async () => {
+      (mockPrisma.payment_failures.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: 'pf-1',
+          amount: '9.99',
+          status: 'RETRYING',
+          attemptCount: 2,
+          failureReason: 'Card declined',
+          nextRetryAt: null,
+          gracePeriodEndsAt: null,
+          resolvedAt: null,
+          createdAt: new Date('2026-03-01T00:00:00Z'),
+          subscriptions: {
+            id: 'sub-1',
+            status: 'PAST_DUE',
+            tiers: { name: 'Premium', users: { id: 'artist-1', displayName: 'Test Artist' } },
+          },
+          payment_failure_events: [
+            {
+              id: 'ev-1',
+              type: 'FAILED',
+              attemptNumber: 1,
+              message: 'Card declined',
+              occurredAt: new Date('2026-03-01T00:00:00Z'),
+            },
+          ],
+        },
+      ]);
+
+      const failures = await getFanPaymentFailures('fan-1');
+
+      expect(mockPrisma.payment_failures.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { subscriptions: { fanId: 'fan-1' } } })
+      );
+      expect(failures[0].amount).toBe(9.99);
+      expect(failures[0].subscription).toEqual({
+        id: 'sub-1',
+        status: 'PAST_DUE',
+        tierName: 'Premium',
+        artist: { id: 'artist-1', displayName: 'Test Artist' },
+      });
+      expect(failures[0].steps).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    chat_rooms: {
+      findUnique: jest.fn(),
+    },
+    users: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    user_encryption_keys: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/messaging/chat-rooms', () => ({
+  directRoomKey: jest.requireActual('@/lib/messaging/chat-rooms').directRoomKey,
+  getOrCreateDirectRoom: jest.fn(),
+  updateRoomSettings: jest.fn(),
+}));
+
+import {
+  encryptionEnvelopeSchema,
+  registerPublicKey,
+  resolveMessageEncryption,
+  setConversationEncryption,
+} from '../encrypted-messages';
+import { updateRoomSettings } from '@/lib/messaging/chat-rooms';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Encrypted Messages', () => {
+  const senderKeyId = '6f1c2d9e-8a43-4c1b-9f0e-1d2c3b4a5e6f';
+  const recipientKeyId = '0a9b8c7d-6e5f-4a3b-8c1d-0e9f8a7b6c5d';
+  const envelope = { iv: 'q83vEjRWeJASNFZ4', senderKeyId, recipientKeyId };
+
+  const encryptedConversation = (enabled: boolean) =>
+    (mockPrisma.chat_rooms.findUnique as jest.Mock).mockResolvedValue({
+      settings: JSON.stringify({ endToEndEncrypted: enabled }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('encryptionEnvelopeSchema', () => {
+    it('should only accept key ids and a base64 IV', () => {
+      expect(encryptionEnvelopeSchema.safeParse(envelope).success).toBe(true);
+      expect(encryptionEnvelopeSchema.safeParse({ ...envelope, iv: 'not base64!' }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('registerPublicKey', () => {
+    it('should retire the old key when rotating', async () => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation(operations =>
+        Promise.all(operations)
+      );
+      (mockPrisma.user_encryption_keys.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve(data)
+      );
+
+      const key = await registerPublicKey('user-1', 'MFkwEwYHKoZIzj0CAQ');
+
+      expect(mockPrisma.user_encryption_keys.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', retiredAt: null },
+        data: { retiredAt: expect.any(Date) },
+      });
+      expect(mockPrisma.users.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({ e2eeKeyId: key.keyId }),
+      });
+    });
+  });
+
+  describe('setConversationEncryption', () => {
+    it('should need both people to have a key before turning it on', async () => {
+      (mockPrisma.users.findMany as jest.Mock).mockResolvedValue([
+        { id: 'artist-1', displayName: 'Nova', e2eeKeyId: senderKeyId },
+        { id: 'fan-1', displayName: 'Sam', e2eeKeyId: null },
+      ]);
+
+      await expect(setConversationEncryption('artist-1', 'fan-1', true)).rejects.toMatchObject({
+        statusCode: 400,
+        message: "Sam hasn't set up encrypted messaging yet",
+      });
+      expect(updateRoomSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveMessageEncryption', () => {
+    it('should leave plaintext conversations alone', async () => {
+      (mockPrisma.chat_rooms.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(resolveMessageEncryption('fan-1', 'artist-1', 'Hello')).resolves.toEqual({
+        isEncrypted: false,
+      });
+    });
+
+    it('should refuse plaintext in an encrypted conversation', async () => {
+      encryptedConversation(true);
+
+      await expect(resolveMessageEncryption('fan-1', 'artist-1', 'Hello')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    it('should store the envelope for ciphertext sealed with current keys', async () => {
+      encryptedConversation(true);
+      (mockPrisma.users.findMany as jest.Mock).mockResolvedValue([
+        { id: 'fan-1', e2eeKeyId: senderKeyId },
+        { id: 'artist-1', e2eeKeyId: recipientKeyId },
+      ]);
+
+      await expect(
+        resolveMessageEncryption('fan-1', 'artist-1', 'c2VjcmV0', envelope)
+      ).resolves.toEqual({
+        isEncrypted: true,
+        encryptionIv: envelope.iv,
+        senderKeyId,
+        recipientKeyId,
+      });
+    });
+
+    it('should reject ciphertext sealed with a rotated-out key', async () => {
+      encryptedConversation(true);
+      (mockPrisma.users.findMany as jest.Mock).mockResolvedValue([
+        { id: 'fan-1', e2eeKeyId: senderKeyId },
+        { id: 'artist-1', e2eeKeyId: 'a-newer-key' },
+      ]);
+
+      await expect(
+        resolveMessageEncryption('fan-1', 'artist-1', 'c2VjcmV0', envelope)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    gift_subscriptions: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+    users: {
+      findUnique: jest.fn(),
+    },
+    subscriptions: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    tiers: {
+      update: jest.fn(),
+    },
+    artists: {
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendGiftSubscription: jest.fn(),
+  },
+}));
+
+import {
+  generateGiftCode,
+  calculateGiftPeriodEnd,
+  markGiftPaid,
+  redeemGiftSubscription,
+} from '../gift-subscriptions';
+import { prisma } from '@/lib/prisma';
+import { emailService } from '@/lib/email-service';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockEmailService = emailService as jest.Mocked<typeof emailService>;
+
+describe('Gift Subscriptions', () => {
+  const paidGift = {
+    id: 'gift-1',
+    code: 'GIFT-ABCD-EFGH',
+    purchaserId: 'buyer-1',
+    artistId: 'artist-1',
+    tierId: 'tier-1',
+    months: 3,
+    amount: 30,
+    status: 'PAID',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockImplementation(callback => callback(mockPrisma));
+  });
+
+  describe('generateGiftCode', () => {
+    it('should generate codes in the GIFT-XXXX-XXXX format', () => {
+      expect(generateGiftCode()).toMatch(/^GIFT-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    });
+  });
+
+  describe('calculateGiftPeriodEnd', () => {
+    it('should add calendar months to the start date', () => {
+      const end = calculateGiftPeriodEnd(new Date('2024-01-15T00:00:00Z'), 3);
+
+      expect(end.getUTCMonth()).toBe(3);
+      expect(end.getUTCDate()).toBe(15);
+    });
+  });
+
+  describe('markGiftPaid', () => {
+    it('should email the recipient when a pending gift is paid', async () => {
+      (mockPrisma.gift_subscriptions.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.gift_subscriptions.findUnique as jest.Mock).mockResolvedValue({
+        ...paidGift,
+        recipientEmail: 'friend@example.com',
+        recipientName: 'Sam',
+        message: 'Enjoy!',
+        users_gift_subscriptions_purchaserIdTousers: { displayName: 'Alex' },
+        tiers: { name: 'Premium', users: { displayName: 'Test Artist' } },
+      });
+
+      const result = await markGiftPaid('gift-1', 'pi_123');
+
+      expect(result).toBe(true);
+      expect(mockPrisma.gift_subscriptions.updateMany).toHaveBeenCalledWith({
+        where: { id: 'gift-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'PAID', stripePaymentIntentId: 'pi_123' }),
+      });
+      expect(mockEmailService.sendGiftSubscription).toHaveBeenCalledWith(
+        'friend@example.com',
+        expect.objectContaining({
+          recipientName: 'Sam',
+          purchaserName: 'Alex',
+          artistName: 'Test Artist',
+          code: 'GIFT-ABCD-EFGH',
+        })
+      );
+    });
+
+    it('should do nothing for gifts that were already paid', async () => {
+      (mockPrisma.gift_subscriptions.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const result = await markGiftPaid('gift-1', 'pi_123');
+
+      expect(result).toBe(false);
+      expect(mockEmailService.sendGiftSubscription).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redeemGiftSubscription', () => {
+    beforeEach(() => {
+      (mockPrisma.gift_subscriptions.findUnique as jest.Mock).mockResolvedValue(paidGift);
+      (mockPrisma.users.findUnique as jest.Mock).mockResolvedValue({ id: 'fan-1', role: 'FAN' });
+      (mockPrisma.gift_subscriptions.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    it('should create a non-renewing subscription for the gifted period', async () => {
+      (mockPrisma.subscriptions.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.subscriptions.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve(data)
+      );
+
+      const result = await redeemGiftSubscription('GIFT-ABCD-EFGH', 'fan-1');
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.subscriptions.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fanId: 'fan-1',
+          tierId: 'tier-1',
+          artistId: 'artist-1',
+          stripeSubscriptionId: 'gift_gift-1',
+          amount: 10,
+          status: 'ACTIVE',
+          autoRenew: false,
+        }),
+      });
+      expect(mockPrisma.tiers.update).toHaveBeenCalledWith({
+        where: { id: 'tier-1' },
+        data: { subscriberCount: { increment: 1 } },
+      });
+    });
+
+    it('should extend an active gift for the same tier', async () => {
+      const currentPeriodEnd = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+      (mockPrisma.subscriptions.findUnique as jest.Mock).mockResolvedValue({
+        id: 'sub-1',
+        status: 'ACTIVE',
+        autoRenew: false,
+        currentPeriodStart: new Date(),
+        currentPeriodEnd,
+      });
+      (mockPrisma.subscriptions.update as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'sub-1', tierId: 'tier-1', artistId: 'artist-1', ...data })
+      );
+
+      const result = await redeemGiftSubscription('GIFT-ABCD-EFGH', 'fan-1');
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.subscriptions.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: expect.objectContaining({
+          currentPeriodEnd: calculateGiftPeriodEnd(currentPeriodEnd, 3),
+        }),
+      });
+      expect(mockPrisma.tiers.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject fans with a paid subscription to the tier', async () => {
+      (mockPrisma.subscriptions.findUnique as jest.Mock).mockResolvedValue({
+        id: 'sub-1',
+        status: 'ACTIVE',
+        autoRenew: true,
+      });
+
+      const result = await redeemGiftSubscription('GIFT-ABCD-EFGH', 'fan-1');
+
+      expect(result).toEqual({
+        success: false,
+        error: 'You already have an active subscription to this tier',
+      });
+      expect(mockPrisma.gift_subscriptions.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not take over a past-due Stripe subscription', async () => {
+      (mockPrisma.subscriptions.findUnique as jest.Mock).mockResolvedValue({
+        id: 'sub-1',
+        status: 'PAST_DUE',
+        autoRenew: true,
+        stripeSubscriptionId: 'sub_stripe_1',
+      });
+
+      const result = await redeemGiftSubscription('GIFT-ABCD-EFGH', 'fan-1');
+
+      expect(result).toEqual({
+        success: false,
+        error: 'You already have an active subscription to this tier',
+      });
+      expect(mockPrisma.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unpaid and redeemed gifts', async () => {
+      (mockPrisma.gift_subscriptions.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...paidGift,
+        status: 'PENDING',
+      });
+      await expect(redeemGiftSubscription('GIFT-ABCD-EFGH', 'fan-1')).resolves.toEqual({
+        success: false,
+        error: 'Gift code not found',
+      });
+
+      (mockPrisma.gift_subscriptions.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...paidGift,
+        status: 'REDEEMED',
+      });
+      await expect(redeemGiftSubscription('GIFT-ABCD-EFGH', 'fan-1')).resolves.toEqual({
+        success: false,
+        error: 'This gift has already been redeemed',
+      });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    mass_messages: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    mass_message_opt_outs: {
+      findMany: jest.fn(),
+    },
+    messages: {
+      create: jest.fn(),
+    },
+    users: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/paid-messages', () => ({
+  deliverMessage: jest.fn(),
+  lockedAttachmentSchema: jest.requireActual('zod').z.object({}),
+}));
+
+import {
+  findLapsedFans,
+  massMessageSchema,
+  personaliseMessage,
+  sendMassMessageBatch,
+} from '../mass-messages';
+import { deliverMessage } from '@/lib/paid-messages';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Mass Messages', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('personaliseMessage', () => {
+    it("should fill in the fan's name", () => {
+      expect(personaliseMessage('Hey {{name}}, thanks! {{ NAME }}', { displayName: 'Sam' })).toBe(
+        'Hey Sam, thanks! Sam'
+      );
+    });
+  });
+
+  describe('massMessageSchema', () => {
+    it('should need a tier for tier segments', () => {
+      expect(massMessageSchema.safeParse({ segment: 'TIER', content: 'Hi' }).success).toBe(false);
+      expect(
+        massMessageSchema.safeParse({ segment: 'TIER', tierId: 'gold', content: 'Hi' }).success
+      ).toBe(true);
+    });
+  });
+
+  describe('findLapsedFans', () => {
+    it('should skip fans with a subscription that still grants access', () => {
+      const lapsed = findLapsedFans(
+        [
+          { fanId: 'lapsed', status: 'CANCELED', currentPeriodEnd: daysAgo(10) },
+          { fanId: 'active', status: 'ACTIVE', currentPeriodEnd: daysAgo(-10) },
+          { fanId: 'switched', status: 'CANCELED', currentPeriodEnd: daysAgo(40) },
+          { fanId: 'switched', status: 'TRIALING', currentPeriodEnd: daysAgo(-5) },
+        ],
+        now
+      );
+
+      expect(lapsed).toEqual(['lapsed']);
+    });
+
+    it('should only include fans who lapsed inside the window', () => {
+      const lapsed = findLapsedFans(
+        [
+          { fanId: 'recent', status: 'CANCELED', currentPeriodEnd: daysAgo(10) },
+          { fanId: 'old', status: 'EXPIRED', currentPeriodEnd: daysAgo(90) },
+        ],
+        now,
+        30
+      );
+
+      expect(lapsed).toEqual(['recent']);
+    });
+  });
+
+  describe('sendMassMessageBatch', () => {
+    const massMessage = {
+      id: 'mass-1',
+      artistId: 'artist-1',
+      content: 'Hi {{name}}, new drop tonight',
+      type: 'TEXT',
+      attachmentUrl: null,
+      attachmentPrice: null,
+      attachmentPreviewUrl: null,
+      recipientIds: '["fan-1","fan-2","fan-3"]',
+      recipientCount: 3,
+      cursor: 0,
+      status: 'SENDING',
+      users: { displayName: 'Nova' },
+    };
+
+    beforeEach(() => {
+      (mockPrisma.mass_messages.findUnique as jest.Mock).mockResolvedValue(massMessage);
+      (mockPrisma.mass_messages.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.users.findMany as jest.Mock).mockResolvedValue([
+        { id: 'fan-1', displayName: 'Sam' },
+        { id: 'fan-2', displayName: 'Alex' },
+      ]);
+      (mockPrisma.mass_message_opt_outs.findMany as jest.Mock).mockResolvedValue([
+        { fanId: 'fan-2' },
+      ]);
+      (mockPrisma.messages.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve(data)
+      );
+    });
+
+    it('should message each fan individually and skip opt-outs', async () => {
+      await expect(sendMassMessageBatch('mass-1', 2)).resolves.toBe(1);
+
+      expect(mockPrisma.mass_messages.updateMany).toHaveBeenCalledWith({
+        where: { id: 'mass-1', status: 'SENDING', cursor: 0 },
+        data: expect.objectContaining({ cursor: 2 }),
+      });
+      expect(mockPrisma.messages.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.messages.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          senderId: 'artist-1',
+          recipientId: 'fan-1',
+          content: 'Hi Sam, new drop tonight',
+          massMessageId: 'mass-1',
+        }),
+      });
+      expect(deliverMessage).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.mass_messages.update).toHaveBeenCalledWith({
+        where: { id: 'mass-1' },
+        data: expect.objectContaining({
+          sentCount: { increment: 1 },
+          skippedCount: { increment: 1 },
+        }),
+      });
+    });
+
+    it('should not send a batch another run already claimed', async () => {
+      (mockPrisma.mass_messages.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(sendMassMessageBatch('mass-1', 2)).resolves.toBe(0);
+      expect(mockPrisma.messages.create).not.toHaveBeenCalled();
+    });
+
+    it('should finish once every fan has been reached', async () => {
+      (mockPrisma.mass_messages.findUnique as jest.Mock).mockResolvedValue({
+        ...massMessage,
+        cursor: 2,
+      });
+      (mockPrisma.users.findMany as jest.Mock).mockResolvedValue([
+        { id: 'fan-3', displayName: 'Jo' },
+      ]);
+      (mockPrisma.mass_message_opt_outs.findMany as jest.Mock).mockResolvedValue([]);
+
+      await sendMassMessageBatch('mass-1', 2);
+
+      expect(mockPrisma.mass_messages.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'mass-1', status: 'SENDING' },
+        data: expect.objectContaining({ status: 'SENT' }),
+      });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    artists: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    messages: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    message_purchases: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/websocket-instance', () => ({
+  webSocketInstance: {
+    emitToConversation: jest.fn(),
+    isUserOnline: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  createOrRetrieveCustomer: jest.fn(),
+  createPaymentCheckoutSession: jest.fn(),
+}));
+
+import {
+  confirmMessagePurchase,
+  getDmPrice,
+  setDmPrice,
+  startMessagePurchase,
+  toMessageView,
+} from '../paid-messages';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Paid Messages', () => {
+  const message = {
+    id: 'message-1',
+    senderId: 'artist-1',
+    recipientId: 'fan-1',
+    content: 'Behind the scenes',
+    type: 'IMAGE',
+    attachmentUrl: 'https://cdn.example.com/bts.jpg',
+    createdAt: new Date('2026-06-01T12:00:00Z'),
+    readAt: null,
+    dmFee: null,
+    dmFeePaidAt: null,
+    attachmentPrice: 4.99,
+    attachmentPreviewUrl: 'https://cdn.example.com/bts-preview.jpg',
+    attachmentUnlockedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toMessageView', () => {
+    it('should hide a locked attachment from the recipient', () => {
+      const view = toMessageView(message, 'fan-1');
+
+      expect(view.isLocked).toBe(true);
+      expect(view.attachmentUrl).toBeNull();
+      expect(view.attachmentPreviewUrl).toBe('https://cdn.example.com/bts-preview.jpg');
+      expect(view.attachmentPrice).toBe(4.99);
+    });
+
+    it('should show the attachment to its sender and once unlocked', () => {
+      expect(toMessageView(message, 'artist-1').attachmentUrl).toBe(message.attachmentUrl);
+      expect(
+        toMessageView({ ...message, attachmentUnlockedAt: new Date() }, 'fan-1').attachmentUrl
+      ).toBe(message.attachmentUrl);
+    });
+
+    it('should blank the content of a deleted message', () => {
+      const view = toMessageView({ ...message, deletedAt: new Date() }, 'artist-1');
+
+      expect(view.content).toBe('');
+      expect(view.attachmentUrl).toBeNull();
+      expect(view.attachmentPreviewUrl).toBeNull();
+    });
+  });
+
+  describe('getDmPrice', () => {
+    it('should charge fans the artist DM price', async () => {
+      (mockPrisma.artists.findUnique as jest.Mock).mockResolvedValue({ dmPrice: 2.5 });
+
+      await expect(getDmPrice('FAN', 'artist-1')).resolves.toBe(2.5);
+    });
+
+    it('should let artists reply for free', async () => {
+      await expect(getDmPrice('ARTIST', 'fan-1')).resolves.toBeNull();
+      expect(mockPrisma.artists.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should be free when the artist has no DM price', async () => {
+      (mockPrisma.artists.findUnique as jest.Mock).mockResolvedValue({ dmPrice: null });
+
+      await expect(getDmPrice('FAN', 'artist-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('setDmPrice', () => {
+    it('should require Stripe before charging', async () => {
+      (mockPrisma.artists.findUnique as jest.Mock).mockResolvedValue({
+        stripeAccountId: null,
+        isStripeOnboarded: false,
+      });
+
+      await expect(setDmPrice('artist-1', 5)).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockPrisma.artists.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startMessagePurchase', () => {
+    beforeEach(() => {
+      (mockPrisma.message_purchases.upsert as jest.Mock).mockImplementation(({ create }) =>
+        Promise.resolve(create)
+      );
+    });
+
+    it('should open an unlock for the recipient of locked media', async () => {
+      (mockPrisma.messages.findUnique as jest.Mock).mockResolvedValue(message);
+
+      const { purchase } = await startMessagePurchase('message-1', 'fan-1');
+
+      expect(purchase).toEqual(
+        expect.objectContaining({
+          type: 'ATTACHMENT_UNLOCK',
+          fanId: 'fan-1',
+          artistId: 'artist-1',
+          amount: 4.99,
+          status: 'PENDING',
+        })
+      );
+    });
+
+    it('should open the DM fee for a fan whose message is on hold', async () => {
+      (mockPrisma.messages.findUnique as jest.Mock).mockResolvedValue({
+        ...message,
+        senderId: 'fan-1',
+        recipientId: 'artist-1',
+        attachmentPrice: null,
+        dmFee: 3,
+      });
+
+      const { purchase } = await startMessagePurchase('message-1', 'fan-1');
+
+      expect(purchase).toEqual(
+        expect.objectContaining({ type: 'DM_FEE', artistId: 'artist-1', amount: 3 })
+      );
+    });
+
+    it('should refuse messages with nothing to pay for', async () => {
+      (mockPrisma.messages.findUnique as jest.Mock).mockResolvedValue({
+        ...message,
+        attachmentUnlockedAt: new Date(),
+      });
+
+      await expect(startMessagePurchase('message-1', 'fan-1')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    it("should hide other people's messages", async () => {
+      (mockPrisma.messages.findUnique as jest.Mock).mockResolvedValue(message);
+
+      await expect(startMessagePurchase('message-1', 'fan-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(mockPrisma.message_purchases.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmMessagePurchase', () => {
+    it('should unlock the attachment once paid', async () => {
+      (mockPrisma.message_purchases.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.message_purchases.findUnique as jest.Mock).mockResolvedValue({
+        id: 'purchase-1',
+        messageId: 'message-1',
+        type: 'ATTACHMENT_UNLOCK',
+      });
+      (mockPrisma.messages.update as jest.Mock).mockResolvedValue(message);
+
+      const result = await confirmMessagePurchase('purchase-1', 'cs_test', 'pi_test');
+
+      expect(result).not.toBeNull();
+      expect(mockPrisma.messages.update).toHaveBeenCalledWith({
+        where: { id: 'message-1' },
+        data: expect.objectContaining({ attachmentUnlockedAt: expect.any(Date) }),
+      });
+    });
+
+    it('should ignore retried webhooks', async () => {
+      (mockPrisma.message_purchases.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(confirmMessagePurchase('purchase-1', 'cs_test', 'pi_test')).resolves.toBeNull();
+      expect(mockPrisma.messages.update).not.toHaveBeenCalled();
+    });
+  });
+});
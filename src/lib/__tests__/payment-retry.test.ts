@@ -7,7 +7,18 @@ jest.mock('@/lib/prisma', () => ({
       create: jest.fn(),
       update: jest.fn(),
     },
-    subscription: {
+    payment_failures: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    payment_failure_events: {
+      create: jest.fn(),
+    },
+    dunning_policies: {
+      findUnique: jest.fn(),
+    },
+    subscriptions: {
       update: jest.fn(),
     },
   },
@@ -40,6 +51,7 @@ jest.mock('@/lib/logger', () => ({
 import {
   createPaymentFailure,
   retryPayment,
+  resolvePaymentFailureForInvoice,
   getPaymentFailures,
   getArtistPaymentFailures,
 } from '../payment-retry';
@@ -54,81 +66,113 @@ const mockStripe = stripe as jest.Mocked<typeof stripe>;
 const mockSendEmail = sendEmail as jest.MockedFunction<typeof sendEmail>;
 const mockLogger = logger as jest.Mocked<typeof logger>;
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 describe('Payment Retry Functions', () => {
+  const mockSubscription = {
+    id: 'sub_123',
+    stripeSubscriptionId: 'stripe_sub_123',
+    users: {
+      email: 'fan@example.com',
+      notificationPreferences: { billing: true },
+    },
+    tiers: {
+      name: 'Premium',
+      artistId: 'artist_123',
+      users: { displayName: 'Test Artist' },
+    },
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000';
+
+    // Two retries, a day then three days apart, with a week of grace
+    (mockPrisma.dunning_policies.findUnique as jest.Mock).mockResolvedValue({
+      id: 'default',
+      retryIntervalsDays: [1, 3],
+      gracePeriodDays: 7,
+      sendReminders: true,
+    });
+    (mockPrisma.payment_failure_events.create as jest.Mock).mockResolvedValue({});
   });
 
   afterEach(() => {
     delete process.env.NEXT_PUBLIC_APP_URL;
+    jest.useRealTimers();
   });
 
   describe('createPaymentFailure', () => {
-    it('should create a new payment failure record', async () => {
-      const mockFailure = {
-        id: 'pf_123',
-        subscriptionId: 'sub_123',
-        stripeInvoiceId: 'in_123',
-        amount: new Decimal(10.0),
-        failureReason: 'Card declined',
-        nextRetryAt: expect.any(Date),
-      };
+    it('should create a new payment failure record under the dunning policy', async () => {
+      jest.useFakeTimers();
+      const now = new Date('2026-01-10T12:00:00Z');
+      jest.setSystemTime(now);
 
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(null);
-      mockPrisma.paymentFailure.create.mockResolvedValue(mockFailure as any);
-      mockPrisma.subscription.update.mockResolvedValue({} as any);
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.payment_failures.create as jest.Mock).mockResolvedValue({ id: 'pf_123' });
+      (mockPrisma.subscriptions.update as jest.Mock).mockResolvedValue(mockSubscription);
 
       const result = await createPaymentFailure('sub_123', 'in_123', 10.0, 'Card declined');
 
-      expect(result).toEqual(mockFailure);
-      expect(mockPrisma.paymentFailure.create).toHaveBeenCalledWith({
-        data: {
+      expect(result).toEqual({ id: 'pf_123' });
+      expect(mockPrisma.payment_failures.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
           subscriptionId: 'sub_123',
           stripeInvoiceId: 'in_123',
           amount: new Decimal(10.0),
           failureReason: 'Card declined',
-          nextRetryAt: expect.any(Date),
-        },
+          nextRetryAt: new Date(now.getTime() + DAY_MS),
+          gracePeriodEndsAt: new Date(now.getTime() + 7 * DAY_MS),
+        }),
       });
-      expect(mockPrisma.subscription.update).toHaveBeenCalledWith({
-        where: { id: 'sub_123' },
-        data: { status: 'PAST_DUE' },
+      expect(mockPrisma.subscriptions.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'sub_123' },
+          data: { status: 'PAST_DUE' },
+        })
+      );
+      expect(mockPrisma.payment_failure_events.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          paymentFailureId: 'pf_123',
+          type: 'FAILED',
+          attemptNumber: 1,
+        }),
+      });
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'fan@example.com',
+          html: expect.stringContaining('This was attempt 1 of 3'),
+        })
+      );
+      expect(mockPrisma.payment_failure_events.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'REMINDER_SENT' }),
       });
     });
 
-    it('should update an existing payment failure record', async () => {
-      const existingFailure = {
-        id: 'pf_123',
-        attemptCount: 1,
-      };
-
-      const updatedFailure = {
+    it('should only refresh the reason when the invoice is already being dunned', async () => {
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue({
         id: 'pf_123',
         attemptCount: 2,
-        failureReason: 'Card declined',
-        nextRetryAt: expect.any(Date),
-      };
-
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(existingFailure as any);
-      mockPrisma.paymentFailure.update.mockResolvedValue(updatedFailure as any);
+      });
+      (mockPrisma.payment_failures.update as jest.Mock).mockResolvedValue({ id: 'pf_123' });
 
-      const result = await createPaymentFailure('sub_123', 'in_123', 10.0, 'Card declined');
+      await createPaymentFailure('sub_123', 'in_123', 10.0, 'Card declined');
 
-      expect(result).toEqual(updatedFailure);
-      expect(mockPrisma.paymentFailure.update).toHaveBeenCalledWith({
+      expect(mockPrisma.payment_failures.update).toHaveBeenCalledWith({
         where: { id: 'pf_123' },
         data: {
-          attemptCount: { increment: 1 },
           failureReason: 'Card declined',
-          nextRetryAt: expect.any(Date),
           updatedAt: expect.any(Date),
         },
       });
+      expect(mockPrisma.payment_failures.create).not.toHaveBeenCalled();
+      expect(mockSendEmail).not.toHaveBeenCalled();
     });
 
     it('should handle errors', async () => {
-      mockPrisma.paymentFailure.findUnique.mockRejectedValue(new Error('Database error'));
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockRejectedValue(
+        new Error('Database error')
+      );
 
       await expect(
         createPaymentFailure('sub_123', 'in_123', 10.0, 'Card declined')
@@ -139,14 +183,29 @@ describe('Payment Retry Functions', () => {
   });
 
   describe('retryPayment', () => {
+    const openFailure = {
+      id: 'pf_123',
+      isResolved: false,
+      attemptCount: 1,
+      stripeInvoiceId: 'in_123',
+      subscriptionId: 'sub_123',
+      amount: new Decimal(10.0),
+      gracePeriodEndsAt: null as Date | null,
+      subscriptions: mockSubscription,
+    };
+
+    beforeEach(() => {
+      mockStripe.invoices.retrieve.mockResolvedValue({ id: 'in_123', status: 'open' } as any);
+      (mockPrisma.payment_failures.update as jest.Mock).mockResolvedValue({});
+      (mockPrisma.subscriptions.update as jest.Mock).mockResolvedValue({});
+    });
+
     it('should handle already resolved payment failures', async () => {
-      const mockFailure = {
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue({
         id: 'pf_123',
         isResolved: true,
         attemptCount: 1,
-      };
-
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(mockFailure as any);
+      });
 
       const result = await retryPayment('pf_123');
 
@@ -157,186 +216,179 @@ describe('Payment Retry Functions', () => {
     });
 
     it('should handle already paid invoices', async () => {
-      const mockFailure = {
-        id: 'pf_123',
-        isResolved: false,
-        attemptCount: 1,
-        stripeInvoiceId: 'in_123',
-        subscriptionId: 'sub_123',
-        subscription: {
-          id: 'sub_123',
-        },
-      };
-
-      const mockInvoice = {
-        id: 'in_123',
-        status: 'paid',
-      };
-
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(mockFailure as any);
-      mockStripe.invoices.retrieve.mockResolvedValue(mockInvoice as any);
-      mockPrisma.paymentFailure.update.mockResolvedValue({} as any);
-      mockPrisma.subscription.update.mockResolvedValue({} as any);
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue(openFailure);
+      mockStripe.invoices.retrieve.mockResolvedValue({ id: 'in_123', status: 'paid' } as any);
 
       const result = await retryPayment('pf_123');
 
       expect(result.success).toBe(true);
       expect(result.resolved).toBe(true);
-      expect(mockPrisma.paymentFailure.update).toHaveBeenCalledWith({
+      expect(mockStripe.invoices.pay).not.toHaveBeenCalled();
+      expect(mockPrisma.payment_failures.update).toHaveBeenCalledWith({
         where: { id: 'pf_123' },
-        data: {
+        data: expect.objectContaining({
           isResolved: true,
-          updatedAt: expect.any(Date),
-        },
+          status: 'RECOVERED',
+        }),
       });
-      expect(mockPrisma.subscription.update).toHaveBeenCalledWith({
+      expect(mockPrisma.subscriptions.update).toHaveBeenCalledWith({
         where: { id: 'sub_123' },
         data: { status: 'ACTIVE' },
       });
     });
 
     it('should successfully retry payment', async () => {
-      const mockFailure = {
-        id: 'pf_123',
-        isResolved: false,
-        attemptCount: 1,
-        stripeInvoiceId: 'in_123',
-        subscriptionId: 'sub_123',
-        amount: new Decimal(10.0),
-        subscription: {
-          id: 'sub_123',
-          fan: {
-            email: 'fan@example.com',
-            notificationPreferences: { billing: true },
-          },
-          tier: {
-            name: 'Premium',
-            artist: { displayName: 'Test Artist' },
-          },
-        },
-      };
-
-      const mockInvoice = {
-        id: 'in_123',
-        status: 'open',
-      };
-
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(mockFailure as any);
-      mockStripe.invoices.retrieve.mockResolvedValue(mockInvoice as any);
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue(openFailure);
       mockStripe.invoices.pay.mockResolvedValue({} as any);
-      mockPrisma.paymentFailure.update.mockResolvedValue({} as any);
-      mockPrisma.subscription.update.mockResolvedValue({} as any);
-      mockSendEmail.mockResolvedValue(undefined);
 
       const result = await retryPayment('pf_123');
 
-      expect(result.success).toBe(true);
-      expect(result.resolved).toBe(true);
-      expect(result.attemptCount).toBe(2);
+      expect(result).toEqual({ success: true, resolved: true, attemptCount: 2 });
       expect(mockStripe.invoices.pay).toHaveBeenCalledWith('in_123');
-      expect(mockPrisma.paymentFailure.update).toHaveBeenCalledWith({
+      expect(mockPrisma.payment_failure_events.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'RECOVERED', attemptNumber: 2 }),
+      });
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Payment Successful - Test Artist' })
+      );
+    });
+
+    it('should schedule the next retry from the policy with attempts remaining', async () => {
+      jest.useFakeTimers();
+      const now = new Date('2026-01-11T12:00:00Z');
+      jest.setSystemTime(now);
+
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue(openFailure);
+      mockStripe.invoices.pay.mockRejectedValue(new Error('Card declined'));
+
+      const result = await retryPayment('pf_123');
+
+      expect(result).toEqual({
+        success: false,
+        resolved: false,
+        attemptCount: 2,
+        nextRetryAt: new Date(now.getTime() + 3 * DAY_MS),
+      });
+      expect(mockPrisma.payment_failures.update).toHaveBeenCalledWith({
         where: { id: 'pf_123' },
         data: {
-          isResolved: true,
-          updatedAt: expect.any(Date),
+          attemptCount: 2,
+          nextRetryAt: new Date(now.getTime() + 3 * DAY_MS),
+          updatedAt: now,
         },
       });
-      expect(mockSendEmail).toHaveBeenCalled();
+      expect(mockPrisma.payment_failure_events.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'RETRY_FAILED',
+          attemptNumber: 2,
+          message: 'Card declined',
+        }),
+      });
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ html: expect.stringContaining('This was attempt 2 of 3') })
+      );
     });
 
-    it('should handle payment retry failure with max attempts reached', async () => {
-      const mockFailure = {
-        id: 'pf_123',
-        isResolved: false,
-        attemptCount: 2, // Already tried twice
-        stripeInvoiceId: 'in_123',
-        subscriptionId: 'sub_123',
-        subscription: {
-          id: 'sub_123',
-          stripeSubscriptionId: 'stripe_sub_123',
-          fan: {
-            email: 'fan@example.com',
-            notificationPreferences: { billing: true },
-          },
-          tier: {
-            name: 'Premium',
-            artistId: 'artist_123',
-            artist: { displayName: 'Test Artist' },
-          },
-        },
-      };
-
-      const mockInvoice = {
-        id: 'in_123',
-        status: 'open',
-      };
-
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(mockFailure as any);
-      mockStripe.invoices.retrieve.mockResolvedValue(mockInvoice as any);
-      mockStripe.invoices.pay.mockRejectedValue(new Error('Payment failed'));
-      mockStripe.subscriptions.cancel.mockResolvedValue({} as any);
-      mockPrisma.subscription.update.mockResolvedValue({} as any);
-      mockPrisma.paymentFailure.update.mockResolvedValue({} as any);
-      mockSendEmail.mockResolvedValue(undefined);
+    it('should cancel the subscription after the final retry fails', async () => {
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue({
+        ...openFailure,
+        attemptCount: 2,
+      });
+      mockStripe.invoices.pay.mockRejectedValue(new Error('Card declined'));
 
       const result = await retryPayment('pf_123');
 
-      expect(result.success).toBe(false);
-      expect(result.resolved).toBe(true);
-      expect(result.attemptCount).toBe(3);
+      expect(result).toEqual({ success: false, resolved: true, attemptCount: 3 });
       expect(mockStripe.subscriptions.cancel).toHaveBeenCalledWith('stripe_sub_123');
-      expect(mockPrisma.subscription.update).toHaveBeenCalledWith({
+      expect(mockPrisma.subscriptions.update).toHaveBeenCalledWith({
         where: { id: 'sub_123' },
         data: { status: 'CANCELED' },
       });
-      expect(mockSendEmail).toHaveBeenCalled();
+      expect(mockPrisma.payment_failures.update).toHaveBeenCalledWith({
+        where: { id: 'pf_123' },
+        data: expect.objectContaining({
+          attemptCount: 3,
+          isResolved: true,
+          status: 'CANCELED',
+        }),
+      });
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Subscription Canceled - Payment Failed' })
+      );
     });
 
-    it('should handle payment retry failure with attempts remaining', async () => {
-      const mockFailure = {
-        id: 'pf_123',
-        isResolved: false,
-        attemptCount: 1, // First attempt
-        stripeInvoiceId: 'in_123',
-        subscriptionId: 'sub_123',
-        subscription: {
-          id: 'sub_123',
-        },
-      };
-
-      const mockInvoice = {
-        id: 'in_123',
-        status: 'open',
-      };
+    it('should hold off cancelling until the grace period ends', async () => {
+      jest.useFakeTimers();
+      const now = new Date('2026-01-14T12:00:00Z');
+      const gracePeriodEndsAt = new Date('2026-01-17T12:00:00Z');
+      jest.setSystemTime(now);
 
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(mockFailure as any);
-      mockStripe.invoices.retrieve.mockResolvedValue(mockInvoice as any);
-      mockStripe.invoices.pay.mockRejectedValue(new Error('Payment failed'));
-      mockPrisma.paymentFailure.update.mockResolvedValue({} as any);
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue({
+        ...openFailure,
+        attemptCount: 2,
+        gracePeriodEndsAt,
+      });
+      mockStripe.invoices.pay.mockRejectedValue(new Error('Card declined'));
 
       const result = await retryPayment('pf_123');
 
-      expect(result.success).toBe(false);
-      expect(result.resolved).toBe(false);
-      expect(result.attemptCount).toBe(2);
-      expect(result.nextRetryAt).toBeInstanceOf(Date);
-      expect(mockPrisma.paymentFailure.update).toHaveBeenCalledWith({
-        where: { id: 'pf_123' },
-        data: {
-          attemptCount: 2,
-          nextRetryAt: expect.any(Date),
-          updatedAt: expect.any(Date),
-        },
+      expect(result).toEqual({
+        success: false,
+        resolved: false,
+        attemptCount: 3,
+        nextRetryAt: gracePeriodEndsAt,
+      });
+      expect(mockStripe.subscriptions.cancel).not.toHaveBeenCalled();
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ html: expect.stringContaining('This was our last attempt') })
+      );
+    });
+
+    it('should cancel without charging again once retries are used up', async () => {
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue({
+        ...openFailure,
+        attemptCount: 3,
       });
+
+      const result = await retryPayment('pf_123');
+
+      expect(result).toEqual({ success: false, resolved: true, attemptCount: 3 });
+      expect(mockStripe.invoices.pay).not.toHaveBeenCalled();
+      expect(mockStripe.subscriptions.cancel).toHaveBeenCalledWith('stripe_sub_123');
     });
 
     it('should throw error if payment failure not found', async () => {
-      mockPrisma.paymentFailure.findUnique.mockResolvedValue(null);
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue(null);
 
       await expect(retryPayment('nonexistent')).rejects.toThrow('Payment failure record not found');
     });
   });
 
+  describe('resolvePaymentFailureForInvoice', () => {
+    it('should mark open failures as recovered', async () => {
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue({
+        id: 'pf_123',
+        isResolved: false,
+        attemptCount: 2,
+      });
+
+      const resolved = await resolvePaymentFailureForInvoice('in_123');
+
+      expect(resolved).toBe(true);
+      expect(mockPrisma.payment_failures.update).toHaveBeenCalledWith({
+        where: { id: 'pf_123' },
+        data: expect.objectContaining({ isResolved: true, status: 'RECOVERED' }),
+      });
+    });
+
+    it('should ignore invoices without an open failure', async () => {
+      (mockPrisma.payment_failures.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(resolvePaymentFailureForInvoice('in_123')).resolves.toBe(false);
+      expect(mockPrisma.payment_failures.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getPaymentFailures', () => {
     it('should get payment failures for a subscription', async () => {
       const mockFailures = [
@@ -0,0 +1,248 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    artist_ledger_entries: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    artists: {
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+import {
+  calculatePlatformFee,
+  parseStatementPeriod,
+  recordLedgerEntry,
+  recordPaymentAdjustment,
+  getPayoutStatement,
+  payoutStatementToCsv,
+  payoutStatementToPdf,
+} from '../payout-ledger';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Payout Ledger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.artist_ledger_entries.create as jest.Mock).mockImplementation(args => args);
+    (mockPrisma.artists.update as jest.Mock).mockImplementation(args => args);
+  });
+
+  describe('calculatePlatformFee', () => {
+    it('should take 5% of the gross amount', () => {
+      expect(calculatePlatformFee(10)).toBe(0.5);
+      expect(calculatePlatformFee(9.99)).toBe(0.5);
+    });
+  });
+
+  describe('parseStatementPeriod', () => {
+    it('should return the UTC month range', () => {
+      expect(parseStatementPeriod('2026-12')).toEqual({
+        start: new Date('2026-12-01T00:00:00Z'),
+        end: new Date('2027-01-01T00:00:00Z'),
+      });
+    });
+
+    it('should reject malformed periods', () => {
+      expect(parseStatementPeriod('2026-13')).toBeNull();
+      expect(parseStatementPeriod('December')).toBeNull();
+    });
+  });
+
+  describe('recordLedgerEntry', () => {
+    it('should record the entry net of the platform fee and credit the artist', async () => {
+      (mockPrisma.artist_ledger_entries.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const recorded = await recordLedgerEntry({
+        artistId: 'artist-1',
+        type: 'SUBSCRIPTION',
+        sourceId: 'in_123',
+        stripePaymentIntentId: 'pi_123',
+        grossAmount: 20,
+      });
+
+      expect(recorded).toBe(true);
+      expect(mockPrisma.artist_ledger_entries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          artistId: 'artist-1',
+          type: 'SUBSCRIPTION',
+          sourceId: 'in_123',
+          stripePaymentIntentId: 'pi_123',
+          grossAmount: 20,
+          platformFee: 1,
+          netAmount: 19,
+        }),
+      });
+      expect(mockPrisma.artists.update).toHaveBeenCalledWith({
+        where: { userId: 'artist-1' },
+        data: { totalEarnings: { increment: 19 } },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalled();
+    });
+
+    it('should skip sources that were already recorded', async () => {
+      (mockPrisma.artist_ledger_entries.findUnique as jest.Mock).mockResolvedValue({
+        id: 'entry-1',
+      });
+
+      const recorded = await recordLedgerEntry({
+        artistId: 'artist-1',
+        type: 'SUBSCRIPTION',
+        sourceId: 'in_123',
+        grossAmount: 20,
+      });
+
+      expect(recorded).toBe(false);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordPaymentAdjustment', () => {
+    it('should debit each artist their share of a partial refund', async () => {
+      (mockPrisma.artist_ledger_entries.findMany as jest.Mock).mockResolvedValue([
+        { artistId: 'artist-1', grossAmount: 6, platformFee: 0.3 },
+        { artistId: 'artist-2', grossAmount: 4, platformFee: 0.2 },
+      ]);
+      (mockPrisma.artist_ledger_entries.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const adjusted = await recordPaymentAdjustment({
+        stripePaymentIntentId: 'pi_123',
+        type: 'REFUND',
+        sourceId: 'ch_123:500',
+        amount: 5,
+      });
+
+      expect(adjusted).toEqual(['artist-1', 'artist-2']);
+      expect(mockPrisma.artist_ledger_entries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          artistId: 'artist-1',
+          type: 'REFUND',
+          grossAmount: -3,
+          platformFee: -0.15,
+          netAmount: -2.85,
+        }),
+      });
+      expect(mockPrisma.artists.update).toHaveBeenCalledWith({
+        where: { userId: 'artist-2' },
+        data: { totalEarnings: { increment: -1.9 } },
+      });
+    });
+
+    it('should credit the artist back when a chargeback is won', async () => {
+      (mockPrisma.artist_ledger_entries.findMany as jest.Mock).mockResolvedValue([
+        { artistId: 'artist-1', grossAmount: 10, platformFee: 0.5 },
+      ]);
+      (mockPrisma.artist_ledger_entries.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await recordPaymentAdjustment({
+        stripePaymentIntentId: 'pi_123',
+        type: 'CHARGEBACK_REVERSAL',
+        sourceId: 'dp_123',
+        amount: 10,
+      });
+
+      expect(mockPrisma.artists.update).toHaveBeenCalledWith({
+        where: { userId: 'artist-1' },
+        data: { totalEarnings: { increment: 9.5 } },
+      });
+    });
+
+    it('should ignore payments with no recorded earnings', async () => {
+      (mockPrisma.artist_ledger_entries.findMany as jest.Mock).mockResolvedValue([]);
+
+      const adjusted = await recordPaymentAdjustment({
+        stripePaymentIntentId: 'pi_unknown',
+        type: 'CHARGEBACK',
+        sourceId: 'dp_123',
+        amount: 10,
+      });
+
+      expect(adjusted).toEqual([]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payout statements', () => {
+    const entries = [
+      {
+        id: 'entry-1',
+        type: 'SUBSCRIPTION',
+        description: 'Subscription payment',
+        occurredAt: new Date('2026-09-03T10:00:00Z'),
+        grossAmount: 20,
+        platformFee: 1,
+        netAmount: 19,
+      },
+      {
+        id: 'entry-2',
+        type: 'TIP',
+        description: 'Stream tip, with thanks',
+        occurredAt: new Date('2026-09-10T10:00:00Z'),
+        grossAmount: 5,
+        platformFee: 0.25,
+        netAmount: 4.75,
+      },
+      {
+        id: 'entry-3',
+        type: 'REFUND',
+        description: 'Refund',
+        occurredAt: new Date('2026-09-12T10:00:00Z'),
+        grossAmount: -10,
+        platformFee: -0.5,
+        netAmount: -9.5,
+      },
+    ];
+
+    beforeEach(() => {
+      (mockPrisma.artist_ledger_entries.aggregate as jest.Mock).mockResolvedValue({
+        _sum: { netAmount: 100 },
+      });
+      (mockPrisma.artist_ledger_entries.findMany as jest.Mock).mockResolvedValue(entries);
+    });
+
+    it('should total the month and carry the balance forward', async () => {
+      const statement = await getPayoutStatement('artist-1', '2026-09');
+
+      expect(mockPrisma.artist_ledger_entries.findMany).toHaveBeenCalledWith({
+        where: {
+          artistId: 'artist-1',
+          occurredAt: {
+            gte: new Date('2026-09-01T00:00:00Z'),
+            lt: new Date('2026-10-01T00:00:00Z'),
+          },
+        },
+        orderBy: { occurredAt: 'asc' },
+      });
+      expect(statement.totals).toEqual({ grossAmount: 15, platformFee: 0.75, netAmount: 14.25 });
+      expect(statement.openingBalance).toBe(100);
+      expect(statement.closingBalance).toBe(114.25);
+      expect(statement.byType).toHaveLength(3);
+    });
+
+    it('should export the statement as CSV', async () => {
+      const statement = await getPayoutStatement('artist-1', '2026-09');
+      const csv = payoutStatementToCsv(statement);
+      const rows = csv.trim().split('\n');
+
+      expect(rows[0]).toBe('Date,Type,Description,Gross,Platform Fee,Net');
+      expect(rows[2]).toBe('2026-09-10T10:00:00.000Z,TIP,"Stream tip, with thanks",5.00,0.25,4.75');
+      expect(csv).toContain('Closing Balance,,,,,114.25');
+    });
+
+    it('should export the statement as a PDF document', async () => {
+      const statement = await getPayoutStatement('artist-1', '2026-09');
+      const pdf = payoutStatementToPdf(statement, 'Test Artist').toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('Artist: Test Artist');
+      expect(pdf.trim().endsWith('%%EOF')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,354 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    promo_codes: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    promo_code_redemptions: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      count: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  createPromoCodeCoupon: jest.fn(),
+  deletePromoCodeCoupon: jest.fn(),
+}));
+
+import {
+  calculatePromoDiscount,
+  createPromoCodeSchema,
+  validatePromoCode,
+  getOrCreatePromoCoupon,
+  reservePromoRedemption,
+  confirmPromoRedemption,
+  getPromoCodeRedemptionReport,
+} from '../promo-codes';
+import { prisma } from '@/lib/prisma';
+import { createPromoCodeCoupon } from '@/lib/stripe';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockCreatePromoCodeCoupon = createPromoCodeCoupon as jest.MockedFunction<
+  typeof createPromoCodeCoupon
+>;
+
+const now = new Date('2024-06-01T12:00:00Z');
+
+const basePromoCode = {
+  id: 'promo-1',
+  tierId: 'tier-1',
+  code: 'HALFOFF',
+  discountType: 'PERCENT',
+  discountValue: 50,
+  durationMonths: 1,
+  maxRedemptions: 10,
+  redemptionCount: 3,
+  expiresAt: new Date('2024-07-01T00:00:00Z'),
+  fanId: null,
+  isActive: true,
+  stripeCouponId: null,
+};
+
+describe('Promo Codes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('calculatePromoDiscount', () => {
+    it('should apply percentage discounts to the subscription amount', () => {
+      expect(calculatePromoDiscount({ discountType: 'PERCENT', discountValue: 50 }, 15)).toBe(7.5);
+    });
+
+    it('should cap fixed discounts at the subscription amount', () => {
+      expect(calculatePromoDiscount({ discountType: 'AMOUNT', discountValue: 20 }, 15)).toBe(15);
+    });
+  });
+
+  describe('createPromoCodeSchema', () => {
+    it('should normalise codes to upper case', () => {
+      const result = createPromoCodeSchema.parse({
+        code: 'summer-sale',
+        discountType: 'PERCENT',
+        discountValue: 25,
+      });
+
+      expect(result.code).toBe('SUMMER-SALE');
+      expect(result.durationMonths).toBe(1);
+    });
+
+    it('should reject percentages over 100', () => {
+      const result = createPromoCodeSchema.safeParse({
+        code: 'TOOMUCH',
+        discountType: 'PERCENT',
+        discountValue: 150,
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('validatePromoCode', () => {
+    it('should accept a valid code and return the discount', async () => {
+      (mockPrisma.promo_codes.findUnique as jest.Mock).mockResolvedValue(basePromoCode);
+      (mockPrisma.promo_code_redemptions.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.promo_code_redemptions.count as jest.Mock).mockResolvedValue(3);
+
+      const result = await validatePromoCode('halfoff', 'tier-1', 'fan-1', 10, now);
+
+      expect(mockPrisma.promo_codes.findUnique).toHaveBeenCalledWith({
+        where: { tierId_code: { tierId: 'tier-1', code: 'HALFOFF' } },
+      });
+      expect(result).toEqual(
+        expect.objectContaining({
+          valid: true,
+          discountAmount: 5,
+        })
+      );
+    });
+
+    it('should reject unknown or inactive codes', async () => {
+      (mockPrisma.promo_codes.findUnique as jest.Mock).mockResolvedValue({
+        ...basePromoCode,
+        isActive: false,
+      });
+
+      const result = await validatePromoCode('HALFOFF', 'tier-1', 'fan-1', 10, now);
+
+      expect(result).toEqual({ valid: false, error: 'Invalid promo code' });
+    });
+
+    it('should reject codes reserved for another fan', async () => {
+      (mockPrisma.promo_codes.findUnique as jest.Mock).mockResolvedValue({
+        ...basePromoCode,
+        fanId: 'fan-2',
+      });
+
+      const result = await validatePromoCode('HALFOFF', 'tier-1', 'fan-1', 10, now);
+
+      expect(result).toEqual({ valid: false, error: 'Invalid promo code' });
+    });
+
+    it('should reject expired codes', async () => {
+      (mockPrisma.promo_codes.findUnique as jest.Mock).mockResolvedValue({
+        ...basePromoCode,
+        expiresAt: new Date('2024-05-01T00:00:00Z'),
+      });
+
+      const result = await validatePromoCode('HALFOFF', 'tier-1', 'fan-1', 10, now);
+
+      expect(result).toEqual({ valid: false, error: 'Promo code has expired' });
+    });
+
+    it('should count checkouts still holding a redemption towards the cap', async () => {
+      (mockPrisma.promo_codes.findUnique as jest.Mock).mockResolvedValue(basePromoCode);
+      (mockPrisma.promo_code_redemptions.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.promo_code_redemptions.count as jest.Mock).mockResolvedValue(10);
+
+      const result = await validatePromoCode('HALFOFF', 'tier-1', 'fan-1', 10, now);
+
+      expect(result).toEqual({
+        valid: false,
+        error: 'Promo code has reached its redemption limit',
+      });
+      expect(mockPrisma.promo_code_redemptions.count).toHaveBeenCalledWith({
+        where: {
+          promoCodeId: 'promo-1',
+          OR: [{ status: 'REDEEMED' }, { status: 'PENDING', reservedUntil: { gt: now } }],
+        },
+      });
+    });
+
+    it('should reject codes the fan already redeemed', async () => {
+      (mockPrisma.promo_codes.findUnique as jest.Mock).mockResolvedValue(basePromoCode);
+      (mockPrisma.promo_code_redemptions.findUnique as jest.Mock).mockResolvedValue({
+        id: 'redemption-1',
+        status: 'REDEEMED',
+        reservedUntil: null,
+      });
+
+      const result = await validatePromoCode('HALFOFF', 'tier-1', 'fan-1', 10, now);
+
+      expect(result).toEqual({ valid: false, error: 'Promo code has already been used' });
+    });
+  });
+
+  describe('getOrCreatePromoCoupon', () => {
+    const promo = {
+      id: 'promo-1',
+      code: 'HALFOFF',
+      discountType: 'PERCENT',
+      discountValue: 50,
+      durationMonths: 1,
+      stripeCouponId: null,
+    };
+
+    it('should reuse an existing coupon', async () => {
+      const couponId = await getOrCreatePromoCoupon(
+        { ...promo, stripeCouponId: 'coupon_existing' },
+        'acct_123'
+      );
+
+      expect(couponId).toBe('coupon_existing');
+      expect(mockCreatePromoCodeCoupon).not.toHaveBeenCalled();
+    });
+
+    it('should create and store a coupon on first use', async () => {
+      mockCreatePromoCodeCoupon.mockResolvedValue('coupon_new');
+
+      const couponId = await getOrCreatePromoCoupon(promo, 'acct_123');
+
+      expect(couponId).toBe('coupon_new');
+      expect(mockPrisma.promo_codes.update).toHaveBeenCalledWith({
+        where: { id: 'promo-1' },
+        data: expect.objectContaining({ stripeCouponId: 'coupon_new' }),
+      });
+    });
+  });
+
+  describe('reservePromoRedemption', () => {
+    const amounts = { originalAmount: 10, discountAmount: 5 };
+
+    beforeEach(() => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation(callback => callback(mockPrisma));
+      (mockPrisma.$queryRaw as jest.Mock).mockResolvedValue([{ maxRedemptions: 10 }]);
+      (mockPrisma.promo_code_redemptions.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.promo_code_redemptions.upsert as jest.Mock).mockImplementation(({ create }) =>
+        Promise.resolve(create)
+      );
+    });
+
+    it('should hold a redemption for the fan while they check out', async () => {
+      (mockPrisma.promo_code_redemptions.count as jest.Mock).mockResolvedValue(9);
+
+      const redemption = await reservePromoRedemption('promo-1', 'fan-1', amounts, now);
+
+      expect(redemption).toEqual(
+        expect.objectContaining({
+          promoCodeId: 'promo-1',
+          fanId: 'fan-1',
+          status: 'PENDING',
+          reservedUntil: new Date('2024-06-01T12:35:00Z'),
+        })
+      );
+      expect(mockPrisma.$queryRaw).toHaveBeenCalled();
+    });
+
+    it('should refuse once completed and held redemptions reach the cap', async () => {
+      (mockPrisma.promo_code_redemptions.count as jest.Mock).mockResolvedValue(10);
+
+      await expect(reservePromoRedemption('promo-1', 'fan-1', amounts, now)).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Promo code has reached its redemption limit',
+      });
+      expect(mockPrisma.promo_code_redemptions.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second checkout while the first still holds the code', async () => {
+      (mockPrisma.promo_code_redemptions.findUnique as jest.Mock).mockResolvedValue({
+        id: 'redemption-1',
+        status: 'PENDING',
+        reservedUntil: new Date('2024-06-01T12:20:00Z'),
+      });
+
+      await expect(reservePromoRedemption('promo-1', 'fan-1', amounts, now)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(mockPrisma.promo_code_redemptions.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should reuse the fan's row when an earlier checkout lapsed", async () => {
+      (mockPrisma.promo_code_redemptions.findUnique as jest.Mock).mockResolvedValue({
+        id: 'redemption-1',
+        status: 'PENDING',
+        reservedUntil: new Date('2024-06-01T11:00:00Z'),
+      });
+      (mockPrisma.promo_code_redemptions.count as jest.Mock).mockResolvedValue(0);
+
+      await reservePromoRedemption('promo-1', 'fan-1', amounts, now);
+
+      expect(mockPrisma.promo_code_redemptions.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { promoCodeId_fanId: { promoCodeId: 'promo-1', fanId: 'fan-1' } },
+          update: expect.objectContaining({ status: 'PENDING', stripeSessionId: null }),
+        })
+      );
+    });
+  });
+
+  describe('confirmPromoRedemption', () => {
+    beforeEach(() => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation(callback => callback(mockPrisma));
+    });
+
+    it('should mark the held redemption as used and bump the count', async () => {
+      (mockPrisma.promo_code_redemptions.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.promo_code_redemptions.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+        promoCodeId: 'promo-1',
+      });
+
+      await expect(
+        confirmPromoRedemption(
+          'redemption-1',
+          { subscriptionId: 'sub-1', stripeSessionId: 'cs_123' },
+          now
+        )
+      ).resolves.toBe(true);
+
+      expect(mockPrisma.promo_code_redemptions.updateMany).toHaveBeenCalledWith({
+        where: { id: 'redemption-1', status: 'PENDING' },
+        data: expect.objectContaining({
+          status: 'REDEEMED',
+          subscriptionId: 'sub-1',
+          stripeSessionId: 'cs_123',
+        }),
+      });
+      expect(mockPrisma.promo_codes.update).toHaveBeenCalledWith({
+        where: { id: 'promo-1' },
+        data: expect.objectContaining({ redemptionCount: { increment: 1 } }),
+      });
+    });
+
+    it('should ignore repeated webhook deliveries', async () => {
+      (mockPrisma.promo_code_redemptions.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(
+        confirmPromoRedemption('redemption-1', { stripeSessionId: 'cs_123' }, now)
+      ).resolves.toBe(false);
+      expect(mockPrisma.promo_codes.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPromoCodeRedemptionReport', () => {
+    it('should total discounts and revenue per code', async () => {
+      (mockPrisma.promo_codes.findMany as jest.Mock).mockResolvedValue([
+        {
+          ...basePromoCode,
+          tiers: { name: 'Basic' },
+          promo_code_redemptions: [
+            { originalAmount: 10, discountAmount: 5 },
+            { originalAmount: 20, discountAmount: 10 },
+          ],
+        },
+      ]);
+
+      const report = await getPromoCodeRedemptionReport('artist-1');
+
+      expect(report[0]).toEqual(
+        expect.objectContaining({
+          code: 'HALFOFF',
+          tierName: 'Basic',
+          totalDiscount: 15,
+          firstMonthRevenue: 15,
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { EventEmitter } from 'events';
+
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    rtmp_destinations: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    live_streams: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const mockEncryptionService = {
+  encryptSecret: jest.fn(),
+  decryptSecret: jest.fn(),
+};
+
+jest.mock('@/lib/encryption-service', () => ({
+  getEncryptionService: () => mockEncryptionService,
+}));
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+
+jest.mock('ffmpeg-static', () => 'ffmpeg');
+
+import { spawn } from 'child_process';
+import {
+  buildOutputUrl,
+  buildSimulcastArgs,
+  createRtmpDestination,
+  maskStreamKey,
+  rtmpDestinationSchema,
+  startSimulcast,
+  stopSimulcast,
+} from '../rtmp-simulcast';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const createRelayProcess = () =>
+  Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: jest.fn(),
+  });
+
+describe('RTMP Simulcast', () => {
+  const encrypted = {
+    encryptedData: 'cipher',
+    encryptedKey: 'data-key',
+    iv: 'iv',
+    algorithm: 'aes-256-gcm',
+    keyId: 'kms-key',
+  };
+
+  const destination = {
+    id: 'destination-1',
+    artistId: 'artist-1',
+    name: 'YouTube',
+    ingestUrl: 'rtmp://a.rtmp.youtube.com/live2',
+    encryptedStreamKey: JSON.stringify(encrypted),
+    streamKeyHint: '••••abcd',
+    status: 'IDLE',
+    streamId: null,
+    lastError: null,
+    lastStatusAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.rtmp_destinations.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...destination, ...data })
+    );
+  });
+
+  describe('rtmpDestinationSchema', () => {
+    it('should only accept RTMP ingest URLs', () => {
+      const input = { name: 'YouTube', streamKey: 'key' };
+
+      expect(
+        rtmpDestinationSchema.safeParse({ ...input, ingestUrl: 'rtmps://live.twitch.tv/app' })
+          .success
+      ).toBe(true);
+      expect(
+        rtmpDestinationSchema.safeParse({ ...input, ingestUrl: 'https://example.com/live' })
+          .success
+      ).toBe(false);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should join the ingest URL and stream key', () => {
+      expect(buildOutputUrl('rtmp://a.rtmp.youtube.com/live2/', 'secret')).toBe(
+        'rtmp://a.rtmp.youtube.com/live2/secret'
+      );
+    });
+
+    it('should relay without transcoding', () => {
+      const args = buildSimulcastArgs('rtmp://localhost:1935/live/in', 'rtmp://sink/live/out');
+
+      expect(args.join(' ')).toContain('-i rtmp://localhost:1935/live/in -c copy -f flv');
+      expect(args[args.length - 1]).toBe('rtmp://sink/live/out');
+    });
+
+    it('should only show the end of a stream key', () => {
+      expect(maskStreamKey('live_12345_abcd')).toBe('••••abcd');
+    });
+  });
+
+  describe('createRtmpDestination', () => {
+    it('should store the stream key encrypted', async () => {
+      mockEncryptionService.encryptSecret.mockResolvedValue(encrypted);
+      (mockPrisma.rtmp_destinations.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...destination, ...data })
+      );
+
+      const view = await createRtmpDestination('artist-1', {
+        name: 'YouTube',
+        ingestUrl: 'rtmp://a.rtmp.youtube.com/live2',
+        streamKey: 'live_12345_abcd',
+      });
+
+      expect(mockEncryptionService.encryptSecret).toHaveBeenCalledWith('live_12345_abcd');
+      expect(mockPrisma.rtmp_destinations.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          artistId: 'artist-1',
+          encryptedStreamKey: JSON.stringify(encrypted),
+          streamKeyHint: '••••abcd',
+        }),
+      });
+      expect(view).not.toHaveProperty('encryptedStreamKey');
+    });
+  });
+
+  describe('startSimulcast', () => {
+    beforeEach(() => {
+      (mockPrisma.rtmp_destinations.findUnique as jest.Mock).mockResolvedValue(destination);
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        id: 'stream-1',
+        artistId: 'artist-1',
+        streamKey: 'local-key',
+      });
+      mockEncryptionService.decryptSecret.mockResolvedValue('live_12345_abcd');
+    });
+
+    it('should relay the local ingest to the destination and report its health', async () => {
+      const relay = createRelayProcess();
+      (spawn as jest.Mock).mockReturnValue(relay);
+
+      const view = await startSimulcast('artist-1', 'destination-1', 'stream-1');
+
+      expect(mockEncryptionService.decryptSecret).toHaveBeenCalledWith(encrypted);
+      expect(spawn).toHaveBeenCalledWith(
+        'ffmpeg',
+        expect.arrayContaining([
+          'rtmp://localhost:1935/live/local-key',
+          'rtmp://a.rtmp.youtube.com/live2/live_12345_abcd',
+        ])
+      );
+      expect(view).toEqual(expect.objectContaining({ status: 'CONNECTING', streamId: 'stream-1' }));
+
+      relay.stdout.emit('data', Buffer.from('frame=10\nprogress=continue\n'));
+      expect(mockPrisma.rtmp_destinations.update).toHaveBeenLastCalledWith({
+        where: { id: 'destination-1' },
+        data: expect.objectContaining({ status: 'LIVE' }),
+      });
+
+      relay.stderr.emit('data', Buffer.from('Connection to tcp://sink:1935 failed\n'));
+      relay.emit('close', 1);
+      expect(mockPrisma.rtmp_destinations.update).toHaveBeenLastCalledWith({
+        where: { id: 'destination-1' },
+        data: expect.objectContaining({
+          status: 'ERROR',
+          lastError: 'Connection to tcp://sink:1935 failed',
+        }),
+      });
+    });
+
+    it('should stop the relay when asked', async () => {
+      const relay = createRelayProcess();
+      (spawn as jest.Mock).mockReturnValue(relay);
+
+      await startSimulcast('artist-1', 'destination-1', 'stream-1');
+      await expect(startSimulcast('artist-1', 'destination-1', 'stream-1')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+
+      const view = await stopSimulcast('artist-1', 'destination-1');
+
+      expect(relay.kill).toHaveBeenCalledWith('SIGTERM');
+      expect(view.status).toBe('IDLE');
+      expect(view.streamId).toBeNull();
+    });
+
+    it("should refuse other artists' destinations", async () => {
+      await expect(startSimulcast('artist-2', 'destination-1', 'stream-1')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(spawn).not.toHaveBeenCalled();
+    });
+  });
+});
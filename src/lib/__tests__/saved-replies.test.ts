@@ -0,0 +1,136 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    users: {
+      findUnique: jest.fn(),
+    },
+    subscriptions: {
+      findMany: jest.fn(),
+    },
+    saved_replies: {
+      count: jest.fn(),
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+import {
+  createSavedReply,
+  fillSavedReply,
+  getReplyTemplateContext,
+  MAX_SAVED_REPLIES,
+  monthsBetween,
+  renderReplyTemplate,
+} from '../saved-replies';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Saved Replies', () => {
+  const now = new Date('2026-06-15T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('renderReplyTemplate', () => {
+    it('should fill in every variable and leave unknown ones alone', () => {
+      expect(
+        renderReplyTemplate('Hey {{name}}! {{ Months }} months on {{tier}} {{unknown}}', {
+          name: 'Sam',
+          tier: 'Gold',
+          months: 7,
+        })
+      ).toBe('Hey Sam! 7 months on Gold {{unknown}}');
+    });
+  });
+
+  describe('monthsBetween', () => {
+    it('should only count whole months', () => {
+      expect(monthsBetween(new Date('2026-01-20T00:00:00Z'), now)).toBe(4);
+      expect(monthsBetween(new Date('2026-01-15T00:00:00Z'), now)).toBe(5);
+      expect(monthsBetween(now, new Date('2026-01-01T00:00:00Z'))).toBe(0);
+    });
+  });
+
+  describe('getReplyTemplateContext', () => {
+    it("should use the fan's current tier and their first subscription date", async () => {
+      (mockPrisma.users.findUnique as jest.Mock).mockResolvedValue({ displayName: 'Sam' });
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([
+        {
+          status: 'CANCELED',
+          currentPeriodEnd: new Date('2026-03-01T00:00:00Z'),
+          createdAt: new Date('2025-12-01T00:00:00Z'),
+          tiers: { name: 'Silver' },
+        },
+        {
+          status: 'ACTIVE',
+          currentPeriodEnd: new Date('2026-07-01T00:00:00Z'),
+          createdAt: new Date('2026-03-01T00:00:00Z'),
+          tiers: { name: 'Gold' },
+        },
+      ]);
+
+      await expect(getReplyTemplateContext('artist-1', 'fan-1', now)).resolves.toEqual({
+        name: 'Sam',
+        tier: 'Gold',
+        months: 6,
+      });
+    });
+
+    it("should fall back for fans who've never subscribed", async () => {
+      (mockPrisma.users.findUnique as jest.Mock).mockResolvedValue({ displayName: 'Sam' });
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(getReplyTemplateContext('artist-1', 'fan-1', now)).resolves.toEqual({
+        name: 'Sam',
+        tier: 'Free',
+        months: 0,
+      });
+    });
+  });
+
+  describe('createSavedReply', () => {
+    it('should stop at the saved reply limit', async () => {
+      (mockPrisma.saved_replies.count as jest.Mock).mockResolvedValue(MAX_SAVED_REPLIES);
+
+      await expect(
+        createSavedReply('artist-1', { title: 'Thanks', content: 'Thanks {{name}}!' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockPrisma.saved_replies.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fillSavedReply', () => {
+    it("should only fill in the artist's own replies", async () => {
+      (mockPrisma.saved_replies.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(fillSavedReply('artist-1', 'reply-1', 'fan-1')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(mockPrisma.saved_replies.findFirst).toHaveBeenCalledWith({
+        where: { id: 'reply-1', artistId: 'artist-1' },
+      });
+    });
+
+    it('should fill in the reply for the fan and count the use', async () => {
+      (mockPrisma.saved_replies.findFirst as jest.Mock).mockResolvedValue({
+        id: 'reply-1',
+        content: 'Thanks for being on {{tier}}, {{name}}!',
+      });
+      (mockPrisma.users.findUnique as jest.Mock).mockResolvedValue({ displayName: 'Sam' });
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(fillSavedReply('artist-1', 'reply-1', 'fan-1')).resolves.toEqual({
+        id: 'reply-1',
+        content: 'Thanks for being on Free, Sam!',
+      });
+      expect(mockPrisma.saved_replies.update).toHaveBeenCalledWith({
+        where: { id: 'reply-1' },
+        data: { useCount: { increment: 1 } },
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    stream_recordings: {
+      findUnique: jest.fn(),
+    },
+    stream_chat_messages: {
+      findMany: jest.fn(),
+    },
+    stream_tips: {
+      findMany: jest.fn(),
+    },
+    stream_poll_votes: {
+      findMany: jest.fn(),
+    },
+    stream_chapters: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+import {
+  detectChapterMarkers,
+  generateStreamChapters,
+  toWebVTTChapters,
+  MAX_CHAPTERS,
+  StreamActivity,
+} from '../stream-chapters';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+// A steady trickle of chat with a burst of messages in the given minute
+const chatWithBurst = (durationMinutes: number, burstMinute: number, burstSize = 30) => {
+  const activity: StreamActivity[] = [];
+  for (let minute = 0; minute < durationMinutes; minute++) {
+    const count = minute === burstMinute ? burstSize : 1;
+    for (let i = 0; i < count; i++) {
+      activity.push({ kind: 'CHAT', offsetSeconds: minute * 60 + i, weight: 1 });
+    }
+  }
+  return activity;
+};
+
+describe('Stream Chapters', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('detectChapterMarkers', () => {
+    it('should always open with a stream start chapter', () => {
+      expect(detectChapterMarkers([], 600)).toEqual([
+        { startSeconds: 0, title: 'Stream start', kind: 'START', score: 0 },
+      ]);
+    });
+
+    it('should mark chat spikes', () => {
+      const markers = detectChapterMarkers(chatWithBurst(30, 12), 1800);
+
+      expect(markers).toHaveLength(2);
+      expect(markers[1]).toEqual(
+        expect.objectContaining({ startSeconds: 720, kind: 'CHAT', title: 'Chat highlight' })
+      );
+    });
+
+    it('should ignore busy windows without enough messages', () => {
+      expect(detectChapterMarkers(chatWithBurst(30, 12, 5), 1800)).toHaveLength(1);
+    });
+
+    it('should title poll chapters with the question', () => {
+      const votes: StreamActivity[] = Array.from({ length: 8 }, (_, i) => ({
+        kind: 'POLL',
+        offsetSeconds: 900 + i,
+        weight: 1,
+        label: 'Which song next?',
+      }));
+
+      const markers = detectChapterMarkers(votes, 1800);
+
+      expect(markers[1]).toEqual(
+        expect.objectContaining({
+          startSeconds: 900,
+          kind: 'POLL',
+          title: 'Poll: Which song next?',
+        })
+      );
+    });
+
+    it('should keep the strongest of nearby spikes', () => {
+      const activity: StreamActivity[] = [
+        ...chatWithBurst(30, 10),
+        { kind: 'TIP', offsetSeconds: 660, weight: 100 },
+      ];
+
+      const markers = detectChapterMarkers(activity, 1800);
+
+      expect(markers).toHaveLength(2);
+      expect(markers[1].kind).toBe('TIP');
+    });
+
+    it('should cap the number of chapters', () => {
+      const tips: StreamActivity[] = Array.from({ length: 40 }, (_, i) => ({
+        kind: 'TIP',
+        offsetSeconds: i * 300,
+        weight: 5,
+      }));
+      const activity = [...tips, ...chatWithBurst(200, 100)];
+
+      expect(detectChapterMarkers(activity, 12000).length).toBeLessThanOrEqual(MAX_CHAPTERS);
+    });
+  });
+
+  describe('toWebVTTChapters', () => {
+    it('should run each chapter until the next one starts', () => {
+      const vtt = toWebVTTChapters(
+        [
+          { startSeconds: 0, title: 'Stream start', kind: 'START', score: 0 },
+          { startSeconds: 3720, title: 'Poll: Rock & <roll>?', kind: 'POLL', score: 4 },
+        ],
+        3900
+      );
+
+      expect(vtt).toBe(
+        'WEBVTT\n\n' +
+          '1\n00:00:00.000 --> 01:02:00.000\nStream start\n\n' +
+          '2\n01:02:00.000 --> 01:05:00.000\nPoll: Rock &amp; &lt;roll&gt;?\n'
+      );
+    });
+  });
+
+  describe('generateStreamChapters', () => {
+    const startedAt = new Date('2026-05-01T20:00:00Z');
+    const at = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000);
+
+    beforeEach(() => {
+      (mockPrisma.stream_recordings.findUnique as jest.Mock).mockResolvedValue({
+        id: 'rec-1',
+        duration: 1800,
+        live_streams: { id: 'stream-1', startedAt },
+      });
+      (mockPrisma.stream_chat_messages.findMany as jest.Mock).mockResolvedValue(
+        chatWithBurst(30, 20).map(event => ({ createdAt: at(event.offsetSeconds) }))
+      );
+      (mockPrisma.stream_tips.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.stream_poll_votes.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should replace the recording chapters with detected spikes', async () => {
+      const markers = await generateStreamChapters('rec-1');
+
+      expect(markers.map(marker => marker.startSeconds)).toEqual([0, 1200]);
+      expect(mockPrisma.stream_chat_messages.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { streamId: 'stream-1', isModerated: false } })
+      );
+      expect(mockPrisma.stream_chapters.deleteMany).toHaveBeenCalledWith({
+        where: { recordingId: 'rec-1' },
+      });
+      expect(mockPrisma.stream_chapters.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ recordingId: 'rec-1', startSeconds: 0, kind: 'START' }),
+          expect.objectContaining({ recordingId: 'rec-1', startSeconds: 1200, kind: 'CHAT' }),
+        ],
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalled();
+    });
+
+    it('should skip streams that never started', async () => {
+      (mockPrisma.stream_recordings.findUnique as jest.Mock).mockResolvedValue({
+        id: 'rec-1',
+        duration: 1800,
+        live_streams: { id: 'stream-1', startedAt: null },
+      });
+
+      await expect(generateStreamChapters('rec-1')).resolves.toEqual([]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
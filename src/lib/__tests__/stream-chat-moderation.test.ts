@@ -0,0 +1,241 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    live_streams: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    stream_moderators: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    subscriptions: {
+      findFirst: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/redis', () => ({
+  CACHE_KEYS: { STREAM: 'stream:' },
+  CACHE_TTL: { SHORT: 60 },
+  getCachedData: jest.fn(),
+  setCachedData: jest.fn(),
+  deleteCachedData: jest.fn(),
+}));
+
+import {
+  chatSettingsSchema,
+  checkChatAccess,
+  evaluateChatMessage,
+  findBannedKeyword,
+  getStreamChatContext,
+  isEmoteOnlyMessage,
+  StreamChatContext,
+  StreamChatSettings,
+  updateStreamChatSettings,
+} from '../stream-chat-moderation';
+import { prisma } from '@/lib/prisma';
+import { deleteCachedData, getCachedData } from '@/lib/redis';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Stream Chat Moderation', () => {
+  const settings: StreamChatSettings = {
+    slowModeSeconds: 0,
+    subscribersOnly: false,
+    tierIds: null,
+    emoteOnly: false,
+    bannedKeywords: [],
+  };
+
+  const context: StreamChatContext = {
+    streamId: 'stream-1',
+    artistId: 'artist-1',
+    settings,
+    moderatorIds: ['mod-1'],
+  };
+
+  const stream = {
+    id: 'stream-1',
+    artistId: 'artist-1',
+    chatSlowModeSeconds: 10,
+    chatSubscribersOnly: true,
+    chatTierIds: JSON.stringify(['tier-gold']),
+    chatEmoteOnly: false,
+    chatBannedKeywords: JSON.stringify([{ pattern: 'spoiler', isRegex: false }]),
+    stream_moderators: [{ userId: 'mod-1' }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getCachedData as jest.Mock).mockResolvedValue(null);
+    (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue(stream);
+  });
+
+  describe('chatSettingsSchema', () => {
+    it('should reject regex keywords that do not compile', () => {
+      const parse = (pattern: string) =>
+        chatSettingsSchema.safeParse({ bannedKeywords: [{ pattern, isRegex: true }] }).success;
+
+      expect(parse('fr[e3]e\\s*money')).toBe(true);
+      expect(parse('(unclosed')).toBe(false);
+    });
+
+    it('should reject regex keywords that could backtrack catastrophically', () => {
+      const parse = (pattern: string) =>
+        chatSettingsSchema.safeParse({ bannedKeywords: [{ pattern, isRegex: true }] }).success;
+
+      expect(parse('(a+)+$')).toBe(false);
+      expect(parse('(?:spam|spa)*x')).toBe(false);
+      expect(parse('((ab)*c)+')).toBe(false);
+      expect(parse('(\\w)\\1')).toBe(false);
+      expect(parse('(?:free|cheap)\\s+money')).toBe(true);
+      expect(parse('(bit)?coin')).toBe(true);
+    });
+
+    it('should cap slow mode at five minutes', () => {
+      expect(chatSettingsSchema.safeParse({ slowModeSeconds: 300 }).success).toBe(true);
+      expect(chatSettingsSchema.safeParse({ slowModeSeconds: 301 }).success).toBe(false);
+    });
+  });
+
+  describe('findBannedKeyword', () => {
+    it('should match plain keywords regardless of case', () => {
+      expect(
+        findBannedKeyword('No SPOILERS please', [{ pattern: 'spoiler', isRegex: false }])
+      ).toBe('spoiler');
+    });
+
+    it('should match regex keywords', () => {
+      const keywords = [{ pattern: 'fr[e3]{2}\\s*m[o0]ney', isRegex: true }];
+
+      expect(findBannedKeyword('get FR33 m0ney now', keywords)).toBe(keywords[0].pattern);
+      expect(findBannedKeyword('free music', keywords)).toBeNull();
+    });
+
+    it('should skip unsafe regex keywords that were saved earlier', () => {
+      expect(
+        findBannedKeyword('aaaaaaaaaaaaaaaaaaaaaaaaaaaa!', [{ pattern: '(a+)+$', isRegex: true }])
+      ).toBeNull();
+    });
+  });
+
+  describe('isEmoteOnlyMessage', () => {
+    it('should accept emoji and named emotes only', () => {
+      expect(isEmoteOnlyMessage('🔥🔥 :hype: 👏🏽')).toBe(true);
+      expect(isEmoteOnlyMessage('🇺🇸 ❤️')).toBe(true);
+      expect(isEmoteOnlyMessage('so good 🔥')).toBe(false);
+      expect(isEmoteOnlyMessage('123')).toBe(false);
+      expect(isEmoteOnlyMessage('   ')).toBe(false);
+    });
+  });
+
+  describe('evaluateChatMessage', () => {
+    it('should enforce emote-only mode and keyword filters', () => {
+      expect(evaluateChatMessage({ ...settings, emoteOnly: true }, 'hello')).toEqual({
+        allowed: false,
+        reason: 'Chat is in emote-only mode',
+      });
+      expect(
+        evaluateChatMessage(
+          { ...settings, bannedKeywords: [{ pattern: 'scam', isRegex: false }] },
+          'this is a scam'
+        ).allowed
+      ).toBe(false);
+      expect(evaluateChatMessage(settings, 'great set!')).toEqual({ allowed: true });
+    });
+  });
+
+  describe('checkChatAccess', () => {
+    const subscribersOnly = {
+      ...context,
+      settings: { ...settings, subscribersOnly: true, tierIds: ['tier-gold'] },
+    };
+
+    it('should let anyone chat when the stream is open', async () => {
+      await expect(checkChatAccess('fan-1', context)).resolves.toEqual({ allowed: true });
+      expect(mockPrisma.subscriptions.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should limit subscriber-only chat to the selected tiers', async () => {
+      (mockPrisma.subscriptions.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(checkChatAccess('fan-1', subscribersOnly)).resolves.toEqual({
+        allowed: false,
+        reason: 'Chat is limited to selected tiers',
+      });
+      expect(mockPrisma.subscriptions.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            fanId: 'fan-1',
+            tiers: { artistId: 'artist-1' },
+            tierId: { in: ['tier-gold'] },
+          }),
+        })
+      );
+    });
+
+    it('should always let the artist and moderators chat', async () => {
+      await expect(checkChatAccess('artist-1', subscribersOnly)).resolves.toEqual({
+        allowed: true,
+      });
+      await expect(checkChatAccess('mod-1', subscribersOnly)).resolves.toEqual({ allowed: true });
+      expect(mockPrisma.subscriptions.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStreamChatContext', () => {
+    it('should read settings and moderators from the stream record', async () => {
+      const result = await getStreamChatContext('stream-1');
+
+      expect(result).toEqual({
+        streamId: 'stream-1',
+        artistId: 'artist-1',
+        settings: {
+          slowModeSeconds: 10,
+          subscribersOnly: true,
+          tierIds: ['tier-gold'],
+          emoteOnly: false,
+          bannedKeywords: [{ pattern: 'spoiler', isRegex: false }],
+        },
+        moderatorIds: ['mod-1'],
+      });
+    });
+
+    it('should serve cached settings without a database read', async () => {
+      (getCachedData as jest.Mock).mockResolvedValue(context);
+
+      await expect(getStreamChatContext('stream-1')).resolves.toBe(context);
+      expect(mockPrisma.live_streams.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateStreamChatSettings', () => {
+    it('should persist settings, replace moderators and drop the cache', async () => {
+      (mockPrisma.live_streams.update as jest.Mock).mockReturnValue('update-op');
+      (mockPrisma.stream_moderators.deleteMany as jest.Mock).mockReturnValue('delete-op');
+      (mockPrisma.stream_moderators.createMany as jest.Mock).mockReturnValue('create-op');
+
+      await updateStreamChatSettings('stream-1', 'artist-1', {
+        slowModeSeconds: 30,
+        emoteOnly: true,
+        moderatorIds: ['mod-2', 'artist-1', 'mod-2'],
+      });
+
+      expect(mockPrisma.live_streams.update).toHaveBeenCalledWith({
+        where: { id: 'stream-1' },
+        data: expect.objectContaining({ chatSlowModeSeconds: 30, chatEmoteOnly: true }),
+      });
+      expect(mockPrisma.stream_moderators.deleteMany).toHaveBeenCalledWith({
+        where: { streamId: 'stream-1', userId: { notIn: ['mod-2'] } },
+      });
+      expect(mockPrisma.stream_moderators.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ userId: 'mod-2', addedBy: 'artist-1' })],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(['update-op', 'delete-op', 'create-op']);
+      expect(deleteCachedData).toHaveBeenCalledWith('stream:stream-1:chat');
+    });
+  });
+});
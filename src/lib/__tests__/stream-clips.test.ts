@@ -0,0 +1,206 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    subscriptions: {
+      findFirst: jest.fn(),
+    },
+    stream_recordings: {
+      findFirst: jest.fn(),
+    },
+    stream_clips: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findMany: jest.fn(),
+    },
+    content: {
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/media-processing/transcoding-pipeline', () => ({
+  transcodingPipeline: {
+    queueClipJob: jest.fn(),
+  },
+}));
+
+import {
+  canClipStream,
+  createClipSchema,
+  createStreamClip,
+  getStreamClips,
+  getStreamTierIds,
+} from '../stream-clips';
+import { prisma } from '@/lib/prisma';
+import { transcodingPipeline } from '@/lib/media-processing/transcoding-pipeline';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockPipeline = transcodingPipeline as jest.Mocked<typeof transcodingPipeline>;
+
+describe('Stream Clips', () => {
+  const stream = {
+    id: 'stream-1',
+    artistId: 'artist-1',
+    isPublic: false,
+    tierIds: JSON.stringify(['tier-1', 'tier-2']),
+  };
+
+  const input = {
+    recordingId: 'rec-1',
+    startSeconds: 120,
+    endSeconds: 150,
+    title: 'Best moment',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createClipSchema', () => {
+    it('should only allow clips of 15 to 60 seconds', () => {
+      expect(createClipSchema.safeParse(input).success).toBe(true);
+      expect(createClipSchema.safeParse({ ...input, endSeconds: 130 }).success).toBe(false);
+      expect(createClipSchema.safeParse({ ...input, endSeconds: 181 }).success).toBe(false);
+    });
+  });
+
+  describe('getStreamTierIds', () => {
+    it('should ignore tiers on public streams', () => {
+      expect(getStreamTierIds(stream)).toEqual(['tier-1', 'tier-2']);
+      expect(getStreamTierIds({ ...stream, isPublic: true })).toEqual([]);
+      expect(getStreamTierIds({ ...stream, tierIds: 'not json' })).toEqual([]);
+    });
+  });
+
+  describe('canClipStream', () => {
+    it('should let the artist clip their own stream', async () => {
+      await expect(canClipStream('artist-1', stream)).resolves.toBe(true);
+      expect(mockPrisma.subscriptions.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should require a subscription to one of the stream tiers', async () => {
+      (mockPrisma.subscriptions.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(canClipStream('fan-1', stream)).resolves.toBe(false);
+      expect(mockPrisma.subscriptions.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ fanId: 'fan-1', tierId: { in: ['tier-1', 'tier-2'] } }),
+        })
+      );
+    });
+  });
+
+  describe('createStreamClip', () => {
+    const recording = {
+      id: 'rec-1',
+      streamId: 'stream-1',
+      videoUrl: 'https://bucket.s3.amazonaws.com/recordings/rec-1.mp4',
+      thumbnailUrl: 'https://bucket.s3.amazonaws.com/recordings/rec-1.jpg',
+      duration: 3600,
+      status: 'READY',
+    };
+
+    beforeEach(() => {
+      (mockPrisma.stream_recordings.findFirst as jest.Mock).mockResolvedValue(recording);
+      (mockPrisma.content.create as jest.Mock).mockImplementation(({ data }) => data);
+      mockPipeline.queueClipJob.mockResolvedValue('job-1');
+    });
+
+    it('should create tier-locked content and queue the cut', async () => {
+      const clip = await createStreamClip(stream, 'fan-1', input);
+
+      expect(mockPrisma.content.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          artistId: 'artist-1',
+          title: 'Best moment',
+          type: 'VIDEO',
+          visibility: 'TIER_LOCKED',
+          status: 'PROCESSING',
+          duration: 30,
+          tiers: { connect: [{ id: 'tier-1' }, { id: 'tier-2' }] },
+        }),
+      });
+      expect(mockPrisma.stream_clips.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          streamId: 'stream-1',
+          recordingId: 'rec-1',
+          contentId: clip.contentId,
+          createdById: 'fan-1',
+        }),
+      });
+      expect(mockPipeline.queueClipJob).toHaveBeenCalledWith(
+        clip.contentId,
+        'fan-1',
+        recording.videoUrl,
+        { startSeconds: 120, endSeconds: 150 }
+      );
+      expect(clip).toEqual(expect.objectContaining({ jobId: 'job-1', visibility: 'TIER_LOCKED' }));
+    });
+
+    it('should publish clips of open streams publicly', async () => {
+      await createStreamClip({ ...stream, isPublic: true }, 'fan-1', input);
+
+      const { data } = (mockPrisma.content.create as jest.Mock).mock.calls[0][0];
+      expect(data.visibility).toBe('PUBLIC');
+      expect(data.tiers).toBeUndefined();
+    });
+
+    it('should reject clips past the end of the recording', async () => {
+      (mockPrisma.stream_recordings.findFirst as jest.Mock).mockResolvedValue({
+        ...recording,
+        duration: 140,
+      });
+
+      await expect(createStreamClip(stream, 'fan-1', input)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockPrisma.content.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject recordings that are still processing', async () => {
+      (mockPrisma.stream_recordings.findFirst as jest.Mock).mockResolvedValue({
+        ...recording,
+        status: 'PROCESSING',
+      });
+
+      await expect(createStreamClip(stream, 'fan-1', input)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it('should remove the content when the job cannot be queued', async () => {
+      mockPipeline.queueClipJob.mockRejectedValueOnce(new Error('Processing queue is full'));
+
+      await expect(createStreamClip(stream, 'fan-1', input)).rejects.toThrow(
+        'Processing queue is full'
+      );
+      expect(mockPrisma.content.delete).toHaveBeenCalled();
+      expect(mockPrisma.stream_clips.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStreamClips', () => {
+    beforeEach(() => {
+      (mockPrisma.stream_clips.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should only show published clips to fans', async () => {
+      await getStreamClips(stream, 'fan-1');
+
+      expect(mockPrisma.stream_clips.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { streamId: 'stream-1', content: { status: 'PUBLISHED' } },
+        })
+      );
+    });
+
+    it('should show the artist clips still processing', async () => {
+      await getStreamClips(stream, 'artist-1');
+
+      expect(mockPrisma.stream_clips.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { streamId: 'stream-1' } })
+      );
+    });
+  });
+});
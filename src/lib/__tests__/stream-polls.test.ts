@@ -0,0 +1,206 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    stream_polls: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    stream_poll_votes: {
+      findFirst: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}));
+
+import {
+  castPollVote,
+  closeStreamPoll,
+  createPollSchema,
+  createStreamPoll,
+  getStreamPollResults,
+  tallyPollVotes,
+} from '../stream-polls';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Stream Polls', () => {
+  const poll = {
+    id: 'poll-1',
+    streamId: 'stream-1',
+    question: 'Which song next?',
+    options: JSON.stringify(['Intro', 'Outro', 'Encore']),
+    isActive: true,
+    allowMultiple: false,
+    createdAt: new Date('2026-06-01T20:00:00Z'),
+    endedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.stream_polls.findUnique as jest.Mock).mockImplementation(({ include }) =>
+      Promise.resolve(include ? { ...poll, stream_poll_votes: [] } : poll)
+    );
+  });
+
+  describe('createPollSchema', () => {
+    it('should need between two and six distinct options', () => {
+      const parse = (options: string[]) =>
+        createPollSchema.safeParse({ question: 'Pick one', options }).success;
+
+      expect(parse(['A', 'B'])).toBe(true);
+      expect(parse(['A'])).toBe(false);
+      expect(parse(['A', 'B', 'C', 'D', 'E', 'F', 'G'])).toBe(false);
+      expect(parse(['Encore', 'encore'])).toBe(false);
+    });
+  });
+
+  describe('tallyPollVotes', () => {
+    it('should count votes and voters per option', () => {
+      const results = tallyPollVotes({ ...poll, allowMultiple: true }, [
+        { optionIndex: 0, sessionId: 'fan-1' },
+        { optionIndex: 2, sessionId: 'fan-1' },
+        { optionIndex: 0, sessionId: 'fan-2' },
+        { optionIndex: 0, sessionId: 'fan-3' },
+      ]);
+
+      expect(results.options).toEqual([
+        { text: 'Intro', votes: 3, percentage: 75 },
+        { text: 'Outro', votes: 0, percentage: 0 },
+        { text: 'Encore', votes: 1, percentage: 25 },
+      ]);
+      expect(results.totalVotes).toBe(4);
+      expect(results.totalVoters).toBe(3);
+    });
+  });
+
+  describe('createStreamPoll', () => {
+    it('should close the running poll before opening a new one', async () => {
+      (mockPrisma.stream_polls.updateMany as jest.Mock).mockReturnValue('close-op');
+      (mockPrisma.stream_polls.create as jest.Mock).mockReturnValue('create-op');
+      (mockPrisma.$transaction as jest.Mock).mockResolvedValue([{ count: 1 }, poll]);
+
+      const results = await createStreamPoll('stream-1', {
+        question: 'Which song next?',
+        options: ['Intro', 'Outro', 'Encore'],
+        allowMultiple: false,
+      });
+
+      expect(mockPrisma.stream_polls.updateMany).toHaveBeenCalledWith({
+        where: { streamId: 'stream-1', isActive: true },
+        data: expect.objectContaining({ isActive: false }),
+      });
+      expect(mockPrisma.stream_polls.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          streamId: 'stream-1',
+          options: poll.options,
+          isActive: true,
+        }),
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(['close-op', 'create-op']);
+      expect(results.totalVotes).toBe(0);
+    });
+  });
+
+  describe('castPollVote', () => {
+    const vote = { streamId: 'stream-1', pollId: 'poll-1', voterId: 'fan-1', sessionId: 'fan-1' };
+
+    beforeEach(() => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation(callback => callback(mockPrisma));
+    });
+
+    it('should record a single vote', async () => {
+      (mockPrisma.stream_poll_votes.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await castPollVote({ ...vote, optionIndexes: [1] });
+
+      expect(mockPrisma.$queryRaw).toHaveBeenCalled();
+      expect(mockPrisma.stream_poll_votes.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ pollId: 'poll-1', sessionId: 'fan-1', optionIndex: 1 })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should only let fans vote once on single-choice polls', async () => {
+      (mockPrisma.stream_poll_votes.findFirst as jest.Mock).mockResolvedValue({ id: 'vote-1' });
+
+      await expect(castPollVote({ ...vote, optionIndexes: [0] })).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      await expect(castPollVote({ ...vote, optionIndexes: [0, 1] })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockPrisma.stream_poll_votes.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should accept several options on multiple-choice polls', async () => {
+      (mockPrisma.stream_polls.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...poll,
+        allowMultiple: true,
+      });
+
+      await castPollVote({ ...vote, optionIndexes: [0, 2, 2] });
+
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+      expect(mockPrisma.stream_poll_votes.findFirst).not.toHaveBeenCalled();
+      expect(mockPrisma.stream_poll_votes.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ optionIndex: 0 }),
+          expect.objectContaining({ optionIndex: 2 }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should reject polls from another stream', async () => {
+      await expect(
+        castPollVote({ ...vote, streamId: 'stream-2', optionIndexes: [0] })
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should reject votes on closed polls and unknown options', async () => {
+      (mockPrisma.stream_polls.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...poll,
+        isActive: false,
+      });
+
+      await expect(castPollVote({ ...vote, optionIndexes: [0] })).rejects.toMatchObject({
+        message: 'This poll has closed',
+      });
+      await expect(castPollVote({ ...vote, optionIndexes: [3] })).rejects.toMatchObject({
+        message: 'Invalid poll option',
+      });
+    });
+  });
+
+  describe('closeStreamPoll', () => {
+    it('should end the poll and return its final results', async () => {
+      (mockPrisma.stream_polls.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const results = await closeStreamPoll('stream-1', 'poll-1');
+
+      expect(mockPrisma.stream_polls.updateMany).toHaveBeenCalledWith({
+        where: { id: 'poll-1', streamId: 'stream-1', isActive: true },
+        data: expect.objectContaining({ isActive: false }),
+      });
+      expect(results.pollId).toBe('poll-1');
+    });
+  });
+
+  describe('getStreamPollResults', () => {
+    it('should archive every poll run on the stream', async () => {
+      (mockPrisma.stream_polls.findMany as jest.Mock).mockResolvedValue([
+        { ...poll, isActive: false, stream_poll_votes: [{ optionIndex: 2, sessionId: 'fan-1' }] },
+      ]);
+
+      const results = await getStreamPollResults('stream-1');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].options[2]).toEqual({ text: 'Encore', votes: 1, percentage: 100 });
+    });
+  });
+});
@@ -0,0 +1,239 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    live_streams: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    stream_rsvps: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    subscriptions: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  sendNotification: jest.fn(),
+}));
+
+import {
+  buildStreamCalendar,
+  escapeIcsText,
+  getDueReminderOffsets,
+  getUpcomingStreamsForFan,
+  isStreamOpenToTiers,
+  rsvpToStream,
+  sendStreamReminders,
+} from '../stream-reminders';
+import { prisma } from '@/lib/prisma';
+import { sendNotification } from '@/lib/notifications';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Stream Reminders', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+  const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sendNotification as jest.Mock).mockResolvedValue('notification-1');
+  });
+
+  describe('getDueReminderOffsets', () => {
+    it('should send the reminder that just came due', () => {
+      expect(getDueReminderOffsets(minutesFromNow(55), [1440, 60, 10], [1440], now)).toEqual({
+        send: 60,
+        due: [60],
+      });
+    });
+
+    it('should send only the closest reminder when several are due at once', () => {
+      expect(getDueReminderOffsets(minutesFromNow(5), [1440, 60, 10], [], now)).toEqual({
+        send: 10,
+        due: [1440, 60, 10],
+      });
+    });
+
+    it('should skip reminders once the stream is well past its start', () => {
+      expect(getDueReminderOffsets(minutesFromNow(-30), [0], [], now)).toEqual({
+        send: null,
+        due: [0],
+      });
+    });
+
+    it('should wait for reminders that are not due yet', () => {
+      expect(getDueReminderOffsets(minutesFromNow(120), [60], [], now).due).toEqual([]);
+    });
+  });
+
+  describe('isStreamOpenToTiers', () => {
+    it('should open public and untiered streams to everyone', () => {
+      expect(isStreamOpenToTiers({ isPublic: true, tierIds: '["gold"]' }, new Set())).toBe(true);
+      expect(isStreamOpenToTiers({ isPublic: false, tierIds: '[]' }, new Set())).toBe(true);
+    });
+
+    it("should require one of the stream's tiers", () => {
+      const stream = { isPublic: false, tierIds: '["gold","platinum"]' };
+
+      expect(isStreamOpenToTiers(stream, new Set(['gold']))).toBe(true);
+      expect(isStreamOpenToTiers(stream, new Set(['silver']))).toBe(false);
+    });
+  });
+
+  describe('rsvpToStream', () => {
+    const stream = {
+      id: 'stream-1',
+      artistId: 'artist-1',
+      status: 'SCHEDULED',
+      scheduledAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      isPublic: false,
+      tierIds: '["gold"]',
+    };
+
+    it('should save the reminder offsets', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue(stream);
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([{ tierId: 'gold' }]);
+      (mockPrisma.stream_rsvps.upsert as jest.Mock).mockImplementation(({ create }) =>
+        Promise.resolve(create)
+      );
+
+      const rsvp = await rsvpToStream('stream-1', 'fan-1', { reminderOffsets: [10, 1440] });
+
+      expect(rsvp).toEqual({
+        streamId: 'stream-1',
+        reminderOffsets: [1440, 10],
+        channels: ['email', 'in_app', 'push'],
+      });
+    });
+
+    it("should reject fans whose tier can't watch the stream", async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue(stream);
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(rsvpToStream('stream-1', 'fan-1')).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockPrisma.stream_rsvps.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject streams that are not upcoming', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        ...stream,
+        status: 'ENDED',
+      });
+
+      await expect(rsvpToStream('stream-1', 'fan-1')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('sendStreamReminders', () => {
+    const rsvp = {
+      id: 'rsvp-1',
+      streamId: 'stream-1',
+      fanId: 'fan-1',
+      reminderOffsets: '[1440,60]',
+      channels: '["email","push"]',
+      remindersSent: '[1440]',
+      live_streams: {
+        id: 'stream-1',
+        title: 'Album release party',
+        scheduledAt: minutesFromNow(45),
+        users: { displayName: 'Nova' },
+      },
+    };
+
+    it('should notify the fan on their channels and record the reminder', async () => {
+      (mockPrisma.stream_rsvps.findMany as jest.Mock).mockResolvedValue([rsvp]);
+      (mockPrisma.stream_rsvps.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await expect(sendStreamReminders(now)).resolves.toBe(1);
+
+      expect(mockPrisma.stream_rsvps.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rsvp-1', remindersSent: '[1440]' },
+        data: expect.objectContaining({ remindersSent: '[1440,60]' }),
+      });
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'fan-1',
+          type: 'stream_reminder',
+          channels: ['email', 'push'],
+          message: '"Album release party" by Nova starts in 1 hour.',
+        })
+      );
+    });
+
+    it('should not send a reminder another instance already claimed', async () => {
+      (mockPrisma.stream_rsvps.findMany as jest.Mock).mockResolvedValue([rsvp]);
+      (mockPrisma.stream_rsvps.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(sendStreamReminders(now)).resolves.toBe(0);
+      expect(sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUpcomingStreamsForFan', () => {
+    it("should only list streams the fan's tiers can access", async () => {
+      const base = {
+        description: null,
+        status: 'SCHEDULED',
+        scheduledAt: minutesFromNow(60),
+        requiresPayment: false,
+        stream_rsvps: [],
+      };
+      (mockPrisma.live_streams.findMany as jest.Mock).mockResolvedValue([
+        { ...base, id: 'public', title: 'Public', isPublic: true, tierIds: '[]' },
+        { ...base, id: 'gold', title: 'Gold only', isPublic: false, tierIds: '["gold"]' },
+        { ...base, id: 'vip', title: 'VIP only', isPublic: false, tierIds: '["vip"]' },
+      ]);
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([{ tierId: 'gold' }]);
+
+      const streams = await getUpcomingStreamsForFan('artist-1', 'fan-1', now);
+
+      expect(streams.map(stream => stream.id)).toEqual(['public', 'gold']);
+    });
+  });
+
+  describe('buildStreamCalendar', () => {
+    it('should escape text and list each stream as an event', () => {
+      const calendar = buildStreamCalendar(
+        { id: 'artist-1', displayName: 'Nova' },
+        [
+          {
+            id: 'stream-1',
+            title: 'Q&A; part 1, live',
+            description: null,
+            scheduledAt: new Date('2026-06-02T18:30:00Z'),
+          },
+        ],
+        'https://directfanz.io',
+        now
+      );
+
+      expect(calendar.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(calendar).toContain('UID:stream-stream-1@directfanz');
+      expect(calendar).toContain('DTSTART:20260602T183000Z');
+      expect(calendar).toContain('DTEND:20260602T193000Z');
+      expect(calendar).toContain('SUMMARY:Nova: Q&A\\; part 1\\, live');
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should fold long lines', () => {
+      const calendar = buildStreamCalendar(
+        { id: 'artist-1', displayName: 'Nova' },
+        [{ id: 's', title: 'x'.repeat(200), description: null, scheduledAt: now }],
+        'https://directfanz.io',
+        now
+      );
+
+      for (const line of calendar.split('\r\n')) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+    });
+
+    it('should escape newlines and backslashes', () => {
+      expect(escapeIcsText('a\\b\nc')).toBe('a\\\\b\\nc');
+    });
+  });
+});
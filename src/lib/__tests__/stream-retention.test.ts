@@ -0,0 +1,198 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    live_streams: {
+      findUnique: jest.fn(),
+    },
+    stream_viewers: {
+      findMany: jest.fn(),
+    },
+    stream_chat_messages: {
+      findMany: jest.fn(),
+    },
+    stream_tips: {
+      findMany: jest.fn(),
+    },
+    subscriptions: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+import {
+  averageWatchTimeBySegment,
+  buildConcurrencyCurve,
+  buildRetentionCurve,
+  detectAudienceSpikes,
+  getStreamRetentionAnalytics,
+  getWatchSeconds,
+  ConcurrencyPoint,
+} from '../stream-retention';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Stream Retention', () => {
+  const startedAt = new Date('2026-06-01T20:00:00Z');
+  const endedAt = new Date('2026-06-01T20:05:00Z');
+  const at = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000);
+
+  const session = (joined: number, left: number | null, overrides = {}) => ({
+    sessionId: `session-${joined}-${left}`,
+    viewerId: null,
+    isAnonymous: true,
+    joinedAt: at(joined),
+    leftAt: left === null ? null : at(left),
+    watchTime: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getWatchSeconds', () => {
+    it('should prefer the recorded watch time', () => {
+      expect(getWatchSeconds(session(0, 120, { watchTime: 90 }), endedAt)).toBe(90);
+    });
+
+    it('should count open sessions up to the end of the stream', () => {
+      expect(getWatchSeconds(session(60, null), endedAt)).toBe(240);
+    });
+  });
+
+  describe('buildConcurrencyCurve', () => {
+    it('should count viewers, joins and leaves per minute', () => {
+      const curve = buildConcurrencyCurve(
+        [session(0, 150), session(30, null), session(200, 250)],
+        startedAt,
+        endedAt,
+        { chat: [at(10), at(20), at(210)], tips: [{ createdAt: at(215), amount: 5 }] }
+      );
+
+      expect(curve.map(point => point.viewers)).toEqual([2, 2, 2, 2, 2]);
+      expect(curve.map(point => point.joins)).toEqual([2, 0, 0, 1, 0]);
+      expect(curve.map(point => point.leaves)).toEqual([0, 0, 1, 0, 1]);
+      expect(curve[0].chatMessages).toBe(2);
+      expect(curve[3]).toEqual(expect.objectContaining({ chatMessages: 1, tipAmount: 5 }));
+    });
+  });
+
+  describe('buildRetentionCurve', () => {
+    it('should show the share of viewers still watching at each minute', () => {
+      expect(buildRetentionCurve([30, 90, 180, 300])).toEqual([
+        { minute: 0, percentage: 100 },
+        { minute: 1, percentage: 75 },
+        { minute: 2, percentage: 50 },
+        { minute: 3, percentage: 50 },
+        { minute: 4, percentage: 25 },
+        { minute: 5, percentage: 25 },
+      ]);
+    });
+
+    it('should be empty without viewers', () => {
+      expect(buildRetentionCurve([])).toEqual([]);
+    });
+  });
+
+  describe('averageWatchTimeBySegment', () => {
+    it('should average watch time per audience segment', () => {
+      expect(
+        averageWatchTimeBySegment([
+          { segment: 'Gold', watchSeconds: 600 },
+          { segment: 'Gold', watchSeconds: 300 },
+          { segment: 'Anonymous', watchSeconds: 60 },
+        ])
+      ).toEqual([
+        { segment: 'Gold', viewers: 2, averageWatchSeconds: 450 },
+        { segment: 'Anonymous', viewers: 1, averageWatchSeconds: 60 },
+      ]);
+    });
+  });
+
+  describe('detectAudienceSpikes', () => {
+    const point = (minute: number, joins: number, leaves: number): ConcurrencyPoint => ({
+      minute,
+      viewers: 0,
+      joins,
+      leaves,
+      chatMessages: minute,
+      tipAmount: 0,
+    });
+
+    it('should flag minutes well above the average join or leave rate', () => {
+      const points = [
+        point(0, 1, 0),
+        point(1, 1, 0),
+        point(2, 12, 0),
+        point(3, 1, 1),
+        point(4, 0, 1),
+        point(5, 0, 9),
+        point(6, 1, 0),
+        point(7, 1, 1),
+      ];
+
+      expect(detectAudienceSpikes(points)).toEqual([
+        { minute: 2, kind: 'JOIN', viewers: 12, chatMessages: 2, tipAmount: 0 },
+        { minute: 5, kind: 'LEAVE', viewers: 9, chatMessages: 5, tipAmount: 0 },
+      ]);
+    });
+
+    it('should ignore small streams', () => {
+      expect(detectAudienceSpikes([point(0, 3, 0), point(1, 0, 0), point(2, 0, 0)])).toEqual([]);
+    });
+  });
+
+  describe('getStreamRetentionAnalytics', () => {
+    it('should split watch time by the tier viewers hold', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        id: 'stream-1',
+        artistId: 'artist-1',
+        startedAt,
+        endedAt,
+      });
+      (mockPrisma.stream_viewers.findMany as jest.Mock).mockResolvedValue([
+        session(0, 300, { viewerId: 'fan-1', isAnonymous: false }),
+        session(0, 60, { viewerId: 'fan-2', isAnonymous: false }),
+        session(0, 120),
+      ]);
+      (mockPrisma.stream_chat_messages.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.stream_tips.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.subscriptions.findMany as jest.Mock).mockResolvedValue([
+        { fanId: 'fan-1', tiers: { name: 'Gold' } },
+      ]);
+
+      const analytics = await getStreamRetentionAnalytics('stream-1');
+
+      expect(mockPrisma.subscriptions.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            fanId: { in: ['fan-1', 'fan-2'] },
+            tiers: { artistId: 'artist-1' },
+          }),
+        })
+      );
+      expect(analytics?.uniqueViewers).toBe(3);
+      expect(analytics?.durationSeconds).toBe(300);
+      expect(analytics?.watchTimeBySegment).toEqual(
+        expect.arrayContaining([
+          { segment: 'Gold', viewers: 1, averageWatchSeconds: 300 },
+          { segment: 'Signed in, no tier', viewers: 1, averageWatchSeconds: 60 },
+          { segment: 'Anonymous', viewers: 1, averageWatchSeconds: 120 },
+        ])
+      );
+    });
+
+    it('should return null for streams that never started', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        id: 'stream-1',
+        artistId: 'artist-1',
+        startedAt: null,
+        endedAt: null,
+      });
+
+      await expect(getStreamRetentionAnalytics('stream-1')).resolves.toBeNull();
+      expect(mockPrisma.stream_viewers.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,385 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    subscriptions: {
+      findFirst: jest.fn(),
+    },
+    live_streams: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    stream_tickets: {
+      count: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  stripe: {
+    refunds: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  sendEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/chargeback-manager', () => ({
+  chargebackManager: {
+    recordRefund: jest.fn(),
+  },
+}));
+
+import {
+  calculateTicketPrice,
+  confirmStreamTicket,
+  getSaleWindow,
+  refundStreamTickets,
+  reserveStreamTicket,
+  ticketSettingsSchema,
+  validateStreamTicket,
+  TicketedStream,
+} from '../stream-tickets';
+import { prisma } from '@/lib/prisma';
+import { stripe } from '@/lib/stripe';
+import { sendEmail } from '@/lib/notifications';
+import { chargebackManager } from '@/lib/chargeback-manager';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockStripe = stripe as jest.Mocked<typeof stripe>;
+const mockSendEmail = sendEmail as jest.MockedFunction<typeof sendEmail>;
+const mockChargebackManager = chargebackManager as jest.Mocked<typeof chargebackManager>;
+
+describe('Stream Tickets', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+  const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const stream: TicketedStream = {
+    id: 'stream-1',
+    artistId: 'artist-1',
+    title: 'Album launch',
+    status: 'SCHEDULED',
+    requiresPayment: true,
+    paymentAmount: 20,
+    ticketCapacity: 100,
+    presaleStartsAt: null,
+    ticketSalesStartAt: null,
+    earlyBirdPrice: null,
+    earlyBirdEndsAt: null,
+    tierHolderDiscountPercent: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('ticketSettingsSchema', () => {
+    it('should require early-bird prices below the regular price', () => {
+      const settings = { price: 20, earlyBirdEndsAt: daysFromNow(3).toISOString() };
+
+      expect(ticketSettingsSchema.safeParse({ ...settings, earlyBirdPrice: 15 }).success).toBe(
+        true
+      );
+      expect(ticketSettingsSchema.safeParse({ ...settings, earlyBirdPrice: 25 }).success).toBe(
+        false
+      );
+    });
+
+    it('should require the pre-sale to open before the general sale', () => {
+      const result = ticketSettingsSchema.safeParse({
+        price: 20,
+        presaleStartsAt: daysFromNow(2).toISOString(),
+        salesStartAt: daysFromNow(1).toISOString(),
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('calculateTicketPrice', () => {
+    const earlyBird = { ...stream, earlyBirdPrice: 15, earlyBirdEndsAt: daysFromNow(1) };
+
+    it('should use the early-bird price until it ends', () => {
+      expect(calculateTicketPrice(earlyBird, false, now)).toEqual({
+        amount: 15,
+        basePrice: 15,
+        pricing: 'EARLY_BIRD',
+        discountPercent: 0,
+      });
+      expect(calculateTicketPrice(earlyBird, false, daysFromNow(2)).pricing).toBe('STANDARD');
+    });
+
+    it('should stack the tier-holder discount on top', () => {
+      const price = calculateTicketPrice(
+        { ...earlyBird, tierHolderDiscountPercent: 20 },
+        true,
+        now
+      );
+
+      expect(price.amount).toBe(12);
+      expect(price.discountPercent).toBe(20);
+    });
+  });
+
+  describe('getSaleWindow', () => {
+    const presale = {
+      ...stream,
+      presaleStartsAt: daysFromNow(-1),
+      ticketSalesStartAt: daysFromNow(1),
+    };
+
+    it('should let tier holders in during the pre-sale', () => {
+      expect(getSaleWindow(presale, true, now)).toEqual({
+        onSale: true,
+        saleStartsAt: presale.presaleStartsAt,
+        isPresale: true,
+      });
+    });
+
+    it('should keep everyone else waiting for the general sale', () => {
+      expect(getSaleWindow(presale, false, now)).toEqual({
+        onSale: false,
+        saleStartsAt: presale.ticketSalesStartAt,
+        isPresale: false,
+      });
+    });
+
+    it('should stop sales once the stream is cancelled', () => {
+      expect(getSaleWindow({ ...stream, status: 'CANCELLED' }, false, now).onSale).toBe(false);
+    });
+  });
+
+  describe('reserveStreamTicket', () => {
+    beforeEach(() => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation(callback => callback(mockPrisma));
+      (mockPrisma.subscriptions.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.stream_tickets.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.stream_tickets.count as jest.Mock).mockResolvedValue(10);
+      (mockPrisma.stream_tickets.upsert as jest.Mock).mockImplementation(({ create }) => create);
+    });
+
+    it('should hold a seat at the current price', async () => {
+      const { ticket, quote } = await reserveStreamTicket(stream, 'fan-1');
+
+      expect(quote.remaining).toBe(90);
+      expect(ticket).toEqual(
+        expect.objectContaining({
+          streamId: 'stream-1',
+          fanId: 'fan-1',
+          amount: 20,
+          status: 'PENDING',
+          reservedUntil: new Date('2026-06-01T12:35:00Z'),
+        })
+      );
+      expect(mockPrisma.stream_tickets.count).toHaveBeenCalledWith({
+        where: {
+          streamId: 'stream-1',
+          OR: [{ status: 'CONFIRMED' }, { status: 'PENDING', reservedUntil: { gt: now } }],
+        },
+      });
+    });
+
+    it('should refuse once the stream is sold out', async () => {
+      (mockPrisma.stream_tickets.count as jest.Mock).mockResolvedValue(100);
+
+      await expect(reserveStreamTicket(stream, 'fan-1')).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'This stream is sold out',
+      });
+      expect(mockPrisma.stream_tickets.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should recount seats under the stream lock before holding one', async () => {
+      // The last seat goes to another checkout between the quote and the hold
+      (mockPrisma.stream_tickets.count as jest.Mock)
+        .mockResolvedValueOnce(99)
+        .mockResolvedValueOnce(100);
+
+      await expect(reserveStreamTicket(stream, 'fan-1')).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'This stream is sold out',
+      });
+      expect(mockPrisma.$queryRaw).toHaveBeenCalled();
+      expect(mockPrisma.stream_tickets.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should refuse fans who already hold a ticket', async () => {
+      (mockPrisma.stream_tickets.findUnique as jest.Mock).mockResolvedValue({
+        status: 'CONFIRMED',
+      });
+
+      await expect(reserveStreamTicket(stream, 'fan-1')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it('should reuse a lapsed checkout', async () => {
+      (mockPrisma.stream_tickets.findUnique as jest.Mock).mockResolvedValue({
+        status: 'PENDING',
+        reservedUntil: daysFromNow(-1),
+      });
+
+      await reserveStreamTicket(stream, 'fan-1');
+
+      expect(mockPrisma.stream_tickets.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ status: 'PENDING', stripeSessionId: null }),
+        })
+      );
+    });
+
+    it('should refuse before the sale opens', async () => {
+      await expect(
+        reserveStreamTicket({ ...stream, ticketSalesStartAt: daysFromNow(1) }, 'fan-1')
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('confirmStreamTicket', () => {
+    const heldTicket = {
+      streamId: 'stream-1',
+      status: 'PENDING',
+      reservedUntil: daysFromNow(1),
+      live_streams: { ticketCapacity: 100 },
+    };
+
+    beforeEach(() => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation(callback => callback(mockPrisma));
+    });
+
+    it('should only confirm unpaid tickets', async () => {
+      (mockPrisma.stream_tickets.findUnique as jest.Mock)
+        .mockResolvedValueOnce(heldTicket)
+        .mockResolvedValueOnce({ ...heldTicket, status: 'CONFIRMED' });
+      (mockPrisma.stream_tickets.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+      await expect(confirmStreamTicket('ticket-1', 'cs_1', 'pi_1')).resolves.toBe('CONFIRMED');
+      await expect(confirmStreamTicket('ticket-1', 'cs_1', 'pi_1')).resolves.toBe(
+        'ALREADY_PROCESSED'
+      );
+      expect(mockPrisma.stream_tickets.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.stream_tickets.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ticket-1', status: { in: ['PENDING', 'EXPIRED'] } },
+        data: expect.objectContaining({ status: 'CONFIRMED', stripePaymentIntentId: 'pi_1' }),
+      });
+    });
+
+    it('should honour a lapsed hold while seats remain', async () => {
+      (mockPrisma.stream_tickets.findUnique as jest.Mock).mockResolvedValue({
+        ...heldTicket,
+        status: 'EXPIRED',
+        reservedUntil: null,
+      });
+      (mockPrisma.stream_tickets.count as jest.Mock).mockResolvedValue(99);
+      (mockPrisma.stream_tickets.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await expect(confirmStreamTicket('ticket-1', 'cs_1', 'pi_1')).resolves.toBe('CONFIRMED');
+    });
+
+    it('should not seat a lapsed hold once the stream has sold out', async () => {
+      (mockPrisma.stream_tickets.findUnique as jest.Mock).mockResolvedValue({
+        ...heldTicket,
+        status: 'EXPIRED',
+        reservedUntil: null,
+      });
+      (mockPrisma.stream_tickets.count as jest.Mock).mockResolvedValue(100);
+
+      await expect(confirmStreamTicket('ticket-1', 'cs_1', 'pi_1')).resolves.toBe('SOLD_OUT');
+      expect(mockPrisma.stream_tickets.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.stream_tickets.update).toHaveBeenCalledWith({
+        where: { id: 'ticket-1' },
+        data: expect.objectContaining({ status: 'EXPIRED', stripePaymentIntentId: 'pi_1' }),
+      });
+    });
+  });
+
+  describe('validateStreamTicket', () => {
+    beforeEach(() => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue(stream);
+    });
+
+    it('should require a confirmed ticket for ticketed streams', async () => {
+      (mockPrisma.stream_tickets.findUnique as jest.Mock).mockResolvedValue({ status: 'PENDING' });
+
+      await expect(validateStreamTicket('stream-1', 'fan-1')).resolves.toEqual({
+        valid: false,
+        error: 'A ticket is required to join this stream',
+      });
+    });
+
+    it('should let ticket holders and the artist in', async () => {
+      (mockPrisma.stream_tickets.findUnique as jest.Mock).mockResolvedValue({
+        status: 'CONFIRMED',
+      });
+
+      await expect(validateStreamTicket('stream-1', 'fan-1')).resolves.toEqual({ valid: true });
+      await expect(validateStreamTicket('stream-1', 'artist-1')).resolves.toEqual({
+        valid: true,
+      });
+    });
+  });
+
+  describe('refundStreamTickets', () => {
+    beforeEach(() => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        ...stream,
+        users: { displayName: 'Test Artist', artists: { stripeAccountId: 'acct_1' } },
+      });
+      (mockPrisma.stream_tickets.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: 'ticket-1',
+          amount: '20',
+          stripePaymentIntentId: 'pi_1',
+          users: { email: 'fan@example.com' },
+        },
+      ]);
+      mockStripe.refunds.create.mockResolvedValue({ charge: 'ch_1' } as any);
+    });
+
+    it('should refund paid tickets and release open checkouts', async () => {
+      const result = await refundStreamTickets('stream-1');
+
+      expect(result).toEqual({ refunded: 1, failed: 0 });
+      expect(mockPrisma.stream_tickets.updateMany).toHaveBeenCalledWith({
+        where: { streamId: 'stream-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'EXPIRED' }),
+      });
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+        { payment_intent: 'pi_1', refund_application_fee: true },
+        { stripeAccount: 'acct_1' }
+      );
+      expect(mockChargebackManager.recordRefund).toHaveBeenCalledWith('pi_1', 'ch_1', 20);
+      expect(mockPrisma.stream_tickets.update).toHaveBeenCalledWith({
+        where: { id: 'ticket-1' },
+        data: expect.objectContaining({ status: 'REFUNDED' }),
+      });
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'fan@example.com' })
+      );
+    });
+
+    it('should leave tickets for a retry when Stripe fails', async () => {
+      mockStripe.refunds.create.mockRejectedValueOnce(new Error('Stripe error'));
+
+      const result = await refundStreamTickets('stream-1');
+
+      expect(result).toEqual({ refunded: 0, failed: 1 });
+      expect(mockPrisma.stream_tickets.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    live_streams: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    stream_tips: {
+      aggregate: jest.fn(),
+    },
+  },
+}));
+
+import {
+  calculateTipGoalProgress,
+  getStreamOverlayToken,
+  getTipGoalProgress,
+  setStreamTipGoal,
+  tipGoalSchema,
+  toTipAlert,
+} from '../stream-tip-goals';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Stream Tip Goals', () => {
+  const tip = {
+    id: 'tip-1',
+    streamId: 'stream-1',
+    tipperName: 'Jamie',
+    amount: 25,
+    currency: 'USD',
+    message: 'Play the encore!',
+    isAnonymous: false,
+    showOnStream: true,
+    createdAt: new Date('2026-06-01T20:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toTipAlert', () => {
+    it('should show the tipper and their message', () => {
+      expect(toTipAlert(tip)).toEqual(
+        expect.objectContaining({
+          tipperName: 'Jamie',
+          amount: 25,
+          message: 'Play the encore!',
+        })
+      );
+    });
+
+    it('should hide the name of anonymous tippers', () => {
+      expect(toTipAlert({ ...tip, isAnonymous: true })?.tipperName).toBe('Anonymous');
+    });
+
+    it('should skip tips kept off stream', () => {
+      expect(toTipAlert({ ...tip, showOnStream: false })).toBeNull();
+    });
+  });
+
+  describe('calculateTipGoalProgress', () => {
+    it('should cap progress at 100 percent once the goal is reached', () => {
+      expect(calculateTipGoalProgress('stream-1', 'Encore', 500, 125)).toEqual(
+        expect.objectContaining({ percentage: 25, reached: false })
+      );
+      expect(calculateTipGoalProgress('stream-1', 'Encore', 500, 620)).toEqual(
+        expect.objectContaining({ percentage: 100, reached: true })
+      );
+    });
+  });
+
+  describe('getTipGoalProgress', () => {
+    it('should total completed tips against the goal', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        tipGoalTitle: 'Encore',
+        tipGoalAmount: 500,
+      });
+      (mockPrisma.stream_tips.aggregate as jest.Mock).mockResolvedValue({
+        _sum: { amount: 150 },
+      });
+
+      const progress = await getTipGoalProgress('stream-1');
+
+      expect(mockPrisma.stream_tips.aggregate).toHaveBeenCalledWith({
+        where: { streamId: 'stream-1', status: 'COMPLETED' },
+        _sum: { amount: true },
+      });
+      expect(progress).toEqual({
+        streamId: 'stream-1',
+        title: 'Encore',
+        goalAmount: 500,
+        raisedAmount: 150,
+        percentage: 30,
+        reached: false,
+      });
+    });
+
+    it('should return null when no goal is set', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        tipGoalTitle: null,
+        tipGoalAmount: null,
+      });
+
+      await expect(getTipGoalProgress('stream-1')).resolves.toBeNull();
+      expect(mockPrisma.stream_tips.aggregate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setStreamTipGoal', () => {
+    it('should validate the goal', () => {
+      expect(tipGoalSchema.safeParse({ title: 'Encore', amount: 500 }).success).toBe(true);
+      expect(tipGoalSchema.safeParse({ title: '', amount: 500 }).success).toBe(false);
+      expect(tipGoalSchema.safeParse({ title: 'Encore', amount: 0 }).success).toBe(false);
+    });
+
+    it('should clear the goal', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        tipGoalTitle: null,
+        tipGoalAmount: null,
+      });
+
+      await expect(setStreamTipGoal('stream-1', null)).resolves.toBeNull();
+      expect(mockPrisma.live_streams.update).toHaveBeenCalledWith({
+        where: { id: 'stream-1' },
+        data: expect.objectContaining({ tipGoalTitle: null, tipGoalAmount: null }),
+      });
+    });
+  });
+
+  describe('getStreamOverlayToken', () => {
+    it('should reuse the existing token unless rotating', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        overlayToken: 'existing-token',
+      });
+
+      await expect(getStreamOverlayToken('stream-1')).resolves.toBe('existing-token');
+      expect(mockPrisma.live_streams.update).not.toHaveBeenCalled();
+
+      const rotated = await getStreamOverlayToken('stream-1', true);
+
+      expect(rotated).not.toBe('existing-token');
+      expect(rotated).toMatch(/^[0-9a-f]{48}$/);
+      expect(mockPrisma.live_streams.update).toHaveBeenCalledWith({
+        where: { id: 'stream-1' },
+        data: expect.objectContaining({ overlayToken: rotated }),
+      });
+    });
+
+    it('should reject unknown streams', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(getStreamOverlayToken('stream-1')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    live_streams: {
+      findUnique: jest.fn(),
+    },
+    users: {
+      findUnique: jest.fn(),
+    },
+    stream_tips: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  createOrRetrieveCustomer: jest.fn(),
+  createPaymentCheckoutSession: jest.fn(),
+}));
+
+import { confirmStreamTip, createStreamTipCheckout } from '../stream-tips';
+import { prisma } from '@/lib/prisma';
+import { createOrRetrieveCustomer, createPaymentCheckoutSession } from '@/lib/stripe';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Stream Tips', () => {
+  const tipRequest = {
+    streamId: 'stream-1',
+    tipperId: 'fan-1',
+    tipperName: 'Sam',
+    amount: 10,
+    message: 'Great set!',
+    isAnonymous: false,
+    showOnStream: true,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+      id: 'stream-1',
+      artistId: 'artist-1',
+      title: 'Friday night',
+      users: { artists: { stripeAccountId: 'acct_123', isStripeOnboarded: true } },
+    });
+    (mockPrisma.users.findUnique as jest.Mock).mockResolvedValue({
+      email: 'fan@example.com',
+      displayName: 'Sam',
+    });
+    (mockPrisma.stream_tips.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve(data)
+    );
+    (createOrRetrieveCustomer as jest.Mock).mockResolvedValue('cus_123');
+    (createPaymentCheckoutSession as jest.Mock).mockResolvedValue(
+      'https://checkout.stripe.com/tip'
+    );
+  });
+
+  describe('createStreamTipCheckout', () => {
+    it('should save the tip as pending and open a checkout for it', async () => {
+      const result = await createStreamTipCheckout(tipRequest);
+
+      expect(mockPrisma.stream_tips.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ streamId: 'stream-1', amount: 10, status: 'PENDING' }),
+      });
+      expect(createPaymentCheckoutSession).toHaveBeenCalledWith(
+        'Tip: Friday night',
+        10,
+        'cus_123',
+        'acct_123',
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ type: 'stream_tip', tipId: result.tipId, artistId: 'artist-1' })
+      );
+      expect(result.checkoutUrl).toBe('https://checkout.stripe.com/tip');
+    });
+
+    it('should refuse tips for artists who cannot take payments', async () => {
+      (mockPrisma.live_streams.findUnique as jest.Mock).mockResolvedValue({
+        id: 'stream-1',
+        artistId: 'artist-1',
+        title: 'Friday night',
+        users: { artists: { stripeAccountId: null, isStripeOnboarded: false } },
+      });
+
+      await expect(createStreamTipCheckout(tipRequest)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockPrisma.stream_tips.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmStreamTip', () => {
+    it('should complete a pending tip', async () => {
+      (mockPrisma.stream_tips.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.stream_tips.findUnique as jest.Mock).mockResolvedValue({ id: 'tip-1' });
+
+      await expect(confirmStreamTip('tip-1', 'pi_123')).resolves.toEqual({ id: 'tip-1' });
+      expect(mockPrisma.stream_tips.updateMany).toHaveBeenCalledWith({
+        where: { id: 'tip-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'COMPLETED', stripePaymentIntentId: 'pi_123' }),
+      });
+    });
+
+    it('should ignore repeated webhook deliveries', async () => {
+      (mockPrisma.stream_tips.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(confirmStreamTip('tip-1', 'pi_123')).resolves.toBeNull();
+      expect(mockPrisma.stream_tips.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+// Mock dependencies first
+jest.mock('next-auth/jwt', () => ({
+  getToken: jest.fn(),
+}));
+
+jest.mock('@/lib/api-auth', () => ({
+  withApiAuth: jest.fn(),
+}));
+
+import {
+  canJoinAsCohost,
+  canManageCohosts,
+  checkStreamAccess,
+  MAX_STREAM_GUESTS,
+} from '../streaming-auth';
+import { UserRole } from '@/types/database';
+
+describe('Streaming Auth', () => {
+  describe('checkStreamAccess', () => {
+    it('should let fans and artists co-host', async () => {
+      for (const userRole of [UserRole.FAN, UserRole.ARTIST]) {
+        await expect(
+          checkStreamAccess({ streamId: 'stream-1', userId: 'user-1', userRole, action: 'cohost' })
+        ).resolves.toBe(true);
+      }
+    });
+  });
+
+  describe('canJoinAsCohost', () => {
+    const request = {
+      userId: 'fan-1',
+      userRole: UserRole.FAN,
+      hostId: 'artist-1',
+      guestIds: [],
+    };
+
+    it('should allow fans onto an open stage', () => {
+      expect(canJoinAsCohost(request)).toEqual({ allowed: true });
+    });
+
+    it('should allow other artists to guest', () => {
+      expect(
+        canJoinAsCohost({ ...request, userId: 'artist-2', userRole: UserRole.ARTIST }).allowed
+      ).toBe(true);
+    });
+
+    it('should refuse the host and guests already on stage', () => {
+      expect(canJoinAsCohost({ ...request, userId: 'artist-1' }).allowed).toBe(false);
+      expect(canJoinAsCohost({ ...request, guestIds: ['fan-1'] }).allowed).toBe(false);
+    });
+
+    it('should refuse once the stage is full', () => {
+      const guestIds = Array.from({ length: MAX_STREAM_GUESTS }, (_, i) => `guest-${i}`);
+
+      expect(canJoinAsCohost({ ...request, guestIds })).toEqual({
+        allowed: false,
+        reason: 'The stage is full',
+      });
+    });
+
+    it('should refuse roles without co-host permission', () => {
+      expect(canJoinAsCohost({ ...request, userRole: UserRole.ADMIN }).allowed).toBe(false);
+    });
+  });
+
+  describe('canManageCohosts', () => {
+    it('should only let the hosting artist manage guests', () => {
+      expect(canManageCohosts('artist-1', UserRole.ARTIST, 'artist-1')).toBe(true);
+      expect(canManageCohosts('artist-2', UserRole.ARTIST, 'artist-1')).toBe(false);
+      expect(canManageCohosts('artist-1', UserRole.FAN, 'artist-1')).toBe(false);
+    });
+  });
+});
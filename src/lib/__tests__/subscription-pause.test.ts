@@ -0,0 +1,160 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    subscriptions: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  stripe: {
+    subscriptions: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+import {
+  calculatePauseResumeDate,
+  getNextBillingDate,
+  getStripePauseState,
+  pauseSubscription,
+  resumeSubscription,
+  subscriptionPauseSchema,
+} from '../subscription-pause';
+import { prisma } from '@/lib/prisma';
+import { stripe } from '@/lib/stripe';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockStripe = stripe as jest.Mocked<typeof stripe>;
+
+const toUnix = (date: string) => Math.floor(new Date(date).getTime() / 1000);
+
+describe('Subscription Pause', () => {
+  const subscription = { id: 'sub-1', stripeSubscriptionId: 'stripe_sub_1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('subscriptionPauseSchema', () => {
+    it('should allow pauses of one to three months', () => {
+      expect(subscriptionPauseSchema.safeParse({ action: 'pause', months: 3 }).success).toBe(true);
+      expect(subscriptionPauseSchema.safeParse({ action: 'pause', months: 4 }).success).toBe(false);
+      expect(subscriptionPauseSchema.safeParse({ action: 'pause', months: 0 }).success).toBe(false);
+      expect(subscriptionPauseSchema.safeParse({ action: 'resume' }).success).toBe(true);
+    });
+  });
+
+  describe('calculatePauseResumeDate', () => {
+    it('should count calendar months', () => {
+      expect(calculatePauseResumeDate(new Date('2026-01-15T00:00:00Z'), 2)).toEqual(
+        new Date('2026-03-15T00:00:00Z')
+      );
+    });
+  });
+
+  describe('pauseSubscription', () => {
+    it('should pause collection in Stripe and mark the subscription paused', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-15T00:00:00Z'));
+
+      const result = await pauseSubscription(subscription, 1);
+
+      expect(result.resumesAt).toEqual(new Date('2026-02-15T00:00:00Z'));
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('stripe_sub_1', {
+        pause_collection: {
+          behavior: 'void',
+          resumes_at: toUnix('2026-02-15T00:00:00Z'),
+        },
+      });
+      expect(mockPrisma.subscriptions.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          status: 'PAUSED',
+          pausedAt: new Date('2026-01-15T00:00:00Z'),
+          pauseResumesAt: new Date('2026-02-15T00:00:00Z'),
+          updatedAt: new Date('2026-01-15T00:00:00Z'),
+        },
+      });
+    });
+
+    it('should leave the subscription untouched when Stripe fails', async () => {
+      mockStripe.subscriptions.update.mockRejectedValueOnce(new Error('Stripe error'));
+
+      await expect(pauseSubscription(subscription, 1)).rejects.toThrow('Stripe error');
+      expect(mockPrisma.subscriptions.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resumeSubscription', () => {
+    it('should clear the pause in Stripe and reactivate the subscription', async () => {
+      await resumeSubscription(subscription);
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('stripe_sub_1', {
+        pause_collection: '',
+      });
+      expect(mockPrisma.subscriptions.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: expect.objectContaining({
+          status: 'ACTIVE',
+          pausedAt: null,
+          pauseResumesAt: null,
+        }),
+      });
+    });
+  });
+
+  describe('getStripePauseState', () => {
+    it('should treat active subscriptions with paused collection as paused', () => {
+      const pausedAt = new Date('2026-01-15T00:00:00Z');
+
+      expect(
+        getStripePauseState(
+          {
+            status: 'active',
+            pause_collection: { behavior: 'void', resumes_at: toUnix('2026-02-15T00:00:00Z') },
+          },
+          pausedAt
+        )
+      ).toEqual({
+        status: 'PAUSED',
+        pausedAt,
+        pauseResumesAt: new Date('2026-02-15T00:00:00Z'),
+      });
+    });
+
+    it('should clear the pause once Stripe resumes collection', () => {
+      expect(getStripePauseState({ status: 'active', pause_collection: null })).toEqual({
+        status: 'ACTIVE',
+        pausedAt: null,
+        pauseResumesAt: null,
+      });
+    });
+  });
+
+  describe('getNextBillingDate', () => {
+    it('should skip billing periods that fall inside the pause', () => {
+      expect(
+        getNextBillingDate({
+          current_period_end: toUnix('2026-02-01T00:00:00Z'),
+          pause_collection: { behavior: 'void', resumes_at: toUnix('2026-03-15T00:00:00Z') },
+        })
+      ).toEqual(new Date('2026-04-01T00:00:00Z'));
+    });
+
+    it('should use the period end when not paused', () => {
+      expect(
+        getNextBillingDate({
+          current_period_end: toUnix('2026-02-01T00:00:00Z'),
+          pause_collection: null,
+        })
+      ).toEqual(new Date('2026-02-01T00:00:00Z'));
+    });
+  });
+});
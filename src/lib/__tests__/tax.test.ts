@@ -0,0 +1,235 @@
+// Mock dependencies first
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    invoices: {
+      groupBy: jest.fn(),
+    },
+  },
+}));
+
+import {
+  calculateTax,
+  calculateInvoiceTax,
+  addTaxLine,
+  normalizeVatNumber,
+  parseTaxPeriod,
+  getInvoiceTaxSummary,
+  getTaxReport,
+  taxReportToCsv,
+} from '../tax';
+import { prisma } from '@/lib/prisma';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Tax', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.TAX_SELLER_COUNTRY;
+  });
+
+  describe('calculateTax', () => {
+    it('should extract VAT from a tax-inclusive price for EU consumers', () => {
+      const tax = calculateTax({ grossAmount: 12, country: 'de' });
+
+      expect(tax).toEqual({
+        country: 'DE',
+        jurisdiction: 'EU',
+        rate: 0.19,
+        netAmount: 10.08,
+        taxAmount: 1.92,
+        grossAmount: 12,
+        reverseCharge: false,
+        vatNumber: null,
+      });
+    });
+
+    it('should treat the UK as its own jurisdiction', () => {
+      const tax = calculateTax({ grossAmount: 12, country: 'GB' });
+
+      expect(tax.jurisdiction).toBe('UK');
+      expect(tax.taxAmount).toBe(2);
+      expect(tax.netAmount).toBe(10);
+    });
+
+    it('should not charge VAT outside the EU and UK', () => {
+      const tax = calculateTax({ grossAmount: 12, country: 'US' });
+
+      expect(tax.jurisdiction).toBeNull();
+      expect(tax.taxAmount).toBe(0);
+      expect(tax.netAmount).toBe(12);
+    });
+
+    it('should reverse charge businesses with a VAT number', () => {
+      const tax = calculateTax({ grossAmount: 12, country: 'FR', vatNumber: '40 303 265 045' });
+
+      expect(tax.reverseCharge).toBe(true);
+      expect(tax.vatNumber).toBe('FR40303265045');
+      expect(tax.taxAmount).toBe(0);
+      expect(tax.netAmount).toBe(12);
+    });
+
+    it('should charge VAT to businesses in the seller country', () => {
+      process.env.TAX_SELLER_COUNTRY = 'IE';
+
+      const tax = calculateTax({ grossAmount: 12.3, country: 'IE', vatNumber: 'IE6388047V' });
+
+      expect(tax.reverseCharge).toBe(false);
+      expect(tax.taxAmount).toBe(2.3);
+    });
+  });
+
+  describe('normalizeVatNumber', () => {
+    it('should use the EL prefix for Greece', () => {
+      expect(normalizeVatNumber('094259216', 'GR')).toBe('EL094259216');
+    });
+
+    it('should reject malformed numbers', () => {
+      expect(normalizeVatNumber('123', 'DE')).toBeNull();
+    });
+  });
+
+  describe('calculateInvoiceTax', () => {
+    it('should use the billing address and VAT ID from the Stripe invoice', () => {
+      const tax = calculateInvoiceTax(
+        {
+          customer_address: { country: 'NL' } as any,
+          customer_tax_ids: [
+            { type: 'us_ein', value: '12-3456789' },
+            { type: 'eu_vat', value: 'NL123456789B01' },
+          ] as any,
+        },
+        20
+      );
+
+      expect(tax.country).toBe('NL');
+      expect(tax.reverseCharge).toBe(true);
+      expect(tax.vatNumber).toBe('NL123456789B01');
+    });
+  });
+
+  describe('addTaxLine', () => {
+    const period = { start: new Date('2026-09-01'), end: new Date('2026-10-01') };
+
+    it('should show items net of VAT with a separate VAT line', () => {
+      const items = addTaxLine(
+        [
+          { description: 'Premium Tier', amount: 10, quantity: 1, period },
+          { description: 'Proration', amount: 2, quantity: 1, period },
+        ],
+        calculateTax({ grossAmount: 12, country: 'DE' })
+      );
+
+      expect(items).toHaveLength(3);
+      expect(items[0].amount).toBe(8.4);
+      expect(items[1].amount).toBe(1.68);
+      expect(items[2]).toEqual({
+        description: 'VAT 19% (DE)',
+        amount: 1.92,
+        quantity: 1,
+        period,
+        isTax: true,
+      });
+      expect(items.reduce((sum, item) => sum + item.amount, 0)).toBeCloseTo(12);
+    });
+
+    it('should leave items untouched when no VAT applies', () => {
+      const lines = [{ description: 'Premium Tier', amount: 10, quantity: 1, period }];
+
+      expect(addTaxLine(lines, calculateTax({ grossAmount: 10, country: 'CA' }))).toBe(lines);
+    });
+  });
+
+  describe('parseTaxPeriod', () => {
+    it('should parse months and quarters', () => {
+      expect(parseTaxPeriod('2026-02')).toEqual({
+        start: new Date('2026-02-01T00:00:00Z'),
+        end: new Date('2026-03-01T00:00:00Z'),
+      });
+      expect(parseTaxPeriod('2026-Q4')).toEqual({
+        start: new Date('2026-10-01T00:00:00Z'),
+        end: new Date('2027-01-01T00:00:00Z'),
+      });
+      expect(parseTaxPeriod('2026-Q5')).toBeNull();
+    });
+  });
+
+  describe('getInvoiceTaxSummary', () => {
+    it('should add the reverse charge notice', () => {
+      const summary = getInvoiceTaxSummary({
+        amount: 12,
+        taxAmount: 0,
+        taxRate: 0,
+        taxCountry: 'FR',
+        reverseCharge: true,
+        customerVatNumber: 'FR40303265045',
+      });
+
+      expect(summary.subtotal).toBe(12);
+      expect(summary.notice).toBe('Reverse charge: VAT to be accounted for by the recipient');
+    });
+  });
+
+  describe('getTaxReport', () => {
+    it('should total paid invoices per country', async () => {
+      (mockPrisma.invoices.groupBy as jest.Mock).mockResolvedValue([
+        {
+          taxCountry: 'DE',
+          reverseCharge: false,
+          _count: { _all: 3 },
+          _sum: { amount: 36, taxAmount: 5.76 },
+        },
+        {
+          taxCountry: 'DE',
+          reverseCharge: true,
+          _count: { _all: 1 },
+          _sum: { amount: 12, taxAmount: 0 },
+        },
+        {
+          taxCountry: 'GB',
+          reverseCharge: false,
+          _count: { _all: 2 },
+          _sum: { amount: 24, taxAmount: 4 },
+        },
+      ]);
+
+      const report = await getTaxReport('2026-Q3');
+
+      expect(mockPrisma.invoices.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: 'PAID',
+            taxCountry: { not: null },
+            paidAt: {
+              gte: new Date('2026-07-01T00:00:00Z'),
+              lt: new Date('2026-10-01T00:00:00Z'),
+            },
+          },
+        })
+      );
+      expect(report.jurisdictions[0]).toEqual({
+        country: 'DE',
+        jurisdiction: 'EU',
+        invoiceCount: 4,
+        grossAmount: 48,
+        netAmount: 42.24,
+        taxAmount: 5.76,
+        reverseChargeCount: 1,
+        reverseChargeAmount: 12,
+      });
+      expect(report.totals).toEqual({
+        invoiceCount: 6,
+        grossAmount: 72,
+        netAmount: 62.24,
+        taxAmount: 9.76,
+      });
+
+      const csv = taxReportToCsv(report).trim().split('\n');
+      expect(csv[2]).toBe('GB,UK,2,24.00,20.00,4.00,0,0.00');
+      expect(csv[3]).toBe('Total,,6,72.00,62.24,9.76,,');
+    });
+
+    it('should reject invalid periods', async () => {
+      await expect(getTaxReport('Q3')).rejects.toThrow('Invalid tax period');
+    });
+  });
+});
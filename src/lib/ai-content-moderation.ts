@@ -472,6 +472,51 @@ function containsInappropriateText(text: string): boolean {
   return inappropriateWords.some(word => lowerText.includes(word));
 }
 
+/**
+ * Scan a direct message's text. End-to-end encrypted messages can't be read
+ * by the server, so they pass unscanned and rely on recipient reports instead.
+ */
+export function moderateMessageText(
+  content: string,
+  options: { isEncrypted?: boolean } = {}
+): ModerationResult {
+  const startTime = Date.now();
+
+  if (options.isEncrypted) {
+    return {
+      approved: true,
+      confidence: 0,
+      flags: [],
+      riskLevel: 'low',
+      recommendations: [
+        'Message is end-to-end encrypted and was not scanned',
+        'Review reports from the recipient if abuse is suspected'
+      ],
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  const flags: ModerationFlag[] = [];
+
+  if (containsInappropriateText(content)) {
+    flags.push({
+      type: 'inappropriate_text',
+      severity: 'medium',
+      confidence: 0.7,
+      description: 'Message may contain inappropriate language'
+    });
+  }
+
+  return {
+    approved: true,
+    confidence: 0.6,
+    flags,
+    riskLevel: flags.length > 0 ? 'medium' : 'low',
+    recommendations: flags.length > 0 ? ['Review message for inappropriate language'] : [],
+    processingTime: Date.now() - startTime
+  };
+}
+
 /**
  * Batch moderate multiple files
  */
@@ -0,0 +1,423 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { createNotFoundError, createValidationError } from './errors';
+import { isConversationEncrypted } from './encrypted-messages';
+import { getOrCreateDirectRoom, touchRoom } from './messaging/chat-rooms';
+import { getReplyTemplateContext, renderReplyTemplate } from './saved-replies';
+import type { ConversationMessage } from './ai/agents/conversational-agent';
+
+export const MAX_AUTO_REPLY_RULES = 50;
+export const DRAFT_HISTORY_LENGTH = 10;
+
+export const AUTO_REPLY_TRIGGERS = ['WELCOME', 'AWAY', 'KEYWORD'] as const;
+
+export type AutoReplyTrigger = (typeof AUTO_REPLY_TRIGGERS)[number];
+
+const ruleFieldsSchema = z.object({
+  // {{name}}, {{tier}} and {{months}} are filled in for each fan
+  content: z.string().min(1).max(1000),
+  keywords: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  isActive: z.boolean().optional(),
+  // Away messages only go out between these times; open-ended when unset
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  // Hours before the same rule answers the same fan again
+  cooldownHours: z
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 30)
+    .optional(),
+});
+
+export const autoReplyRuleSchema = ruleFieldsSchema
+  .extend({ trigger: z.enum(AUTO_REPLY_TRIGGERS) })
+  .refine(data => data.trigger !== 'KEYWORD' || !!data.keywords?.length, {
+    message: 'Add at least one keyword',
+    path: ['keywords'],
+  })
+  .refine(data => !data.startsAt || !data.endsAt || data.endsAt > data.startsAt, {
+    message: 'The end time must be after the start time',
+    path: ['endsAt'],
+  });
+
+export const updateAutoReplyRuleSchema = ruleFieldsSchema.partial();
+
+export const draftReplySchema = z.object({
+  fanId: z.string().min(1),
+});
+
+export type AutoReplyRuleInput = z.infer<typeof autoReplyRuleSchema>;
+export type UpdateAutoReplyRuleInput = z.infer<typeof updateAutoReplyRuleSchema>;
+
+interface StoredAutoReplyRule {
+  id: string;
+  artistId: string;
+  trigger: string;
+  content: string;
+  keywords: string;
+  isActive: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  cooldownHours: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AutoReplyRuleView {
+  id: string;
+  artistId: string;
+  trigger: AutoReplyTrigger;
+  content: string;
+  keywords: string[];
+  isActive: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  cooldownHours: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function toAutoReplyRuleView(rule: StoredAutoReplyRule): AutoReplyRuleView {
+  return {
+    id: rule.id,
+    artistId: rule.artistId,
+    trigger: rule.trigger as AutoReplyTrigger,
+    content: rule.content,
+    keywords: JSON.parse(rule.keywords),
+    isActive: rule.isActive,
+    startsAt: rule.startsAt,
+    endsAt: rule.endsAt,
+    cooldownHours: rule.cooldownHours,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+/**
+ * Whether any keyword appears in the message as a whole word or phrase,
+ * ignoring case
+ */
+export function matchesKeyword(content: string, keywords: string[]): boolean {
+  return keywords.some(keyword => {
+    const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(content);
+  });
+}
+
+export function isWithinSchedule(
+  rule: Pick<AutoReplyRuleView, 'startsAt' | 'endsAt'>,
+  now: Date = new Date()
+): boolean {
+  return (!rule.startsAt || rule.startsAt <= now) && (!rule.endsAt || rule.endsAt > now);
+}
+
+/**
+ * The rule that should answer a fan's DM, if any. A matching keyword reply
+ * wins over the away message; otherwise the oldest matching rule is used.
+ */
+export function pickAutoReplyRule(
+  rules: AutoReplyRuleView[],
+  content: string,
+  now: Date = new Date()
+): AutoReplyRuleView | null {
+  const active = rules.filter(rule => rule.isActive && isWithinSchedule(rule, now));
+
+  return (
+    active.find(rule => rule.trigger === 'KEYWORD' && matchesKeyword(content, rule.keywords)) ||
+    active.find(rule => rule.trigger === 'AWAY') ||
+    null
+  );
+}
+
+/**
+ * Send a rule's reply from the artist to the fan, unless the rule already
+ * answered this fan within its cooldown. Returns the message, or null if
+ * nothing was sent.
+ */
+async function sendAutoReply(rule: AutoReplyRuleView, fanId: string, now: Date) {
+  if (rule.cooldownHours > 0) {
+    const recent = await prisma.auto_replies.findFirst({
+      where: {
+        ruleId: rule.id,
+        fanId,
+        createdAt: { gte: new Date(now.getTime() - rule.cooldownHours * 60 * 60 * 1000) },
+      },
+      select: { id: true },
+    });
+
+    if (recent) {
+      return null;
+    }
+  }
+
+  // Auto-replies are plaintext, so they stay out of encrypted conversations
+  if (await isConversationEncrypted(rule.artistId, fanId)) {
+    return null;
+  }
+
+  const context = await getReplyTemplateContext(rule.artistId, fanId, now);
+  const roomId = await getOrCreateDirectRoom(rule.artistId, fanId);
+
+  const message = await prisma.messages.create({
+    data: {
+      id: randomUUID(),
+      senderId: rule.artistId,
+      recipientId: fanId,
+      roomId,
+      content: renderReplyTemplate(rule.content, context),
+      type: 'TEXT',
+      updatedAt: now,
+    },
+    include: {
+      users_messages_senderIdTousers: {
+        select: { id: true, displayName: true, avatar: true },
+      },
+    },
+  });
+
+  await prisma.auto_replies.create({
+    data: { id: randomUUID(), ruleId: rule.id, fanId, messageId: message.id },
+  });
+  await touchRoom(roomId);
+
+  return message;
+}
+
+/**
+ * Answer a DM on the recipient's behalf if one of their keyword or away
+ * rules applies
+ */
+export async function respondToDirectMessage(
+  senderId: string,
+  recipientId: string,
+  content: string,
+  now: Date = new Date()
+) {
+  if (senderId === recipientId) {
+    return null;
+  }
+
+  const rules = await prisma.auto_reply_rules.findMany({
+    where: { artistId: recipientId, isActive: true, trigger: { in: ['AWAY', 'KEYWORD'] } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const rule = pickAutoReplyRule(rules.map(toAutoReplyRuleView), content, now);
+
+  return rule ? sendAutoReply(rule, senderId, now) : null;
+}
+
+/**
+ * Greet a new subscriber with the artist's welcome message, if they have one
+ */
+export async function sendWelcomeMessage(artistId: string, fanId: string, now: Date = new Date()) {
+  const rules = await prisma.auto_reply_rules.findMany({
+    where: { artistId, trigger: 'WELCOME', isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const rule = rules.map(toAutoReplyRuleView).find(rule => isWithinSchedule(rule, now));
+
+  return rule ? sendAutoReply(rule, fanId, now) : null;
+}
+
+export async function listAutoReplyRules(artistId: string) {
+  const rules = await prisma.auto_reply_rules.findMany({
+    where: { artistId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return rules.map(toAutoReplyRuleView);
+}
+
+export async function createAutoReplyRule(artistId: string, input: AutoReplyRuleInput) {
+  const count = await prisma.auto_reply_rules.count({ where: { artistId } });
+
+  if (count >= MAX_AUTO_REPLY_RULES) {
+    throw createValidationError(`You can have up to ${MAX_AUTO_REPLY_RULES} auto-replies`);
+  }
+
+  const rule = await prisma.auto_reply_rules.create({
+    data: {
+      id: randomUUID(),
+      artistId,
+      trigger: input.trigger,
+      content: input.content,
+      keywords: JSON.stringify(input.trigger === 'KEYWORD' ? input.keywords : []),
+      isActive: input.isActive ?? true,
+      startsAt: input.startsAt ?? null,
+      endsAt: input.endsAt ?? null,
+      cooldownHours: input.cooldownHours ?? 24,
+      updatedAt: new Date(),
+    },
+  });
+
+  return toAutoReplyRuleView(rule);
+}
+
+export async function updateAutoReplyRule(
+  artistId: string,
+  ruleId: string,
+  input: UpdateAutoReplyRuleInput
+) {
+  const existing = await prisma.auto_reply_rules.findFirst({
+    where: { id: ruleId, artistId },
+  });
+
+  if (!existing) {
+    throw createNotFoundError('Auto-reply not found');
+  }
+
+  const current = toAutoReplyRuleView(existing);
+  const keywords = input.keywords ?? current.keywords;
+  const startsAt = input.startsAt !== undefined ? input.startsAt : current.startsAt;
+  const endsAt = input.endsAt !== undefined ? input.endsAt : current.endsAt;
+
+  if (current.trigger === 'KEYWORD' && keywords.length === 0) {
+    throw createValidationError('Add at least one keyword');
+  }
+
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    throw createValidationError('The end time must be after the start time');
+  }
+
+  const rule = await prisma.auto_reply_rules.update({
+    where: { id: ruleId },
+    data: {
+      content: input.content,
+      keywords:
+        input.keywords && current.trigger === 'KEYWORD' ? JSON.stringify(keywords) : undefined,
+      isActive: input.isActive,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      cooldownHours: input.cooldownHours,
+      updatedAt: new Date(),
+    },
+  });
+
+  return toAutoReplyRuleView(rule);
+}
+
+export async function deleteAutoReplyRule(artistId: string, ruleId: string) {
+  const { count } = await prisma.auto_reply_rules.deleteMany({
+    where: { id: ruleId, artistId },
+  });
+
+  if (count === 0) {
+    throw createNotFoundError('Auto-reply not found');
+  }
+}
+
+/**
+ * An AI-written reply to the fan's latest message, for the artist to review
+ * before sending. Nothing is sent to the fan.
+ */
+export async function draftReply(artistId: string, fanId: string): Promise<string> {
+  if (!process.env.OPENAI_API_KEY) {
+    throw createValidationError('AI drafts are not available');
+  }
+
+  if (await isConversationEncrypted(artistId, fanId)) {
+    throw createValidationError("AI drafts aren't available in encrypted conversations");
+  }
+
+  const [artist, context, recent] = await Promise.all([
+    prisma.users.findUnique({
+      where: { id: artistId },
+      select: { displayName: true, bio: true },
+    }),
+    getReplyTemplateContext(artistId, fanId),
+    prisma.messages.findMany({
+      where: {
+        OR: [
+          { senderId: fanId, recipientId: artistId },
+          { senderId: artistId, recipientId: fanId },
+        ],
+        isEncrypted: false,
+        deletedAt: null,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: DRAFT_HISTORY_LENGTH,
+    }),
+  ]);
+
+  const history = recent.reverse();
+  const latest = history.map(message => message.senderId).lastIndexOf(fanId);
+
+  if (!artist || latest === -1) {
+    throw createValidationError('There is no message from this fan to reply to');
+  }
+
+  const conversationHistory: ConversationMessage[] = history.slice(0, latest).map(message => ({
+    id: message.id,
+    role: message.senderId === fanId ? 'user' : 'assistant',
+    content: message.content,
+    timestamp: message.createdAt,
+  }));
+
+  // Loaded on demand so the messaging paths don't pull in the AI agents
+  const { ConversationalAgent } = await import('./ai/agents/conversational-agent');
+  const agent = new ConversationalAgent(`auto-reply-${artistId}`, {
+    name: 'Auto-reply drafts',
+    version: '1.0.0',
+    openaiApiKey: process.env.OPENAI_API_KEY,
+    model: 'gpt-3.5-turbo',
+    maxTokens: 200,
+    temperature: 0.7,
+    responseTimeout: 30000,
+    maxConversationLength: DRAFT_HISTORY_LENGTH,
+    autoEscalateAfter: 0,
+    supportedLanguages: ['en'],
+    moderationEnabled: true,
+    learningEnabled: false,
+  });
+
+  const result = await agent.respondToMessage(history[latest].content, {
+    userId: fanId,
+    artistId,
+    conversationHistory,
+    userProfile: {
+      id: fanId,
+      name: context.name,
+      subscriptionTier: context.tier,
+      joinDate: new Date(),
+      interactionHistory: {
+        totalMessages: history.length,
+        lastActive: history[latest].createdAt,
+        commonTopics: [],
+        preferredResponseStyle: 'friendly',
+      },
+      preferences: { language: 'en', timezone: 'UTC', communicationStyle: 'friendly' },
+    },
+    artistPersonality: {
+      id: artistId,
+      name: artist.displayName,
+      communicationStyle: {
+        tone: 'warm',
+        formality: 'casual',
+        humor: 'playful',
+        vocabulary: 'simple',
+        emojiUsage: 'minimal',
+      },
+      knowledgeBase: {
+        biography: artist.bio || '',
+        interests: [],
+        currentProjects: [],
+        FAQ: [],
+      },
+      boundaries: {
+        personalInfo: 'limited',
+        financialDiscussion: false,
+        controversialTopics: false,
+      },
+    },
+  });
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to draft reply');
+  }
+
+  return result.data.response;
+}
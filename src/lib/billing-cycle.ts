@@ -2,13 +2,16 @@ import { prisma } from './prisma';
 import { stripe } from './stripe';
 import { sendEmail } from './notifications';
 import { generateInvoiceData } from './billing';
+import { getInvoiceTaxFields } from './tax';
+import { createPaymentFailure, retryPayment } from './payment-retry';
+import { getNextBillingDate, resumeSubscription } from './subscription-pause';
 import { logger } from './logger';
 import type Stripe from 'stripe';
 import { Decimal } from '@prisma/client/runtime/library';
 import { randomUUID } from 'crypto';
 
 export interface BillingCycleEvent {
-  type: 'renewal' | 'failure' | 'retry' | 'cancellation';
+  type: 'renewal' | 'failure' | 'retry' | 'cancellation' | 'expiration' | 'resume';
   subscriptionId: string;
   amount: number;
   timestamp: Date;
@@ -30,6 +33,8 @@ export interface BillingCycleInfo {
   nextBillingDate: Date;
   daysInCurrentPeriod: number;
   daysRemaining: number;
+  isPaused: boolean;
+  pauseResumesAt: Date | null;
 }
 
 /**
@@ -51,7 +56,9 @@ export async function getBillingCycleInfo(subscriptionId: string): Promise<Billi
 
     const currentPeriodStart = new Date(stripeSubscription.current_period_start * 1000);
     const currentPeriodEnd = new Date(stripeSubscription.current_period_end * 1000);
-    const nextBillingDate = currentPeriodEnd;
+    // Paused subscriptions skip billing until collection resumes
+    const nextBillingDate = getNextBillingDate(stripeSubscription);
+    const resumesAt = stripeSubscription.pause_collection?.resumes_at;
 
     const now = new Date();
     const daysInCurrentPeriod = Math.ceil(
@@ -68,6 +75,8 @@ export async function getBillingCycleInfo(subscriptionId: string): Promise<Billi
       nextBillingDate,
       daysInCurrentPeriod,
       daysRemaining,
+      isPaused: !!stripeSubscription.pause_collection,
+      pauseResumesAt: resumesAt ? new Date(resumesAt * 1000) : null,
     };
   } catch (error) {
     console.error('Error getting billing cycle info:', error);
@@ -83,6 +92,7 @@ export async function getUpcomingInvoices(artistId?: string): Promise<UpcomingIn
     const activeSubscriptions = await prisma.subscriptions.findMany({
       where: {
         status: 'ACTIVE',
+        autoRenew: true,
         ...(artistId ? { artistId } : {}),
       },
       include: {
@@ -136,10 +146,12 @@ export async function processBillingRenewals(): Promise<BillingCycleEvent[]> {
     const now = new Date();
     const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
 
-    // Get subscriptions that are due for renewal in the next 24 hours
+    // Get subscriptions that are due for renewal in the next 24 hours.
+    // Gifted subscriptions don't renew; they're expired below instead.
     const subscriptionsToRenew = await prisma.subscriptions.findMany({
       where: {
         status: 'ACTIVE',
+        autoRenew: true,
         currentPeriodEnd: {
           gte: now,
           lte: tomorrow,
@@ -206,6 +218,8 @@ export async function processBillingRenewals(): Promise<BillingCycleEvent[]> {
       }
     }
 
+    events.push(...(await expireGiftedSubscriptions(now)));
+
     return events;
   } catch (error) {
     console.error('Error processing billing renewals:', error);
@@ -214,7 +228,102 @@ export async function processBillingRenewals(): Promise<BillingCycleEvent[]> {
 }
 
 /**
- * Handle failed payment retries
+ * End gifted subscriptions whose prepaid period is over
+ */
+async function expireGiftedSubscriptions(now: Date): Promise<BillingCycleEvent[]> {
+  const events: BillingCycleEvent[] = [];
+
+  const expiredGifts = await prisma.subscriptions.findMany({
+    where: {
+      status: 'ACTIVE',
+      autoRenew: false,
+      currentPeriodEnd: {
+        lte: now,
+      },
+    },
+    include: {
+      users: true,
+      tiers: {
+        include: {
+          users: true,
+        },
+      },
+    },
+  });
+
+  for (const subscription of expiredGifts) {
+    try {
+      // Only the run that flips the status counts the expiry
+      const { count } = await prisma.subscriptions.updateMany({
+        where: { id: subscription.id, status: 'ACTIVE', autoRenew: false },
+        data: {
+          status: 'CANCELED',
+          updatedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      await prisma.tiers.update({
+        where: { id: subscription.tierId },
+        data: {
+          subscriberCount: {
+            decrement: 1,
+          },
+        },
+      });
+
+      await prisma.artists.update({
+        where: { userId: subscription.artistId },
+        data: {
+          totalSubscribers: {
+            decrement: 1,
+          },
+        },
+      });
+
+      // Let the fan know the gift ended and how to keep access
+      if (subscription.users.email) {
+        const prefs = subscription.users.notificationPreferences as any;
+        if (!prefs || prefs?.billing !== false) {
+          const artistName = subscription.tiers.users.displayName;
+          const subscribeUrl = `${process.env.NEXT_PUBLIC_APP_URL}/artist/${subscription.artistId}`;
+
+          await sendEmail({
+            to: subscription.users.email,
+            subject: `Your gift subscription to ${artistName} has ended`,
+            html: `
+              <h1>Your Gift Subscription Has Ended</h1>
+              <p>Your gifted access to ${artistName}'s ${subscription.tiers.name} tier ended on ${subscription.currentPeriodEnd.toLocaleDateString()}.</p>
+              <p>You won't be charged. Subscribe any time to keep enjoying their exclusive content.</p>
+              <p><a href="${subscribeUrl}">Subscribe to ${artistName}</a></p>
+            `,
+            text: `Your Gift Subscription Has Ended\n\nYour gifted access to ${artistName}'s ${subscription.tiers.name} tier ended on ${subscription.currentPeriodEnd.toLocaleDateString()}.\n\nYou won't be charged. Subscribe any time to keep enjoying their exclusive content.\n\nSubscribe to ${artistName}: ${subscribeUrl}`,
+          });
+        }
+      }
+
+      events.push({
+        type: 'expiration',
+        subscriptionId: subscription.id,
+        amount: 0,
+        timestamp: new Date(),
+        metadata: {
+          periodEnd: subscription.currentPeriodEnd,
+        },
+      });
+    } catch (error) {
+      console.error(`Error expiring gifted subscription ${subscription.id}:`, error);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Retry failed payments that are due under the dunning policy
  */
 export async function processFailedPaymentRetries(): Promise<BillingCycleEvent[]> {
   try {
@@ -222,106 +331,44 @@ export async function processFailedPaymentRetries(): Promise<BillingCycleEvent[]
     const now = new Date();
 
     // Get payment failures that are due for retry
-    const failuresToRetry = (await prisma.$queryRaw`
-      SELECT pf.*, s.id as "subscriptionId", s."stripeSubscriptionId", s."artistId",
-             f.email as "fanEmail", t.name as "tierName", 
-             a."displayName" as "artistDisplayName"
-      FROM "payment_failures" pf
-      JOIN "subscriptions" s ON pf."subscriptionId" = s.id
-      JOIN "users" f ON s."fanId" = f.id
-      JOIN "tiers" t ON s."tierId" = t.id
-      JOIN "users" a ON t."artistId" = a.id
-      WHERE pf."isResolved" = false
-      AND pf."nextRetryAt" <= ${now}
-    `) as any[];
+    const failuresToRetry = await prisma.payment_failures.findMany({
+      where: {
+        isResolved: false,
+        nextRetryAt: { lte: now },
+      },
+      select: {
+        id: true,
+        subscriptionId: true,
+        amount: true,
+      },
+    });
 
     for (const failure of failuresToRetry) {
       try {
-        // Get the latest invoice from Stripe
-        const invoice = await stripe.invoices.retrieve(failure.stripeInvoiceId);
-
-        if (invoice.status === 'paid') {
-          // Payment was successful, mark as resolved
-          await prisma.$executeRaw`
-            UPDATE "payment_failures"
-            SET "isResolved" = true,
-                "updatedAt" = ${new Date()}
-            WHERE "id" = ${failure.id}
-          `;
-
-          // Update subscription status
-          await prisma.subscriptions.update({
-            where: { id: failure.subscriptionId },
-            data: { status: 'ACTIVE' },
-          });
-
-          events.push({
-            type: 'retry',
-            subscriptionId: failure.subscriptionId,
-            amount: parseFloat(failure.amount.toString()),
-            timestamp: new Date(),
-            metadata: {
-              resolved: true,
-              attemptCount: failure.attemptCount,
-            },
-          });
-        } else if (invoice.attempt_count && invoice.attempt_count >= 3) {
-          // Max attempts reached, cancel subscription
-          await stripe.subscriptions.cancel(failure.stripeSubscriptionId);
-
-          await prisma.subscriptions.update({
-            where: { id: failure.subscriptionId },
-            data: { status: 'CANCELED' },
-          });
-
-          // Send cancellation notification
-          if (failure.fanEmail) {
-            await sendEmail({
-              to: failure.fanEmail,
-              subject: `Subscription Canceled - Payment Failed`,
-              html: `
-                <h1>Subscription Canceled</h1>
-                <p>Your subscription to ${failure.artistDisplayName}'s ${failure.tierName} tier has been canceled due to repeated payment failures.</p>
-                <p>You can resubscribe at any time by visiting the artist's page.</p>
-                <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/artist/${failure.artistId}">Visit ${failure.artistDisplayName}'s page</a></p>
-              `,
-              text: `Subscription Canceled\n\nYour subscription to ${failure.artistDisplayName}'s ${failure.tierName} tier has been canceled due to repeated payment failures.\n\nYou can resubscribe at any time by visiting the artist's page.\n\nVisit ${failure.artistDisplayName}'s page: ${process.env.NEXT_PUBLIC_APP_URL}/artist/${failure.artistId}`,
-            });
-          }
+        const result = await retryPayment(failure.id);
+        const amount = parseFloat(failure.amount.toString());
 
+        if (result.resolved && !result.success) {
           events.push({
             type: 'cancellation',
             subscriptionId: failure.subscriptionId,
-            amount: parseFloat(failure.amount.toString()),
+            amount,
             timestamp: new Date(),
             metadata: {
               reason: 'payment_failure',
-              attemptCount: failure.attemptCount,
+              attemptCount: result.attemptCount,
             },
           });
         } else {
-          // Update retry information
-          const nextRetry = invoice.next_payment_attempt
-            ? new Date(invoice.next_payment_attempt * 1000)
-            : new Date(now.getTime() + 24 * 60 * 60 * 1000); // Default to 24 hours
-
-          await prisma.$executeRaw`
-            UPDATE "payment_failures"
-            SET "attemptCount" = ${invoice.attempt_count || failure.attemptCount + 1},
-                "nextRetryAt" = ${nextRetry},
-                "updatedAt" = ${new Date()}
-            WHERE "id" = ${failure.id}
-          `;
-
           events.push({
             type: 'retry',
             subscriptionId: failure.subscriptionId,
-            amount: parseFloat(failure.amount.toString()),
+            amount,
             timestamp: new Date(),
             metadata: {
-              resolved: false,
-              attemptCount: invoice.attempt_count || failure.attemptCount + 1,
-              nextRetryAt: nextRetry,
+              resolved: result.resolved,
+              attemptCount: result.attemptCount,
+              nextRetryAt: result.nextRetryAt,
             },
           });
         }
@@ -337,6 +384,52 @@ export async function processFailedPaymentRetries(): Promise<BillingCycleEvent[]
   }
 }
 
+/**
+ * Resume paused subscriptions whose pause has run out. Stripe resumes collection on
+ * its own and the webhook normally catches up, so this only covers missed events.
+ */
+export async function processPausedSubscriptionResumes(): Promise<BillingCycleEvent[]> {
+  try {
+    const events: BillingCycleEvent[] = [];
+
+    const dueSubscriptions = await prisma.subscriptions.findMany({
+      where: {
+        status: 'PAUSED',
+        pauseResumesAt: { lte: new Date() },
+      },
+      select: {
+        id: true,
+        stripeSubscriptionId: true,
+        amount: true,
+        pauseResumesAt: true,
+      },
+    });
+
+    for (const subscription of dueSubscriptions) {
+      try {
+        await resumeSubscription(subscription);
+
+        events.push({
+          type: 'resume',
+          subscriptionId: subscription.id,
+          amount: parseFloat(subscription.amount.toString()),
+          timestamp: new Date(),
+          metadata: {
+            pauseResumesAt: subscription.pauseResumesAt,
+          },
+        });
+      } catch (error) {
+        console.error(`Error resuming paused subscription ${subscription.id}:`, error);
+      }
+    }
+
+    return events;
+  } catch (error) {
+    console.error('Error processing paused subscription resumes:', error);
+    throw new Error('Failed to process paused subscription resumes');
+  }
+}
+
 /**
  * Send billing reminders for upcoming renewals
  */
@@ -575,7 +668,7 @@ export async function processScheduledTierChanges(): Promise<BillingCycleEvent[]
 }
 
 /**
- * Create a payment failure record
+ * Create a payment failure record and start dunning it
  */
 export async function recordPaymentFailure(
   subscriptionId: string,
@@ -584,46 +677,7 @@ export async function recordPaymentFailure(
   failureReason: string
 ): Promise<void> {
   try {
-    // Check if there's already a payment failure record for this invoice
-    const existingFailure = (await prisma.$queryRaw`
-      SELECT * FROM "payment_failures" WHERE "stripeInvoiceId" = ${stripeInvoiceId}
-    `) as any[];
-
-    if (existingFailure && existingFailure.length > 0) {
-      // Update existing record
-      await prisma.$executeRaw`
-        UPDATE "payment_failures"
-        SET "attemptCount" = "attemptCount" + 1,
-            "failureReason" = ${failureReason},
-            "nextRetryAt" = ${new Date(Date.now() + 24 * 60 * 60 * 1000)},
-            "updatedAt" = ${new Date()}
-        WHERE "id" = ${existingFailure[0].id}
-      `;
-    } else {
-      // Create new record
-      await prisma.$executeRaw`
-        INSERT INTO "payment_failures" (
-          "id", "subscriptionId", "stripeInvoiceId", "amount", "failureReason", 
-          "nextRetryAt", "createdAt", "updatedAt"
-        )
-        VALUES (
-          ${`pf_${Date.now()}_${randomUUID().replace(/-/g, '').substring(0, 13)}`},
-          ${subscriptionId},
-          ${stripeInvoiceId},
-          ${amount},
-          ${failureReason},
-          ${new Date(Date.now() + 24 * 60 * 60 * 1000)},
-          ${new Date()},
-          ${new Date()}
-        )
-      `;
-    }
-
-    // Update subscription status
-    await prisma.subscriptions.update({
-      where: { id: subscriptionId },
-      data: { status: 'PAST_DUE' },
-    });
+    await createPaymentFailure(subscriptionId, stripeInvoiceId, amount, failureReason);
   } catch (error) {
     console.error('Error recording payment failure:', error);
     throw new Error('Failed to record payment failure');
@@ -703,6 +757,7 @@ export async function syncSubscriptionInvoices(subscriptionId: string): Promise<
       for (const invoice of stripeInvoices.data) {
         try {
           const invoiceData = await generateInvoiceData(invoice.id);
+          const taxFields = getInvoiceTaxFields(invoiceData.tax);
 
           // Check if invoice already exists
           const existingInvoice = (await prisma.$queryRaw`
@@ -718,6 +773,11 @@ export async function syncSubscriptionInvoices(subscriptionId: string): Promise<
                   "dueDate" = ${invoiceData.dueDate},
                   "paidAt" = ${invoiceData.paidAt || null},
                   "items" = ${JSON.stringify(invoiceData.items)},
+                  "taxAmount" = ${taxFields.taxAmount},
+                  "taxRate" = ${taxFields.taxRate},
+                  "taxCountry" = ${taxFields.taxCountry},
+                  "reverseCharge" = ${taxFields.reverseCharge},
+                  "customerVatNumber" = ${taxFields.customerVatNumber},
                   "updatedAt" = NOW()
               WHERE "id" = ${existingInvoice[0].id}
             `;
@@ -736,7 +796,8 @@ export async function syncSubscriptionInvoices(subscriptionId: string): Promise<
               INSERT INTO "invoices" (
                 "id", "subscriptionId", "stripeInvoiceId", "amount", "status", 
                 "dueDate", "paidAt", "periodStart", "periodEnd", "prorationAmount", 
-                "items", "createdAt", "updatedAt"
+                "items", "taxAmount", "taxRate", "taxCountry", "reverseCharge", 
+                "customerVatNumber", "createdAt", "updatedAt"
               ) 
               VALUES (
                 ${`inv_${Date.now()}_${randomUUID().replace(/-/g, '').substring(0, 13)}`},
@@ -750,6 +811,11 @@ export async function syncSubscriptionInvoices(subscriptionId: string): Promise<
                 ${invoiceData.items[0]?.period.end || new Date()}, 
                 ${prorationAmount}, 
                 ${JSON.stringify(invoiceData.items)},
+                ${taxFields.taxAmount},
+                ${taxFields.taxRate},
+                ${taxFields.taxCountry},
+                ${taxFields.reverseCharge},
+                ${taxFields.customerVatNumber},
                 NOW(),
                 NOW()
               )
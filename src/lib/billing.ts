@@ -3,6 +3,8 @@ import { stripe } from './stripe';
 import { prisma } from './prisma';
 import { sendEmail } from './notifications';
 import { generateSecureId } from './crypto-utils';
+import { addTaxLine, calculateInvoiceTax, getInvoiceTaxFields, TaxCalculation } from './tax';
+import { getNextBillingDate } from './subscription-pause';
 import type Stripe from 'stripe';
 import { randomUUID } from 'crypto';
 
@@ -22,6 +24,8 @@ export interface BillingCycleInfo {
   nextBillingDate: Date;
   daysInCurrentPeriod: number;
   daysRemaining: number;
+  isPaused: boolean;
+  pauseResumesAt: Date | null;
 }
 
 export interface InvoiceData {
@@ -32,6 +36,7 @@ export interface InvoiceData {
   dueDate: Date;
   paidAt?: Date;
   items: InvoiceItem[];
+  tax?: TaxCalculation;
 }
 
 export interface InvoiceItem {
@@ -42,6 +47,7 @@ export interface InvoiceItem {
     start: Date;
     end: Date;
   };
+  isTax?: boolean;
 }
 
 export interface TierChangeOptions {
@@ -139,7 +145,9 @@ export async function getBillingCycleInfo(subscriptionId: string): Promise<Billi
 
     const currentPeriodStart = new Date(stripeSubscription.current_period_start * 1000);
     const currentPeriodEnd = new Date(stripeSubscription.current_period_end * 1000);
-    const nextBillingDate = currentPeriodEnd;
+    // Paused subscriptions skip billing until collection resumes
+    const nextBillingDate = getNextBillingDate(stripeSubscription);
+    const resumesAt = stripeSubscription.pause_collection?.resumes_at;
 
     const now = new Date();
     const daysInCurrentPeriod = Math.max(
@@ -162,6 +170,8 @@ export async function getBillingCycleInfo(subscriptionId: string): Promise<Billi
       nextBillingDate,
       daysInCurrentPeriod,
       daysRemaining,
+      isPaused: !!stripeSubscription.pause_collection,
+      pauseResumesAt: resumesAt ? new Date(resumesAt * 1000) : null,
     };
   } catch (error) {
     console.error('Error getting billing cycle info:', error);
@@ -275,13 +285,15 @@ export async function changeTier(
 
     if (latestInvoice) {
       const invoiceData = await generateInvoiceData(latestInvoice);
+      const taxFields = getInvoiceTaxFields(invoiceData.tax);
 
       // Store invoice in database
       const invoice = (await prisma.$queryRaw`
         INSERT INTO "invoices" (
           "id", "subscriptionId", "stripeInvoiceId", "amount", "status", 
           "dueDate", "paidAt", "periodStart", "periodEnd", "prorationAmount", 
-          "items", "createdAt", "updatedAt"
+          "items", "taxAmount", "taxRate", "taxCountry", "reverseCharge", 
+          "customerVatNumber", "createdAt", "updatedAt"
         ) 
         VALUES (
           ${generateSecureId('inv', 15)},
@@ -295,6 +307,11 @@ export async function changeTier(
           ${invoiceData.items[0]?.period.end || new Date()}, 
           ${proration.prorationAmount !== 0 ? proration.prorationAmount : null}, 
           ${JSON.stringify(invoiceData.items)},
+          ${taxFields.taxAmount},
+          ${taxFields.taxRate},
+          ${taxFields.taxCountry},
+          ${taxFields.reverseCharge},
+          ${taxFields.customerVatNumber},
           NOW(),
           NOW()
         )
@@ -405,7 +422,7 @@ export async function generateInvoiceData(stripeInvoiceId: string): Promise<Invo
       expand: ['lines.data.price.product'],
     });
 
-    const items: InvoiceItem[] = invoice.lines.data.map(line => ({
+    const lines: InvoiceItem[] = invoice.lines.data.map(line => ({
       description: line.description || 'Subscription',
       amount: (line.amount || 0) / 100,
       quantity: line.quantity || 1,
@@ -415,13 +432,17 @@ export async function generateInvoiceData(stripeInvoiceId: string): Promise<Invo
       },
     }));
 
+    const amount = (invoice.amount_paid || invoice.amount_due || 0) / 100;
+    const tax = calculateInvoiceTax(invoice, amount);
+
     const result: InvoiceData = {
       id: invoice.id,
       subscriptionId: invoice.subscription as string,
-      amount: (invoice.amount_paid || invoice.amount_due || 0) / 100,
+      amount,
       status: invoice.status || 'draft',
       dueDate: new Date((invoice.due_date || invoice.created) * 1000),
-      items,
+      items: addTaxLine(lines, tax),
+      tax,
       paidAt:
         invoice.status_transitions && typeof invoice.status_transitions.paid_at === 'number'
           ? new Date(invoice.status_transitions.paid_at * 1000)
@@ -674,6 +695,7 @@ export async function syncInvoices(subscriptionId: string): Promise<{
       for (const invoice of stripeInvoices.data) {
         try {
           const invoiceData = await generateInvoiceData(invoice.id);
+          const taxFields = getInvoiceTaxFields(invoiceData.tax);
 
           // Check if invoice already exists
           const existingInvoice = (await prisma.$queryRaw`
@@ -689,6 +711,11 @@ export async function syncInvoices(subscriptionId: string): Promise<{
                   "dueDate" = ${invoiceData.dueDate},
                   "paidAt" = ${invoiceData.paidAt || null},
                   "items" = ${JSON.stringify(invoiceData.items)},
+                  "taxAmount" = ${taxFields.taxAmount},
+                  "taxRate" = ${taxFields.taxRate},
+                  "taxCountry" = ${taxFields.taxCountry},
+                  "reverseCharge" = ${taxFields.reverseCharge},
+                  "customerVatNumber" = ${taxFields.customerVatNumber},
                   "updatedAt" = NOW()
               WHERE "id" = ${existingInvoice[0].id}
             `;
@@ -707,7 +734,8 @@ export async function syncInvoices(subscriptionId: string): Promise<{
               INSERT INTO "invoices" (
                 "id", "subscriptionId", "stripeInvoiceId", "amount", "status", 
                 "dueDate", "paidAt", "periodStart", "periodEnd", "prorationAmount", 
-                "items", "createdAt", "updatedAt"
+                "items", "taxAmount", "taxRate", "taxCountry", "reverseCharge", 
+                "customerVatNumber", "createdAt", "updatedAt"
               ) 
               VALUES (
                 ${`inv_${Date.now()}_${randomUUID().replace(/-/g, '').substring(0, 13)}`},
@@ -721,6 +749,11 @@ export async function syncInvoices(subscriptionId: string): Promise<{
                 ${invoiceData.items[0]?.period.end || new Date()}, 
                 ${prorationAmount}, 
                 ${JSON.stringify(invoiceData.items)},
+                ${taxFields.taxAmount},
+                ${taxFields.taxRate},
+                ${taxFields.taxCountry},
+                ${taxFields.reverseCharge},
+                ${taxFields.customerVatNumber},
                 NOW(),
                 NOW()
               )
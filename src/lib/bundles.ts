@@ -0,0 +1,309 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { createBundleProductAndPrice, createArtistTransfer } from './stripe';
+import { logger } from './logger';
+import { PLATFORM_FEE_RATE, recordLedgerEntry } from './payout-ledger';
+
+export interface BundleRevenueShare {
+  artistId: string;
+  revenueShare: number;
+}
+
+export interface BundleRevenueSplit {
+  artistId: string;
+  // Artist's share of the payment before the platform fee
+  grossAmount: number;
+  amount: number;
+}
+
+export const createBundleSchema = z
+  .object({
+    name: z.string().min(1, 'Bundle name is required').max(100, 'Bundle name too long'),
+    description: z.string().min(1, 'Description is required').max(500, 'Description too long'),
+    price: z.number().min(1, 'Price must be at least $1').max(1000, 'Maximum price is $1000'),
+    tiers: z
+      .array(
+        z.object({
+          tierId: z.string(),
+          revenueShare: z.number().min(0).max(100).optional(),
+        })
+      )
+      .min(2, 'A bundle must include at least two tiers')
+      .max(10, 'A bundle can include at most 10 tiers'),
+  })
+  .refine(data => new Set(data.tiers.map(t => t.tierId)).size === data.tiers.length, {
+    message: 'A tier can only be included once',
+    path: ['tiers'],
+  })
+  .refine(
+    data => {
+      const shares = data.tiers.map(t => t.revenueShare);
+      if (shares.every(share => share === undefined)) return true;
+      if (shares.some(share => share === undefined)) return false;
+      const total = (shares as number[]).reduce((sum, share) => sum + share, 0);
+      return Math.abs(total - 100) < 0.01;
+    },
+    {
+      message: 'Revenue shares must be set for every tier and add up to 100',
+      path: ['tiers'],
+    }
+  );
+
+export const updateBundleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().min(1).max(500).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CreateBundleInput = z.infer<typeof createBundleSchema>;
+
+/**
+ * Fill in revenue shares, defaulting to a split proportional to each tier's minimum price
+ */
+export function resolveRevenueShares(
+  tiers: Array<{ tierId: string; minimumPrice: number; revenueShare?: number }>
+): Array<{ tierId: string; revenueShare: number }> {
+  if (tiers.every(tier => tier.revenueShare !== undefined)) {
+    return tiers.map(tier => ({ tierId: tier.tierId, revenueShare: tier.revenueShare! }));
+  }
+
+  const total = tiers.reduce((sum, tier) => sum + tier.minimumPrice, 0);
+
+  return tiers.map(tier => ({
+    tierId: tier.tierId,
+    revenueShare:
+      total > 0
+        ? Math.round((tier.minimumPrice / total) * 10000) / 100
+        : Math.round((100 / tiers.length) * 100) / 100,
+  }));
+}
+
+/**
+ * Split a bundle payment between artists after the platform fee.
+ * Shares for several tiers from the same artist are combined.
+ */
+export function calculateBundleRevenueSplits(
+  shares: BundleRevenueShare[],
+  amountPaid: number
+): BundleRevenueSplit[] {
+  const totalShare = shares.reduce((sum, share) => sum + share.revenueShare, 0);
+  const byArtist = new Map<string, number>();
+
+  if (totalShare <= 0) {
+    return [];
+  }
+
+  for (const share of shares) {
+    const grossAmount = (amountPaid * share.revenueShare) / totalShare;
+    byArtist.set(share.artistId, (byArtist.get(share.artistId) || 0) + grossAmount);
+  }
+
+  return Array.from(byArtist.entries()).map(([artistId, grossAmount]) => ({
+    artistId,
+    grossAmount: Math.round(grossAmount * 100) / 100,
+    amount: Math.round(grossAmount * (1 - PLATFORM_FEE_RATE) * 100) / 100,
+  }));
+}
+
+/**
+ * Create a bundle with its Stripe product and price
+ */
+export async function createBundle(input: CreateBundleInput) {
+  const tierIds = input.tiers.map(t => t.tierId);
+  const tiers = await prisma.tiers.findMany({
+    where: { id: { in: tierIds }, isActive: true },
+    select: { id: true, minimumPrice: true },
+  });
+
+  if (tiers.length !== tierIds.length) {
+    throw new Error('One or more tiers do not exist or are not active');
+  }
+
+  const shares = resolveRevenueShares(
+    input.tiers.map(t => ({
+      tierId: t.tierId,
+      revenueShare: t.revenueShare,
+      minimumPrice: Number(tiers.find(tier => tier.id === t.tierId)!.minimumPrice),
+    }))
+  );
+
+  const { productId, priceId } = await createBundleProductAndPrice(
+    input.name,
+    input.description,
+    input.price
+  );
+
+  return prisma.bundles.create({
+    data: {
+      id: randomUUID(),
+      name: input.name,
+      description: input.description,
+      price: input.price,
+      stripeProductId: productId,
+      stripePriceId: priceId,
+      updatedAt: new Date(),
+      bundle_tiers: {
+        create: shares.map(share => ({
+          id: randomUUID(),
+          tierId: share.tierId,
+          revenueShare: share.revenueShare,
+        })),
+      },
+    },
+    include: {
+      bundle_tiers: true,
+    },
+  });
+}
+
+/**
+ * Active bundles with the tiers and artists they include
+ */
+export async function getActiveBundles() {
+  const bundles = await prisma.bundles.findMany({
+    where: { isActive: true },
+    include: {
+      bundle_tiers: {
+        include: {
+          tiers: {
+            select: {
+              id: true,
+              name: true,
+              minimumPrice: true,
+              users: {
+                select: {
+                  id: true,
+                  displayName: true,
+                  avatar: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return bundles.map(bundle => ({
+    id: bundle.id,
+    name: bundle.name,
+    description: bundle.description,
+    price: Number(bundle.price),
+    tiers: bundle.bundle_tiers.map(bundleTier => ({
+      id: bundleTier.tiers.id,
+      name: bundleTier.tiers.name,
+      minimumPrice: Number(bundleTier.tiers.minimumPrice),
+      artist: bundleTier.tiers.users,
+    })),
+  }));
+}
+
+/**
+ * Record each artist's share of a paid bundle invoice and transfer it to their
+ * connected account. Invoices that were already split are skipped.
+ */
+export async function recordBundleRevenue(
+  stripeSubscriptionId: string,
+  stripeInvoiceId: string,
+  amountPaid: number,
+  stripePaymentIntentId?: string | null
+): Promise<BundleRevenueSplit[]> {
+  const bundleSubscription = await prisma.bundle_subscriptions.findUnique({
+    where: { stripeSubscriptionId },
+    include: {
+      bundles: {
+        include: {
+          bundle_tiers: {
+            include: {
+              tiers: {
+                select: { artistId: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!bundleSubscription) {
+    return [];
+  }
+
+  const splits = calculateBundleRevenueSplits(
+    bundleSubscription.bundles.bundle_tiers.map(bundleTier => ({
+      artistId: bundleTier.tiers.artistId,
+      revenueShare: Number(bundleTier.revenueShare),
+    })),
+    amountPaid
+  );
+
+  const recorded: BundleRevenueSplit[] = [];
+
+  for (const split of splits) {
+    const existing = await prisma.bundle_revenue_splits.findUnique({
+      where: {
+        stripeInvoiceId_artistId: {
+          stripeInvoiceId,
+          artistId: split.artistId,
+        },
+      },
+    });
+
+    if (existing) continue;
+
+    const revenueSplit = await prisma.bundle_revenue_splits.create({
+      data: {
+        id: randomUUID(),
+        bundleSubscriptionId: bundleSubscription.id,
+        artistId: split.artistId,
+        stripeInvoiceId,
+        amount: split.amount,
+      },
+    });
+
+    await recordLedgerEntry({
+      artistId: split.artistId,
+      type: 'BUNDLE',
+      sourceId: stripeInvoiceId,
+      stripePaymentIntentId,
+      grossAmount: split.grossAmount,
+      platformFee: split.grossAmount - split.amount,
+      description: 'Bundle subscription payment',
+    });
+
+    const artist = await prisma.artists.findUnique({
+      where: { userId: split.artistId },
+    });
+
+    recorded.push(split);
+
+    if (!artist?.stripeAccountId || !artist.isStripeOnboarded || split.amount <= 0) {
+      continue;
+    }
+
+    try {
+      const transferId = await createArtistTransfer(
+        split.amount,
+        artist.stripeAccountId,
+        stripeInvoiceId,
+        { bundleSubscriptionId: bundleSubscription.id, artistId: split.artistId }
+      );
+
+      await prisma.bundle_revenue_splits.update({
+        where: { id: revenueSplit.id },
+        data: { stripeTransferId: transferId },
+      });
+    } catch (error) {
+      // The split stays recorded without a transfer id so it can be paid out later
+      logger.error(
+        'Bundle revenue transfer failed',
+        { bundleSubscriptionId: bundleSubscription.id, artistId: split.artistId },
+        error as Error
+      );
+    }
+  }
+
+  return recorded;
+}
@@ -1,3 +1,5 @@
+import { getRefundedAmount, recordPaymentAdjustment } from './payout-ledger';
+
 interface ChargebackCase {
   id: string;
   paymentIntentId: string;
@@ -13,9 +15,10 @@ export class ChargebackManager {
   async handleChargeback(
     paymentIntentId: string,
     amount: number,
-    reason: string
+    reason: string,
+    disputeId?: string
   ): Promise<string> {
-    const caseId = `cb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const caseId = disputeId || `cb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     const chargebackCase: ChargebackCase = {
       id: caseId,
@@ -27,6 +30,19 @@ export class ChargebackManager {
     };
 
     this.cases.set(caseId, chargebackCase);
+
+    // Disputed funds are taken back from the artists who earned them
+    const artistIds = await recordPaymentAdjustment({
+      stripePaymentIntentId: paymentIntentId,
+      type: 'CHARGEBACK',
+      sourceId: caseId,
+      amount,
+      description: `Chargeback: ${reason}`,
+    });
+
+    for (const artistId of artistIds) {
+      await this.protectCreator(artistId, amount);
+    }
     
     // Auto-collect evidence
     await this.collectEvidence(caseId);
@@ -45,6 +61,49 @@ export class ChargebackManager {
     // - Communication records
   }
 
+  /**
+   * Return disputed funds to artists once a chargeback is won
+   */
+  async resolveChargeback(caseId: string, paymentIntentId: string, amount: number): Promise<void> {
+    const chargebackCase = this.cases.get(caseId);
+    if (chargebackCase) {
+      chargebackCase.status = 'won';
+    }
+
+    await recordPaymentAdjustment({
+      stripePaymentIntentId: paymentIntentId,
+      type: 'CHARGEBACK_REVERSAL',
+      sourceId: caseId,
+      amount,
+      description: 'Chargeback won',
+    });
+  }
+
+  /**
+   * Record a (possibly partial) refund against the artists paid by the payment.
+   * Stripe reports the cumulative refunded amount, so only the new part is recorded.
+   */
+  async recordRefund(
+    paymentIntentId: string,
+    chargeId: string,
+    totalRefunded: number
+  ): Promise<string[]> {
+    const alreadyRefunded = await getRefundedAmount(paymentIntentId);
+    const amount = Math.round((totalRefunded - alreadyRefunded) * 100) / 100;
+
+    if (amount <= 0) {
+      return [];
+    }
+
+    return recordPaymentAdjustment({
+      stripePaymentIntentId: paymentIntentId,
+      type: 'REFUND',
+      sourceId: `${chargeId}:${Math.round(totalRefunded * 100)}`,
+      amount,
+      description: 'Refund',
+    });
+  }
+
   async submitDispute(caseId: string, evidence: any): Promise<boolean> {
     const chargebackCase = this.cases.get(caseId);
     if (!chargebackCase) return false;
@@ -1,17 +1,81 @@
 import { prisma } from './prisma';
 import { UserRole, SubscriptionStatus } from '@/types/database';
 import jwt from 'jsonwebtoken';
+import { isWithinPublishWindow, publishWindowFilter } from './content-scheduling';
 
 // Content access verification types
 export interface ContentAccessResult {
   hasAccess: boolean;
-  reason?: 'public' | 'owner' | 'subscription' | 'no_subscription' | 'invalid_tier' | 'not_found';
+  reason?:
+    | 'public'
+    | 'owner'
+    | 'subscription'
+    | 'purchase'
+    | 'bundle'
+    | 'no_subscription'
+    | 'invalid_tier'
+    | 'unavailable'
+    | 'not_found';
   subscription?: {
     id: string;
     tierId: string;
     amount: number;
     status: SubscriptionStatus;
   };
+  purchase?: {
+    id: string;
+    amount: number;
+    purchasedAt: Date;
+  };
+  bundle?: {
+    id: string;
+    subscriptionId: string;
+  };
+}
+
+// Trialing fans get the same access as paying subscribers. Paused subscriptions
+// are left out on purpose: pausing skips both billing and access.
+export const ACCESS_GRANTING_STATUSES = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+
+// Subscriptions that are over for good. Anything else may still have a live
+// Stripe subscription behind it, even when it isn't granting access right now.
+export const ENDED_SUBSCRIPTION_STATUSES = [
+  SubscriptionStatus.CANCELED,
+  SubscriptionStatus.INCOMPLETE_EXPIRED,
+];
+
+// Tier subscriptions that currently grant access. Past-due fans keep access while
+// their failed payment is still inside the dunning grace period.
+function activeSubscriptionFilter(userId: string) {
+  const now = new Date();
+
+  return {
+    fanId: userId,
+    OR: [
+      {
+        status: { in: ACCESS_GRANTING_STATUSES },
+        currentPeriodEnd: { gte: now },
+      },
+      {
+        status: SubscriptionStatus.PAST_DUE,
+        payment_failures: {
+          some: {
+            isResolved: false,
+            gracePeriodEndsAt: { gt: now },
+          },
+        },
+      },
+    ],
+  };
+}
+
+// Bundle subscriptions that currently grant access to their tiers
+function activeBundleSubscriptionFilter(userId: string) {
+  return {
+    fanId: userId,
+    status: { in: ACCESS_GRANTING_STATUSES },
+    currentPeriodEnd: { gte: new Date() },
+  };
 }
 
 export interface AccessToken {
@@ -31,7 +95,7 @@ export async function checkContentAccess(
     const contentWithUserAccess = await prisma.content.findUnique({
       where: { id: contentId },
       include: {
-        artist: {
+        users: {
           select: {
             id: true,
             displayName: true,
@@ -44,11 +108,7 @@ export async function checkContentAccess(
             minimumPrice: true,
             isActive: true,
             subscriptions: {
-              where: {
-                fanId: userId,
-                status: SubscriptionStatus.ACTIVE,
-                currentPeriodEnd: { gte: new Date() },
-              },
+              where: activeSubscriptionFilter(userId),
               select: {
                 id: true,
                 tierId: true,
@@ -58,6 +118,17 @@ export async function checkContentAccess(
             },
           },
         },
+        content_purchases: {
+          where: {
+            fanId: userId,
+            status: 'COMPLETED',
+          },
+          select: {
+            id: true,
+            amount: true,
+            purchasedAt: true,
+          },
+        },
       },
     });
 
@@ -65,6 +136,14 @@ export async function checkContentAccess(
       return { hasAccess: false, reason: 'not_found' };
     }
 
+    // Scheduled drops aren't visible before their publish time or after they expire
+    if (
+      contentWithUserAccess.artistId !== userId &&
+      !isWithinPublishWindow(contentWithUserAccess)
+    ) {
+      return { hasAccess: false, reason: 'unavailable' };
+    }
+
     // Public content is accessible to everyone
     if (contentWithUserAccess.visibility === 'PUBLIC') {
       return { hasAccess: true, reason: 'public' };
@@ -75,6 +154,20 @@ export async function checkContentAccess(
       return { hasAccess: true, reason: 'owner' };
     }
 
+    // A one-time purchase unlocks the content regardless of tier gating
+    if (contentWithUserAccess.content_purchases.length > 0) {
+      const purchase = contentWithUserAccess.content_purchases[0]; // Unique per fan and content
+      return {
+        hasAccess: true,
+        reason: 'purchase',
+        purchase: {
+          id: purchase.id,
+          amount: Number(purchase.amount),
+          purchasedAt: purchase.purchasedAt,
+        },
+      };
+    }
+
     // Check if user has subscription to any of the content's tiers
     if (contentWithUserAccess.tiers.length === 0) {
       // Content not assigned to any tier - only owner can access
@@ -98,6 +191,34 @@ export async function checkContentAccess(
       }
     }
 
+    // A bundle subscription grants access to every tier in the bundle
+    const activeTierIds = contentWithUserAccess.tiers.filter(t => t.isActive).map(t => t.id);
+    if (activeTierIds.length > 0) {
+      const bundleSubscription = await prisma.bundle_subscriptions.findFirst({
+        where: {
+          ...activeBundleSubscriptionFilter(userId),
+          bundles: {
+            bundle_tiers: { some: { tierId: { in: activeTierIds } } },
+          },
+        },
+        select: {
+          id: true,
+          bundleId: true,
+        },
+      });
+
+      if (bundleSubscription) {
+        return {
+          hasAccess: true,
+          reason: 'bundle',
+          bundle: {
+            id: bundleSubscription.bundleId,
+            subscriptionId: bundleSubscription.id,
+          },
+        };
+      }
+    }
+
     return { hasAccess: false, reason: 'no_subscription' };
   } catch (error) {
     console.error('Content access check error:', error);
@@ -154,12 +275,8 @@ export async function getUserAccessibleContent(
   // Get user's active subscriptions for this artist
   const userSubscriptions = await prisma.subscriptions.findMany({
     where: {
-      fanId: userId,
+      ...activeSubscriptionFilter(userId),
       artistId,
-      status: SubscriptionStatus.ACTIVE,
-      currentPeriodEnd: {
-        gte: new Date(),
-      },
     },
     select: {
       tierId: true,
@@ -171,6 +288,7 @@ export async function getUserAccessibleContent(
   // Build content query
   const where: any = {
     artistId,
+    ...publishWindowFilter(),
     OR: [
       { visibility: 'PUBLIC' },
       {
@@ -181,6 +299,28 @@ export async function getUserAccessibleContent(
           },
         },
       },
+      {
+        content_purchases: {
+          some: {
+            fanId: userId,
+            status: 'COMPLETED',
+          },
+        },
+      },
+      {
+        tiers: {
+          some: {
+            isActive: true,
+            bundle_tiers: {
+              some: {
+                bundles: {
+                  bundle_subscriptions: { some: activeBundleSubscriptionFilter(userId) },
+                },
+              },
+            },
+          },
+        },
+      },
     ],
   };
 
@@ -236,16 +376,25 @@ export async function checkTierAccess(userId: string, tierId: string): Promise<b
   try {
     const subscription = await prisma.subscriptions.findFirst({
       where: {
-        fanId: userId,
+        ...activeSubscriptionFilter(userId),
         tierId,
-        status: SubscriptionStatus.ACTIVE,
-        currentPeriodEnd: {
-          gte: new Date(),
+      },
+    });
+
+    if (subscription) {
+      return true;
+    }
+
+    const bundleSubscription = await prisma.bundle_subscriptions.findFirst({
+      where: {
+        ...activeBundleSubscriptionFilter(userId),
+        bundles: {
+          bundle_tiers: { some: { tierId } },
         },
       },
     });
 
-    return !!subscription;
+    return !!bundleSubscription;
   } catch (error) {
     console.error('Tier access check error:', error);
     return false;
@@ -281,12 +430,8 @@ export async function getContentAccessSummary(
     // Get user's subscriptions
     const userSubscriptions = await prisma.subscriptions.findMany({
       where: {
-        fanId: userId,
+        ...activeSubscriptionFilter(userId),
         artistId,
-        status: SubscriptionStatus.ACTIVE,
-        currentPeriodEnd: {
-          gte: new Date(),
-        },
       },
       include: {
         tier: {
@@ -0,0 +1,247 @@
+import { prisma } from './prisma';
+import { notifyNewContent } from './notifications';
+import { logger } from './logger';
+import { z } from 'zod';
+
+export type ContentExpiryAction = 'ARCHIVE' | 'DOWNGRADE';
+
+// Archived drops, plus stream clips that are still being cut or failed to process
+const HIDDEN_STATUSES = ['ARCHIVED', 'PROCESSING', 'FAILED'];
+
+export interface ContentScheduleWindow {
+  status: string;
+  publishAt: Date | null;
+  expiresAt: Date | null;
+  expiryAction: string | null;
+}
+
+export interface ContentSchedulingResult {
+  published: number;
+  archived: number;
+  downgraded: number;
+  errors: number;
+}
+
+// Shared by the artist content create/update endpoints
+export const contentScheduleSchema = z
+  .object({
+    publishAt: z.coerce.date().nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    expiryAction: z.enum(['ARCHIVE', 'DOWNGRADE']).nullable().optional(),
+    fallbackTierId: z.string().nullable().optional(),
+  })
+  .refine(data => !data.publishAt || !data.expiresAt || data.expiresAt > data.publishAt, {
+    message: 'Expiry must be after the publish time',
+    path: ['expiresAt'],
+  })
+  .refine(data => data.expiryAction !== 'DOWNGRADE' || !!data.fallbackTierId, {
+    message: 'A fallback tier is required when downgrading on expiry',
+    path: ['fallbackTierId'],
+  });
+
+export type ContentScheduleInput = z.infer<typeof contentScheduleSchema>;
+
+/**
+ * Check whether content is currently live for non-owners.
+ *
+ * Downgraded drops stay live after expiry (their tier gating changes instead),
+ * so only archiving drops fall out of the window.
+ */
+export function isWithinPublishWindow(
+  content: ContentScheduleWindow,
+  now: Date = new Date()
+): boolean {
+  if (HIDDEN_STATUSES.includes(content.status)) {
+    return false;
+  }
+
+  if (content.publishAt && content.publishAt > now) {
+    return false;
+  }
+
+  if (content.expiresAt && content.expiresAt <= now && content.expiryAction !== 'DOWNGRADE') {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Prisma filter matching content that is live at the given time
+ */
+export function publishWindowFilter(now: Date = new Date()) {
+  return {
+    status: { notIn: HIDDEN_STATUSES },
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      {
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: now } },
+          { expiryAction: 'DOWNGRADE' },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Build the status/scheduling fields to persist for a schedule update.
+ * Content held for moderation keeps its status; the window still applies once approved.
+ */
+export function buildScheduleUpdate(
+  currentStatus: string,
+  schedule: ContentScheduleInput,
+  now: Date = new Date()
+): Record<string, any> {
+  const data: Record<string, any> = {};
+
+  if (schedule.publishAt !== undefined) data.publishAt = schedule.publishAt;
+  if (schedule.expiresAt !== undefined) data.expiresAt = schedule.expiresAt;
+  if (schedule.expiryAction !== undefined) data.expiryAction = schedule.expiryAction;
+  if (schedule.fallbackTierId !== undefined) data.fallbackTierId = schedule.fallbackTierId;
+
+  if (
+    schedule.publishAt !== undefined &&
+    (currentStatus === 'PUBLISHED' || currentStatus === 'SCHEDULED')
+  ) {
+    data.status = schedule.publishAt && schedule.publishAt > now ? 'SCHEDULED' : 'PUBLISHED';
+  }
+
+  return data;
+}
+
+/**
+ * Publish scheduled content whose publish time has passed and notify subscribers
+ */
+export async function publishScheduledContent(now: Date = new Date()): Promise<number> {
+  const dueContent = await prisma.content.findMany({
+    where: {
+      status: 'SCHEDULED',
+      publishAt: { lte: now },
+    },
+    select: {
+      id: true,
+      title: true,
+      type: true,
+      description: true,
+      users: {
+        select: { displayName: true },
+      },
+    },
+  });
+
+  let published = 0;
+
+  for (const item of dueContent) {
+    // Guard against another instance publishing the same item concurrently
+    const { count } = await prisma.content.updateMany({
+      where: { id: item.id, status: 'SCHEDULED' },
+      data: { status: 'PUBLISHED', updatedAt: now },
+    });
+
+    if (count === 0) continue;
+    published++;
+
+    const { users, ...summary } = item;
+    notifyNewContent(summary, users.displayName).catch(error =>
+      logger.error('Failed to send scheduled content notifications', { contentId: item.id }, error)
+    );
+  }
+
+  return published;
+}
+
+/**
+ * Apply the expiry action to time-limited drops whose window has closed
+ */
+export async function expireTimedContent(
+  now: Date = new Date()
+): Promise<{ archived: number; downgraded: number }> {
+  const expiredContent = await prisma.content.findMany({
+    where: {
+      status: 'PUBLISHED',
+      expiresAt: { lte: now },
+    },
+    select: {
+      id: true,
+      expiryAction: true,
+      fallbackTierId: true,
+    },
+  });
+
+  let archived = 0;
+  let downgraded = 0;
+
+  for (const item of expiredContent) {
+    // Only touch drops that are still live and expired, in case the artist
+    // archived or rescheduled them, or another instance got there first
+    const stillExpired = { id: item.id, status: 'PUBLISHED', expiresAt: { lte: now } };
+
+    if (item.expiryAction === 'DOWNGRADE' && item.fallbackTierId) {
+      const fallbackTierId = item.fallbackTierId;
+      const claimed = await prisma.$transaction(async tx => {
+        const { count } = await tx.content.updateMany({
+          where: stillExpired,
+          data: {
+            visibility: 'TIER_LOCKED',
+            expiresAt: null,
+            expiryAction: null,
+            fallbackTierId: null,
+            updatedAt: now,
+          },
+        });
+
+        if (count === 0) return false;
+
+        await tx.content.update({
+          where: { id: item.id },
+          data: { tiers: { set: [{ id: fallbackTierId }] } },
+        });
+        return true;
+      });
+
+      if (claimed) downgraded++;
+    } else {
+      const { count } = await prisma.content.updateMany({
+        where: stillExpired,
+        data: { status: 'ARCHIVED', updatedAt: now },
+      });
+
+      if (count > 0) archived++;
+    }
+  }
+
+  return { archived, downgraded };
+}
+
+/**
+ * Run all content scheduling jobs. Invoked from the cron health entrypoint.
+ */
+export async function runContentSchedulingJobs(
+  now: Date = new Date()
+): Promise<ContentSchedulingResult> {
+  const result: ContentSchedulingResult = { published: 0, archived: 0, downgraded: 0, errors: 0 };
+
+  try {
+    result.published = await publishScheduledContent(now);
+  } catch (error) {
+    result.errors++;
+    logger.error('Scheduled content publishing failed', {}, error as Error);
+  }
+
+  try {
+    const expired = await expireTimedContent(now);
+    result.archived = expired.archived;
+    result.downgraded = expired.downgraded;
+  } catch (error) {
+    result.errors++;
+    logger.error('Timed content expiry failed', {}, error as Error);
+  }
+
+  if (result.published || result.archived || result.downgraded) {
+    logger.info('Content scheduling jobs completed', { ...result });
+  }
+
+  return result;
+}
@@ -203,6 +203,7 @@ export async function getTiersByArtistId(artistId: string) {
       return tiers.map(tier => ({
         ...tier,
         minimumPrice: Number(tier.minimumPrice),
+        introPrice: tier.introPrice !== null ? Number(tier.introPrice) : null,
         subscriberCount: tier._count.subscriptions,
       }));
     },
@@ -236,6 +237,7 @@ export async function getTierById(id: string, artistId?: string) {
       return {
         ...tier,
         minimumPrice: Number(tier.minimumPrice),
+        introPrice: tier.introPrice !== null ? Number(tier.introPrice) : null,
         subscriberCount: tier._count.subscriptions,
       };
     },
@@ -248,9 +250,13 @@ export async function createTier(data: {
   name: string;
   description: string;
   minimumPrice: number;
+  trialDays?: number;
+  introPrice?: number | null;
+  introMonths?: number;
 }) {
   // Business rule validations
   await validateTierCreation(data.artistId, data.name, data.minimumPrice);
+  validateIntroPricing(data.minimumPrice, data.introPrice, data.introMonths);
 
   const tier = await prisma.tiers.create({
     data,
@@ -268,6 +274,7 @@ export async function createTier(data: {
   const result = {
     ...tier,
     minimumPrice: Number(tier.minimumPrice),
+    introPrice: tier.introPrice !== null ? Number(tier.introPrice) : null,
     subscriberCount: tier._count.subscriptions,
   };
 
@@ -286,6 +293,9 @@ export async function updateTier(
     name?: string;
     description?: string;
     minimumPrice?: number;
+    trialDays?: number;
+    introPrice?: number | null;
+    introMonths?: number;
     isActive?: boolean;
   }
 ) {
@@ -316,6 +326,20 @@ export async function updateTier(
     await validatePriceChange(id, data.minimumPrice, existingTier._count.subscriptions);
   }
 
+  if (
+    data.minimumPrice !== undefined ||
+    data.introPrice !== undefined ||
+    data.introMonths !== undefined
+  ) {
+    validateIntroPricing(
+      data.minimumPrice ?? Number(existingTier.minimumPrice),
+      data.introPrice !== undefined
+        ? data.introPrice
+        : existingTier.introPrice && Number(existingTier.introPrice),
+      data.introMonths ?? existingTier.introMonths
+    );
+  }
+
   if (data.isActive === false && existingTier._count.subscriptions > 0) {
     throw new Error('Cannot deactivate tier with active subscriptions');
   }
@@ -337,6 +361,7 @@ export async function updateTier(
   const result = {
     ...tier,
     minimumPrice: Number(tier.minimumPrice),
+    introPrice: tier.introPrice !== null ? Number(tier.introPrice) : null,
     subscriberCount: tier._count.subscriptions,
   };
 
@@ -432,6 +457,24 @@ async function validateTierName(artistId: string, name: string, excludeTierId?:
   }
 }
 
+function validateIntroPricing(
+  minimumPrice: number,
+  introPrice?: number | null,
+  introMonths?: number
+) {
+  if (introPrice === undefined || introPrice === null) {
+    return;
+  }
+
+  if (introPrice >= minimumPrice) {
+    throw new Error('Introductory price must be lower than the minimum price');
+  }
+
+  if (!introMonths || introMonths < 1) {
+    throw new Error('Introductory price requires an introductory period of at least 1 month');
+  }
+}
+
 async function validatePriceChange(tierId: string, newPrice: number, subscriberCount: number) {
   if (subscriberCount > 0) {
     // Get current tier price
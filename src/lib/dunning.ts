@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { sendEmail } from './notifications';
+
+export type DunningStepType =
+  'FAILED' | 'RETRY_FAILED' | 'REMINDER_SENT' | 'RECOVERED' | 'CANCELED';
+
+export type PaymentFailureStatus = 'RETRYING' | 'RECOVERED' | 'CANCELED';
+
+export interface DunningPolicy {
+  retryIntervalsDays: number[];
+  gracePeriodDays: number;
+  sendReminders: boolean;
+}
+
+const DUNNING_POLICY_ID = 'default';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used until an admin saves a policy of their own
+export const DEFAULT_DUNNING_POLICY: DunningPolicy = {
+  retryIntervalsDays: [1, 3, 3],
+  gracePeriodDays: 7,
+  sendReminders: true,
+};
+
+export const dunningPolicySchema = z.object({
+  retryIntervalsDays: z
+    .array(z.number().int().min(1, 'Retry intervals must be at least a day').max(30))
+    .min(1, 'At least one retry is required')
+    .max(10, 'Maximum of 10 retries'),
+  gracePeriodDays: z.number().int().min(0).max(60),
+  sendReminders: z.boolean(),
+});
+
+/**
+ * The dunning policy currently in effect
+ */
+export async function getDunningPolicy(): Promise<DunningPolicy> {
+  const policy = await prisma.dunning_policies.findUnique({
+    where: { id: DUNNING_POLICY_ID },
+  });
+
+  if (!policy) {
+    return DEFAULT_DUNNING_POLICY;
+  }
+
+  return {
+    retryIntervalsDays: policy.retryIntervalsDays,
+    gracePeriodDays: policy.gracePeriodDays,
+    sendReminders: policy.sendReminders,
+  };
+}
+
+export async function updateDunningPolicy(
+  input: DunningPolicy,
+  updatedById: string
+): Promise<DunningPolicy> {
+  const data = {
+    retryIntervalsDays: input.retryIntervalsDays,
+    gracePeriodDays: input.gracePeriodDays,
+    sendReminders: input.sendReminders,
+    updatedById,
+    updatedAt: new Date(),
+  };
+
+  await prisma.dunning_policies.upsert({
+    where: { id: DUNNING_POLICY_ID },
+    create: { id: DUNNING_POLICY_ID, ...data },
+    update: data,
+  });
+
+  return input;
+}
+
+/**
+ * Total payment attempts allowed, counting the one that first failed
+ */
+export function getMaxAttempts(policy: DunningPolicy): number {
+  return policy.retryIntervalsDays.length + 1;
+}
+
+/**
+ * When to retry after the given number of failed attempts, or null once retries are used up
+ */
+export function getNextRetryAt(
+  policy: DunningPolicy,
+  attemptCount: number,
+  from: Date = new Date()
+): Date | null {
+  const intervalDays = policy.retryIntervalsDays[attemptCount - 1];
+  if (intervalDays === undefined) {
+    return null;
+  }
+
+  return new Date(from.getTime() + intervalDays * DAY_MS);
+}
+
+/**
+ * Fans keep content access until this point after their first failed payment
+ */
+export function getGracePeriodEnd(policy: DunningPolicy, failedAt: Date): Date {
+  return new Date(failedAt.getTime() + policy.gracePeriodDays * DAY_MS);
+}
+
+/**
+ * Record a step of the dunning process against a payment failure
+ */
+export async function recordDunningStep(
+  paymentFailureId: string,
+  type: DunningStepType,
+  attemptNumber: number,
+  message?: string
+) {
+  return prisma.payment_failure_events.create({
+    data: {
+      id: randomUUID(),
+      paymentFailureId,
+      type,
+      attemptNumber,
+      message: message || null,
+    },
+  });
+}
+
+/**
+ * Email the fan that a payment attempt failed and what happens next.
+ * Respects the policy's reminder setting and the fan's billing notification preference.
+ */
+export async function sendDunningReminder(params: {
+  policy: DunningPolicy;
+  paymentFailureId: string;
+  attemptNumber: number;
+  email: string | null | undefined;
+  notificationPreferences?: unknown;
+  artistName: string;
+  tierName: string;
+  amount: number;
+  nextRetryAt: Date | null;
+  gracePeriodEndsAt: Date | null;
+}): Promise<boolean> {
+  const prefs = params.notificationPreferences as { billing?: boolean } | null | undefined;
+  if (!params.policy.sendReminders || !params.email || prefs?.billing === false) {
+    return false;
+  }
+
+  const billingUrl = `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/billing`;
+  const retryText = params.nextRetryAt
+    ? `We'll try again on ${params.nextRetryAt.toLocaleDateString()}.`
+    : 'This was our last attempt. Please update your payment method to keep your subscription.';
+  const graceText =
+    params.gracePeriodEndsAt && params.gracePeriodEndsAt > new Date()
+      ? `You'll keep access to ${params.artistName}'s content until ${params.gracePeriodEndsAt.toLocaleDateString()}.`
+      : '';
+
+  await sendEmail({
+    to: params.email,
+    subject: `Payment Failed for ${params.artistName} Subscription`,
+    html: `
+      <h1>Payment Failed</h1>
+      <p>We were unable to process your payment of $${params.amount.toFixed(2)} for your ${params.tierName} subscription to ${params.artistName}.</p>
+      <p>This was attempt ${params.attemptNumber} of ${getMaxAttempts(params.policy)}. ${retryText}</p>
+      ${graceText ? `<p>${graceText}</p>` : ''}
+      <p><a href="${billingUrl}">Review your billing</a></p>
+    `,
+    text:
+      `Payment Failed for ${params.artistName} Subscription\n\n` +
+      `We were unable to process your payment of $${params.amount.toFixed(2)} for your ${params.tierName} subscription to ${params.artistName}.\n\n` +
+      `This was attempt ${params.attemptNumber} of ${getMaxAttempts(params.policy)}. ${retryText}\n\n` +
+      (graceText ? `${graceText}\n\n` : '') +
+      `Review your billing: ${billingUrl}`,
+  });
+
+  await recordDunningStep(
+    params.paymentFailureId,
+    'REMINDER_SENT',
+    params.attemptNumber,
+    `Reminder sent to ${params.email}`
+  );
+
+  return true;
+}
+
+/**
+ * Failed payments on a fan's subscriptions with every dunning step, newest first
+ */
+export async function getFanPaymentFailures(fanId: string) {
+  const failures = await prisma.payment_failures.findMany({
+    where: {
+      subscriptions: { fanId },
+    },
+    include: {
+      payment_failure_events: {
+        orderBy: { occurredAt: 'asc' },
+      },
+      subscriptions: {
+        select: {
+          id: true,
+          status: true,
+          tiers: {
+            select: {
+              name: true,
+              users: {
+                select: {
+                  id: true,
+                  displayName: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+
+  return failures.map(failure => ({
+    id: failure.id,
+    amount: Number(failure.amount),
+    status: failure.status as PaymentFailureStatus,
+    attemptCount: failure.attemptCount,
+    failureReason: failure.failureReason,
+    nextRetryAt: failure.nextRetryAt,
+    gracePeriodEndsAt: failure.gracePeriodEndsAt,
+    resolvedAt: failure.resolvedAt,
+    createdAt: failure.createdAt,
+    subscription: {
+      id: failure.subscriptions.id,
+      status: failure.subscriptions.status,
+      tierName: failure.subscriptions.tiers.name,
+      artist: failure.subscriptions.tiers.users,
+    },
+    steps: failure.payment_failure_events.map(event => ({
+      id: event.id,
+      type: event.type as DunningStepType,
+      attemptNumber: event.attemptNumber,
+      message: event.message,
+      occurredAt: event.occurredAt,
+    })),
+  }));
+}
@@ -0,0 +1,82 @@
+/**
+ * Client-side crypto for end-to-end encrypted DMs (Web Crypto API)
+ *
+ * Each user holds an ECDH P-256 key pair. Both sides of a conversation derive
+ * the same AES-GCM key from their own private key and the other's public key,
+ * so either can decrypt what the other sent. Private keys never leave the device.
+ */
+
+const KEY_ALGORITHM = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+export async function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(KEY_ALGORITHM, true, ['deriveKey']);
+}
+
+export async function exportPublicKey(key: CryptoKey): Promise<string> {
+  return toBase64(await crypto.subtle.exportKey('spki', key));
+}
+
+export async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('spki', fromBase64(publicKey), KEY_ALGORITHM, false, []);
+}
+
+export async function exportPrivateKey(key: CryptoKey): Promise<JsonWebKey> {
+  return crypto.subtle.exportKey('jwk', key);
+}
+
+export async function importPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', jwk, KEY_ALGORITHM, false, ['deriveKey']);
+}
+
+/**
+ * The AES key shared by the owner of `privateKey` and the owner of `publicKey`
+ */
+export async function deriveConversationKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey
+): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptText(
+  key: CryptoKey,
+  plaintext: string
+): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return { ciphertext: toBase64(ciphertext), iv: toBase64(iv) };
+}
+
+export async function decryptText(key: CryptoKey, ciphertext: string, iv: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
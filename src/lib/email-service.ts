@@ -8,6 +8,16 @@ export interface EmailConfig {
   replyTo?: string;
 }
 
+// User-written text (names, titles, gift notes) can't be trusted as markup in an HTML body
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export interface EmailTemplate {
   subject: string;
   html: string;
@@ -332,6 +342,79 @@ You now have access to exclusive content from ${variables.artistName}. Visit you
 
 Dashboard: ${process.env.NEXTAUTH_URL}/dashboard/fan
 
+Best regards,
+The Direct Fan Team
+    `,
+  }),
+
+  giftSubscription: (variables: {
+    recipientName: string;
+    purchaserName: string;
+    artistName: string;
+    tierName: string;
+    months: number;
+    message?: string;
+    code: string;
+    redeemUrl: string;
+  }): EmailTemplate => ({
+    subject: `${variables.purchaserName} sent you a gift subscription to ${variables.artistName}`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>You've Received a Gift</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); color: white; padding: 30px 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: white; padding: 30px 20px; border: 1px solid #e5e7eb; }
+          .footer { background: #f9fafb; padding: 20px; text-align: center; font-size: 14px; color: #6b7280; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .gift-details { background: #f3f4f6; padding: 20px; border-radius: 6px; margin: 20px 0; }
+          .code { font-family: monospace; font-size: 20px; letter-spacing: 2px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🎁 You've Received a Gift!</h1>
+          </div>
+          <div class="content">
+            <h2>Hi ${escapeHtml(variables.recipientName)}!</h2>
+            <p>${escapeHtml(variables.purchaserName)} gifted you ${variables.months} month${variables.months === 1 ? '' : 's'} of <strong>${variables.artistName}</strong>'s ${variables.tierName} tier.</p>
+            ${variables.message ? `<p><em>"${escapeHtml(variables.message)}"</em></p>` : ''}
+            
+            <div class="gift-details">
+              <p><strong>Your gift code:</strong></p>
+              <p class="code">${variables.code}</p>
+              <p>The subscription starts when you redeem it and won't renew or charge you when it ends.</p>
+            </div>
+            
+            <a href="${variables.redeemUrl}" class="button">Redeem Your Gift</a>
+          </div>
+          <div class="footer">
+            <p>© 2024 Direct Fan. All rights reserved.</p>
+            <p>You're receiving this email because someone sent you a gift on Direct Fan.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `
+You've Received a Gift!
+
+Hi ${variables.recipientName}!
+
+${variables.purchaserName} gifted you ${variables.months} month${variables.months === 1 ? '' : 's'} of ${variables.artistName}'s ${variables.tierName} tier.
+${variables.message ? `\n"${variables.message}"\n` : ''}
+Your gift code: ${variables.code}
+
+The subscription starts when you redeem it and won't renew or charge you when it ends.
+
+Redeem your gift: ${variables.redeemUrl}
+
 Best regards,
 The Direct Fan Team
     `,
@@ -512,6 +595,28 @@ class EmailService {
     return result.success;
   }
 
+  // Send gift subscription to its recipient
+  async sendGiftSubscription(
+    email: string,
+    variables: {
+      recipientName: string;
+      purchaserName: string;
+      artistName: string;
+      tierName: string;
+      months: number;
+      message?: string;
+      code: string;
+    }
+  ): Promise<boolean> {
+    const redeemUrl = `${process.env.NEXTAUTH_URL}/gifts/redeem?code=${encodeURIComponent(variables.code)}`;
+
+    const { subject, html, text } = emailTemplates.giftSubscription({ ...variables, redeemUrl });
+
+    const result = await this.sendEmail({ to: email, subject, html, text });
+
+    return result.success;
+  }
+
   // Provider-specific implementations
   private async sendViaSendGrid(
     options: EmailOptions
@@ -0,0 +1,201 @@
+/**
+ * End-to-end encrypted direct messages
+ *
+ * Clients generate ECDH P-256 key pairs and only upload the public half. Each
+ * message is AES-GCM encrypted with a key derived from the sender's and the
+ * recipient's key pair, so the server stores ciphertext it can't read. Keys are
+ * rotated by registering a new one; retired keys stay listed so older messages
+ * can still be decrypted by devices holding the matching private key.
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { createConflictError, createNotFoundError, createValidationError } from './errors';
+import { directRoomKey, getOrCreateDirectRoom, updateRoomSettings } from './messaging/chat-rooms';
+
+export const MAX_ENCRYPTED_CONTENT_LENGTH = 8000;
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export const publicKeySchema = z.object({
+  // SPKI-encoded public key, base64
+  publicKey: z.string().min(80).max(400).regex(BASE64, 'Public key must be base64'),
+});
+
+export const encryptionEnvelopeSchema = z.object({
+  iv: z.string().max(24).regex(BASE64, 'IV must be base64'),
+  senderKeyId: z.string().uuid(),
+  recipientKeyId: z.string().uuid(),
+});
+
+export const conversationEncryptionSchema = z.object({
+  conversationWith: z.string().min(1),
+  enabled: z.boolean(),
+});
+
+export type EncryptionEnvelope = z.infer<typeof encryptionEnvelopeSchema>;
+
+export interface EncryptedMessageFields {
+  isEncrypted: boolean;
+  encryptionIv?: string;
+  senderKeyId?: string;
+  recipientKeyId?: string;
+}
+
+/**
+ * Register the user's new public key, retiring the previous one
+ */
+export async function registerPublicKey(userId: string, publicKey: string) {
+  const now = new Date();
+  const keyId = randomUUID();
+
+  const [, key] = await prisma.$transaction([
+    prisma.user_encryption_keys.updateMany({
+      where: { userId, retiredAt: null },
+      data: { retiredAt: now },
+    }),
+    prisma.user_encryption_keys.create({
+      data: { id: keyId, userId, publicKey, createdAt: now },
+    }),
+    prisma.users.update({
+      where: { id: userId },
+      data: { e2eePublicKey: publicKey, e2eeKeyId: keyId, updatedAt: now },
+    }),
+  ]);
+
+  return { keyId: key.id, publicKey: key.publicKey, createdAt: key.createdAt };
+}
+
+/**
+ * A user's current public key, or a specific (possibly retired) one by id
+ */
+export async function getPublicKey(userId: string, keyId?: string) {
+  const key = await prisma.user_encryption_keys.findFirst({
+    where: keyId ? { id: keyId, userId } : { userId, retiredAt: null },
+  });
+
+  if (!key) {
+    throw createNotFoundError(
+      keyId ? 'Encryption key not found' : 'This user has not set up encrypted messaging'
+    );
+  }
+
+  return {
+    userId,
+    keyId: key.id,
+    publicKey: key.publicKey,
+    createdAt: key.createdAt,
+    retiredAt: key.retiredAt,
+  };
+}
+
+export async function isConversationEncrypted(userId1: string, userId2: string): Promise<boolean> {
+  const room = await prisma.chat_rooms.findUnique({
+    where: { directKey: directRoomKey(userId1, userId2) },
+    select: { settings: true },
+  });
+
+  return !!room && JSON.parse(room.settings).endToEndEncrypted === true;
+}
+
+export async function getConversationEncryption(userId: string, otherUserId: string) {
+  const [enabled, users] = await Promise.all([
+    isConversationEncrypted(userId, otherUserId),
+    prisma.users.findMany({
+      where: { id: { in: [userId, otherUserId] } },
+      select: { id: true, e2eeKeyId: true },
+    }),
+  ]);
+
+  const keyIds = new Map(users.map(user => [user.id, user.e2eeKeyId]));
+
+  return {
+    enabled,
+    myKeyId: keyIds.get(userId) ?? null,
+    theirKeyId: keyIds.get(otherUserId) ?? null,
+  };
+}
+
+/**
+ * Turn end-to-end encryption on or off for a 1:1 conversation. Either side can
+ * change it; turning it on needs both people to have registered a key.
+ */
+export async function setConversationEncryption(
+  userId: string,
+  otherUserId: string,
+  enabled: boolean
+) {
+  if (userId === otherUserId) {
+    throw createValidationError('You cannot message yourself');
+  }
+
+  const users = await prisma.users.findMany({
+    where: { id: { in: [userId, otherUserId] } },
+    select: { id: true, displayName: true, e2eeKeyId: true },
+  });
+
+  const me = users.find(user => user.id === userId);
+  const other = users.find(user => user.id === otherUserId);
+
+  if (!me || !other) {
+    throw createNotFoundError('User not found');
+  }
+
+  if (enabled && !me.e2eeKeyId) {
+    throw createValidationError('Set up encrypted messaging on this device first');
+  }
+
+  if (enabled && !other.e2eeKeyId) {
+    throw createValidationError(`${other.displayName} hasn't set up encrypted messaging yet`);
+  }
+
+  const roomId = await getOrCreateDirectRoom(userId, otherUserId);
+  await updateRoomSettings(roomId, { endToEndEncrypted: enabled });
+
+  return getConversationEncryption(userId, otherUserId);
+}
+
+/**
+ * Check a DM against the conversation's encryption setting and work out what
+ * to store with it. Encrypted conversations only take ciphertext, sealed with
+ * both sides' current keys.
+ */
+export async function resolveMessageEncryption(
+  senderId: string,
+  recipientId: string,
+  content: string,
+  envelope?: EncryptionEnvelope
+): Promise<EncryptedMessageFields> {
+  const encrypted = await isConversationEncrypted(senderId, recipientId);
+
+  if (!envelope) {
+    if (encrypted) {
+      throw createValidationError('This conversation is end-to-end encrypted');
+    }
+
+    return { isEncrypted: false };
+  }
+
+  if (!encrypted) {
+    throw createValidationError('Encryption is not turned on for this conversation');
+  }
+
+  if (!BASE64.test(content)) {
+    throw createValidationError('Encrypted content must be base64');
+  }
+
+  const { myKeyId, theirKeyId } = await getConversationEncryption(senderId, recipientId);
+
+  // Someone rotated their key since the client fetched it
+  if (envelope.senderKeyId !== myKeyId || envelope.recipientKeyId !== theirKeyId) {
+    throw createConflictError('Encryption keys have changed. Refresh and send again.');
+  }
+
+  return {
+    isEncrypted: true,
+    encryptionIv: envelope.iv,
+    senderKeyId: envelope.senderKeyId,
+    recipientKeyId: envelope.recipientKeyId,
+  };
+}
@@ -0,0 +1,350 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { emailService } from './email-service';
+import { ACCESS_GRANTING_STATUSES, ENDED_SUBSCRIPTION_STATUSES } from './content-access';
+import { SubscriptionStatus } from '@/types/database';
+
+export type GiftStatus = 'PENDING' | 'PAID' | 'REDEEMED';
+
+export type GiftRedemptionResult =
+  | {
+      success: true;
+      subscription: {
+        id: string;
+        tierId: string;
+        artistId: string;
+        currentPeriodEnd: Date;
+      };
+    }
+  | { success: false; error: string };
+
+// Unambiguous characters only, since codes are typed in by hand
+const GIFT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const purchaseGiftSchema = z.object({
+  tierId: z.string(),
+  months: z.number().int().min(1, 'Gift at least one month').max(12, 'Maximum gift is 12 months'),
+  recipientEmail: z.string().email('Invalid recipient email'),
+  recipientName: z.string().trim().max(100).optional(),
+  message: z.string().trim().max(500, 'Message too long').optional(),
+});
+
+export const redeemGiftSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Gift code is required')
+    .transform(code => code.toUpperCase()),
+});
+
+export type PurchaseGiftInput = z.infer<typeof purchaseGiftSchema>;
+
+/**
+ * Generate a redeemable gift code, e.g. GIFT-7KQM-X2PD
+ */
+export function generateGiftCode(): string {
+  const bytes = randomBytes(8);
+  const chars = Array.from(bytes, byte => GIFT_CODE_ALPHABET[byte % GIFT_CODE_ALPHABET.length]);
+  return `GIFT-${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+/**
+ * End of a gifted period, counted in calendar months from its start
+ */
+export function calculateGiftPeriodEnd(start: Date, months: number): Date {
+  const end = new Date(start);
+  end.setMonth(end.getMonth() + months);
+  return end;
+}
+
+/**
+ * Create a pending gift for the given tier. It only becomes redeemable once paid.
+ */
+export async function createPendingGift(
+  purchaserId: string,
+  tier: { id: string; artistId: string; minimumPrice: number },
+  input: PurchaseGiftInput
+) {
+  return prisma.gift_subscriptions.create({
+    data: {
+      id: randomUUID(),
+      code: generateGiftCode(),
+      purchaserId,
+      recipientEmail: input.recipientEmail.toLowerCase(),
+      recipientName: input.recipientName || null,
+      message: input.message || null,
+      artistId: tier.artistId,
+      tierId: tier.id,
+      months: input.months,
+      amount: Math.round(tier.minimumPrice * input.months * 100) / 100,
+      updatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Mark a gift as paid and email its code to the recipient.
+ * Returns false for gifts that were already processed (e.g. webhook retries).
+ */
+export async function markGiftPaid(
+  giftId: string,
+  stripePaymentIntentId: string | null
+): Promise<boolean> {
+  const { count } = await prisma.gift_subscriptions.updateMany({
+    where: { id: giftId, status: 'PENDING' },
+    data: {
+      status: 'PAID',
+      stripePaymentIntentId,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const gift = await prisma.gift_subscriptions.findUnique({
+    where: { id: giftId },
+    include: {
+      users_gift_subscriptions_purchaserIdTousers: true,
+      tiers: {
+        include: {
+          users: true,
+        },
+      },
+    },
+  });
+
+  if (gift) {
+    await emailService.sendGiftSubscription(gift.recipientEmail, {
+      recipientName: gift.recipientName || 'there',
+      purchaserName: gift.users_gift_subscriptions_purchaserIdTousers.displayName,
+      artistName: gift.tiers.users.displayName,
+      tierName: gift.tiers.name,
+      months: gift.months,
+      message: gift.message || undefined,
+      code: gift.code,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Redeem a paid gift code into a non-renewing subscription for the fan.
+ * Redeeming on top of an active gift for the same tier extends it.
+ */
+export async function redeemGiftSubscription(
+  code: string,
+  fanId: string
+): Promise<GiftRedemptionResult> {
+  const gift = await prisma.gift_subscriptions.findUnique({
+    where: { code },
+  });
+
+  if (!gift || gift.status === 'PENDING') {
+    return { success: false, error: 'Gift code not found' };
+  }
+
+  if (gift.status === 'REDEEMED') {
+    return { success: false, error: 'This gift has already been redeemed' };
+  }
+
+  const fan = await prisma.users.findUnique({
+    where: { id: fanId },
+  });
+
+  if (!fan || fan.role !== 'FAN') {
+    return { success: false, error: 'Only fans can redeem gift subscriptions' };
+  }
+
+  const existing = await prisma.subscriptions.findUnique({
+    where: {
+      fanId_tierId: {
+        fanId,
+        tierId: gift.tierId,
+      },
+    },
+  });
+
+  const hasAccess =
+    !!existing && ACCESS_GRANTING_STATUSES.includes(existing.status as SubscriptionStatus);
+
+  // Overwriting a renewing row would orphan its Stripe subscription, even one
+  // that is past due or paused
+  if (
+    existing?.autoRenew &&
+    !ENDED_SUBSCRIPTION_STATUSES.includes(existing.status as SubscriptionStatus)
+  ) {
+    return { success: false, error: 'You already have an active subscription to this tier' };
+  }
+
+  const now = new Date();
+  const extendsGift = hasAccess && existing.currentPeriodEnd > now;
+  const periodStart = extendsGift ? existing.currentPeriodStart : now;
+  const periodEnd = calculateGiftPeriodEnd(
+    extendsGift ? existing.currentPeriodEnd : now,
+    gift.months
+  );
+  const monthlyAmount = Math.round((Number(gift.amount) / gift.months) * 100) / 100;
+
+  return prisma.$transaction(async tx => {
+    // Claim the gift first so two concurrent redemptions can't both succeed
+    const { count } = await tx.gift_subscriptions.updateMany({
+      where: { id: gift.id, status: 'PAID' },
+      data: {
+        status: 'REDEEMED',
+        redeemedById: fanId,
+        redeemedAt: now,
+        updatedAt: now,
+      },
+    });
+
+    if (count === 0) {
+      return { success: false, error: 'This gift has already been redeemed' } as const;
+    }
+
+    const giftFields = {
+      // Gifted periods have no Stripe subscription behind them
+      stripeSubscriptionId: `gift_${gift.id}`,
+      amount: monthlyAmount,
+      status: SubscriptionStatus.ACTIVE,
+      autoRenew: false,
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd,
+      trialEndsAt: null,
+      introPriceEndsAt: null,
+      updatedAt: now,
+    };
+
+    const subscription = existing
+      ? await tx.subscriptions.update({
+          where: { id: existing.id },
+          data: giftFields,
+        })
+      : await tx.subscriptions.create({
+          data: {
+            id: randomUUID(),
+            fanId,
+            artistId: gift.artistId,
+            tierId: gift.tierId,
+            ...giftFields,
+          },
+        });
+
+    await tx.gift_subscriptions.update({
+      where: { id: gift.id },
+      data: { subscriptionId: subscription.id },
+    });
+
+    // Extending an active gift doesn't add a subscriber
+    if (!hasAccess) {
+      await tx.tiers.update({
+        where: { id: gift.tierId },
+        data: { subscriberCount: { increment: 1 } },
+      });
+
+      await tx.artists.update({
+        where: { userId: gift.artistId },
+        data: { totalSubscribers: { increment: 1 } },
+      });
+    }
+
+    return {
+      success: true,
+      subscription: {
+        id: subscription.id,
+        tierId: subscription.tierId,
+        artistId: subscription.artistId,
+        currentPeriodEnd: subscription.currentPeriodEnd,
+      },
+    } as const;
+  });
+}
+
+/**
+ * Paid gift details shown on the redemption page before a fan claims it
+ */
+export async function getGiftPreview(code: string) {
+  const gift = await prisma.gift_subscriptions.findUnique({
+    where: { code },
+    include: {
+      users_gift_subscriptions_purchaserIdTousers: {
+        select: { displayName: true },
+      },
+      tiers: {
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          users: {
+            select: {
+              id: true,
+              displayName: true,
+              avatar: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!gift || gift.status === 'PENDING') {
+    return null;
+  }
+
+  return {
+    code: gift.code,
+    months: gift.months,
+    message: gift.message,
+    isRedeemed: gift.status === 'REDEEMED',
+    purchaserName: gift.users_gift_subscriptions_purchaserIdTousers.displayName,
+    tier: {
+      id: gift.tiers.id,
+      name: gift.tiers.name,
+      description: gift.tiers.description,
+    },
+    artist: gift.tiers.users,
+  };
+}
+
+/**
+ * Gifts a fan has bought, newest first
+ */
+export async function getPurchasedGifts(purchaserId: string) {
+  const gifts = await prisma.gift_subscriptions.findMany({
+    where: {
+      purchaserId,
+      status: { in: ['PAID', 'REDEEMED'] },
+    },
+    include: {
+      tiers: {
+        select: {
+          name: true,
+          users: {
+            select: {
+              id: true,
+              displayName: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return gifts.map(gift => ({
+    id: gift.id,
+    code: gift.code,
+    recipientEmail: gift.recipientEmail,
+    recipientName: gift.recipientName,
+    months: gift.months,
+    amount: Number(gift.amount),
+    status: gift.status as GiftStatus,
+    redeemedAt: gift.redeemedAt,
+    tierName: gift.tiers.name,
+    artist: gift.tiers.users,
+    createdAt: gift.createdAt,
+  }));
+}
@@ -3,6 +3,7 @@ import { prisma } from './prisma';
 import { stripe } from './stripe';
 import { sendEmail } from './notifications';
 import { generateInvoiceData, InvoiceData } from './billing';
+import { addTaxLine, calculateInvoiceTax, getInvoiceTaxFields } from './tax';
 import { logger } from './logger';
 
 export interface InvoiceCreateParams {
@@ -16,6 +17,11 @@ export interface InvoiceCreateParams {
   periodEnd: Date;
   prorationAmount?: number | null;
   items: any;
+  taxAmount?: number;
+  taxRate?: number | null;
+  taxCountry?: string | null;
+  reverseCharge?: boolean;
+  customerVatNumber?: string | null;
 }
 
 export interface InvoiceUpdateParams {
@@ -24,6 +30,11 @@ export interface InvoiceUpdateParams {
   dueDate?: Date;
   paidAt?: Date | null;
   items?: any;
+  taxAmount?: number;
+  taxRate?: number | null;
+  taxCountry?: string | null;
+  reverseCharge?: boolean;
+  customerVatNumber?: string | null;
 }
 
 export interface InvoiceFilterParams {
@@ -54,6 +65,11 @@ export async function createInvoice(params: InvoiceCreateParams): Promise<any> {
         periodEnd: params.periodEnd,
         prorationAmount: params.prorationAmount ? new Decimal(params.prorationAmount) : null,
         items: params.items,
+        ...(params.taxAmount && { taxAmount: new Decimal(params.taxAmount) }),
+        ...(params.taxRate != null && { taxRate: new Decimal(params.taxRate) }),
+        ...(params.taxCountry && { taxCountry: params.taxCountry }),
+        ...(params.reverseCharge && { reverseCharge: true }),
+        ...(params.customerVatNumber && { customerVatNumber: params.customerVatNumber }),
       },
     });
 
@@ -77,6 +93,15 @@ export async function updateInvoice(id: string, params: InvoiceUpdateParams): Pr
         ...(params.dueDate && { dueDate: params.dueDate }),
         ...(params.paidAt !== undefined && { paidAt: params.paidAt }),
         ...(params.items && { items: params.items }),
+        ...(params.taxAmount !== undefined && { taxAmount: new Decimal(params.taxAmount) }),
+        ...(params.taxRate !== undefined && {
+          taxRate: params.taxRate !== null ? new Decimal(params.taxRate) : null,
+        }),
+        ...(params.taxCountry !== undefined && { taxCountry: params.taxCountry }),
+        ...(params.reverseCharge !== undefined && { reverseCharge: params.reverseCharge }),
+        ...(params.customerVatNumber !== undefined && {
+          customerVatNumber: params.customerVatNumber,
+        }),
         updatedAt: new Date(),
       },
     });
@@ -209,6 +234,7 @@ export async function generateAndStoreInvoice(stripeInvoiceId: string): Promise<
   try {
     // Get invoice data from Stripe
     const invoiceData = await generateInvoiceData(stripeInvoiceId);
+    const taxFields = getInvoiceTaxFields(invoiceData.tax);
 
     // Get subscription from database
     const subscription = await prisma.subscriptions.findUnique({
@@ -239,6 +265,7 @@ export async function generateAndStoreInvoice(stripeInvoiceId: string): Promise<
         dueDate: invoiceData.dueDate,
         paidAt: invoiceData.paidAt,
         items: invoiceData.items,
+        ...taxFields,
       });
     } else {
       // Create new invoice
@@ -253,6 +280,7 @@ export async function generateAndStoreInvoice(stripeInvoiceId: string): Promise<
         periodEnd: invoiceData.items[0]?.period.end || new Date(),
         prorationAmount,
         items: invoiceData.items,
+        ...taxFields,
       });
     }
   } catch (error) {
@@ -366,25 +394,32 @@ export async function getUpcomingInvoice(subscriptionId: string): Promise<Invoic
       subscription: subscription.stripeSubscriptionId,
     });
 
+    const amount = (upcomingInvoice.amount_due || 0) / 100;
+    const tax = calculateInvoiceTax(upcomingInvoice, amount);
+
     const invoiceData: InvoiceData = {
       id: 'upcoming',
       subscriptionId: subscription.stripeSubscriptionId,
-      amount: (upcomingInvoice.amount_due || 0) / 100,
+      amount,
       status: upcomingInvoice.status || 'draft',
       dueDate: new Date(
         upcomingInvoice.due_date
           ? upcomingInvoice.due_date * 1000
           : Date.now() + 30 * 24 * 60 * 60 * 1000
       ),
-      items: upcomingInvoice.lines.data.map(line => ({
-        description: line.description || 'Subscription',
-        amount: (line.amount || 0) / 100,
-        quantity: line.quantity || 1,
-        period: {
-          start: new Date((line.period?.start || 0) * 1000),
-          end: new Date((line.period?.end || 0) * 1000),
-        },
-      })),
+      items: addTaxLine(
+        upcomingInvoice.lines.data.map(line => ({
+          description: line.description || 'Subscription',
+          amount: (line.amount || 0) / 100,
+          quantity: line.quantity || 1,
+          period: {
+            start: new Date((line.period?.start || 0) * 1000),
+            end: new Date((line.period?.end || 0) * 1000),
+          },
+        })),
+        tax
+      ),
+      tax,
     };
 
     return invoiceData;
@@ -0,0 +1,462 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { ACCESS_GRANTING_STATUSES } from './content-access';
+import { deliverMessage, lockedAttachmentSchema } from './paid-messages';
+import { createNotFoundError, createValidationError } from './errors';
+
+// Fans messaged per mass message on each run; the cron job picks up the rest
+export const MASS_MESSAGE_BATCH_SIZE = 100;
+export const MAX_TOP_TIPPERS = 500;
+const DEFAULT_TOP_TIPPERS = 50;
+
+// Subscription rows store their status as a plain string
+const ACCESS_STATUSES: readonly string[] = ACCESS_GRANTING_STATUSES;
+
+export const MASS_MESSAGE_SEGMENTS = ['TIER', 'LAPSED', 'TOP_TIPPERS'] as const;
+
+export type MassMessageSegment = (typeof MASS_MESSAGE_SEGMENTS)[number];
+export type MassMessageStatus = 'SENDING' | 'SENT' | 'CANCELLED';
+
+const segmentSchema = z.object({
+  segment: z.enum(MASS_MESSAGE_SEGMENTS),
+  tierId: z.string().optional(),
+  // Only fans whose subscription ended within this many days count as lapsed
+  lapsedWithinDays: z.number().int().min(1).max(365).optional(),
+  topTipperCount: z.number().int().min(1).max(MAX_TOP_TIPPERS).optional(),
+});
+
+export const massMessageAudienceSchema = segmentSchema.refine(
+  data => data.segment !== 'TIER' || !!data.tierId,
+  { message: 'Choose a tier to message', path: ['tierId'] }
+);
+
+export const massMessageSchema = segmentSchema
+  .merge(
+    z.object({
+      // {{name}} is replaced with each fan's display name
+      content: z.string().min(1).max(1000),
+      type: z.enum(['text', 'image', 'audio']).default('text'),
+      attachmentUrl: z.string().url().optional(),
+    })
+  )
+  .merge(lockedAttachmentSchema)
+  .refine(data => data.segment !== 'TIER' || !!data.tierId, {
+    message: 'Choose a tier to message',
+    path: ['tierId'],
+  })
+  .refine(data => !data.attachmentPrice || !!data.attachmentUrl, {
+    message: 'Locked messages need an attachment',
+    path: ['attachmentUrl'],
+  });
+
+export type MassMessageAudienceInput = z.infer<typeof massMessageAudienceSchema>;
+export type MassMessageInput = z.infer<typeof massMessageSchema>;
+
+interface StoredMassMessage {
+  id: string;
+  segment: string;
+  segmentOptions: string;
+  content: string;
+  type: string;
+  attachmentUrl: string | null;
+  attachmentPrice: unknown;
+  recipientCount: number;
+  cursor: number;
+  sentCount: number;
+  skippedCount: number;
+  status: string;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface MassMessageView {
+  id: string;
+  segment: MassMessageSegment;
+  segmentOptions: Record<string, unknown>;
+  content: string;
+  type: string;
+  attachmentUrl: string | null;
+  attachmentPrice: number | null;
+  status: MassMessageStatus;
+  recipientCount: number;
+  sentCount: number;
+  // Fans who opted out or couldn't be messaged
+  skippedCount: number;
+  pendingCount: number;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface MassMessageStats extends MassMessageView {
+  readCount: number;
+  readRate: number;
+  unlockCount: number;
+  unlockRevenue: number;
+}
+
+export function toMassMessageView(massMessage: StoredMassMessage): MassMessageView {
+  return {
+    id: massMessage.id,
+    segment: massMessage.segment as MassMessageSegment,
+    segmentOptions: JSON.parse(massMessage.segmentOptions),
+    content: massMessage.content,
+    type: massMessage.type,
+    attachmentUrl: massMessage.attachmentUrl,
+    attachmentPrice:
+      massMessage.attachmentPrice === null ? null : Number(massMessage.attachmentPrice),
+    status: massMessage.status as MassMessageStatus,
+    recipientCount: massMessage.recipientCount,
+    sentCount: massMessage.sentCount,
+    skippedCount: massMessage.skippedCount,
+    pendingCount:
+      massMessage.status === 'SENDING' ? massMessage.recipientCount - massMessage.cursor : 0,
+    completedAt: massMessage.completedAt,
+    createdAt: massMessage.createdAt,
+  };
+}
+
+export function personaliseMessage(template: string, fan: { displayName: string }): string {
+  return template.replace(/\{\{\s*name\s*\}\}/gi, fan.displayName);
+}
+
+/**
+ * Fans with no subscription to the artist that still grants access. With a
+ * window, only fans whose last subscription ended inside it are included.
+ */
+export function findLapsedFans(
+  subscriptions: Array<{ fanId: string; status: string; currentPeriodEnd: Date }>,
+  now: Date = new Date(),
+  withinDays?: number
+): string[] {
+  const lastPeriodEnd = new Map<string, Date>();
+  const activeFans = new Set<string>();
+
+  for (const subscription of subscriptions) {
+    if (ACCESS_STATUSES.includes(subscription.status) && subscription.currentPeriodEnd >= now) {
+      activeFans.add(subscription.fanId);
+    }
+
+    const previous = lastPeriodEnd.get(subscription.fanId);
+    if (!previous || subscription.currentPeriodEnd > previous) {
+      lastPeriodEnd.set(subscription.fanId, subscription.currentPeriodEnd);
+    }
+  }
+
+  const windowStart = withinDays
+    ? new Date(now.getTime() - withinDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return Array.from(lastPeriodEnd.entries())
+    .filter(
+      ([fanId, endedAt]) => !activeFans.has(fanId) && (!windowStart || endedAt >= windowStart)
+    )
+    .map(([fanId]) => fanId);
+}
+
+/**
+ * Fans a segment currently covers, in the order they'll be messaged
+ */
+export async function resolveSegmentRecipients(
+  artistId: string,
+  input: MassMessageAudienceInput,
+  now: Date = new Date()
+): Promise<string[]> {
+  switch (input.segment) {
+    case 'TIER': {
+      const tier = await prisma.tiers.findFirst({
+        where: { id: input.tierId, artistId },
+        select: { id: true },
+      });
+
+      if (!tier) {
+        throw createNotFoundError('Tier not found');
+      }
+
+      const subscriptions = await prisma.subscriptions.findMany({
+        where: {
+          tierId: tier.id,
+          status: { in: ACCESS_GRANTING_STATUSES },
+          currentPeriodEnd: { gte: now },
+        },
+        select: { fanId: true },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return Array.from(new Set(subscriptions.map(subscription => subscription.fanId)));
+    }
+
+    case 'LAPSED': {
+      const subscriptions = await prisma.subscriptions.findMany({
+        where: { artistId },
+        select: { fanId: true, status: true, currentPeriodEnd: true },
+      });
+
+      return findLapsedFans(subscriptions, now, input.lapsedWithinDays);
+    }
+
+    case 'TOP_TIPPERS': {
+      const tippers = await prisma.stream_tips.groupBy({
+        by: ['tipperId'],
+        where: {
+          status: 'COMPLETED',
+          tipperId: { not: null },
+          live_streams: { artistId },
+        },
+        _sum: { amount: true },
+        orderBy: { _sum: { amount: 'desc' } },
+        take: input.topTipperCount || DEFAULT_TOP_TIPPERS,
+      });
+
+      return tippers.map(tipper => tipper.tipperId!);
+    }
+  }
+}
+
+/**
+ * Queue a message to every fan in the segment. Fans are snapshotted now and
+ * messaged in batches.
+ */
+export async function createMassMessage(artistId: string, input: MassMessageInput) {
+  if (input.attachmentPrice) {
+    const artist = await prisma.artists.findUnique({
+      where: { userId: artistId },
+    });
+
+    if (!artist?.stripeAccountId || !artist.isStripeOnboarded) {
+      throw createValidationError('Connect Stripe before sending locked media');
+    }
+  }
+
+  const recipientIds = await resolveSegmentRecipients(artistId, input);
+
+  if (recipientIds.length === 0) {
+    throw createValidationError('There are no fans in this segment');
+  }
+
+  const { segment, content, type, attachmentUrl, attachmentPrice, attachmentPreviewUrl } = input;
+  const segmentOptions = {
+    ...(input.tierId && { tierId: input.tierId }),
+    ...(input.lapsedWithinDays && { lapsedWithinDays: input.lapsedWithinDays }),
+    ...(input.topTipperCount && { topTipperCount: input.topTipperCount }),
+  };
+
+  return prisma.mass_messages.create({
+    data: {
+      id: randomUUID(),
+      artistId,
+      segment,
+      segmentOptions: JSON.stringify(segmentOptions),
+      content,
+      type: type.toUpperCase(),
+      attachmentUrl,
+      attachmentPrice,
+      attachmentPreviewUrl,
+      recipientIds: JSON.stringify(recipientIds),
+      recipientCount: recipientIds.length,
+      status: 'SENDING',
+      updatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Message the next batch of fans. Each fan gets their own messages row so
+ * replies, reads and unlocks work like any other DM. Returns how many were sent.
+ */
+export async function sendMassMessageBatch(
+  massMessageId: string,
+  batchSize: number = MASS_MESSAGE_BATCH_SIZE
+): Promise<number> {
+  const massMessage = await prisma.mass_messages.findUnique({
+    where: { id: massMessageId },
+    include: { users: { select: { displayName: true } } },
+  });
+
+  if (!massMessage || massMessage.status !== 'SENDING') {
+    return 0;
+  }
+
+  const recipientIds: string[] = JSON.parse(massMessage.recipientIds);
+  const batch = recipientIds.slice(massMessage.cursor, massMessage.cursor + batchSize);
+  const now = new Date();
+
+  // Claim the batch so overlapping runs can't message the same fans twice
+  const { count } = await prisma.mass_messages.updateMany({
+    where: { id: massMessageId, status: 'SENDING', cursor: massMessage.cursor },
+    data: { cursor: massMessage.cursor + batch.length, updatedAt: now },
+  });
+
+  if (count === 0) {
+    return 0;
+  }
+
+  const [optOuts, fans] = await Promise.all([
+    prisma.mass_message_opt_outs.findMany({
+      where: { artistId: massMessage.artistId, fanId: { in: batch } },
+      select: { fanId: true },
+    }),
+    prisma.users.findMany({
+      where: { id: { in: batch } },
+      select: { id: true, displayName: true },
+    }),
+  ]);
+
+  const optedOut = new Set(optOuts.map(optOut => optOut.fanId));
+  let sent = 0;
+
+  for (const fan of fans) {
+    if (optedOut.has(fan.id)) {
+      continue;
+    }
+
+    try {
+      const message = await prisma.messages.create({
+        data: {
+          id: randomUUID(),
+          senderId: massMessage.artistId,
+          recipientId: fan.id,
+          content: personaliseMessage(massMessage.content, fan),
+          type: massMessage.type,
+          attachmentUrl: massMessage.attachmentUrl,
+          attachmentPrice: massMessage.attachmentPrice,
+          attachmentPreviewUrl: massMessage.attachmentPreviewUrl,
+          massMessageId,
+          updatedAt: now,
+        },
+      });
+
+      await deliverMessage(message, massMessage.users.displayName);
+      sent++;
+    } catch (error) {
+      logger.error('Failed to send mass message', { massMessageId, fanId: fan.id }, error as Error);
+    }
+  }
+
+  await prisma.mass_messages.update({
+    where: { id: massMessageId },
+    data: {
+      sentCount: { increment: sent },
+      skippedCount: { increment: batch.length - sent },
+      updatedAt: new Date(),
+    },
+  });
+
+  if (massMessage.cursor + batch.length >= massMessage.recipientCount) {
+    await prisma.mass_messages.updateMany({
+      where: { id: massMessageId, status: 'SENDING' },
+      data: { status: 'SENT', completedAt: new Date(), updatedAt: new Date() },
+    });
+  }
+
+  return sent;
+}
+
+/**
+ * Send the next batch of every mass message still going out
+ */
+export async function processMassMessages(): Promise<number> {
+  const sending = await prisma.mass_messages.findMany({
+    where: { status: 'SENDING' },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let sent = 0;
+  for (const massMessage of sending) {
+    try {
+      sent += await sendMassMessageBatch(massMessage.id);
+    } catch (error) {
+      logger.error('Mass message batch failed', { massMessageId: massMessage.id }, error as Error);
+    }
+  }
+
+  return sent;
+}
+
+export async function listMassMessages(artistId: string) {
+  const massMessages = await prisma.mass_messages.findMany({
+    where: { artistId },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+
+  return massMessages.map(toMassMessageView);
+}
+
+export async function getMassMessageStats(
+  artistId: string,
+  massMessageId: string
+): Promise<MassMessageStats> {
+  const massMessage = await prisma.mass_messages.findFirst({
+    where: { id: massMessageId, artistId },
+  });
+
+  if (!massMessage) {
+    throw createNotFoundError('Mass message not found');
+  }
+
+  const [readCount, unlocks] = await Promise.all([
+    prisma.messages.count({
+      where: { massMessageId, readAt: { not: null } },
+    }),
+    prisma.message_purchases.aggregate({
+      where: {
+        type: 'ATTACHMENT_UNLOCK',
+        status: 'COMPLETED',
+        messages: { massMessageId },
+      },
+      _count: { _all: true },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return {
+    ...toMassMessageView(massMessage),
+    readCount,
+    readRate: massMessage.sentCount > 0 ? readCount / massMessage.sentCount : 0,
+    unlockCount: unlocks._count._all,
+    unlockRevenue: Number(unlocks._sum.amount || 0),
+  };
+}
+
+/**
+ * Stop a mass message that's still going out. Fans already messaged keep it.
+ */
+export async function cancelMassMessage(artistId: string, massMessageId: string) {
+  const { count } = await prisma.mass_messages.updateMany({
+    where: { id: massMessageId, artistId, status: 'SENDING' },
+    data: { status: 'CANCELLED', completedAt: new Date(), updatedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw createNotFoundError('No mass message is sending with that id');
+  }
+
+  return getMassMessageStats(artistId, massMessageId);
+}
+
+export async function setMassMessageOptOut(fanId: string, artistId: string, optedOut: boolean) {
+  if (optedOut) {
+    await prisma.mass_message_opt_outs.upsert({
+      where: { artistId_fanId: { artistId, fanId } },
+      create: { id: randomUUID(), artistId, fanId },
+      update: {},
+    });
+  } else {
+    await prisma.mass_message_opt_outs.deleteMany({
+      where: { artistId, fanId },
+    });
+  }
+
+  return { artistId, optedOut };
+}
+
+export async function isOptedOutOfMassMessages(fanId: string, artistId: string) {
+  const optOut = await prisma.mass_message_opt_outs.findUnique({
+    where: { artistId_fanId: { artistId, fanId } },
+  });
+
+  return !!optOut;
+}
@@ -110,11 +110,18 @@ export interface ProcessingJob {
     metadata: MediaMetadata;
   };
   outputs: ProcessingOutput[];
+  clip?: ClipRange;
   error?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Segment of a source video to cut out, in seconds from its start
+export interface ClipRange {
+  startSeconds: number;
+  endSeconds: number;
+}
+
 export interface ProcessingOutput {
   quality: string;
   format: string;
@@ -630,6 +637,78 @@ export class MediaProcessor {
     });
   }
 
+  /**
+   * Cut a standalone 720p clip out of a video, plus a thumbnail from its midpoint
+   */
+  async generateClip(
+    inputPath: string,
+    outputPrefix: string,
+    range: ClipRange
+  ): Promise<ProcessingOutput[]> {
+    const outputPath = path.join(this.tempDir, 'output', `${uuidv4()}.mp4`);
+    const outputKey = `${outputPrefix}-clip.mp4`;
+    const duration = range.endSeconds - range.startSeconds;
+
+    const clip = await new Promise<ProcessingOutput>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .seekInput(range.startSeconds)
+        .duration(duration)
+        .videoCodec('libx264')
+        .audioCodec('aac')
+        .size('1280x720')
+        .videoBitrate('3000k')
+        .audioBitrate('128k')
+        .format('mp4')
+        .outputOptions(['-movflags +faststart'])
+        .on('end', async () => {
+          try {
+            const buffer = await fs.readFile(outputPath);
+            const url = await this.uploadToS3(buffer, outputKey, 'video/mp4');
+            const stats = await fs.stat(outputPath);
+
+            await fs.unlink(outputPath).catch(() => {});
+
+            resolve({
+              quality: 'clip',
+              format: 'mp4',
+              url,
+              key: outputKey,
+              fileSize: stats.size,
+              duration,
+              width: 1280,
+              height: 720,
+            });
+          } catch (error) {
+            reject(error);
+          }
+        })
+        .on('error', reject)
+        .save(outputPath);
+    });
+
+    const thumbnailPath = path.join(this.tempDir, 'output', `${uuidv4()}.jpg`);
+    const thumbnailKey = `${outputPrefix}-clip-thumb.jpg`;
+
+    await this.extractThumbnail(inputPath, thumbnailPath, range.startSeconds + duration / 2);
+
+    const buffer = await fs.readFile(thumbnailPath);
+    const thumbnailUrl = await this.uploadToS3(buffer, thumbnailKey, 'image/jpeg');
+    const stats = await fs.stat(thumbnailPath);
+
+    await fs.unlink(thumbnailPath).catch(() => {});
+
+    return [
+      clip,
+      {
+        quality: 'thumbnail',
+        format: 'jpg',
+        url: thumbnailUrl,
+        key: thumbnailKey,
+        fileSize: stats.size,
+      },
+    ];
+  }
+
   /**
    * Upload buffer to S3
    */
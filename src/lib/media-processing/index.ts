@@ -54,6 +54,7 @@ export {
 
 // Type-only exports for interfaces
 export type {
+  ClipRange,
   ProcessingJob,
   ProcessingOutput,
   ProcessingOptions,
@@ -18,6 +18,7 @@ import { logger } from '../logger';
 import { prisma } from '../prisma';
 import {
   mediaProcessor,
+  ClipRange,
   ProcessingJob,
   ProcessingOutput,
   ProcessingOptions,
@@ -211,6 +212,69 @@ export class TranscodingPipeline extends EventEmitter {
     return jobId;
   }
 
+  /**
+   * Add a job that cuts a clip out of a video into its own content item
+   */
+  async queueClipJob(
+    contentId: string,
+    userId: string,
+    inputFileUrl: string,
+    clip: ClipRange
+  ): Promise<string> {
+    if (this.isShuttingDown) {
+      throw new Error('Pipeline is shutting down, cannot accept new jobs');
+    }
+
+    if (this.processingQueue.size >= QUEUE_CONFIG.maxQueueSize) {
+      this.emit('queue:full');
+      throw new Error('Processing queue is full, please try again later');
+    }
+
+    const jobId = uuidv4();
+    const now = new Date();
+
+    const tempInputPath = await this.downloadInputFile(inputFileUrl);
+    const metadata = await mediaProcessor.extractMetadata(tempInputPath);
+
+    if (clip.endSeconds > metadata.duration) {
+      throw new Error('Clip extends past the end of the video');
+    }
+
+    const job: ProcessingJob = {
+      id: jobId,
+      contentId,
+      userId,
+      type: ContentType.VIDEO,
+      status: 'queued',
+      progress: 0,
+      originalFile: {
+        key: this.extractS3KeyFromUrl(inputFileUrl),
+        url: inputFileUrl,
+        metadata,
+      },
+      outputs: [],
+      clip,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveJobToDatabase(job);
+    this.processingQueue.set(jobId, job);
+
+    logger.info('Clip job queued', {
+      jobId,
+      contentId,
+      userId,
+      startSeconds: clip.startSeconds,
+      endSeconds: clip.endSeconds,
+    });
+
+    this.emit('job:queued', job);
+    this.processNextJob();
+
+    return jobId;
+  }
+
   /**
    * Get job status and progress
    */
@@ -318,7 +382,9 @@ export class TranscodingPipeline extends EventEmitter {
     this.emit('job:started', job);
 
     try {
-      if (job.type === ContentType.VIDEO) {
+      if (job.clip) {
+        await this.processClipJob(job, job.clip);
+      } else if (job.type === ContentType.VIDEO) {
         await this.processVideoJob(job);
       } else if (job.type === ContentType.AUDIO) {
         await this.processAudioJob(job);
@@ -412,6 +478,42 @@ export class TranscodingPipeline extends EventEmitter {
     }
   }
 
+  /**
+   * Process clip job and publish the clip's content once it's uploaded
+   */
+  private async processClipJob(job: ProcessingJob, clip: ClipRange): Promise<void> {
+    const tempInputPath = await this.downloadInputFile(job.originalFile.url);
+    const outputPrefix = `processed/${job.userId}/${job.contentId}/${job.id}`;
+
+    try {
+      await this.updateJobProgress(job, 10, 'Cutting clip');
+      const [clipOutput, thumbnail] = await mediaProcessor.generateClip(
+        tempInputPath,
+        outputPrefix,
+        clip
+      );
+      job.outputs.push(clipOutput, thumbnail);
+
+      await this.updateJobProgress(job, 90, 'Publishing clip');
+      await prisma.content.update({
+        where: { id: job.contentId },
+        data: {
+          fileUrl: clipOutput.url,
+          thumbnailUrl: thumbnail.url,
+          fileSize: clipOutput.fileSize,
+          duration: Math.round(clipOutput.duration || clip.endSeconds - clip.startSeconds),
+          format: clipOutput.format,
+          status: 'PUBLISHED',
+          updatedAt: new Date(),
+        },
+      });
+
+      await this.updateJobProgress(job, 100, 'Clip processing completed');
+    } finally {
+      await fs.unlink(tempInputPath).catch(() => {});
+    }
+  }
+
   /**
    * Process audio job
    */
@@ -501,6 +603,16 @@ export class TranscodingPipeline extends EventEmitter {
         error: error.message,
       });
 
+      // Clips never get a file of their own, so keep them out of listings
+      if (job.clip) {
+        await prisma.content
+          .update({
+            where: { id: job.contentId },
+            data: { status: 'FAILED', updatedAt: new Date() },
+          })
+          .catch(() => {});
+      }
+
       this.emit('job:failed', job, error);
     }
 
@@ -0,0 +1,603 @@
+/**
+ * Chat room persistence
+ *
+ * Rooms, memberships, threaded replies, reactions and edit history for the
+ * messaging socket server. Everything lives in the database so conversations
+ * survive restarts and every instance sees the same rooms.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '../prisma';
+import { createForbiddenError, createNotFoundError, createValidationError } from '../errors';
+import type { EncryptedMessageFields } from '../encrypted-messages';
+import type { ChatRoom, Message, MessageAttachment, MessageType } from './socket-server';
+
+export type RoomType = ChatRoom['type'];
+export type RoomRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+export const ROOM_MEMBER_LIMITS: Record<RoomType, number> = {
+  DIRECT: 2,
+  GROUP: 100,
+  COMMUNITY: 1000,
+  FAN_CLUB: 10000,
+};
+
+const DEFAULT_ROOM_SETTINGS: ChatRoom['settings'] = {
+  allowFiles: true,
+  allowMedia: true,
+  maxMessageLength: 2000,
+  muteSettings: {},
+};
+
+const MANAGER_ROLES: RoomRole[] = ['OWNER', 'ADMIN'];
+const MAX_HISTORY_PAGE = 100;
+
+const activeMembers = { where: { leftAt: null } };
+
+const messageInclude = {
+  message_reactions: {
+    include: { users: { select: { displayName: true } } },
+    orderBy: { createdAt: 'asc' as const },
+  },
+  users_messages_senderIdTousers: {
+    select: { id: true, displayName: true, avatar: true },
+  },
+};
+
+interface StoredRoom {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  isPrivate: boolean;
+  createdBy: string;
+  settings: string;
+  lastActivityAt: Date;
+  createdAt: Date;
+  chat_room_members: Array<{ userId: string; role: string }>;
+}
+
+interface StoredMessage {
+  id: string;
+  content: string;
+  senderId: string;
+  recipientId: string | null;
+  roomId: string | null;
+  type: string;
+  attachments: string | null;
+  replyToId: string | null;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  readAt: Date | null;
+  createdAt: Date;
+  isEncrypted?: boolean;
+  encryptionIv?: string | null;
+  senderKeyId?: string | null;
+  recipientKeyId?: string | null;
+  message_reactions?: Array<{
+    id: string;
+    emoji: string;
+    userId: string;
+    createdAt: Date;
+    users: { displayName: string };
+  }>;
+}
+
+export interface MessageHistoryPage {
+  messages: Message[];
+  hasMore: boolean;
+  // Pass back as `before` to load the next page of older messages
+  nextCursor: string | null;
+}
+
+export function toChatRoom(room: StoredRoom): ChatRoom {
+  return {
+    id: room.id,
+    name: room.name,
+    description: room.description ?? undefined,
+    type: room.type as RoomType,
+    isPrivate: room.isPrivate,
+    createdBy: room.createdBy,
+    members: new Set(room.chat_room_members.map(member => member.userId)),
+    admins: new Set(
+      room.chat_room_members
+        .filter(member => MANAGER_ROLES.includes(member.role as RoomRole))
+        .map(member => member.userId)
+    ),
+    settings: { ...DEFAULT_ROOM_SETTINGS, ...JSON.parse(room.settings) },
+    createdAt: room.createdAt,
+    lastActivity: room.lastActivityAt,
+  };
+}
+
+/**
+ * Room in a shape that survives JSON (sets become arrays) for sending to clients
+ */
+export function serializeChatRoom(room: ChatRoom) {
+  return {
+    ...room,
+    members: Array.from(room.members),
+    admins: Array.from(room.admins),
+  };
+}
+
+export function toChatMessage(message: StoredMessage): Message {
+  return {
+    id: message.id,
+    // Deleted messages stay as tombstones so replies keep their place in the thread
+    content: message.deletedAt ? '' : message.content,
+    senderId: message.senderId,
+    receiverId: message.recipientId ?? undefined,
+    roomId: message.roomId ?? undefined,
+    type: message.type.toLowerCase() as MessageType,
+    attachments:
+      message.attachments && !message.deletedAt
+        ? (JSON.parse(message.attachments) as MessageAttachment[])
+        : undefined,
+    reactions: (message.message_reactions || []).map(reaction => ({
+      id: reaction.id,
+      emoji: reaction.emoji,
+      userId: reaction.userId,
+      userName: reaction.users.displayName,
+      createdAt: reaction.createdAt,
+    })),
+    replyToId: message.replyToId ?? undefined,
+    edited: !!message.editedAt,
+    editedAt: message.editedAt ?? undefined,
+    deletedAt: message.deletedAt ?? undefined,
+    encryption:
+      message.isEncrypted && message.encryptionIv && message.senderKeyId && message.recipientKeyId
+        ? {
+            iv: message.encryptionIv,
+            senderKeyId: message.senderKeyId,
+            recipientKeyId: message.recipientKeyId,
+          }
+        : undefined,
+    createdAt: message.createdAt,
+    status: message.readAt ? 'read' : 'sent',
+  };
+}
+
+async function findRoom(roomId: string) {
+  return prisma.chat_rooms.findUnique({
+    where: { id: roomId },
+    include: { chat_room_members: activeMembers },
+  });
+}
+
+export async function getRoom(roomId: string): Promise<ChatRoom | null> {
+  const room = await findRoom(roomId);
+  return room ? toChatRoom(room) : null;
+}
+
+export async function createRoom(data: {
+  name: string;
+  description?: string;
+  type: RoomType;
+  isPrivate: boolean;
+  createdBy: string;
+  initialMembers?: string[];
+}): Promise<ChatRoom> {
+  if (data.type === 'DIRECT') {
+    throw createValidationError('Direct rooms are created by messaging someone');
+  }
+
+  const name = data.name?.trim();
+  if (!name) {
+    throw createValidationError('Room name is required');
+  }
+
+  const memberIds = Array.from(new Set(data.initialMembers || [])).filter(
+    userId => userId !== data.createdBy
+  );
+
+  if (memberIds.length + 1 > ROOM_MEMBER_LIMITS[data.type]) {
+    throw createValidationError(`Rooms of this type hold up to ${ROOM_MEMBER_LIMITS[data.type]}`);
+  }
+
+  const room = await prisma.chat_rooms.create({
+    data: {
+      id: randomUUID(),
+      name,
+      description: data.description,
+      type: data.type,
+      isPrivate: data.isPrivate,
+      createdBy: data.createdBy,
+      updatedAt: new Date(),
+      chat_room_members: {
+        createMany: {
+          data: [
+            { id: randomUUID(), userId: data.createdBy, role: 'OWNER' },
+            ...memberIds.map(userId => ({ id: randomUUID(), userId, role: 'MEMBER' })),
+          ],
+        },
+      },
+    },
+    include: { chat_room_members: activeMembers },
+  });
+
+  return toChatRoom(room);
+}
+
+export function directRoomKey(userId1: string, userId2: string): string {
+  return [userId1, userId2].sort().join(':');
+}
+
+/**
+ * The one DIRECT room two users share, created on their first message
+ */
+export async function getOrCreateDirectRoom(userId1: string, userId2: string): Promise<string> {
+  const sortedIds = [userId1, userId2].sort();
+  const directKey = directRoomKey(userId1, userId2);
+
+  const room = await prisma.chat_rooms.upsert({
+    where: { directKey },
+    create: {
+      id: randomUUID(),
+      name: `dm_${sortedIds.join('_')}`,
+      type: 'DIRECT',
+      directKey,
+      isPrivate: true,
+      createdBy: userId1,
+      updatedAt: new Date(),
+      chat_room_members: {
+        createMany: {
+          data: sortedIds.map(userId => ({ id: randomUUID(), userId, role: 'MEMBER' })),
+        },
+      },
+    },
+    update: {},
+    select: { id: true },
+  });
+
+  return room.id;
+}
+
+export async function updateRoomSettings(
+  roomId: string,
+  changes: Partial<ChatRoom['settings']>
+): Promise<ChatRoom['settings']> {
+  const room = await prisma.chat_rooms.findUnique({
+    where: { id: roomId },
+    select: { settings: true },
+  });
+
+  if (!room) {
+    throw createNotFoundError('Room not found');
+  }
+
+  const settings = { ...DEFAULT_ROOM_SETTINGS, ...JSON.parse(room.settings), ...changes };
+
+  await prisma.chat_rooms.update({
+    where: { id: roomId },
+    data: { settings: JSON.stringify(settings), updatedAt: new Date() },
+  });
+
+  return settings;
+}
+
+export async function getUserRooms(userId: string): Promise<ChatRoom[]> {
+  const rooms = await prisma.chat_rooms.findMany({
+    where: {
+      chat_room_members: { some: { userId, leftAt: null } },
+    },
+    include: { chat_room_members: activeMembers },
+    orderBy: { lastActivityAt: 'desc' },
+  });
+
+  return rooms.map(toChatRoom);
+}
+
+export async function getRoomMemberIds(roomId: string): Promise<string[]> {
+  const members = await prisma.chat_room_members.findMany({
+    where: { roomId, leftAt: null },
+    select: { userId: true },
+  });
+
+  return members.map(member => member.userId);
+}
+
+async function getMembership(roomId: string, userId: string) {
+  return prisma.chat_room_members.findFirst({
+    where: { roomId, userId, leftAt: null },
+  });
+}
+
+/**
+ * Members can always get in; anyone can join a public room that isn't a DM
+ */
+export async function canAccessRoom(userId: string, roomId: string): Promise<boolean> {
+  if (await getMembership(roomId, userId)) {
+    return true;
+  }
+
+  const room = await prisma.chat_rooms.findUnique({
+    where: { id: roomId },
+    select: { isPrivate: true, type: true },
+  });
+
+  return !!room && !room.isPrivate && room.type !== 'DIRECT';
+}
+
+export async function canManageRoom(userId: string, roomId: string): Promise<boolean> {
+  const membership = await getMembership(roomId, userId);
+  return !!membership && MANAGER_ROLES.includes(membership.role as RoomRole);
+}
+
+/**
+ * Make the user an active member, rejoining if they left before
+ */
+export async function addRoomMember(roomId: string, userId: string, role: RoomRole = 'MEMBER') {
+  const room = await findRoom(roomId);
+
+  if (!room) {
+    throw createNotFoundError('Room not found');
+  }
+
+  if (room.chat_room_members.some(member => member.userId === userId)) {
+    return toChatRoom(room);
+  }
+
+  if (room.type === 'DIRECT') {
+    throw createForbiddenError('Direct rooms are limited to their two members');
+  }
+
+  if (room.chat_room_members.length >= ROOM_MEMBER_LIMITS[room.type as RoomType]) {
+    throw createValidationError('This room is full');
+  }
+
+  await prisma.chat_room_members.upsert({
+    where: { roomId_userId: { roomId, userId } },
+    create: { id: randomUUID(), roomId, userId, role },
+    update: { role, leftAt: null, joinedAt: new Date() },
+  });
+
+  return toChatRoom((await findRoom(roomId))!);
+}
+
+/**
+ * Leave a room. DM participants stay members so the conversation keeps working.
+ */
+export async function removeRoomMember(roomId: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.chat_room_members.updateMany({
+    where: { roomId, userId, leftAt: null, chat_rooms: { type: { not: 'DIRECT' } } },
+    data: { leftAt: new Date() },
+  });
+
+  return count > 0;
+}
+
+export async function touchRoom(roomId: string) {
+  await prisma.chat_rooms.update({
+    where: { id: roomId },
+    data: { lastActivityAt: new Date(), updatedAt: new Date() },
+  });
+}
+
+export async function createRoomMessage(data: {
+  senderId: string;
+  roomId: string;
+  receiverId?: string;
+  content: string;
+  type: MessageType;
+  attachments?: MessageAttachment[];
+  replyToId?: string;
+  encrypted?: EncryptedMessageFields;
+}): Promise<Message> {
+  if (data.replyToId) {
+    const parent = await prisma.messages.findUnique({
+      where: { id: data.replyToId },
+      select: { roomId: true },
+    });
+
+    if (!parent || parent.roomId !== data.roomId) {
+      throw createValidationError('Replies must stay in the same room');
+    }
+  }
+
+  const message = await prisma.messages.create({
+    data: {
+      id: randomUUID(),
+      senderId: data.senderId,
+      recipientId: data.receiverId,
+      roomId: data.roomId,
+      content: data.content || '',
+      type: (data.type || 'text').toUpperCase(),
+      attachments: data.attachments?.length ? JSON.stringify(data.attachments) : undefined,
+      replyToId: data.replyToId,
+      ...data.encrypted,
+      updatedAt: new Date(),
+    },
+    include: messageInclude,
+  });
+
+  await touchRoom(data.roomId);
+
+  return toChatMessage(message);
+}
+
+export async function getRoomMessage(messageId: string): Promise<Message | null> {
+  const message = await prisma.messages.findUnique({
+    where: { id: messageId },
+    include: messageInclude,
+  });
+
+  return message ? toChatMessage(message) : null;
+}
+
+/**
+ * A page of room messages, oldest first. `before` is the id of the oldest
+ * message the client already has.
+ */
+export async function getMessageHistory(
+  roomId: string,
+  options: { limit?: number; before?: string } = {}
+): Promise<MessageHistoryPage> {
+  const limit = Math.min(Math.max(options.limit || 50, 1), MAX_HISTORY_PAGE);
+
+  const messages = await prisma.messages.findMany({
+    where: { roomId },
+    include: messageInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    // One extra row tells us whether there's another page
+    take: limit + 1,
+    ...(options.before && { cursor: { id: options.before }, skip: 1 }),
+  });
+
+  const hasMore = messages.length > limit;
+  const page = messages.slice(0, limit);
+
+  return {
+    messages: page.reverse().map(toChatMessage),
+    hasMore,
+    nextCursor: hasMore ? page[0].id : null,
+  };
+}
+
+async function getMessageForMember(messageId: string, userId: string) {
+  const message = await prisma.messages.findUnique({
+    where: { id: messageId },
+  });
+
+  if (!message || !message.roomId || message.deletedAt) {
+    throw createNotFoundError('Message not found');
+  }
+
+  if (!(await getMembership(message.roomId, userId))) {
+    throw createForbiddenError('Access denied to room');
+  }
+
+  return message as typeof message & { roomId: string };
+}
+
+export async function addReaction(messageId: string, userId: string, emoji: string) {
+  const reactionEmoji = emoji?.trim();
+  if (!reactionEmoji || reactionEmoji.length > 32) {
+    throw createValidationError('Invalid reaction');
+  }
+
+  const message = await getMessageForMember(messageId, userId);
+
+  const reaction = await prisma.message_reactions.upsert({
+    where: {
+      messageId_userId_emoji: { messageId, userId, emoji: reactionEmoji },
+    },
+    create: { id: randomUUID(), messageId, userId, emoji: reactionEmoji },
+    update: {},
+    include: { users: { select: { displayName: true } } },
+  });
+
+  return {
+    roomId: message.roomId,
+    reaction: {
+      id: reaction.id,
+      emoji: reaction.emoji,
+      userId: reaction.userId,
+      userName: reaction.users.displayName,
+      createdAt: reaction.createdAt,
+    },
+  };
+}
+
+export async function removeReaction(messageId: string, userId: string, emoji: string) {
+  const { count } = await prisma.message_reactions.deleteMany({
+    where: { messageId, userId, emoji },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Change a message's text, keeping the previous version in its edit history
+ */
+export async function editMessage(messageId: string, userId: string, content: string) {
+  const newContent = content?.trim();
+  if (!newContent) {
+    throw createValidationError('Message cannot be empty');
+  }
+
+  const message = await getMessageForMember(messageId, userId);
+
+  if (message.senderId !== userId) {
+    throw createForbiddenError('You can only edit your own messages');
+  }
+
+  if (message.content === newContent) {
+    return getRoomMessage(messageId);
+  }
+
+  const now = new Date();
+  const [, updated] = await prisma.$transaction([
+    prisma.message_edits.create({
+      data: {
+        id: randomUUID(),
+        messageId,
+        previousContent: message.content,
+        editedAt: now,
+      },
+    }),
+    prisma.messages.update({
+      where: { id: messageId },
+      data: { content: newContent, editedAt: now, updatedAt: now },
+      include: messageInclude,
+    }),
+  ]);
+
+  return toChatMessage(updated);
+}
+
+export async function getEditHistory(messageId: string, userId: string) {
+  await getMessageForMember(messageId, userId);
+
+  return prisma.message_edits.findMany({
+    where: { messageId },
+    select: { previousContent: true, editedAt: true },
+    orderBy: { editedAt: 'asc' },
+  });
+}
+
+/**
+ * Soft-delete a message. Senders can delete their own; room admins can delete any.
+ */
+export async function deleteMessage(messageId: string, userId: string) {
+  const message = await getMessageForMember(messageId, userId);
+
+  if (message.senderId !== userId && !(await canManageRoom(userId, message.roomId))) {
+    throw createForbiddenError('You can only delete your own messages');
+  }
+
+  const updated = await prisma.messages.update({
+    where: { id: messageId },
+    data: { deletedAt: new Date(), updatedAt: new Date() },
+    include: messageInclude,
+  });
+
+  return toChatMessage(updated);
+}
+
+/**
+ * Record reads: direct messages get their readAt, and the reader's place in
+ * each room moves forward
+ */
+export async function markMessagesRead(messageIds: string[], userId: string) {
+  const now = new Date();
+
+  const messages = await prisma.messages.findMany({
+    where: { id: { in: messageIds } },
+    select: { roomId: true },
+  });
+  const roomIds = Array.from(
+    new Set(messages.map(message => message.roomId).filter((id): id is string => !!id))
+  );
+
+  await Promise.all([
+    prisma.messages.updateMany({
+      where: { id: { in: messageIds }, recipientId: userId, readAt: null },
+      data: { readAt: now },
+    }),
+    prisma.chat_room_members.updateMany({
+      where: { roomId: { in: roomIds }, userId, leftAt: null },
+      data: { lastReadAt: now },
+    }),
+  ]);
+}
@@ -14,13 +14,42 @@
  * - Scalable architecture with Redis pub/sub
  */
 
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import Redis from 'ioredis';
+import { z } from 'zod';
 import { logger } from '../logger';
 import { prisma } from '../prisma-optimized';
 import { verifyJWT } from '../auth';
+import { AppError } from '../errors';
+import { sendNotification } from '../notifications';
+import { resolveMessageEncryption } from '../encrypted-messages';
+import { respondToDirectMessage } from '../auto-responder';
+import { getDmPrice } from '../paid-messages';
 import { RateLimiterRedis } from 'rate-limiter-flexible';
+import {
+  ROOM_MEMBER_LIMITS,
+  addReaction,
+  addRoomMember,
+  canAccessRoom,
+  canManageRoom,
+  createRoom,
+  createRoomMessage,
+  deleteMessage,
+  editMessage,
+  getEditHistory,
+  getMessageHistory,
+  getOrCreateDirectRoom,
+  getRoom,
+  getRoomMemberIds,
+  getRoomMessage,
+  getUserRooms,
+  markMessagesRead,
+  removeReaction,
+  removeRoomMember,
+  serializeChatRoom,
+  toChatMessage,
+} from './chat-rooms';
 
 // Types and Interfaces
 export interface User {
@@ -45,10 +74,18 @@ export interface Message {
   replyToId?: string;
   edited?: boolean;
   editedAt?: Date;
+  deletedAt?: Date;
+  encryption?: MessageEncryption; // Set when content is end-to-end encrypted ciphertext
   createdAt: Date;
   status: 'sent' | 'delivered' | 'read';
 }
 
+export interface MessageEncryption {
+  iv: string;
+  senderKeyId: string;
+  recipientKeyId: string;
+}
+
 export interface MessageAttachment {
   id: string;
   type: 'image' | 'video' | 'audio' | 'file';
@@ -81,6 +118,7 @@ export interface ChatRoom {
     allowMedia: boolean;
     maxMessageLength: number;
     muteSettings: Record<string, number>; // userId -> muteUntil timestamp
+    endToEndEncrypted?: boolean; // DIRECT rooms only; the server stores ciphertext
   };
   createdAt: Date;
   lastActivity: Date;
@@ -148,21 +186,79 @@ const MESSAGING_CONFIG = {
 
   // Room Settings
   ROOMS: {
-    maxMembers: {
-      GROUP: 100,
-      COMMUNITY: 1000,
-      FAN_CLUB: 10000,
-    },
+    maxMembers: ROOM_MEMBER_LIMITS,
     messageHistory: 100, // Messages to send when joining
   },
 } as const;
 
+// Client payloads, validated before they reach a handler
+const roomPayloadSchema = z.object({
+  roomId: z.string().min(1),
+});
+
+const messagePayloadSchema = z.object({
+  messageId: z.string().min(1),
+});
+
+const attachmentSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['image', 'video', 'audio', 'file']),
+  url: z.string().url(),
+  name: z.string().min(1),
+  size: z.number().int().nonnegative().max(MESSAGING_CONFIG.MESSAGE.maxFileSize),
+  mimeType: z.enum(MESSAGING_CONFIG.MESSAGE.allowedMimeTypes),
+  thumbnail: z.string().url().optional(),
+});
+
+const sendMessagePayloadSchema = roomPayloadSchema.extend({
+  content: z.string().default(''),
+  type: z
+    .enum(['text', 'image', 'video', 'audio', 'file', 'system', 'announcement', 'tip', 'gift'])
+    .default('text'),
+  attachments: z.array(attachmentSchema).max(MESSAGING_CONFIG.MESSAGE.maxAttachments).optional(),
+  // Set for a threaded reply
+  replyToId: z.string().min(1).optional(),
+});
+
+const reactionPayloadSchema = messagePayloadSchema.extend({
+  emoji: z.string().trim().min(1).max(32),
+});
+
+const editMessagePayloadSchema = messagePayloadSchema.extend({
+  content: z.string().max(MESSAGING_CONFIG.MESSAGE.maxLength),
+});
+
+const messageHistoryPayloadSchema = roomPayloadSchema.extend({
+  before: z.string().min(1).optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+const createRoomPayloadSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  type: z.enum(['GROUP', 'COMMUNITY', 'FAN_CLUB']),
+  isPrivate: z.boolean().default(false),
+  initialMembers: z.array(z.string().min(1)).optional(),
+});
+
+const inviteToRoomPayloadSchema = roomPayloadSchema.extend({
+  userIds: z.array(z.string().min(1)).min(1).max(100),
+});
+
+export type RoomPayload = z.infer<typeof roomPayloadSchema>;
+export type MessagePayload = z.infer<typeof messagePayloadSchema>;
+export type SendMessagePayload = z.infer<typeof sendMessagePayloadSchema>;
+export type ReactionPayload = z.infer<typeof reactionPayloadSchema>;
+export type EditMessagePayload = z.infer<typeof editMessagePayloadSchema>;
+export type MessageHistoryPayload = z.infer<typeof messageHistoryPayloadSchema>;
+export type CreateRoomPayload = z.infer<typeof createRoomPayloadSchema>;
+export type InviteToRoomPayload = z.infer<typeof inviteToRoomPayloadSchema>;
+
 export class MessagingServer {
   private io: SocketIOServer;
   private redis: Redis;
   private redisSubscriber: Redis;
   private users = new Map<string, User>();
-  private rooms = new Map<string, ChatRoom>();
   private typingUsers = new Map<string, Map<string, TypingIndicator>>();
   private rateLimiters: Record<string, RateLimiterRedis>;
 
@@ -250,7 +346,7 @@ export class MessagingServer {
     });
   }
 
-  private async handleConnection(socket: any): Promise<void> {
+  private async handleConnection(socket: Socket): Promise<void> {
     const user = socket.data.user;
 
     logger.info('User connected to messaging', {
@@ -262,19 +358,23 @@ export class MessagingServer {
     await this.updateUserPresence(user.id, socket.id, true);
 
     // Setup socket event handlers
-    socket.on('join_room', (data: { roomId: string }) => this.handleJoinRoom(socket, data));
+    this.listen(socket, 'join_room', roomPayloadSchema, data => this.handleJoinRoom(socket, data));
 
-    socket.on('leave_room', (data: { roomId: string }) => this.handleLeaveRoom(socket, data));
+    this.listen(socket, 'leave_room', roomPayloadSchema, data =>
+      this.handleLeaveRoom(socket, data)
+    );
 
-    socket.on('send_message', (data: any) => this.handleSendMessage(socket, data));
+    this.listen(socket, 'send_message', sendMessagePayloadSchema, data =>
+      this.handleSendMessage(socket, data)
+    );
 
     socket.on('send_direct_message', (data: any) => this.handleSendDirectMessage(socket, data));
 
-    socket.on('add_reaction', (data: { messageId: string; emoji: string }) =>
+    this.listen(socket, 'add_reaction', reactionPayloadSchema, data =>
       this.handleAddReaction(socket, data)
     );
 
-    socket.on('remove_reaction', (data: { messageId: string; emoji: string }) =>
+    this.listen(socket, 'remove_reaction', reactionPayloadSchema, data =>
       this.handleRemoveReaction(socket, data)
     );
 
@@ -286,21 +386,27 @@ export class MessagingServer {
       this.handleMarkAsRead(socket, data)
     );
 
-    socket.on('edit_message', (data: { messageId: string; content: string }) =>
+    this.listen(socket, 'edit_message', editMessagePayloadSchema, data =>
       this.handleEditMessage(socket, data)
     );
 
-    socket.on('delete_message', (data: { messageId: string }) =>
+    this.listen(socket, 'delete_message', messagePayloadSchema, data =>
       this.handleDeleteMessage(socket, data)
     );
 
-    socket.on('get_message_history', (data: { roomId: string; before?: string; limit?: number }) =>
+    this.listen(socket, 'get_message_history', messageHistoryPayloadSchema, data =>
       this.handleGetMessageHistory(socket, data)
     );
 
-    socket.on('create_room', (data: any) => this.handleCreateRoom(socket, data));
+    this.listen(socket, 'get_edit_history', messagePayloadSchema, data =>
+      this.handleGetEditHistory(socket, data)
+    );
+
+    this.listen(socket, 'create_room', createRoomPayloadSchema, data =>
+      this.handleCreateRoom(socket, data)
+    );
 
-    socket.on('invite_to_room', (data: { roomId: string; userIds: string[] }) =>
+    this.listen(socket, 'invite_to_room', inviteToRoomPayloadSchema, data =>
       this.handleInviteToRoom(socket, data)
     );
 
@@ -311,7 +417,27 @@ export class MessagingServer {
     await this.sendOnlineUsers(socket);
   }
 
-  private async handleJoinRoom(socket: any, data: { roomId: string }): Promise<void> {
+  /**
+   * Register a handler that only runs once its payload passes the schema
+   */
+  private listen<T extends z.ZodTypeAny>(
+    socket: Socket,
+    event: string,
+    schema: T,
+    handler: (data: z.infer<T>) => Promise<void>
+  ): void {
+    socket.on(event, (payload: unknown) => {
+      const result = schema.safeParse(payload);
+      if (!result.success) {
+        socket.emit('error', { message: 'Invalid request', event, details: result.error.errors });
+        return;
+      }
+
+      handler(result.data);
+    });
+  }
+
+  private async handleJoinRoom(socket: Socket, data: RoomPayload): Promise<void> {
     const user = socket.data.user;
     const { roomId } = data;
 
@@ -330,8 +456,10 @@ export class MessagingServer {
       await this.addUserToRoom(roomId, user.id);
 
       // Send recent message history
-      const messages = await this.getMessageHistory(roomId, MESSAGING_CONFIG.ROOMS.messageHistory);
-      socket.emit('message_history', { roomId, messages });
+      const history = await getMessageHistory(roomId, {
+        limit: MESSAGING_CONFIG.ROOMS.messageHistory,
+      });
+      socket.emit('message_history', { roomId, ...history });
 
       // Notify others of user joining
       socket.to(roomId).emit('user_joined', {
@@ -350,7 +478,7 @@ export class MessagingServer {
     }
   }
 
-  private async handleLeaveRoom(socket: any, data: { roomId: string }): Promise<void> {
+  private async handleLeaveRoom(socket: Socket, data: RoomPayload): Promise<void> {
     const user = socket.data.user;
     const { roomId } = data;
 
@@ -373,16 +501,7 @@ export class MessagingServer {
     }
   }
 
-  private async handleSendMessage(
-    socket: any,
-    data: {
-      roomId: string;
-      content: string;
-      type: MessageType;
-      attachments?: MessageAttachment[];
-      replyToId?: string;
-    }
-  ): Promise<void> {
+  private async handleSendMessage(socket: Socket, data: SendMessagePayload): Promise<void> {
     const user = socket.data.user;
 
     try {
@@ -390,12 +509,12 @@ export class MessagingServer {
       await this.rateLimiters.messages.consume(user.id);
 
       // Validate message
-      if (!data.content?.trim() && (!data.attachments || data.attachments.length === 0)) {
+      if (!data.content.trim() && (!data.attachments || data.attachments.length === 0)) {
         socket.emit('error', { message: 'Message cannot be empty' });
         return;
       }
 
-      if (data.content && data.content.length > MESSAGING_CONFIG.MESSAGE.maxLength) {
+      if (data.content.length > MESSAGING_CONFIG.MESSAGE.maxLength) {
         socket.emit('error', { message: 'Message too long' });
         return;
       }
@@ -408,17 +527,17 @@ export class MessagingServer {
       }
 
       // Create message
-      const message = await this.createMessage({
+      const message = await createRoomMessage({
         content: data.content,
         senderId: user.id,
         roomId: data.roomId,
-        type: data.type || 'text',
+        type: data.type,
         attachments: data.attachments,
         replyToId: data.replyToId,
       });
 
-      // Send to room members
-      this.io.to(data.roomId).emit('new_message', {
+      // Send to room members on every instance
+      await this.publishToRoom(data.roomId, 'new_message', {
         roomId: data.roomId,
         message: {
           ...message,
@@ -430,9 +549,6 @@ export class MessagingServer {
         },
       });
 
-      // Update room last activity
-      await this.updateRoomActivity(data.roomId);
-
       // Send push notifications to offline users
       await this.sendPushNotifications(data.roomId, message, user);
 
@@ -445,19 +561,19 @@ export class MessagingServer {
       if (error.name === 'RateLimiterError') {
         socket.emit('error', { message: 'Rate limit exceeded. Please slow down.' });
       } else {
-        logger.error('Failed to send message', { userId: user.id, error });
-        socket.emit('error', { message: 'Failed to send message' });
+        this.emitError(socket, error, 'Failed to send message', { userId: user.id });
       }
     }
   }
 
   private async handleSendDirectMessage(
-    socket: any,
+    socket: Socket,
     data: {
       receiverId: string;
       content: string;
       type: MessageType;
       attachments?: MessageAttachment[];
+      encryption?: MessageEncryption;
     }
   ): Promise<void> {
     const user = socket.data.user;
@@ -472,17 +588,32 @@ export class MessagingServer {
         return;
       }
 
+      const blocked = await this.getDirectMessageBlock(user, data.receiverId);
+      if (blocked) {
+        socket.emit('error', { message: blocked });
+        return;
+      }
+
+      // Encrypted conversations only accept ciphertext
+      const encrypted = await resolveMessageEncryption(
+        user.id,
+        data.receiverId,
+        data.content,
+        data.encryption
+      );
+
       // Get or create DM room
-      const dmRoomId = await this.getOrCreateDMRoom(user.id, data.receiverId);
+      const dmRoomId = await getOrCreateDirectRoom(user.id, data.receiverId);
 
       // Create message
-      const message = await this.createMessage({
+      const message = await createRoomMessage({
         content: data.content,
         senderId: user.id,
         receiverId: data.receiverId,
         roomId: dmRoomId,
         type: data.type || 'text',
         attachments: data.attachments,
+        encrypted,
       });
 
       // Send to both users
@@ -515,20 +646,18 @@ export class MessagingServer {
         senderId: user.id,
         receiverId: data.receiverId,
       });
+
+      await this.sendAutoReply(user.id, data.receiverId, data.content);
     } catch (error) {
       if (error.name === 'RateLimiterError') {
         socket.emit('error', { message: 'Rate limit exceeded. Please slow down.' });
       } else {
-        logger.error('Failed to send direct message', { userId: user.id, error });
-        socket.emit('error', { message: 'Failed to send direct message' });
+        this.emitError(socket, error, 'Failed to send direct message', { userId: user.id });
       }
     }
   }
 
-  private async handleAddReaction(
-    socket: any,
-    data: { messageId: string; emoji: string }
-  ): Promise<void> {
+  private async handleAddReaction(socket: Socket, data: ReactionPayload): Promise<void> {
     const user = socket.data.user;
 
     try {
@@ -536,48 +665,35 @@ export class MessagingServer {
       await this.rateLimiters.reactions.consume(user.id);
 
       // Add reaction to database
-      const reaction = await this.addMessageReaction(data.messageId, user.id, data.emoji);
+      const { roomId, reaction } = await addReaction(data.messageId, user.id, data.emoji);
 
-      if (reaction) {
-        // Get message room
-        const message = await this.getMessage(data.messageId);
-        if (message?.roomId) {
-          // Broadcast reaction to room
-          this.io.to(message.roomId).emit('reaction_added', {
-            messageId: data.messageId,
-            reaction: {
-              ...reaction,
-              userName: user.name,
-            },
-          });
-        }
-      }
+      // Broadcast reaction to room
+      await this.publishToRoom(roomId, 'reaction_added', {
+        messageId: data.messageId,
+        reaction,
+      });
     } catch (error) {
       if (error.name === 'RateLimiterError') {
         socket.emit('error', { message: 'Rate limit exceeded. Please slow down.' });
       } else {
-        logger.error('Failed to add reaction', { userId: user.id, error });
-        socket.emit('error', { message: 'Failed to add reaction' });
+        this.emitError(socket, error, 'Failed to add reaction', { userId: user.id });
       }
     }
   }
 
-  private async handleRemoveReaction(
-    socket: any,
-    data: { messageId: string; emoji: string }
-  ): Promise<void> {
+  private async handleRemoveReaction(socket: Socket, data: ReactionPayload): Promise<void> {
     const user = socket.data.user;
 
     try {
       // Remove reaction from database
-      const removed = await this.removeMessageReaction(data.messageId, user.id, data.emoji);
+      const removed = await removeReaction(data.messageId, user.id, data.emoji);
 
       if (removed) {
         // Get message room
-        const message = await this.getMessage(data.messageId);
+        const message = await getRoomMessage(data.messageId);
         if (message?.roomId) {
           // Broadcast reaction removal to room
-          this.io.to(message.roomId).emit('reaction_removed', {
+          await this.publishToRoom(message.roomId, 'reaction_removed', {
             messageId: data.messageId,
             emoji: data.emoji,
             userId: user.id,
@@ -590,7 +706,7 @@ export class MessagingServer {
     }
   }
 
-  private async handleTypingStart(socket: any, data: { roomId: string }): Promise<void> {
+  private async handleTypingStart(socket: Socket, data: { roomId: string }): Promise<void> {
     const user = socket.data.user;
     const { roomId } = data;
 
@@ -624,7 +740,7 @@ export class MessagingServer {
     }
   }
 
-  private async handleTypingStop(socket: any, data: { roomId: string }): Promise<void> {
+  private async handleTypingStop(socket: Socket, data: { roomId: string }): Promise<void> {
     const user = socket.data.user;
     const { roomId } = data;
 
@@ -645,18 +761,18 @@ export class MessagingServer {
   }
 
   private async handleMarkAsRead(
-    socket: any,
+    socket: Socket,
     data: { messageId: string | string[] }
   ): Promise<void> {
     const user = socket.data.user;
     const messageIds = Array.isArray(data.messageId) ? data.messageId : [data.messageId];
 
     try {
-      await this.markMessagesAsRead(messageIds, user.id);
+      await markMessagesRead(messageIds, user.id);
 
       // Broadcast read receipts
       for (const messageId of messageIds) {
-        const message = await this.getMessage(messageId);
+        const message = await getRoomMessage(messageId);
         if (message?.roomId) {
           socket.to(message.roomId).emit('message_read', {
             messageId,
@@ -670,53 +786,56 @@ export class MessagingServer {
     }
   }
 
-  private async handleEditMessage(
-    socket: any,
-    data: { messageId: string; content: string }
-  ): Promise<void> {
+  private async handleEditMessage(socket: Socket, data: EditMessagePayload): Promise<void> {
     const user = socket.data.user;
 
     try {
-      const message = await this.editMessage(data.messageId, user.id, data.content);
+      const message = await editMessage(data.messageId, user.id, data.content);
 
-      if (message) {
-        this.io.to(message.roomId!).emit('message_edited', {
+      if (message?.roomId) {
+        await this.publishToRoom(message.roomId, 'message_edited', {
           messageId: data.messageId,
-          content: data.content,
-          editedAt: new Date(),
+          content: message.content,
+          editedAt: message.editedAt,
         });
       }
     } catch (error) {
-      logger.error('Failed to edit message', { userId: user.id, error });
-      socket.emit('error', { message: 'Failed to edit message' });
+      this.emitError(socket, error, 'Failed to edit message', { userId: user.id });
     }
   }
 
-  private async handleDeleteMessage(socket: any, data: { messageId: string }): Promise<void> {
+  private async handleDeleteMessage(socket: Socket, data: MessagePayload): Promise<void> {
     const user = socket.data.user;
 
     try {
-      const message = await this.deleteMessage(data.messageId, user.id);
+      const message = await deleteMessage(data.messageId, user.id);
 
-      if (message) {
-        this.io.to(message.roomId!).emit('message_deleted', {
+      if (message.roomId) {
+        await this.publishToRoom(message.roomId, 'message_deleted', {
           messageId: data.messageId,
           deletedBy: user.id,
         });
       }
     } catch (error) {
-      logger.error('Failed to delete message', { userId: user.id, error });
-      socket.emit('error', { message: 'Failed to delete message' });
+      this.emitError(socket, error, 'Failed to delete message', { userId: user.id });
     }
   }
 
-  private async handleGetMessageHistory(
-    socket: any,
-    data: {
-      roomId: string;
-      before?: string;
-      limit?: number;
+  private async handleGetEditHistory(socket: Socket, data: MessagePayload): Promise<void> {
+    const user = socket.data.user;
+
+    try {
+      const edits = await getEditHistory(data.messageId, user.id);
+
+      socket.emit('edit_history', { messageId: data.messageId, edits });
+    } catch (error) {
+      this.emitError(socket, error, 'Failed to get edit history', { userId: user.id });
     }
+  }
+
+  private async handleGetMessageHistory(
+    socket: Socket,
+    data: MessageHistoryPayload
   ): Promise<void> {
     const user = socket.data.user;
 
@@ -728,12 +847,14 @@ export class MessagingServer {
         return;
       }
 
-      const messages = await this.getMessageHistory(data.roomId, data.limit || 50, data.before);
+      const history = await getMessageHistory(data.roomId, {
+        limit: data.limit,
+        before: data.before,
+      });
 
       socket.emit('message_history', {
         roomId: data.roomId,
-        messages,
-        hasMore: messages.length === (data.limit || 50),
+        ...history,
       });
     } catch (error) {
       logger.error('Failed to get message history', { userId: user.id, error });
@@ -741,20 +862,11 @@ export class MessagingServer {
     }
   }
 
-  private async handleCreateRoom(
-    socket: any,
-    data: {
-      name: string;
-      description?: string;
-      type: ChatRoom['type'];
-      isPrivate: boolean;
-      initialMembers?: string[];
-    }
-  ): Promise<void> {
+  private async handleCreateRoom(socket: Socket, data: CreateRoomPayload): Promise<void> {
     const user = socket.data.user;
 
     try {
-      const room = await this.createRoom({
+      const room = await createRoom({
         ...data,
         createdBy: user.id,
       });
@@ -762,24 +874,27 @@ export class MessagingServer {
       // Join creator to room
       await socket.join(room.id);
 
-      socket.emit('room_created', { room });
+      socket.emit('room_created', { room: serializeChatRoom(room) });
+
+      // Let online members know they were added
+      for (const memberId of Array.from(room.members)) {
+        if (memberId !== user.id) {
+          await this.emitToUser(memberId, 'room_added', { room: serializeChatRoom(room) });
+        }
+      }
 
       logger.info('Room created', { roomId: room.id, createdBy: user.id });
     } catch (error) {
-      logger.error('Failed to create room', { userId: user.id, error });
-      socket.emit('error', { message: 'Failed to create room' });
+      this.emitError(socket, error, 'Failed to create room', { userId: user.id });
     }
   }
 
-  private async handleInviteToRoom(
-    socket: any,
-    data: { roomId: string; userIds: string[] }
-  ): Promise<void> {
+  private async handleInviteToRoom(socket: Socket, data: InviteToRoomPayload): Promise<void> {
     const user = socket.data.user;
 
     try {
       // Verify user can invite to room
-      const canInvite = await this.canUserInviteToRoom(user.id, data.roomId);
+      const canInvite = await canManageRoom(user.id, data.roomId);
       if (!canInvite) {
         socket.emit('error', { message: 'Permission denied' });
         return;
@@ -795,12 +910,11 @@ export class MessagingServer {
         invitedUsers: data.userIds,
       });
     } catch (error) {
-      logger.error('Failed to invite users to room', { userId: user.id, error });
-      socket.emit('error', { message: 'Failed to send invitations' });
+      this.emitError(socket, error, 'Failed to send invitations', { userId: user.id });
     }
   }
 
-  private async handleDisconnection(socket: any): Promise<void> {
+  private async handleDisconnection(socket: Socket): Promise<void> {
     const user = socket.data.user;
 
     if (user) {
@@ -925,170 +1039,230 @@ export class MessagingServer {
     return user ? Array.from(user.socketIds) : [];
   }
 
+  /**
+   * Why a direct message can't be sent over the socket, if it can't. Fans can
+   * only message artists they subscribe to, and paid DMs need a checkout, so
+   * those go through POST /api/messages.
+   */
+  private async getDirectMessageBlock(sender: User, receiverId: string): Promise<string | null> {
+    if (sender.role !== 'FAN') {
+      return null;
+    }
+
+    const receiver = await prisma.users.findUnique({
+      where: { id: receiverId },
+      select: { role: true },
+    });
+
+    if (!receiver) {
+      return 'Recipient not found';
+    }
+
+    if (receiver.role !== 'ARTIST') {
+      return null;
+    }
+
+    const subscription = await prisma.subscriptions.findFirst({
+      where: {
+        fanId: sender.id,
+        artistId: receiverId,
+        status: 'ACTIVE',
+      },
+      select: { id: true },
+    });
+
+    if (!subscription) {
+      return 'You must be subscribed to message this artist';
+    }
+
+    if (await getDmPrice(sender.role, receiverId)) {
+      return 'This artist charges for messages';
+    }
+
+    return null;
+  }
+
   private async verifyRoomAccess(userId: string, roomId: string): Promise<boolean> {
     try {
-      const membership = await prisma.chatRoomMember.findFirst({
-        where: {
-          userId,
-          roomId,
-          leftAt: null,
-        },
-      });
-
-      return !!membership;
+      return await canAccessRoom(userId, roomId);
     } catch (error) {
       logger.error('Failed to verify room access', { userId, roomId, error });
       return false;
     }
   }
 
-  private async createMessage(data: Partial<Message>): Promise<Message> {
-    try {
-      const message = await prisma.messages.create({
-        data: {
-          content: data.content || '',
-          senderId: data.senderId!,
-          receiverId: data.receiverId,
-          roomId: data.roomId,
-          type: data.type || 'text',
-          attachments: data.attachments ? JSON.stringify(data.attachments) : undefined,
-          replyToId: data.replyToId,
-        },
-        include: {
-          reactions: true,
-        },
-      });
+  private async addUserToRoom(roomId: string, userId: string): Promise<void> {
+    await addRoomMember(roomId, userId);
+  }
 
-      return {
-        ...message,
-        attachments: message.attachments ? JSON.parse(message.attachments as string) : undefined,
-        reactions: message.reactions || [],
-        status: 'sent',
-      } as Message;
-    } catch (error) {
-      logger.error('Failed to create message', { data, error });
-      throw error;
+  private async removeUserFromRoom(roomId: string, userId: string): Promise<void> {
+    await removeRoomMember(roomId, userId);
+  }
+
+  /**
+   * Emit to a room through Redis so members connected to other instances get it too
+   */
+  private async publishToRoom(roomId: string, event: string, payload: any): Promise<void> {
+    await this.redis.publish('messaging:room', JSON.stringify({ roomId, event, payload }));
+  }
+
+  private async emitToUser(userId: string, event: string, payload: any): Promise<void> {
+    const socketIds = await this.getUserSockets(userId);
+    socketIds.forEach(socketId => {
+      this.io.to(socketId).emit(event, payload);
+    });
+  }
+
+  private emitError(
+    socket: Socket,
+    error: any,
+    fallback: string,
+    context: Record<string, any>
+  ): void {
+    // App errors (validation, permissions) are safe to show; anything else is logged
+    if (error instanceof AppError) {
+      socket.emit('error', { message: error.message });
+      return;
     }
+
+    logger.error(fallback, { ...context, error });
+    socket.emit('error', { message: fallback });
   }
 
-  private async getMessage(messageId: string): Promise<Message | null> {
+  private async sendUserRooms(socket: Socket): Promise<void> {
+    const user = socket.data.user;
+
     try {
-      const message = await prisma.messages.findUnique({
-        where: { id: messageId },
-        include: { reactions: true },
-      });
+      const rooms = await getUserRooms(user.id);
 
-      if (!message) return null;
+      // Subscribe the socket to all of the user's rooms so messages reach them
+      await socket.join(rooms.map(room => room.id));
 
-      return {
-        ...message,
-        attachments: message.attachments ? JSON.parse(message.attachments as string) : undefined,
-        reactions: message.reactions || [],
-        status: 'sent',
-      } as Message;
+      socket.emit('user_rooms', { rooms: rooms.map(serializeChatRoom) });
     } catch (error) {
-      logger.error('Failed to get message', { messageId, error });
-      return null;
+      logger.error('Failed to send user rooms', { userId: user.id, error });
     }
   }
 
-  private async getMessageHistory(
+  private async sendOnlineUsers(socket: Socket): Promise<void> {
+    const onlineUserIds = Array.from(this.users.values())
+      .filter(user => user.isOnline)
+      .map(user => user.id);
+
+    socket.emit('online_users', { userIds: onlineUserIds });
+  }
+
+  private async sendRoomInvitation(
+    roomId: string,
+    userId: string,
+    invitedBy: string
+  ): Promise<void> {
+    const room = await addRoomMember(roomId, userId);
+    const inviter = this.users.get(invitedBy);
+
+    await this.emitToUser(userId, 'room_invitation', {
+      room: serializeChatRoom(room),
+      invitedBy,
+    });
+
+    await sendNotification({
+      userId,
+      type: 'new_message',
+      title: 'Added to a chat',
+      message: `${inviter?.name || 'Someone'} added you to ${room.name}`,
+      data: { roomId, invitedBy },
+      channels: ['in_app', 'push'],
+      priority: 'low',
+    });
+  }
+
+  private async sendPushNotifications(
     roomId: string,
-    limit: number,
-    before?: string
-  ): Promise<Message[]> {
+    message: Message,
+    sender: User
+  ): Promise<void> {
     try {
-      const messages = await prisma.messages.findMany({
-        where: {
-          roomId,
-          ...(before && {
-            createdAt: {
-              lt: new Date(before),
-            },
-          }),
-        },
-        include: {
-          reactions: true,
-          sender: {
-            select: {
-              id: true,
-              name: true,
-              avatar: true,
-            },
-          },
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        take: limit,
-      });
+      const [room, memberIds] = await Promise.all([getRoom(roomId), getRoomMemberIds(roomId)]);
+      const offlineMemberIds = memberIds.filter(
+        memberId => memberId !== sender.id && !this.users.get(memberId)?.isOnline
+      );
 
-      return messages.map(message => ({
-        ...message,
-        attachments: message.attachments ? JSON.parse(message.attachments as string) : undefined,
-        reactions: message.reactions || [],
-        status: 'sent',
-      })) as Message[];
+      await Promise.all(
+        offlineMemberIds.map(userId =>
+          sendNotification({
+            userId,
+            type: 'new_message',
+            title: room?.name || 'New message',
+            message: `${sender.name}: ${message.content || 'sent an attachment'}`,
+            data: { roomId, messageId: message.id, senderId: sender.id },
+            channels: ['push'],
+            priority: 'medium',
+          })
+        )
+      );
     } catch (error) {
-      logger.error('Failed to get message history', { roomId, error });
-      return [];
+      logger.error('Failed to send room push notifications', { roomId, error });
     }
   }
 
-  private async getOrCreateDMRoom(userId1: string, userId2: string): Promise<string> {
-    // Implementation to get or create a direct message room
-    // This would create a DIRECT type room between two users
-    const sortedIds = [userId1, userId2].sort();
-    const roomName = `dm_${sortedIds.join('_')}`;
-
+  private async sendDirectMessagePushNotification(
+    receiverId: string,
+    message: Message,
+    sender: User
+  ): Promise<void> {
     try {
-      let room = await prisma.chatRoom.findFirst({
-        where: {
-          name: roomName,
-          type: 'DIRECT',
-        },
+      await sendNotification({
+        userId: receiverId,
+        type: 'new_message',
+        title: 'New message',
+        message: `You have a new message from ${sender.name}`,
+        data: { roomId: message.roomId, messageId: message.id, senderId: sender.id },
+        channels: ['in_app', 'push'],
+        priority: 'medium',
       });
+    } catch (error) {
+      logger.error('Failed to send direct message push notification', { receiverId, error });
+    }
+  }
 
-      if (!room) {
-        room = await prisma.chatRoom.create({
-          data: {
-            name: roomName,
-            type: 'DIRECT',
-            isPrivate: true,
-            createdBy: userId1,
-            members: {
-              createMany: {
-                data: [
-                  { userId: userId1, role: 'MEMBER' },
-                  { userId: userId2, role: 'MEMBER' },
-                ],
-              },
-            },
+  /**
+   * Let the recipient's auto-responder answer a direct message. The reply
+   * goes to both people like any other message.
+   */
+  private async sendAutoReply(
+    senderId: string,
+    recipientId: string,
+    content: string
+  ): Promise<void> {
+    try {
+      const reply = await respondToDirectMessage(senderId, recipientId, content);
+      if (!reply) return;
+
+      const artist = reply.users_messages_senderIdTousers;
+      const messageData = {
+        roomId: reply.roomId,
+        message: {
+          ...toChatMessage(reply),
+          sender: {
+            id: artist.id,
+            name: artist.displayName,
+            avatar: artist.avatar,
           },
-        });
-      }
+        },
+      };
 
-      return room.id;
+      const socketIds = [
+        ...(await this.getUserSockets(senderId)),
+        ...(await this.getUserSockets(recipientId)),
+      ];
+      socketIds.forEach(socketId => {
+        this.io.to(socketId).emit('new_message', messageData);
+      });
     } catch (error) {
-      logger.error('Failed to get or create DM room', { userId1, userId2, error });
-      throw error;
+      logger.error('Failed to send auto-reply', { senderId, recipientId, error });
     }
   }
 
-  // Additional helper methods would continue here...
-  // Due to length constraints, I'm showing the structure
-  // but these would include implementations for:
-  // - addMessageReaction
-  // - removeMessageReaction
-  // - markMessagesAsRead
-  // - editMessage
-  // - deleteMessage
-  // - createRoom
-  // - addUserToRoom
-  // - removeUserFromRoom
-  // - sendPushNotifications
-  // - etc.
-
   public async shutdown(): Promise<void> {
     logger.info('Shutting down messaging server');
 
@@ -23,7 +23,8 @@ export type NotificationType =
   | 'account_warning'
   | 'security_alert'
   | 'content_comment'
-  | 'milestone_reached';
+  | 'milestone_reached'
+  | 'stream_reminder';
 
 export type NotificationChannel = 'email' | 'push' | 'in_app' | 'sms';
 
@@ -139,10 +140,13 @@ export async function sendEmail({
   }
 }
 
+// The content fields the new content email needs
+export type NewContentSummary = Pick<Content, 'id' | 'title' | 'type' | 'description'>;
+
 /**
  * Notify subscribers about new content
  */
-export async function notifyNewContent(content: Content, artistName: string) {
+export async function notifyNewContent(content: NewContentSummary, artistName: string) {
   // Get all tiers this content is available to
   const contentWithTiers = await prisma.content.findUnique({
     where: { id: content.id },
@@ -525,6 +529,22 @@ class NotificationService {
           `,
           text: `💰 Payment Received\n\n${notification.message}\n\nView earnings at: ${baseUrl}/dashboard/artist/earnings`,
         };
+      case 'stream_reminder':
+        return {
+          subject: `🔴 ${notification.title} - Direct Fan`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2 style="color: #DC2626;">🔴 ${notification.title}</h2>
+              <p>${notification.message}</p>
+              <div style="margin: 20px 0;">
+                <a href="${baseUrl}/stream/${notification.data?.streamId}" style="background: #DC2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; display: inline-block;">
+                  Go to Stream
+                </a>
+              </div>
+            </div>
+          `,
+          text: `🔴 ${notification.title}\n\n${notification.message}\n\nWatch at: ${baseUrl}/stream/${notification.data?.streamId}`,
+        };
       default:
         return {
           subject: notification.title,
@@ -0,0 +1,376 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { sendNotification } from './notifications';
+import { webSocketInstance } from './websocket-instance';
+import { createOrRetrieveCustomer, createPaymentCheckoutSession } from './stripe';
+import { createNotFoundError, createValidationError } from './errors';
+
+export const MIN_MESSAGE_PRICE = 0.5;
+export const MAX_MESSAGE_PRICE = 500;
+
+// DM_FEE is a fan paying to send an artist a message; ATTACHMENT_UNLOCK is a
+// fan paying to see the locked photo or video an artist sent them
+export type MessagePurchaseType = 'DM_FEE' | 'ATTACHMENT_UNLOCK';
+export type MessagePurchaseStatus = 'PENDING' | 'COMPLETED';
+
+const messagePrice = z.number().min(MIN_MESSAGE_PRICE).max(MAX_MESSAGE_PRICE);
+
+export const dmPriceSchema = z.object({
+  // Null makes DMs free again
+  dmPrice: messagePrice.nullable(),
+});
+
+export const lockedAttachmentSchema = z.object({
+  attachmentPrice: messagePrice.optional(),
+  attachmentPreviewUrl: z.string().url().optional(),
+});
+
+export interface PricedMessage {
+  id: string;
+  senderId: string;
+  recipientId: string | null;
+  content: string;
+  type: string;
+  attachmentUrl: string | null;
+  createdAt: Date;
+  readAt: Date | null;
+  dmFee: unknown;
+  dmFeePaidAt: Date | null;
+  attachmentPrice: unknown;
+  attachmentPreviewUrl: string | null;
+  attachmentUnlockedAt: Date | null;
+  isEncrypted?: boolean;
+  encryptionIv?: string | null;
+  senderKeyId?: string | null;
+  recipientKeyId?: string | null;
+  deletedAt?: Date | null;
+}
+
+export interface MessageView {
+  id: string;
+  senderId: string;
+  recipientId: string | null;
+  content: string;
+  type: string;
+  attachmentUrl: string | null;
+  attachmentPreviewUrl: string | null;
+  attachmentPrice: number | null;
+  isLocked: boolean;
+  dmFee: number | null;
+  awaitingPayment: boolean;
+  // End-to-end encrypted messages carry ciphertext in `content`
+  isEncrypted: boolean;
+  encryptionIv: string | null;
+  senderKeyId: string | null;
+  recipientKeyId: string | null;
+  createdAt: Date;
+  readAt: Date | null;
+}
+
+function toPrice(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+export function isAwaitingPayment(message: Pick<PricedMessage, 'dmFee' | 'dmFeePaidAt'>): boolean {
+  return Number(message.dmFee) > 0 && !message.dmFeePaidAt;
+}
+
+/**
+ * Locked attachments stay hidden from the recipient until they pay. The sender
+ * always sees what they sent.
+ */
+export function isAttachmentLocked(
+  message: Pick<PricedMessage, 'senderId' | 'attachmentPrice' | 'attachmentUnlockedAt'>,
+  viewerId: string
+): boolean {
+  return (
+    Number(message.attachmentPrice) > 0 &&
+    !message.attachmentUnlockedAt &&
+    message.senderId !== viewerId
+  );
+}
+
+/**
+ * Message as the viewer may see it. Locked attachments lose their URL so the
+ * media can't be pulled out of the response, and deleted messages lose their
+ * content altogether.
+ */
+export function toMessageView(message: PricedMessage, viewerId: string): MessageView {
+  const isLocked = isAttachmentLocked(message, viewerId);
+  const isDeleted = !!message.deletedAt;
+
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    recipientId: message.recipientId,
+    content: isDeleted ? '' : message.content,
+    type: message.type,
+    attachmentUrl: isLocked || isDeleted ? null : message.attachmentUrl,
+    attachmentPreviewUrl: isDeleted ? null : message.attachmentPreviewUrl,
+    attachmentPrice: toPrice(message.attachmentPrice),
+    isLocked,
+    dmFee: toPrice(message.dmFee),
+    awaitingPayment: isAwaitingPayment(message),
+    isEncrypted: !!message.isEncrypted,
+    encryptionIv: message.encryptionIv ?? null,
+    senderKeyId: message.senderKeyId ?? null,
+    recipientKeyId: message.recipientKeyId ?? null,
+    createdAt: message.createdAt,
+    readAt: message.readAt,
+  };
+}
+
+/**
+ * Filter hiding DMs the sender hasn't paid for yet from their recipient
+ */
+export function hideUnpaidMessagesFrom(userId: string) {
+  return {
+    NOT: {
+      recipientId: userId,
+      dmFee: { not: null },
+      dmFeePaidAt: null,
+    },
+  };
+}
+
+/**
+ * What a sender must pay to message the recipient, or null when it's free.
+ * Only fans pay; artists reply to fans for free.
+ */
+export async function getDmPrice(senderRole: string, recipientId: string): Promise<number | null> {
+  if (senderRole !== 'FAN') {
+    return null;
+  }
+
+  const artist = await prisma.artists.findUnique({
+    where: { userId: recipientId },
+    select: { dmPrice: true },
+  });
+
+  const price = Number(artist?.dmPrice);
+  return price > 0 ? price : null;
+}
+
+export async function setDmPrice(artistId: string, dmPrice: number | null) {
+  const artist = await prisma.artists.findUnique({
+    where: { userId: artistId },
+  });
+
+  if (!artist) {
+    throw createNotFoundError('Artist profile not found');
+  }
+
+  if (dmPrice !== null && (!artist.stripeAccountId || !artist.isStripeOnboarded)) {
+    throw createValidationError('Connect Stripe before charging for messages');
+  }
+
+  const updated = await prisma.artists.update({
+    where: { userId: artistId },
+    data: { dmPrice },
+  });
+
+  return { dmPrice: toPrice(updated.dmPrice) };
+}
+
+/**
+ * Push a message to both sides of the conversation and notify the recipient.
+ * Paid DMs are delivered once the sender's payment clears.
+ */
+export async function deliverMessage(message: PricedMessage, senderName: string) {
+  const { recipientId } = message;
+
+  // Group chat messages are broadcast by the messaging server instead
+  if (!recipientId) {
+    return;
+  }
+
+  const recipientView = toMessageView(message, recipientId);
+
+  webSocketInstance.emitToConversation(message.senderId, recipientId, 'message:new', {
+    ...recipientView,
+    sender: await prisma.users.findUnique({
+      where: { id: message.senderId },
+      select: { id: true, displayName: true, avatar: true },
+    }),
+  });
+
+  if (webSocketInstance.isUserOnline(recipientId)) {
+    webSocketInstance.emitToConversation(message.senderId, recipientId, 'message:delivered', {
+      messageId: message.id,
+      deliveredAt: new Date().toISOString(),
+    });
+  }
+
+  const recipient = await prisma.users.findUnique({
+    where: { id: recipientId },
+    select: { notificationPreferences: true },
+  });
+
+  const prefs = recipient?.notificationPreferences as { messages?: boolean } | null | undefined;
+  if (prefs && prefs.messages !== false) {
+    await sendNotification({
+      userId: recipientId,
+      type: 'new_message',
+      title: 'New message',
+      message: recipientView.isLocked
+        ? `${senderName} sent you locked media`
+        : `You have a new message from ${senderName}`,
+      data: {
+        senderId: message.senderId,
+        messageId: message.id,
+      },
+      channels: ['in_app', 'push'],
+      priority: 'medium',
+    });
+  }
+}
+
+/**
+ * Open a purchase for whatever the user owes on a message: the fee on a DM they
+ * sent, or the unlock price of an attachment they received.
+ */
+export async function startMessagePurchase(messageId: string, userId: string) {
+  const message = await prisma.messages.findUnique({
+    where: { id: messageId },
+  });
+
+  if (!message || (message.senderId !== userId && message.recipientId !== userId)) {
+    throw createNotFoundError('Message not found');
+  }
+
+  let type: MessagePurchaseType;
+  let amount: number;
+  let artistId: string;
+
+  if (message.senderId === userId && message.recipientId && isAwaitingPayment(message)) {
+    type = 'DM_FEE';
+    amount = Number(message.dmFee);
+    artistId = message.recipientId;
+  } else if (message.recipientId === userId && isAttachmentLocked(message, userId)) {
+    type = 'ATTACHMENT_UNLOCK';
+    amount = Number(message.attachmentPrice);
+    artistId = message.senderId;
+  } else {
+    throw createValidationError('Nothing to pay for on this message');
+  }
+
+  const purchase = await prisma.message_purchases.upsert({
+    where: {
+      messageId_type: { messageId, type },
+    },
+    create: {
+      id: randomUUID(),
+      messageId,
+      fanId: userId,
+      artistId,
+      type,
+      amount,
+      status: 'PENDING',
+      updatedAt: new Date(),
+    },
+    update: {
+      amount,
+      updatedAt: new Date(),
+    },
+  });
+
+  return { purchase, message };
+}
+
+/**
+ * Stripe checkout for a message purchase, paid to the artist's connected account
+ */
+export async function createMessagePurchaseCheckout(
+  purchase: {
+    id: string;
+    messageId: string;
+    fanId: string;
+    artistId: string;
+    type: string;
+    amount: unknown;
+  },
+  fan: { email: string; displayName: string }
+): Promise<string> {
+  const artist = await prisma.artists.findUnique({
+    where: { userId: purchase.artistId },
+  });
+
+  if (!artist?.stripeAccountId || !artist.isStripeOnboarded) {
+    throw createValidationError('Artist is not set up to receive payments');
+  }
+
+  const amount = Number(purchase.amount);
+  const customerId = await createOrRetrieveCustomer(
+    fan.email,
+    fan.displayName,
+    artist.stripeAccountId
+  );
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const conversationUrl = `${baseUrl}/messages?conversationWith=${purchase.artistId}`;
+
+  const metadata = {
+    type: 'message_purchase',
+    purchaseId: purchase.id,
+    messageId: purchase.messageId,
+    fanId: purchase.fanId,
+    artistId: purchase.artistId,
+    amount: amount.toString(),
+  };
+
+  return createPaymentCheckoutSession(
+    purchase.type === 'DM_FEE' ? 'Direct message' : 'Unlock message media',
+    amount,
+    customerId,
+    artist.stripeAccountId,
+    `${conversationUrl}&purchased=true&session_id={CHECKOUT_SESSION_ID}`,
+    `${conversationUrl}&canceled=true`,
+    metadata
+  );
+}
+
+/**
+ * Mark a purchase paid and release the message. Returns null for purchases that
+ * were already processed (e.g. webhook retries).
+ */
+export async function confirmMessagePurchase(
+  purchaseId: string,
+  stripeSessionId: string,
+  stripePaymentIntentId: string | null
+) {
+  const now = new Date();
+
+  const { count } = await prisma.message_purchases.updateMany({
+    where: { id: purchaseId, status: 'PENDING' },
+    data: {
+      status: 'COMPLETED',
+      stripeSessionId,
+      stripePaymentIntentId,
+      purchasedAt: now,
+      updatedAt: now,
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const purchase = await prisma.message_purchases.findUnique({
+    where: { id: purchaseId },
+  });
+
+  if (!purchase) {
+    return null;
+  }
+
+  const message = await prisma.messages.update({
+    where: { id: purchase.messageId },
+    data:
+      purchase.type === 'DM_FEE'
+        ? { dmFeePaidAt: now, updatedAt: now }
+        : { attachmentUnlockedAt: now, updatedAt: now },
+  });
+
+  return { purchase, message };
+}
@@ -3,6 +3,15 @@ import { stripe } from './stripe';
 import { sendEmail } from './notifications';
 import { logger } from './logger';
 import { Decimal } from '@prisma/client/runtime/library';
+import { randomUUID } from 'crypto';
+import {
+  getDunningPolicy,
+  getGracePeriodEnd,
+  getMaxAttempts,
+  getNextRetryAt,
+  recordDunningStep,
+  sendDunningReminder,
+} from './dunning';
 
 export interface RetryResult {
   success: boolean;
@@ -12,7 +21,7 @@ export interface RetryResult {
 }
 
 /**
- * Create a payment failure record
+ * Create a payment failure record and start dunning it under the current policy
  */
 export async function createPaymentFailure(
   subscriptionId: string,
@@ -22,39 +31,68 @@ export async function createPaymentFailure(
 ): Promise<any> {
   try {
     // Check if there's already a payment failure record for this invoice
-    const existingFailure = await prisma.paymentFailure.findUnique({
+    const existingFailure = await prisma.payment_failures.findUnique({
       where: { stripeInvoiceId },
     });
 
     if (existingFailure) {
-      // Update existing record
-      const updatedFailure = await prisma.paymentFailure.update({
+      // Stripe reports our own retries as failures too; attempts are counted by retryPayment
+      const updatedFailure = await prisma.payment_failures.update({
         where: { id: existingFailure.id },
         data: {
-          attemptCount: { increment: 1 },
           failureReason,
-          nextRetryAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
           updatedAt: new Date(),
         },
       });
 
       return updatedFailure;
     } else {
+      const policy = await getDunningPolicy();
+      const now = new Date();
+      const nextRetryAt = getNextRetryAt(policy, 1, now);
+      const gracePeriodEndsAt = getGracePeriodEnd(policy, now);
+
       // Create new record
-      const newFailure = await prisma.paymentFailure.create({
+      const newFailure = await prisma.payment_failures.create({
         data: {
+          id: randomUUID(),
           subscriptionId,
           stripeInvoiceId,
           amount: new Decimal(amount),
           failureReason,
-          nextRetryAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          nextRetryAt,
+          gracePeriodEndsAt,
+          updatedAt: now,
         },
       });
 
       // Update subscription status
-      await prisma.subscriptions.update({
+      const subscription = await prisma.subscriptions.update({
         where: { id: subscriptionId },
         data: { status: 'PAST_DUE' },
+        include: {
+          users: true,
+          tiers: {
+            include: {
+              users: true,
+            },
+          },
+        },
+      });
+
+      await recordDunningStep(newFailure.id, 'FAILED', 1, failureReason);
+
+      await sendDunningReminder({
+        policy,
+        paymentFailureId: newFailure.id,
+        attemptNumber: 1,
+        email: subscription.users.email,
+        notificationPreferences: subscription.users.notificationPreferences,
+        artistName: subscription.tiers.users.displayName,
+        tierName: subscription.tiers.name,
+        amount,
+        nextRetryAt,
+        gracePeriodEndsAt,
       });
 
       return newFailure;
@@ -65,27 +103,34 @@ export async function createPaymentFailure(
   }
 }
 
+type PaymentFailureWithSubscription = NonNullable<Awaited<ReturnType<typeof findPaymentFailure>>>;
+
+function findPaymentFailure(paymentFailureId: string) {
+  return prisma.payment_failures.findUnique({
+    where: { id: paymentFailureId },
+    include: {
+      subscriptions: {
+        include: {
+          users: true,
+          tiers: {
+            include: {
+              users: true,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
 /**
- * Retry a failed payment
+ * Retry a failed payment. Once the policy's retries are used up the subscription is
+ * canceled, but not before the grace period has run out.
  */
 export async function retryPayment(paymentFailureId: string): Promise<RetryResult> {
   try {
     // Get payment failure record
-    const failure = await prisma.paymentFailure.findUnique({
-      where: { id: paymentFailureId },
-      include: {
-        subscription: {
-          include: {
-            fan: true,
-            tier: {
-              include: {
-                artist: true,
-              },
-            },
-          },
-        },
-      },
-    });
+    const failure = await findPaymentFailure(paymentFailureId);
 
     if (!failure) {
       throw new Error('Payment failure record not found');
@@ -99,24 +144,14 @@ export async function retryPayment(paymentFailureId: string): Promise<RetryResul
       };
     }
 
+    const policy = await getDunningPolicy();
+
     // Get the invoice from Stripe
     const invoice = await stripe.invoices.retrieve(failure.stripeInvoiceId);
 
     if (invoice.status === 'paid') {
       // Payment was already successful, mark as resolved
-      await prisma.paymentFailure.update({
-        where: { id: paymentFailureId },
-        data: {
-          isResolved: true,
-          updatedAt: new Date(),
-        },
-      });
-
-      // Update subscription status
-      await prisma.subscriptions.update({
-        where: { id: failure.subscriptionId },
-        data: { status: 'ACTIVE' },
-      });
+      await markPaymentRecovered(failure, failure.attemptCount);
 
       return {
         success: true,
@@ -125,114 +160,105 @@ export async function retryPayment(paymentFailureId: string): Promise<RetryResul
       };
     }
 
-    // Try to pay the invoice
-    try {
-      await stripe.invoices.pay(failure.stripeInvoiceId);
-
-      // Payment successful, mark as resolved
-      await prisma.paymentFailure.update({
-        where: { id: paymentFailureId },
-        data: {
-          isResolved: true,
-          updatedAt: new Date(),
-        },
-      });
-
-      // Update subscription status
-      await prisma.subscriptions.update({
-        where: { id: failure.subscriptionId },
-        data: { status: 'ACTIVE' },
-      });
-
-      // Send success notification
-      if (failure.subscription.users.email) {
-        const prefs = failure.subscription.users.notificationPreferences as any;
-        if (!prefs || prefs?.billing !== false) {
-          await sendEmail({
-            to: failure.subscription.users.email,
-            subject: `Payment Successful - ${failure.subscription.tiers.artist?.displayName}`,
-            html: `
-              <h1>Payment Successful</h1>
-              <p>Your payment for ${failure.subscription.tiers.artist?.displayName}'s ${failure.subscription.tiers.name} tier has been processed successfully.</p>
-              <p>Amount: $${parseFloat(failure.amount.toString()).toFixed(2)}</p>
-              <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions">Manage your subscriptions</a></p>
-            `,
-            text: `Payment Successful\n\nYour payment for ${failure.subscription.tiers.artist?.displayName}'s ${failure.subscription.tiers.name} tier has been processed successfully.\n\nAmount: $${parseFloat(failure.amount.toString()).toFixed(2)}\n\nManage your subscriptions: ${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions`,
-          });
-        }
-      }
+    // Retries are used up and we were only waiting for the grace period to end
+    if (failure.attemptCount >= getMaxAttempts(policy)) {
+      await cancelForNonPayment(failure, failure.attemptCount);
 
       return {
-        success: true,
+        success: false,
         resolved: true,
-        attemptCount: failure.attemptCount + 1,
+        attemptCount: failure.attemptCount,
       };
-    } catch (error) {
-      // Payment failed again
-      const attemptCount = failure.attemptCount + 1;
-      const nextRetryAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    }
 
-      // Check if we've reached max attempts
-      if (attemptCount >= 3) {
-        // Cancel subscription
-        await stripe.subscriptions.cancel(failure.subscription.stripeSubscriptionId);
+    const attemptCount = failure.attemptCount + 1;
 
-        await prisma.subscriptions.update({
-          where: { id: failure.subscriptionId },
-          data: { status: 'CANCELED' },
-        });
+    // Try to pay the invoice
+    try {
+      await stripe.invoices.pay(failure.stripeInvoiceId);
+    } catch (error) {
+      // Payment failed again
+      const now = new Date();
+      await recordDunningStep(
+        failure.id,
+        'RETRY_FAILED',
+        attemptCount,
+        error instanceof Error ? error.message : 'Payment failed'
+      );
 
-        await prisma.paymentFailure.update({
-          where: { id: paymentFailureId },
-          data: {
-            attemptCount,
-            isResolved: true, // Mark as resolved since we're canceling
-            updatedAt: new Date(),
-          },
-        });
+      const gracePeriodEndsAt = failure.gracePeriodEndsAt;
+      const nextRetryAt =
+        getNextRetryAt(policy, attemptCount, now) ||
+        (gracePeriodEndsAt && gracePeriodEndsAt > now ? gracePeriodEndsAt : null);
 
-        // Send cancellation notification
-        if (failure.subscription.users.email) {
-          const prefs = failure.subscription.users.notificationPreferences as any;
-          if (!prefs || prefs?.billing !== false) {
-            await sendEmail({
-              to: failure.subscription.users.email,
-              subject: `Subscription Canceled - Payment Failed`,
-              html: `
-                <h1>Subscription Canceled</h1>
-                <p>Your subscription to ${failure.subscription.tiers.artist?.displayName}'s ${failure.subscription.tiers.name} tier has been canceled due to repeated payment failures.</p>
-                <p>You can resubscribe at any time by visiting the artist's page.</p>
-                <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/artist/${failure.subscription.tiers.artistId}">Visit ${failure.subscription.tiers.artist?.displayName}'s page</a></p>
-              `,
-              text: `Subscription Canceled\n\nYour subscription to ${failure.subscription.tiers.artist?.displayName}'s ${failure.subscription.tiers.name} tier has been canceled due to repeated payment failures.\n\nYou can resubscribe at any time by visiting the artist's page.\n\nVisit ${failure.subscription.tiers.artist?.displayName}'s page: ${process.env.NEXT_PUBLIC_APP_URL}/artist/${failure.subscription.tiers.artistId}`,
-            });
-          }
-        }
+      if (!nextRetryAt) {
+        await cancelForNonPayment(failure, attemptCount);
 
         return {
           success: false,
           resolved: true, // Resolved by cancellation
           attemptCount,
         };
-      } else {
-        // Update retry information
-        await prisma.paymentFailure.update({
-          where: { id: paymentFailureId },
-          data: {
-            attemptCount,
-            nextRetryAt,
-            updatedAt: new Date(),
-          },
-        });
+      }
 
-        return {
-          success: false,
-          resolved: false,
-          nextRetryAt,
+      // Update retry information
+      await prisma.payment_failures.update({
+        where: { id: paymentFailureId },
+        data: {
           attemptCount,
-        };
+          nextRetryAt,
+          updatedAt: now,
+        },
+      });
+
+      await sendDunningReminder({
+        policy,
+        paymentFailureId: failure.id,
+        attemptNumber: attemptCount,
+        email: failure.subscriptions.users.email,
+        notificationPreferences: failure.subscriptions.users.notificationPreferences,
+        artistName: failure.subscriptions.tiers.users.displayName,
+        tierName: failure.subscriptions.tiers.name,
+        amount: Number(failure.amount),
+        nextRetryAt: attemptCount < getMaxAttempts(policy) ? nextRetryAt : null,
+        gracePeriodEndsAt,
+      });
+
+      return {
+        success: false,
+        resolved: false,
+        nextRetryAt,
+        attemptCount,
+      };
+    }
+
+    // Payment successful, mark as resolved
+    await markPaymentRecovered(failure, attemptCount);
+
+    // Send success notification
+    if (failure.subscriptions.users.email) {
+      const artistName = failure.subscriptions.tiers.users.displayName;
+      const prefs = failure.subscriptions.users.notificationPreferences as any;
+      if (!prefs || prefs?.billing !== false) {
+        await sendEmail({
+          to: failure.subscriptions.users.email,
+          subject: `Payment Successful - ${artistName}`,
+          html: `
+            <h1>Payment Successful</h1>
+            <p>Your payment for ${artistName}'s ${failure.subscriptions.tiers.name} tier has been processed successfully.</p>
+            <p>Amount: $${parseFloat(failure.amount.toString()).toFixed(2)}</p>
+            <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions">Manage your subscriptions</a></p>
+          `,
+          text: `Payment Successful\n\nYour payment for ${artistName}'s ${failure.subscriptions.tiers.name} tier has been processed successfully.\n\nAmount: $${parseFloat(failure.amount.toString()).toFixed(2)}\n\nManage your subscriptions: ${process.env.NEXT_PUBLIC_APP_URL}/dashboard/fan/subscriptions`,
+        });
       }
     }
+
+    return {
+      success: true,
+      resolved: true,
+      attemptCount,
+    };
   } catch (error) {
     logger.error(
       `Error retrying payment ${paymentFailureId}:`,
@@ -247,6 +273,116 @@ export async function retryPayment(paymentFailureId: string): Promise<RetryResul
   }
 }
 
+async function markPaymentRecovered(
+  failure: PaymentFailureWithSubscription,
+  attemptCount: number
+): Promise<void> {
+  const now = new Date();
+
+  await prisma.payment_failures.update({
+    where: { id: failure.id },
+    data: {
+      attemptCount,
+      isResolved: true,
+      status: 'RECOVERED',
+      nextRetryAt: null,
+      resolvedAt: now,
+      updatedAt: now,
+    },
+  });
+
+  // Update subscription status
+  await prisma.subscriptions.update({
+    where: { id: failure.subscriptionId },
+    data: { status: 'ACTIVE' },
+  });
+
+  await recordDunningStep(failure.id, 'RECOVERED', attemptCount, 'Payment received');
+}
+
+async function cancelForNonPayment(
+  failure: PaymentFailureWithSubscription,
+  attemptCount: number
+): Promise<void> {
+  const now = new Date();
+  const subscription = failure.subscriptions;
+  const artistName = subscription.tiers.users.displayName;
+
+  await stripe.subscriptions.cancel(subscription.stripeSubscriptionId);
+
+  await prisma.subscriptions.update({
+    where: { id: failure.subscriptionId },
+    data: { status: 'CANCELED' },
+  });
+
+  await prisma.payment_failures.update({
+    where: { id: failure.id },
+    data: {
+      attemptCount,
+      isResolved: true, // Mark as resolved since we're canceling
+      status: 'CANCELED',
+      nextRetryAt: null,
+      resolvedAt: now,
+      updatedAt: now,
+    },
+  });
+
+  await recordDunningStep(
+    failure.id,
+    'CANCELED',
+    attemptCount,
+    'Subscription canceled after final retry'
+  );
+
+  // Send cancellation notification
+  if (subscription.users.email) {
+    const prefs = subscription.users.notificationPreferences as any;
+    if (!prefs || prefs?.billing !== false) {
+      await sendEmail({
+        to: subscription.users.email,
+        subject: `Subscription Canceled - Payment Failed`,
+        html: `
+          <h1>Subscription Canceled</h1>
+          <p>Your subscription to ${artistName}'s ${subscription.tiers.name} tier has been canceled due to repeated payment failures.</p>
+          <p>You can resubscribe at any time by visiting the artist's page.</p>
+          <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/artist/${subscription.tiers.artistId}">Visit ${artistName}'s page</a></p>
+        `,
+        text: `Subscription Canceled\n\nYour subscription to ${artistName}'s ${subscription.tiers.name} tier has been canceled due to repeated payment failures.\n\nYou can resubscribe at any time by visiting the artist's page.\n\nVisit ${artistName}'s page: ${process.env.NEXT_PUBLIC_APP_URL}/artist/${subscription.tiers.artistId}`,
+      });
+    }
+  }
+}
+
+/**
+ * Close out dunning for an invoice that got paid outside our retries,
+ * e.g. by Stripe after the fan updated their card
+ */
+export async function resolvePaymentFailureForInvoice(stripeInvoiceId: string): Promise<boolean> {
+  const failure = await prisma.payment_failures.findUnique({
+    where: { stripeInvoiceId },
+  });
+
+  if (!failure || failure.isResolved) {
+    return false;
+  }
+
+  const now = new Date();
+  await prisma.payment_failures.update({
+    where: { id: failure.id },
+    data: {
+      isResolved: true,
+      status: 'RECOVERED',
+      nextRetryAt: null,
+      resolvedAt: now,
+      updatedAt: now,
+    },
+  });
+
+  await recordDunningStep(failure.id, 'RECOVERED', failure.attemptCount, 'Invoice paid');
+
+  return true;
+}
+
 /**
  * Get payment failures for a subscription
  */
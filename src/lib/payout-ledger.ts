@@ -0,0 +1,468 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const PLATFORM_FEE_RATE = 0.05;
+
+export type LedgerEntryType =
+  | 'SUBSCRIPTION'
+  | 'CONTENT_PURCHASE'
+  | 'GIFT'
+  | 'BUNDLE'
+  | 'TIP'
+  | 'STREAM_TICKET'
+  | 'PAID_MESSAGE'
+  | 'CAMPAIGN_ENTRY_FEE'
+  | 'REFUND'
+  | 'CHARGEBACK'
+  | 'CHARGEBACK_REVERSAL';
+
+export type LedgerAdjustmentType = 'REFUND' | 'CHARGEBACK' | 'CHARGEBACK_REVERSAL';
+
+const ADJUSTMENT_TYPES: LedgerEntryType[] = ['REFUND', 'CHARGEBACK', 'CHARGEBACK_REVERSAL'];
+
+export interface LedgerEntryInput {
+  artistId: string;
+  type: LedgerEntryType;
+  // Stripe invoice, payment intent, refund or internal record the earning came from
+  sourceId: string;
+  grossAmount: number;
+  // Defaults to the standard platform fee on the gross amount
+  platformFee?: number;
+  stripePaymentIntentId?: string | null;
+  description?: string;
+  occurredAt?: Date;
+}
+
+export interface PayoutStatementTotals {
+  grossAmount: number;
+  platformFee: number;
+  netAmount: number;
+}
+
+export interface PayoutStatement {
+  artistId: string;
+  period: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  closingBalance: number;
+  totals: PayoutStatementTotals;
+  byType: Array<PayoutStatementTotals & { type: LedgerEntryType; count: number }>;
+  entries: Array<
+    PayoutStatementTotals & {
+      id: string;
+      type: LedgerEntryType;
+      description: string | null;
+      occurredAt: Date;
+    }
+  >;
+}
+
+export interface PayoutStatementSummary extends PayoutStatementTotals {
+  period: string;
+  entryCount: number;
+}
+
+// One month of ledger totals as Postgres returns them; SUM over money columns is a Decimal
+interface MonthlyLedgerRow {
+  period: string;
+  entryCount: number;
+  grossAmount: Prisma.Decimal;
+  platformFee: Prisma.Decimal;
+  netAmount: Prisma.Decimal;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function calculatePlatformFee(grossAmount: number): number {
+  return roundCurrency(grossAmount * PLATFORM_FEE_RATE);
+}
+
+/**
+ * Parse a YYYY-MM statement period into its UTC start and (exclusive) end
+ */
+export function parseStatementPeriod(period: string): { start: Date; end: Date } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  if (!match) return null;
+
+  const year = parseInt(match[1]);
+  const month = parseInt(match[2]) - 1;
+  if (month < 0 || month > 11) return null;
+
+  return {
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+/**
+ * Record an earning event for an artist and add its net amount to their total earnings.
+ * Returns false when the same source was already recorded (e.g. webhook retries).
+ */
+export async function recordLedgerEntry(input: LedgerEntryInput): Promise<boolean> {
+  const existing = await prisma.artist_ledger_entries.findUnique({
+    where: {
+      artistId_type_sourceId: {
+        artistId: input.artistId,
+        type: input.type,
+        sourceId: input.sourceId,
+      },
+    },
+  });
+
+  if (existing) {
+    return false;
+  }
+
+  const grossAmount = roundCurrency(input.grossAmount);
+  const platformFee = roundCurrency(input.platformFee ?? calculatePlatformFee(grossAmount));
+  const netAmount = roundCurrency(grossAmount - platformFee);
+
+  await prisma.$transaction([
+    prisma.artist_ledger_entries.create({
+      data: {
+        id: randomUUID(),
+        artistId: input.artistId,
+        type: input.type,
+        sourceId: input.sourceId,
+        stripePaymentIntentId: input.stripePaymentIntentId || null,
+        grossAmount,
+        platformFee,
+        netAmount,
+        description: input.description || null,
+        occurredAt: input.occurredAt || new Date(),
+      },
+    }),
+    prisma.artists.update({
+      where: { userId: input.artistId },
+      data: {
+        totalEarnings: {
+          increment: netAmount,
+        },
+      },
+    }),
+  ]);
+
+  return true;
+}
+
+/**
+ * Adjust the earnings recorded against a payment. Refunds and lost chargebacks take
+ * back each artist's proportional share, including the platform fee on it; a won
+ * chargeback restores it. Returns the artists whose ledger changed.
+ */
+export async function recordPaymentAdjustment(params: {
+  stripePaymentIntentId: string;
+  type: LedgerAdjustmentType;
+  sourceId: string;
+  amount: number;
+  description?: string;
+}): Promise<string[]> {
+  const credits = await prisma.artist_ledger_entries.findMany({
+    where: {
+      stripePaymentIntentId: params.stripePaymentIntentId,
+      type: { notIn: ADJUSTMENT_TYPES },
+    },
+  });
+
+  // A payment can be split between several artists (bundles); adjust each share
+  const byArtist = new Map<string, { grossAmount: number; platformFee: number }>();
+  for (const credit of credits) {
+    const current = byArtist.get(credit.artistId) || { grossAmount: 0, platformFee: 0 };
+    byArtist.set(credit.artistId, {
+      grossAmount: current.grossAmount + Number(credit.grossAmount),
+      platformFee: current.platformFee + Number(credit.platformFee),
+    });
+  }
+
+  const totalGross = Array.from(byArtist.values()).reduce(
+    (sum, share) => sum + share.grossAmount,
+    0
+  );
+
+  if (totalGross <= 0) {
+    return [];
+  }
+
+  const ratio = Math.min(params.amount, totalGross) / totalGross;
+  const direction = params.type === 'CHARGEBACK_REVERSAL' ? 1 : -1;
+  const adjusted: string[] = [];
+
+  for (const [artistId, share] of byArtist) {
+    const recorded = await recordLedgerEntry({
+      artistId,
+      type: params.type,
+      sourceId: params.sourceId,
+      stripePaymentIntentId: params.stripePaymentIntentId,
+      grossAmount: direction * share.grossAmount * ratio,
+      platformFee: direction * share.platformFee * ratio,
+      description: params.description,
+    });
+
+    if (recorded) {
+      adjusted.push(artistId);
+    }
+  }
+
+  return adjusted;
+}
+
+/**
+ * Total gross already refunded for a payment, as a positive amount
+ */
+export async function getRefundedAmount(stripePaymentIntentId: string): Promise<number> {
+  const result = await prisma.artist_ledger_entries.aggregate({
+    where: {
+      stripePaymentIntentId,
+      type: 'REFUND',
+    },
+    _sum: {
+      grossAmount: true,
+    },
+  });
+
+  return Math.abs(Number(result._sum.grossAmount || 0));
+}
+
+/**
+ * Monthly payout statement for an artist. Period is YYYY-MM in UTC.
+ */
+export async function getPayoutStatement(
+  artistId: string,
+  period: string
+): Promise<PayoutStatement> {
+  const range = parseStatementPeriod(period);
+  if (!range) {
+    throw new Error('Invalid statement period');
+  }
+
+  const [opening, entries] = await Promise.all([
+    prisma.artist_ledger_entries.aggregate({
+      where: {
+        artistId,
+        occurredAt: { lt: range.start },
+      },
+      _sum: {
+        netAmount: true,
+      },
+    }),
+    prisma.artist_ledger_entries.findMany({
+      where: {
+        artistId,
+        occurredAt: {
+          gte: range.start,
+          lt: range.end,
+        },
+      },
+      orderBy: { occurredAt: 'asc' },
+    }),
+  ]);
+
+  const lines = entries.map(entry => ({
+    id: entry.id,
+    type: entry.type as LedgerEntryType,
+    description: entry.description,
+    occurredAt: entry.occurredAt,
+    grossAmount: Number(entry.grossAmount),
+    platformFee: Number(entry.platformFee),
+    netAmount: Number(entry.netAmount),
+  }));
+
+  const byType = new Map<LedgerEntryType, PayoutStatement['byType'][number]>();
+  for (const line of lines) {
+    const current = byType.get(line.type) || {
+      type: line.type,
+      count: 0,
+      grossAmount: 0,
+      platformFee: 0,
+      netAmount: 0,
+    };
+    byType.set(line.type, {
+      type: line.type,
+      count: current.count + 1,
+      grossAmount: roundCurrency(current.grossAmount + line.grossAmount),
+      platformFee: roundCurrency(current.platformFee + line.platformFee),
+      netAmount: roundCurrency(current.netAmount + line.netAmount),
+    });
+  }
+
+  const totals = lines.reduce(
+    (sum, line) => ({
+      grossAmount: roundCurrency(sum.grossAmount + line.grossAmount),
+      platformFee: roundCurrency(sum.platformFee + line.platformFee),
+      netAmount: roundCurrency(sum.netAmount + line.netAmount),
+    }),
+    { grossAmount: 0, platformFee: 0, netAmount: 0 }
+  );
+
+  const openingBalance = roundCurrency(Number(opening._sum.netAmount || 0));
+
+  return {
+    artistId,
+    period,
+    periodStart: range.start,
+    periodEnd: range.end,
+    openingBalance,
+    closingBalance: roundCurrency(openingBalance + totals.netAmount),
+    totals,
+    byType: Array.from(byType.values()),
+    entries: lines,
+  };
+}
+
+/**
+ * Monthly totals for the artist's most recent statement periods
+ */
+export async function getPayoutStatementSummaries(
+  artistId: string,
+  limit = 12
+): Promise<PayoutStatementSummary[]> {
+  const rows = await prisma.$queryRaw<MonthlyLedgerRow[]>`
+    SELECT to_char(date_trunc('month', "occurredAt"), 'YYYY-MM') as period,
+           COUNT(*)::int as "entryCount",
+           SUM("grossAmount") as "grossAmount",
+           SUM("platformFee") as "platformFee",
+           SUM("netAmount") as "netAmount"
+    FROM "artist_ledger_entries"
+    WHERE "artistId" = ${artistId}
+    GROUP BY 1
+    ORDER BY 1 DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(row => ({
+    period: row.period,
+    entryCount: Number(row.entryCount),
+    grossAmount: roundCurrency(Number(row.grossAmount)),
+    platformFee: roundCurrency(Number(row.platformFee)),
+    netAmount: roundCurrency(Number(row.netAmount)),
+  }));
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function payoutStatementToCsv(statement: PayoutStatement): string {
+  const rows: Array<Array<string | number>> = [
+    ['Date', 'Type', 'Description', 'Gross', 'Platform Fee', 'Net'],
+    ...statement.entries.map(entry => [
+      entry.occurredAt.toISOString(),
+      entry.type,
+      entry.description || '',
+      entry.grossAmount.toFixed(2),
+      entry.platformFee.toFixed(2),
+      entry.netAmount.toFixed(2),
+    ]),
+    [],
+    ['Total', '', '', ...totalsRow(statement.totals)],
+    ['Opening Balance', '', '', '', '', statement.openingBalance.toFixed(2)],
+    ['Closing Balance', '', '', '', '', statement.closingBalance.toFixed(2)],
+  ];
+
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function totalsRow(totals: PayoutStatementTotals): string[] {
+  return [
+    totals.grossAmount.toFixed(2),
+    totals.platformFee.toFixed(2),
+    totals.netAmount.toFixed(2),
+  ];
+}
+
+/**
+ * Render a statement as a plain single-font PDF document
+ */
+export function payoutStatementToPdf(statement: PayoutStatement, artistName: string): Buffer {
+  const money = (amount: number) => `$${amount.toFixed(2)}`;
+  const pad = (text: string, width: number) => text.slice(0, width).padEnd(width);
+
+  const lines = [
+    'Direct Fan - Payout Statement',
+    '',
+    `Artist: ${artistName}`,
+    `Period: ${statement.period}`,
+    '',
+    `Opening balance: ${money(statement.openingBalance)}`,
+    `Gross earnings:  ${money(statement.totals.grossAmount)}`,
+    `Platform fees:   ${money(statement.totals.platformFee)}`,
+    `Net earnings:    ${money(statement.totals.netAmount)}`,
+    `Closing balance: ${money(statement.closingBalance)}`,
+    '',
+    ...statement.byType.map(
+      line =>
+        `${pad(line.type, 22)}${pad(String(line.count), 6)}${pad(money(line.grossAmount), 14)}${pad(money(line.platformFee), 14)}${money(line.netAmount)}`
+    ),
+    '',
+    `${pad('Date', 12)}${pad('Type', 22)}${pad('Gross', 14)}${pad('Fee', 14)}Net`,
+    ...statement.entries.map(
+      entry =>
+        `${pad(entry.occurredAt.toISOString().slice(0, 10), 12)}${pad(entry.type, 22)}${pad(money(entry.grossAmount), 14)}${pad(money(entry.platformFee), 14)}${money(entry.netAmount)}`
+    ),
+  ];
+
+  return renderTextPdf(lines);
+}
+
+function renderTextPdf(lines: string[]): Buffer {
+  const linesPerPage = 60;
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    pages.push(lines.slice(i, i + linesPerPage));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // PDF string literals are Latin-1; escape delimiters and drop anything else
+  const escape = (text: string) =>
+    text
+      .replace(/[^\x20-\x7e]/g, '?')
+      .replace(/\\/g, '\\\\')
+      .replace(/\(/g, '\\(')
+      .replace(/\)/g, '\\)');
+
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>';
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageIds[index];
+    const content = [
+      'BT',
+      '/F1 9 Tf',
+      '12 TL',
+      '40 800 Td',
+      ...pageLines.map(line => `(${escape(line)}) '`),
+      'ET',
+    ].join('\n');
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf);
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
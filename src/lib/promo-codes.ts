@@ -0,0 +1,418 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { createPromoCodeCoupon, deletePromoCodeCoupon } from './stripe';
+import { createConflictError, createValidationError } from './errors';
+
+// A redemption is held for the fan while they're in checkout. Stripe sessions
+// can't expire sooner than 30 minutes, so the session is set to expire with the hold.
+export const PROMO_HOLD_MINUTES = 35;
+
+export type PromoDiscountType = 'PERCENT' | 'AMOUNT';
+export type PromoRedemptionStatus = 'PENDING' | 'REDEEMED';
+
+export interface PromoCodeDiscount {
+  discountType: string;
+  discountValue: number;
+}
+
+export type PromoCodeValidation =
+  | {
+      valid: true;
+      promoCode: {
+        id: string;
+        code: string;
+        discountType: string;
+        discountValue: number;
+        durationMonths: number;
+        stripeCouponId: string | null;
+      };
+      discountAmount: number;
+    }
+  | { valid: false; error: string };
+
+export interface PromoCodeReportEntry {
+  id: string;
+  code: string;
+  tierId: string;
+  tierName: string;
+  discountType: string;
+  discountValue: number;
+  durationMonths: number;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  expiresAt: Date | null;
+  isActive: boolean;
+  totalDiscount: number;
+  firstMonthRevenue: number;
+}
+
+export const createPromoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, 'Code must be at least 3 characters')
+      .max(32, 'Code must be at most 32 characters')
+      .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, dashes and underscores')
+      .transform(code => code.toUpperCase()),
+    discountType: z.enum(['PERCENT', 'AMOUNT']),
+    discountValue: z.number().positive('Discount must be greater than zero'),
+    durationMonths: z.number().int().min(1).max(12).default(1),
+    maxRedemptions: z.number().int().positive().nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    fanId: z.string().nullable().optional(),
+  })
+  .refine(data => data.discountType !== 'PERCENT' || data.discountValue <= 100, {
+    message: 'Percentage discounts cannot exceed 100%',
+    path: ['discountValue'],
+  });
+
+// The discount itself is fixed once created because it backs a Stripe coupon
+export const updatePromoCodeSchema = z.object({
+  isActive: z.boolean().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+export type CreatePromoCodeInput = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoCodeSchema>;
+
+/**
+ * Monthly discount a promo code gives on the given subscription amount
+ */
+export function calculatePromoDiscount(promo: PromoCodeDiscount, amount: number): number {
+  const discount =
+    promo.discountType === 'PERCENT'
+      ? (amount * promo.discountValue) / 100
+      : Math.min(promo.discountValue, amount);
+
+  return Math.round(discount * 100) / 100;
+}
+
+function isHeld(
+  redemption: { status: string; reservedUntil: Date | null } | null,
+  now: Date
+): boolean {
+  return (
+    redemption?.status === 'PENDING' && !!redemption.reservedUntil && redemption.reservedUntil > now
+  );
+}
+
+/**
+ * Redemptions taken: completed checkouts plus checkouts still holding one
+ */
+export async function countTakenRedemptions(
+  promoCodeId: string,
+  now: Date = new Date(),
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  return client.promo_code_redemptions.count({
+    where: {
+      promoCodeId,
+      OR: [{ status: 'REDEEMED' }, { status: 'PENDING', reservedUntil: { gt: now } }],
+    },
+  });
+}
+
+/**
+ * Check a code entered at checkout against the tier, fan, caps and expiry
+ */
+export async function validatePromoCode(
+  code: string,
+  tierId: string,
+  fanId: string,
+  amount: number,
+  now: Date = new Date()
+): Promise<PromoCodeValidation> {
+  const promoCode = await prisma.promo_codes.findUnique({
+    where: {
+      tierId_code: {
+        tierId,
+        code: code.trim().toUpperCase(),
+      },
+    },
+  });
+
+  if (!promoCode || !promoCode.isActive) {
+    return { valid: false, error: 'Invalid promo code' };
+  }
+
+  if (promoCode.fanId && promoCode.fanId !== fanId) {
+    return { valid: false, error: 'Invalid promo code' };
+  }
+
+  if (promoCode.expiresAt && promoCode.expiresAt <= now) {
+    return { valid: false, error: 'Promo code has expired' };
+  }
+
+  const previousRedemption = await prisma.promo_code_redemptions.findUnique({
+    where: {
+      promoCodeId_fanId: {
+        promoCodeId: promoCode.id,
+        fanId,
+      },
+    },
+  });
+
+  if (previousRedemption?.status === 'REDEEMED') {
+    return { valid: false, error: 'Promo code has already been used' };
+  }
+
+  if (isHeld(previousRedemption, now)) {
+    return { valid: false, error: 'You already have a checkout open with this promo code' };
+  }
+
+  if (
+    promoCode.maxRedemptions !== null &&
+    (await countTakenRedemptions(promoCode.id, now)) >= promoCode.maxRedemptions
+  ) {
+    return { valid: false, error: 'Promo code has reached its redemption limit' };
+  }
+
+  const discountValue = Number(promoCode.discountValue);
+
+  return {
+    valid: true,
+    promoCode: {
+      id: promoCode.id,
+      code: promoCode.code,
+      discountType: promoCode.discountType,
+      discountValue,
+      durationMonths: promoCode.durationMonths,
+      stripeCouponId: promoCode.stripeCouponId,
+    },
+    discountAmount: calculatePromoDiscount(
+      { discountType: promoCode.discountType, discountValue },
+      amount
+    ),
+  };
+}
+
+/**
+ * Return the Stripe coupon for a promo code, creating it on first use
+ */
+export async function getOrCreatePromoCoupon(
+  promoCode: Extract<PromoCodeValidation, { valid: true }>['promoCode'],
+  stripeAccountId: string
+): Promise<string> {
+  if (promoCode.stripeCouponId) {
+    return promoCode.stripeCouponId;
+  }
+
+  const couponId = await createPromoCodeCoupon(stripeAccountId, {
+    promoCodeId: promoCode.id,
+    code: promoCode.code,
+    discountType: promoCode.discountType as PromoDiscountType,
+    discountValue: promoCode.discountValue,
+    durationMonths: promoCode.durationMonths,
+  });
+
+  await prisma.promo_codes.update({
+    where: { id: promoCode.id },
+    data: { stripeCouponId: couponId, updatedAt: new Date() },
+  });
+
+  return couponId;
+}
+
+/**
+ * Lock the promo code row so the redemption count and the holds that depend on
+ * it can't interleave with another checkout using the same code
+ */
+async function lockPromoCode(
+  tx: Prisma.TransactionClient,
+  promoCodeId: string
+): Promise<{ maxRedemptions: number | null } | undefined> {
+  const [promoCode] = await tx.$queryRaw<{ maxRedemptions: number | null }[]>`
+    SELECT "maxRedemptions" FROM "promo_codes" WHERE "id" = ${promoCodeId} FOR UPDATE
+  `;
+
+  return promoCode;
+}
+
+/**
+ * Hold one of the code's redemptions for the fan while they pay, so the cap and
+ * the one-per-fan rule are enforced before Stripe applies the discount. The
+ * fan's row is reused if an earlier checkout lapsed.
+ */
+export async function reservePromoRedemption(
+  promoCodeId: string,
+  fanId: string,
+  amounts: { originalAmount: number; discountAmount: number },
+  now: Date = new Date()
+) {
+  const reservedUntil = new Date(now.getTime() + PROMO_HOLD_MINUTES * 60 * 1000);
+
+  return prisma.$transaction(async tx => {
+    const promoCode = await lockPromoCode(tx, promoCodeId);
+
+    if (!promoCode) {
+      throw createValidationError('Invalid promo code');
+    }
+
+    // validatePromoCode's checks may be stale by now, so make them again under the lock
+    const existing = await tx.promo_code_redemptions.findUnique({
+      where: {
+        promoCodeId_fanId: { promoCodeId, fanId },
+      },
+    });
+
+    if (existing?.status === 'REDEEMED') {
+      throw createConflictError('Promo code has already been used');
+    }
+
+    if (isHeld(existing, now)) {
+      throw createConflictError('You already have a checkout open with this promo code', {
+        reservedUntil: existing!.reservedUntil,
+      });
+    }
+
+    if (
+      promoCode.maxRedemptions !== null &&
+      (await countTakenRedemptions(promoCodeId, now, tx)) >= promoCode.maxRedemptions
+    ) {
+      throw createConflictError('Promo code has reached its redemption limit');
+    }
+
+    const redemptionData = {
+      status: 'PENDING',
+      reservedUntil,
+      originalAmount: amounts.originalAmount,
+      discountAmount: amounts.discountAmount,
+      redeemedAt: now,
+    };
+
+    return tx.promo_code_redemptions.upsert({
+      where: {
+        promoCodeId_fanId: { promoCodeId, fanId },
+      },
+      create: {
+        id: randomUUID(),
+        promoCodeId,
+        fanId,
+        ...redemptionData,
+      },
+      update: {
+        ...redemptionData,
+        subscriptionId: null,
+        stripeSessionId: null,
+      },
+    });
+  });
+}
+
+/**
+ * Mark a held redemption as used once its checkout completes. Safe to call again
+ * for the same session; returns false when there was nothing left to confirm.
+ */
+export async function confirmPromoRedemption(
+  redemptionId: string,
+  data: { subscriptionId?: string; stripeSessionId: string },
+  now: Date = new Date()
+): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    // The checkout session expires with the hold, so a lapsed hold that still
+    // gets paid is honoured: the fan was already charged the discounted price
+    const { count } = await tx.promo_code_redemptions.updateMany({
+      where: { id: redemptionId, status: 'PENDING' },
+      data: {
+        status: 'REDEEMED',
+        reservedUntil: null,
+        subscriptionId: data.subscriptionId,
+        stripeSessionId: data.stripeSessionId,
+        redeemedAt: now,
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    const redemption = await tx.promo_code_redemptions.findUniqueOrThrow({
+      where: { id: redemptionId },
+      select: { promoCodeId: true },
+    });
+
+    await tx.promo_codes.update({
+      where: { id: redemption.promoCodeId },
+      data: {
+        redemptionCount: { increment: 1 },
+        updatedAt: now,
+      },
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Remove a promo code and the Stripe coupon behind it
+ */
+export async function deletePromoCode(promoCodeId: string, stripeAccountId?: string | null) {
+  const promoCode = await prisma.promo_codes.delete({
+    where: { id: promoCodeId },
+  });
+
+  if (promoCode.stripeCouponId && stripeAccountId) {
+    // Existing subscriptions keep their discount; the coupon just can't be applied again
+    await deletePromoCodeCoupon(stripeAccountId, promoCode.stripeCouponId).catch(() => undefined);
+  }
+
+  return promoCode;
+}
+
+/**
+ * Redemption totals for every promo code across an artist's tiers
+ */
+export async function getPromoCodeRedemptionReport(
+  artistId: string
+): Promise<PromoCodeReportEntry[]> {
+  const promoCodes = await prisma.promo_codes.findMany({
+    where: {
+      tiers: { artistId },
+    },
+    include: {
+      tiers: {
+        select: { name: true },
+      },
+      promo_code_redemptions: {
+        where: { status: 'REDEEMED' },
+        select: {
+          originalAmount: true,
+          discountAmount: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return promoCodes.map(promoCode => {
+    const totalDiscount = promoCode.promo_code_redemptions.reduce(
+      (sum, redemption) => sum + Number(redemption.discountAmount),
+      0
+    );
+    const firstMonthRevenue = promoCode.promo_code_redemptions.reduce(
+      (sum, redemption) =>
+        sum + Number(redemption.originalAmount) - Number(redemption.discountAmount),
+      0
+    );
+
+    return {
+      id: promoCode.id,
+      code: promoCode.code,
+      tierId: promoCode.tierId,
+      tierName: promoCode.tiers.name,
+      discountType: promoCode.discountType,
+      discountValue: Number(promoCode.discountValue),
+      durationMonths: promoCode.durationMonths,
+      maxRedemptions: promoCode.maxRedemptions,
+      redemptionCount: promoCode.redemptionCount,
+      expiresAt: promoCode.expiresAt,
+      isActive: promoCode.isActive,
+      totalDiscount: Math.round(totalDiscount * 100) / 100,
+      firstMonthRevenue: Math.round(firstMonthRevenue * 100) / 100,
+    };
+  });
+}
@@ -0,0 +1,389 @@
+/**
+ * RTMP Simulcast
+ *
+ * Restreams a live stream's RTMP ingest to the artist's saved destinations
+ * (YouTube, Twitch, a local test sink, ...) with one FFmpeg relay per
+ * destination. Stream keys are stored encrypted and only decrypted to start a
+ * relay.
+ *
+ * To try it locally, run a sink that accepts a single publisher, e.g.
+ *   ffmpeg -listen 1 -f flv -i rtmp://127.0.0.1:1936/live/test -c copy -f null -
+ * and save a destination with ingest URL rtmp://127.0.0.1:1936/live and
+ * stream key "test". Local addresses are refused in production.
+ */
+
+import { randomUUID } from 'crypto';
+import { spawn, ChildProcess } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { createConflictError, createNotFoundError } from './errors';
+import { getEncryptionService, EncryptedData } from './encryption-service';
+import { logger } from './logger';
+
+export const SIMULCAST_STATUSES = ['IDLE', 'CONNECTING', 'LIVE', 'ERROR'] as const;
+export type SimulcastStatus = (typeof SIMULCAST_STATUSES)[number];
+
+// Longest FFmpeg error kept on a destination
+const MAX_ERROR_LENGTH = 500;
+
+const PRIVATE_HOST_PATTERN =
+  /^(localhost|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|0\.0\.0\.0|\[?::1\]?)$/i;
+
+export function isPrivateHost(hostname: string): boolean {
+  return PRIVATE_HOST_PATTERN.test(hostname);
+}
+
+const ingestUrlSchema = z
+  .string()
+  .trim()
+  .url('Ingest URL must be a valid URL')
+  .refine(value => /^rtmps?:\/\//i.test(value), 'Ingest URL must start with rtmp:// or rtmps://')
+  .refine(
+    value => process.env.NODE_ENV !== 'production' || !isPrivateHost(new URL(value).hostname),
+    'Ingest URL must point to a public server'
+  );
+
+export const rtmpDestinationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  ingestUrl: ingestUrlSchema,
+  streamKey: z.string().trim().min(1, 'Stream key is required').max(512),
+});
+
+export const rtmpDestinationUpdateSchema = rtmpDestinationSchema.partial();
+
+// Health reports from relays, posted to /api/streaming/rtmp
+export const destinationStatusSchema = z.object({
+  destinationId: z.string().min(1),
+  status: z.enum(SIMULCAST_STATUSES),
+  error: z.string().max(2000).optional(),
+});
+
+export type RtmpDestinationInput = z.infer<typeof rtmpDestinationSchema>;
+export type RtmpDestinationUpdate = z.infer<typeof rtmpDestinationUpdateSchema>;
+
+// What the artist gets to see of a destination; the stream key never leaves the server
+export interface RtmpDestinationView {
+  id: string;
+  name: string;
+  ingestUrl: string;
+  streamKeyHint: string;
+  status: SimulcastStatus;
+  streamId: string | null;
+  lastError: string | null;
+  lastStatusAt: Date | null;
+}
+
+interface RtmpDestinationRecord {
+  id: string;
+  name: string;
+  ingestUrl: string;
+  streamKeyHint: string;
+  status: string;
+  streamId: string | null;
+  lastError: string | null;
+  lastStatusAt: Date | null;
+}
+
+interface SimulcastRelay {
+  process: ChildProcess;
+  streamId: string;
+  stopping: boolean;
+}
+
+// Relays running in this process, keyed by destination
+const relays = new Map<string, SimulcastRelay>();
+
+export function maskStreamKey(streamKey: string): string {
+  return `••••${streamKey.slice(-4)}`;
+}
+
+export function toRtmpDestinationView(destination: RtmpDestinationRecord): RtmpDestinationView {
+  return {
+    id: destination.id,
+    name: destination.name,
+    ingestUrl: destination.ingestUrl,
+    streamKeyHint: destination.streamKeyHint,
+    status: destination.status as SimulcastStatus,
+    streamId: destination.streamId,
+    lastError: destination.lastError,
+    lastStatusAt: destination.lastStatusAt,
+  };
+}
+
+export function buildOutputUrl(ingestUrl: string, streamKey: string): string {
+  return `${ingestUrl.replace(/\/+$/, '')}/${streamKey}`;
+}
+
+// Where OBS publishes the stream, matching the config served by /api/streaming/rtmp
+export function getLocalIngestUrl(streamKey: string): string {
+  const host = process.env.RTMP_SERVER_HOST || 'localhost';
+  const port = process.env.RTMP_SERVER_PORT || '1935';
+
+  return `rtmp://${host}:${port}/live/${streamKey}`;
+}
+
+/**
+ * FFmpeg arguments for a relay: the ingest is copied as-is (no transcoding)
+ * and progress is written to stdout so the relay can tell when it is live.
+ */
+export function buildSimulcastArgs(inputUrl: string, outputUrl: string): string[] {
+  return [
+    '-hide_banner',
+    '-loglevel',
+    'error',
+    '-nostats',
+    '-progress',
+    'pipe:1',
+    '-i',
+    inputUrl,
+    '-c',
+    'copy',
+    '-f',
+    'flv',
+    outputUrl,
+  ];
+}
+
+async function encryptStreamKey(streamKey: string): Promise<string> {
+  const encrypted = await getEncryptionService().encryptSecret(streamKey);
+  return JSON.stringify(encrypted);
+}
+
+async function decryptStreamKey(encryptedStreamKey: string): Promise<string> {
+  const encrypted = JSON.parse(encryptedStreamKey) as EncryptedData;
+  return getEncryptionService().decryptSecret(encrypted);
+}
+
+async function findOwnDestination(artistId: string, destinationId: string) {
+  const destination = await prisma.rtmp_destinations.findUnique({
+    where: { id: destinationId },
+  });
+
+  if (!destination || destination.artistId !== artistId) {
+    throw createNotFoundError('RTMP destination not found');
+  }
+
+  return destination;
+}
+
+export async function listRtmpDestinations(artistId: string): Promise<RtmpDestinationView[]> {
+  const destinations = await prisma.rtmp_destinations.findMany({
+    where: { artistId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return destinations.map(toRtmpDestinationView);
+}
+
+export async function createRtmpDestination(
+  artistId: string,
+  input: RtmpDestinationInput
+): Promise<RtmpDestinationView> {
+  const data = rtmpDestinationSchema.parse(input);
+
+  const destination = await prisma.rtmp_destinations.create({
+    data: {
+      id: randomUUID(),
+      artistId,
+      name: data.name,
+      ingestUrl: data.ingestUrl,
+      encryptedStreamKey: await encryptStreamKey(data.streamKey),
+      streamKeyHint: maskStreamKey(data.streamKey),
+      updatedAt: new Date(),
+    },
+  });
+
+  return toRtmpDestinationView(destination);
+}
+
+export async function updateRtmpDestination(
+  artistId: string,
+  destinationId: string,
+  input: RtmpDestinationUpdate
+): Promise<RtmpDestinationView> {
+  const data = rtmpDestinationUpdateSchema.parse(input);
+  await findOwnDestination(artistId, destinationId);
+
+  if (relays.has(destinationId)) {
+    throw createConflictError('Stop the simulcast before editing this destination');
+  }
+
+  const destination = await prisma.rtmp_destinations.update({
+    where: { id: destinationId },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.ingestUrl !== undefined && { ingestUrl: data.ingestUrl }),
+      ...(data.streamKey !== undefined && {
+        encryptedStreamKey: await encryptStreamKey(data.streamKey),
+        streamKeyHint: maskStreamKey(data.streamKey),
+      }),
+      updatedAt: new Date(),
+    },
+  });
+
+  return toRtmpDestinationView(destination);
+}
+
+export async function deleteRtmpDestination(
+  artistId: string,
+  destinationId: string
+): Promise<void> {
+  await findOwnDestination(artistId, destinationId);
+  stopRelay(destinationId);
+
+  await prisma.rtmp_destinations.delete({ where: { id: destinationId } });
+}
+
+/**
+ * Record a destination's health. Leaving IDLE detaches it from the stream it
+ * was relaying; errors are kept until the next successful start.
+ */
+export async function recordDestinationStatus(
+  destinationId: string,
+  status: SimulcastStatus,
+  error?: string
+): Promise<RtmpDestinationView> {
+  const destination = await prisma.rtmp_destinations.update({
+    where: { id: destinationId },
+    data: {
+      status,
+      ...(status === 'IDLE' && { streamId: null }),
+      ...(status === 'ERROR'
+        ? { lastError: (error || 'Relay failed').slice(0, MAX_ERROR_LENGTH) }
+        : status === 'LIVE' && { lastError: null }),
+      lastStatusAt: new Date(),
+      updatedAt: new Date(),
+    },
+  });
+
+  return toRtmpDestinationView(destination);
+}
+
+function reportStatus(destinationId: string, status: SimulcastStatus, error?: string) {
+  recordDestinationStatus(destinationId, status, error).catch(err => {
+    logger.error('Failed to record simulcast status', { destinationId, status }, err as Error);
+  });
+}
+
+function superviseRelay(destinationId: string, relay: SimulcastRelay) {
+  let isLive = false;
+  let lastError = '';
+
+  relay.process.stdout?.on('data', (chunk: Buffer) => {
+    if (!isLive && chunk.toString().includes('progress=continue')) {
+      isLive = true;
+      reportStatus(destinationId, 'LIVE');
+    }
+  });
+
+  relay.process.stderr?.on('data', (chunk: Buffer) => {
+    const lines = chunk.toString().trim().split('\n');
+    lastError = lines[lines.length - 1] || lastError;
+  });
+
+  relay.process.on('error', error => {
+    lastError = error.message;
+  });
+
+  relay.process.on('close', code => {
+    // Whoever stopped the relay has already recorded the destination as idle
+    if (relay.stopping) return;
+
+    relays.delete(destinationId);
+    logger.error('Simulcast relay exited', { destinationId, streamId: relay.streamId, code });
+    reportStatus(destinationId, 'ERROR', lastError || `FFmpeg exited with code ${code}`);
+  });
+}
+
+export async function startSimulcast(
+  artistId: string,
+  destinationId: string,
+  streamId: string
+): Promise<RtmpDestinationView> {
+  const destination = await findOwnDestination(artistId, destinationId);
+
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: { id: true, artistId: true, streamKey: true },
+  });
+
+  if (!stream || stream.artistId !== artistId) {
+    throw createNotFoundError('Stream not found');
+  }
+
+  if (relays.has(destinationId)) {
+    throw createConflictError('This destination is already simulcasting');
+  }
+
+  const streamKey = await decryptStreamKey(destination.encryptedStreamKey);
+  const args = buildSimulcastArgs(
+    getLocalIngestUrl(stream.streamKey),
+    buildOutputUrl(destination.ingestUrl, streamKey)
+  );
+
+  // Marked before spawning so an early FFmpeg failure is not overwritten
+  const updated = await prisma.rtmp_destinations.update({
+    where: { id: destinationId },
+    data: {
+      status: 'CONNECTING',
+      streamId: stream.id,
+      lastError: null,
+      lastStatusAt: new Date(),
+      updatedAt: new Date(),
+    },
+  });
+
+  const relay: SimulcastRelay = {
+    process: spawn(ffmpegStatic || 'ffmpeg', args),
+    streamId: stream.id,
+    stopping: false,
+  };
+  relays.set(destinationId, relay);
+  superviseRelay(destinationId, relay);
+
+  logger.info('Started simulcast', { destinationId, streamId: stream.id });
+
+  return toRtmpDestinationView(updated);
+}
+
+function stopRelay(destinationId: string): boolean {
+  const relay = relays.get(destinationId);
+  if (!relay) return false;
+
+  relay.stopping = true;
+  relay.process.kill('SIGTERM');
+  relays.delete(destinationId);
+  return true;
+}
+
+export async function stopSimulcast(
+  artistId: string,
+  destinationId: string
+): Promise<RtmpDestinationView> {
+  await findOwnDestination(artistId, destinationId);
+
+  // The destination is reset even without a relay here, e.g. after a restart
+  stopRelay(destinationId);
+  logger.info('Stopped simulcast', { destinationId });
+
+  return recordDestinationStatus(destinationId, 'IDLE');
+}
+
+// Called when a stream ends so no relay outlives its source
+export async function stopStreamSimulcasts(streamId: string): Promise<number> {
+  let stopped = 0;
+
+  for (const [destinationId, relay] of Array.from(relays.entries())) {
+    if (relay.streamId === streamId && stopRelay(destinationId)) {
+      stopped++;
+    }
+  }
+
+  await prisma.rtmp_destinations.updateMany({
+    where: { streamId, status: { not: 'IDLE' } },
+    data: { status: 'IDLE', streamId: null, lastStatusAt: new Date(), updatedAt: new Date() },
+  });
+
+  return stopped;
+}
@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { ACCESS_GRANTING_STATUSES } from './content-access';
+import { createNotFoundError, createValidationError } from './errors';
+
+export const MAX_SAVED_REPLIES = 100;
+
+// Subscription rows store their status as a plain string
+const ACCESS_STATUSES: readonly string[] = ACCESS_GRANTING_STATUSES;
+
+// Placeholders artists can use in saved replies and auto-replies, e.g. {{name}}
+export const REPLY_TEMPLATE_VARIABLES = ['name', 'tier', 'months'] as const;
+
+export const savedReplySchema = z.object({
+  title: z.string().trim().min(1).max(60),
+  content: z.string().min(1).max(1000),
+});
+
+export const updateSavedReplySchema = savedReplySchema.partial();
+
+export const fillSavedReplySchema = z.object({
+  fanId: z.string().min(1),
+});
+
+export type SavedReplyInput = z.infer<typeof savedReplySchema>;
+export type UpdateSavedReplyInput = z.infer<typeof updateSavedReplySchema>;
+
+export interface ReplyTemplateContext {
+  name: string;
+  tier: string;
+  // Whole months since the fan first subscribed to the artist
+  months: number;
+}
+
+export function renderReplyTemplate(template: string, context: ReplyTemplateContext): string {
+  return template.replace(/\{\{\s*(name|tier|months)\s*\}\}/gi, (_match, variable: string) =>
+    String(context[variable.toLowerCase() as keyof ReplyTemplateContext])
+  );
+}
+
+export function monthsBetween(start: Date, end: Date): number {
+  const months =
+    (end.getFullYear() - start.getFullYear()) * 12 +
+    (end.getMonth() - start.getMonth()) -
+    (end.getDate() < start.getDate() ? 1 : 0);
+
+  return Math.max(0, months);
+}
+
+/**
+ * What the template variables fill in as for one fan of this artist. The tier
+ * is their current one, or their last if they've lapsed.
+ */
+export async function getReplyTemplateContext(
+  artistId: string,
+  fanId: string,
+  now: Date = new Date()
+): Promise<ReplyTemplateContext> {
+  const [fan, subscriptions] = await Promise.all([
+    prisma.users.findUnique({
+      where: { id: fanId },
+      select: { displayName: true },
+    }),
+    prisma.subscriptions.findMany({
+      where: { artistId, fanId },
+      select: {
+        status: true,
+        currentPeriodEnd: true,
+        createdAt: true,
+        tiers: { select: { name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  if (!fan) {
+    throw createNotFoundError('Fan not found');
+  }
+
+  const current =
+    subscriptions.find(
+      subscription =>
+        ACCESS_STATUSES.includes(subscription.status) && subscription.currentPeriodEnd >= now
+    ) || subscriptions[subscriptions.length - 1];
+
+  return {
+    name: fan.displayName,
+    tier: current?.tiers.name || 'Free',
+    months: subscriptions.length > 0 ? monthsBetween(subscriptions[0].createdAt, now) : 0,
+  };
+}
+
+export async function listSavedReplies(artistId: string) {
+  return prisma.saved_replies.findMany({
+    where: { artistId },
+    orderBy: [{ useCount: 'desc' }, { title: 'asc' }],
+  });
+}
+
+export async function createSavedReply(artistId: string, input: SavedReplyInput) {
+  const count = await prisma.saved_replies.count({ where: { artistId } });
+
+  if (count >= MAX_SAVED_REPLIES) {
+    throw createValidationError(`You can save up to ${MAX_SAVED_REPLIES} replies`);
+  }
+
+  return prisma.saved_replies.create({
+    data: {
+      id: randomUUID(),
+      artistId,
+      title: input.title,
+      content: input.content,
+      updatedAt: new Date(),
+    },
+  });
+}
+
+export async function updateSavedReply(
+  artistId: string,
+  savedReplyId: string,
+  input: UpdateSavedReplyInput
+) {
+  const { count } = await prisma.saved_replies.updateMany({
+    where: { id: savedReplyId, artistId },
+    data: { ...input, updatedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw createNotFoundError('Saved reply not found');
+  }
+
+  return prisma.saved_replies.findUnique({ where: { id: savedReplyId } });
+}
+
+export async function deleteSavedReply(artistId: string, savedReplyId: string) {
+  const { count } = await prisma.saved_replies.deleteMany({
+    where: { id: savedReplyId, artistId },
+  });
+
+  if (count === 0) {
+    throw createNotFoundError('Saved reply not found');
+  }
+}
+
+/**
+ * A saved reply filled in for one fan, ready to edit and send. Counts as a
+ * use so the artist's most used replies list first.
+ */
+export async function fillSavedReply(artistId: string, savedReplyId: string, fanId: string) {
+  const savedReply = await prisma.saved_replies.findFirst({
+    where: { id: savedReplyId, artistId },
+  });
+
+  if (!savedReply) {
+    throw createNotFoundError('Saved reply not found');
+  }
+
+  const context = await getReplyTemplateContext(artistId, fanId);
+
+  await prisma.saved_replies.update({
+    where: { id: savedReplyId },
+    data: { useCount: { increment: 1 } },
+  });
+
+  return {
+    id: savedReply.id,
+    content: renderReplyTemplate(savedReply.content, context),
+  };
+}
@@ -0,0 +1,245 @@
+import { randomUUID } from 'crypto';
+import { prisma } from './prisma';
+
+// Activity is counted in one-minute windows along the recording
+export const CHAPTER_WINDOW_SECONDS = 60;
+// A window is a spike once it has this many times the stream's average activity
+export const SPIKE_RATIO = 3;
+export const MIN_CHAPTER_GAP_SECONDS = 180;
+export const MAX_CHAPTERS = 12;
+
+export type ChapterKind = 'START' | 'CHAT' | 'TIP' | 'POLL';
+
+// Fewest events in a window before it can count as a spike
+const MIN_SPIKE_EVENTS: Record<Exclude<ChapterKind, 'START'>, number> = {
+  CHAT: 10,
+  TIP: 1,
+  POLL: 5,
+};
+
+export interface StreamActivity {
+  kind: Exclude<ChapterKind, 'START'>;
+  offsetSeconds: number;
+  // Tips weigh by amount, everything else counts once
+  weight: number;
+  label?: string;
+}
+
+export interface ChapterMarker {
+  startSeconds: number;
+  title: string;
+  kind: ChapterKind;
+  score: number;
+}
+
+function getChapterTitle(kind: StreamActivity['kind'], label?: string): string {
+  switch (kind) {
+    case 'TIP':
+      return 'Tip surge';
+    case 'POLL':
+      return label ? `Poll: ${label}` : 'Poll';
+    default:
+      return 'Chat highlight';
+  }
+}
+
+/**
+ * Find the moments where chat, tips or poll voting spiked well above the
+ * stream's average. Each spike becomes a chapter, strongest first, keeping
+ * chapters at least MIN_CHAPTER_GAP_SECONDS apart.
+ */
+export function detectChapterMarkers(
+  activity: StreamActivity[],
+  durationSeconds: number
+): ChapterMarker[] {
+  const windowCount = Math.ceil(durationSeconds / CHAPTER_WINDOW_SECONDS);
+  const candidates: ChapterMarker[] = [];
+
+  if (windowCount > 0) {
+    const kinds = Object.keys(MIN_SPIKE_EVENTS) as StreamActivity['kind'][];
+
+    for (const kind of kinds) {
+      const windows = Array.from({ length: windowCount }, () => ({
+        weight: 0,
+        events: 0,
+        label: undefined as string | undefined,
+      }));
+
+      for (const event of activity) {
+        if (
+          event.kind !== kind ||
+          event.offsetSeconds < 0 ||
+          event.offsetSeconds >= durationSeconds
+        ) {
+          continue;
+        }
+
+        const window = windows[Math.floor(event.offsetSeconds / CHAPTER_WINDOW_SECONDS)];
+        window.weight += event.weight;
+        window.events += 1;
+        window.label = window.label || event.label;
+      }
+
+      const average = windows.reduce((sum, window) => sum + window.weight, 0) / windowCount;
+      if (average === 0) {
+        continue;
+      }
+
+      windows.forEach((window, index) => {
+        const score = window.weight / average;
+        if (score >= SPIKE_RATIO && window.events >= MIN_SPIKE_EVENTS[kind]) {
+          candidates.push({
+            startSeconds: index * CHAPTER_WINDOW_SECONDS,
+            title: getChapterTitle(kind, window.label),
+            kind,
+            score,
+          });
+        }
+      });
+    }
+  }
+
+  const markers: ChapterMarker[] = [
+    { startSeconds: 0, title: 'Stream start', kind: 'START', score: 0 },
+  ];
+
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (markers.length >= MAX_CHAPTERS) {
+      break;
+    }
+
+    const tooClose = markers.some(
+      marker => Math.abs(marker.startSeconds - candidate.startSeconds) < MIN_CHAPTER_GAP_SECONDS
+    );
+    if (!tooClose) {
+      markers.push(candidate);
+    }
+  }
+
+  return markers.sort((a, b) => a.startSeconds - b.startSeconds);
+}
+
+/**
+ * Detect and store chapter markers for a stream recording, replacing any
+ * generated before
+ */
+export async function generateStreamChapters(recordingId: string): Promise<ChapterMarker[]> {
+  const recording = await prisma.stream_recordings.findUnique({
+    where: { id: recordingId },
+    include: {
+      live_streams: {
+        select: { id: true, startedAt: true },
+      },
+    },
+  });
+
+  if (!recording) {
+    throw new Error('Recording not found');
+  }
+
+  const { id: streamId, startedAt } = recording.live_streams;
+  if (!startedAt) {
+    return [];
+  }
+
+  const toOffset = (date: Date) => (date.getTime() - startedAt.getTime()) / 1000;
+
+  const [messages, tips, votes] = await Promise.all([
+    prisma.stream_chat_messages.findMany({
+      where: { streamId, isModerated: false },
+      select: { createdAt: true },
+    }),
+    prisma.stream_tips.findMany({
+      where: { streamId, status: 'COMPLETED' },
+      select: { createdAt: true, amount: true },
+    }),
+    prisma.stream_poll_votes.findMany({
+      where: { stream_polls: { streamId } },
+      select: { createdAt: true, stream_polls: { select: { question: true } } },
+    }),
+  ]);
+
+  const activity: StreamActivity[] = [
+    ...messages.map(message => ({
+      kind: 'CHAT' as const,
+      offsetSeconds: toOffset(message.createdAt),
+      weight: 1,
+    })),
+    ...tips.map(tip => ({
+      kind: 'TIP' as const,
+      offsetSeconds: toOffset(tip.createdAt),
+      weight: Number(tip.amount),
+    })),
+    ...votes.map(vote => ({
+      kind: 'POLL' as const,
+      offsetSeconds: toOffset(vote.createdAt),
+      weight: 1,
+      label: vote.stream_polls.question,
+    })),
+  ];
+
+  const markers = detectChapterMarkers(activity, recording.duration);
+
+  await prisma.$transaction([
+    prisma.stream_chapters.deleteMany({ where: { recordingId } }),
+    prisma.stream_chapters.createMany({
+      data: markers.map(marker => ({
+        id: randomUUID(),
+        recordingId,
+        ...marker,
+      })),
+    }),
+  ]);
+
+  return markers;
+}
+
+export async function getRecordingChapters(recordingId: string): Promise<ChapterMarker[]> {
+  const chapters = await prisma.stream_chapters.findMany({
+    where: { recordingId },
+    orderBy: { startSeconds: 'asc' },
+  });
+
+  return chapters.map(chapter => ({
+    startSeconds: chapter.startSeconds,
+    title: chapter.title,
+    kind: chapter.kind as ChapterKind,
+    score: chapter.score,
+  }));
+}
+
+function formatVttTimestamp(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const millis = Math.round((totalSeconds % 1) * 1000);
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds
+    .toString()
+    .padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+}
+
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Render chapters as a WebVTT chapters track. Each chapter runs until the next
+ * one starts, and the last until the end of the recording.
+ */
+export function toWebVTTChapters(chapters: ChapterMarker[], durationSeconds: number): string {
+  const cues = chapters
+    .filter(chapter => chapter.startSeconds < durationSeconds)
+    .map((chapter, index, visible) => {
+      const end = visible[index + 1]?.startSeconds ?? durationSeconds;
+      return `${index + 1}\n${formatVttTimestamp(chapter.startSeconds)} --> ${formatVttTimestamp(
+        end
+      )}\n${escapeVttText(chapter.title)}`;
+    });
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
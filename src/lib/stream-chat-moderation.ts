@@ -0,0 +1,349 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { createNotFoundError } from './errors';
+import { ACCESS_GRANTING_STATUSES } from './content-access';
+import { CACHE_KEYS, CACHE_TTL, deleteCachedData, getCachedData, setCachedData } from './redis';
+
+export const MAX_SLOW_MODE_SECONDS = 300;
+export const MAX_BANNED_KEYWORDS = 100;
+export const MAX_STREAM_MODERATORS = 20;
+
+const bannedKeywordSchema = z
+  .object({
+    pattern: z.string().trim().min(1).max(100),
+    isRegex: z.boolean().default(false),
+  })
+  .refine(keyword => !keyword.isRegex || compileKeyword(keyword) !== null, {
+    message: 'Invalid regular expression (nested repeats and backreferences are not allowed)',
+    path: ['pattern'],
+  });
+
+export const chatSettingsSchema = z.object({
+  slowModeSeconds: z.number().int().min(0).max(MAX_SLOW_MODE_SECONDS).optional(),
+  subscribersOnly: z.boolean().optional(),
+  // Limit subscriber-only chat to these tiers; null lets any tier chat
+  tierIds: z.array(z.string()).max(20).nullable().optional(),
+  emoteOnly: z.boolean().optional(),
+  bannedKeywords: z.array(bannedKeywordSchema).max(MAX_BANNED_KEYWORDS).optional(),
+  moderatorIds: z.array(z.string()).max(MAX_STREAM_MODERATORS).optional(),
+});
+
+export type ChatSettingsInput = z.infer<typeof chatSettingsSchema>;
+
+export interface BannedKeyword {
+  pattern: string;
+  isRegex: boolean;
+}
+
+export interface StreamChatSettings {
+  slowModeSeconds: number;
+  subscribersOnly: boolean;
+  tierIds: string[] | null;
+  emoteOnly: boolean;
+  bannedKeywords: BannedKeyword[];
+}
+
+// Everything the chat server needs to judge a message, cached per stream
+export interface StreamChatContext {
+  streamId: string;
+  artistId: string;
+  settings: StreamChatSettings;
+  moderatorIds: string[];
+}
+
+export type ChatVerdict = { allowed: true } | { allowed: false; reason: string };
+
+interface StreamChatFields {
+  chatSlowModeSeconds: number;
+  chatSubscribersOnly: boolean;
+  chatTierIds: string | null;
+  chatEmoteOnly: boolean;
+  chatBannedKeywords: string;
+}
+
+const chatContextKey = (streamId: string) => `${CACHE_KEYS.STREAM}${streamId}:chat`;
+
+function parseJsonArray(value: string | null): unknown[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Index of the last character of a group's opening, e.g. the ':' of '(?:'
+function skipGroupPrefix(pattern: string, index: number): number {
+  if (pattern[index + 1] !== '?') return index;
+  const next = pattern[index + 2];
+  if (next === '<' && pattern[index + 3] !== '=' && pattern[index + 3] !== '!') {
+    const end = pattern.indexOf('>', index + 3);
+    return end === -1 ? pattern.length : end;
+  }
+  return next === '<' ? index + 3 : index + 2;
+}
+
+/**
+ * Chat messages are matched on the server, so artist regexes must not be able
+ * to backtrack catastrophically. Repeating a group that itself repeats or
+ * branches, e.g. (a+)+ or (a|aa)*, and backreferences are rejected.
+ */
+function isSafeKeywordPattern(pattern: string): boolean {
+  // Per open group: whether it contains a repeat or an alternation
+  const groups: boolean[] = [];
+  let afterRiskyGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) return false;
+      i++;
+      afterRiskyGroup = false;
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+      afterRiskyGroup = false;
+    } else if (char === '(') {
+      groups.push(false);
+      i = skipGroupPrefix(pattern, i);
+      afterRiskyGroup = false;
+    } else if (char === ')') {
+      const risky = groups.pop() || false;
+      if (risky && groups.length > 0) groups[groups.length - 1] = true;
+      afterRiskyGroup = risky;
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      afterRiskyGroup = false;
+    } else if (
+      char === '*' ||
+      char === '+' ||
+      char === '?' ||
+      /^\{\d+(,\d*)?\}/.test(pattern.slice(i))
+    ) {
+      if (char !== '?' && afterRiskyGroup) return false;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      if (char === '{') i = pattern.indexOf('}', i);
+      afterRiskyGroup = false;
+    } else {
+      afterRiskyGroup = false;
+    }
+  }
+
+  return true;
+}
+
+function compileKeyword(keyword: BannedKeyword): RegExp | null {
+  if (!keyword.isRegex || !isSafeKeywordPattern(keyword.pattern)) return null;
+  try {
+    return new RegExp(keyword.pattern, 'iu');
+  } catch {
+    return null;
+  }
+}
+
+export function toStreamChatSettings(stream: StreamChatFields): StreamChatSettings {
+  const tierIds = parseJsonArray(stream.chatTierIds);
+  const bannedKeywords = (parseJsonArray(stream.chatBannedKeywords) || []).filter(
+    (keyword): keyword is BannedKeyword =>
+      !!keyword && typeof (keyword as BannedKeyword).pattern === 'string'
+  );
+
+  return {
+    slowModeSeconds: stream.chatSlowModeSeconds,
+    subscribersOnly: stream.chatSubscribersOnly,
+    tierIds: tierIds && tierIds.length > 0 ? tierIds.map(String) : null,
+    emoteOnly: stream.chatEmoteOnly,
+    bannedKeywords: bannedKeywords.map(keyword => ({
+      pattern: keyword.pattern,
+      isRegex: !!keyword.isRegex,
+    })),
+  };
+}
+
+export function toStreamChatFields(input: ChatSettingsInput): Partial<StreamChatFields> {
+  const fields: Partial<StreamChatFields> = {};
+
+  if (input.slowModeSeconds !== undefined) fields.chatSlowModeSeconds = input.slowModeSeconds;
+  if (input.subscribersOnly !== undefined) fields.chatSubscribersOnly = input.subscribersOnly;
+  if (input.tierIds !== undefined) {
+    fields.chatTierIds = input.tierIds?.length ? JSON.stringify(input.tierIds) : null;
+  }
+  if (input.emoteOnly !== undefined) fields.chatEmoteOnly = input.emoteOnly;
+  if (input.bannedKeywords !== undefined) {
+    fields.chatBannedKeywords = JSON.stringify(input.bannedKeywords);
+  }
+
+  return fields;
+}
+
+/**
+ * Banned keywords match case-insensitively anywhere in the message. Regex
+ * entries are tested as written; patterns that don't compile or aren't safe to
+ * run are skipped.
+ */
+export function findBannedKeyword(message: string, keywords: BannedKeyword[]): string | null {
+  const lowerMessage = message.toLowerCase();
+
+  for (const keyword of keywords) {
+    if (keyword.isRegex) {
+      if (compileKeyword(keyword)?.test(message)) return keyword.pattern;
+    } else if (lowerMessage.includes(keyword.pattern.toLowerCase())) {
+      return keyword.pattern;
+    }
+  }
+
+  return null;
+}
+
+// Emoji and :named_emotes:, separated by whitespace at most
+const EMOTE_ONLY_PATTERN =
+  /^(?:\s|:[a-z0-9_+-]+:|\p{Extended_Pictographic}|\p{Emoji_Presentation}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200d|\ufe0f|\u20e3)+$/iu;
+
+export function isEmoteOnlyMessage(message: string): boolean {
+  return message.trim().length > 0 && EMOTE_ONLY_PATTERN.test(message);
+}
+
+// Content rules for a message; who may chat and how often is checked separately
+export function evaluateChatMessage(settings: StreamChatSettings, message: string): ChatVerdict {
+  if (settings.emoteOnly && !isEmoteOnlyMessage(message)) {
+    return { allowed: false, reason: 'Chat is in emote-only mode' };
+  }
+
+  if (findBannedKeyword(message, settings.bannedKeywords)) {
+    return { allowed: false, reason: 'Your message contains a blocked word' };
+  }
+
+  return { allowed: true };
+}
+
+export function canModerateStream(userId: string, context: StreamChatContext): boolean {
+  return userId === context.artistId || context.moderatorIds.includes(userId);
+}
+
+export async function isStreamSubscriber(
+  userId: string,
+  artistId: string,
+  tierIds: string[] | null
+): Promise<boolean> {
+  const subscription = await prisma.subscriptions.findFirst({
+    where: {
+      fanId: userId,
+      status: { in: ACCESS_GRANTING_STATUSES },
+      currentPeriodEnd: { gte: new Date() },
+      tiers: { artistId },
+      ...(tierIds && { tierId: { in: tierIds } }),
+    },
+    select: { id: true },
+  });
+
+  return !!subscription;
+}
+
+// Whether this user may post at all under the stream's current chat mode
+export async function checkChatAccess(
+  userId: string,
+  context: StreamChatContext
+): Promise<ChatVerdict> {
+  if (canModerateStream(userId, context) || !context.settings.subscribersOnly) {
+    return { allowed: true };
+  }
+
+  const { tierIds } = context.settings;
+  if (await isStreamSubscriber(userId, context.artistId, tierIds)) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    reason: tierIds ? 'Chat is limited to selected tiers' : 'Chat is limited to subscribers',
+  };
+}
+
+/**
+ * Chat settings and moderators for a stream. Read through a short Redis cache
+ * so every streaming server instance sees changes without a database hit per
+ * message; updates drop the cache.
+ */
+export async function getStreamChatContext(streamId: string): Promise<StreamChatContext | null> {
+  const cached = await getCachedData<StreamChatContext>(chatContextKey(streamId));
+  if (cached) return cached;
+
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    include: {
+      stream_moderators: {
+        select: { userId: true },
+      },
+    },
+  });
+
+  if (!stream) return null;
+
+  const context: StreamChatContext = {
+    streamId: stream.id,
+    artistId: stream.artistId,
+    settings: toStreamChatSettings(stream),
+    moderatorIds: stream.stream_moderators.map(moderator => moderator.userId),
+  };
+
+  await setCachedData(chatContextKey(streamId), context, CACHE_TTL.SHORT);
+  return context;
+}
+
+export async function updateStreamChatSettings(
+  streamId: string,
+  artistId: string,
+  input: ChatSettingsInput
+): Promise<StreamChatContext> {
+  const { moderatorIds, ...settings } = chatSettingsSchema.parse(input);
+  const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+  const fields = toStreamChatFields(settings);
+  if (Object.keys(fields).length > 0) {
+    operations.push(
+      prisma.live_streams.update({
+        where: { id: streamId },
+        data: { ...fields, updatedAt: new Date() },
+      })
+    );
+  }
+
+  // The moderator list is replaced wholesale; the artist can always moderate
+  if (moderatorIds !== undefined) {
+    const userIds = Array.from(new Set(moderatorIds)).filter(userId => userId !== artistId);
+
+    operations.push(
+      prisma.stream_moderators.deleteMany({
+        where: { streamId, userId: { notIn: userIds } },
+      }),
+      prisma.stream_moderators.createMany({
+        data: userIds.map(userId => ({
+          id: randomUUID(),
+          streamId,
+          userId,
+          addedBy: artistId,
+          createdAt: new Date(),
+        })),
+        skipDuplicates: true,
+      })
+    );
+  }
+
+  if (operations.length > 0) {
+    await prisma.$transaction(operations);
+  }
+
+  await deleteCachedData(chatContextKey(streamId));
+
+  const context = await getStreamChatContext(streamId);
+  if (!context) {
+    throw createNotFoundError('Stream not found');
+  }
+
+  return context;
+}
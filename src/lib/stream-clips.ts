@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { transcodingPipeline } from './media-processing/transcoding-pipeline';
+import { ACCESS_GRANTING_STATUSES } from './content-access';
+import { createConflictError, createNotFoundError, createValidationError } from './errors';
+
+export const CLIP_MIN_SECONDS = 15;
+export const CLIP_MAX_SECONDS = 60;
+
+export const createClipSchema = z
+  .object({
+    recordingId: z.string(),
+    startSeconds: z.number().min(0),
+    endSeconds: z.number().positive(),
+    title: z.string().trim().min(1, 'Title is required').max(200),
+    description: z.string().trim().max(1000).optional(),
+  })
+  .refine(data => data.endSeconds - data.startSeconds >= CLIP_MIN_SECONDS, {
+    message: `Clips must be at least ${CLIP_MIN_SECONDS} seconds`,
+    path: ['endSeconds'],
+  })
+  .refine(data => data.endSeconds - data.startSeconds <= CLIP_MAX_SECONDS, {
+    message: `Clips can be at most ${CLIP_MAX_SECONDS} seconds`,
+    path: ['endSeconds'],
+  });
+
+export type CreateClipInput = z.infer<typeof createClipSchema>;
+
+interface ClippableStream {
+  id: string;
+  artistId: string;
+  isPublic: boolean;
+  tierIds: string;
+}
+
+/**
+ * Tiers gating a stream. Streams with none are open to every signed-in fan.
+ */
+export function getStreamTierIds(stream: Pick<ClippableStream, 'isPublic' | 'tierIds'>): string[] {
+  if (stream.isPublic) {
+    return [];
+  }
+
+  try {
+    const tierIds = JSON.parse(stream.tierIds);
+    return Array.isArray(tierIds) ? tierIds : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The artist can clip their own streams; fans can clip streams they could watch
+ */
+export async function canClipStream(userId: string, stream: ClippableStream): Promise<boolean> {
+  if (stream.artistId === userId) {
+    return true;
+  }
+
+  const tierIds = getStreamTierIds(stream);
+  if (tierIds.length === 0) {
+    return true;
+  }
+
+  const subscription = await prisma.subscriptions.findFirst({
+    where: {
+      fanId: userId,
+      tierId: { in: tierIds },
+      status: { in: ACCESS_GRANTING_STATUSES },
+      currentPeriodEnd: { gte: new Date() },
+    },
+    select: { id: true },
+  });
+
+  return !!subscription;
+}
+
+/**
+ * Cut a clip from a stream recording into a new content item on the artist's profile.
+ * The content stays hidden while the transcoding pipeline trims it and gets the
+ * same tier gating as the stream.
+ */
+export async function createStreamClip(
+  stream: ClippableStream,
+  userId: string,
+  input: CreateClipInput
+) {
+  const recording = await prisma.stream_recordings.findFirst({
+    where: { id: input.recordingId, streamId: stream.id },
+  });
+
+  if (!recording) {
+    throw createNotFoundError('Recording not found');
+  }
+
+  if (recording.status === 'PROCESSING') {
+    throw createConflictError('Recording is still processing');
+  }
+
+  if (input.endSeconds > recording.duration) {
+    throw createValidationError('Clip extends past the end of the recording');
+  }
+
+  const tierIds = getStreamTierIds(stream);
+  const now = new Date();
+
+  const content = await prisma.content.create({
+    data: {
+      id: randomUUID(),
+      artistId: stream.artistId,
+      title: input.title,
+      description: input.description || null,
+      type: 'VIDEO',
+      fileUrl: '',
+      thumbnailUrl: recording.thumbnailUrl,
+      visibility: tierIds.length > 0 ? 'TIER_LOCKED' : 'PUBLIC',
+      fileSize: 0,
+      duration: Math.round(input.endSeconds - input.startSeconds),
+      format: 'mp4',
+      tags: JSON.stringify(['clip']),
+      status: 'PROCESSING',
+      updatedAt: now,
+      ...(tierIds.length > 0 && {
+        tiers: { connect: tierIds.map(id => ({ id })) },
+      }),
+    },
+  });
+
+  const clipId = randomUUID();
+  await prisma.stream_clips.create({
+    data: {
+      id: clipId,
+      streamId: stream.id,
+      recordingId: recording.id,
+      contentId: content.id,
+      createdById: userId,
+      startSeconds: input.startSeconds,
+      endSeconds: input.endSeconds,
+    },
+  });
+
+  let jobId: string;
+  try {
+    jobId = await transcodingPipeline.queueClipJob(content.id, userId, recording.videoUrl, {
+      startSeconds: input.startSeconds,
+      endSeconds: input.endSeconds,
+    });
+  } catch (error) {
+    // Removing the content cascades to the clip
+    await prisma.content.delete({ where: { id: content.id } });
+    throw error;
+  }
+
+  await prisma.stream_clips.update({
+    where: { id: clipId },
+    data: { jobId },
+  });
+
+  return {
+    id: clipId,
+    contentId: content.id,
+    jobId,
+    status: content.status,
+    visibility: content.visibility,
+    startSeconds: input.startSeconds,
+    endSeconds: input.endSeconds,
+  };
+}
+
+/**
+ * Clips cut from a stream, newest first. Only the artist sees clips still processing.
+ */
+export async function getStreamClips(stream: ClippableStream, userId: string) {
+  const clips = await prisma.stream_clips.findMany({
+    where: {
+      streamId: stream.id,
+      ...(stream.artistId !== userId && { content: { status: 'PUBLISHED' } }),
+    },
+    include: {
+      content: {
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          thumbnailUrl: true,
+          duration: true,
+          visibility: true,
+          status: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return clips.map(clip => ({
+    id: clip.id,
+    recordingId: clip.recordingId,
+    startSeconds: clip.startSeconds,
+    endSeconds: clip.endSeconds,
+    createdById: clip.createdById,
+    createdAt: clip.createdAt,
+    content: clip.content,
+  }));
+}
@@ -0,0 +1,271 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { createConflictError, createNotFoundError, createValidationError } from './errors';
+
+export const MAX_POLL_OPTIONS = 6;
+
+export const createPollSchema = z.object({
+  question: z.string().trim().min(1, 'Question is required').max(200),
+  options: z
+    .array(z.string().trim().min(1).max(100))
+    .min(2, 'A poll needs at least two options')
+    .max(MAX_POLL_OPTIONS, `A poll can have at most ${MAX_POLL_OPTIONS} options`)
+    .refine(
+      options => new Set(options.map(option => option.toLowerCase())).size === options.length,
+      {
+        message: 'Options must be unique',
+      }
+    ),
+  allowMultiple: z.boolean().default(false),
+});
+
+export type CreatePollInput = z.infer<typeof createPollSchema>;
+
+export interface PollResults {
+  pollId: string;
+  streamId: string;
+  question: string;
+  allowMultiple: boolean;
+  isActive: boolean;
+  options: Array<{ text: string; votes: number; percentage: number }>;
+  totalVotes: number;
+  // Fans who voted at all; differs from totalVotes on multiple-choice polls
+  totalVoters: number;
+  createdAt: Date;
+  endedAt: Date | null;
+}
+
+interface PollRecord {
+  id: string;
+  streamId: string;
+  question: string;
+  options: string;
+  isActive: boolean;
+  allowMultiple: boolean;
+  createdAt: Date;
+  endedAt: Date | null;
+}
+
+// Options are stored as a JSON array of labels
+export function parsePollOptions(options: string): string[] {
+  try {
+    const parsed = JSON.parse(options);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function tallyPollVotes(
+  poll: PollRecord,
+  votes: Array<{ optionIndex: number; sessionId: string }>
+): PollResults {
+  const labels = parsePollOptions(poll.options);
+  const counts = labels.map(() => 0);
+
+  for (const vote of votes) {
+    if (vote.optionIndex >= 0 && vote.optionIndex < counts.length) {
+      counts[vote.optionIndex]++;
+    }
+  }
+
+  const totalVotes = counts.reduce((sum, count) => sum + count, 0);
+
+  return {
+    pollId: poll.id,
+    streamId: poll.streamId,
+    question: poll.question,
+    allowMultiple: poll.allowMultiple,
+    isActive: poll.isActive,
+    options: labels.map((text, index) => ({
+      text,
+      votes: counts[index],
+      percentage: totalVotes > 0 ? Math.round((counts[index] / totalVotes) * 100) : 0,
+    })),
+    totalVotes,
+    totalVoters: new Set(votes.map(vote => vote.sessionId)).size,
+    createdAt: poll.createdAt,
+    endedAt: poll.endedAt,
+  };
+}
+
+async function loadPollResults(pollId: string): Promise<PollResults> {
+  const poll = await prisma.stream_polls.findUnique({
+    where: { id: pollId },
+    include: {
+      stream_poll_votes: {
+        select: { optionIndex: true, sessionId: true },
+      },
+    },
+  });
+
+  if (!poll) {
+    throw createNotFoundError('Poll not found');
+  }
+
+  return tallyPollVotes(poll, poll.stream_poll_votes);
+}
+
+/**
+ * Open a poll on a live stream. Only one poll runs at a time, so any poll
+ * still open on the stream is closed first.
+ */
+export async function createStreamPoll(
+  streamId: string,
+  input: CreatePollInput
+): Promise<PollResults> {
+  const { question, options, allowMultiple } = createPollSchema.parse(input);
+  const now = new Date();
+
+  const [, poll] = await prisma.$transaction([
+    prisma.stream_polls.updateMany({
+      where: { streamId, isActive: true },
+      data: { isActive: false, endedAt: now },
+    }),
+    prisma.stream_polls.create({
+      data: {
+        id: randomUUID(),
+        streamId,
+        question,
+        options: JSON.stringify(options),
+        allowMultiple,
+        isActive: true,
+        createdAt: now,
+      },
+    }),
+  ]);
+
+  return tallyPollVotes(poll, []);
+}
+
+/**
+ * Record a fan's vote. Single-choice polls take exactly one option and one
+ * vote per fan; multiple-choice polls let fans add options until the poll
+ * closes, ignoring options they already picked.
+ */
+export async function castPollVote(params: {
+  streamId: string;
+  pollId: string;
+  voterId: string | null;
+  sessionId: string;
+  optionIndexes: number[];
+}): Promise<PollResults> {
+  const { streamId, pollId, voterId, sessionId } = params;
+  const optionIndexes = Array.from(new Set(params.optionIndexes));
+
+  const poll = await prisma.stream_polls.findUnique({
+    where: { id: pollId },
+  });
+
+  if (!poll || poll.streamId !== streamId) {
+    throw createNotFoundError('Poll not found');
+  }
+
+  if (!poll.isActive) {
+    throw createValidationError('This poll has closed');
+  }
+
+  const optionCount = parsePollOptions(poll.options).length;
+  if (
+    optionIndexes.length === 0 ||
+    optionIndexes.some(index => !Number.isInteger(index) || index < 0 || index >= optionCount)
+  ) {
+    throw createValidationError('Invalid poll option');
+  }
+
+  if (!poll.allowMultiple && optionIndexes.length > 1) {
+    throw createValidationError('This poll only allows one choice');
+  }
+
+  const now = new Date();
+  await prisma.$transaction(async tx => {
+    if (!poll.allowMultiple) {
+      await lockPoll(tx, pollId);
+
+      const existingVote = await tx.stream_poll_votes.findFirst({
+        where: { pollId, sessionId },
+      });
+
+      if (existingVote) {
+        throw createConflictError('You have already voted in this poll');
+      }
+    }
+
+    await tx.stream_poll_votes.createMany({
+      data: optionIndexes.map(optionIndex => ({
+        id: randomUUID(),
+        pollId,
+        voterId,
+        sessionId,
+        optionIndex,
+        createdAt: now,
+      })),
+      skipDuplicates: true,
+    });
+  });
+
+  return loadPollResults(pollId);
+}
+
+/**
+ * Lock the poll row so two votes from the same fan on a single-choice poll
+ * can't both pass the already-voted check
+ */
+async function lockPoll(tx: Prisma.TransactionClient, pollId: string): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "stream_polls" WHERE "id" = ${pollId} FOR UPDATE`;
+}
+
+export async function closeStreamPoll(streamId: string, pollId: string): Promise<PollResults> {
+  const result = await prisma.stream_polls.updateMany({
+    where: { id: pollId, streamId, isActive: true },
+    data: { isActive: false, endedAt: new Date() },
+  });
+
+  const results = await loadPollResults(pollId);
+  if (result.count === 0 && results.streamId !== streamId) {
+    throw createNotFoundError('Poll not found');
+  }
+
+  return results;
+}
+
+// Close whatever poll is still open when the stream ends
+export async function closeStreamPolls(streamId: string): Promise<number> {
+  const result = await prisma.stream_polls.updateMany({
+    where: { streamId, isActive: true },
+    data: { isActive: false, endedAt: new Date() },
+  });
+
+  return result.count;
+}
+
+export async function getActiveStreamPoll(streamId: string): Promise<PollResults | null> {
+  const poll = await prisma.stream_polls.findFirst({
+    where: { streamId, isActive: true },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      stream_poll_votes: {
+        select: { optionIndex: true, sessionId: true },
+      },
+    },
+  });
+
+  return poll ? tallyPollVotes(poll, poll.stream_poll_votes) : null;
+}
+
+// Final results of every poll run on a stream, oldest first
+export async function getStreamPollResults(streamId: string): Promise<PollResults[]> {
+  const polls = await prisma.stream_polls.findMany({
+    where: { streamId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      stream_poll_votes: {
+        select: { optionIndex: true, sessionId: true },
+      },
+    },
+  });
+
+  return polls.map(poll => tallyPollVotes(poll, poll.stream_poll_votes));
+}
@@ -0,0 +1,431 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { createForbiddenError, createNotFoundError, createValidationError } from './errors';
+import { ACCESS_GRANTING_STATUSES } from './content-access';
+import { sendNotification, NotificationChannel } from './notifications';
+
+// Minutes before the start; 0 is a "we're live" nudge at the scheduled time
+export const DEFAULT_REMINDER_OFFSETS = [1440, 60, 10];
+export const MAX_REMINDER_OFFSET = 7 * 24 * 60;
+export const REMINDER_CHANNELS = ['email', 'in_app', 'push'] as const;
+
+// Reminders still pending this long after the scheduled start are dropped
+const REMINDER_GRACE_MINUTES = 15;
+// Calendar events for streams without a known length
+const DEFAULT_STREAM_DURATION_MINUTES = 60;
+// Streams that started up to this long ago stay in the calendar feed
+const CALENDAR_LOOKBACK_HOURS = 24;
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export const rsvpSchema = z.object({
+  reminderOffsets: z.array(z.number().int().min(0).max(MAX_REMINDER_OFFSET)).max(5).optional(),
+  channels: z.array(z.enum(REMINDER_CHANNELS)).min(1).optional(),
+});
+
+export type RsvpInput = z.infer<typeof rsvpSchema>;
+
+export interface StreamRsvpView {
+  streamId: string;
+  reminderOffsets: number[];
+  channels: ReminderChannel[];
+}
+
+export interface UpcomingStream {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  scheduledAt: Date;
+  requiresPayment: boolean;
+  rsvp: StreamRsvpView | null;
+}
+
+interface TierGatedStream {
+  isPublic: boolean;
+  tierIds: string;
+}
+
+interface RsvpRecord {
+  streamId: string;
+  reminderOffsets: string;
+  channels: string;
+}
+
+function parseJsonArray<T>(value: string | null, fallback: T[]): T[] {
+  if (!value) return fallback;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function toStreamRsvpView(rsvp: RsvpRecord): StreamRsvpView {
+  return {
+    streamId: rsvp.streamId,
+    reminderOffsets: parseJsonArray(rsvp.reminderOffsets, DEFAULT_REMINDER_OFFSETS),
+    channels: parseJsonArray<ReminderChannel>(rsvp.channels, [...REMINDER_CHANNELS]),
+  };
+}
+
+/**
+ * Public streams and streams without tiers are open to everyone; otherwise the
+ * fan needs one of the stream's tiers
+ */
+export function isStreamOpenToTiers(stream: TierGatedStream, fanTierIds: Set<string>): boolean {
+  if (stream.isPublic) return true;
+
+  const tierIds = parseJsonArray<string>(stream.tierIds, []);
+  return tierIds.length === 0 || tierIds.some(tierId => fanTierIds.has(tierId));
+}
+
+async function getFanTierIds(fanId: string, artistId: string): Promise<Set<string>> {
+  const subscriptions = await prisma.subscriptions.findMany({
+    where: {
+      fanId,
+      status: { in: ACCESS_GRANTING_STATUSES },
+      tiers: { artistId },
+    },
+    select: { tierId: true },
+  });
+
+  return new Set(subscriptions.map(subscription => subscription.tierId));
+}
+
+/**
+ * Which reminders are due. Every due offset is marked as handled, but only the
+ * one closest to the start is sent so a late RSVP doesn't get a burst of stale
+ * reminders. Past the grace period nothing is sent at all.
+ */
+export function getDueReminderOffsets(
+  scheduledAt: Date,
+  offsets: number[],
+  sent: number[],
+  now: Date = new Date()
+): { send: number | null; due: number[] } {
+  const due = offsets.filter(
+    offset => !sent.includes(offset) && scheduledAt.getTime() - offset * 60 * 1000 <= now.getTime()
+  );
+
+  if (due.length === 0) return { send: null, due };
+
+  const isStale = now.getTime() > scheduledAt.getTime() + REMINDER_GRACE_MINUTES * 60 * 1000;
+  return { send: isStale ? null : Math.min(...due), due };
+}
+
+export function formatReminderLead(offset: number): string {
+  if (offset === 0) return 'now';
+  if (offset < 60) return `in ${offset} minute${offset === 1 ? '' : 's'}`;
+  if (offset < 1440) {
+    const hours = Math.round(offset / 60);
+    return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  const days = Math.round(offset / 1440);
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+export async function getStreamRsvp(
+  streamId: string,
+  fanId: string
+): Promise<StreamRsvpView | null> {
+  const rsvp = await prisma.stream_rsvps.findUnique({
+    where: { streamId_fanId: { streamId, fanId } },
+  });
+
+  return rsvp ? toStreamRsvpView(rsvp) : null;
+}
+
+export async function rsvpToStream(
+  streamId: string,
+  fanId: string,
+  input: RsvpInput = {}
+): Promise<StreamRsvpView> {
+  const data = rsvpSchema.parse(input);
+
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: {
+      id: true,
+      artistId: true,
+      status: true,
+      scheduledAt: true,
+      isPublic: true,
+      tierIds: true,
+    },
+  });
+
+  if (!stream) {
+    throw createNotFoundError('Stream not found');
+  }
+
+  if (stream.status !== 'SCHEDULED' || !stream.scheduledAt || stream.scheduledAt <= new Date()) {
+    throw createValidationError('Only upcoming scheduled streams take RSVPs');
+  }
+
+  if (!isStreamOpenToTiers(stream, await getFanTierIds(fanId, stream.artistId))) {
+    throw createForbiddenError("This stream isn't open to your tier");
+  }
+
+  const reminderOffsets = JSON.stringify(
+    Array.from(new Set(data.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS)).sort((a, b) => b - a)
+  );
+  const channels = JSON.stringify(data.channels ?? REMINDER_CHANNELS);
+
+  const rsvp = await prisma.stream_rsvps.upsert({
+    where: { streamId_fanId: { streamId, fanId } },
+    create: {
+      id: randomUUID(),
+      streamId,
+      fanId,
+      reminderOffsets,
+      channels,
+      updatedAt: new Date(),
+    },
+    update: { reminderOffsets, channels, updatedAt: new Date() },
+  });
+
+  return toStreamRsvpView(rsvp);
+}
+
+export async function cancelRsvp(streamId: string, fanId: string): Promise<void> {
+  await prisma.stream_rsvps.deleteMany({ where: { streamId, fanId } });
+}
+
+// A rescheduled stream sends its reminders again for the new time
+export async function resetStreamReminders(streamId: string): Promise<void> {
+  await prisma.stream_rsvps.updateMany({
+    where: { streamId },
+    data: { remindersSent: '[]', updatedAt: new Date() },
+  });
+}
+
+/**
+ * Send due reminders for scheduled streams. Invoked from the cron health
+ * entrypoint; returns how many reminders went out.
+ */
+export async function sendStreamReminders(now: Date = new Date()): Promise<number> {
+  const rsvps = await prisma.stream_rsvps.findMany({
+    where: {
+      live_streams: {
+        status: 'SCHEDULED',
+        scheduledAt: {
+          gte: new Date(now.getTime() - REMINDER_GRACE_MINUTES * 60 * 1000),
+          lte: new Date(now.getTime() + MAX_REMINDER_OFFSET * 60 * 1000),
+        },
+      },
+    },
+    include: {
+      live_streams: {
+        select: {
+          id: true,
+          title: true,
+          scheduledAt: true,
+          users: { select: { displayName: true } },
+        },
+      },
+    },
+  });
+
+  let sent = 0;
+
+  for (const rsvp of rsvps) {
+    const stream = rsvp.live_streams;
+    if (!stream.scheduledAt) continue;
+
+    const alreadySent = parseJsonArray<number>(rsvp.remindersSent, []);
+    const { send, due } = getDueReminderOffsets(
+      stream.scheduledAt,
+      toStreamRsvpView(rsvp).reminderOffsets,
+      alreadySent,
+      now
+    );
+
+    if (due.length === 0) continue;
+
+    // Guard against another instance sending the same reminder concurrently
+    const { count } = await prisma.stream_rsvps.updateMany({
+      where: { id: rsvp.id, remindersSent: rsvp.remindersSent },
+      data: { remindersSent: JSON.stringify([...alreadySent, ...due]), updatedAt: now },
+    });
+
+    if (count === 0 || send === null) continue;
+    sent++;
+
+    const lead = formatReminderLead(send);
+    sendNotification({
+      userId: rsvp.fanId,
+      type: 'stream_reminder',
+      title: send === 0 ? `${stream.users.displayName} is going live` : `Live stream ${lead}`,
+      message: `"${stream.title}" by ${stream.users.displayName} starts ${lead}.`,
+      data: { streamId: stream.id, scheduledAt: stream.scheduledAt.toISOString() },
+      channels: toStreamRsvpView(rsvp).channels as NotificationChannel[],
+      priority: send <= 10 ? 'high' : 'medium',
+    }).catch(error =>
+      logger.error('Failed to send stream reminder', { streamId: stream.id }, error as Error)
+    );
+  }
+
+  return sent;
+}
+
+/**
+ * An artist's upcoming streams that the fan's tiers can access, with the
+ * fan's RSVP on each
+ */
+export async function getUpcomingStreamsForFan(
+  artistId: string,
+  fanId: string,
+  now: Date = new Date()
+): Promise<UpcomingStream[]> {
+  const [streams, fanTierIds] = await Promise.all([
+    prisma.live_streams.findMany({
+      where: {
+        artistId,
+        status: { in: ['SCHEDULED', 'LIVE'] },
+        scheduledAt: { gte: new Date(now.getTime() - CALENDAR_LOOKBACK_HOURS * 60 * 60 * 1000) },
+      },
+      orderBy: { scheduledAt: 'asc' },
+      take: 100,
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        status: true,
+        scheduledAt: true,
+        isPublic: true,
+        tierIds: true,
+        requiresPayment: true,
+        stream_rsvps: { where: { fanId } },
+      },
+    }),
+    getFanTierIds(fanId, artistId),
+  ]);
+
+  return streams
+    .filter(stream => stream.scheduledAt && isStreamOpenToTiers(stream, fanTierIds))
+    .map(stream => ({
+      id: stream.id,
+      title: stream.title,
+      description: stream.description,
+      status: stream.status,
+      scheduledAt: stream.scheduledAt as Date,
+      requiresPayment: stream.requiresPayment,
+      rsvp: stream.stream_rsvps[0] ? toStreamRsvpView(stream.stream_rsvps[0]) : null,
+    }));
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+// RFC 5545 caps content lines at 75 octets; longer ones continue after CRLF + space
+function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+
+  for (const char of Array.from(line)) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+export function buildStreamCalendar(
+  artist: { id: string; displayName: string },
+  streams: Array<Pick<UpcomingStream, 'id' | 'title' | 'description' | 'scheduledAt'>>,
+  baseUrl: string,
+  now: Date = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DirectFanz//Live Streams//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(`${artist.displayName} live streams`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const stream of streams) {
+    const endsAt = new Date(
+      stream.scheduledAt.getTime() + DEFAULT_STREAM_DURATION_MINUTES * 60 * 1000
+    );
+    const url = `${baseUrl}/stream/${stream.id}`;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:stream-${stream.id}@directfanz`,
+      `DTSTAMP:${formatIcsDate(now)}`,
+      `DTSTART:${formatIcsDate(stream.scheduledAt)}`,
+      `DTEND:${formatIcsDate(endsAt)}`,
+      `SUMMARY:${escapeIcsText(`${artist.displayName}: ${stream.title}`)}`,
+      `DESCRIPTION:${escapeIcsText([stream.description, url].filter(Boolean).join('\n\n'))}`,
+      `URL:${url}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Calendar apps subscribe without logging in, so a fan's feeds are
+ * authenticated by a secret in the URL. Rotating it cuts off old links.
+ */
+export async function getCalendarToken(userId: string, rotate = false): Promise<string> {
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { calendarToken: true },
+  });
+
+  if (!user) {
+    throw createNotFoundError('User not found');
+  }
+
+  if (user.calendarToken && !rotate) {
+    return user.calendarToken;
+  }
+
+  const calendarToken = randomBytes(24).toString('hex');
+  await prisma.users.update({
+    where: { id: userId },
+    data: { calendarToken, updatedAt: new Date() },
+  });
+
+  return calendarToken;
+}
+
+export async function findUserByCalendarToken(
+  calendarToken: string
+): Promise<{ id: string } | null> {
+  if (!calendarToken) return null;
+
+  return prisma.users.findUnique({
+    where: { calendarToken },
+    select: { id: true },
+  });
+}
@@ -0,0 +1,286 @@
+import { prisma } from './prisma';
+import { ACCESS_GRANTING_STATUSES } from './content-access';
+import { SPIKE_RATIO } from './stream-chapters';
+
+// Curves are plotted in one-minute buckets from the moment the stream started
+export const RETENTION_BUCKET_SECONDS = 60;
+// Fewest joins or leaves in a minute before it can count as a spike
+const MIN_SPIKE_VIEWERS = 5;
+
+export const ANONYMOUS_SEGMENT = 'Anonymous';
+export const NON_SUBSCRIBER_SEGMENT = 'Signed in, no tier';
+
+export interface ViewerSession {
+  viewerId: string | null;
+  isAnonymous: boolean;
+  joinedAt: Date;
+  leftAt: Date | null;
+  watchTime: number;
+}
+
+export interface ConcurrencyPoint {
+  minute: number;
+  viewers: number;
+  joins: number;
+  leaves: number;
+  chatMessages: number;
+  tipAmount: number;
+}
+
+export interface RetentionPoint {
+  minute: number;
+  // Share of the audience that watched at least this many minutes
+  percentage: number;
+}
+
+export interface WatchTimeSegment {
+  segment: string;
+  viewers: number;
+  averageWatchSeconds: number;
+}
+
+export interface AudienceSpike {
+  minute: number;
+  kind: 'JOIN' | 'LEAVE';
+  viewers: number;
+  chatMessages: number;
+  tipAmount: number;
+}
+
+export interface StreamRetentionAnalytics {
+  streamId: string;
+  bucketSeconds: number;
+  durationSeconds: number;
+  uniqueViewers: number;
+  averageWatchSeconds: number;
+  concurrency: ConcurrencyPoint[];
+  retention: RetentionPoint[];
+  watchTimeBySegment: WatchTimeSegment[];
+  spikes: AudienceSpike[];
+}
+
+// Sessions still open count up to the end of the stream (or now while live)
+function getSessionEnd(session: ViewerSession, streamEnd: Date): Date {
+  return session.leftAt && session.leftAt < streamEnd ? session.leftAt : streamEnd;
+}
+
+export function getWatchSeconds(session: ViewerSession, streamEnd: Date): number {
+  if (session.watchTime > 0) return session.watchTime;
+
+  const seconds = (getSessionEnd(session, streamEnd).getTime() - session.joinedAt.getTime()) / 1000;
+  return Math.max(0, Math.round(seconds));
+}
+
+/**
+ * Viewers watching during each minute of the stream, with joins, leaves, chat
+ * and tips that landed in the same minute so dips and surges can be explained.
+ */
+export function buildConcurrencyCurve(
+  sessions: ViewerSession[],
+  startedAt: Date,
+  endedAt: Date,
+  activity: { chat: Date[]; tips: Array<{ createdAt: Date; amount: number }> } = {
+    chat: [],
+    tips: [],
+  }
+): ConcurrencyPoint[] {
+  const durationSeconds = Math.max(0, (endedAt.getTime() - startedAt.getTime()) / 1000);
+  const bucketCount = Math.ceil(durationSeconds / RETENTION_BUCKET_SECONDS);
+  const points: ConcurrencyPoint[] = Array.from({ length: bucketCount }, (_, minute) => ({
+    minute,
+    viewers: 0,
+    joins: 0,
+    leaves: 0,
+    chatMessages: 0,
+    tipAmount: 0,
+  }));
+
+  const toBucket = (date: Date) =>
+    Math.floor((date.getTime() - startedAt.getTime()) / 1000 / RETENTION_BUCKET_SECONDS);
+  const inRange = (bucket: number) => bucket >= 0 && bucket < bucketCount;
+
+  for (const session of sessions) {
+    const first = Math.max(0, toBucket(session.joinedAt));
+    const sessionEnd = getSessionEnd(session, endedAt);
+    const last = Math.min(bucketCount - 1, toBucket(new Date(sessionEnd.getTime() - 1)));
+
+    for (let bucket = first; bucket <= last; bucket++) {
+      points[bucket].viewers++;
+    }
+
+    const joinBucket = toBucket(session.joinedAt);
+    if (inRange(joinBucket)) points[joinBucket].joins++;
+
+    if (session.leftAt && session.leftAt < endedAt) {
+      const leaveBucket = toBucket(session.leftAt);
+      if (inRange(leaveBucket)) points[leaveBucket].leaves++;
+    }
+  }
+
+  for (const createdAt of activity.chat) {
+    const bucket = toBucket(createdAt);
+    if (inRange(bucket)) points[bucket].chatMessages++;
+  }
+
+  for (const tip of activity.tips) {
+    const bucket = toBucket(tip.createdAt);
+    if (inRange(bucket)) points[bucket].tipAmount += tip.amount;
+  }
+
+  return points;
+}
+
+/**
+ * Audience retention: for each minute mark, the share of viewers whose
+ * session lasted at least that long
+ */
+export function buildRetentionCurve(watchSeconds: number[]): RetentionPoint[] {
+  if (watchSeconds.length === 0) return [];
+
+  const longest = watchSeconds.reduce((max, seconds) => Math.max(max, seconds), 0);
+  const minutes = Math.ceil(longest / RETENTION_BUCKET_SECONDS);
+
+  return Array.from({ length: minutes + 1 }, (_, minute) => {
+    const threshold = minute * RETENTION_BUCKET_SECONDS;
+    const retained = watchSeconds.filter(seconds => seconds >= threshold).length;
+
+    return {
+      minute,
+      percentage: Math.round((retained / watchSeconds.length) * 1000) / 10,
+    };
+  });
+}
+
+export function averageWatchTimeBySegment(
+  sessions: Array<{ segment: string; watchSeconds: number }>
+): WatchTimeSegment[] {
+  const segments = new Map<string, { viewers: number; total: number }>();
+
+  for (const session of sessions) {
+    const entry = segments.get(session.segment) || { viewers: 0, total: 0 };
+    entry.viewers++;
+    entry.total += session.watchSeconds;
+    segments.set(session.segment, entry);
+  }
+
+  return Array.from(segments.entries())
+    .map(([segment, { viewers, total }]) => ({
+      segment,
+      viewers,
+      averageWatchSeconds: Math.round(total / viewers),
+    }))
+    .sort((a, b) => b.viewers - a.viewers);
+}
+
+/**
+ * Minutes where joins or leaves ran well above the stream's average, using
+ * the same spike ratio as chapter detection
+ */
+export function detectAudienceSpikes(points: ConcurrencyPoint[]): AudienceSpike[] {
+  if (points.length === 0) return [];
+
+  const spikes: AudienceSpike[] = [];
+
+  for (const kind of ['JOIN', 'LEAVE'] as const) {
+    const counts = points.map(point => (kind === 'JOIN' ? point.joins : point.leaves));
+    const average = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+
+    points.forEach((point, index) => {
+      const count = counts[index];
+      if (count >= MIN_SPIKE_VIEWERS && count >= average * SPIKE_RATIO) {
+        spikes.push({
+          minute: point.minute,
+          kind,
+          viewers: count,
+          chatMessages: point.chatMessages,
+          tipAmount: point.tipAmount,
+        });
+      }
+    });
+  }
+
+  return spikes.sort((a, b) => a.minute - b.minute);
+}
+
+export async function getStreamRetentionAnalytics(
+  streamId: string
+): Promise<StreamRetentionAnalytics | null> {
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: { id: true, artistId: true, startedAt: true, endedAt: true },
+  });
+
+  if (!stream?.startedAt) return null;
+
+  const startedAt = stream.startedAt;
+  const endedAt = stream.endedAt || new Date();
+
+  const [sessions, messages, tips] = await Promise.all([
+    prisma.stream_viewers.findMany({
+      where: { streamId },
+      select: {
+        sessionId: true,
+        viewerId: true,
+        isAnonymous: true,
+        joinedAt: true,
+        leftAt: true,
+        watchTime: true,
+      },
+    }),
+    prisma.stream_chat_messages.findMany({
+      where: { streamId, isModerated: false },
+      select: { createdAt: true },
+    }),
+    prisma.stream_tips.findMany({
+      where: { streamId, status: 'COMPLETED' },
+      select: { createdAt: true, amount: true },
+    }),
+  ]);
+
+  // Signed-in viewers are grouped by the tier they hold with this artist
+  const viewerIds = Array.from(
+    new Set(sessions.filter(s => !s.isAnonymous && s.viewerId).map(s => s.viewerId as string))
+  );
+  const subscriptions =
+    viewerIds.length > 0
+      ? await prisma.subscriptions.findMany({
+          where: {
+            fanId: { in: viewerIds },
+            status: { in: ACCESS_GRANTING_STATUSES },
+            tiers: { artistId: stream.artistId },
+          },
+          select: { fanId: true, tiers: { select: { name: true } } },
+        })
+      : [];
+  const tierByViewer = new Map(subscriptions.map(sub => [sub.fanId, sub.tiers.name]));
+
+  const watched = sessions.map(session => ({
+    segment:
+      session.isAnonymous || !session.viewerId
+        ? ANONYMOUS_SEGMENT
+        : tierByViewer.get(session.viewerId) || NON_SUBSCRIBER_SEGMENT,
+    watchSeconds: getWatchSeconds(session, endedAt),
+  }));
+  const watchSeconds = watched.map(session => session.watchSeconds);
+
+  const concurrency = buildConcurrencyCurve(sessions, startedAt, endedAt, {
+    chat: messages.map(message => message.createdAt),
+    tips: tips.map(tip => ({ createdAt: tip.createdAt, amount: Number(tip.amount) })),
+  });
+
+  return {
+    streamId,
+    bucketSeconds: RETENTION_BUCKET_SECONDS,
+    durationSeconds: Math.round((endedAt.getTime() - startedAt.getTime()) / 1000),
+    // Anonymous viewers can only be told apart by session
+    uniqueViewers: new Set(sessions.map(s => s.viewerId || s.sessionId)).size,
+    averageWatchSeconds:
+      watchSeconds.length > 0
+        ? Math.round(watchSeconds.reduce((sum, seconds) => sum + seconds, 0) / watchSeconds.length)
+        : 0,
+    concurrency,
+    retention: buildRetentionCurve(watchSeconds),
+    watchTimeBySegment: averageWatchTimeBySegment(watched),
+    spikes: detectAudienceSpikes(concurrency),
+  };
+}
@@ -0,0 +1,541 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { stripe } from './stripe';
+import { sendEmail } from './notifications';
+import { chargebackManager } from './chargeback-manager';
+import { ACCESS_GRANTING_STATUSES } from './content-access';
+import { createConflictError, createValidationError } from './errors';
+
+// Seats are held this long while the fan is in checkout. Stripe sessions can't
+// expire sooner than 30 minutes, so the session is set to expire with the hold.
+export const TICKET_HOLD_MINUTES = 35;
+
+export type TicketStatus = 'PENDING' | 'CONFIRMED' | 'REFUNDED' | 'EXPIRED';
+export type TicketPricing = 'EARLY_BIRD' | 'STANDARD';
+// SOLD_OUT means the fan paid after their hold lapsed and the seat went to someone else
+export type TicketConfirmation = 'CONFIRMED' | 'ALREADY_PROCESSED' | 'SOLD_OUT';
+
+// Tickets can be bought up to and during the stream
+const ON_SALE_STREAM_STATUSES = ['SCHEDULED', 'LIVE'];
+
+export const ticketSettingsSchema = z
+  .object({
+    price: z.number().min(0.5, 'Minimum ticket price is $0.50').max(1000),
+    capacity: z.number().int().positive().nullable().optional(),
+    presaleStartsAt: z.coerce.date().nullable().optional(),
+    salesStartAt: z.coerce.date().nullable().optional(),
+    earlyBirdPrice: z.number().min(0.5).nullable().optional(),
+    earlyBirdEndsAt: z.coerce.date().nullable().optional(),
+    tierHolderDiscountPercent: z.number().int().min(0).max(90).default(0),
+  })
+  .refine(data => !data.earlyBirdPrice || !!data.earlyBirdEndsAt, {
+    message: 'Early-bird pricing needs an end date',
+    path: ['earlyBirdEndsAt'],
+  })
+  .refine(data => !data.earlyBirdPrice || data.earlyBirdPrice < data.price, {
+    message: 'Early-bird price must be below the regular price',
+    path: ['earlyBirdPrice'],
+  })
+  .refine(data => !data.presaleStartsAt || !!data.salesStartAt, {
+    message: 'A pre-sale needs a general sale start',
+    path: ['salesStartAt'],
+  })
+  .refine(
+    data => !data.presaleStartsAt || !data.salesStartAt || data.presaleStartsAt < data.salesStartAt,
+    {
+      message: 'Pre-sale must start before the general sale',
+      path: ['presaleStartsAt'],
+    }
+  );
+
+export type TicketSettingsInput = z.infer<typeof ticketSettingsSchema>;
+
+export interface TicketedStream {
+  id: string;
+  artistId: string;
+  title: string;
+  status: string;
+  requiresPayment: boolean;
+  paymentAmount: unknown;
+  ticketCapacity: number | null;
+  presaleStartsAt: Date | null;
+  ticketSalesStartAt: Date | null;
+  earlyBirdPrice: unknown;
+  earlyBirdEndsAt: Date | null;
+  tierHolderDiscountPercent: number;
+}
+
+export interface TicketPrice {
+  amount: number;
+  basePrice: number;
+  pricing: TicketPricing;
+  discountPercent: number;
+}
+
+export interface TicketQuote extends TicketPrice {
+  onSale: boolean;
+  saleStartsAt: Date | null;
+  isPresale: boolean;
+  soldOut: boolean;
+  // Null when the stream has no seat cap
+  remaining: number | null;
+}
+
+export function isTicketedStream(
+  stream: Pick<TicketedStream, 'requiresPayment' | 'paymentAmount'>
+): boolean {
+  return stream.requiresPayment && Number(stream.paymentAmount) > 0;
+}
+
+/**
+ * Price of a ticket right now. Tier holders get their discount on top of early-bird pricing.
+ */
+export function calculateTicketPrice(
+  stream: TicketedStream,
+  isTierHolder: boolean,
+  now: Date = new Date()
+): TicketPrice {
+  const isEarlyBird =
+    !!stream.earlyBirdPrice && !!stream.earlyBirdEndsAt && now < stream.earlyBirdEndsAt;
+  const basePrice = Number(isEarlyBird ? stream.earlyBirdPrice : stream.paymentAmount);
+  const discountPercent = isTierHolder ? stream.tierHolderDiscountPercent : 0;
+
+  return {
+    amount: Math.round(basePrice * (100 - discountPercent)) / 100,
+    basePrice,
+    pricing: isEarlyBird ? 'EARLY_BIRD' : 'STANDARD',
+    discountPercent,
+  };
+}
+
+/**
+ * Whether a fan can buy right now. Tier holders get in from the pre-sale start,
+ * everyone else from the general sale start.
+ */
+export function getSaleWindow(
+  stream: TicketedStream,
+  isTierHolder: boolean,
+  now: Date = new Date()
+): { onSale: boolean; saleStartsAt: Date | null; isPresale: boolean } {
+  if (!ON_SALE_STREAM_STATUSES.includes(stream.status)) {
+    return { onSale: false, saleStartsAt: null, isPresale: false };
+  }
+
+  const generalStart = stream.ticketSalesStartAt;
+  if (!generalStart || now >= generalStart) {
+    return { onSale: true, saleStartsAt: generalStart, isPresale: false };
+  }
+
+  const presaleStart = isTierHolder ? stream.presaleStartsAt : null;
+  if (presaleStart && now >= presaleStart) {
+    return { onSale: true, saleStartsAt: presaleStart, isPresale: true };
+  }
+
+  return { onSale: false, saleStartsAt: presaleStart || generalStart, isPresale: false };
+}
+
+async function isTierHolder(fanId: string, artistId: string): Promise<boolean> {
+  const subscription = await prisma.subscriptions.findFirst({
+    where: {
+      fanId,
+      status: { in: ACCESS_GRANTING_STATUSES },
+      currentPeriodEnd: { gte: new Date() },
+      tiers: { artistId },
+    },
+    select: { id: true },
+  });
+
+  return !!subscription;
+}
+
+/**
+ * Seats taken: paid tickets plus checkouts still holding one
+ */
+export async function countTakenSeats(
+  streamId: string,
+  now: Date = new Date(),
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  return client.stream_tickets.count({
+    where: {
+      streamId,
+      OR: [{ status: 'CONFIRMED' }, { status: 'PENDING', reservedUntil: { gt: now } }],
+    },
+  });
+}
+
+export async function getTicketQuote(
+  stream: TicketedStream,
+  fanId: string,
+  now: Date = new Date()
+): Promise<TicketQuote> {
+  const tierHolder = await isTierHolder(fanId, stream.artistId);
+  const remaining =
+    stream.ticketCapacity === null
+      ? null
+      : Math.max(stream.ticketCapacity - (await countTakenSeats(stream.id, now)), 0);
+
+  return {
+    ...calculateTicketPrice(stream, tierHolder, now),
+    ...getSaleWindow(stream, tierHolder, now),
+    soldOut: remaining === 0,
+    remaining,
+  };
+}
+
+/**
+ * Lock the stream row so seat counts and the holds or tickets that depend on
+ * them can't interleave with another checkout for the same stream
+ */
+async function lockStreamSeats(tx: Prisma.TransactionClient, streamId: string): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "live_streams" WHERE "id" = ${streamId} FOR UPDATE`;
+}
+
+export async function getFanTicket(streamId: string, fanId: string) {
+  return prisma.stream_tickets.findUnique({
+    where: {
+      streamId_fanId: { streamId, fanId },
+    },
+  });
+}
+
+/**
+ * Hold a seat for the fan while they pay. Their ticket row is reused if an
+ * earlier checkout lapsed or was refunded.
+ */
+export async function reserveStreamTicket(stream: TicketedStream, fanId: string) {
+  if (!isTicketedStream(stream)) {
+    throw createValidationError('This stream does not sell tickets');
+  }
+
+  const now = new Date();
+  const existing = await getFanTicket(stream.id, fanId);
+
+  if (existing?.status === 'CONFIRMED') {
+    throw createConflictError('You already have a ticket for this stream');
+  }
+
+  if (existing?.status === 'PENDING' && existing.reservedUntil && existing.reservedUntil > now) {
+    throw createConflictError('Your ticket checkout is still open', {
+      reservedUntil: existing.reservedUntil,
+    });
+  }
+
+  const quote = await getTicketQuote(stream, fanId, now);
+
+  if (!quote.onSale) {
+    throw createValidationError(
+      quote.saleStartsAt
+        ? `Tickets go on sale ${quote.saleStartsAt.toISOString()}`
+        : 'Tickets are not on sale'
+    );
+  }
+
+  if (quote.soldOut) {
+    throw createConflictError('This stream is sold out');
+  }
+
+  const reservedUntil = new Date(now.getTime() + TICKET_HOLD_MINUTES * 60 * 1000);
+  const ticketData = {
+    amount: quote.amount,
+    pricing: quote.pricing,
+    discountPercent: quote.discountPercent,
+    status: 'PENDING',
+    reservedUntil,
+    updatedAt: now,
+  };
+
+  const ticket = await prisma.$transaction(async tx => {
+    // The quote's seat count may be stale by now, so count again under the lock
+    if (stream.ticketCapacity !== null) {
+      await lockStreamSeats(tx, stream.id);
+
+      if ((await countTakenSeats(stream.id, now, tx)) >= stream.ticketCapacity) {
+        throw createConflictError('This stream is sold out');
+      }
+    }
+
+    return tx.stream_tickets.upsert({
+      where: {
+        streamId_fanId: { streamId: stream.id, fanId },
+      },
+      create: {
+        id: randomUUID(),
+        streamId: stream.id,
+        fanId,
+        ...ticketData,
+      },
+      update: {
+        ...ticketData,
+        stripeSessionId: null,
+        stripePaymentIntentId: null,
+        purchasedAt: null,
+        refundedAt: null,
+      },
+    });
+  });
+
+  return { ticket, quote };
+}
+
+/**
+ * Confirm a paid ticket. Tickets that were already processed (e.g. webhook
+ * retries) come back as ALREADY_PROCESSED.
+ */
+export async function confirmStreamTicket(
+  ticketId: string,
+  stripeSessionId: string,
+  stripePaymentIntentId: string | null
+): Promise<TicketConfirmation> {
+  const now = new Date();
+
+  return prisma.$transaction(async tx => {
+    const ticket = await tx.stream_tickets.findUnique({
+      where: { id: ticketId },
+      select: {
+        streamId: true,
+        status: true,
+        reservedUntil: true,
+        live_streams: { select: { ticketCapacity: true } },
+      },
+    });
+
+    if (!ticket || (ticket.status !== 'PENDING' && ticket.status !== 'EXPIRED')) {
+      return 'ALREADY_PROCESSED';
+    }
+
+    // A hold can lapse while Stripe is still finishing a payment. The fan paid,
+    // so honour it, but only if nobody took the seat in the meantime.
+    const lapsed =
+      ticket.status === 'EXPIRED' || !ticket.reservedUntil || ticket.reservedUntil <= now;
+    const capacity = ticket.live_streams.ticketCapacity;
+
+    if (lapsed && capacity !== null) {
+      await lockStreamSeats(tx, ticket.streamId);
+
+      if ((await countTakenSeats(ticket.streamId, now, tx)) >= capacity) {
+        // Keep the payment on the ticket so it can be refunded
+        await tx.stream_tickets.update({
+          where: { id: ticketId },
+          data: {
+            status: 'EXPIRED',
+            stripeSessionId,
+            stripePaymentIntentId,
+            reservedUntil: null,
+            updatedAt: now,
+          },
+        });
+        return 'SOLD_OUT';
+      }
+    }
+
+    const { count } = await tx.stream_tickets.updateMany({
+      where: { id: ticketId, status: { in: ['PENDING', 'EXPIRED'] } },
+      data: {
+        status: 'CONFIRMED',
+        stripeSessionId,
+        stripePaymentIntentId,
+        reservedUntil: null,
+        purchasedAt: now,
+        updatedAt: now,
+      },
+    });
+
+    return count > 0 ? 'CONFIRMED' : 'ALREADY_PROCESSED';
+  });
+}
+
+/**
+ * Check a fan holds a ticket before they join a ticketed stream.
+ * The artist and anyone joining an unticketed stream pass straight through.
+ */
+export async function validateStreamTicket(
+  streamId: string,
+  userId: string
+): Promise<{ valid: true } | { valid: false; error: string }> {
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: { artistId: true, requiresPayment: true, paymentAmount: true },
+  });
+
+  if (!stream || !isTicketedStream(stream) || stream.artistId === userId) {
+    return { valid: true };
+  }
+
+  const ticket = await getFanTicket(streamId, userId);
+
+  if (ticket?.status !== 'CONFIRMED') {
+    return { valid: false, error: 'A ticket is required to join this stream' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Refund a ticket's payment in full and mark it refunded. Returns the amount refunded.
+ */
+async function refundTicketPayment(
+  ticket: { id: string; amount: unknown; stripePaymentIntentId: string | null },
+  stripeAccountId: string | null | undefined
+): Promise<number> {
+  if (!ticket.stripePaymentIntentId || !stripeAccountId) {
+    throw new Error('Ticket has no payment to refund');
+  }
+
+  const amount = Number(ticket.amount);
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: ticket.stripePaymentIntentId,
+      refund_application_fee: true,
+    },
+    { stripeAccount: stripeAccountId }
+  );
+
+  await chargebackManager.recordRefund(
+    ticket.stripePaymentIntentId,
+    refund.charge as string,
+    amount
+  );
+
+  await prisma.stream_tickets.update({
+    where: { id: ticket.id },
+    data: { status: 'REFUNDED', refundedAt: new Date(), updatedAt: new Date() },
+  });
+
+  return amount;
+}
+
+/**
+ * Refund a fan whose payment came in after their hold lapsed and the stream sold out
+ */
+export async function refundSoldOutStreamTicket(ticketId: string): Promise<void> {
+  const ticket = await prisma.stream_tickets.findUnique({
+    where: { id: ticketId },
+    include: {
+      users: true,
+      live_streams: {
+        include: {
+          users: {
+            include: {
+              artists: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!ticket || ticket.status !== 'EXPIRED') {
+    return;
+  }
+
+  const stream = ticket.live_streams;
+  const amount = await refundTicketPayment(ticket, stream.users.artists?.stripeAccountId);
+
+  if (ticket.users.email) {
+    await sendEmail({
+      to: ticket.users.email,
+      subject: `"${stream.title}" sold out`,
+      html: `
+        <h1>This stream sold out</h1>
+        <p>Your checkout for "${stream.title}" finished after your seat hold ran out, and the last seats have gone.</p>
+        <p>Your payment has been refunded in full ($${amount.toFixed(2)}). It may take a few days to appear on your statement.</p>
+      `,
+      text: `This stream sold out\n\nYour checkout for "${stream.title}" finished after your seat hold ran out, and the last seats have gone.\n\nYour payment has been refunded in full ($${amount.toFixed(2)}). It may take a few days to appear on your statement.`,
+    });
+  }
+}
+
+/**
+ * Refund every paid ticket for a stream and release open checkouts. Safe to
+ * run again; tickets that failed to refund are retried.
+ */
+export async function refundStreamTickets(
+  streamId: string
+): Promise<{ refunded: number; failed: number }> {
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    include: {
+      users: {
+        include: {
+          artists: true,
+        },
+      },
+    },
+  });
+
+  if (!stream) {
+    return { refunded: 0, failed: 0 };
+  }
+
+  await prisma.stream_tickets.updateMany({
+    where: { streamId, status: 'PENDING' },
+    data: { status: 'EXPIRED', reservedUntil: null, updatedAt: new Date() },
+  });
+
+  const tickets = await prisma.stream_tickets.findMany({
+    where: { streamId, status: 'CONFIRMED' },
+    include: { users: true },
+  });
+
+  const stripeAccountId = stream.users.artists?.stripeAccountId;
+  let refunded = 0;
+  let failed = 0;
+
+  for (const ticket of tickets) {
+    try {
+      const amount = await refundTicketPayment(ticket, stripeAccountId);
+      refunded++;
+
+      if (ticket.users.email) {
+        await sendEmail({
+          to: ticket.users.email,
+          subject: `"${stream.title}" was cancelled`,
+          html: `
+            <h1>This stream was cancelled</h1>
+            <p>${stream.users.displayName} cancelled "${stream.title}".</p>
+            <p>Your ticket has been refunded in full ($${amount.toFixed(2)}). It may take a few days to appear on your statement.</p>
+          `,
+          text: `This stream was cancelled\n\n${stream.users.displayName} cancelled "${stream.title}".\n\nYour ticket has been refunded in full ($${amount.toFixed(2)}). It may take a few days to appear on your statement.`,
+        });
+      }
+    } catch (error) {
+      failed++;
+      console.error(`Failed to refund stream ticket ${ticket.id}:`, error);
+    }
+  }
+
+  return { refunded, failed };
+}
+
+/**
+ * Cancel a stream that hasn't finished and refund its tickets
+ */
+export async function cancelStream(streamId: string) {
+  const now = new Date();
+
+  await prisma.live_streams.update({
+    where: { id: streamId },
+    data: { status: 'CANCELLED', cancelledAt: now, updatedAt: now },
+  });
+
+  return refundStreamTickets(streamId);
+}
+
+/**
+ * Ticket settings in the shape stored on live_streams
+ */
+export function toStreamTicketFields(input: TicketSettingsInput) {
+  return {
+    requiresPayment: true,
+    paymentAmount: input.price,
+    ticketCapacity: input.capacity ?? null,
+    presaleStartsAt: input.presaleStartsAt ?? null,
+    ticketSalesStartAt: input.salesStartAt ?? null,
+    earlyBirdPrice: input.earlyBirdPrice ?? null,
+    earlyBirdEndsAt: input.earlyBirdEndsAt ?? null,
+    tierHolderDiscountPercent: input.tierHolderDiscountPercent,
+  };
+}
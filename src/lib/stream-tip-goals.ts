@@ -0,0 +1,158 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { createNotFoundError } from './errors';
+
+export const tipGoalSchema = z.object({
+  title: z.string().trim().min(1, 'Goal title is required').max(100),
+  amount: z.number().positive().max(100000),
+});
+
+export type TipGoalInput = z.infer<typeof tipGoalSchema>;
+
+export interface TipGoalProgress {
+  streamId: string;
+  title: string;
+  goalAmount: number;
+  raisedAmount: number;
+  percentage: number;
+  reached: boolean;
+}
+
+// What the stream and the OBS overlay get to see of a tip
+export interface TipAlert {
+  id: string;
+  streamId: string;
+  tipperName: string;
+  amount: number;
+  currency: string;
+  message?: string;
+  createdAt: Date;
+}
+
+interface TipRecord {
+  id: string;
+  streamId: string;
+  tipperName: string;
+  amount: number | { toString(): string };
+  currency: string;
+  message?: string | null;
+  isAnonymous: boolean;
+  showOnStream: boolean;
+  createdAt: Date;
+}
+
+export const ANONYMOUS_TIPPER_NAME = 'Anonymous';
+
+/**
+ * Alert payload for a tip. Tips the fan asked to keep off stream get no
+ * alert; anonymous tips drop the tipper's name.
+ */
+export function toTipAlert(tip: TipRecord): TipAlert | null {
+  if (!tip.showOnStream) return null;
+
+  return {
+    id: tip.id,
+    streamId: tip.streamId,
+    tipperName: tip.isAnonymous ? ANONYMOUS_TIPPER_NAME : tip.tipperName,
+    amount: Number(tip.amount),
+    currency: tip.currency,
+    message: tip.message || undefined,
+    createdAt: tip.createdAt,
+  };
+}
+
+export function calculateTipGoalProgress(
+  streamId: string,
+  title: string,
+  goalAmount: number,
+  raisedAmount: number
+): TipGoalProgress {
+  return {
+    streamId,
+    title,
+    goalAmount,
+    raisedAmount,
+    percentage: Math.min(100, Math.floor((raisedAmount / goalAmount) * 100)),
+    reached: raisedAmount >= goalAmount,
+  };
+}
+
+// Completed tips on the stream count towards its goal
+export async function getTipGoalProgress(streamId: string): Promise<TipGoalProgress | null> {
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: { tipGoalTitle: true, tipGoalAmount: true },
+  });
+
+  if (!stream?.tipGoalTitle || !stream.tipGoalAmount) return null;
+
+  const raised = await prisma.stream_tips.aggregate({
+    where: { streamId, status: 'COMPLETED' },
+    _sum: { amount: true },
+  });
+
+  return calculateTipGoalProgress(
+    streamId,
+    stream.tipGoalTitle,
+    Number(stream.tipGoalAmount),
+    Number(raised._sum.amount || 0)
+  );
+}
+
+// Pass null to take the goal down
+export async function setStreamTipGoal(
+  streamId: string,
+  input: TipGoalInput | null
+): Promise<TipGoalProgress | null> {
+  const goal = input ? tipGoalSchema.parse(input) : null;
+
+  await prisma.live_streams.update({
+    where: { id: streamId },
+    data: {
+      tipGoalTitle: goal?.title ?? null,
+      tipGoalAmount: goal?.amount ?? null,
+      updatedAt: new Date(),
+    },
+  });
+
+  return getTipGoalProgress(streamId);
+}
+
+/**
+ * The overlay runs as an OBS browser source with no login, so it authenticates
+ * with a per-stream secret in its URL. Rotating the token cuts off old links.
+ */
+export async function getStreamOverlayToken(streamId: string, rotate = false): Promise<string> {
+  const stream = await prisma.live_streams.findUnique({
+    where: { id: streamId },
+    select: { overlayToken: true },
+  });
+
+  if (!stream) {
+    throw createNotFoundError('Stream not found');
+  }
+
+  if (stream.overlayToken && !rotate) {
+    return stream.overlayToken;
+  }
+
+  const overlayToken = randomBytes(24).toString('hex');
+  await prisma.live_streams.update({
+    where: { id: streamId },
+    data: { overlayToken, updatedAt: new Date() },
+  });
+
+  return overlayToken;
+}
+
+export async function findStreamByOverlayToken(
+  overlayToken: string
+): Promise<{ id: string; artistId: string; title: string } | null> {
+  if (!overlayToken) return null;
+
+  return prisma.live_streams.findUnique({
+    where: { overlayToken },
+    select: { id: true, artistId: true, title: true },
+  });
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import { prisma } from './prisma';
+import { createOrRetrieveCustomer, createPaymentCheckoutSession } from './stripe';
+import { createNotFoundError, createValidationError } from './errors';
+
+export interface StreamTipRequest {
+  streamId: string;
+  tipperId: string;
+  tipperName: string;
+  amount: number;
+  message?: string;
+  isAnonymous: boolean;
+  showOnStream: boolean;
+}
+
+/**
+ * Save a tip as PENDING and open a Stripe checkout for it. The tip only counts
+ * towards goals, chapters, top tippers and the artist's ledger once the
+ * webhook confirms the payment.
+ */
+export async function createStreamTipCheckout(
+  tip: StreamTipRequest
+): Promise<{ tipId: string; checkoutUrl: string }> {
+  const [stream, tipper] = await Promise.all([
+    prisma.live_streams.findUnique({
+      where: { id: tip.streamId },
+      include: {
+        users: {
+          include: {
+            artists: true,
+          },
+        },
+      },
+    }),
+    prisma.users.findUnique({
+      where: { id: tip.tipperId },
+      select: { email: true, displayName: true },
+    }),
+  ]);
+
+  if (!stream) {
+    throw createNotFoundError('Stream not found');
+  }
+
+  if (!tipper) {
+    throw createNotFoundError('User not found');
+  }
+
+  const stripeAccountId = stream.users.artists?.stripeAccountId;
+  if (!stripeAccountId || !stream.users.artists?.isStripeOnboarded) {
+    throw createValidationError('Artist is not set up to receive tips');
+  }
+
+  const tipRecord = await prisma.stream_tips.create({
+    data: {
+      id: randomUUID(),
+      streamId: tip.streamId,
+      tipperId: tip.tipperId,
+      tipperName: tip.tipperName,
+      amount: tip.amount,
+      message: tip.message,
+      status: 'PENDING',
+      isAnonymous: tip.isAnonymous,
+      showOnStream: tip.showOnStream,
+    },
+  });
+
+  const customerId = await createOrRetrieveCustomer(
+    tipper.email,
+    tipper.displayName,
+    stripeAccountId
+  );
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const streamUrl = `${baseUrl}/stream/${tip.streamId}`;
+
+  const metadata = {
+    type: 'stream_tip',
+    tipId: tipRecord.id,
+    tipperId: tip.tipperId,
+    artistId: stream.artistId,
+    streamId: tip.streamId,
+    amount: tip.amount.toString(),
+  };
+
+  const checkoutUrl = await createPaymentCheckoutSession(
+    `Tip: ${stream.title}`,
+    tip.amount,
+    customerId,
+    stripeAccountId,
+    `${streamUrl}?tip=${tipRecord.id}&session_id={CHECKOUT_SESSION_ID}`,
+    `${streamUrl}?canceled=true`,
+    metadata
+  );
+
+  return { tipId: tipRecord.id, checkoutUrl };
+}
+
+/**
+ * Mark a tip paid. Returns null for tips that were already processed (e.g.
+ * webhook retries).
+ */
+export async function confirmStreamTip(tipId: string, stripePaymentIntentId: string | null) {
+  const { count } = await prisma.stream_tips.updateMany({
+    where: { id: tipId, status: 'PENDING' },
+    data: {
+      status: 'COMPLETED',
+      stripePaymentIntentId,
+      processedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return prisma.stream_tips.findUnique({
+    where: { id: tipId },
+  });
+}
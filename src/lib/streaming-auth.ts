@@ -13,11 +13,13 @@ export const STREAMING_PERMISSIONS = {
   'artist:stream:delete': 'Delete streams',
   'artist:stream:settings': 'Modify stream settings',
   'artist:stream:analytics': 'View stream analytics',
+  'artist:stream:cohost': 'Approve and remove stream co-hosts',
   
   // Fan streaming permissions
   'fan:stream:view': 'View live streams',
   'fan:stream:chat': 'Participate in stream chat',
   'fan:stream:subscribe': 'Subscribe to stream notifications',
+  'fan:stream:cohost': 'Join a live stream on stage as a co-host',
   
   // VOD permissions
   'artist:vod:create': 'Create VOD content',
@@ -36,15 +38,18 @@ export const STREAMING_ROLE_PERMISSIONS = {
     'artist:stream:delete',
     'artist:stream:settings',
     'artist:stream:analytics',
+    'artist:stream:cohost',
     'artist:vod:create',
     'artist:vod:manage',
     'fan:stream:view', // Artists can also view streams
+    'fan:stream:cohost', // Artists can guest on each other's streams
     'fan:vod:view', // Artists can also view VOD
   ],
   FAN: [
     'fan:stream:view',
     'fan:stream:chat',
     'fan:stream:subscribe',
+    'fan:stream:cohost',
     'fan:vod:view',
   ],
 } as const;
@@ -61,7 +66,7 @@ export interface StreamAccessRequest {
   streamId: string;
   userId: string;
   userRole: UserRole;
-  action: 'view' | 'create' | 'manage' | 'chat';
+  action: 'view' | 'create' | 'manage' | 'chat' | 'cohost';
 }
 
 // Check if user can access a specific stream
@@ -75,6 +80,7 @@ export async function checkStreamAccess(request: StreamAccessRequest): Promise<b
       create: ['artist:stream:create'],
       manage: ['artist:stream:start', 'artist:stream:stop', 'artist:stream:settings'],
       chat: ['fan:stream:chat'],
+      cohost: ['fan:stream:cohost'],
     };
 
     const requiredPermissions = actionPermissions[action];
@@ -114,6 +120,45 @@ export async function checkStreamAccess(request: StreamAccessRequest): Promise<b
   }
 }
 
+// Co-hosting: guests share the stage with the broadcasting artist, who approves
+// every join request and can drop a guest at any time
+export const MAX_STREAM_GUESTS = 3;
+
+export interface CohostJoinRequest {
+  userId: string;
+  userRole: UserRole;
+  hostId: string;
+  guestIds: string[];
+}
+
+// Check if a user may be brought on stage as a guest
+export function canJoinAsCohost(request: CohostJoinRequest): { allowed: boolean; reason?: string } {
+  const { userId, userRole, hostId, guestIds } = request;
+
+  if (!hasStreamingPermission(userRole, 'fan:stream:cohost')) {
+    return { allowed: false, reason: 'You are not allowed to co-host streams' };
+  }
+
+  if (userId === hostId) {
+    return { allowed: false, reason: 'You are already hosting this stream' };
+  }
+
+  if (guestIds.includes(userId)) {
+    return { allowed: false, reason: 'You are already on stage' };
+  }
+
+  if (guestIds.length >= MAX_STREAM_GUESTS) {
+    return { allowed: false, reason: 'The stage is full' };
+  }
+
+  return { allowed: true };
+}
+
+// Check if a user may approve, invite or remove guests on a stream
+export function canManageCohosts(userId: string, userRole: UserRole, hostId: string): boolean {
+  return userId === hostId && hasStreamingPermission(userRole, 'artist:stream:cohost');
+}
+
 // Middleware for streaming endpoints
 export async function withStreamingAuth<T = any>(
   request: NextRequest,
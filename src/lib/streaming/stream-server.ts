@@ -14,7 +14,7 @@
  * - RTMP ingestion for OBS Studio integration
  */
 
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import Redis from 'ioredis';
 import { spawn, ChildProcess } from 'child_process';
@@ -25,6 +25,31 @@ import { prisma } from '../prisma-optimized';
 import { verifyJWT } from '../auth';
 import { uploadToS3 } from '../media-processing/core';
 import { analyticsMonitor } from '../media-processing/analytics-monitor';
+import { validateStreamTicket } from '../stream-tickets';
+import { createStreamTipCheckout } from '../stream-tips';
+import {
+  castPollVote,
+  closeStreamPoll,
+  closeStreamPolls,
+  createStreamPoll,
+  getActiveStreamPoll,
+  CreatePollInput,
+} from '../stream-polls';
+import {
+  canModerateStream,
+  ChatVerdict,
+  checkChatAccess,
+  evaluateChatMessage,
+  getStreamChatContext,
+  StreamChatContext,
+} from '../stream-chat-moderation';
+import {
+  ANONYMOUS_TIPPER_NAME,
+  findStreamByOverlayToken,
+  getTipGoalProgress,
+  toTipAlert,
+} from '../stream-tip-goals';
+import { AppError } from '../errors';
 
 // Types and Interfaces
 export interface StreamSession {
@@ -107,6 +132,7 @@ export interface StreamDonation {
   currency: string;
   message?: string;
   isAnonymous: boolean;
+  showOnStream: boolean;
   createdAt: Date;
   status: 'pending' | 'completed' | 'failed';
 }
@@ -201,6 +227,7 @@ const STREAMING_CONFIG = {
     maxMessageLength: 500,
     maxMessagesPerMinute: 30,
     slowModeDelay: 5, // seconds
+    timeoutDuration: 300, // seconds
     moderationKeywords: ['spam', 'scam', 'hate', 'harassment'],
   },
 
@@ -242,6 +269,8 @@ export class StreamingServer {
   private streamViewers = new Map<string, Map<string, Viewer>>();
   private streamProcesses = new Map<string, ChildProcess>();
   private recordingProcesses = new Map<string, ChildProcess>();
+  // Each signed-in user's current socket, so the streamer can be reached directly
+  private userSockets = new Map<string, Socket>();
 
   constructor(httpServer: HTTPServer) {
     // Initialize Socket.IO
@@ -269,6 +298,18 @@ export class StreamingServer {
   private setupSocketHandlers(): void {
     this.io.use(async (socket, next) => {
       try {
+        // OBS tip overlays connect with the stream's overlay token instead of a login
+        const overlayToken = socket.handshake.auth.overlayToken;
+        if (overlayToken) {
+          const stream = await findStreamByOverlayToken(overlayToken);
+          if (!stream) {
+            throw new Error('Invalid overlay token');
+          }
+
+          socket.data.overlayStreamId = stream.id;
+          return next();
+        }
+
         const token = socket.handshake.auth.token;
         if (!token) {
           throw new Error('No authentication token provided');
@@ -295,7 +336,13 @@ export class StreamingServer {
   }
 
   private async handleConnection(socket: any): Promise<void> {
+    if (socket.data.overlayStreamId) {
+      await this.handleOverlayConnection(socket);
+      return;
+    }
+
     const user = socket.data.user;
+    this.userSockets.set(user.id, socket);
 
     logger.info('User connected to streaming', {
       userId: user.id,
@@ -331,22 +378,53 @@ export class StreamingServer {
       this.handleStreamChat(socket, data)
     );
 
-    socket.on('stream_donation', (data: { streamId: string; amount: number; message?: string }) =>
-      this.handleStreamDonation(socket, data)
+    socket.on(
+      'stream_donation',
+      (data: {
+        streamId: string;
+        amount: number;
+        message?: string;
+        isAnonymous?: boolean;
+        showOnStream?: boolean;
+      }) => this.handleStreamDonation(socket, data)
+    );
+
+    socket.on('stream_donation_paid', (data: { streamId: string; donationId: string }) =>
+      this.handleStreamDonationPaid(socket, data)
     );
 
     socket.on('stream_like', (data: { streamId: string }) => this.handleStreamLike(socket, data));
 
     socket.on('stream_share', (data: { streamId: string }) => this.handleStreamShare(socket, data));
 
+    // Polls
+    socket.on('create_poll', (data: { streamId: string } & CreatePollInput) =>
+      this.handleCreatePoll(socket, data)
+    );
+
+    socket.on('vote_poll', (data: { streamId: string; pollId: string; optionIndexes: number[] }) =>
+      this.handleVotePoll(socket, data)
+    );
+
+    socket.on('close_poll', (data: { streamId: string; pollId: string }) =>
+      this.handleClosePoll(socket, data)
+    );
+
     // Quality control
     socket.on('change_quality', (data: { streamId: string; quality: string }) =>
       this.handleChangeQuality(socket, data)
     );
 
     // Moderation
-    socket.on('moderate_message', (data: { messageId: string; action: 'delete' | 'timeout' }) =>
-      this.handleModerateMessage(socket, data)
+    socket.on(
+      'moderate_message',
+      (data: {
+        streamId: string;
+        messageId: string;
+        userId?: string;
+        action: 'delete' | 'timeout';
+        reason?: string;
+      }) => this.handleModerateMessage(socket, data)
     );
 
     socket.on('disconnect', () => this.handleDisconnection(socket));
@@ -355,6 +433,24 @@ export class StreamingServer {
     await this.sendUserStreams(socket);
   }
 
+  // Overlays only listen: they join the stream room for tip alerts and goal progress
+  private async handleOverlayConnection(socket: Socket): Promise<void> {
+    const streamId = socket.data.overlayStreamId;
+
+    try {
+      await socket.join(streamId);
+      socket.emit('overlay_joined', {
+        streamId,
+        tipGoal: await getTipGoalProgress(streamId),
+      });
+
+      logger.info('Tip overlay connected', { streamId, socketId: socket.id });
+    } catch (error) {
+      logger.error('Failed to connect tip overlay', { streamId, error });
+      socket.disconnect(true);
+    }
+  }
+
   private async handleCreateStream(
     socket: any,
     data: {
@@ -534,6 +630,9 @@ export class StreamingServer {
         await this.processStreamRecording(streamId);
       }
 
+      // Close any open poll so its results are final
+      await closeStreamPolls(streamId);
+
       // Update final analytics
       await this.updateStreamAnalytics(streamId);
 
@@ -594,6 +693,13 @@ export class StreamingServer {
         return;
       }
 
+      // Ticketed streams need a paid ticket on top of the usual access rules
+      const ticketCheck = await validateStreamTicket(streamId, user.id);
+      if (!ticketCheck.valid) {
+        socket.emit('error', { message: ticketCheck.error, code: 'TICKET_REQUIRED' });
+        return;
+      }
+
       // Check access permissions
       const hasAccess = await this.checkStreamAccess(user.id, stream);
       if (!hasAccess) {
@@ -635,6 +741,8 @@ export class StreamingServer {
         },
         viewer,
         chatHistory: await this.getStreamChatHistory(streamId),
+        chatSettings: (await this.getChatContext(stream)).settings,
+        activePoll: await getActiveStreamPoll(streamId),
       });
 
       // Notify streamer
@@ -743,7 +851,7 @@ export class StreamingServer {
       }
 
       // Forward answer to streamer
-      const streamerSocket = await this.getStreamerSocket(stream.streamerId);
+      const streamerSocket = this.getStreamerSocket(stream.streamerId);
       if (streamerSocket) {
         streamerSocket.emit('webrtc_answer', {
           streamId: data.streamId,
@@ -792,9 +900,10 @@ export class StreamingServer {
       }
 
       // Check if user can chat
-      const canChat = await this.canUserChat(user.id, stream);
-      if (!canChat) {
-        socket.emit('error', { message: 'Chat not available' });
+      const chatContext = await this.getChatContext(stream);
+      const canChat = await this.canUserChat(user.id, stream, chatContext);
+      if (!canChat.allowed) {
+        socket.emit('error', { message: canChat.reason, code: 'CHAT_RESTRICTED' });
         return;
       }
 
@@ -804,6 +913,25 @@ export class StreamingServer {
         return;
       }
 
+      // Stream chat modes; the artist and their moderators are exempt
+      const isModerator = canModerateStream(user.id, chatContext);
+      if (!isModerator) {
+        const verdict = evaluateChatMessage(chatContext.settings, data.message);
+        if (!verdict.allowed) {
+          socket.emit('error', { message: verdict.reason, code: 'CHAT_RESTRICTED' });
+          return;
+        }
+
+        const { slowModeSeconds } = chatContext.settings;
+        if (!(await this.claimSlowModeSlot(data.streamId, user.id, slowModeSeconds))) {
+          socket.emit('error', {
+            message: `Slow mode is on: one message every ${slowModeSeconds} seconds`,
+            code: 'CHAT_SLOW_MODE',
+          });
+          return;
+        }
+      }
+
       // Check for moderation
       const isModerated = this.moderateMessage(data.message, stream.settings.chatModeration);
 
@@ -835,12 +963,81 @@ export class StreamingServer {
     }
   }
 
+  private async handleModerateMessage(
+    socket: any,
+    data: {
+      streamId: string;
+      messageId: string;
+      userId?: string;
+      action: 'delete' | 'timeout';
+      reason?: string;
+    }
+  ): Promise<void> {
+    const user = socket.data.user;
+
+    try {
+      const stream = this.activeStreams.get(data.streamId);
+      if (!stream) {
+        socket.emit('error', { message: 'Stream not found' });
+        return;
+      }
+
+      const chatContext = await this.getChatContext(stream);
+      if (!canModerateStream(user.id, chatContext)) {
+        socket.emit('error', { message: 'You cannot moderate this chat' });
+        return;
+      }
+
+      if (data.action === 'timeout') {
+        if (!data.userId || canModerateStream(data.userId, chatContext)) {
+          socket.emit('error', { message: 'This user cannot be timed out' });
+          return;
+        }
+
+        const duration = STREAMING_CONFIG.CHAT.timeoutDuration;
+        await this.redis.set(this.chatTimeoutKey(data.streamId, data.userId), '1', 'EX', duration);
+
+        this.io.to(data.streamId).emit('stream_chat_user_timed_out', {
+          streamId: data.streamId,
+          userId: data.userId,
+          duration,
+        });
+      }
+
+      await prisma.stream_chat_messages.updateMany({
+        where: { id: data.messageId, streamId: data.streamId },
+        data: {
+          isModerated: true,
+          moderatedBy: user.id,
+          moderationReason: data.reason || data.action,
+        },
+      });
+
+      this.io.to(data.streamId).emit('stream_chat_message_deleted', {
+        streamId: data.streamId,
+        messageId: data.messageId,
+      });
+
+      logger.info('Stream chat message moderated', {
+        streamId: data.streamId,
+        messageId: data.messageId,
+        action: data.action,
+        moderatorId: user.id,
+      });
+    } catch (error) {
+      logger.error('Failed to moderate stream chat', { userId: user.id, error });
+      socket.emit('error', { message: 'Failed to moderate message' });
+    }
+  }
+
   private async handleStreamDonation(
     socket: any,
     data: {
       streamId: string;
       amount: number;
       message?: string;
+      isAnonymous?: boolean;
+      showOnStream?: boolean;
     }
   ): Promise<void> {
     const user = socket.data.user;
@@ -854,6 +1051,7 @@ export class StreamingServer {
 
       // Validate donation amount
       if (
+        !Number.isFinite(data.amount) ||
         data.amount < STREAMING_CONFIG.DONATIONS.minAmount ||
         data.amount > STREAMING_CONFIG.DONATIONS.maxAmount
       ) {
@@ -861,65 +1059,126 @@ export class StreamingServer {
         return;
       }
 
-      const donation: StreamDonation = {
-        id: `donation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      // Nothing is credited until Stripe confirms the payment; the donor
+      // reports back with stream_donation_paid once checkout completes
+      const { tipId, checkoutUrl } = await createStreamTipCheckout({
         streamId: data.streamId,
-        donorId: user.id,
-        donorName: user.name,
+        tipperId: user.id,
+        tipperName: user.name,
         amount: data.amount,
-        currency: 'USD', // Default currency
         message: data.message,
-        isAnonymous: false,
-        createdAt: new Date(),
-        status: 'pending',
+        isAnonymous: !!data.isAnonymous,
+        showOnStream: data.showOnStream !== false,
+      });
+
+      socket.emit('donation_checkout', { donationId: tipId, checkoutUrl });
+    } catch (error) {
+      if (error instanceof AppError) {
+        socket.emit('error', { message: error.message });
+        return;
+      }
+
+      logger.error('Failed to process stream donation', { userId: user.id, error });
+      socket.emit('error', { message: 'Failed to process donation' });
+    }
+  }
+
+  /**
+   * Announce a tip on stream once the payment webhook has confirmed it
+   */
+  private async handleStreamDonationPaid(
+    socket: any,
+    data: { streamId: string; donationId: string }
+  ): Promise<void> {
+    const user = socket.data.user;
+
+    try {
+      const stream = this.activeStreams.get(data.streamId);
+      const tip = await prisma.stream_tips.findUnique({
+        where: { id: data.donationId },
+      });
+
+      if (!stream || !tip || tip.streamId !== data.streamId || tip.tipperId !== user.id) {
+        socket.emit('error', { message: 'Donation not found' });
+        return;
+      }
+
+      // The donor can get back from checkout before Stripe's webhook arrives
+      if (tip.status !== 'COMPLETED') {
+        socket.emit('error', { message: 'Your tip is still being processed' });
+        return;
+      }
+
+      // Announce each tip once, even if the donor reports it from several tabs
+      if (!(await this.claimDonationAnnouncement(tip.id))) {
+        return;
+      }
+
+      const amount = Number(tip.amount);
+      const donation: StreamDonation = {
+        id: tip.id,
+        streamId: tip.streamId,
+        donorId: user.id,
+        donorName: tip.tipperName,
+        amount,
+        currency: tip.currency,
+        message: tip.message || undefined,
+        isAnonymous: tip.isAnonymous,
+        showOnStream: tip.showOnStream,
+        createdAt: tip.createdAt,
+        status: 'completed',
       };
 
-      // Process payment (integrate with Stripe)
-      const paymentResult = await this.processStreamDonation(donation);
+      stream.metadata.totalDonations += amount;
 
-      if (paymentResult.success) {
-        donation.status = 'completed';
-        stream.metadata.totalDonations += data.amount;
+      // Anonymous tips hide who sent them; off-stream tips keep their message private
+      const publicName = donation.isAnonymous ? ANONYMOUS_TIPPER_NAME : donation.donorName;
+      const publicMessage = donation.showOnStream ? donation.message : undefined;
 
-        // Create donation chat message
-        const donationChatMessage: StreamChatMessage = {
-          id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          streamId: data.streamId,
-          userId: user.id,
-          userName: user.name,
-          avatar: user.avatar,
-          content: data.message || `Donated $${data.amount}!`,
-          type: 'donation',
-          isModerated: false,
-          createdAt: new Date(),
-          metadata: {
-            donationAmount: data.amount,
-          },
-        };
-
-        // Broadcast donation
-        this.io.to(data.streamId).emit('stream_donation', {
-          donation,
-          chatMessage: donationChatMessage,
-        });
+      // Create donation chat message
+      const donationChatMessage: StreamChatMessage = {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        streamId: data.streamId,
+        userId: donation.isAnonymous ? '' : user.id,
+        userName: publicName,
+        avatar: donation.isAnonymous ? undefined : user.avatar,
+        content: publicMessage || `Donated $${amount}!`,
+        type: 'donation',
+        isModerated: false,
+        createdAt: new Date(),
+        metadata: {
+          donationAmount: amount,
+        },
+      };
 
-        // Save to database
-        await this.saveDonation(donation);
-        await this.saveChatMessage(donationChatMessage);
+      // Broadcast donation; overlays animate the alert when there is one
+      this.io.to(data.streamId).emit('stream_donation', {
+        donation: {
+          ...donation,
+          donorId: donation.isAnonymous ? '' : donation.donorId,
+          donorName: publicName,
+          message: publicMessage,
+        },
+        chatMessage: donationChatMessage,
+        alert: toTipAlert({ ...donation, tipperName: donation.donorName }),
+      });
 
-        socket.emit('donation_success', { donation });
+      await this.saveChatMessage(donationChatMessage);
 
-        logger.info('Stream donation processed', {
-          streamId: data.streamId,
-          donorId: user.id,
-          amount: data.amount,
-        });
-      } else {
-        donation.status = 'failed';
-        socket.emit('error', { message: paymentResult.error || 'Payment failed' });
+      const tipGoal = await getTipGoalProgress(data.streamId);
+      if (tipGoal) {
+        this.io.to(data.streamId).emit('tip_goal_progress', tipGoal);
       }
+
+      socket.emit('donation_success', { donation });
+
+      logger.info('Stream donation processed', {
+        streamId: data.streamId,
+        donorId: user.id,
+        amount,
+      });
     } catch (error) {
-      logger.error('Failed to process stream donation', { userId: user.id, error });
+      logger.error('Failed to announce stream donation', { userId: user.id, error });
       socket.emit('error', { message: 'Failed to process donation' });
     }
   }
@@ -968,6 +1227,116 @@ export class StreamingServer {
     });
   }
 
+  private async handleCreatePoll(
+    socket: any,
+    data: { streamId: string } & CreatePollInput
+  ): Promise<void> {
+    const user = socket.data.user;
+
+    try {
+      const stream = this.activeStreams.get(data.streamId);
+      if (!stream || stream.streamerId !== user.id) {
+        socket.emit('error', { message: 'Stream not found or access denied' });
+        return;
+      }
+
+      if (stream.status !== 'live') {
+        socket.emit('error', { message: 'Polls can only be run while live' });
+        return;
+      }
+
+      const poll = await createStreamPoll(data.streamId, {
+        question: data.question,
+        options: data.options,
+        allowMultiple: data.allowMultiple,
+      });
+
+      // Opening a poll closes the previous one, so everyone swaps to the new poll
+      this.io.to(data.streamId).emit('poll_created', poll);
+      socket.emit('poll_created', poll);
+
+      logger.info('Stream poll created', { streamId: data.streamId, pollId: poll.pollId });
+    } catch (error) {
+      logger.error('Failed to create stream poll', { userId: user.id, error });
+      socket.emit('error', {
+        message: error instanceof AppError ? error.message : 'Failed to create poll',
+      });
+    }
+  }
+
+  private async handleVotePoll(
+    socket: any,
+    data: { streamId: string; pollId: string; optionIndexes: number[] }
+  ): Promise<void> {
+    const user = socket.data.user;
+
+    try {
+      const viewers = this.streamViewers.get(data.streamId);
+      if (!viewers?.has(user.id)) {
+        socket.emit('error', { message: 'Join the stream to vote' });
+        return;
+      }
+
+      const results = await castPollVote({
+        streamId: data.streamId,
+        pollId: data.pollId,
+        voterId: user.id,
+        sessionId: user.id,
+        optionIndexes: data.optionIndexes,
+      });
+
+      socket.emit('poll_vote_success', {
+        pollId: data.pollId,
+        optionIndexes: data.optionIndexes,
+      });
+
+      // Push live tallies to everyone watching, including the streamer
+      this.io.to(data.streamId).emit('poll_results', results);
+
+      const stream = this.activeStreams.get(data.streamId);
+      const streamerSocket = stream && this.getStreamerSocket(stream.streamerId);
+      if (streamerSocket) {
+        streamerSocket.emit('poll_results', results);
+      }
+    } catch (error) {
+      logger.error('Failed to record poll vote', { userId: user.id, pollId: data.pollId, error });
+      socket.emit('error', {
+        message: error instanceof AppError ? error.message : 'Failed to record vote',
+      });
+    }
+  }
+
+  private async handleClosePoll(
+    socket: any,
+    data: { streamId: string; pollId: string }
+  ): Promise<void> {
+    const user = socket.data.user;
+
+    try {
+      const stream = this.activeStreams.get(data.streamId);
+      if (!stream || stream.streamerId !== user.id) {
+        socket.emit('error', { message: 'Stream not found or access denied' });
+        return;
+      }
+
+      const results = await closeStreamPoll(data.streamId, data.pollId);
+
+      this.io.to(data.streamId).emit('poll_closed', results);
+      socket.emit('poll_closed', results);
+
+      logger.info('Stream poll closed', {
+        streamId: data.streamId,
+        pollId: data.pollId,
+        totalVotes: results.totalVotes,
+      });
+    } catch (error) {
+      logger.error('Failed to close stream poll', { userId: user.id, pollId: data.pollId, error });
+      socket.emit('error', {
+        message: error instanceof AppError ? error.message : 'Failed to close poll',
+      });
+    }
+  }
+
   private async handleChangeQuality(
     socket: any,
     data: {
@@ -999,6 +1368,11 @@ export class StreamingServer {
     const user = socket.data.user;
 
     if (user) {
+      // A newer connection from the same user may have replaced this one already
+      if (this.userSockets.get(user.id) === socket) {
+        this.userSockets.delete(user.id);
+      }
+
       // Remove from all stream viewer lists
       for (const [streamId, viewers] of this.streamViewers.entries()) {
         if (viewers.has(user.id)) {
@@ -1019,6 +1393,65 @@ export class StreamingServer {
     return { id: userId, name: 'User', avatar: null };
   }
 
+  private getStreamerSocket(streamerId: string): Socket | null {
+    return this.userSockets.get(streamerId) || null;
+  }
+
+  // Streams without a live_streams record yet fall back to open chat
+  private async getChatContext(stream: StreamSession): Promise<StreamChatContext> {
+    return (
+      (await getStreamChatContext(stream.id)) || {
+        streamId: stream.id,
+        artistId: stream.streamerId,
+        settings: {
+          slowModeSeconds: 0,
+          subscribersOnly: stream.settings.subscribersOnly,
+          tierIds: null,
+          emoteOnly: false,
+          bannedKeywords: [],
+        },
+        moderatorIds: [],
+      }
+    );
+  }
+
+  private chatTimeoutKey(streamId: string, userId: string): string {
+    return `stream:chat:timeout:${streamId}:${userId}`;
+  }
+
+  private async canUserChat(
+    userId: string,
+    stream: StreamSession,
+    chatContext: StreamChatContext
+  ): Promise<ChatVerdict> {
+    if (!stream.settings.enableChat) {
+      return { allowed: false, reason: 'Chat is disabled for this stream' };
+    }
+
+    if (await this.redis.exists(this.chatTimeoutKey(stream.id, userId))) {
+      return { allowed: false, reason: 'You are timed out from this chat' };
+    }
+
+    return checkChatAccess(userId, chatContext);
+  }
+
+  // Cooldowns live in Redis so slow mode holds across server instances
+  private async claimSlowModeSlot(
+    streamId: string,
+    userId: string,
+    slowModeSeconds: number
+  ): Promise<boolean> {
+    if (slowModeSeconds <= 0) return true;
+
+    const key = `stream:chat:slow:${streamId}:${userId}`;
+    return (await this.redis.set(key, '1', 'EX', slowModeSeconds, 'NX')) === 'OK';
+  }
+
+  private async claimDonationAnnouncement(donationId: string): Promise<boolean> {
+    const key = `stream:donation:announced:${donationId}`;
+    return (await this.redis.set(key, '1', 'EX', 24 * 60 * 60, 'NX')) === 'OK';
+  }
+
   private async canUserStream(userId: string): Promise<boolean> {
     // Check if user has streaming permissions
     return true; // Implement actual logic
@@ -1136,17 +1569,6 @@ export class StreamingServer {
     // Implementation to save chat message to database
   }
 
-  private async saveDonation(donation: StreamDonation): Promise<void> {
-    // Implementation to save donation to database
-  }
-
-  private async processStreamDonation(
-    donation: StreamDonation
-  ): Promise<{ success: boolean; error?: string }> {
-    // Implementation to process payment via Stripe
-    return { success: true };
-  }
-
   private setupCleanupHandlers(): void {
     // Cleanup on server shutdown
     process.on('SIGTERM', () => this.shutdown());
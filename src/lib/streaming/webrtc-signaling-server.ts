@@ -1,6 +1,15 @@
 import { Server } from 'socket.io';
 import type { Socket } from 'socket.io';
+import { getToken } from 'next-auth/jwt';
 import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { UserRole } from '@/types/database';
+import { canJoinAsCohost, canManageCohosts, checkStreamAccess } from '@/lib/streaming-auth';
+
+type StreamingRole = 'BROADCASTER' | 'GUEST' | 'VIEWER';
+
+// How viewers lay out the host and guest feeds
+export type StageLayout = 'side-by-side' | 'picture-in-picture';
 
 // Store active streams and their connections
 const activeStreams = new Map<string, {
@@ -8,6 +17,11 @@ const activeStreams = new Map<string, {
   broadcasterId: string;
   broadcasterSocket: string;
   viewers: Set<string>;
+  // Guests on stage and fans waiting for approval, keyed by socket id
+  guests: Map<string, { userId: string; displayName?: string; joinedAt: Date }>;
+  guestRequests: Map<string, { userId: string; displayName?: string; requestedAt: Date }>;
+  invitedUserIds: Set<string>;
+  layout: StageLayout;
   startTime: Date;
   status: 'STARTING' | 'LIVE' | 'ENDING' | 'ENDED';
 }>();
@@ -15,32 +29,170 @@ const activeStreams = new Map<string, {
 // Store user sessions for streaming
 const streamingSessions = new Map<string, {
   userId: string;
+  userRole: UserRole;
+  displayName?: string;
   socketId: string;
-  role: 'BROADCASTER' | 'VIEWER';
+  role: StreamingRole;
   streamId: string | null;
   lastSeen: Date;
 }>();
 
-interface StreamingSocket extends Socket {
+// socket.io's Socket plus the verified user and what the handlers record on it
+type StreamingSocket = Socket & {
   userId?: string;
+  userRole?: UserRole;
+  displayName?: string;
   streamId?: string;
-  role?: 'BROADCASTER' | 'VIEWER';
-}
+  role?: StreamingRole;
+};
 
 export function setupStreamingSignaling(io: Server) {
   // Create streaming namespace
   const streamingNamespace = io.of('/streaming');
-  
+
+  // Who is on the socket comes from their session token, never from event payloads
+  streamingNamespace.use(async (socket: StreamingSocket, next: (err?: Error) => void) => {
+    try {
+      const token = socket.handshake.auth.token;
+      if (!token) {
+        return next(new Error('Authentication required'));
+      }
+
+      const decoded = await getToken({
+        req: {
+          headers: {
+            authorization: `Bearer ${token}`,
+          },
+        } as any,
+        secret: process.env.NEXTAUTH_SECRET,
+      });
+
+      if (!decoded || !decoded.id) {
+        return next(new Error('Invalid token'));
+      }
+
+      socket.userId = decoded.id as string;
+      socket.userRole = decoded.role as UserRole;
+      socket.displayName = decoded.name || undefined;
+      next();
+    } catch (error) {
+      logger.error('Streaming socket authentication failed', { error });
+      next(new Error('Authentication failed'));
+    }
+  });
+
+  // Tell everyone in the stream which feeds are on stage and how to arrange them
+  const broadcastLayout = (streamId: string) => {
+    const stream = activeStreams.get(streamId);
+    if (!stream) return;
+
+    streamingNamespace.to(`stream:${streamId}`).emit('cohost:layout', {
+      layout: stream.layout,
+      hostId: stream.broadcasterSocket,
+      guests: Array.from(stream.guests.entries()).map(([guestId, guest]) => ({
+        guestId,
+        userId: guest.userId,
+        displayName: guest.displayName,
+      })),
+    });
+  };
+
+  // Move a viewer onto the stage and have them publish to the host and every viewer
+  const promoteGuest = (streamId: string, guestId: string, guest: { userId: string; displayName?: string }) => {
+    const stream = activeStreams.get(streamId);
+    if (!stream) return;
+
+    stream.guestRequests.delete(guestId);
+    stream.viewers.delete(guestId);
+    stream.guests.set(guestId, {
+      userId: guest.userId,
+      displayName: guest.displayName,
+      joinedAt: new Date(),
+    });
+
+    const guestSocket = streamingNamespace.sockets.get(guestId) as StreamingSocket | undefined;
+    if (guestSocket) {
+      guestSocket.role = 'GUEST';
+    }
+
+    const session = streamingSessions.get(guestId);
+    if (session) {
+      session.role = 'GUEST';
+    }
+
+    streamingNamespace.to(guestId).emit('cohost:approved', {
+      hostId: stream.broadcasterSocket,
+      viewers: Array.from(stream.viewers),
+    });
+    streamingNamespace.to(`stream:${streamId}`).emit('cohost:guest-joined', {
+      guestId,
+      userId: guest.userId,
+      displayName: guest.displayName,
+    });
+    streamingNamespace.to(`stream:${streamId}`).emit('viewer-count-update', {
+      count: stream.viewers.size,
+    });
+    broadcastLayout(streamId);
+
+    logger.info('Guest joined stage', { streamId, userId: guest.userId, guests: stream.guests.size });
+  };
+
+  // Take a guest off stage; they stay in the stream as a regular viewer unless disconnected
+  const removeGuest = (streamId: string, guestId: string, reason: 'removed' | 'left' | 'disconnected') => {
+    const stream = activeStreams.get(streamId);
+    if (!stream || !stream.guests.has(guestId)) return;
+
+    stream.guests.delete(guestId);
+
+    if (reason !== 'disconnected') {
+      stream.viewers.add(guestId);
+
+      const guestSocket = streamingNamespace.sockets.get(guestId) as StreamingSocket | undefined;
+      if (guestSocket) {
+        guestSocket.role = 'VIEWER';
+      }
+
+      const session = streamingSessions.get(guestId);
+      if (session) {
+        session.role = 'VIEWER';
+      }
+
+      if (reason === 'removed') {
+        streamingNamespace.to(guestId).emit('cohost:removed');
+      }
+    }
+
+    streamingNamespace.to(`stream:${streamId}`).emit('cohost:guest-left', { guestId, reason });
+    broadcastLayout(streamId);
+
+    logger.info('Guest left stage', { streamId, guestId, reason });
+  };
+
   streamingNamespace.on('connection', (socket: StreamingSocket) => {
     logger.info('Streaming client connected', { socketId: socket.id });
 
     // Handle stream room joining
-    socket.on('stream:join', async (data: { streamId: string; isOwner: boolean; userId?: string }) => {
+    socket.on('stream:join', async (data: { streamId: string; isOwner: boolean }) => {
       try {
-        const { streamId, isOwner, userId } = data;
+        const { streamId, isOwner } = data;
+        const userId = socket.userId!;
+        const userRole = socket.userRole!;
+        const displayName = socket.displayName;
+
+        // Only the artist who owns the stream may broadcast it
+        if (isOwner) {
+          const liveStream = await prisma.live_streams.findUnique({
+            where: { id: streamId },
+            select: { artistId: true },
+          });
+
+          if (liveStream?.artistId !== userId) {
+            socket.emit('stream-join-error', { error: 'Only the artist can broadcast this stream' });
+            return;
+          }
+        }
         
         socket.streamId = streamId;
-        socket.userId = userId;
         socket.role = isOwner ? 'BROADCASTER' : 'VIEWER';
         
         // Join stream room
@@ -48,7 +200,9 @@ export function setupStreamingSignaling(io: Server) {
         
         // Store session
         streamingSessions.set(socket.id, {
-          userId: userId || 'anonymous',
+          userId,
+          userRole,
+          displayName,
           socketId: socket.id,
           role: socket.role,
           streamId,
@@ -65,9 +219,13 @@ export function setupStreamingSignaling(io: Server) {
             // Create new stream session
             activeStreams.set(streamId, {
               streamId,
-              broadcasterId: userId || 'anonymous',
+              broadcasterId: userId,
               broadcasterSocket: socket.id,
               viewers: new Set(),
+              guests: new Map(),
+              guestRequests: new Map(),
+              invitedUserIds: new Set(),
+              layout: 'side-by-side',
               startTime: new Date(),
               status: 'STARTING',
             });
@@ -88,6 +246,14 @@ export function setupStreamingSignaling(io: Server) {
               totalViewers: stream.viewers.size,
             });
             
+            // Guests send their own feed to every viewer
+            stream.guests.forEach((_, guestId) => {
+              streamingNamespace.to(guestId).emit('viewer-joined', {
+                viewerId: socket.id,
+                totalViewers: stream.viewers.size,
+              });
+            });
+            
             // Update viewer count for all viewers
             streamingNamespace.to(`stream:${streamId}`).emit('viewer-count-update', {
               count: stream.viewers.size,
@@ -98,6 +264,10 @@ export function setupStreamingSignaling(io: Server) {
               socket.emit('broadcaster-available');
             }
             
+            if (stream.guests.size > 0) {
+              broadcastLayout(streamId);
+            }
+            
             logger.info('Viewer joined stream', { streamId, viewerId: socket.id, totalViewers: stream.viewers.size });
           } else {
             socket.emit('stream-not-found');
@@ -182,6 +352,7 @@ export function setupStreamingSignaling(io: Server) {
       streamingNamespace.to(targetId).emit('offer', {
         offer,
         senderId: socket.id,
+        senderRole: socket.role,
       });
       
       logger.info('WebRTC offer sent', { from: socket.id, to: targetId });
@@ -207,6 +378,181 @@ export function setupStreamingSignaling(io: Server) {
       });
     });
 
+    // Handle a viewer asking to join the stage
+    socket.on('cohost:request', async () => {
+      const streamId = socket.streamId;
+      const session = streamingSessions.get(socket.id);
+      if (!streamId || !session || socket.role !== 'VIEWER') return;
+
+      const stream = activeStreams.get(streamId);
+      if (!stream || stream.status !== 'LIVE') {
+        socket.emit('cohost:error', { error: 'Stream is not live' });
+        return;
+      }
+
+      const hasAccess = await checkStreamAccess({
+        streamId,
+        userId: session.userId,
+        userRole: session.userRole,
+        action: 'cohost',
+      });
+      const eligibility = canJoinAsCohost({
+        userId: session.userId,
+        userRole: session.userRole,
+        hostId: stream.broadcasterId,
+        guestIds: Array.from(stream.guests.values()).map(guest => guest.userId),
+      });
+
+      if (!hasAccess || !eligibility.allowed) {
+        socket.emit('cohost:error', { error: eligibility.reason || 'You are not allowed to co-host streams' });
+        return;
+      }
+
+      // Fans the host invited skip the approval queue
+      if (stream.invitedUserIds.delete(session.userId)) {
+        promoteGuest(streamId, socket.id, session);
+        return;
+      }
+
+      stream.guestRequests.set(socket.id, {
+        userId: session.userId,
+        displayName: session.displayName,
+        requestedAt: new Date(),
+      });
+
+      // The host decides who goes on stage
+      streamingNamespace.to(stream.broadcasterSocket).emit('cohost:request-received', {
+        guestId: socket.id,
+        userId: session.userId,
+        displayName: session.displayName,
+      });
+      socket.emit('cohost:request-pending');
+
+      logger.info('Co-host requested', { streamId, userId: session.userId });
+    });
+
+    // Handle a viewer withdrawing their request
+    socket.on('cohost:cancel-request', () => {
+      const streamId = socket.streamId;
+      const stream = streamId ? activeStreams.get(streamId) : undefined;
+      if (stream && stream.guestRequests.delete(socket.id)) {
+        streamingNamespace.to(stream.broadcasterSocket).emit('cohost:request-cancelled', { guestId: socket.id });
+      }
+    });
+
+    // Handle the host inviting a viewer on stage
+    socket.on('cohost:invite', (data: { userId: string }) => {
+      const streamId = socket.streamId;
+      const session = streamingSessions.get(socket.id);
+      if (!streamId || !session || socket.role !== 'BROADCASTER') return;
+
+      const stream = activeStreams.get(streamId);
+      if (!stream || !canManageCohosts(session.userId, session.userRole, stream.broadcasterId)) {
+        socket.emit('cohost:error', { error: 'Only the host can invite guests' });
+        return;
+      }
+
+      const viewerId = Array.from(stream.viewers).find(
+        id => streamingSessions.get(id)?.userId === data.userId
+      );
+      if (!viewerId) {
+        socket.emit('cohost:error', { error: 'That user is not watching the stream' });
+        return;
+      }
+
+      // Accepting an invite goes through the same checks as asking to join
+      stream.invitedUserIds.add(data.userId);
+      streamingNamespace.to(viewerId).emit('cohost:invited', {
+        hostId: stream.broadcasterSocket,
+        hostUserId: stream.broadcasterId,
+      });
+
+      logger.info('Co-host invited', { streamId, userId: data.userId });
+    });
+
+    // Handle the host approving a join request
+    socket.on('cohost:approve', (data: { guestId: string }) => {
+      const streamId = socket.streamId;
+      const session = streamingSessions.get(socket.id);
+      if (!streamId || !session || socket.role !== 'BROADCASTER') return;
+
+      const stream = activeStreams.get(streamId);
+      if (!stream || !canManageCohosts(session.userId, session.userRole, stream.broadcasterId)) {
+        socket.emit('cohost:error', { error: 'Only the host can approve guests' });
+        return;
+      }
+
+      const request = stream.guestRequests.get(data.guestId);
+      if (!request) {
+        socket.emit('cohost:error', { error: 'Join request not found' });
+        return;
+      }
+
+      const guestSession = streamingSessions.get(data.guestId);
+      const eligibility = guestSession
+        ? canJoinAsCohost({
+            userId: request.userId,
+            userRole: guestSession.userRole,
+            hostId: stream.broadcasterId,
+            guestIds: Array.from(stream.guests.values()).map(guest => guest.userId),
+          })
+        : { allowed: false, reason: 'Guest is no longer connected' };
+
+      if (!eligibility.allowed) {
+        socket.emit('cohost:error', { error: eligibility.reason });
+        return;
+      }
+
+      promoteGuest(streamId, data.guestId, request);
+    });
+
+    // Handle the host turning down a join request
+    socket.on('cohost:deny', (data: { guestId: string }) => {
+      const streamId = socket.streamId;
+      if (!streamId || socket.role !== 'BROADCASTER') return;
+
+      const stream = activeStreams.get(streamId);
+      if (stream && stream.guestRequests.delete(data.guestId)) {
+        streamingNamespace.to(data.guestId).emit('cohost:denied');
+        logger.info('Co-host denied', { streamId, guestId: data.guestId });
+      }
+    });
+
+    // Handle the host dropping a guest from the stage
+    socket.on('cohost:remove', (data: { guestId: string }) => {
+      const streamId = socket.streamId;
+      const session = streamingSessions.get(socket.id);
+      if (!streamId || !session || socket.role !== 'BROADCASTER') return;
+
+      const stream = activeStreams.get(streamId);
+      if (!stream || !canManageCohosts(session.userId, session.userRole, stream.broadcasterId)) {
+        socket.emit('cohost:error', { error: 'Only the host can remove guests' });
+        return;
+      }
+
+      removeGuest(streamId, data.guestId, 'removed');
+    });
+
+    // Handle a guest stepping off stage
+    socket.on('cohost:leave', () => {
+      const streamId = socket.streamId;
+      if (streamId && socket.role === 'GUEST') {
+        removeGuest(streamId, socket.id, 'left');
+      }
+    });
+
+    // Handle the host switching how feeds are arranged
+    socket.on('cohost:set-layout', (data: { layout: StageLayout }) => {
+      const streamId = socket.streamId;
+      if (!streamId || socket.role !== 'BROADCASTER') return;
+
+      const stream = activeStreams.get(streamId);
+      if (stream && ['side-by-side', 'picture-in-picture'].includes(data.layout)) {
+        stream.layout = data.layout;
+        broadcastLayout(streamId);
+      }
+    });
+
     // Handle stream quality changes
     socket.on('stream-quality-change', (data: { quality: string; bitrate: number }) => {
       const streamId = socket.streamId;
@@ -287,12 +633,20 @@ export function setupStreamingSignaling(io: Server) {
             activeStreams.delete(streamId);
             logger.info('Broadcaster disconnected - stream ended', { streamId });
           }
+        } else if (role === 'GUEST' && streamId) {
+          // Guest disconnected - clear them off stage
+          removeGuest(streamId, socket.id, 'disconnected');
         } else if (role === 'VIEWER' && streamId) {
           // Viewer disconnected - update count
           const stream = activeStreams.get(streamId);
           if (stream) {
             stream.viewers.delete(socket.id);
             
+            // Drop any pending request to join the stage
+            if (stream.guestRequests.delete(socket.id)) {
+              streamingNamespace.to(stream.broadcasterSocket).emit('cohost:request-cancelled', { guestId: socket.id });
+            }
+            
             // Update viewer count
             streamingNamespace.to(`stream:${streamId}`).emit('viewer-count-update', {
               count: stream.viewers.size,
@@ -327,6 +681,13 @@ export function getAllActiveStreams() {
   return Array.from(activeStreams.values());
 }
 
+export function getStreamGuests(streamId: string) {
+  const stream = activeStreams.get(streamId);
+  return stream
+    ? Array.from(stream.guests.entries()).map(([guestId, guest]) => ({ guestId, ...guest }))
+    : [];
+}
+
 export function getStreamViewerCount(streamId: string): number {
   const stream = activeStreams.get(streamId);
   return stream ? stream.viewers.size : 0;
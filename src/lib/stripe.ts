@@ -149,6 +149,13 @@ export async function createStripePrice(
   }
 }
 
+export interface SubscriptionCheckoutOptions {
+  trialDays?: number;
+  couponId?: string;
+  // Stripe requires at least 30 minutes
+  expiresAt?: Date;
+}
+
 /**
  * Create a Stripe Checkout session for subscription
  */
@@ -158,7 +165,8 @@ export async function createCheckoutSession(
   stripeAccountId: string,
   successUrl: string,
   cancelUrl: string,
-  metadata: Record<string, string>
+  metadata: Record<string, string>,
+  options: SubscriptionCheckoutOptions = {}
 ): Promise<string> {
   try {
     const session = await stripe.checkout.sessions.create(
@@ -177,7 +185,11 @@ export async function createCheckoutSession(
         metadata,
         subscription_data: {
           metadata,
+          ...(options.trialDays &&
+            options.trialDays > 0 && { trial_period_days: options.trialDays }),
         },
+        ...(options.couponId && { discounts: [{ coupon: options.couponId }] }),
+        ...(options.expiresAt && { expires_at: Math.floor(options.expiresAt.getTime() / 1000) }),
         payment_intent_data: {
           application_fee_amount: Math.round(parseFloat(metadata.amount) * 100 * 0.05), // 5% platform fee
         },
@@ -194,6 +206,145 @@ export async function createCheckoutSession(
   }
 }
 
+/**
+ * Create a coupon that discounts a subscription for its first N months
+ */
+export async function createIntroductoryCoupon(
+  amountOff: number,
+  durationInMonths: number,
+  stripeAccountId: string
+): Promise<string> {
+  try {
+    const coupon = await stripe.coupons.create(
+      {
+        amount_off: Math.round(amountOff * 100), // Convert to cents
+        currency: 'usd',
+        duration: 'repeating',
+        duration_in_months: durationInMonths,
+        name: 'Introductory price',
+      },
+      {
+        stripeAccount: stripeAccountId,
+      }
+    );
+
+    return coupon.id;
+  } catch (error) {
+    console.error('Error creating introductory coupon:', error);
+    throw new Error('Failed to create introductory coupon');
+  }
+}
+
+/**
+ * Create a Stripe coupon backing an artist promo code on their connected account.
+ * Redemption caps and expiry are enforced by the platform when checkout holds a redemption.
+ */
+export async function createPromoCodeCoupon(
+  stripeAccountId: string,
+  promo: {
+    promoCodeId: string;
+    code: string;
+    discountType: 'PERCENT' | 'AMOUNT';
+    discountValue: number;
+    durationMonths: number;
+  }
+): Promise<string> {
+  try {
+    const coupon = await stripe.coupons.create(
+      {
+        name: promo.code,
+        ...(promo.discountType === 'PERCENT'
+          ? { percent_off: promo.discountValue }
+          : { amount_off: Math.round(promo.discountValue * 100), currency: 'usd' }),
+        duration: 'repeating',
+        duration_in_months: promo.durationMonths,
+        metadata: {
+          promo_code_id: promo.promoCodeId,
+          promo_code: promo.code,
+        },
+      },
+      {
+        stripeAccount: stripeAccountId,
+      }
+    );
+
+    return coupon.id;
+  } catch (error) {
+    console.error('Error creating promo code coupon:', error);
+    throw new Error('Failed to create promo code coupon');
+  }
+}
+
+/**
+ * Delete the Stripe coupon behind a promo code so it can no longer be applied
+ */
+export async function deletePromoCodeCoupon(
+  stripeAccountId: string,
+  couponId: string
+): Promise<void> {
+  try {
+    await stripe.coupons.del(couponId, {
+      stripeAccount: stripeAccountId,
+    });
+  } catch (error) {
+    console.error('Error deleting promo code coupon:', error);
+    throw new Error('Failed to delete promo code coupon');
+  }
+}
+
+/**
+ * Create a Stripe Checkout session for a one-time payment (e.g. a content unlock)
+ */
+export async function createPaymentCheckoutSession(
+  productName: string,
+  amount: number,
+  customerId: string,
+  stripeAccountId: string,
+  successUrl: string,
+  cancelUrl: string,
+  metadata: Record<string, string>,
+  expiresAt?: Date
+): Promise<string> {
+  try {
+    const session = await stripe.checkout.sessions.create(
+      {
+        mode: 'payment',
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: productName,
+              },
+              unit_amount: Math.round(amount * 100), // Convert to cents
+            },
+            quantity: 1,
+          },
+        ],
+        customer: customerId,
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        metadata,
+        // Stripe requires at least 30 minutes
+        ...(expiresAt && { expires_at: Math.floor(expiresAt.getTime() / 1000) }),
+        payment_intent_data: {
+          metadata,
+          application_fee_amount: Math.round(amount * 100 * 0.05), // 5% platform fee
+        },
+      },
+      {
+        stripeAccount: stripeAccountId,
+      }
+    );
+
+    return session.url!;
+  } catch (error) {
+    console.error('Error creating payment checkout session:', error);
+    throw new Error('Failed to create payment checkout session');
+  }
+}
+
 /**
  * Create or retrieve a Stripe customer
  */
@@ -261,3 +412,126 @@ export async function createCustomerPortalSession(
     throw new Error('Failed to create customer portal session');
   }
 }
+
+/**
+ * Create the product and monthly price for a multi-artist bundle.
+ * Bundles span several connected accounts, so they live on the platform account.
+ */
+export async function createBundleProductAndPrice(
+  name: string,
+  description: string,
+  amount: number
+): Promise<{ productId: string; priceId: string }> {
+  try {
+    const product = await stripe.products.create({
+      name,
+      description,
+      type: 'service',
+      metadata: { type: 'bundle' },
+    });
+
+    const price = await stripe.prices.create({
+      product: product.id,
+      unit_amount: Math.round(amount * 100), // Convert to cents
+      currency: 'usd',
+      recurring: {
+        interval: 'month',
+      },
+    });
+
+    return { productId: product.id, priceId: price.id };
+  } catch (error) {
+    console.error('Error creating bundle product:', error);
+    throw new Error('Failed to create bundle product');
+  }
+}
+
+/**
+ * Create or retrieve a customer on the platform account
+ */
+export async function createOrRetrievePlatformCustomer(
+  email: string,
+  name: string
+): Promise<string> {
+  try {
+    const existingCustomers = await stripe.customers.list({
+      email,
+      limit: 1,
+    });
+
+    if (existingCustomers.data.length > 0) {
+      return existingCustomers.data[0].id;
+    }
+
+    const customer = await stripe.customers.create({
+      email,
+      name,
+    });
+
+    return customer.id;
+  } catch (error) {
+    console.error('Error creating/retrieving platform customer:', error);
+    throw new Error('Failed to create/retrieve customer');
+  }
+}
+
+/**
+ * Create a Stripe Checkout session for a bundle subscription on the platform account
+ */
+export async function createBundleCheckoutSession(
+  priceId: string,
+  customerId: string,
+  successUrl: string,
+  cancelUrl: string,
+  metadata: Record<string, string>
+): Promise<string> {
+  try {
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      payment_method_types: ['card'],
+      line_items: [
+        {
+          price: priceId,
+          quantity: 1,
+        },
+      ],
+      customer: customerId,
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      metadata,
+      subscription_data: {
+        metadata,
+      },
+    });
+
+    return session.url!;
+  } catch (error) {
+    console.error('Error creating bundle checkout session:', error);
+    throw new Error('Failed to create checkout session');
+  }
+}
+
+/**
+ * Transfer an artist's share of platform-collected revenue to their connected account
+ */
+export async function createArtistTransfer(
+  amount: number,
+  stripeAccountId: string,
+  transferGroup: string,
+  metadata: Record<string, string>
+): Promise<string> {
+  try {
+    const transfer = await stripe.transfers.create({
+      amount: Math.round(amount * 100), // Convert to cents
+      currency: 'usd',
+      destination: stripeAccountId,
+      transfer_group: transferGroup,
+      metadata,
+    });
+
+    return transfer.id;
+  } catch (error) {
+    console.error('Error creating artist transfer:', error);
+    throw new Error('Failed to create artist transfer');
+  }
+}
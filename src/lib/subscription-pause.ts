@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type Stripe from 'stripe';
+import { prisma } from './prisma';
+import { stripe } from './stripe';
+import { SubscriptionStatus } from '@/types/database';
+
+export const MAX_PAUSE_MONTHS = 3;
+
+export const subscriptionPauseSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('pause'),
+    months: z
+      .number()
+      .int()
+      .min(1, 'Pause for at least one month')
+      .max(MAX_PAUSE_MONTHS, `Maximum pause is ${MAX_PAUSE_MONTHS} months`),
+  }),
+  z.object({
+    action: z.literal('resume'),
+  }),
+]);
+
+export type SubscriptionPauseInput = z.infer<typeof subscriptionPauseSchema>;
+
+interface PausableSubscription {
+  id: string;
+  stripeSubscriptionId: string;
+}
+
+/**
+ * When a pause started now should end, counted in calendar months
+ */
+export function calculatePauseResumeDate(start: Date, months: number): Date {
+  const resumesAt = new Date(start);
+  resumesAt.setMonth(resumesAt.getMonth() + months);
+  return resumesAt;
+}
+
+/**
+ * Pause billing and access for a subscription. Stripe voids invoices while
+ * collection is paused and resumes it on its own at `resumes_at`.
+ */
+export async function pauseSubscription(subscription: PausableSubscription, months: number) {
+  const pausedAt = new Date();
+  const resumesAt = calculatePauseResumeDate(pausedAt, months);
+
+  await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+    pause_collection: {
+      behavior: 'void',
+      resumes_at: Math.floor(resumesAt.getTime() / 1000),
+    },
+  });
+
+  await prisma.subscriptions.update({
+    where: { id: subscription.id },
+    data: {
+      status: SubscriptionStatus.PAUSED,
+      pausedAt,
+      pauseResumesAt: resumesAt,
+      updatedAt: pausedAt,
+    },
+  });
+
+  return { pausedAt, resumesAt };
+}
+
+/**
+ * Resume a paused subscription ahead of schedule, or catch up on one Stripe
+ * already resumed
+ */
+export async function resumeSubscription(subscription: PausableSubscription) {
+  await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+    pause_collection: '',
+  });
+
+  return prisma.subscriptions.update({
+    where: { id: subscription.id },
+    data: {
+      status: SubscriptionStatus.ACTIVE,
+      pausedAt: null,
+      pauseResumesAt: null,
+      updatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Local status and pause fields for a subscription as Stripe reports it.
+ * Stripe keeps paused subscriptions `active`, so pause_collection decides.
+ */
+export function getStripePauseState(
+  stripeSubscription: Pick<Stripe.Subscription, 'status' | 'pause_collection'>,
+  pausedAt?: Date | null
+) {
+  if (stripeSubscription.pause_collection) {
+    const resumesAt = stripeSubscription.pause_collection.resumes_at;
+
+    return {
+      status: SubscriptionStatus.PAUSED as string,
+      pausedAt: pausedAt || new Date(),
+      pauseResumesAt: resumesAt ? new Date(resumesAt * 1000) : null,
+    };
+  }
+
+  return {
+    status: stripeSubscription.status.toUpperCase(),
+    pausedAt: null,
+    pauseResumesAt: null,
+  };
+}
+
+/**
+ * First billing date once a paused subscription resumes. Periods keep rolling
+ * during a pause, so this is the first period end on or after the resume date.
+ */
+export function getNextBillingDate(
+  stripeSubscription: Pick<Stripe.Subscription, 'current_period_end' | 'pause_collection'>
+): Date {
+  const nextBillingDate = new Date(stripeSubscription.current_period_end * 1000);
+  const resumesAt = stripeSubscription.pause_collection?.resumes_at;
+
+  if (resumesAt) {
+    while (nextBillingDate.getTime() < resumesAt * 1000) {
+      nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
+    }
+  }
+
+  return nextBillingDate;
+}
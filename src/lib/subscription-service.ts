@@ -91,14 +91,31 @@ export async function getArtistSubscriptionStats(artistId: string) {
     SELECT 
       s.status,
       COUNT(*)::int as count,
-      COALESCE(SUM(s.amount), 0)::float as total_revenue
+      COALESCE(SUM(CASE WHEN s.status = 'TRIALING' THEN 0 ELSE s.amount END), 0)::float as total_revenue
     FROM subscriptions s
     JOIN tiers t ON s."tierId" = t.id
     WHERE t."artistId" = ${artistId}
     GROUP BY s.status
   `;
 
-  return stats.reduce(
+  // Trials that became paid subscriptions, and subscriptions still on an intro price
+  const [offerStats] = await prisma.$queryRaw<
+    Array<{
+      converted_trials: number;
+      intro_count: number;
+      intro_revenue: number;
+    }>
+  >`
+    SELECT
+      COUNT(*) FILTER (WHERE s."trialEndsAt" IS NOT NULL AND s.status = 'ACTIVE')::int as converted_trials,
+      COUNT(*) FILTER (WHERE s."introPriceEndsAt" > NOW() AND s.status = 'ACTIVE')::int as intro_count,
+      COALESCE(SUM(COALESCE(t."introPrice", s.amount)) FILTER (WHERE s."introPriceEndsAt" > NOW() AND s.status = 'ACTIVE'), 0)::float as intro_revenue
+    FROM subscriptions s
+    JOIN tiers t ON s."tierId" = t.id
+    WHERE t."artistId" = ${artistId}
+  `;
+
+  const result = stats.reduce(
     (acc, stat) => {
       acc[stat.status.toLowerCase()] = {
         count: stat.count,
@@ -108,6 +125,13 @@ export async function getArtistSubscriptionStats(artistId: string) {
     },
     {} as Record<string, { count: number; revenue: number }>
   );
+
+  if (offerStats) {
+    result.converted_trials = { count: offerStats.converted_trials, revenue: 0 };
+    result.intro_pricing = { count: offerStats.intro_count, revenue: offerStats.intro_revenue };
+  }
+
+  return result;
 }
 
 /**
@@ -142,7 +166,7 @@ export async function getActiveSubscriptions(
     FROM subscriptions s
     JOIN tiers t ON s."tierId" = t.id
     WHERE s."fanId" = ${fanId}
-      AND s.status = 'ACTIVE'
+      AND s.status IN ('ACTIVE', 'TRIALING')
       AND s."currentPeriodEnd" >= NOW()
       ${whereClause}
   `;
@@ -0,0 +1,409 @@
+import { prisma } from './prisma';
+import type Stripe from 'stripe';
+import type { InvoiceItem } from './billing';
+
+export type TaxJurisdiction = 'EU' | 'UK';
+
+/**
+ * Standard VAT rates for digital services, keyed by ISO 3166-1 alpha-2 country code.
+ * Fans are billed the tier price as shown, so these rates are applied tax-inclusive.
+ */
+export const VAT_RATES: Record<string, number> = {
+  AT: 0.2,
+  BE: 0.21,
+  BG: 0.2,
+  CY: 0.19,
+  CZ: 0.21,
+  DE: 0.19,
+  DK: 0.25,
+  EE: 0.24,
+  ES: 0.21,
+  FI: 0.255,
+  FR: 0.2,
+  GR: 0.24,
+  HR: 0.25,
+  HU: 0.27,
+  IE: 0.23,
+  IT: 0.22,
+  LT: 0.21,
+  LU: 0.17,
+  LV: 0.21,
+  MT: 0.18,
+  NL: 0.21,
+  PL: 0.23,
+  PT: 0.23,
+  RO: 0.21,
+  SE: 0.25,
+  SI: 0.22,
+  SK: 0.23,
+  GB: 0.2,
+};
+
+// Stripe tax ID types that count as a VAT registration for reverse charge
+const VAT_TAX_ID_TYPES = ['eu_vat', 'gb_vat'];
+
+// VAT numbers are prefixed with the country code, except Greece which uses EL
+const VAT_NUMBER_PREFIXES: Record<string, string> = {
+  GR: 'EL',
+};
+
+export interface TaxCalculationInput {
+  grossAmount: number;
+  country?: string | null;
+  vatNumber?: string | null;
+}
+
+export interface TaxCalculation {
+  country: string | null;
+  jurisdiction: TaxJurisdiction | null;
+  rate: number;
+  netAmount: number;
+  taxAmount: number;
+  grossAmount: number;
+  reverseCharge: boolean;
+  vatNumber: string | null;
+}
+
+export interface TaxReportRow {
+  country: string;
+  jurisdiction: TaxJurisdiction | null;
+  invoiceCount: number;
+  grossAmount: number;
+  netAmount: number;
+  taxAmount: number;
+  reverseChargeCount: number;
+  reverseChargeAmount: number;
+}
+
+export interface TaxReport {
+  period: string;
+  periodStart: Date;
+  periodEnd: Date;
+  sellerCountry: string;
+  jurisdictions: TaxReportRow[];
+  totals: {
+    invoiceCount: number;
+    grossAmount: number;
+    netAmount: number;
+    taxAmount: number;
+  };
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Country the platform is established in, which decides when reverse charge applies
+ */
+export function getSellerCountry(): string {
+  return (process.env.TAX_SELLER_COUNTRY || 'US').toUpperCase();
+}
+
+export function getTaxJurisdiction(country?: string | null): TaxJurisdiction | null {
+  if (!country) return null;
+
+  const code = country.toUpperCase();
+  if (code === 'GB') return 'UK';
+  return VAT_RATES[code] !== undefined ? 'EU' : null;
+}
+
+/**
+ * Normalise a VAT number and check it has the right shape for the country.
+ * This is a format check only; it doesn't confirm the number is registered.
+ */
+export function normalizeVatNumber(vatNumber: string, country: string): string | null {
+  const code = country.toUpperCase();
+  const prefix = VAT_NUMBER_PREFIXES[code] || code;
+  const normalized = vatNumber.replace(/[\s.-]/g, '').toUpperCase();
+  const withPrefix = normalized.startsWith(prefix) ? normalized : `${prefix}${normalized}`;
+
+  return /^[A-Z]{2}[0-9A-Z]{8,12}$/.test(withPrefix) ? withPrefix : null;
+}
+
+/**
+ * Work out the VAT contained in a payment from the fan's billing country.
+ * Business customers with a VAT number outside the seller's country are reverse charged,
+ * so no VAT is collected and they account for it themselves.
+ */
+export function calculateTax(input: TaxCalculationInput): TaxCalculation {
+  const grossAmount = roundCurrency(input.grossAmount);
+  const country = input.country ? input.country.toUpperCase() : null;
+  const jurisdiction = getTaxJurisdiction(country);
+
+  if (!country || !jurisdiction) {
+    return {
+      country,
+      jurisdiction: null,
+      rate: 0,
+      netAmount: grossAmount,
+      taxAmount: 0,
+      grossAmount,
+      reverseCharge: false,
+      vatNumber: null,
+    };
+  }
+
+  const vatNumber = input.vatNumber ? normalizeVatNumber(input.vatNumber, country) : null;
+  const reverseCharge = !!vatNumber && country !== getSellerCountry();
+  const rate = reverseCharge ? 0 : VAT_RATES[country];
+  const netAmount = roundCurrency(grossAmount / (1 + rate));
+
+  return {
+    country,
+    jurisdiction,
+    rate,
+    netAmount,
+    taxAmount: roundCurrency(grossAmount - netAmount),
+    grossAmount,
+    reverseCharge,
+    vatNumber,
+  };
+}
+
+/**
+ * Tax on a Stripe invoice, from the customer's billing address and any VAT ID they gave
+ */
+export function calculateInvoiceTax(
+  invoice: Pick<Stripe.Invoice, 'customer_address' | 'customer_tax_ids'>,
+  grossAmount: number
+): TaxCalculation {
+  return calculateTax({
+    grossAmount,
+    country: invoice.customer_address?.country,
+    vatNumber: invoice.customer_tax_ids?.find(taxId => VAT_TAX_ID_TYPES.includes(taxId.type))
+      ?.value,
+  });
+}
+
+/**
+ * Show line items net of VAT, followed by a separate VAT line.
+ * Prices are tax-inclusive, so the items still add up to the amount charged.
+ */
+export function addTaxLine(lines: InvoiceItem[], tax: TaxCalculation): InvoiceItem[] {
+  if (!tax.jurisdiction || lines.length === 0) {
+    return lines;
+  }
+
+  const ratio = tax.grossAmount > 0 ? tax.netAmount / tax.grossAmount : 1;
+  const netLines = lines.map(line => ({
+    ...line,
+    amount: Math.round(line.amount * ratio * 100) / 100,
+  }));
+
+  // Rounding each line can drift a cent from the net total, so the last line absorbs it
+  const lineTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (Math.abs(lineTotal - tax.grossAmount) < 0.005) {
+    const others = netLines.slice(0, -1).reduce((sum, line) => sum + line.amount, 0);
+    netLines[netLines.length - 1].amount = Math.round((tax.netAmount - others) * 100) / 100;
+  }
+
+  return [
+    ...netLines,
+    {
+      description: getTaxLineDescription(tax),
+      amount: tax.taxAmount,
+      quantity: 1,
+      period: lines[0].period,
+      isTax: true,
+    },
+  ];
+}
+
+/**
+ * Tax columns stored on an invoice row. Only EU and UK invoices are tagged with a country,
+ * so they're the ones that show up in the tax report.
+ */
+export function getInvoiceTaxFields(tax?: TaxCalculation) {
+  return {
+    taxAmount: tax?.taxAmount || 0,
+    taxRate: tax?.jurisdiction ? tax.rate : null,
+    taxCountry: tax?.jurisdiction ? tax.country : null,
+    reverseCharge: tax?.reverseCharge || false,
+    customerVatNumber: tax?.vatNumber || null,
+  };
+}
+
+/**
+ * Tax breakdown for a stored invoice, as shown to the fan and artist
+ */
+export function getInvoiceTaxSummary(invoice: {
+  amount: unknown;
+  taxAmount?: unknown;
+  taxRate?: unknown;
+  taxCountry?: string | null;
+  reverseCharge?: boolean;
+  customerVatNumber?: string | null;
+}) {
+  const total = Number(invoice.amount || 0);
+  const taxAmount = Number(invoice.taxAmount || 0);
+
+  return {
+    country: invoice.taxCountry || null,
+    jurisdiction: getTaxJurisdiction(invoice.taxCountry),
+    rate: invoice.taxRate != null ? Number(invoice.taxRate) : 0,
+    subtotal: roundCurrency(total - taxAmount),
+    taxAmount,
+    total,
+    reverseCharge: !!invoice.reverseCharge,
+    vatNumber: invoice.customerVatNumber || null,
+    notice: invoice.reverseCharge
+      ? 'Reverse charge: VAT to be accounted for by the recipient'
+      : null,
+  };
+}
+
+/**
+ * Invoice line label for the tax on an invoice
+ */
+export function getTaxLineDescription(tax: TaxCalculation): string {
+  if (tax.reverseCharge) {
+    return `VAT reverse charged (customer VAT number ${tax.vatNumber})`;
+  }
+
+  const percentage = Math.round(tax.rate * 1000) / 10;
+  return `VAT ${percentage}% (${tax.country})`;
+}
+
+/**
+ * Parse a tax reporting period, either a month (YYYY-MM) or a quarter (YYYY-Qn), into UTC bounds
+ */
+export function parseTaxPeriod(period: string): { start: Date; end: Date } | null {
+  const month = /^(\d{4})-(\d{2})$/.exec(period);
+  if (month) {
+    const year = parseInt(month[1]);
+    const index = parseInt(month[2]) - 1;
+    if (index < 0 || index > 11) return null;
+
+    return {
+      start: new Date(Date.UTC(year, index, 1)),
+      end: new Date(Date.UTC(year, index + 1, 1)),
+    };
+  }
+
+  const quarter = /^(\d{4})-Q([1-4])$/.exec(period);
+  if (quarter) {
+    const year = parseInt(quarter[1]);
+    const firstMonth = (parseInt(quarter[2]) - 1) * 3;
+
+    return {
+      start: new Date(Date.UTC(year, firstMonth, 1)),
+      end: new Date(Date.UTC(year, firstMonth + 3, 1)),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * VAT collected on paid invoices in a period, broken down by the fan's billing country
+ */
+export async function getTaxReport(period: string): Promise<TaxReport> {
+  const range = parseTaxPeriod(period);
+  if (!range) {
+    throw new Error('Invalid tax period');
+  }
+
+  const groups = await prisma.invoices.groupBy({
+    by: ['taxCountry', 'reverseCharge'],
+    where: {
+      status: 'PAID',
+      taxCountry: { not: null },
+      paidAt: {
+        gte: range.start,
+        lt: range.end,
+      },
+    },
+    _count: { _all: true },
+    _sum: {
+      amount: true,
+      taxAmount: true,
+    },
+  });
+
+  const rows = new Map<string, TaxReportRow>();
+
+  for (const group of groups) {
+    const country = group.taxCountry as string;
+    const row = rows.get(country) || {
+      country,
+      jurisdiction: getTaxJurisdiction(country),
+      invoiceCount: 0,
+      grossAmount: 0,
+      netAmount: 0,
+      taxAmount: 0,
+      reverseChargeCount: 0,
+      reverseChargeAmount: 0,
+    };
+
+    const gross = Number(group._sum.amount || 0);
+    const tax = Number(group._sum.taxAmount || 0);
+
+    row.invoiceCount += group._count._all;
+    row.grossAmount = roundCurrency(row.grossAmount + gross);
+    row.taxAmount = roundCurrency(row.taxAmount + tax);
+    row.netAmount = roundCurrency(row.grossAmount - row.taxAmount);
+
+    if (group.reverseCharge) {
+      row.reverseChargeCount += group._count._all;
+      row.reverseChargeAmount = roundCurrency(row.reverseChargeAmount + gross);
+    }
+
+    rows.set(country, row);
+  }
+
+  const jurisdictions = Array.from(rows.values()).sort((a, b) =>
+    a.country.localeCompare(b.country)
+  );
+
+  return {
+    period,
+    periodStart: range.start,
+    periodEnd: range.end,
+    sellerCountry: getSellerCountry(),
+    jurisdictions,
+    totals: {
+      invoiceCount: jurisdictions.reduce((sum, row) => sum + row.invoiceCount, 0),
+      grossAmount: roundCurrency(jurisdictions.reduce((sum, row) => sum + row.grossAmount, 0)),
+      netAmount: roundCurrency(jurisdictions.reduce((sum, row) => sum + row.netAmount, 0)),
+      taxAmount: roundCurrency(jurisdictions.reduce((sum, row) => sum + row.taxAmount, 0)),
+    },
+  };
+}
+
+export function taxReportToCsv(report: TaxReport): string {
+  const rows: Array<Array<string | number>> = [
+    [
+      'Country',
+      'Jurisdiction',
+      'Invoices',
+      'Gross',
+      'Net',
+      'VAT',
+      'Reverse Charge Invoices',
+      'Reverse Charge Amount',
+    ],
+    ...report.jurisdictions.map(row => [
+      row.country,
+      row.jurisdiction || '',
+      row.invoiceCount,
+      row.grossAmount.toFixed(2),
+      row.netAmount.toFixed(2),
+      row.taxAmount.toFixed(2),
+      row.reverseChargeCount,
+      row.reverseChargeAmount.toFixed(2),
+    ]),
+    [
+      'Total',
+      '',
+      report.totals.invoiceCount,
+      report.totals.grossAmount.toFixed(2),
+      report.totals.netAmount.toFixed(2),
+      report.totals.taxAmount.toFixed(2),
+      '',
+      '',
+    ],
+  ];
+
+  return rows.map(row => row.join(',')).join('\n') + '\n';
+}
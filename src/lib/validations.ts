@@ -54,6 +54,23 @@ export const createTierSchema = z.object({
     .number()
     .min(1, 'Minimum price must be at least $1')
     .max(1000, 'Maximum price is $1000'),
+  trialDays: z
+    .number()
+    .int()
+    .min(0, 'Trial length cannot be negative')
+    .max(90, 'Maximum trial length is 90 days')
+    .optional(),
+  introPrice: z
+    .number()
+    .min(0.5, 'Introductory price must be at least $0.50')
+    .nullable()
+    .optional(),
+  introMonths: z
+    .number()
+    .int()
+    .min(0, 'Introductory period cannot be negative')
+    .max(12, 'Maximum introductory period is 12 months')
+    .optional(),
 });
 
 export const updateTierSchema = createTierSchema.partial().extend({
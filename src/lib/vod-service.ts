@@ -1,4 +1,6 @@
 import { MediaConvert, S3 } from 'aws-sdk';
+import { prisma } from './prisma';
+import { generateStreamChapters } from './stream-chapters';
 
 // Initialize AWS services
 const mediaConvert = new MediaConvert({
@@ -306,6 +308,19 @@ export async function processStreamRecording(
       });
     }
 
+    // Mark chat, tip and poll spikes as chapters on the stream's recording
+    const recording = await prisma.stream_recordings.findFirst({
+      where: { streamId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (recording) {
+      generateStreamChapters(recording.id).catch(error => {
+        console.error('Chapter generation failed:', error);
+      });
+    }
+
     return vodJob;
   } catch (error) {
     console.error('Error processing stream recording:', error);
@@ -3,6 +3,14 @@ import { getToken } from 'next-auth/jwt';
 import { prisma } from './prisma';
 import { logger } from './logger';
 import { WebRTCHandler } from './webrtc-handler';
+import { AppError } from './errors';
+import { moderateMessageText } from './ai-content-moderation';
+import {
+  encryptionEnvelopeSchema,
+  resolveMessageEncryption,
+  type EncryptedMessageFields,
+  type EncryptionEnvelope,
+} from './encrypted-messages';
 import {
   createConversationId,
   type ServerToClientEvents,
@@ -197,6 +205,7 @@ export class WebSocketHandler {
       content: string;
       type?: 'TEXT' | 'IMAGE' | 'AUDIO';
       attachmentUrl?: string;
+      encryption?: EncryptionEnvelope;
     }
   ) {
     const { userId } = socket.data;
@@ -207,6 +216,11 @@ export class WebSocketHandler {
       return;
     }
 
+    if (data.encryption && !encryptionEnvelopeSchema.safeParse(data.encryption).success) {
+      socket.emit('error', 'Invalid encryption data');
+      return;
+    }
+
     // Check if recipient exists
     const recipient = await prisma.users.findUnique({
       where: { id: data.recipientId },
@@ -218,6 +232,35 @@ export class WebSocketHandler {
       return;
     }
 
+    // Paid DMs need a checkout, so they can only be sent through POST /api/messages
+    if (socket.data.user.role === 'FAN' && recipient.role === 'ARTIST') {
+      const artist = await prisma.artists.findUnique({
+        where: { userId: recipient.id },
+        select: { dmPrice: true },
+      });
+
+      if (Number(artist?.dmPrice) > 0) {
+        socket.emit('error', 'This artist charges for messages');
+        return;
+      }
+    }
+
+    let encryptedFields: EncryptedMessageFields;
+    try {
+      encryptedFields = await resolveMessageEncryption(
+        userId,
+        data.recipientId,
+        data.content.trim(),
+        data.encryption
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        socket.emit('error', error.message);
+        return;
+      }
+      throw error;
+    }
+
     // Create message in database
     const message = await prisma.messages.create({
       data: {
@@ -226,6 +269,7 @@ export class WebSocketHandler {
         content: data.content.trim(),
         type: data.type || 'TEXT',
         attachmentUrl: data.attachmentUrl,
+        ...encryptedFields,
       },
       include: {
         sender: {
@@ -255,6 +299,17 @@ export class WebSocketHandler {
       });
     }
 
+    const moderation = moderateMessageText(message.content, {
+      isEncrypted: message.isEncrypted,
+    });
+    if (moderation.flags.length > 0) {
+      logger.warn('Message flagged by moderation', {
+        messageId: message.id,
+        senderId: userId,
+        flags: moderation.flags.map(flag => flag.type),
+      });
+    }
+
     logger.info('Message sent', {
       messageId: message.id,
       senderId: userId,
@@ -279,7 +334,7 @@ export class WebSocketHandler {
     }
 
     // Only recipient can mark message as read
-    if (message.recipientId !== userId) {
+    if (!message.recipientId || message.recipientId !== userId) {
       socket.emit('error', 'Unauthorized to mark this message as read');
       return;
     }
@@ -21,6 +21,7 @@ export enum SubscriptionStatus {
   INCOMPLETE_EXPIRED = 'INCOMPLETE_EXPIRED',
   TRIALING = 'TRIALING',
   UNPAID = 'UNPAID',
+  PAUSED = 'PAUSED',
 }
 
 // Base User interface
@@ -71,6 +72,9 @@ export interface Tier {
   name: string;
   description: string;
   minimumPrice: number;
+  trialDays?: number;
+  introPrice?: number | null;
+  introMonths?: number;
   isActive: boolean;
   subscriberCount: number;
   createdAt: Date;
@@ -104,10 +108,25 @@ export interface Content {
   duration?: number | null;
   format: string;
   tags: string[];
+  price?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One-time purchase of a single piece of content
+export interface ContentPurchase {
+  id: string;
+  contentId: string;
+  fanId: string;
+  amount: number;
+  currency: string;
+  status: 'COMPLETED' | 'REFUNDED';
+  stripeSessionId: string;
+  stripePaymentIntentId?: string | null;
+  purchasedAt: Date;
+  updatedAt: Date;
+}
+
 // Extended Content interface with relations
 export interface ContentWithArtist extends Content {
   artist: User;
@@ -134,6 +153,11 @@ export interface Subscription {
   status: SubscriptionStatus;
   currentPeriodStart: Date;
   currentPeriodEnd: Date;
+  trialEndsAt?: Date | null;
+  introPriceEndsAt?: Date | null;
+  autoRenew?: boolean;
+  pausedAt?: Date | null;
+  pauseResumesAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
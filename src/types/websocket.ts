@@ -12,11 +12,31 @@ export interface Message {
   content: string;
   type: 'TEXT' | 'IMAGE' | 'AUDIO';
   attachmentUrl?: string | null;
+  // Locked attachments arrive without a URL until the recipient pays
+  attachmentPreviewUrl?: string | null;
+  attachmentPrice?: number | null;
+  isLocked?: boolean;
+  // Paid DMs aren't delivered until the sender pays
+  dmFee?: number | null;
+  awaitingPayment?: boolean;
+  // End-to-end encrypted messages carry ciphertext in `content`
+  isEncrypted?: boolean;
+  encryptionIv?: string | null;
+  senderKeyId?: string | null;
+  recipientKeyId?: string | null;
+  // Set on the client when this device has no key to open the message
+  undecryptable?: boolean;
   createdAt: Date | string;
   readAt?: Date | string | null;
   sender: User;
 }
 
+export interface MessageEncryption {
+  iv: string;
+  senderKeyId: string;
+  recipientKeyId: string;
+}
+
 export interface TypingUser {
   userId: string;
   displayName: string;
@@ -73,6 +93,7 @@ export interface ClientToServerEvents {
     content: string;
     type?: 'TEXT' | 'IMAGE' | 'AUDIO';
     attachmentUrl?: string;
+    encryption?: MessageEncryption;
   }) => void;
   'message:mark_read': (data: { messageId: string }) => void;
 